@@ -0,0 +1,129 @@
+import { readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+
+// Generates src/lib/data/rows.ts from the CREATE TABLE statements in
+// supabase/schema.sql. Run with `npm run gen:rows` after changing a table.
+
+const SCHEMA_PATH = join(__dirname, "..", "supabase", "schema.sql");
+const OUTPUT_PATH = join(__dirname, "..", "src", "lib", "data", "rows.ts");
+
+const TYPE_MAP: Array<[RegExp, string]> = [
+  [/^(UUID|TEXT|VARCHAR|CHAR)/, "string"],
+  [/^(TIMESTAMPTZ|TIMESTAMP|DATE|TIME)/, "string"],
+  [/^(INTEGER|INT|BIGINT|SMALLINT|DOUBLE PRECISION|REAL|NUMERIC)/, "number"],
+  [/^BOOLEAN/, "boolean"],
+  [/^JSONB?/, "Json"],
+  // PostgREST returns geography columns as hex-encoded EWKB
+  [/^GEOGRAPHY/, "string"],
+];
+
+interface Column {
+  name: string;
+  tsType: string;
+  nullable: boolean;
+  hasDefault: boolean;
+  generated: boolean;
+}
+
+interface Table {
+  name: string;
+  columns: Column[];
+}
+
+function mapType(sqlType: string, column: string, table: string): string {
+  const isArray = /\[\]$/.test(sqlType);
+  const base = sqlType.replace(/\[\]$/, "");
+  const match = TYPE_MAP.find(([pattern]) => pattern.test(base));
+  if (!match) {
+    throw new Error(`Unknown type ${sqlType} for ${table}.${column}`);
+  }
+  return isArray ? `${match[1]}[]` : match[1];
+}
+
+function parseTables(sql: string): Table[] {
+  const tables: Table[] = [];
+  const tablePattern = /CREATE TABLE IF NOT EXISTS (\w+) \(\n([\s\S]*?)\n\);/g;
+
+  for (const [, name, body] of sql.matchAll(tablePattern)) {
+    const lines = body.split("\n");
+    const primaryKey = body.match(/^\s*PRIMARY KEY \(([^)]+)\)/m);
+    const compositeKey = new Set(primaryKey ? primaryKey[1].split(",").map((c) => c.trim()) : []);
+
+    const columns: Column[] = [];
+    for (const line of lines) {
+      // Column definitions are indented two spaces and start with a lowercase
+      // name; constraints and continuation lines don't
+      const match = line.match(/^ {2}([a-z_][a-z0-9_]*) ((?:DOUBLE PRECISION|[A-Z]+)(?:\([^)]*\))?(?:\[\])?)(.*)$/);
+      if (!match) continue;
+
+      const [, columnName, sqlType, rest] = match;
+      const isPrimaryKey = /PRIMARY KEY/.test(rest) || compositeKey.has(columnName);
+      columns.push({
+        name: columnName,
+        tsType: mapType(sqlType.trim(), columnName, name),
+        nullable: !isPrimaryKey && !/NOT NULL/.test(rest),
+        hasDefault: /DEFAULT/.test(rest),
+        generated: /GENERATED/.test(rest),
+      });
+    }
+
+    tables.push({ name, columns });
+  }
+
+  return tables;
+}
+
+function typeName(table: string): string {
+  const singular = table.endsWith("ies")
+    ? `${table.slice(0, -3)}y`
+    : table.endsWith("s")
+      ? table.slice(0, -1)
+      : table;
+  return singular
+    .split("_")
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+}
+
+function render(tables: Table[]): string {
+  const out: string[] = [
+    "/**",
+    " * Row types for every table in supabase/schema.sql.",
+    " * Generated by scripts/generate-row-types.ts; run `npm run gen:rows` instead of editing.",
+    " */",
+    "",
+    "export type Json = string | number | boolean | null | { [key: string]: Json } | Json[];",
+    "",
+  ];
+
+  for (const table of tables) {
+    const name = typeName(table.name);
+
+    out.push(`export interface ${name}Row {`);
+    for (const column of table.columns) {
+      out.push(`  ${column.name}: ${column.tsType}${column.nullable ? " | null" : ""};`);
+    }
+    out.push("}", "");
+
+    out.push(`export interface ${name}Insert {`);
+    for (const column of table.columns) {
+      if (column.generated) continue;
+      const optional = column.nullable || column.hasDefault;
+      out.push(`  ${column.name}${optional ? "?" : ""}: ${column.tsType}${column.nullable ? " | null" : ""};`);
+    }
+    out.push("}", "");
+  }
+
+  out.push("export interface Tables {");
+  for (const table of tables) {
+    const name = typeName(table.name);
+    out.push(`  ${table.name}: { Row: ${name}Row; Insert: ${name}Insert };`);
+  }
+  out.push("}", "");
+
+  return out.join("\n");
+}
+
+const tables = parseTables(readFileSync(SCHEMA_PATH, "utf8"));
+writeFileSync(OUTPUT_PATH, render(tables));
+console.log(`Wrote ${tables.length} tables to ${OUTPUT_PATH}`);
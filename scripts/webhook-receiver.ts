@@ -0,0 +1,33 @@
+import { createServer } from "http";
+import { verifyWebhookSignature } from "../src/lib/webhooks";
+
+// A local endpoint for trying out list webhooks. Add http://localhost:4000
+// as a webhook in the list settings, then run
+//   WEBHOOK_SECRET=whsec_... npm run webhooks:receive
+// and trigger deliveries with
+//   curl -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/webhooks/deliver
+// Set WEBHOOK_FAIL=1 to answer 500 and watch the retries in the delivery log.
+
+const port = Number(process.env.PORT || 4000);
+const secret = process.env.WEBHOOK_SECRET;
+const fail = process.env.WEBHOOK_FAIL === "1";
+
+createServer(async (request, response) => {
+  let body = "";
+  for await (const chunk of request) body += chunk;
+
+  const header = request.headers["x-webhook-signature"];
+  const valid = secret ? await verifyWebhookSignature(secret, body, typeof header === "string" ? header : null) : null;
+
+  console.log(`\n${request.headers["x-webhook-event"]} ${request.headers["x-webhook-delivery"]}`);
+  console.log(`signature: ${valid === null ? "not checked (set WEBHOOK_SECRET)" : valid ? "valid" : "INVALID"}`);
+  try {
+    console.log(JSON.stringify(JSON.parse(body), null, 2));
+  } catch {
+    console.log(body);
+  }
+
+  response.writeHead(valid === false ? 401 : fail ? 500 : 204).end();
+}).listen(port, () => {
+  console.log(`Listening for webhooks on http://localhost:${port}`);
+});
@@ -15,10 +15,17 @@ export default function LoginPage() {
 
     const supabase = createClient();
 
+    // Only paths on this site, so a link can't bounce people elsewhere
+    const next = new URLSearchParams(window.location.search).get("next");
+    const callback = new URL("/auth/callback", window.location.origin);
+    if (next?.startsWith("/") && !next.startsWith("//")) {
+      callback.searchParams.set("next", next);
+    }
+
     const { error } = await supabase.auth.signInWithOAuth({
       provider,
       options: {
-        redirectTo: `${window.location.origin}/auth/callback`,
+        redirectTo: callback.toString(),
       },
     });
 
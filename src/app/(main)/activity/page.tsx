@@ -4,7 +4,7 @@ import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { formatDistanceToNow } from "date-fns";
-import { createClient } from "@/lib/supabase/client";
+import { useData } from "@/lib/data";
 import type { Profile, List, Pin } from "@/types";
 
 interface ActivityItem {
@@ -18,69 +18,43 @@ interface ActivityItem {
 
 export default function ActivityPage() {
   const router = useRouter();
+  const data = useData();
   const [activities, setActivities] = useState<ActivityItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchActivity = async () => {
-      const supabase = createClient();
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
+      const userId = await data.auth.getCurrentUserId();
 
-      if (!user) {
+      if (!userId) {
         router.push("/login");
         return;
       }
 
-      setCurrentUserId(user.id);
+      setCurrentUserId(userId);
 
       // Get users the current user is following
-      const { data: following } = await supabase
-        .from("follows")
-        .select("following_id")
-        .eq("follower_id", user.id);
+      const followingIds = await data.follows.getFollowingIds(userId);
 
-      if (!following || following.length === 0) {
+      if (followingIds.length === 0) {
         setIsLoading(false);
         return;
       }
 
-      const followingIds = following.map((f) => f.following_id);
+      // Profiles, recent pins (with their lists) and recent public lists
+      const [profiles, recentPins, recentLists] = await Promise.all([
+        data.profiles.getMany(followingIds),
+        data.pins.listRecentByUsers(followingIds, 30),
+        data.lists.listPublicByOwners(followingIds, { orderBy: "created_at", limit: 20 }),
+      ]);
 
-      // Fetch profiles of followed users
-      const { data: profiles } = await supabase
-        .from("profiles")
-        .select("*")
-        .in("id", followingIds);
-
-      const profilesMap = new Map(profiles?.map((p) => [p.id, p]) || []);
-
-      // Fetch recent pins from followed users (with their lists)
-      const { data: recentPins } = await supabase
-        .from("pins")
-        .select(`
-          *,
-          list:lists(*)
-        `)
-        .in("user_id", followingIds)
-        .order("created_at", { ascending: false })
-        .limit(30);
-
-      // Fetch recent lists from followed users
-      const { data: recentLists } = await supabase
-        .from("lists")
-        .select("*")
-        .in("user_id", followingIds)
-        .eq("is_public", true)
-        .order("created_at", { ascending: false })
-        .limit(20);
+      const profilesMap = new Map(profiles.map((p) => [p.id, p]));
 
       // Combine into activity items
       const activityItems: ActivityItem[] = [];
 
-      recentPins?.forEach((pin) => {
+      recentPins.forEach((pin) => {
         const user = profilesMap.get(pin.user_id);
         if (user && pin.list?.is_public) {
           activityItems.push({
@@ -93,7 +67,7 @@ export default function ActivityPage() {
         }
       });
 
-      recentLists?.forEach((list) => {
+      recentLists.forEach((list) => {
         const user = profilesMap.get(list.user_id);
         if (user) {
           activityItems.push({
@@ -117,7 +91,7 @@ export default function ActivityPage() {
     };
 
     fetchActivity();
-  }, [router]);
+  }, [router, data]);
 
   if (isLoading) {
     return (
@@ -1,25 +1,27 @@
 "use client";
 
-import { useState, useEffect, useCallback, Suspense, useMemo } from "react";
+import { useState, useEffect, useCallback, useRef, Suspense, useMemo } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { motion } from "framer-motion";
 import { MapView } from "@/components/map/MapView";
-import { MapControls } from "@/components/map/MapControls";
+import { MapControls, type MapMode } from "@/components/map/MapControls";
 import { LayersSheet } from "@/components/map/LayersSheet";
 import { PinDetail } from "@/components/pins/PinDetail";
 import { EditPinForm } from "@/components/pins/EditPinForm";
+import { ItineraryPlanner } from "@/components/itineraries/ItineraryPlanner";
+import { useWalkingRoute } from "@/components/itineraries/ItineraryStops";
 import { BottomSheet, Button, EmptyState, useToast, getRandomToast } from "@/components/ui";
 import { fireConfetti } from "@/components/effects";
-import { createClient } from "@/lib/supabase/client";
-import type { Pin, List, Profile } from "@/types";
-
-interface SavedByInfo {
-  pin: Pin;
-  list: List;
-  owner: Profile;
-}
+import { useData } from "@/lib/data";
+import { draftFromPin, draftFromStop, itineraryPath, MAX_ITINERARY_STOPS, type DraftStop } from "@/lib/itineraries";
+import { createRegionCache, loadPinsForBounds } from "@/lib/pinRegions";
+import { fetchRecommendedSpots, recommendationReason } from "@/lib/recommendations";
+import { fetchTrendingSpots } from "@/lib/trending";
+import type { Itinerary, Pin, List, RecommendedSpot, TrendingSpot, SavedByInfo, MapViewport } from "@/types";
 
 const ENABLED_LAYERS_KEY = "new-fork-city-enabled-layers";
+const TRENDING_MAP_LIMIT = 100;
+const FOR_YOU_MAP_LIMIT = 50;
 
 export default function MapPageWrapper() {
   return (
@@ -38,12 +40,18 @@ export default function MapPageWrapper() {
 function MapPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const data = useData();
 
   // Data state
   const [pins, setPins] = useState<Pin[]>([]);
   const [allPins, setAllPins] = useState<Pin[]>([]);
   const [lists, setLists] = useState<List[]>([]);
+  // Own lists plus followed public lists; pins for these load per viewport
+  const [mapListIds, setMapListIds] = useState<string[]>([]);
   const [enabledLayers, setEnabledLayers] = useState<Set<string>>(new Set());
+  const regionCacheRef = useRef(createRegionCache());
+  const viewportRef = useRef<MapViewport | null>(null);
+  const loadGenerationRef = useRef(0);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [followedUsers, setFollowedUsers] = useState<
     Array<{
@@ -59,92 +67,92 @@ function MapPage() {
   const [selectedPin, setSelectedPin] = useState<Pin | null>(null);
   const [editingPin, setEditingPin] = useState<Pin | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [mapMode, setMapMode] = useState<"pins" | "trending">("pins");
+  const [mapMode, setMapMode] = useState<MapMode>("pins");
   const [showLayersSheet, setShowLayersSheet] = useState(false);
   const [savedByData, setSavedByData] = useState<SavedByInfo[]>([]);
   const [isLoadingSavedBy, setIsLoadingSavedBy] = useState(false);
   const [showSaveSheet, setShowSaveSheet] = useState(false);
   const [isFirstSave, setIsFirstSave] = useState(false);
+  const [trendingSpots, setTrendingSpots] = useState<TrendingSpot[]>([]);
+  const [recommendedSpots, setRecommendedSpots] = useState<RecommendedSpot[] | null>(null);
+  // Planning an itinerary: tapping a pin adds it as the next stop
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [planStops, setPlanStops] = useState<DraftStop[]>([]);
+  const [editingItinerary, setEditingItinerary] = useState<Itinerary | null>(null);
+  const { legs: planLegs, route: planRoute } = useWalkingRoute(planStops);
   const { showToast } = useToast();
 
-  // Calculate list counts for each pin location
+  // Calculate list counts for each place
   const pinListCounts = useMemo(() => {
-    const counts = new Map<string, number>();
-    const tolerance = 0.001;
-
+    const listsByPlace = new Map<string, Set<string>>();
     pins.forEach((pin) => {
-      // Find all pins at this location
-      const nearby = pins.filter(
-        (other) =>
-          Math.abs(other.lat - pin.lat) < tolerance &&
-          Math.abs(other.lng - pin.lng) < tolerance
-      );
-
-      // Count unique lists
-      const uniqueLists = new Set(nearby.map((p) => p.list_id));
-      counts.set(pin.id, uniqueLists.size);
+      if (!pin.place_id) return;
+      if (!listsByPlace.has(pin.place_id)) {
+        listsByPlace.set(pin.place_id, new Set());
+      }
+      listsByPlace.get(pin.place_id)!.add(pin.list_id);
     });
 
-    return counts;
-  }, [pins]);
-
-  // Calculate trending pins (locations with high ratings or on multiple lists)
-  const trendingPins = useMemo(() => {
-    const tolerance = 0.001;
-    const locationMap = new Map<string, Pin[]>();
-
-    // Group pins by location
+    const counts = new Map<string, number>();
     pins.forEach((pin) => {
-      const latKey = Math.round(pin.lat / tolerance);
-      const lngKey = Math.round(pin.lng / tolerance);
-      const key = `${latKey},${lngKey}`;
-
-      if (!locationMap.has(key)) {
-        locationMap.set(key, []);
-      }
-      locationMap.get(key)!.push(pin);
+      counts.set(pin.id, pin.place_id ? listsByPlace.get(pin.place_id)!.size : 1);
     });
 
-    // Filter to trending locations:
-    // - Locations with 2+ unique lists (popular)
-    // - OR locations with high ratings (4-5 stars) and visited
-    const trending: Pin[] = [];
-    locationMap.forEach((pinsAtLocation) => {
-      const uniqueLists = new Set(pinsAtLocation.map((p) => p.list_id));
-      const hasHighRating = pinsAtLocation.some(
-        (p) => p.personal_rating && p.personal_rating >= 4 && p.is_visited
-      );
+    return counts;
+  }, [pins]);
 
-      if (uniqueLists.size >= 2 || hasHighRating) {
-        // Use the highest rated or most recent pin as representative
-        const sorted = [...pinsAtLocation].sort(
-          (a, b) =>
-            (b.personal_rating || 0) - (a.personal_rating || 0) ||
-            new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-        );
-        trending.push(sorted[0]);
-      }
-    });
+  // Track hot spots count for discover button badge (using trending pins)
+  const hotSpotsCount = trendingSpots.length;
 
-    console.log("[Trending] Total pins:", pins.length);
-    console.log("[Trending] Locations found:", locationMap.size);
-    console.log("[Trending] Trending locations:", trending.length);
+  // Trending places this week, ranked in the database like the trending page
+  const trendingListCounts = useMemo(
+    () => new Map(trendingSpots.map((spot) => [spot.id, spot.save_count])),
+    [trendingSpots]
+  );
 
-    return trending;
-  }, [pins]);
+  useEffect(() => {
+    fetchTrendingSpots({ window: "week", limit: TRENDING_MAP_LIMIT }).then(setTrendingSpots);
+  }, []);
 
-  // Track hot spots count for discover button badge (using trending pins)
-  const hotSpotsCount = useMemo(() => {
-    return trendingPins.length;
-  }, [trendingPins]);
+  // Recommendations load the first time "For you" is opened
+  useEffect(() => {
+    if (mapMode !== "for_you" || recommendedSpots) return;
+    fetchRecommendedSpots({ limit: FOR_YOU_MAP_LIMIT }).then(setRecommendedSpots);
+  }, [mapMode, recommendedSpots]);
+
+  // Each suggestion is marked with how many similar people rated it highly
+  const recommenderCounts = useMemo(
+    () => new Map((recommendedSpots ?? []).map((spot) => [spot.id, spot.recommenders])),
+    [recommendedSpots]
+  );
 
-  // Check URL for trending param
+  // Check URL for trending or for_you param
   useEffect(() => {
     if (searchParams.get("trending") === "true") {
       setMapMode("trending");
+    } else if (searchParams.get("for_you") === "true") {
+      setMapMode("for_you");
     }
   }, [searchParams]);
 
+  // ?itinerary=<id> reopens one of your itineraries in the planner
+  useEffect(() => {
+    const itineraryId = searchParams.get("itinerary");
+    if (!itineraryId) return;
+
+    const loadItinerary = async () => {
+      const [userId, itinerary] = await Promise.all([
+        data.auth.getCurrentUserId(),
+        data.itineraries.getById(itineraryId),
+      ]);
+      if (!itinerary || itinerary.user_id !== userId) return;
+      setEditingItinerary(itinerary);
+      setPlanStops((itinerary.stops ?? []).map(draftFromStop));
+      setIsPlanning(true);
+    };
+    loadItinerary();
+  }, [searchParams, data]);
+
   // Filter pins by enabled layers and ensure they have valid list data
   useEffect(() => {
     // Filter out pins without list data (stray emojis)
@@ -179,17 +187,14 @@ function MapPage() {
   // Fetch data
   useEffect(() => {
     const fetchData = async () => {
-      const supabase = createClient();
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
+      const userId = await data.auth.getCurrentUserId();
 
-      if (!user) {
+      if (!userId) {
         setIsLoading(false);
         return;
       }
 
-      setCurrentUserId(user.id);
+      setCurrentUserId(userId);
 
       // Load enabled layers from localStorage
       const savedLayers = localStorage.getItem(ENABLED_LAYERS_KEY);
@@ -197,142 +202,111 @@ function MapPage() {
         setEnabledLayers(new Set(JSON.parse(savedLayers)));
       }
 
-      // Fetch user's own lists
-      const { data: listsData } = await supabase
-        .from("lists")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("updated_at", { ascending: false });
-
-      if (listsData) {
-        setLists(listsData);
-        // Check if this is user's first save (no pins yet)
-        setIsFirstSave(listsData.length === 0);
-        if (!savedLayers) {
-          const defaultEnabled = new Set(listsData.map((l) => l.id));
-          setEnabledLayers(defaultEnabled);
-          localStorage.setItem(
-            ENABLED_LAYERS_KEY,
-            JSON.stringify([...defaultEnabled])
-          );
-        }
-      }
-
-      // Fetch user's own pins
-      const { data: myPinsData } = await supabase
-        .from("pins")
-        .select(`*, list:lists(id, name, emoji_icon, color, is_public, user_id)`)
-        .eq("user_id", user.id);
-
-      // Fetch people user follows
-      const { data: followingData } = await supabase
-        .from("follows")
-        .select("following_id")
-        .eq("follower_id", user.id);
-
-      let followedPins: Pin[] = [];
-
-      if (followingData && followingData.length > 0) {
-        const followingIds = followingData.map((f) => f.following_id);
-
-        const { data: followedProfilesData } = await supabase
-          .from("profiles")
-          .select("id, username, display_name, avatar_url")
-          .in("id", followingIds);
-
-        const { data: followedListsData } = await supabase
-          .from("lists")
-          .select("*")
-          .in("user_id", followingIds)
-          .eq("is_public", true)
-          .order("name");
-
-        if (followedProfilesData && followedListsData) {
-          const usersWithLists = followedProfilesData
-            .map((profile) => ({
-              ...profile,
-              lists: followedListsData.filter((l) => l.user_id === profile.id),
-            }))
-            .filter((u) => u.lists.length > 0);
-
-          setFollowedUsers(usersWithLists);
-
-          const followedListIds = followedListsData.map((l) => l.id);
-
-          if (followedListIds.length > 0) {
-            const { data: followedPinsData } = await supabase
-              .from("pins")
-              .select(
-                `
-                *,
-                list:lists(id, name, emoji_icon, color, is_public, user_id),
-                owner:profiles!pins_user_id_fkey(id, username, display_name, avatar_url)
-              `
-              )
-              .in("list_id", followedListIds);
-
-            if (followedPinsData) {
-              followedPins = followedPinsData as Pin[];
-            }
-          }
-        }
+      const { ownLists, followed } = await data.layers.getLayers(userId);
+      // Most recently used first, for the save sheet
+      const listsData = [...ownLists].sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+
+      setLists(listsData);
+      // Check if this is user's first save (no pins yet)
+      setIsFirstSave(listsData.length === 0);
+      if (!savedLayers) {
+        const defaultEnabled = new Set(listsData.map((l) => l.id));
+        setEnabledLayers(defaultEnabled);
+        localStorage.setItem(
+          ENABLED_LAYERS_KEY,
+          JSON.stringify([...defaultEnabled])
+        );
       }
 
-      const combinedPins = [...(myPinsData || []), ...followedPins] as Pin[];
-
-      // Debug: Log pins without valid list data
-      const invalidPins = combinedPins.filter((pin) => !pin.list || !pin.list.emoji_icon);
-      if (invalidPins.length > 0) {
-        console.log("[DEBUG] Found pins without valid list data:", invalidPins);
-      }
+      setFollowedUsers(followed.map(({ profile, lists }) => ({ ...profile, lists })));
 
-      setAllPins(combinedPins);
+      setMapListIds([
+        ...listsData.map((l) => l.id),
+        ...followed.flatMap(({ lists }) => lists.map((l) => l.id)),
+      ]);
 
       setIsLoading(false);
     };
 
     fetchData();
-  }, []);
+  }, [data]);
+
+  // Only fetch layers that are switched on; no enabled layers means show all
+  const visibleListIds = useMemo(
+    () =>
+      enabledLayers.size === 0
+        ? mapListIds
+        : mapListIds.filter((id) => enabledLayers.has(id)),
+    [mapListIds, enabledLayers]
+  );
+
+  // Load whatever part of the viewport isn't cached yet, one page at a time.
+  // Pages merge into allPins as they arrive so clusters fill in progressively,
+  // and a newer load (the map moved again) cancels the paging of older ones.
+  const loadViewport = useCallback(
+    async (viewport: MapViewport) => {
+      const generation = ++loadGenerationRef.current;
+      await loadPinsForBounds(regionCacheRef.current, viewport, visibleListIds, {
+        isCancelled: () => generation !== loadGenerationRef.current,
+        onPage: (pagePins) => {
+          setAllPins((prev) => {
+            const byId = new Map(prev.map((pin) => [pin.id, pin]));
+            pagePins.forEach((pin) => byId.set(pin.id, pin));
+            return [...byId.values()];
+          });
+        },
+      });
+    },
+    [visibleListIds]
+  );
+
+  const handleViewportChange = useCallback(
+    (viewport: MapViewport) => {
+      viewportRef.current = viewport;
+      loadViewport(viewport);
+    },
+    [loadViewport]
+  );
+
+  // Turning a layer on loads it for the current viewport right away
+  useEffect(() => {
+    if (viewportRef.current) {
+      loadViewport(viewportRef.current);
+    }
+  }, [loadViewport]);
 
   // Fetch "saved by" data for a location
   const fetchSavedBy = useCallback(async (pin: Pin) => {
     setIsLoadingSavedBy(true);
     setSavedByData([]);
 
-    const supabase = createClient();
-    const tolerance = 0.001; // ~100m - increased for better matching
-
-    const { data: pinsData } = await supabase
-      .from("pins")
-      .select(`
-        *,
-        list:lists!list_id(*, profile:profiles!user_id(*))
-      `)
-      .neq("id", pin.id) // Exclude the current pin
-      .gte("lat", pin.lat - tolerance)
-      .lte("lat", pin.lat + tolerance)
-      .gte("lng", pin.lng - tolerance)
-      .lte("lng", pin.lng + tolerance);
-
-    if (pinsData) {
-      const savedBy: SavedByInfo[] = pinsData
-        .filter((p: any) => p.list) // Only require list data, profile is optional
-        .map((p: any) => ({
-          pin: p,
-          list: p.list,
-          owner: p.list.profile || { id: p.user_id, username: "unknown", display_name: null, avatar_url: null },
-        }));
-      setSavedByData(savedBy);
-    }
+    setSavedByData(await data.pins.getSavedBy(pin.place_id, pin.id));
 
     setIsLoadingSavedBy(false);
-  }, []);
+  }, [data]);
 
   // Handlers
   const handlePinClick = useCallback((pin: Pin) => {
+    if (isPlanning) {
+      setPlanStops((prev) =>
+        prev.length >= MAX_ITINERARY_STOPS || prev.some((stop) => "pin_id" in stop.source && stop.source.pin_id === pin.id)
+          ? prev
+          : [...prev, draftFromPin(pin)]
+      );
+      return;
+    }
     setSelectedPin(pin);
     fetchSavedBy(pin);
-  }, [fetchSavedBy]);
+  }, [fetchSavedBy, isPlanning]);
+
+  const handleClosePlanner = () => {
+    setIsPlanning(false);
+    setPlanStops([]);
+    setEditingItinerary(null);
+    if (searchParams.get("itinerary")) {
+      window.history.replaceState({}, "", "/explore");
+    }
+  };
 
   const handleCloseSheet = useCallback(() => {
     setSelectedPin(null);
@@ -364,10 +338,12 @@ function MapPage() {
     [handleCloseSheet]
   );
 
-  const handleModeChange = (mode: "pins" | "trending") => {
+  const handleModeChange = (mode: MapMode) => {
     setMapMode(mode);
     if (mode === "trending") {
       window.history.replaceState({}, "", "/explore?trending=true");
+    } else if (mode === "for_you") {
+      window.history.replaceState({}, "", "/explore?for_you=true");
     } else {
       window.history.replaceState({}, "", "/explore");
     }
@@ -410,7 +386,10 @@ function MapPage() {
   }
 
   const showTrending = mapMode === "trending";
-  const displayPins = showTrending ? trendingPins : pins;
+  const showPins = mapMode === "pins";
+  const displayPins = showTrending ? trendingSpots : showPins ? pins : recommendedSpots ?? [];
+  const selectedRecommendation =
+    mapMode === "for_you" ? recommendedSpots?.find((spot) => spot.id === selectedPin?.id) : undefined;
 
   return (
     <div className="fixed inset-0 pb-16">
@@ -420,8 +399,10 @@ function MapPage() {
           pins={displayPins}
           onPinClick={handlePinClick}
           showHeatmap={false}
-          pinListCounts={pinListCounts}
+          pinListCounts={showTrending ? trendingListCounts : showPins ? pinListCounts : recommenderCounts}
           showTrending={showTrending}
+          onViewportChange={handleViewportChange}
+          route={isPlanning ? planRoute : undefined}
         />
       </div>
 
@@ -431,7 +412,8 @@ function MapPage() {
         onModeChange={handleModeChange}
         onLayersClick={() => setShowLayersSheet(true)}
         pinCount={pins.length}
-        trendingCount={trendingPins.length}
+        trendingCount={trendingSpots.length}
+        forYouCount={recommendedSpots?.length}
       />
 
       {/* Floating Search Button */}
@@ -465,8 +447,40 @@ function MapPage() {
         </div>
       </motion.button>
 
+      {/* Floating Plan Button */}
+      {currentUserId && !isPlanning && (
+        <motion.button
+          initial={{ scale: 0, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          transition={{ delay: 0.5, type: "spring", stiffness: 300 }}
+          onClick={() => setIsPlanning(true)}
+          className="fixed bottom-24 left-4 z-20 bg-surface-elevated text-text-primary p-3 rounded-2xl shadow-card border border-border hover:shadow-card-hover"
+        >
+          <div className="flex items-center gap-2">
+            <span className="text-lg">🗺️</span>
+            <span className="font-medium text-sm">Plan a night</span>
+          </div>
+        </motion.button>
+      )}
+
+      {/* Itinerary Planner */}
+      {currentUserId && isPlanning && (
+        <ItineraryPlanner
+          key={editingItinerary?.id ?? "new"}
+          userId={currentUserId}
+          stops={planStops}
+          onStopsChange={setPlanStops}
+          legs={planLegs}
+          itinerary={editingItinerary}
+          onSaved={(itineraryId) => router.push(itineraryPath(itineraryId))}
+          onClose={handleClosePlanner}
+        />
+      )}
+
       {/* Floating Discover Button */}
-      {!showTrending && pins.length > 0 && (
+      {showPins && !isPlanning && pins.length > 0 && (
         <motion.button
           initial={{ scale: 0, opacity: 0 }}
           animate={{ scale: 1, opacity: 1 }}
@@ -493,7 +507,7 @@ function MapPage() {
       )}
 
       {/* Empty state overlay */}
-      {!showTrending && pins.length === 0 && lists.length === 0 && (
+      {showPins && pins.length === 0 && lists.length === 0 && (
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none pb-16">
           <div className="bg-surface/90 backdrop-blur-xl rounded-[--radius-lg] p-6 mx-6 pointer-events-auto">
             <EmptyState
@@ -510,7 +524,7 @@ function MapPage() {
       )}
 
       {/* Empty state with lists */}
-      {!showTrending && pins.length === 0 && lists.length > 0 && (
+      {showPins && pins.length === 0 && lists.length > 0 && (
         <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-surface/90 backdrop-blur-xl rounded-full px-4 py-2 z-10">
           <p className="text-text-secondary text-sm">
             Search for places to add to your lists
@@ -518,17 +532,32 @@ function MapPage() {
         </div>
       )}
 
+      {/* Nothing to suggest yet */}
+      {mapMode === "for_you" && recommendedSpots?.length === 0 && (
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 bg-surface/90 backdrop-blur-xl rounded-full px-4 py-2 z-10">
+          <p className="text-text-secondary text-sm">
+            Save and rate a few spots to get suggestions
+          </p>
+        </div>
+      )}
+
       {/* Pin Detail Sheet */}
       <BottomSheet
         isOpen={selectedPin !== null && editingPin === null && !showSaveSheet}
         onClose={handleCloseSheet}
         title={selectedPin?.name}
       >
+        {selectedRecommendation && (
+          <p className="text-sm text-primary font-medium mb-3">
+            ✨ {recommendationReason(selectedRecommendation)}
+          </p>
+        )}
         {selectedPin && (
           <PinDetail
             pin={selectedPin}
             isOwn={selectedPin.user_id === currentUserId}
             onEdit={() => handleEditPin(selectedPin)}
+            onPinChange={setSelectedPin}
             savedBy={savedByData}
             isLoadingSavedBy={isLoadingSavedBy}
             onSaveToList={selectedPin.user_id !== currentUserId ? () => setShowSaveSheet(true) : undefined}
@@ -630,31 +659,31 @@ function SavePinToListForm({
   const [newListName, setNewListName] = useState("");
   const [newListEmoji, setNewListEmoji] = useState("📍");
   const [newListColor, setNewListColor] = useState("#ff2d92");
+  const data = useData();
 
   const handleSubmit = async () => {
     setIsLoading(true);
-    const supabase = createClient();
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) { setIsLoading(false); return; }
+    const userId = await data.auth.getCurrentUserId();
+    if (!userId) { setIsLoading(false); return; }
 
     let targetListId = selectedListId;
     let createdNewList = false;
 
     if (selectedListId === "new") {
       if (!newListName.trim()) { setIsLoading(false); return; }
-      const { data: newList, error } = await supabase
-        .from("lists")
-        .insert({ user_id: user.id, name: newListName.trim(), emoji_icon: newListEmoji, color: newListColor, is_public: true })
-        .select().single();
-      if (error || !newList) { setIsLoading(false); return; }
+      const newList = await data.lists.create({
+        user_id: userId, name: newListName.trim(), emoji_icon: newListEmoji, color: newListColor, is_public: true,
+      });
+      if (!newList) { setIsLoading(false); return; }
       onListCreated?.(newList);
       targetListId = newList.id;
       createdNewList = true;
     }
 
-    await supabase.from("pins").insert({
-      user_id: user.id, list_id: targetListId, name: pin.name, address: pin.address,
-      lat: pin.lat, lng: pin.lng, category: pin.category, is_visited: isVisited, personal_notes: notes || null,
+    await data.pins.copyToList([pin], {
+      listId: targetListId,
+      userId,
+      personal: { is_visited: isVisited, personal_notes: notes || null },
     });
 
     // Fire celebration effects
@@ -1,12 +1,14 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { formatDistanceToNow } from "date-fns";
-import { createClient } from "@/lib/supabase/client";
-import { Header, Card, Avatar, Badge, EmptyState } from "@/components/ui";
-import type { Profile, List, Pin } from "@/types";
+import { useData } from "@/lib/data";
+import { Header, Card, Avatar, Badge, EmptyState, Tabs } from "@/components/ui";
+import { fetchTrendingLists, fetchTrendingSpots, fetchTrendingUsers } from "@/lib/trending";
+import { fetchRecommendedSpots, recommendationReason } from "@/lib/recommendations";
+import type { Profile, List, Pin, RecommendedSpot, TrendingSpot, TrendingList, TrendingUser } from "@/types";
 
 // Types
 interface ActivityItem {
@@ -18,62 +20,46 @@ interface ActivityItem {
   created_at: string;
 }
 
+type FeedTab = "following" | "for_you" | "trending";
+type TrendingSubTab = "spots" | "lists" | "users";
 
 export default function FeedPage() {
   const router = useRouter();
+  const data = useData();
 
   // Following state
   const [activities, setActivities] = useState<ActivityItem[]>([]);
   const [isLoadingActivity, setIsLoadingActivity] = useState(true);
 
-  // Fetch activity feed
-  useEffect(() => {
-    const fetchActivity = async () => {
-      const supabase = createClient();
-      const { data: { user } } = await supabase.auth.getUser();
-
-      if (!user) {
-        router.push("/login");
-        return;
-      }
+  // Trending state (loaded the first time the tab is opened)
+  const [feedTab, setFeedTab] = useState<FeedTab>("following");
+  const [trendingSubTab, setTrendingSubTab] = useState<TrendingSubTab>("spots");
+  const [trendingSpots, setTrendingSpots] = useState<TrendingSpot[]>([]);
+  const [trendingLists, setTrendingLists] = useState<TrendingList[]>([]);
+  const [trendingUsers, setTrendingUsers] = useState<TrendingUser[]>([]);
+  const [hasLoadedTrending, setHasLoadedTrending] = useState(false);
 
-      const { data: following } = await supabase
-        .from("follows")
-        .select("following_id")
-        .eq("follower_id", user.id);
+  // Recommendations, also loaded on first open
+  const [recommendedSpots, setRecommendedSpots] = useState<RecommendedSpot[]>([]);
+  const [hasLoadedRecommendations, setHasLoadedRecommendations] = useState(false);
 
-      if (!following || following.length === 0) {
-        setIsLoadingActivity(false);
-        return;
-      }
-
-      const followingIds = following.map((f) => f.following_id);
-
-      const { data: profiles } = await supabase
-        .from("profiles")
-        .select("*")
-        .in("id", followingIds);
+  // Who the user follows, for the feed and its live updates
+  const [followingIds, setFollowingIds] = useState<string[]>([]);
+  const [newActivityCount, setNewActivityCount] = useState(0);
 
-      const profilesMap = new Map(profiles?.map((p) => [p.id, p]) || []);
+  const loadActivity = useCallback(
+    async (ids: string[]) => {
+      const [profiles, recentPins, recentLists] = await Promise.all([
+        data.profiles.getMany(ids),
+        data.pins.listRecentByUsers(ids, 30),
+        data.lists.listPublicByOwners(ids, { orderBy: "created_at", limit: 20 }),
+      ]);
 
-      const { data: recentPins } = await supabase
-        .from("pins")
-        .select(`*, list:lists(*)`)
-        .in("user_id", followingIds)
-        .order("created_at", { ascending: false })
-        .limit(30);
-
-      const { data: recentLists } = await supabase
-        .from("lists")
-        .select("*")
-        .in("user_id", followingIds)
-        .eq("is_public", true)
-        .order("created_at", { ascending: false })
-        .limit(20);
+      const profilesMap = new Map(profiles.map((p) => [p.id, p]));
 
       const activityItems: ActivityItem[] = [];
 
-      recentPins?.forEach((pin) => {
+      recentPins.forEach((pin) => {
         const user = profilesMap.get(pin.user_id);
         if (user && pin.list?.is_public) {
           activityItems.push({
@@ -86,7 +72,7 @@ export default function FeedPage() {
         }
       });
 
-      recentLists?.forEach((list) => {
+      recentLists.forEach((list) => {
         const user = profilesMap.get(list.user_id);
         if (user) {
           activityItems.push({
@@ -104,11 +90,71 @@ export default function FeedPage() {
       );
 
       setActivities(activityItems.slice(0, 50));
+    },
+    [data]
+  );
+
+  // Fetch activity feed
+  useEffect(() => {
+    const fetchActivity = async () => {
+      const userId = await data.auth.getCurrentUserId();
+
+      if (!userId) {
+        router.push("/login");
+        return;
+      }
+
+      const ids = await data.follows.getFollowingIds(userId);
+      setFollowingIds(ids);
+
+      if (ids.length > 0) {
+        await loadActivity(ids);
+      }
       setIsLoadingActivity(false);
     };
 
     fetchActivity();
-  }, [router]);
+  }, [router, data, loadActivity]);
+
+  // New activity is counted rather than shown, so the feed doesn't shift
+  // under the reader; the pill loads it
+  useEffect(() => {
+    return data.realtime.subscribeToActivity(followingIds, () => setNewActivityCount((count) => count + 1));
+  }, [data, followingIds]);
+
+  const showNewActivity = async () => {
+    setNewActivityCount(0);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+    await loadActivity(followingIds);
+  };
+
+  // Same rankings as the trending page, this week only
+  useEffect(() => {
+    if (feedTab !== "trending" || hasLoadedTrending) return;
+
+    const fetchTrending = async () => {
+      const [spots, lists, users] = await Promise.all([
+        fetchTrendingSpots({ window: "week" }),
+        fetchTrendingLists({ window: "week" }),
+        fetchTrendingUsers({ window: "week" }),
+      ]);
+      setTrendingSpots(spots);
+      setTrendingLists(lists);
+      setTrendingUsers(users);
+      setHasLoadedTrending(true);
+    };
+
+    fetchTrending();
+  }, [feedTab, hasLoadedTrending]);
+
+  useEffect(() => {
+    if (feedTab !== "for_you" || hasLoadedRecommendations) return;
+
+    fetchRecommendedSpots().then((spots) => {
+      setRecommendedSpots(spots);
+      setHasLoadedRecommendations(true);
+    });
+  }, [feedTab, hasLoadedRecommendations]);
 
 
   return (
@@ -125,15 +171,74 @@ export default function FeedPage() {
         }
       />
 
-      {/* Following Feed Only */}
-      <FollowingFeed
-        activities={activities}
-        isLoading={isLoadingActivity}
-        onUserClick={(username) => router.push(`/user/${username}`)}
-        onPinClick={(listId) => router.push(`/lists/${listId}`)}
-        onListClick={(listId) => router.push(`/lists/${listId}`)}
-        onFindPeople={() => router.push("/discover")}
-      />
+      <div className="px-4 border-b border-border">
+        <Tabs
+          tabs={[
+            { id: "following", label: "Following" },
+            { id: "for_you", label: "For you" },
+            { id: "trending", label: "Trending" },
+          ]}
+          activeTab={feedTab}
+          onTabChange={(tab) => setFeedTab(tab as FeedTab)}
+          variant="underline"
+        />
+      </div>
+
+      <AnimatePresence>
+        {feedTab === "following" && newActivityCount > 0 && (
+          <motion.button
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            onClick={showNewActivity}
+            className="fixed top-20 left-1/2 -translate-x-1/2 z-20 px-4 py-2 rounded-full bg-neon-pink text-white text-sm font-medium shadow-lg"
+          >
+            ↑ {newActivityCount} new
+          </motion.button>
+        )}
+      </AnimatePresence>
+
+      {feedTab === "following" ? (
+        <FollowingFeed
+          activities={activities}
+          isLoading={isLoadingActivity}
+          onUserClick={(username) => router.push(`/user/${username}`)}
+          onPinClick={(listId) => router.push(`/lists/${listId}`)}
+          onListClick={(listId) => router.push(`/lists/${listId}`)}
+          onFindPeople={() => router.push("/discover")}
+        />
+      ) : feedTab === "for_you" ? (
+        <ForYouFeed
+          spots={recommendedSpots}
+          isLoading={!hasLoadedRecommendations}
+          onSpotClick={(listId) => router.push(`/lists/${listId}`)}
+          onExplore={() => router.push("/explore?for_you=true")}
+        />
+      ) : (
+        <>
+          <div className="px-4 pt-4">
+            <Tabs
+              tabs={[
+                { id: "spots", label: "Spots" },
+                { id: "lists", label: "Lists" },
+                { id: "users", label: "People" },
+              ]}
+              activeTab={trendingSubTab}
+              onTabChange={(tab) => setTrendingSubTab(tab as TrendingSubTab)}
+            />
+          </div>
+          <TrendingFeed
+            subTab={trendingSubTab}
+            spots={trendingSpots}
+            lists={trendingLists}
+            users={trendingUsers}
+            isLoading={!hasLoadedTrending}
+            onSpotClick={(listId) => router.push(`/lists/${listId}`)}
+            onListClick={(listId) => router.push(`/lists/${listId}`)}
+            onUserClick={(username) => router.push(`/user/${username}`)}
+          />
+        </>
+      )}
     </div>
   );
 }
@@ -376,6 +481,80 @@ function ChevronIcon() {
   );
 }
 
+// For You Feed Component - places people with similar taste rated highly
+function ForYouFeed({
+  spots,
+  isLoading,
+  onSpotClick,
+  onExplore,
+}: {
+  spots: RecommendedSpot[];
+  isLoading: boolean;
+  onSpotClick: (listId: string) => void;
+  onExplore: () => void;
+}) {
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (spots.length === 0) {
+    return (
+      <div className="p-4">
+        <EmptyState
+          icon="✨"
+          title="No suggestions yet"
+          description="Save and rate a few spots to get places picked for your taste"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-3">
+      <button
+        onClick={onExplore}
+        className="w-full text-sm text-primary hover:text-primary/80 transition-colors text-right"
+      >
+        See them on the map →
+      </button>
+      {spots.map((spot, index) => (
+        <motion.div
+          key={spot.id}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: index * 0.03 }}
+        >
+          <RecommendedSpotCard spot={spot} onClick={() => onSpotClick(spot.list_id)} />
+        </motion.div>
+      ))}
+    </div>
+  );
+}
+
+function RecommendedSpotCard({ spot, onClick }: { spot: RecommendedSpot; onClick: () => void }) {
+  return (
+    <Card variant="interactive" padding="md" onClick={onClick}>
+      <div className="flex items-start gap-3">
+        <div
+          className="w-10 h-10 rounded-[--radius-sm] flex items-center justify-center shrink-0"
+          style={{ backgroundColor: `${spot.list?.color || "#f04e8c"}20` }}
+        >
+          <span className="text-lg">{spot.list?.emoji_icon || "📍"}</span>
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="font-medium text-text-primary truncate">{spot.name}</p>
+          <p className="text-sm text-text-muted truncate">{spot.address}</p>
+          <p className="text-xs text-primary font-medium mt-1.5">{recommendationReason(spot)}</p>
+        </div>
+      </div>
+    </Card>
+  );
+}
+
 // Trending Feed Component
 function TrendingFeed({
   subTab,
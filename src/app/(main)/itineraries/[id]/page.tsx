@@ -0,0 +1,165 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { MapView } from "@/components/map/MapView";
+import { ItineraryStops, RouteSummary, useWalkingRoute } from "@/components/itineraries/ItineraryStops";
+import { Button, Header, useToast } from "@/components/ui";
+import { useData } from "@/lib/data";
+import { pinBounds } from "@/lib/embed";
+import { formatPlannedDate, itineraryPath } from "@/lib/itineraries";
+import type { Itinerary } from "@/types";
+
+export default function ItineraryPage() {
+  const router = useRouter();
+  const params = useParams();
+  const itineraryId = params.id as string;
+  const data = useData();
+  const { showToast } = useToast();
+
+  const [itinerary, setItinerary] = useState<Itinerary | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [center, setCenter] = useState<[number, number] | undefined>();
+  const stops = itinerary?.stops ?? [];
+  const { legs, route } = useWalkingRoute(stops);
+
+  useEffect(() => {
+    const load = async () => {
+      const [userId, itineraryData] = await Promise.all([
+        data.auth.getCurrentUserId(),
+        data.itineraries.getById(itineraryId),
+      ]);
+      setCurrentUserId(userId);
+      setItinerary(itineraryData);
+      // Start in the middle of the stops, as MapView eases to center once loaded
+      const bounds = pinBounds(itineraryData?.stops ?? []);
+      if (bounds) setCenter([(bounds[0][0] + bounds[1][0]) / 2, (bounds[0][1] + bounds[1][1]) / 2]);
+      setIsLoading(false);
+    };
+    load();
+  }, [data, itineraryId]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="w-8 h-8 border-2 border-neon-pink border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  // Private, deleted, or from an account the viewer can't see
+  if (!itinerary) {
+    return (
+      <div className="min-h-screen bg-background pb-20">
+        <Header title="Itinerary" backButton />
+        <div className="text-center py-16 px-6">
+          <div className="w-20 h-20 mx-auto mb-4 rounded-full bg-surface-elevated flex items-center justify-center">
+            <span className="text-4xl">🗺️</span>
+          </div>
+          <h2 className="text-xl font-semibold text-text-primary mb-2">This plan isn&apos;t available</h2>
+          <p className="text-text-secondary">It may be private or deleted</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isOwner = itinerary.user_id === currentUserId;
+
+  const handleShare = async () => {
+    await navigator.clipboard.writeText(`${window.location.origin}${itineraryPath(itinerary.id)}`);
+    showToast({
+      message: "Link copied",
+      emoji: "🔗",
+      subtext: itinerary.is_public ? "Anyone can open it, no account needed" : "Make it public so others can open it",
+    });
+  };
+
+  const handleTogglePublic = async () => {
+    const isPublic = !itinerary.is_public;
+    if (await data.itineraries.update(itinerary.id, { is_public: isPublic })) {
+      setItinerary({ ...itinerary, is_public: isPublic });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete "${itinerary.name}"?`)) return;
+    if (await data.itineraries.delete(itinerary.id)) {
+      router.push("/explore");
+    }
+  };
+
+  const subtitle = [
+    itinerary.planned_for && formatPlannedDate(itinerary.planned_for),
+    `${stops.length} ${stops.length === 1 ? "stop" : "stops"}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <Header
+        title={itinerary.name}
+        subtitle={subtitle}
+        backButton
+        rightAction={
+          <button onClick={handleShare} className="text-sm text-neon-cyan px-2 py-1">
+            Share
+          </button>
+        }
+      />
+
+      {stops.length > 0 && (
+        <div className="h-72">
+          <MapView
+            route={route}
+            center={center}
+            bounds={pinBounds(stops) ?? undefined}
+            geolocate={false}
+          />
+        </div>
+      )}
+
+      <div className="p-4 space-y-4">
+        {itinerary.profile && !isOwner && (
+          <p className="text-sm text-text-secondary">
+            Planned by{" "}
+            <Link href={`/user/${itinerary.profile.username}`} className="text-neon-pink">
+              @{itinerary.profile.username}
+            </Link>
+          </p>
+        )}
+
+        <RouteSummary legs={legs} />
+
+        {stops.length === 0 ? (
+          <p className="text-text-secondary text-center py-8">No stops yet</p>
+        ) : (
+          <ItineraryStops stops={stops} legs={legs} onStopClick={(stop) => setCenter([stop.lng, stop.lat])} />
+        )}
+
+        {isOwner && (
+          <div className="space-y-3 pt-2">
+            <label className="flex items-center gap-2 text-sm text-text-secondary">
+              <input type="checkbox" checked={itinerary.is_public} onChange={handleTogglePublic} />
+              Anyone with the link can see it
+            </label>
+            <div className="flex gap-3">
+              <Button
+                variant="secondary"
+                className="flex-1"
+                onClick={() => router.push(`/explore?itinerary=${itinerary.id}`)}
+              >
+                Edit on map
+              </Button>
+              <Button variant="ghost" className="text-red-400" onClick={handleDelete}>
+                Delete
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
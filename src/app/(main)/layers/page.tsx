@@ -4,7 +4,7 @@ import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui";
-import { createClient } from "@/lib/supabase/client";
+import { useData } from "@/lib/data";
 import type { List, Profile } from "@/types";
 
 const ENABLED_LAYERS_KEY = "new-fork-city-enabled-layers";
@@ -15,6 +15,7 @@ interface FollowingWithLists extends Profile {
 
 export default function LayersPage() {
   const router = useRouter();
+  const data = useData();
   const [myLists, setMyLists] = useState<List[]>([]);
   const [followingWithLists, setFollowingWithLists] = useState<FollowingWithLists[]>([]);
   const [enabledLayers, setEnabledLayers] = useState<Set<string>>(new Set());
@@ -29,72 +30,24 @@ export default function LayersPage() {
 
   useEffect(() => {
     const fetchData = async () => {
-      const supabase = createClient();
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
+      const userId = await data.auth.getCurrentUserId();
 
-      if (!user) return;
+      if (!userId) return;
 
       // Load saved enabled layers from localStorage
       const savedLayers = localStorage.getItem(ENABLED_LAYERS_KEY);
       const savedLayersSet = savedLayers ? new Set<string>(JSON.parse(savedLayers)) : null;
 
-      // Fetch my lists
-      const { data: myListsData } = await supabase
-        .from("lists")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("name");
+      // My lists, and people I follow with their public lists
+      const { ownLists, followed } = await data.layers.getLayers(userId);
 
-      if (myListsData) {
-        setMyLists(myListsData);
-        // If no saved layers, enable all my lists by default
-        if (!savedLayersSet) {
-          setEnabledLayers(new Set(myListsData.map((l) => l.id)));
-        }
+      setMyLists(ownLists);
+      // If no saved layers, enable all my lists by default
+      if (!savedLayersSet) {
+        setEnabledLayers(new Set(ownLists.map((l) => l.id)));
       }
 
-      // Fetch people I follow with their public lists
-      const { data: followingData } = await supabase
-        .from("follows")
-        .select(
-          `
-          following:profiles!follows_following_id_fkey(
-            id,
-            username,
-            display_name,
-            avatar_url
-          )
-        `
-        )
-        .eq("follower_id", user.id);
-
-      if (followingData) {
-        const followingIds = followingData
-          .map((f) => (f.following as unknown as Profile)?.id)
-          .filter(Boolean);
-
-        if (followingIds.length > 0) {
-          const { data: listsData } = await supabase
-            .from("lists")
-            .select("*")
-            .in("user_id", followingIds)
-            .eq("is_public", true)
-            .order("name");
-
-          // Group lists by user
-          const grouped = followingData.map((f) => {
-            const profile = f.following as unknown as Profile;
-            return {
-              ...profile,
-              lists: (listsData || []).filter((l) => l.user_id === profile.id),
-            };
-          }).filter((f) => f.lists.length > 0);
-
-          setFollowingWithLists(grouped);
-        }
-      }
+      setFollowingWithLists(followed.map(({ profile, lists }) => ({ ...profile, lists })));
 
       // Apply saved layers if they exist
       if (savedLayersSet) {
@@ -105,7 +58,7 @@ export default function LayersPage() {
     };
 
     fetchData();
-  }, []);
+  }, [data]);
 
   const toggleLayer = (listId: string) => {
     setEnabledLayers((prev) => {
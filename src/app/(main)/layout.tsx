@@ -1,4 +1,5 @@
 import { BottomNav } from "@/components/ui";
+import { NotificationsProvider } from "@/components/notifications/NotificationsProvider";
 
 export default function MainLayout({
   children,
@@ -6,9 +7,11 @@ export default function MainLayout({
   children: React.ReactNode;
 }) {
   return (
-    <div className="min-h-screen bg-background">
-      {children}
-      <BottomNav />
-    </div>
+    <NotificationsProvider>
+      <div className="min-h-screen bg-background">
+        {children}
+        <BottomNav />
+      </div>
+    </NotificationsProvider>
   );
 }
@@ -4,18 +4,22 @@ import { useState, useEffect } from "react";
 import { useRouter, useParams } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { MapView } from "@/components/map/MapView";
-import { Button, BottomSheet } from "@/components/ui";
+import { Button, BottomSheet, useToast } from "@/components/ui";
 import { EditPinForm } from "@/components/pins/EditPinForm";
 import { PinDetail } from "@/components/pins/PinDetail";
 import { LikeButton } from "@/components/social/LikeButton";
-import { createClient } from "@/lib/supabase/client";
-import type { List, Pin, Profile } from "@/types";
-
-interface SavedByInfo {
-  pin: Pin;
-  list: List;
-  owner: Profile;
-}
+import { CommentButton } from "@/components/social/CommentButton";
+import { CommentThread } from "@/components/social/CommentThread";
+import { ExportSheet } from "@/components/lists/ExportSheet";
+import { ListMembers } from "@/components/lists/ListMembers";
+import { ListWebhooks } from "@/components/lists/ListWebhooks";
+import { UpstreamChanges } from "@/components/lists/UpstreamChanges";
+import { CreatePollForm } from "@/components/polls/CreatePollForm";
+import { getUpstreamChanges, savePinsToList, useData, type UpstreamChanges as Changes } from "@/lib/data";
+import { applyPinChange } from "@/lib/realtime";
+import { EMBED_SIZE, embedHtml, embedPath } from "@/lib/embed";
+import { pollPath } from "@/lib/polls";
+import type { List, ListMember, ListRole, Pin, Profile, SavedByInfo } from "@/types";
 
 const EMOJI_OPTIONS = [
   "📍", "🍕", "🍔", "🍜", "🍣", "🍷", "🍺", "☕", "🍰", "🌮",
@@ -31,6 +35,8 @@ export default function ListDetailPage() {
   const router = useRouter();
   const params = useParams();
   const listId = params.id as string;
+  const data = useData();
+  const { showToast } = useToast();
 
   const [list, setList] = useState<List | null>(null);
   const [pins, setPins] = useState<Pin[]>([]);
@@ -39,16 +45,27 @@ export default function ListDetailPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [view, setView] = useState<"map" | "list">("list");
   const [allLists, setAllLists] = useState<List[]>([]);
-  const [isOwner, setIsOwner] = useState(false);
-  const [listOwner, setListOwner] = useState<{ username: string; display_name: string | null; avatar_url: string | null } | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [role, setRole] = useState<ListRole | null>(null);
+  const [listOwner, setListOwner] = useState<Profile | null>(null);
+  const [members, setMembers] = useState<ListMember[]>([]);
+  const [pinAuthors, setPinAuthors] = useState<Map<string, Profile>>(new Map());
   const [showListMenu, setShowListMenu] = useState(false);
+  const [showMembers, setShowMembers] = useState(false);
+  const [showExport, setShowExport] = useState(false);
   const [showEditList, setShowEditList] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
-  const [showCopyConfirm, setShowCopyConfirm] = useState(false);
+  const [showForkConfirm, setShowForkConfirm] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
-  const [isCopying, setIsCopying] = useState(false);
+  const [isForking, setIsForking] = useState(false);
+  const [forkCount, setForkCount] = useState(0);
+  const [upstream, setUpstream] = useState<{ list: List; owner: Profile | null } | null>(null);
+  const [upstreamChanges, setUpstreamChanges] = useState<Changes | null>(null);
+  const [showUpstreamChanges, setShowUpstreamChanges] = useState(false);
   const [isLiked, setIsLiked] = useState(false);
   const [likeCount, setLikeCount] = useState(0);
+  const [commentCount, setCommentCount] = useState(0);
+  const [showComments, setShowComments] = useState(false);
   const [showSavePin, setShowSavePin] = useState(false);
   const [savingPin, setSavingPin] = useState<Pin | null>(null);
   const [savedByData, setSavedByData] = useState<SavedByInfo[]>([]);
@@ -58,6 +75,11 @@ export default function ListDetailPage() {
   const [isSelectMode, setIsSelectMode] = useState(false);
   const [selectedPinIds, setSelectedPinIds] = useState<Set<string>>(new Set());
   const [showBatchSave, setShowBatchSave] = useState(false);
+  const [showCreatePoll, setShowCreatePoll] = useState(false);
+
+  const isOwner = role === "owner";
+  // Editors can add, edit, move and delete spots but not change the list itself
+  const canEdit = isOwner || role === "editor";
 
   const togglePinSelection = (pinId: string) => {
     setSelectedPinIds(prev => {
@@ -86,102 +108,108 @@ export default function ListDetailPage() {
 
   useEffect(() => {
     const fetchData = async () => {
-      const supabase = createClient();
-
       // Fetch list
-      const { data: listData, error: listError } = await supabase
-        .from("lists")
-        .select("*")
-        .eq("id", listId)
-        .single();
+      const listData = await data.lists.getById(listId);
 
-      if (listError || !listData) {
+      if (!listData) {
         router.push("/lists");
         return;
       }
 
       setList(listData);
 
-      // Fetch pins
-      const { data: pinsData } = await supabase
-        .from("pins")
-        .select("*")
-        .eq("list_id", listId)
-        .order("created_at", { ascending: false });
-
-      if (pinsData) {
-        // Add list info to each pin for MapView
-        setPins(
-          pinsData.map((pin) => ({
-            ...pin,
-            list: listData,
-          }))
-        );
-      }
-
-      // Fetch all user's lists (for moving pins) and check ownership
-      const { data: { user } } = await supabase.auth.getUser();
-      if (user) {
-        const isOwnerCheck = listData.user_id === user.id;
-        setIsOwner(isOwnerCheck);
-
-        // Fetch owner info if not the current user
-        if (!isOwnerCheck) {
-          const { data: ownerData } = await supabase
-            .from("profiles")
-            .select("username, display_name, avatar_url")
-            .eq("id", listData.user_id)
-            .maybeSingle();
-          if (ownerData) {
-            setListOwner(ownerData);
-          }
+      // Fetch pins, with list info on each pin for MapView
+      const pinsData = await data.pins.listByList(listId);
+      setPins(pinsData.map((pin) => ({ ...pin, list: listData })));
+
+      // Fetch the user's role here and every list they can add to (for moving pins)
+      const userId = await data.auth.getCurrentUserId();
+      const userRole = await data.members.getRole(listId, userId);
+      setCurrentUserId(userId);
+      setRole(userRole);
+      setListOwner(await data.profiles.getById(listData.user_id));
+
+      // Fork lineage: who this was forked from, and what changed there since
+      setForkCount(await data.lists.countForks(listId));
+      const upstreamList = listData.forked_from ? await data.lists.getById(listData.forked_from) : null;
+      if (upstreamList) {
+        setUpstream({ list: upstreamList, owner: await data.profiles.getById(upstreamList.user_id) });
+        if (userRole === "owner" || userRole === "editor") {
+          setUpstreamChanges(await getUpstreamChanges(data, listData));
         }
+      }
 
-        const { data: listsData } = await supabase
-          .from("lists")
-          .select("*")
-          .eq("user_id", user.id)
-          .order("name");
-        if (listsData) {
-          setAllLists(listsData);
-        }
+      const listMembers = await data.members.list(listId);
+      setMembers(listMembers);
 
-        // Check if user has liked this list
-        const { data: likeData } = await supabase
-          .from("list_likes")
-          .select("*")
-          .eq("list_id", listId)
-          .eq("user_id", user.id)
-          .maybeSingle();
+      // Shared lists show who added each spot
+      if (listMembers.length > 0) {
+        const authors = await data.profiles.getMany([...new Set(pinsData.map((p) => p.user_id))]);
+        setPinAuthors(new Map(authors.map((a) => [a.id, a])));
+      }
 
-        setIsLiked(!!likeData);
+      if (userId) {
+        const [ownLists, sharedLists] = await Promise.all([
+          data.lists.listByOwner(userId, { orderBy: "name" }),
+          data.lists.listSharedWith(userId, { roles: ["editor"] }),
+        ]);
+        setAllLists([...ownLists, ...sharedLists]);
       }
 
-      // Get like count for this list
-      const { count: likesCount } = await supabase
-        .from("list_likes")
-        .select("*", { count: "exact", head: true })
-        .eq("list_id", listId);
+      // Like status and count for this list
+      const likeStatus = await data.likes.getStatus({ type: "list", id: listId }, userId);
+      setIsLiked(likeStatus.liked);
+      setLikeCount(likeStatus.count);
 
-      setLikeCount(likesCount || 0);
+      // Get comment count for this list
+      setCommentCount(await data.comments.count({ type: "list", id: listId }));
+
+      // "Save this list" on the shared page lands here, after login if need be
+      if (userId && userRole !== "owner" && new URLSearchParams(window.location.search).has("fork")) {
+        setShowForkConfirm(true);
+      }
 
       setIsLoading(false);
     };
 
     fetchData();
-  }, [listId, router]);
+  }, [listId, router, data]);
+
+  // Spots added, edited or removed by anyone with the list open, live
+  useEffect(() => {
+    if (!list) return;
+    return data.realtime.subscribeToPins(listId, (change) => {
+      setPins((prev) => applyPinChange(prev, change, { list }));
+      if (change.type === "delete") {
+        setSelectedPin((prev) => (prev?.id === change.id ? null : prev));
+      } else {
+        setSelectedPin((prev) => (prev?.id === change.pin.id ? { ...prev, ...change.pin } : prev));
+      }
+    });
+  }, [data, listId, list]);
+
+  // A member's first spot can arrive live, before their profile was loaded
+  useEffect(() => {
+    if (members.length === 0) return;
+    const missing = [...new Set(pins.map((p) => p.user_id))].filter((id) => !pinAuthors.has(id));
+    if (missing.length === 0) return;
+
+    const loadAuthors = async () => {
+      const authors = await data.profiles.getMany(missing);
+      if (authors.length > 0) {
+        setPinAuthors((prev) => new Map([...prev, ...authors.map((a) => [a.id, a] as const)]));
+      }
+    };
+    loadAuthors();
+  }, [data, members, pins, pinAuthors]);
 
   const handleDeleteList = async () => {
     if (!list) return;
     setIsDeleting(true);
 
-    const supabase = createClient();
-    const { error } = await supabase.from("lists").delete().eq("id", list.id);
-
-    if (!error) {
+    if (await data.lists.delete(list.id)) {
       router.push("/lists");
     } else {
-      console.error("Error deleting list:", error);
       setIsDeleting(false);
       setShowDeleteConfirm(false);
     }
@@ -194,92 +222,50 @@ export default function ListDetailPage() {
     setShowEditList(false);
   };
 
-  const handleCopyList = async () => {
+  const handleForkList = async () => {
     if (!list) return;
-    setIsCopying(true);
+    setIsForking(true);
 
-    const supabase = createClient();
-    const { data: { user } } = await supabase.auth.getUser();
+    const userId = await data.auth.getCurrentUserId();
 
-    if (!user) {
-      setIsCopying(false);
+    if (!userId) {
+      setIsForking(false);
       return;
     }
 
-    // Create a copy of the list
-    const { data: newList, error: listError } = await supabase
-      .from("lists")
-      .insert({
-        user_id: user.id,
-        name: `${list.name} (copy)`,
-        description: list.description,
-        emoji_icon: list.emoji_icon,
-        color: list.color,
-        is_public: true, // Default copied lists to public
-      })
-      .select()
-      .single();
-
-    if (listError || !newList) {
-      console.error("Error copying list:", listError);
-      setIsCopying(false);
-      setShowCopyConfirm(false);
-      return;
-    }
+    // Copies every pin with visited status reset, linked back to this list
+    const fork = await data.lists.fork(list, userId);
 
-    // Copy all pins to the new list
-    if (pins.length > 0) {
-      const pinsCopy = pins.map((pin) => ({
-        list_id: newList.id,
-        user_id: user.id,
-        place_id: pin.place_id,
-        name: pin.name,
-        address: pin.address,
-        lat: pin.lat,
-        lng: pin.lng,
-        category: pin.category,
-        is_visited: false, // Reset visited status
-      }));
-
-      const { error: pinsError } = await supabase.from("pins").insert(pinsCopy);
-
-      if (pinsError) {
-        console.error("Error copying pins:", pinsError);
-      }
+    setIsForking(false);
+    setShowForkConfirm(false);
+    if (fork) {
+      router.push(`/lists/${fork.id}`);
     }
+  };
 
-    setIsCopying(false);
-    setShowCopyConfirm(false);
-    router.push(`/lists/${newList.id}`);
+  const handleUpstreamPulled = async () => {
+    if (!list) return;
+    const pinsData = await data.pins.listByList(list.id);
+    setPins(pinsData.map((pin) => ({ ...pin, list })));
+    setUpstreamChanges(await getUpstreamChanges(data, list));
+    setShowUpstreamChanges(false);
   };
 
-  const handleDeletePin = async (pinId: string) => {
-    const supabase = createClient();
-    const { error } = await supabase.from("pins").delete().eq("id", pinId);
+  const upstreamChangeCount = upstreamChanges
+    ? upstreamChanges.added.length + upstreamChanges.removed.length
+    : 0;
 
-    if (!error) {
+  const handleDeletePin = async (pinId: string) => {
+    if (await data.pins.delete(pinId)) {
       setPins((prev) => prev.filter((p) => p.id !== pinId));
       setSelectedPin(null);
     }
   };
 
-  const handleToggleVisited = async (pin: Pin) => {
-    const supabase = createClient();
-    const { error } = await supabase
-      .from("pins")
-      .update({ is_visited: !pin.is_visited })
-      .eq("id", pin.id);
-
-    if (!error) {
-      setPins((prev) =>
-        prev.map((p) =>
-          p.id === pin.id ? { ...p, is_visited: !p.is_visited } : p
-        )
-      );
-      if (selectedPin?.id === pin.id) {
-        setSelectedPin({ ...selectedPin, is_visited: !selectedPin.is_visited });
-      }
-    }
+  // Visits logged from the pin sheet change its visited status and rating
+  const handlePinChange = (updated: Pin) => {
+    setPins((prev) => prev.map((p) => (p.id === updated.id ? { ...p, ...updated } : p)));
+    setSelectedPin(updated);
   };
 
   const handleEditPin = (pin: Pin) => {
@@ -291,31 +277,7 @@ export default function ListDetailPage() {
     setIsLoadingSavedBy(true);
     setSavedByData([]);
 
-    const supabase = createClient();
-    const tolerance = 0.001; // ~100m - increased for better matching
-
-    const { data: pinsData } = await supabase
-      .from("pins")
-      .select(`
-        *,
-        list:lists!list_id(*, profile:profiles!user_id(*))
-      `)
-      .neq("id", pin.id)
-      .gte("lat", pin.lat - tolerance)
-      .lte("lat", pin.lat + tolerance)
-      .gte("lng", pin.lng - tolerance)
-      .lte("lng", pin.lng + tolerance);
-
-    if (pinsData) {
-      const savedBy: SavedByInfo[] = pinsData
-        .filter((p: any) => p.list) // Only require list data, profile is optional
-        .map((p: any) => ({
-          pin: p,
-          list: p.list,
-          owner: p.list.profile || { id: p.user_id, username: "unknown", display_name: null, avatar_url: null },
-        }));
-      setSavedByData(savedBy);
-    }
+    setSavedByData(await data.pins.getSavedBy(pin.place_id, pin.id));
 
     setIsLoadingSavedBy(false);
   };
@@ -378,7 +340,24 @@ export default function ListDetailPage() {
               {!isOwner && listOwner && (
                 <span> • by @{listOwner.username}</span>
               )}
+              {members.length > 0 && (
+                <button onClick={() => setShowMembers(true)} className="hover:text-text-primary">
+                  {" "}• {members.length + 1} people
+                </button>
+              )}
+              {forkCount > 0 && (
+                <span> • {forkCount} {forkCount === 1 ? "fork" : "forks"}</span>
+              )}
             </p>
+            {upstream && (
+              <button
+                onClick={() => router.push(`/lists/${upstream.list.id}`)}
+                className="flex items-center gap-1 text-xs text-text-muted hover:text-text-primary mt-0.5"
+              >
+                <ForkIcon className="w-3 h-3" />
+                forked from {upstream.owner ? `@${upstream.owner.username}` : upstream.list.name}
+              </button>
+            )}
             {list.description && (
               <p className="text-xs text-text-muted mt-1 line-clamp-1">
                 {list.description}
@@ -395,6 +374,12 @@ export default function ListDetailPage() {
               size="md"
             />
 
+            <CommentButton
+              count={commentCount}
+              onClick={() => setShowComments(true)}
+              size="md"
+            />
+
             {isOwner ? (
               <button
                 onClick={() => setShowListMenu(true)}
@@ -404,16 +389,31 @@ export default function ListDetailPage() {
               </button>
             ) : (
               <button
-                onClick={() => setShowCopyConfirm(true)}
+                onClick={() => setShowForkConfirm(true)}
                 className="px-3 py-2 rounded-xl bg-neon-pink/20 text-neon-pink text-sm font-medium hover:bg-neon-pink/30 transition-colors flex items-center gap-1.5"
               >
-                <CopyIcon className="w-4 h-4" />
-                Copy
+                <ForkIcon className="w-4 h-4" />
+                Fork
               </button>
             )}
           </div>
         </div>
 
+        {/* Upstream Changes Banner */}
+        {upstreamChangeCount > 0 && !isSelectMode && (
+          <button
+            onClick={() => setShowUpstreamChanges(true)}
+            className="mx-4 mb-3 w-[calc(100%-2rem)] flex items-center gap-2 px-3 py-2 rounded-xl bg-neon-cyan/10 text-neon-cyan text-sm hover:bg-neon-cyan/20 transition-colors"
+          >
+            <ForkIcon className="w-4 h-4" />
+            <span className="flex-1 text-left">
+              {upstreamChangeCount} {upstreamChangeCount === 1 ? "update" : "updates"} from{" "}
+              {upstream?.owner ? `@${upstream.owner.username}'s list` : "the original list"}
+            </span>
+            <ChevronRightIcon className="w-4 h-4" />
+          </button>
+        )}
+
         {/* Selection Mode Header */}
         {isSelectMode && (
           <div className="flex items-center justify-between px-4 pb-2">
@@ -535,6 +535,11 @@ export default function ListDetailPage() {
                               {"★".repeat(pin.personal_rating)}
                             </span>
                           )}
+                          {pinAuthors.has(pin.user_id) && (
+                            <span className="text-xs text-text-muted truncate">
+                              Added by @{pinAuthors.get(pin.user_id)!.username}
+                            </span>
+                          )}
                         </div>
                       </div>
                       <ChevronRightIcon className="w-5 h-5 text-text-muted shrink-0 ml-2" />
@@ -574,14 +579,13 @@ export default function ListDetailPage() {
                 {selectedPinIds.size} {selectedPinIds.size === 1 ? "spot" : "spots"} selected
               </span>
               <div className="flex gap-2">
-                {isOwner && (
+                {canEdit && (
                   <Button
                     variant="ghost"
                     size="sm"
                     onClick={async () => {
                       if (confirm(`Delete ${selectedPinIds.size} spots?`)) {
-                        const supabase = createClient();
-                        await supabase.from("pins").delete().in("id", [...selectedPinIds]);
+                        await data.pins.deleteMany([...selectedPinIds]);
                         setPins(prev => prev.filter(p => !selectedPinIds.has(p.id)));
                         exitSelectMode();
                       }
@@ -591,12 +595,17 @@ export default function ListDetailPage() {
                     Delete
                   </Button>
                 )}
+                {currentUserId && (
+                  <Button variant="secondary" size="sm" onClick={() => setShowCreatePoll(true)}>
+                    Start a poll
+                  </Button>
+                )}
                 <Button
                   variant="primary"
                   size="sm"
                   onClick={() => setShowBatchSave(true)}
                 >
-                  {isOwner ? "Move to list" : "Save to my list"}
+                  {canEdit ? "Move to list" : "Save to my list"}
                 </Button>
               </div>
             </div>
@@ -613,7 +622,7 @@ export default function ListDetailPage() {
         <BatchSaveForm
           selectedPins={pins.filter(p => selectedPinIds.has(p.id))}
           lists={allLists}
-          isOwner={isOwner}
+          canEdit={canEdit}
           onSuccess={() => {
             setShowBatchSave(false);
             exitSelectMode();
@@ -625,6 +634,22 @@ export default function ListDetailPage() {
         />
       </BottomSheet>
 
+      {/* Create Poll Sheet */}
+      <BottomSheet
+        isOpen={showCreatePoll}
+        onClose={() => setShowCreatePoll(false)}
+        title="Where should we go?"
+      >
+        {currentUserId && (
+          <CreatePollForm
+            pins={pins.filter(p => selectedPinIds.has(p.id))}
+            userId={currentUserId}
+            onCreated={(pollId) => router.push(pollPath(pollId))}
+            onCancel={() => setShowCreatePoll(false)}
+          />
+        )}
+      </BottomSheet>
+
       {/* Pin Detail Sheet */}
       <BottomSheet
         isOpen={selectedPin !== null && editingPin === null}
@@ -637,11 +662,12 @@ export default function ListDetailPage() {
         {selectedPin && (
           <PinDetail
             pin={{ ...selectedPin, list: list || undefined }}
-            isOwn={isOwner}
+            isOwn={canEdit}
             onEdit={() => handleEditPin(selectedPin)}
+            onPinChange={handlePinChange}
             savedBy={savedByData}
             isLoadingSavedBy={isLoadingSavedBy}
-            onSaveToList={!isOwner ? () => {
+            onSaveToList={!canEdit ? () => {
               setSavingPin(selectedPin);
               setSelectedPin(null);
               setShowSavePin(true);
@@ -698,6 +724,18 @@ export default function ListDetailPage() {
         )}
       </BottomSheet>
 
+      {/* Comments Sheet */}
+      <BottomSheet
+        isOpen={showComments}
+        onClose={() => setShowComments(false)}
+        title={`Comments${commentCount ? ` (${commentCount})` : ""}`}
+      >
+        <CommentThread
+          target={{ type: "list", id: listId }}
+          onCountChange={setCommentCount}
+        />
+      </BottomSheet>
+
       {/* List Menu Sheet */}
       <BottomSheet
         isOpen={showListMenu}
@@ -715,6 +753,53 @@ export default function ListDetailPage() {
             <EditIcon className="w-5 h-5 text-text-secondary" />
             <span className="text-text-primary">Edit list</span>
           </button>
+          <button
+            onClick={() => {
+              setShowListMenu(false);
+              setShowMembers(true);
+            }}
+            className="w-full flex items-center gap-3 p-4 rounded-xl hover:bg-surface-hover transition-colors"
+          >
+            <PeopleIcon className="w-5 h-5 text-text-secondary" />
+            <span className="text-text-primary">Members</span>
+          </button>
+          {list.is_public && (
+            <button
+              onClick={async () => {
+                setShowListMenu(false);
+                await navigator.clipboard.writeText(`${window.location.origin}/l/${list.id}`);
+                showToast({ message: "Link copied", emoji: "🔗", subtext: "Anyone can open it, no account needed" });
+              }}
+              className="w-full flex items-center gap-3 p-4 rounded-xl hover:bg-surface-hover transition-colors"
+            >
+              <LinkIcon className="w-5 h-5 text-text-secondary" />
+              <span className="text-text-primary">Copy share link</span>
+            </button>
+          )}
+          {list.is_public && (
+            <button
+              onClick={async () => {
+                setShowListMenu(false);
+                const src = `${window.location.origin}${embedPath(list.id)}`;
+                await navigator.clipboard.writeText(embedHtml(src, `${list.emoji_icon} ${list.name}`, EMBED_SIZE));
+                showToast({ message: "Embed code copied", emoji: "🗺️", subtext: "Paste it into any web page" });
+              }}
+              className="w-full flex items-center gap-3 p-4 rounded-xl hover:bg-surface-hover transition-colors"
+            >
+              <CodeIcon className="w-5 h-5 text-text-secondary" />
+              <span className="text-text-primary">Copy embed code</span>
+            </button>
+          )}
+          <button
+            onClick={() => {
+              setShowListMenu(false);
+              setShowExport(true);
+            }}
+            className="w-full flex items-center gap-3 p-4 rounded-xl hover:bg-surface-hover transition-colors"
+          >
+            <DownloadIcon className="w-5 h-5 text-text-secondary" />
+            <span className="text-text-primary">Export</span>
+          </button>
           <button
             onClick={() => {
               setShowListMenu(false);
@@ -728,6 +813,37 @@ export default function ListDetailPage() {
         </div>
       </BottomSheet>
 
+      {/* Members Sheet */}
+      <BottomSheet
+        isOpen={showMembers}
+        onClose={() => setShowMembers(false)}
+        title="Members"
+      >
+        <ListMembers
+          list={list}
+          owner={listOwner}
+          currentUserId={currentUserId}
+          role={role}
+          onMembersChange={setMembers}
+          onLeave={() => router.push("/lists")}
+        />
+      </BottomSheet>
+
+      {/* Export Sheet */}
+      <BottomSheet
+        isOpen={showExport}
+        onClose={() => setShowExport(false)}
+        title="Export list"
+      >
+        {list && (
+          <ExportSheet
+            lists={[list]}
+            title={list.name}
+            onDone={() => setShowExport(false)}
+          />
+        )}
+      </BottomSheet>
+
       {/* Edit List Sheet */}
       <BottomSheet
         isOpen={showEditList}
@@ -773,11 +889,27 @@ export default function ListDetailPage() {
         </div>
       </BottomSheet>
 
-      {/* Copy Confirmation Sheet */}
+      {/* Upstream Changes Sheet */}
       <BottomSheet
-        isOpen={showCopyConfirm}
-        onClose={() => setShowCopyConfirm(false)}
-        title="Copy list?"
+        isOpen={showUpstreamChanges && upstreamChanges !== null}
+        onClose={() => setShowUpstreamChanges(false)}
+        title="Pull updates"
+      >
+        {upstreamChanges && (
+          <UpstreamChanges
+            fork={list}
+            changes={upstreamChanges}
+            onPulled={handleUpstreamPulled}
+            onCancel={() => setShowUpstreamChanges(false)}
+          />
+        )}
+      </BottomSheet>
+
+      {/* Fork Confirmation Sheet */}
+      <BottomSheet
+        isOpen={showForkConfirm}
+        onClose={() => setShowForkConfirm(false)}
+        title="Fork list?"
       >
         <div className="space-y-4">
           <div className="flex items-center gap-3 p-4 bg-surface rounded-xl">
@@ -795,23 +927,23 @@ export default function ListDetailPage() {
             </div>
           </div>
           <p className="text-text-muted text-sm">
-            This will create a private copy of this list in your account. You can then edit it however you like.
+            This will create your own copy of this list. You can edit it however you like and still pull in spots added to the original later.
           </p>
           <div className="flex gap-3">
             <Button
               variant="ghost"
               className="flex-1"
-              onClick={() => setShowCopyConfirm(false)}
+              onClick={() => setShowForkConfirm(false)}
             >
               Cancel
             </Button>
             <Button
               variant="primary"
               className="flex-1"
-              onClick={handleCopyList}
-              isLoading={isCopying}
+              onClick={handleForkList}
+              isLoading={isForking}
             >
-              Copy List
+              Fork List
             </Button>
           </div>
         </div>
@@ -837,6 +969,7 @@ function EditListForm({
   const [isPublic, setIsPublic] = useState(list.is_public);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const data = useData();
 
   const handleSubmit = async () => {
     if (!name.trim()) {
@@ -847,30 +980,21 @@ function EditListForm({
     setIsLoading(true);
     setError(null);
 
-    const supabase = createClient();
-    const { data, error: updateError } = await supabase
-      .from("lists")
-      .update({
-        name: name.trim(),
-        description: description.trim() || null,
-        emoji_icon: emoji,
-        color,
-        is_public: isPublic,
-      })
-      .eq("id", list.id)
-      .select()
-      .single();
-
-    if (updateError) {
-      console.error("Error updating list:", updateError);
+    const updated = await data.lists.update(list.id, {
+      name: name.trim(),
+      description: description.trim() || null,
+      emoji_icon: emoji,
+      color,
+      is_public: isPublic,
+    });
+
+    if (!updated) {
       setError("Failed to update list");
       setIsLoading(false);
       return;
     }
 
-    if (data) {
-      onSuccess(data);
-    }
+    onSuccess(updated);
   };
 
   return (
@@ -991,6 +1115,12 @@ function EditListForm({
           Save Changes
         </Button>
       </div>
+
+      {/* Webhooks save as they change, separately from the form */}
+      <div className="pt-5 border-t border-border">
+        <h3 className="text-sm font-semibold text-text-primary mb-2">Webhooks</h3>
+        <ListWebhooks list={list} />
+      </div>
     </div>
   );
 }
@@ -1042,6 +1172,77 @@ function MoreIcon() {
   );
 }
 
+function PeopleIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2" />
+      <circle cx="9" cy="7" r="4" />
+      <path d="M23 21v-2a4 4 0 0 0-3-3.87" />
+      <path d="M16 3.13a4 4 0 0 1 0 7.75" />
+    </svg>
+  );
+}
+
+function DownloadIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+      <polyline points="7 10 12 15 17 10" />
+      <line x1="12" y1="15" x2="12" y2="3" />
+    </svg>
+  );
+}
+
+function CodeIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <polyline points="16 18 22 12 16 6" />
+      <polyline points="8 6 2 12 8 18" />
+    </svg>
+  );
+}
+
+function LinkIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71" />
+      <path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71" />
+    </svg>
+  );
+}
+
 function EditIcon({ className }: { className?: string }) {
   return (
     <svg
@@ -1105,7 +1306,7 @@ function LockIcon({ className }: { className?: string }) {
   );
 }
 
-function CopyIcon({ className }: { className?: string }) {
+function ForkIcon({ className }: { className?: string }) {
   return (
     <svg
       className={className}
@@ -1116,8 +1317,11 @@ function CopyIcon({ className }: { className?: string }) {
       strokeLinecap="round"
       strokeLinejoin="round"
     >
-      <rect x="9" y="9" width="13" height="13" rx="2" ry="2" />
-      <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1" />
+      <circle cx="6" cy="3" r="2" />
+      <circle cx="18" cy="3" r="2" />
+      <circle cx="12" cy="21" r="2" />
+      <path d="M6 5v2a4 4 0 0 0 4 4h4a4 4 0 0 0 4-4V5" />
+      <path d="M12 11v8" />
     </svg>
   );
 }
@@ -1143,34 +1347,20 @@ function PinLikeButton({ pinId }: { pinId: string }) {
   const [isLiked, setIsLiked] = useState(false);
   const [likeCount, setLikeCount] = useState(0);
   const [isLoaded, setIsLoaded] = useState(false);
+  const data = useData();
 
   useEffect(() => {
     const fetchLikeStatus = async () => {
-      const supabase = createClient();
-      const { data: { user } } = await supabase.auth.getUser();
-
-      if (user) {
-        const { data: likeData } = await supabase
-          .from("pin_likes")
-          .select("*")
-          .eq("pin_id", pinId)
-          .eq("user_id", user.id)
-          .maybeSingle();
-
-        setIsLiked(!!likeData);
-      }
-
-      const { count } = await supabase
-        .from("pin_likes")
-        .select("*", { count: "exact", head: true })
-        .eq("pin_id", pinId);
+      const userId = await data.auth.getCurrentUserId();
+      const status = await data.likes.getStatus({ type: "pin", id: pinId }, userId);
 
-      setLikeCount(count || 0);
+      setIsLiked(status.liked);
+      setLikeCount(status.count);
       setIsLoaded(true);
     };
 
     fetchLikeStatus();
-  }, [pinId]);
+  }, [pinId, data]);
 
   if (!isLoaded) {
     return (
@@ -1215,14 +1405,14 @@ function SavePinToListForm({
   const [newListName, setNewListName] = useState("");
   const [newListEmoji, setNewListEmoji] = useState("📍");
   const [newListColor, setNewListColor] = useState("#ff2d92");
+  const data = useData();
 
   const handleSubmit = async () => {
     setIsLoading(true);
 
-    const supabase = createClient();
-    const { data: { user } } = await supabase.auth.getUser();
+    const userId = await data.auth.getCurrentUserId();
 
-    if (!user) {
+    if (!userId) {
       setIsLoading(false);
       return;
     }
@@ -1236,20 +1426,15 @@ function SavePinToListForm({
         return;
       }
 
-      const { data: newList, error } = await supabase
-        .from("lists")
-        .insert({
-          user_id: user.id,
-          name: newListName.trim(),
-          emoji_icon: newListEmoji,
-          color: newListColor,
-          is_public: true,
-        })
-        .select()
-        .single();
-
-      if (error || !newList) {
-        console.error("Error creating list:", error);
+      const newList = await data.lists.create({
+        user_id: userId,
+        name: newListName.trim(),
+        emoji_icon: newListEmoji,
+        color: newListColor,
+        is_public: true,
+      });
+
+      if (!newList) {
         setIsLoading(false);
         return;
       }
@@ -1259,20 +1444,13 @@ function SavePinToListForm({
     }
 
     // Save the pin to the selected list
-    const { error: pinError } = await supabase.from("pins").insert({
-      user_id: user.id,
-      list_id: targetListId,
-      name: pin.name,
-      address: pin.address,
-      lat: pin.lat,
-      lng: pin.lng,
-      category: pin.category,
-      is_visited: isVisited,
-      personal_notes: notes || null,
+    const saved = await data.pins.copyToList([pin], {
+      listId: targetListId,
+      userId,
+      personal: { is_visited: isVisited, personal_notes: notes || null },
     });
 
-    if (pinError) {
-      console.error("Error saving pin:", pinError);
+    if (!saved) {
       setIsLoading(false);
       return;
     }
@@ -1435,14 +1613,14 @@ function SavePinToListForm({
 function BatchSaveForm({
   selectedPins,
   lists,
-  isOwner,
+  canEdit,
   onSuccess,
   onCancel,
   onListCreated,
 }: {
   selectedPins: Pin[];
   lists: List[];
-  isOwner: boolean;
+  canEdit: boolean;
   onSuccess: () => void;
   onCancel: () => void;
   onListCreated?: (list: List) => void;
@@ -1455,14 +1633,14 @@ function BatchSaveForm({
   const [newListName, setNewListName] = useState("");
   const [newListEmoji, setNewListEmoji] = useState("📍");
   const [newListColor, setNewListColor] = useState("#ff2d92");
+  const data = useData();
 
   const handleSubmit = async () => {
     setIsLoading(true);
 
-    const supabase = createClient();
-    const { data: { user } } = await supabase.auth.getUser();
+    const userId = await data.auth.getCurrentUserId();
 
-    if (!user) {
+    if (!userId) {
       setIsLoading(false);
       return;
     }
@@ -1476,20 +1654,15 @@ function BatchSaveForm({
         return;
       }
 
-      const { data: newList, error } = await supabase
-        .from("lists")
-        .insert({
-          user_id: user.id,
-          name: newListName.trim(),
-          emoji_icon: newListEmoji,
-          color: newListColor,
-          is_public: true,
-        })
-        .select()
-        .single();
-
-      if (error || !newList) {
-        console.error("Error creating list:", error);
+      const newList = await data.lists.create({
+        user_id: userId,
+        name: newListName.trim(),
+        emoji_icon: newListEmoji,
+        color: newListColor,
+        is_public: true,
+      });
+
+      if (!newList) {
         setIsLoading(false);
         return;
       }
@@ -1498,34 +1671,19 @@ function BatchSaveForm({
       targetListId = newList.id;
     }
 
-    // Create all pins in the target list
-    const pinsToInsert = selectedPins.map((pin) => ({
-      user_id: user.id,
-      list_id: targetListId,
-      name: pin.name,
-      address: pin.address,
-      lat: pin.lat,
-      lng: pin.lng,
-      category: pin.category,
-      is_visited: isOwner ? pin.is_visited : false,
-      personal_notes: isOwner ? pin.personal_notes : null,
-      personal_rating: isOwner ? pin.personal_rating : null,
-    }));
-
-    const { error: insertError } = await supabase.from("pins").insert(pinsToInsert);
-
-    if (insertError) {
-      console.error("Error saving pins:", insertError);
+    // Owners and editors can move rather than copy by deleting the originals afterwards
+    const saved = await savePinsToList(data, selectedPins, {
+      listId: targetListId,
+      userId,
+      canEdit,
+      move: deleteAfterMove,
+    });
+
+    if (!saved) {
       setIsLoading(false);
       return;
     }
 
-    // If owner chose to delete original pins after moving
-    if (isOwner && deleteAfterMove) {
-      const pinIds = selectedPins.map((p) => p.id);
-      await supabase.from("pins").delete().in("id", pinIds);
-    }
-
     setIsLoading(false);
     onSuccess();
   };
@@ -1557,7 +1715,7 @@ function BatchSaveForm({
       {/* List Selection */}
       <div>
         <label className="block text-sm text-text-secondary mb-1.5">
-          {isOwner ? "Move to list" : "Save to list"}
+          {canEdit ? "Move to list" : "Save to list"}
         </label>
         <div className="flex flex-wrap gap-2">
           {lists.map((list) => (
@@ -1634,8 +1792,8 @@ function BatchSaveForm({
         </div>
       )}
 
-      {/* Move option for owner */}
-      {isOwner && (
+      {/* Move option for owners and editors */}
+      {canEdit && (
         <button
           onClick={() => setDeleteAfterMove(!deleteAfterMove)}
           className="flex items-center gap-3 w-full p-3 bg-surface rounded-xl"
@@ -1666,8 +1824,8 @@ function BatchSaveForm({
           disabled={selectedListId === "new" ? !newListName.trim() : !selectedListId}
         >
           {selectedListId === "new"
-            ? `Create & ${isOwner ? "Move" : "Save"}`
-            : isOwner ? "Move" : "Save"}
+            ? `Create & ${canEdit ? "Move" : "Save"}`
+            : canEdit ? "Move" : "Save"}
         </Button>
       </div>
     </div>
@@ -0,0 +1,65 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter, useParams } from "next/navigation";
+import { EmptyState } from "@/components/ui";
+import { useData } from "@/lib/data";
+
+export default function JoinListPage() {
+  const router = useRouter();
+  const params = useParams();
+  const token = params.token as string;
+  const data = useData();
+  const [status, setStatus] = useState<"joining" | "signed-out" | "invalid">("joining");
+
+  useEffect(() => {
+    const join = async () => {
+      const userId = await data.auth.getCurrentUserId();
+      if (!userId) {
+        setStatus("signed-out");
+        return;
+      }
+
+      const listId = await data.members.acceptInvite(token);
+      if (listId) {
+        router.replace(`/lists/${listId}`);
+      } else {
+        setStatus("invalid");
+      }
+    };
+
+    join();
+  }, [token, router, data]);
+
+  if (status === "signed-out") {
+    return (
+      <div className="min-h-screen bg-background pt-16">
+        <EmptyState
+          icon="🔑"
+          title="Sign in to join"
+          description="You need an account to join a shared list. Sign in, then open the invite link again."
+          action={{ label: "Sign In", onClick: () => router.push("/login") }}
+        />
+      </div>
+    );
+  }
+
+  if (status === "invalid") {
+    return (
+      <div className="min-h-screen bg-background pt-16">
+        <EmptyState
+          icon="🔗"
+          title="This link doesn't work"
+          description="The invite may have been revoked. Ask the list owner for a new one."
+          action={{ label: "Go to Lists", onClick: () => router.push("/lists") }}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background">
+      <div className="w-8 h-8 border-2 border-neon-pink border-t-transparent rounded-full animate-spin" />
+    </div>
+  );
+}
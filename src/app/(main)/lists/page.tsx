@@ -5,23 +5,27 @@ import { useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button, BottomSheet, Header, Avatar, EmptyState } from "@/components/ui";
 import { CreateListSheet } from "@/components/lists/CreateListSheet";
+import { ImportPlacesSheet } from "@/components/lists/ImportPlacesSheet";
 import { PinDetail } from "@/components/pins/PinDetail";
 import { EditPinForm } from "@/components/pins/EditPinForm";
-import { createClient } from "@/lib/supabase/client";
+import { useData, type ImportResult, type ListWithOwner } from "@/lib/data";
 import type { List, Profile, Pin } from "@/types";
 
 interface FollowedUserWithLists {
   profile: Profile;
-  lists: (List & { pins_count: number })[];
+  lists: List[];
 }
 
 export default function ListsPage() {
   const router = useRouter();
-  const [lists, setLists] = useState<(List & { pins_count: number })[]>([]);
+  const data = useData();
+  const [lists, setLists] = useState<List[]>([]);
   const [followedUsersLists, setFollowedUsersLists] = useState<FollowedUserWithLists[]>([]);
-  const [savedLists, setSavedLists] = useState<(List & { pins_count: number; owner?: Profile })[]>([]);
+  const [savedLists, setSavedLists] = useState<ListWithOwner[]>([]);
+  const [sharedLists, setSharedLists] = useState<ListWithOwner[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showCreateSheet, setShowCreateSheet] = useState(false);
+  const [showImportSheet, setShowImportSheet] = useState(false);
   const [expandedUsers, setExpandedUsers] = useState<Set<string>>(new Set());
   const [expandedLists, setExpandedLists] = useState<Set<string>>(new Set());
   const [listPins, setListPins] = useState<Record<string, Pin[]>>({});
@@ -35,23 +39,15 @@ export default function ListsPage() {
 
     setLoadingPins((prev) => new Set(prev).add(listId));
 
-    const supabase = createClient();
-    const { data: pinsData } = await supabase
-      .from("pins")
-      .select("*")
-      .eq("list_id", listId)
-      .order("created_at", { ascending: false });
-
-    if (pinsData) {
-      setListPins((prev) => ({ ...prev, [listId]: pinsData }));
-    }
+    const pinsData = await data.pins.listByList(listId);
+    setListPins((prev) => ({ ...prev, [listId]: pinsData }));
 
     setLoadingPins((prev) => {
       const next = new Set(prev);
       next.delete(listId);
       return next;
     });
-  }, [listPins]);
+  }, [listPins, data]);
 
   const toggleListExpanded = useCallback((listId: string) => {
     setExpandedLists((prev) => {
@@ -69,119 +65,43 @@ export default function ListsPage() {
   useEffect(() => {
     const fetchLists = async () => {
       try {
-        const supabase = createClient();
-        const { data: { user } } = await supabase.auth.getUser();
+        const userId = await data.auth.getCurrentUserId();
 
-        if (!user) {
+        if (!userId) {
           router.push("/login");
           return;
         }
 
-        setCurrentUserId(user.id);
+        setCurrentUserId(userId);
 
         // Fetch user's own lists with pin count
-        const { data: listsData } = await supabase
-          .from("lists")
-          .select(`*, pins:pins(count)`)
-          .eq("user_id", user.id)
-          .order("updated_at", { ascending: false });
-
-        if (listsData) {
-          const listsWithCount = listsData.map((list) => ({
-            ...list,
-            pins_count: list.pins?.[0]?.count || 0,
-          }));
-          setLists(listsWithCount);
-        }
+        setLists(await data.lists.listByOwner(userId, { withPinCounts: true }));
 
-        // Fetch followed users
-        const { data: followsData } = await supabase
-          .from("follows")
-          .select("following_id")
-          .eq("follower_id", user.id);
-
-        if (followsData && followsData.length > 0) {
-          const followedIds = followsData.map((f) => f.following_id);
-
-          const { data: profilesData } = await supabase
-            .from("profiles")
-            .select("*")
-            .in("id", followedIds);
-
-          const { data: followedListsData } = await supabase
-            .from("lists")
-            .select(`*, pins:pins(count)`)
-            .in("user_id", followedIds)
-            .eq("is_public", true)
-            .order("updated_at", { ascending: false });
-
-          if (profilesData && followedListsData) {
-            const userListsMap = new Map<string, FollowedUserWithLists>();
-
-            profilesData.forEach((profile) => {
-              userListsMap.set(profile.id, { profile, lists: [] });
-            });
-
-            followedListsData.forEach((list) => {
-              const userEntry = userListsMap.get(list.user_id);
-              if (userEntry) {
-                userEntry.lists.push({
-                  ...list,
-                  pins_count: list.pins?.[0]?.count || 0,
-                });
-              }
-            });
+        // Fetch lists other people have added the user to
+        setSharedLists(await data.lists.listSharedWith(userId));
 
-            const usersWithLists = Array.from(userListsMap.values()).filter(
-              (u) => u.profile && u.lists.length > 0
-            );
+        // Fetch followed users and their public lists
+        const followedIds = await data.follows.getFollowingIds(userId);
+        const [profilesData, followedListsData] = await Promise.all([
+          data.profiles.getMany(followedIds),
+          data.lists.listPublicByOwners(followedIds, { orderBy: "updated_at", withPinCounts: true }),
+        ]);
 
-            setFollowedUsersLists(usersWithLists);
+        const usersWithLists = profilesData
+          .map((profile) => ({
+            profile,
+            lists: followedListsData.filter((l) => l.user_id === profile.id),
+          }))
+          .filter((u) => u.lists.length > 0);
 
-            if (usersWithLists.length > 0) {
-              setExpandedUsers(new Set([usersWithLists[0].profile.id]));
-            }
-          }
+        setFollowedUsersLists(usersWithLists);
+
+        if (usersWithLists.length > 0) {
+          setExpandedUsers(new Set([usersWithLists[0].profile.id]));
         }
 
         // Fetch saved/liked lists
-        const { data: likedData } = await supabase
-          .from("list_likes")
-          .select("list_id")
-          .eq("user_id", user.id)
-          .order("created_at", { ascending: false });
-
-        if (likedData && likedData.length > 0) {
-          const likedListIds = likedData.map((l) => l.list_id);
-
-          const { data: likedListsData } = await supabase
-            .from("lists")
-            .select(`*, pins:pins(count)`)
-            .in("id", likedListIds)
-            .neq("user_id", user.id)
-            .eq("is_public", true);
-
-          if (likedListsData) {
-            const ownerIds = [...new Set(likedListsData.map((l) => l.user_id))];
-            const { data: ownersData } = await supabase
-              .from("profiles")
-              .select("*")
-              .in("id", ownerIds);
-
-            const ownersMap = new Map(ownersData?.map((o) => [o.id, o]) || []);
-
-            const orderedLists = likedListIds
-              .map((id) => likedListsData.find((l) => l.id === id))
-              .filter((l): l is typeof likedListsData[0] => l !== undefined)
-              .map((l) => ({
-                ...l,
-                pins_count: l.pins?.[0]?.count || 0,
-                owner: ownersMap.get(l.user_id),
-              }));
-
-            setSavedLists(orderedLists);
-          }
-        }
+        setSavedLists(await data.lists.listLikedBy(userId, { excludeOwnerId: userId }));
       } catch (error) {
         console.error("Error in fetchLists:", error);
       } finally {
@@ -190,7 +110,7 @@ export default function ListsPage() {
     };
 
     fetchLists();
-  }, [router]);
+  }, [router, data]);
 
   const toggleUserExpanded = (userId: string) => {
     setExpandedUsers((prev) => {
@@ -210,33 +130,39 @@ export default function ListsPage() {
     color: string,
     isPublic: boolean
   ) => {
-    const supabase = createClient();
-    const { data: { user } } = await supabase.auth.getUser();
-
-    if (!user) return;
-
-    const { data, error } = await supabase
-      .from("lists")
-      .insert({
-        user_id: user.id,
-        name,
-        emoji_icon: emoji,
-        color,
-        is_public: isPublic,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error("Error creating list:", error);
-      alert(`Failed to create list: ${error.message}`);
+    const userId = await data.auth.getCurrentUserId();
+
+    if (!userId) return;
+
+    const created = await data.lists.create({
+      user_id: userId,
+      name,
+      emoji_icon: emoji,
+      color,
+      is_public: isPublic,
+    });
+
+    if (!created) {
+      alert("Failed to create list");
       return;
     }
 
-    if (data) {
-      setLists((prev) => [{ ...data, pins_count: 0 }, ...prev]);
-      setShowCreateSheet(false);
-    }
+    setLists((prev) => [{ ...created, pins_count: 0 }, ...prev]);
+    setShowCreateSheet(false);
+  };
+
+  const handleImported = (list: List, { imported }: ImportResult) => {
+    setLists((prev) =>
+      prev.some((l) => l.id === list.id)
+        ? prev.map((l) => (l.id === list.id ? { ...l, pins_count: (l.pins_count ?? 0) + imported } : l))
+        : [{ ...list, pins_count: imported }, ...prev]
+    );
+    // Refetch the list's pins next time it's expanded
+    setListPins((prev) => {
+      const next = { ...prev };
+      delete next[list.id];
+      return next;
+    });
   };
 
   if (isLoading) {
@@ -252,14 +178,23 @@ export default function ListsPage() {
       <Header
         title="Lists"
         rightAction={
-          <Button
-            variant="primary"
-            size="sm"
-            onClick={() => setShowCreateSheet(true)}
-          >
-            <PlusIcon />
-            New
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setShowImportSheet(true)}
+            >
+              Import
+            </Button>
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={() => setShowCreateSheet(true)}
+            >
+              <PlusIcon />
+              New
+            </Button>
+          </div>
         }
       />
 
@@ -299,6 +234,38 @@ export default function ListsPage() {
           </div>
         )}
 
+        {/* Shared With You Section */}
+        {sharedLists.length > 0 && (
+          <section className="mt-8">
+            <div className="flex items-center gap-2 mb-4">
+              <UsersIcon />
+              <h2 className="text-lg font-semibold text-text-primary">Shared with you</h2>
+              <span className="text-sm text-text-muted">({sharedLists.length})</span>
+            </div>
+
+            <div className="space-y-2">
+              {sharedLists.map((list, index) => (
+                <motion.div
+                  key={list.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.03 }}
+                >
+                  <ExpandableListRow
+                    list={list}
+                    isExpanded={expandedLists.has(list.id)}
+                    isLoading={loadingPins.has(list.id)}
+                    pins={listPins[list.id] || []}
+                    onToggle={() => toggleListExpanded(list.id)}
+                    onPinClick={(pin) => setSelectedPin({ ...pin, list })}
+                    showOwner
+                  />
+                </motion.div>
+              ))}
+            </div>
+          </section>
+        )}
+
         {/* Following Section */}
         {followedUsersLists.length > 0 && (
           <section className="mt-8">
@@ -430,7 +397,7 @@ export default function ListsPage() {
         )}
 
         {/* Empty state for social */}
-        {lists.length > 0 && followedUsersLists.length === 0 && savedLists.length === 0 && (
+        {lists.length > 0 && sharedLists.length === 0 && followedUsersLists.length === 0 && savedLists.length === 0 && (
           <EmptyState
             icon="👥"
             title="Find friends"
@@ -456,6 +423,21 @@ export default function ListsPage() {
         />
       </BottomSheet>
 
+      {/* Import Sheet */}
+      <BottomSheet
+        isOpen={showImportSheet}
+        onClose={() => setShowImportSheet(false)}
+        title="Import places"
+      >
+        {showImportSheet && (
+          <ImportPlacesSheet
+            lists={lists}
+            onImported={handleImported}
+            onCancel={() => setShowImportSheet(false)}
+          />
+        )}
+      </BottomSheet>
+
       {/* Pin Detail Sheet */}
       <BottomSheet
         isOpen={selectedPin !== null && editingPin === null}
@@ -470,6 +452,7 @@ export default function ListsPage() {
               setEditingPin(selectedPin);
               setSelectedPin(null);
             }}
+            onPinChange={setSelectedPin}
           />
         )}
       </BottomSheet>
@@ -529,7 +512,7 @@ function ExpandableListRow({
   onPinClick,
   showOwner = false,
 }: {
-  list: List & { pins_count: number; owner?: Profile };
+  list: List & { owner?: Profile };
   isExpanded: boolean;
   isLoading: boolean;
   pins: Pin[];
@@ -0,0 +1,165 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { motion } from "framer-motion";
+import { formatDistanceToNow } from "date-fns";
+import { Avatar, Header } from "@/components/ui";
+import { useUnreadNotifications } from "@/components/notifications/NotificationsProvider";
+import { FollowRequests } from "@/components/social/FollowRequests";
+import { useData } from "@/lib/data";
+import {
+  describeNotificationGroup,
+  groupNotifications,
+  notificationHref,
+  type NotificationGroup,
+} from "@/lib/notifications";
+import type { NotificationType, UserNotification } from "@/types";
+
+const PAGE_SIZE = 100;
+
+const TYPE_EMOJI: Record<NotificationType, string> = {
+  list_like: "❤️",
+  pin_like: "❤️",
+  pin_save: "📌",
+  follow: "👋",
+  follow_request: "🔒",
+  poll_invite: "🗳️",
+  poll_result: "🏆",
+};
+
+export default function NotificationsPage() {
+  const router = useRouter();
+  const data = useData();
+  const { refresh: refreshUnread } = useUnreadNotifications();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Follow requests are answered in their own section above the list
+  const groups = useMemo(
+    () => groupNotifications(notifications.filter((n) => n.type !== "follow_request")),
+    [notifications]
+  );
+  const hasUnread = groups.some((group) => group.isUnread);
+
+  const load = useCallback(
+    async (id: string) => {
+      setNotifications(await data.notifications.list(id, PAGE_SIZE));
+    },
+    [data]
+  );
+
+  useEffect(() => {
+    const init = async () => {
+      const id = await data.auth.getCurrentUserId();
+      if (!id) {
+        router.push("/login");
+        return;
+      }
+      setUserId(id);
+      await load(id);
+      setIsLoading(false);
+    };
+    init();
+  }, [data, router, load]);
+
+  const handleOpen = async (group: NotificationGroup) => {
+    if (group.isUnread) {
+      await data.notifications.markRead(group.notifications.map((n) => n.id));
+      refreshUnread();
+    }
+    const href = notificationHref(group);
+    if (href) {
+      router.push(href);
+    } else if (userId) {
+      await load(userId);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    if (!userId) return;
+    if (await data.notifications.markAllRead(userId)) {
+      await load(userId);
+      refreshUnread();
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="w-8 h-8 border-2 border-neon-pink border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <Header
+        title="Notifications"
+        showNotifications={false}
+        rightAction={
+          hasUnread && (
+            <button onClick={handleMarkAllRead} className="text-sm text-neon-cyan px-2 py-1">
+              Mark all read
+            </button>
+          )
+        }
+      />
+
+      <div className="p-4">
+        {userId && (
+          <FollowRequests
+            userId={userId}
+            onChange={() => {
+              load(userId);
+              refreshUnread();
+            }}
+          />
+        )}
+
+        {groups.length === 0 ? (
+          <div className="text-center py-16">
+            <div className="w-20 h-20 mx-auto mb-4 rounded-full bg-surface-elevated flex items-center justify-center">
+              <span className="text-4xl">🔔</span>
+            </div>
+            <h2 className="text-xl font-semibold text-text-primary mb-2">Nothing yet</h2>
+            <p className="text-text-secondary">Likes, saves and new followers will show up here</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {groups.map((group, index) => (
+              <motion.button
+                key={group.key}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: Math.min(index, 10) * 0.03 }}
+                onClick={() => handleOpen(group)}
+                className={`w-full flex items-center gap-3 p-3 rounded-xl text-left transition-colors ${
+                  group.isUnread ? "bg-surface-elevated" : "hover:bg-surface-elevated"
+                }`}
+              >
+                <div className="relative shrink-0">
+                  <Avatar
+                    src={group.actors[0]?.avatar_url}
+                    alt={group.actors[0]?.display_name || group.actors[0]?.username}
+                  />
+                  <span className="absolute -bottom-1 -right-1 text-sm">{TYPE_EMOJI[group.type]}</span>
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className={`text-sm ${group.isUnread ? "text-text-primary font-medium" : "text-text-secondary"}`}>
+                    {describeNotificationGroup(group)}
+                  </p>
+                  <p className="text-xs text-text-muted">
+                    {formatDistanceToNow(new Date(group.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+                {group.isUnread && <span className="w-2 h-2 rounded-full bg-neon-pink shrink-0" />}
+              </motion.button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
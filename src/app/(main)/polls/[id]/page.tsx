@@ -0,0 +1,264 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import { MapView } from "@/components/map/MapView";
+import { Avatar, Button, Header } from "@/components/ui";
+import { useData, type PollChoice } from "@/lib/data";
+import { pinBounds } from "@/lib/embed";
+import { isPollOpen, leadingOption, tallyPoll } from "@/lib/polls";
+import { applyPollChange } from "@/lib/realtime";
+import type { Pin, Poll, PollOption } from "@/types";
+
+export default function PollPage() {
+  const router = useRouter();
+  const params = useParams();
+  const pollId = params.id as string;
+  const data = useData();
+
+  const [poll, setPoll] = useState<Poll | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [center, setCenter] = useState<[number, number] | undefined>();
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const load = async () => {
+      const [userId, pollData] = await Promise.all([data.auth.getCurrentUserId(), data.polls.getById(pollId)]);
+      setCurrentUserId(userId);
+      setPoll(pollData);
+      // Start in the middle of the options, as MapView eases to center once loaded
+      const bounds = pinBounds(pollData?.options ?? []);
+      if (bounds) setCenter([(bounds[0][0] + bounds[1][0]) / 2, (bounds[0][1] + bounds[1][1]) / 2]);
+      setIsLoading(false);
+    };
+    load();
+  }, [data, pollId]);
+
+  // Live results: everyone's votes, and the result once the poll closes
+  useEffect(() => {
+    return data.realtime.subscribeToPoll(pollId, (change) => {
+      setPoll((prev) => prev && applyPollChange(prev, change));
+    });
+  }, [data, pollId]);
+
+  // Keeps the countdown current and stops voting at the deadline
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const options = useMemo(() => poll?.options ?? [], [poll]);
+  const tallies = useMemo(() => tallyPoll(options, poll?.votes ?? []), [options, poll]);
+  const leader = leadingOption(tallies);
+  const topOption = poll?.closed_at ? options.find((o) => o.id === poll.winner_option_id) ?? null : leader;
+
+  // Options drawn as pins: the winner, or the leader while voting is open, stands out and vetoed ones are crossed out
+  const mapPins = useMemo(
+    () =>
+      tallies.map(
+        ({ option, vetoed }) =>
+          ({
+            ...option,
+            list: {
+              emoji_icon: vetoed ? "🚫" : option.id === topOption?.id ? "🏆" : "🍽️",
+              color: vetoed ? "#6b7280" : option.id === topOption?.id ? "#34d399" : "#ff2d92",
+            },
+          }) as unknown as Pin
+      ),
+    [tallies, topOption]
+  );
+  const voteCounts = useMemo(() => new Map(tallies.map((t) => [t.option.id, t.votes])), [tallies]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="w-8 h-8 border-2 border-neon-pink border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  // Deleted, or the viewer wasn't invited
+  if (!poll) {
+    return (
+      <div className="min-h-screen bg-background pb-20">
+        <Header title="Poll" backButton />
+        <div className="text-center py-16 px-6">
+          <div className="w-20 h-20 mx-auto mb-4 rounded-full bg-surface-elevated flex items-center justify-center">
+            <span className="text-4xl">🗳️</span>
+          </div>
+          <h2 className="text-xl font-semibold text-text-primary mb-2">This poll isn&apos;t available</h2>
+          <p className="text-text-secondary">Only the people invited can see it</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isOpen = isPollOpen(poll, now);
+  const isCreator = poll.creator_id === currentUserId;
+  const myChoice = (option: PollOption): PollChoice | null => {
+    const vote = poll.votes?.find((v) => v.option_id === option.id && v.user_id === currentUserId);
+    return vote ? (vote.is_veto ? "veto" : "vote") : null;
+  };
+
+  const handleChoice = async (option: PollOption, choice: PollChoice) => {
+    if (!currentUserId) return;
+    const next = myChoice(option) === choice ? null : choice;
+    if (!(await data.polls.setChoice({ pollId: poll.id, optionId: option.id }, currentUserId, next))) return;
+
+    // Apply it now rather than wait for it to come back over Realtime
+    setPoll((prev) => {
+      if (!prev) return prev;
+      const taken = (prev.votes ?? []).filter(
+        (v) => v.user_id === currentUserId && (v.option_id === option.id || (next === "veto" && v.is_veto))
+      );
+      const cleared = taken.reduce(
+        (p, v) => applyPollChange(p, { type: "unvote", optionId: v.option_id, userId: v.user_id }),
+        prev
+      );
+      if (!next) return cleared;
+      return applyPollChange(cleared, {
+        type: "vote",
+        vote: {
+          poll_id: prev.id,
+          option_id: option.id,
+          user_id: currentUserId,
+          is_veto: next === "veto",
+          created_at: new Date().toISOString(),
+        },
+      });
+    });
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete "${poll.question}"?`)) return;
+    if (await data.polls.delete(poll.id)) {
+      router.push("/notifications");
+    }
+  };
+
+  const subtitle = poll.closed_at
+    ? "Voting closed"
+    : isOpen
+      ? `Closes ${formatDistanceToNow(new Date(poll.closes_at), { addSuffix: true })}`
+      : "Counting the votes...";
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <Header title={poll.question} subtitle={subtitle} backButton />
+
+      {options.length > 0 && (
+        <div className="h-72">
+          <MapView
+            pins={mapPins}
+            pinListCounts={voteCounts}
+            onPinClick={(pin) => setCenter([pin.lng, pin.lat])}
+            center={center}
+            bounds={pinBounds(options) ?? undefined}
+            geolocate={false}
+          />
+        </div>
+      )}
+
+      <div className="p-4 space-y-4">
+        {poll.closed_at && (
+          <div className="rounded-2xl border border-neon-green/40 bg-neon-green/10 p-4 text-center">
+            {topOption ? (
+              <>
+                <p className="text-sm text-text-secondary">The group picked</p>
+                <p className="text-xl font-semibold text-text-primary">🏆 {topOption.name}</p>
+                {topOption.address && <p className="text-xs text-text-muted">{topOption.address}</p>}
+              </>
+            ) : (
+              <p className="text-text-secondary">No winner: every spot was vetoed or got no votes</p>
+            )}
+          </div>
+        )}
+
+        {poll.participants && poll.participants.length > 0 && (
+          <div className="flex items-center gap-2">
+            <div className="flex -space-x-2">
+              {poll.participants.slice(0, 8).map((profile) => (
+                <Avatar
+                  key={profile.id}
+                  src={profile.avatar_url}
+                  alt={profile.display_name || profile.username}
+                  fallback={(profile.display_name || profile.username)?.[0]}
+                  size="sm"
+                />
+              ))}
+            </div>
+            <span className="text-sm text-text-secondary">
+              {poll.participants.length} {poll.participants.length === 1 ? "person" : "people"} voting
+              {poll.creator && ` · started by @${poll.creator.username}`}
+            </span>
+          </div>
+        )}
+
+        {isOpen && (
+          <p className="text-xs text-text-muted">
+            Vote for as many spots as you like. You get one veto, which rules a spot out.
+          </p>
+        )}
+
+        <ul className="space-y-2">
+          {tallies.map(({ option, votes, vetoed }) => {
+            const choice = myChoice(option);
+            const isLeading = option.id === topOption?.id;
+            return (
+              <li
+                key={option.id}
+                className={`rounded-xl border p-3 ${
+                  isLeading ? "border-neon-green/60" : "border-border"
+                } ${vetoed ? "opacity-60" : ""}`}
+              >
+                <button
+                  onClick={() => setCenter([option.lng, option.lat])}
+                  className="w-full flex items-center gap-3 text-left"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className={`font-medium text-text-primary truncate ${vetoed ? "line-through" : ""}`}>
+                      {option.name}
+                    </p>
+                    {option.address && <p className="text-xs text-text-muted truncate">{option.address}</p>}
+                  </div>
+                  {vetoed && <span className="shrink-0 text-xs text-red-400">Vetoed</span>}
+                  <span className="shrink-0 text-sm font-semibold text-neon-cyan">
+                    {votes} {votes === 1 ? "vote" : "votes"}
+                  </span>
+                </button>
+                {isOpen && currentUserId && (
+                  <div className="flex gap-2 mt-2">
+                    <Button
+                      variant={choice === "vote" ? "primary" : "secondary"}
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => handleChoice(option, "vote")}
+                    >
+                      {choice === "vote" ? "Voted" : "Vote"}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className={choice === "veto" ? "text-red-400" : ""}
+                      onClick={() => handleChoice(option, "veto")}
+                    >
+                      {choice === "veto" ? "Vetoed" : "Veto"}
+                    </Button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        {isCreator && (
+          <Button variant="ghost" className="w-full text-red-400" onClick={handleDelete}>
+            Delete poll
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,11 +4,15 @@ import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui";
+import { AccessTokens } from "@/components/profile/AccessTokens";
+import { NotificationSettings } from "@/components/profile/NotificationSettings";
 import { createClient } from "@/lib/supabase/client";
+import { useData } from "@/lib/data";
 import type { Profile } from "@/types";
 
 export default function EditProfilePage() {
   const router = useRouter();
+  const data = useData();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [profile, setProfile] = useState<Profile | null>(null);
@@ -22,31 +26,26 @@ export default function EditProfilePage() {
   const [displayName, setDisplayName] = useState("");
   const [username, setUsername] = useState("");
   const [bio, setBio] = useState("");
+  const [isPrivate, setIsPrivate] = useState(false);
   const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchProfile = async () => {
-      const supabase = createClient();
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
+      const userId = await data.auth.getCurrentUserId();
 
-      if (!user) {
+      if (!userId) {
         router.push("/login");
         return;
       }
 
-      const { data: profileData } = await supabase
-        .from("profiles")
-        .select("*")
-        .eq("id", user.id)
-        .single();
+      const profileData = await data.profiles.getById(userId);
 
       if (profileData) {
         setProfile(profileData);
         setDisplayName(profileData.display_name || "");
         setUsername(profileData.username || "");
         setBio(profileData.bio || "");
+        setIsPrivate(profileData.is_private);
         setAvatarUrl(profileData.avatar_url);
       }
 
@@ -54,7 +53,7 @@ export default function EditProfilePage() {
     };
 
     fetchProfile();
-  }, [router]);
+  }, [router, data]);
 
   const handleAvatarClick = () => {
     fileInputRef.current?.click();
@@ -98,12 +97,9 @@ export default function EditProfilePage() {
         .getPublicUrl(fileName);
 
       // Update profile with new avatar URL
-      const { error: updateError } = await supabase
-        .from("profiles")
-        .update({ avatar_url: publicUrl })
-        .eq("id", profile.id);
-
-      if (updateError) throw updateError;
+      if (!(await data.profiles.update(profile.id, { avatar_url: publicUrl }))) {
+        throw new Error("Failed to save avatar URL");
+      }
 
       setAvatarUrl(publicUrl);
     } catch (err) {
@@ -133,18 +129,9 @@ export default function EditProfilePage() {
     setSuccess(false);
 
     try {
-      const supabase = createClient();
-
       // Check if username is taken (if changed)
       if (username !== profile.username) {
-        const { data: existingUser } = await supabase
-          .from("profiles")
-          .select("id")
-          .eq("username", username)
-          .neq("id", profile.id)
-          .single();
-
-        if (existingUser) {
+        if (await data.profiles.isUsernameTaken(username, profile.id)) {
           setError("Username is already taken");
           setIsSaving(false);
           return;
@@ -152,16 +139,14 @@ export default function EditProfilePage() {
       }
 
       // Update profile
-      const { error: updateError } = await supabase
-        .from("profiles")
-        .update({
-          display_name: displayName.trim() || null,
-          username: username.trim(),
-          bio: bio.trim() || null,
-        })
-        .eq("id", profile.id);
+      const saved = await data.profiles.update(profile.id, {
+        display_name: displayName.trim() || null,
+        username: username.trim(),
+        bio: bio.trim() || null,
+        is_private: isPrivate,
+      });
 
-      if (updateError) throw updateError;
+      if (!saved) throw new Error("Failed to update profile");
 
       setSuccess(true);
       setTimeout(() => {
@@ -332,6 +317,53 @@ export default function EditProfilePage() {
             {bio.length}/160 characters
           </p>
         </div>
+
+        {/* Privacy */}
+        <div className="pt-5 border-t border-border">
+          <h2 className="text-sm font-semibold text-text-primary mb-2">Privacy</h2>
+          <button
+            type="button"
+            role="switch"
+            aria-checked={isPrivate}
+            onClick={() => setIsPrivate(!isPrivate)}
+            className="w-full flex items-center justify-between py-2 text-sm text-text-primary"
+          >
+            Private account
+            <span
+              className={`w-10 h-6 rounded-full p-0.5 transition-colors ${
+                isPrivate ? "bg-primary" : "bg-surface-elevated border border-border"
+              }`}
+            >
+              <motion.span
+                animate={{ x: isPrivate ? 16 : 0 }}
+                transition={{ type: "spring", stiffness: 400, damping: 30 }}
+                className={`block w-5 h-5 rounded-full shadow-sm ${isPrivate ? "bg-white" : "bg-text-muted"}`}
+              />
+            </span>
+          </button>
+          <p className="text-xs text-text-muted">
+            {isPrivate
+              ? "You approve new followers, and only they see your lists."
+              : "Anyone can follow you and see your public lists."}
+            {profile?.is_private && !isPrivate && " Pending follow requests will be approved."}
+          </p>
+        </div>
+
+        {/* Notifications */}
+        {profile && (
+          <div className="pt-5 border-t border-border">
+            <h2 className="text-sm font-semibold text-text-primary mb-2">Notifications</h2>
+            <NotificationSettings userId={profile.id} />
+          </div>
+        )}
+
+        {/* API tokens */}
+        {profile && (
+          <div className="pt-5 border-t border-border">
+            <h2 className="text-sm font-semibold text-text-primary mb-2">API tokens</h2>
+            <AccessTokens userId={profile.id} />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -6,17 +6,18 @@ import { motion, AnimatePresence } from "framer-motion";
 import { Button, Avatar, Tabs, EmptyState, Header, BottomSheet } from "@/components/ui";
 import { PinDetail } from "@/components/pins/PinDetail";
 import { EditPinForm } from "@/components/pins/EditPinForm";
-import { createClient } from "@/lib/supabase/client";
+import { useData, type ListWithOwner, type ProfileStats } from "@/lib/data";
 import type { Profile, List, Pin } from "@/types";
 
 type ProfileTab = "lists" | "liked";
 
 export default function ProfilePage() {
   const router = useRouter();
+  const data = useData();
   const [profile, setProfile] = useState<Profile | null>(null);
-  const [stats, setStats] = useState({ lists: 0, pins: 0, followers: 0, following: 0 });
-  const [myLists, setMyLists] = useState<(List & { pins_count: number })[]>([]);
-  const [likedLists, setLikedLists] = useState<(List & { pins_count: number; owner?: Profile })[]>([]);
+  const [stats, setStats] = useState<ProfileStats>({ lists: 0, pins: 0, followers: 0, following: 0 });
+  const [myLists, setMyLists] = useState<List[]>([]);
+  const [likedLists, setLikedLists] = useState<ListWithOwner[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<ProfileTab>("lists");
 
@@ -33,23 +34,15 @@ export default function ProfilePage() {
 
     setLoadingPins((prev) => new Set(prev).add(listId));
 
-    const supabase = createClient();
-    const { data: pinsData } = await supabase
-      .from("pins")
-      .select("*")
-      .eq("list_id", listId)
-      .order("created_at", { ascending: false });
-
-    if (pinsData) {
-      setListPins((prev) => ({ ...prev, [listId]: pinsData }));
-    }
+    const pinsData = await data.pins.listByList(listId);
+    setListPins((prev) => ({ ...prev, [listId]: pinsData }));
 
     setLoadingPins((prev) => {
       const next = new Set(prev);
       next.delete(listId);
       return next;
     });
-  }, [listPins]);
+  }, [listPins, data]);
 
   const toggleListExpanded = useCallback((listId: string) => {
     setExpandedLists((prev) => {
@@ -66,92 +59,37 @@ export default function ProfilePage() {
 
   useEffect(() => {
     const fetchProfile = async () => {
-      const supabase = createClient();
-      const { data: { user } } = await supabase.auth.getUser();
+      const userId = await data.auth.getCurrentUserId();
 
-      if (!user) {
+      if (!userId) {
         router.push("/login");
         return;
       }
 
-      setCurrentUserId(user.id);
+      setCurrentUserId(userId);
 
-      // Fetch profile
-      const { data: profileData } = await supabase
-        .from("profiles")
-        .select("*")
-        .eq("id", user.id)
-        .single();
+      const [profileData, statsData, listsData, likedData] = await Promise.all([
+        data.profiles.getById(userId),
+        data.profiles.getStats(userId),
+        data.lists.listByOwner(userId, { limit: 6, withPinCounts: true }),
+        data.lists.listLikedBy(userId),
+      ]);
 
       if (profileData) {
         setProfile(profileData);
       }
-
-      // Fetch stats
-      const [listsResult, pinsResult, followersResult, followingResult] = await Promise.all([
-        supabase.from("lists").select("*", { count: "exact", head: true }).eq("user_id", user.id),
-        supabase.from("pins").select("*", { count: "exact", head: true }).eq("user_id", user.id),
-        supabase.from("follows").select("*", { count: "exact", head: true }).eq("following_id", user.id),
-        supabase.from("follows").select("*", { count: "exact", head: true }).eq("follower_id", user.id),
-      ]);
-
-      setStats({
-        lists: listsResult.count || 0,
-        pins: pinsResult.count || 0,
-        followers: followersResult.count || 0,
-        following: followingResult.count || 0,
-      });
-
-      // Fetch user's own lists
-      const { data: listsData } = await supabase
-        .from("lists")
-        .select(`*, pins:pins(count)`)
-        .eq("user_id", user.id)
-        .order("updated_at", { ascending: false })
-        .limit(6);
-
-      if (listsData) {
-        setMyLists(listsData.map((l) => ({ ...l, pins_count: l.pins?.[0]?.count || 0 })));
-      }
-
-      // Fetch liked lists
-      const { data: likedData } = await supabase
-        .from("list_likes")
-        .select("list_id")
-        .eq("user_id", user.id)
-        .order("created_at", { ascending: false });
-
-      if (likedData && likedData.length > 0) {
-        const listIds = likedData.map((l) => l.list_id);
-        const { data: listsData } = await supabase
-          .from("lists")
-          .select(`*, pins:pins(count)`)
-          .in("id", listIds)
-          .eq("is_public", true);
-
-        if (listsData) {
-          const ownerIds = [...new Set(listsData.map((l) => l.user_id))];
-          const { data: ownersData } = await supabase.from("profiles").select("*").in("id", ownerIds);
-          const ownersMap = new Map(ownersData?.map((o) => [o.id, o]) || []);
-
-          const orderedLists = listIds
-            .map((id) => listsData.find((l) => l.id === id))
-            .filter((l): l is typeof listsData[0] => l !== undefined)
-            .map((l) => ({ ...l, pins_count: l.pins?.[0]?.count || 0, owner: ownersMap.get(l.user_id) }));
-
-          setLikedLists(orderedLists);
-        }
-      }
+      setStats(statsData);
+      setMyLists(listsData);
+      setLikedLists(likedData);
 
       setIsLoading(false);
     };
 
     fetchProfile();
-  }, [router]);
+  }, [router, data]);
 
   const handleSignOut = async () => {
-    const supabase = createClient();
-    await supabase.auth.signOut();
+    await data.auth.signOut();
     router.push("/");
   };
 
@@ -381,6 +319,7 @@ export default function ProfilePage() {
               setEditingPin(selectedPin);
               setSelectedPin(null);
             }}
+            onPinChange={setSelectedPin}
           />
         )}
       </BottomSheet>
@@ -436,7 +375,7 @@ function ExpandableListRow({
   onPinClick,
   showOwner = false,
 }: {
-  list: List & { pins_count: number; owner?: Profile };
+  list: List & { owner?: Profile };
   isExpanded: boolean;
   isLoading: boolean;
   pins: Pin[];
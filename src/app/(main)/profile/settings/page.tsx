@@ -0,0 +1,129 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { BottomSheet } from "@/components/ui";
+import { ExportSheet } from "@/components/lists/ExportSheet";
+import { useData } from "@/lib/data";
+import type { List, Profile } from "@/types";
+
+export default function SettingsPage() {
+  const router = useRouter();
+  const data = useData();
+
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [lists, setLists] = useState<List[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showExport, setShowExport] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      const userId = await data.auth.getCurrentUserId();
+
+      if (!userId) {
+        router.push("/login");
+        return;
+      }
+
+      const [profileData, listsData] = await Promise.all([
+        data.profiles.getById(userId),
+        data.lists.listByOwner(userId, { orderBy: "name", withPinCounts: true }),
+      ]);
+
+      setProfile(profileData);
+      setLists(listsData);
+      setIsLoading(false);
+    };
+
+    fetchSettings();
+  }, [router, data]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="w-8 h-8 border-2 border-neon-pink border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const pinCount = lists.reduce((total, list) => total + (list.pins_count ?? 0), 0);
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      {/* Header */}
+      <div className="sticky top-0 z-10 bg-background/80 backdrop-blur-xl border-b border-border">
+        <div className="flex items-center gap-3 p-4">
+          <button
+            onClick={() => router.back()}
+            className="w-10 h-10 rounded-xl bg-surface-elevated flex items-center justify-center hover:bg-surface-hover transition-colors"
+          >
+            <BackIcon />
+          </button>
+          <h1 className="text-lg font-semibold text-text-primary flex-1">
+            Settings
+          </h1>
+        </div>
+      </div>
+
+      <div className="px-4 py-6 space-y-8">
+        {/* Account */}
+        <section>
+          <h2 className="text-sm text-text-secondary mb-2">Account</h2>
+          <button
+            onClick={() => router.push("/profile/edit")}
+            className="w-full flex items-center gap-3 p-4 rounded-xl bg-surface hover:bg-surface-hover transition-colors text-left"
+          >
+            <span className="flex-1 text-text-primary">Edit profile</span>
+            <span className="text-sm text-text-muted">@{profile?.username}</span>
+          </button>
+        </section>
+
+        {/* Your data */}
+        <section>
+          <h2 className="text-sm text-text-secondary mb-2">Your data</h2>
+          <button
+            onClick={() => setShowExport(true)}
+            disabled={lists.length === 0}
+            className="w-full flex items-center gap-3 p-4 rounded-xl bg-surface hover:bg-surface-hover transition-colors text-left disabled:opacity-50"
+          >
+            <div className="flex-1 min-w-0">
+              <p className="text-text-primary">Download all my data</p>
+              <p className="text-xs text-text-muted mt-0.5">
+                {lists.length} {lists.length === 1 ? "list" : "lists"}, {pinCount} {pinCount === 1 ? "spot" : "spots"}
+              </p>
+            </div>
+          </button>
+        </section>
+      </div>
+
+      {/* Export Sheet */}
+      <BottomSheet
+        isOpen={showExport}
+        onClose={() => setShowExport(false)}
+        title="Download all my data"
+      >
+        <ExportSheet
+          lists={lists}
+          title={profile ? `${profile.username}'s places` : "My places"}
+          onDone={() => setShowExport(false)}
+        />
+      </BottomSheet>
+    </div>
+  );
+}
+
+// Icons
+function BackIcon() {
+  return (
+    <svg
+      width="20"
+      height="20"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+    >
+      <path d="M19 12H5M12 19l-7-7 7-7" />
+    </svg>
+  );
+}
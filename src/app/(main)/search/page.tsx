@@ -4,17 +4,15 @@ import { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useRouter } from "next/navigation";
 import { Button, BottomSheet, Avatar } from "@/components/ui";
-import { createClient } from "@/lib/supabase/client";
-import type { List, Pin, Profile } from "@/types";
+import { PhotoPicker } from "@/components/pins/PhotoPicker";
+import { fetchTasteMatches, rankByTaste } from "@/lib/compatibility";
+import { useData, type ListWithOwner, type ProfileWithCounts } from "@/lib/data";
+import { newSearchSession, retrievePlace, suggestPlaces } from "@/lib/placeSearch";
+import { releasePendingPhoto, uploadPinPhotos, type PendingPhoto } from "@/lib/photos";
+import type { List, SavedByInfo, TasteMatch } from "@/types";
 
 type SearchTab = "places" | "users" | "lists";
 
-interface ExistingPin {
-  pin: Pin;
-  list: List;
-  owner: Profile;
-}
-
 interface PlaceResult {
   id: string;
   place_name: string;
@@ -31,18 +29,9 @@ interface PlaceResult {
   mapbox_id?: string;
 }
 
-interface UserResult extends Profile {
-  followers_count: number;
-  lists_count: number;
-}
-
-interface ListResult extends List {
-  pins_count: number;
-  profile: Profile;
-}
-
 export default function SearchPage() {
   const router = useRouter();
+  const data = useData();
   const [activeTab, setActiveTab] = useState<SearchTab>("places");
   const [query, setQuery] = useState("");
   const [isSearching, setIsSearching] = useState(false);
@@ -52,33 +41,30 @@ export default function SearchPage() {
   const [selectedPlace, setSelectedPlace] = useState<PlaceResult | null>(null);
   const [myLists, setMyLists] = useState<List[]>([]);
   const [recentSearches, setRecentSearches] = useState<PlaceResult[]>([]);
-  const [existingPins, setExistingPins] = useState<ExistingPin[]>([]);
+  const [existingPins, setExistingPins] = useState<SavedByInfo[]>([]);
   const [isLoadingExisting, setIsLoadingExisting] = useState(false);
   const [showAddForm, setShowAddForm] = useState(false);
 
   // Users state
-  const [userResults, setUserResults] = useState<UserResult[]>([]);
-  const [suggestedUsers, setSuggestedUsers] = useState<UserResult[]>([]);
+  const [userResults, setUserResults] = useState<ProfileWithCounts[]>([]);
+  const [suggestedUsers, setSuggestedUsers] = useState<ProfileWithCounts[]>([]);
+  const [tasteMatches, setTasteMatches] = useState<Map<string, TasteMatch>>(new Map());
 
   // Lists state
-  const [listResults, setListResults] = useState<ListResult[]>([]);
-  const [suggestedLists, setSuggestedLists] = useState<ListResult[]>([]);
+  const [listResults, setListResults] = useState<ListWithOwner[]>([]);
+  const [suggestedLists, setSuggestedLists] = useState<ListWithOwner[]>([]);
 
   const searchTimeout = useRef<NodeJS.Timeout | null>(null);
+  // Shared by every suggest call until a place is picked
+  const searchSession = useRef<string | null>(null);
 
   // Load initial data
   useEffect(() => {
     const loadData = async () => {
-      const supabase = createClient();
-      const { data: { user } } = await supabase.auth.getUser();
-
-      if (user) {
-        const { data } = await supabase
-          .from("lists")
-          .select("*")
-          .eq("user_id", user.id)
-          .order("updated_at", { ascending: false });
-        if (data) setMyLists(data);
+      const userId = await data.auth.getCurrentUserId();
+
+      if (userId) {
+        setMyLists(await data.lists.listByOwner(userId));
       }
 
       const saved = localStorage.getItem("new-fork-city-recent-searches");
@@ -89,68 +75,33 @@ export default function SearchPage() {
       }
     };
     loadData();
-  }, []);
+  }, [data]);
 
   // Load suggested users and lists
   useEffect(() => {
     const loadSuggestions = async () => {
-      const supabase = createClient();
-      const { data: { user } } = await supabase.auth.getUser();
-      const currentUserId = user?.id;
-
-      // Fetch all users (we'll filter current user in JS if needed)
-      const { data: profiles } = await supabase
-        .from("profiles")
-        .select("*")
-        .limit(30);
-
-      if (profiles) {
-        const usersWithStats = await Promise.all(
-          profiles
-            .filter(p => p.id !== currentUserId) // Exclude current user
-            .map(async (profile) => {
-              const [followersResult, listsResult] = await Promise.all([
-                supabase.from("follows").select("*", { count: "exact", head: true }).eq("following_id", profile.id),
-                supabase.from("lists").select("*", { count: "exact", head: true }).eq("user_id", profile.id),
-              ]);
-              return {
-                ...profile,
-                followers_count: followersResult.count || 0,
-                lists_count: listsResult.count || 0,
-              };
-            })
-        );
-        // Sort by lists count first (users with content), then by followers
-        const sorted = usersWithStats
-          .filter(u => u.lists_count > 0) // Only show users with lists
-          .sort((a, b) => (b.lists_count + b.followers_count) - (a.lists_count + a.followers_count))
-          .slice(0, 10);
-        setSuggestedUsers(sorted);
-      }
+      const currentUserId = await data.auth.getCurrentUserId();
+
+      const profiles = await data.profiles.browse({ excludeId: currentUserId, limit: 30 });
+      const [usersWithStats, matches] = await Promise.all([
+        data.profiles.withCounts(profiles),
+        fetchTasteMatches(profiles.map((p) => p.id)),
+      ]);
+      // Best taste matches first, then by followers
+      setTasteMatches(matches);
+      setSuggestedUsers(
+        rankByTaste(
+          usersWithStats.filter((u) => u.lists_count > 0), // Only show users with lists
+          matches
+        ).slice(0, 10)
+      );
 
-      // Fetch all lists with pins
-      const { data: lists } = await supabase
-        .from("lists")
-        .select(`*, profile:profiles!user_id(id, username, display_name, avatar_url), pins!list_id(id)`)
-        .order("updated_at", { ascending: false })
-        .limit(30);
-
-      if (lists && lists.length > 0) {
-        const listsWithCounts = lists
-          .filter((list: any) => list.user_id !== currentUserId) // Exclude current user's lists
-          .map((list: any) => ({
-            ...list,
-            pins_count: Array.isArray(list.pins) ? list.pins.length : 0,
-          }));
-        // Sort by pins count (lists with content)
-        const sorted = listsWithCounts
-          .sort((a: any, b: any) => b.pins_count - a.pins_count)
-          .slice(0, 10);
-        setSuggestedLists(sorted);
-      }
+      const lists = await data.lists.browse({ excludeOwnerId: currentUserId, limit: 30 });
+      // Sort by pins count (lists with content)
+      setSuggestedLists([...lists].sort((a, b) => b.pins_count - a.pins_count).slice(0, 10));
     };
     loadSuggestions();
-  }, []);
+  }, [data]);
 
   // Debounced search
   const handleSearch = useCallback((searchQuery: string) => {
@@ -169,49 +120,16 @@ export default function SearchPage() {
 
     searchTimeout.current = setTimeout(async () => {
       setIsSearching(true);
-      const supabase = createClient();
 
       try {
         // Search based on active tab
         if (activeTab === "places") {
           await searchPlaces(searchQuery);
         } else if (activeTab === "users") {
-          const { data } = await supabase
-            .from("profiles")
-            .select("*")
-            .or(`username.ilike.%${searchQuery}%,display_name.ilike.%${searchQuery}%`)
-            .limit(20);
-
-          if (data) {
-            const usersWithStats = await Promise.all(
-              data.map(async (profile) => {
-                const [followersResult, listsResult] = await Promise.all([
-                  supabase.from("follows").select("*", { count: "exact", head: true }).eq("following_id", profile.id),
-                  supabase.from("lists").select("*", { count: "exact", head: true }).eq("user_id", profile.id),
-                ]);
-                return {
-                  ...profile,
-                  followers_count: followersResult.count || 0,
-                  lists_count: listsResult.count || 0,
-                };
-              })
-            );
-            setUserResults(usersWithStats);
-          }
+          const profiles = await data.profiles.search(searchQuery, { limit: 20 });
+          setUserResults(await data.profiles.withCounts(profiles));
         } else if (activeTab === "lists") {
-          const { data } = await supabase
-            .from("lists")
-            .select(`*, profile:profiles!user_id(id, username, display_name, avatar_url), pins!list_id(id)`)
-            .or(`name.ilike.%${searchQuery}%,description.ilike.%${searchQuery}%`)
-            .limit(20);
-
-          if (data) {
-            const listsWithCount = data.map((list: any) => ({
-              ...list,
-              pins_count: Array.isArray(list.pins) ? list.pins.length : 0,
-            }));
-            setListResults(listsWithCount);
-          }
+          setListResults(await data.lists.search(searchQuery, { limit: 20 }));
         }
       } catch (error) {
         console.error("Search error:", error);
@@ -219,29 +137,22 @@ export default function SearchPage() {
         setIsSearching(false);
       }
     }, 300);
-  }, [activeTab]);
+  }, [activeTab, data]);
 
   const searchPlaces = async (searchQuery: string) => {
-    try {
-      const sessionToken = crypto.randomUUID();
-      const response = await fetch(
-        `https://api.mapbox.com/search/searchbox/v1/suggest?q=${encodeURIComponent(searchQuery)}&access_token=${process.env.NEXT_PUBLIC_MAPBOX_TOKEN}&session_token=${sessionToken}&proximity=-73.985428,40.748817&limit=10&types=poi,address&poi_category=restaurant,bar,cafe,food,nightlife,coffee,bakery,fast_food,pub`
-      );
-      const data = await response.json();
-      const suggestions = data.suggestions || [];
-      const transformedResults: PlaceResult[] = suggestions.map((s: any) => ({
+    searchSession.current ??= newSearchSession();
+    const suggestions = await suggestPlaces(searchQuery, searchSession.current);
+    setPlaceResults(
+      suggestions.map((s) => ({
         id: s.mapbox_id,
-        place_name: s.full_address || s.address || s.place_formatted || "",
+        place_name: s.address || "",
         text: s.name,
         center: [0, 0] as [number, number],
-        properties: { category: s.poi_category?.join(", ") || "", address: s.address },
-        context: s.context ? [{ id: "neighborhood", text: s.context?.neighborhood?.name || "" }] : [],
+        properties: { category: s.category || "", address: s.address || undefined },
+        context: s.neighborhood ? [{ id: "neighborhood", text: s.neighborhood }] : [],
         mapbox_id: s.mapbox_id,
-      }));
-      setPlaceResults(transformedResults);
-    } catch {
-      setPlaceResults([]);
-    }
+      }))
+    );
   };
 
   // Re-search when tab changes
@@ -253,20 +164,16 @@ export default function SearchPage() {
 
   const handleSelectPlace = async (place: PlaceResult) => {
     if (place.mapbox_id && place.center[0] === 0 && place.center[1] === 0) {
-      try {
-        const response = await fetch(
-          `https://api.mapbox.com/search/searchbox/v1/retrieve/${place.mapbox_id}?access_token=${process.env.NEXT_PUBLIC_MAPBOX_TOKEN}&session_token=${crypto.randomUUID()}`
-        );
-        const data = await response.json();
-        if (data.features?.[0]) {
-          const feature = data.features[0];
-          place = {
-            ...place,
-            center: feature.geometry.coordinates as [number, number],
-            place_name: feature.properties.full_address || feature.properties.address || place.place_name,
-          };
-        }
-      } catch {}
+      // Retrieving ends the billing session, so the next search starts a new one
+      const details = await retrievePlace(place.mapbox_id, searchSession.current ?? newSearchSession());
+      searchSession.current = null;
+      if (details) {
+        place = {
+          ...place,
+          center: [details.lng, details.lat],
+          place_name: details.address || place.place_name,
+        };
+      }
     }
 
     const updated = [place, ...recentSearches.filter((r) => r.id !== place.id)].slice(0, 5);
@@ -277,41 +184,24 @@ export default function SearchPage() {
     setShowAddForm(false);
     setExistingPins([]);
 
-    if (place.center[0] !== 0 && place.center[1] !== 0) {
-      fetchExistingPins(place);
-    }
+    fetchExistingPins(place);
   };
 
   const fetchExistingPins = async (place: PlaceResult) => {
     setIsLoadingExisting(true);
-    const supabase = createClient();
-    const lat = place.center[1];
-    const lng = place.center[0];
-    const tolerance = 0.0005;
-
-    const { data: pinsData } = await supabase
-      .from("pins")
-      .select(`*, list:lists!list_id(*, profile:profiles!user_id(*))`)
-      .gte("lat", lat - tolerance)
-      .lte("lat", lat + tolerance)
-      .gte("lng", lng - tolerance)
-      .lte("lng", lng + tolerance);
-
-    if (pinsData) {
-      setExistingPins(pinsData.map((pin: any) => ({ pin, list: pin.list, owner: pin.list.profile })));
-    }
+    setExistingPins(await data.pins.getSavedBy(place.mapbox_id || null));
     setIsLoadingExisting(false);
   };
 
-  const handleSavePin = async (listId: string, isVisited: boolean, rating: number | null, notes: string) => {
+  const handleSavePin = async (listId: string, isVisited: boolean, rating: number | null, notes: string, photos: PendingPhoto[]) => {
     if (!selectedPlace) return;
-    const supabase = createClient();
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
+    const userId = await data.auth.getCurrentUserId();
+    if (!userId) return;
 
-    const { error } = await supabase.from("pins").insert({
-      user_id: user.id,
+    const pin = await data.pins.create({
+      user_id: userId,
       list_id: listId,
+      place_id: selectedPlace.mapbox_id || null,
       name: selectedPlace.text,
       address: selectedPlace.place_name,
       lat: selectedPlace.center[1],
@@ -322,7 +212,12 @@ export default function SearchPage() {
       personal_notes: notes || null,
     });
 
-    if (!error) {
+    if (pin) {
+      if (photos.length > 0) {
+        await uploadPinPhotos(userId, pin.id, photos.map((p) => p.file));
+        photos.forEach(releasePendingPhoto);
+      }
+
       setSelectedPlace(null);
       setQuery("");
       setPlaceResults([]);
@@ -521,7 +416,9 @@ export default function SearchPage() {
               <div>
                 <div className="flex items-center gap-2 mb-3">
                   <span className="text-lg">🔥</span>
-                  <h2 className="text-sm font-medium text-text-secondary">Top Foodies</h2>
+                  <h2 className="text-sm font-medium text-text-secondary">
+                    {tasteMatches.size > 0 ? "Foodies Like You" : "Top Foodies"}
+                  </h2>
                 </div>
                 <div className="space-y-2">
                   <AnimatePresence>
@@ -560,6 +457,11 @@ export default function SearchPage() {
                               <span className="text-xs text-text-secondary">
                                 <span className="font-medium text-neon-cyan">{user.lists_count}</span> lists
                               </span>
+                              {tasteMatches.has(user.id) && (
+                                <span className="text-xs text-text-secondary">
+                                  <span className="font-medium text-neon-green">{tasteMatches.get(user.id)!.score}%</span> match
+                                </span>
+                              )}
                             </div>
                           </div>
                           <ChevronRightIcon />
@@ -619,13 +521,13 @@ export default function SearchPage() {
                           {/* Creator */}
                           <div className="flex items-center gap-2 mt-2">
                             <Avatar
-                              src={list.profile?.avatar_url}
-                              alt={list.profile?.display_name || list.profile?.username}
-                              fallback={(list.profile?.display_name || list.profile?.username)?.[0]}
+                              src={list.owner?.avatar_url}
+                              alt={list.owner?.display_name || list.owner?.username}
+                              fallback={(list.owner?.display_name || list.owner?.username)?.[0]}
                               size="xs"
                             />
                             <span className="text-xs text-text-muted">
-                              @{list.profile?.username}
+                              @{list.owner?.username}
                             </span>
                           </div>
                         </div>
@@ -694,13 +596,13 @@ export default function SearchPage() {
                             {/* Creator */}
                             <div className="flex items-center gap-2 mt-2">
                               <Avatar
-                                src={list.profile?.avatar_url}
-                                alt={list.profile?.display_name || list.profile?.username}
-                                fallback={(list.profile?.display_name || list.profile?.username)?.[0]}
+                                src={list.owner?.avatar_url}
+                                alt={list.owner?.display_name || list.owner?.username}
+                                fallback={(list.owner?.display_name || list.owner?.username)?.[0]}
                                 size="xs"
                               />
                               <span className="text-xs text-text-muted">
-                                @{list.profile?.username}
+                                @{list.owner?.username}
                               </span>
                             </div>
                           </div>
@@ -768,7 +670,7 @@ function PlaceDetails({
   onViewList,
 }: {
   place: PlaceResult;
-  existingPins: ExistingPin[];
+  existingPins: SavedByInfo[];
   isLoading: boolean;
   onAddToList: () => void;
   onViewList: (listId: string) => void;
@@ -951,7 +853,7 @@ function SavePinForm({
 }: {
   place: PlaceResult;
   lists: List[];
-  onSave: (listId: string, isVisited: boolean, rating: number | null, notes: string) => void;
+  onSave: (listId: string, isVisited: boolean, rating: number | null, notes: string, photos: PendingPhoto[]) => void;
   onCancel: () => void;
   onListCreated?: (list: List) => void;
 }) {
@@ -959,29 +861,29 @@ function SavePinForm({
   const [isVisited, setIsVisited] = useState(false);
   const [rating, setRating] = useState<number | null>(null);
   const [notes, setNotes] = useState("");
+  const [photos, setPhotos] = useState<PendingPhoto[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [newListName, setNewListName] = useState("");
   const [newListEmoji, setNewListEmoji] = useState("📍");
   const [newListColor, setNewListColor] = useState("#ff2d92");
+  const data = useData();
 
   const handleSubmit = async () => {
     setIsLoading(true);
     if (selectedListId === "new") {
       if (!newListName.trim()) { setIsLoading(false); return; }
-      const supabase = createClient();
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) { setIsLoading(false); return; }
+      const userId = await data.auth.getCurrentUserId();
+      if (!userId) { setIsLoading(false); return; }
 
-      const { data: newList, error } = await supabase
-        .from("lists")
-        .insert({ user_id: user.id, name: newListName.trim(), emoji_icon: newListEmoji, color: newListColor, is_public: true })
-        .select().single();
+      const newList = await data.lists.create({
+        user_id: userId, name: newListName.trim(), emoji_icon: newListEmoji, color: newListColor, is_public: true,
+      });
 
-      if (error || !newList) { setIsLoading(false); return; }
+      if (!newList) { setIsLoading(false); return; }
       onListCreated?.(newList);
-      await onSave(newList.id, isVisited, rating, notes);
+      await onSave(newList.id, isVisited, rating, notes, photos);
     } else {
-      await onSave(selectedListId, isVisited, rating, notes);
+      await onSave(selectedListId, isVisited, rating, notes, photos);
     }
     setIsLoading(false);
   };
@@ -1082,6 +984,8 @@ function SavePinForm({
         />
       </div>
 
+      <PhotoPicker photos={photos} onChange={setPhotos} disabled={isLoading} />
+
       <div className="flex gap-3 pt-2">
         <Button variant="ghost" onClick={onCancel}><BackIcon /></Button>
         <Button variant="primary" className="flex-1" onClick={handleSubmit} isLoading={isLoading} disabled={selectedListId === "new" ? !newListName.trim() : !selectedListId}>
@@ -1,47 +1,37 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button, BottomSheet } from "@/components/ui";
 import { RisingParticles } from "@/components/effects";
 import { PinDetail } from "@/components/pins/PinDetail";
-import { createClient } from "@/lib/supabase/client";
-import type { Pin, List, Profile } from "@/types";
-
-interface TrendingSpot extends Pin {
-  save_count: number;
-  saves_today?: number;
-  list: List & { profile: Profile };
-}
-
-interface SavedByInfo {
-  pin: Pin;
-  list: List;
-  owner: Profile;
-}
-
-interface TrendingList extends List {
-  pins_count: number;
-  profile: Profile;
-}
-
-interface TrendingUser extends Profile {
-  followers_count: number;
-  lists_count: number;
-}
+import { useData } from "@/lib/data";
+import {
+  TRENDING_PAGE_SIZE,
+  TRENDING_WINDOW_LABELS,
+  fetchTrendingLists,
+  fetchTrendingSpots,
+  fetchTrendingUsers,
+} from "@/lib/trending";
+import type { Pin, TrendingSpot, TrendingList, TrendingUser, TrendingWindow, SavedByInfo } from "@/types";
 
 type Tab = "spots" | "lists" | "users";
-type TimeFilter = "today" | "week" | "all";
+
+const TIME_FILTERS: TrendingWindow[] = ["today", "week", "month", "all"];
 
 export default function TrendingPage() {
   const router = useRouter();
+  const data = useData();
   const [activeTab, setActiveTab] = useState<Tab>("spots");
   const [spots, setSpots] = useState<TrendingSpot[]>([]);
+  const [risingSpots, setRisingSpots] = useState<TrendingSpot[]>([]);
   const [lists, setLists] = useState<TrendingList[]>([]);
   const [users, setUsers] = useState<TrendingUser[]>([]);
+  const [hasMore, setHasMore] = useState<Record<Tab, boolean>>({ spots: false, lists: false, users: false });
   const [isLoading, setIsLoading] = useState(true);
-  const [timeFilter, setTimeFilter] = useState<TimeFilter>("week");
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [timeFilter, setTimeFilter] = useState<TrendingWindow>("week");
   const [selectedPin, setSelectedPin] = useState<TrendingSpot | null>(null);
   const [savedByData, setSavedByData] = useState<SavedByInfo[]>([]);
   const [isLoadingSavedBy, setIsLoadingSavedBy] = useState(false);
@@ -52,31 +42,7 @@ export default function TrendingPage() {
     setIsLoadingSavedBy(true);
     setSavedByData([]);
 
-    const supabase = createClient();
-    const tolerance = 0.001; // ~100m - increased for better matching
-
-    const { data: pinsData } = await supabase
-      .from("pins")
-      .select(`
-        *,
-        list:lists!list_id(*, profile:profiles!user_id(*))
-      `)
-      .neq("id", pin.id)
-      .gte("lat", pin.lat - tolerance)
-      .lte("lat", pin.lat + tolerance)
-      .gte("lng", pin.lng - tolerance)
-      .lte("lng", pin.lng + tolerance);
-
-    if (pinsData) {
-      const savedBy: SavedByInfo[] = pinsData
-        .filter((p: any) => p.list) // Only require list data, profile is optional
-        .map((p: any) => ({
-          pin: p,
-          list: p.list,
-          owner: p.list.profile || { id: p.user_id, username: "unknown", display_name: null, avatar_url: null },
-        }));
-      setSavedByData(savedBy);
-    }
+    setSavedByData(await data.pins.getSavedBy(pin.place_id, pin.id));
 
     setIsLoadingSavedBy(false);
   };
@@ -87,153 +53,72 @@ export default function TrendingPage() {
   };
 
   useEffect(() => {
-    const fetchTrending = async () => {
-      const supabase = createClient();
-
-      // Get current user
-      const { data: { user } } = await supabase.auth.getUser();
-      if (user) {
-        setCurrentUserId(user.id);
-      }
-
-      // Fetch trending spots (all pins)
-      const { data: pinsData } = await supabase
-        .from("pins")
-        .select(`
-          *,
-          list:lists!list_id(
-            *,
-            profile:profiles!user_id(id, username, display_name, avatar_url)
-          )
-        `)
-        .order("created_at", { ascending: false })
-        .limit(100);
-
-      if (pinsData && pinsData.length > 0) {
-        // Group by location (approximate) and count
-        const spotMap = new Map<string, TrendingSpot>();
-        pinsData.forEach((pin: any) => {
-          if (!pin.list) return; // Skip pins without list data
-          const key = `${pin.lat.toFixed(4)},${pin.lng.toFixed(4)}`;
-          if (!spotMap.has(key)) {
-            spotMap.set(key, { ...pin, save_count: 1 });
-          } else {
-            const existing = spotMap.get(key)!;
-            existing.save_count++;
-            // Keep the one with higher rating
-            if ((pin.personal_rating || 0) > (existing.personal_rating || 0)) {
-              spotMap.set(key, { ...pin, save_count: existing.save_count });
-            }
-          }
-        });
-
-        const sortedSpots = Array.from(spotMap.values())
-          .sort((a, b) => b.save_count - a.save_count || (b.personal_rating || 0) - (a.personal_rating || 0));
-        setSpots(sortedSpots);
-      }
-
-      // Fetch trending lists with their pins
-      const { data: listsData } = await supabase
-        .from("lists")
-        .select(`
-          *,
-          profile:profiles!user_id(id, username, display_name, avatar_url),
-          pins!list_id(id)
-        `)
-        .order("updated_at", { ascending: false })
-        .limit(50);
-
-      if (listsData && listsData.length > 0) {
-        const listsWithCount = listsData
-          .map((list: any) => ({
-            ...list,
-            pins_count: Array.isArray(list.pins) ? list.pins.length : 0,
-          }))
-          .sort((a: any, b: any) => b.pins_count - a.pins_count);
-        setLists(listsWithCount);
-      }
-
-      // Fetch trending users (users with most followers)
-      const { data: profilesData } = await supabase
-        .from("profiles")
-        .select("*")
-        .limit(50);
-
-      if (profilesData) {
-        // Get follower counts for each user
-        const usersWithStats = await Promise.all(
-          profilesData.map(async (profile) => {
-            const [followersResult, listsResult] = await Promise.all([
-              supabase
-                .from("follows")
-                .select("*", { count: "exact", head: true })
-                .eq("following_id", profile.id),
-              supabase
-                .from("lists")
-                .select("*", { count: "exact", head: true })
-                .eq("user_id", profile.id)
-                .eq("is_public", true),
-            ]);
-
-            return {
-              ...profile,
-              followers_count: followersResult.count || 0,
-              lists_count: listsResult.count || 0,
-            };
-          })
-        );
-
-        const sortedUsers = usersWithStats
-          .filter((u) => u.lists_count > 0)
-          .sort((a, b) => b.followers_count - a.followers_count);
-        setUsers(sortedUsers);
-      }
+    data.auth.getCurrentUserId().then(setCurrentUserId);
+  }, [data]);
 
+  // Rankings come from the database so they're stable across refreshes
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchTrending = async () => {
+      const [spotsData, risingData, listsData, usersData] = await Promise.all([
+        fetchTrendingSpots({ window: timeFilter }),
+        // There's no previous period to compare against for all time
+        timeFilter === "all"
+          ? Promise.resolve([])
+          : fetchTrendingSpots({ window: timeFilter, sort: "velocity", limit: 3 }),
+        fetchTrendingLists({ window: timeFilter }),
+        fetchTrendingUsers({ window: timeFilter }),
+      ]);
+
+      if (cancelled) return;
+
+      setSpots(spotsData);
+      setRisingSpots(risingData.filter((s) => (s.velocity || 0) > 0));
+      setLists(listsData);
+      setUsers(usersData);
+      setHasMore({
+        spots: spotsData.length === TRENDING_PAGE_SIZE,
+        lists: listsData.length === TRENDING_PAGE_SIZE,
+        users: usersData.length === TRENDING_PAGE_SIZE,
+      });
       setIsLoading(false);
     };
 
     fetchTrending();
-  }, []);
 
-  // Filter spots based on time and category
-  const filteredSpots = useMemo(() => {
-    let filtered = [...spots];
+    return () => {
+      cancelled = true;
+    };
+  }, [timeFilter]);
 
-    // Time filter (simulated - in real app would filter by created_at)
-    if (timeFilter === "today") {
-      filtered = filtered.slice(0, Math.ceil(filtered.length * 0.3));
-    } else if (timeFilter === "week") {
-      filtered = filtered.slice(0, Math.ceil(filtered.length * 0.7));
+  const handleTimeFilterChange = (filter: TrendingWindow) => {
+    if (filter === timeFilter) return;
+    setIsLoading(true);
+    setTimeFilter(filter);
+  };
+
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true);
+
+    if (activeTab === "spots") {
+      const page = await fetchTrendingSpots({ window: timeFilter, offset: spots.length });
+      setSpots((prev) => [...prev, ...page]);
+      setHasMore((prev) => ({ ...prev, spots: page.length === TRENDING_PAGE_SIZE }));
+    } else if (activeTab === "lists") {
+      const page = await fetchTrendingLists({ window: timeFilter, offset: lists.length });
+      setLists((prev) => [...prev, ...page]);
+      setHasMore((prev) => ({ ...prev, lists: page.length === TRENDING_PAGE_SIZE }));
+    } else {
+      const page = await fetchTrendingUsers({ window: timeFilter, offset: users.length });
+      setUsers((prev) => [...prev, ...page]);
+      setHasMore((prev) => ({ ...prev, users: page.length === TRENDING_PAGE_SIZE }));
     }
 
-    return filtered;
-  }, [spots, timeFilter]);
-
-  // Get hot spots for banner (top 3 with 5+ saves)
-  const hotSpots = useMemo(() => {
-    return spots
-      .filter((s) => s.save_count >= 2)
-      .slice(0, 3)
-      .map((s) => ({
-        id: s.id,
-        name: s.name,
-        emoji: s.list?.emoji_icon || "📍",
-        saveCount: s.save_count * 3 + Math.floor(Math.random() * 10), // Simulate today's saves
-        viralPercent: Math.min(100, 50 + s.save_count * 8 + Math.floor(Math.random() * 20)),
-      }));
-  }, [spots]);
-
-  // Get rising spots (simulated velocity)
-  const risingSpots = useMemo(() => {
-    return spots
-      .filter((s) => s.save_count >= 1)
-      .map((s) => ({
-        ...s,
-        saves_today: Math.floor(Math.random() * 15) + 3,
-      }))
-      .sort((a, b) => (b.saves_today || 0) - (a.saves_today || 0))
-      .slice(0, 5);
-  }, [spots]);
+    setIsLoadingMore(false);
+  };
+
+  const windowLabel = TRENDING_WINDOW_LABELS[timeFilter].toLowerCase();
 
   const tabs: { id: Tab; label: string; icon: string }[] = [
     { id: "spots", label: "Hot Spots", icon: "🔥" },
@@ -250,7 +135,7 @@ export default function TrendingPage() {
             <span className="text-3xl">📈</span> Trending
           </h1>
           <p className="text-text-secondary text-sm mt-1">
-            Discover what's hot in NYC right now
+            Discover what&apos;s hot in NYC right now
           </p>
         </div>
 
@@ -272,26 +157,24 @@ export default function TrendingPage() {
           ))}
         </div>
 
-        {/* Time Filter Toggle (only for spots tab) */}
-        {activeTab === "spots" && (
-          <div className="px-4 pb-3">
-            <div className="inline-flex bg-surface rounded-xl p-1">
-              {(["today", "week", "all"] as TimeFilter[]).map((filter) => (
-                <button
-                  key={filter}
-                  onClick={() => setTimeFilter(filter)}
-                  className={`px-4 py-1.5 rounded-lg text-xs font-medium transition-all ${
-                    timeFilter === filter
-                      ? "bg-neon-pink text-white"
-                      : "text-text-muted hover:text-text-primary"
-                  }`}
-                >
-                  {filter === "today" ? "Today" : filter === "week" ? "This Week" : "All Time"}
-                </button>
-              ))}
-            </div>
+        {/* Time Filter Toggle */}
+        <div className="px-4 pb-3">
+          <div className="inline-flex bg-surface rounded-xl p-1">
+            {TIME_FILTERS.map((filter) => (
+              <button
+                key={filter}
+                onClick={() => handleTimeFilterChange(filter)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${
+                  timeFilter === filter
+                    ? "bg-neon-pink text-white"
+                    : "text-text-muted hover:text-text-primary"
+                }`}
+              >
+                {TRENDING_WINDOW_LABELS[filter]}
+              </button>
+            ))}
           </div>
-        )}
+        </div>
       </div>
 
       {/* Content */}
@@ -340,7 +223,7 @@ export default function TrendingPage() {
                     </div>
                     <div className="flex items-center gap-1 text-neon-green text-xs font-medium">
                       <span className="rising-arrow">↑</span>
-                      <span>{spot.saves_today} today</span>
+                      <span>{spot.save_count} {windowLabel}</span>
                     </div>
                   </motion.button>
                 ))}
@@ -357,14 +240,14 @@ export default function TrendingPage() {
                 exit={{ opacity: 0, y: -10 }}
                 className="space-y-3"
               >
-                {filteredSpots.length === 0 ? (
+                {spots.length === 0 ? (
                   <EmptyState
                     icon="🔥"
                     title="No hot spots yet"
-                    description="Spots will appear here as users rate them"
+                    description={`Nothing saved ${timeFilter === "all" ? "yet" : windowLabel}`}
                   />
                 ) : (
-                  filteredSpots.map((spot, index) => (
+                  spots.map((spot, index) => (
                     <SpotCard
                       key={spot.id}
                       spot={spot}
@@ -431,6 +314,17 @@ export default function TrendingPage() {
               </motion.div>
             )}
           </AnimatePresence>
+
+          {hasMore[activeTab] && (
+            <Button
+              variant="ghost"
+              className="w-full"
+              onClick={handleLoadMore}
+              isLoading={isLoadingMore}
+            >
+              Load more
+            </Button>
+          )}
         </div>
       )}
 
@@ -470,7 +364,7 @@ export default function TrendingPage() {
             <span className="text-2xl">🗺️</span>
             <div className="text-left">
               <p className="font-semibold text-text-primary">View Heatmap</p>
-              <p className="text-text-secondary text-sm">See where everyone's going</p>
+              <p className="text-text-secondary text-sm">See where everyone&apos;s going</p>
             </div>
           </div>
           <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -614,6 +508,9 @@ function ListCard({
               <span className="text-xs bg-surface px-2 py-1 rounded-full text-text-muted">
                 {list.pins_count} {list.pins_count === 1 ? "spot" : "spots"}
               </span>
+              {list.recent_pins > 0 && list.recent_pins < list.pins_count && (
+                <span className="text-xs font-medium text-neon-green">+{list.recent_pins} new</span>
+              )}
             </div>
           </div>
         </div>
@@ -696,6 +593,9 @@ function UserCard({
             <span className="text-xs text-text-secondary">
               <span className="font-semibold text-text-primary">{user.lists_count}</span> lists
             </span>
+            {user.new_followers > 0 && user.new_followers < user.followers_count && (
+              <span className="text-xs font-medium text-neon-green">+{user.new_followers} new</span>
+            )}
           </div>
         </div>
       </div>
@@ -5,16 +5,17 @@ import { useRouter, useParams } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button, useToast, getRandomToast } from "@/components/ui";
 import { fireConfetti } from "@/components/effects";
+import { TasteMatch } from "@/components/profile/TasteMatch";
 import { triggerHaptic } from "@/lib/haptics";
-import { createClient } from "@/lib/supabase/client";
-import type { Profile, List } from "@/types";
+import { useData } from "@/lib/data";
+import type { FollowState, Profile, List } from "@/types";
 
 interface UserProfile extends Profile {
   lists_count: number;
   pins_count: number;
   followers_count: number;
   following_count: number;
-  is_following: boolean;
+  follow_state: FollowState;
   is_own_profile: boolean;
 }
 
@@ -22,143 +23,102 @@ export default function UserProfilePage() {
   const router = useRouter();
   const params = useParams();
   const username = params.username as string;
+  const data = useData();
 
   const [profile, setProfile] = useState<UserProfile | null>(null);
-  const [lists, setLists] = useState<(List & { pins_count: number })[]>([]);
+  const [lists, setLists] = useState<List[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isFollowLoading, setIsFollowLoading] = useState(false);
   const { showToast } = useToast();
 
   useEffect(() => {
     const fetchProfile = async () => {
-      const supabase = createClient();
-      const {
-        data: { user: currentUser },
-      } = await supabase.auth.getUser();
+      const currentUserId = await data.auth.getCurrentUserId();
 
       // Fetch profile by username
-      const { data: profileData, error } = await supabase
-        .from("profiles")
-        .select("*")
-        .eq("username", username)
-        .single();
+      const profileData = await data.profiles.getByUsername(username);
 
-      if (error || !profileData) {
+      if (!profileData) {
         router.push("/discover");
         return;
       }
 
-      const isOwnProfile = currentUser?.id === profileData.id;
-
-      // Fetch stats
-      const [listsResult, pinsResult, followersResult, followingResult, isFollowingResult] =
-        await Promise.all([
-          supabase
-            .from("lists")
-            .select("*", { count: "exact", head: true })
-            .eq("user_id", profileData.id)
-            .eq("is_public", true),
-          supabase
-            .from("pins")
-            .select("*", { count: "exact", head: true })
-            .eq("user_id", profileData.id),
-          supabase
-            .from("follows")
-            .select("*", { count: "exact", head: true })
-            .eq("following_id", profileData.id),
-          supabase
-            .from("follows")
-            .select("*", { count: "exact", head: true })
-            .eq("follower_id", profileData.id),
-          currentUser
-            ? supabase
-                .from("follows")
-                .select("*")
-                .eq("follower_id", currentUser.id)
-                .eq("following_id", profileData.id)
-                .maybeSingle()
-            : Promise.resolve({ data: null }),
-        ]);
+      const isOwnProfile = currentUserId === profileData.id;
+
+      // Fetch stats and public lists
+      // Private accounts' lists come back empty unless you're an approved follower
+      const [stats, followState, listsData] = await Promise.all([
+        data.profiles.getStats(profileData.id, { publicListsOnly: true }),
+        currentUserId
+          ? data.follows.getFollowState(currentUserId, profileData.id)
+          : Promise.resolve<FollowState>("none"),
+        data.lists.listByOwner(profileData.id, { publicOnly: true, withPinCounts: true }),
+      ]);
 
       setProfile({
         ...profileData,
-        lists_count: listsResult.count || 0,
-        pins_count: pinsResult.count || 0,
-        followers_count: followersResult.count || 0,
-        following_count: followingResult.count || 0,
-        is_following: !!isFollowingResult.data,
+        lists_count: stats.lists,
+        pins_count: stats.pins,
+        followers_count: stats.followers,
+        following_count: stats.following,
+        follow_state: followState,
         is_own_profile: isOwnProfile,
       });
 
-      // Fetch public lists
-      const { data: listsData } = await supabase
-        .from("lists")
-        .select(`
-          *,
-          pins:pins(count)
-        `)
-        .eq("user_id", profileData.id)
-        .eq("is_public", true)
-        .order("updated_at", { ascending: false });
-
-      if (listsData) {
-        const listsWithCount = listsData.map((list) => ({
-          ...list,
-          pins_count: list.pins?.[0]?.count || 0,
-        }));
-        setLists(listsWithCount);
-      }
+      setLists(listsData);
 
       setIsLoading(false);
     };
 
     fetchProfile();
-  }, [username, router]);
+  }, [username, router, data]);
 
   const handleFollow = async () => {
     if (!profile || profile.is_own_profile) return;
 
     setIsFollowLoading(true);
 
-    const supabase = createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
+    const userId = await data.auth.getCurrentUserId();
 
-    if (!user) {
+    if (!userId) {
       router.push("/login");
       return;
     }
 
-    if (profile.is_following) {
+    if (profile.follow_state === "following") {
       // Unfollow
-      await supabase
-        .from("follows")
-        .delete()
-        .eq("follower_id", user.id)
-        .eq("following_id", profile.id);
+      await data.follows.unfollow(userId, profile.id);
 
       triggerHaptic("light");
       setProfile({
         ...profile,
-        is_following: false,
+        follow_state: "none",
         followers_count: profile.followers_count - 1,
       });
-    } else {
-      // Follow
-      await supabase.from("follows").insert({
-        follower_id: user.id,
-        following_id: profile.id,
-      });
+    } else if (profile.follow_state === "requested") {
+      // Withdraw the request
+      await data.follows.unfollow(userId, profile.id);
 
-      // Celebrate new follow!
-      fireConfetti("follow");
-      showToast(getRandomToast("follow"));
-      setProfile({
-        ...profile,
-        is_following: true,
-        followers_count: profile.followers_count + 1,
-      });
+      triggerHaptic("light");
+      setProfile({ ...profile, follow_state: "none" });
+    } else {
+      // Follow, or ask to if the account is private
+      const state = await data.follows.follow(userId, profile.id);
+
+      if (state === "following") {
+        // Celebrate new follow!
+        fireConfetti("follow");
+        showToast(getRandomToast("follow"));
+        setProfile({
+          ...profile,
+          follow_state: "following",
+          followers_count: profile.followers_count + 1,
+        });
+      } else if (state === "requested") {
+        triggerHaptic("light");
+        showToast({ message: "Request sent", emoji: "🔒", subtext: "You'll see their lists once they approve" });
+        setProfile({ ...profile, follow_state: "requested" });
+      }
     }
 
     setIsFollowLoading(false);
@@ -174,6 +134,8 @@ export default function UserProfilePage() {
 
   if (!profile) return null;
 
+  const isLocked = profile.is_private && !profile.is_own_profile && profile.follow_state !== "following";
+
   return (
     <div className="min-h-screen bg-background pb-20">
       {/* Header */}
@@ -222,14 +184,18 @@ export default function UserProfilePage() {
 
         {/* Stats */}
         <div className="flex gap-6 mt-6">
-          <div className="text-center">
-            <p className="text-xl font-bold text-text-primary">{profile.lists_count}</p>
-            <p className="text-xs text-text-muted">Lists</p>
-          </div>
-          <div className="text-center">
-            <p className="text-xl font-bold text-text-primary">{profile.pins_count}</p>
-            <p className="text-xs text-text-muted">Spots</p>
-          </div>
+          {!isLocked && (
+            <>
+              <div className="text-center">
+                <p className="text-xl font-bold text-text-primary">{profile.lists_count}</p>
+                <p className="text-xs text-text-muted">Lists</p>
+              </div>
+              <div className="text-center">
+                <p className="text-xl font-bold text-text-primary">{profile.pins_count}</p>
+                <p className="text-xs text-text-muted">Spots</p>
+              </div>
+            </>
+          )}
           <div className="text-center">
             <p className="text-xl font-bold text-text-primary">{profile.followers_count}</p>
             <p className="text-xs text-text-muted">Followers</p>
@@ -244,12 +210,18 @@ export default function UserProfilePage() {
         {!profile.is_own_profile && (
           <div className="mt-6">
             <Button
-              variant={profile.is_following ? "secondary" : "primary"}
+              variant={profile.follow_state === "none" ? "primary" : "secondary"}
               className="w-full"
               onClick={handleFollow}
               isLoading={isFollowLoading}
             >
-              {profile.is_following ? "Following" : "Follow"}
+              {profile.follow_state === "following"
+                ? "Following"
+                : profile.follow_state === "requested"
+                  ? "Requested"
+                  : profile.is_private
+                    ? "Request to follow"
+                    : "Follow"}
             </Button>
           </div>
         )}
@@ -267,59 +239,93 @@ export default function UserProfilePage() {
         )}
       </div>
 
-      {/* Public Lists */}
-      <div className="px-4">
-        <h3 className="text-sm font-medium text-text-secondary mb-3">
-          PUBLIC LISTS
-        </h3>
-
-        {lists.length === 0 ? (
-          <div className="text-center py-12 bg-surface-elevated rounded-xl">
-            <p className="text-text-muted">No public lists yet</p>
+      {/* Private accounts show their lists to approved followers only */}
+      {isLocked ? (
+        <div className="mx-4 text-center py-12 px-6 bg-surface-elevated rounded-xl">
+          <div className="w-12 h-12 mx-auto mb-3 rounded-full border-2 border-text-muted flex items-center justify-center text-text-muted">
+            <LockIcon />
           </div>
-        ) : (
-          <div className="grid grid-cols-2 gap-3">
-            <AnimatePresence>
-              {lists.map((list, index) => (
-                <motion.button
-                  key={list.id}
-                  initial={{ opacity: 0, scale: 0.9 }}
-                  animate={{ opacity: 1, scale: 1 }}
-                  transition={{ delay: index * 0.05 }}
-                  onClick={() => router.push(`/lists/${list.id}`)}
-                  className="relative bg-surface-elevated rounded-2xl p-4 text-left hover:bg-surface-hover transition-colors overflow-hidden"
-                >
-                  {/* Color accent */}
-                  <div
-                    className="absolute top-0 left-0 right-0 h-1"
-                    style={{ backgroundColor: list.color }}
-                  />
-
-                  {/* Emoji */}
-                  <div
-                    className="w-10 h-10 rounded-xl flex items-center justify-center mb-2"
-                    style={{ backgroundColor: `${list.color}20` }}
-                  >
-                    <span className="text-xl">{list.emoji_icon}</span>
-                  </div>
-
-                  {/* Info */}
-                  <h4 className="font-semibold text-text-primary text-sm truncate">
-                    {list.name}
-                  </h4>
-                  <p className="text-xs text-text-muted">
-                    {list.pins_count} {list.pins_count === 1 ? "spot" : "spots"}
-                  </p>
-                </motion.button>
-              ))}
-            </AnimatePresence>
+          <p className="font-semibold text-text-primary">This account is private</p>
+          <p className="text-sm text-text-muted mt-1">
+            {profile.follow_state === "requested"
+              ? `You'll see @${profile.username}'s lists once they approve your request`
+              : `Follow @${profile.username} to see their lists`}
+          </p>
+        </div>
+      ) : (
+        <>
+          {!profile.is_own_profile && <TasteMatch userId={profile.id} username={profile.username} />}
+
+          <div className="px-4">
+            <h3 className="text-sm font-medium text-text-secondary mb-3">
+              PUBLIC LISTS
+            </h3>
+
+            {lists.length === 0 ? (
+              <div className="text-center py-12 bg-surface-elevated rounded-xl">
+                <p className="text-text-muted">No public lists yet</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-3">
+                <AnimatePresence>
+                  {lists.map((list, index) => (
+                    <motion.button
+                      key={list.id}
+                      initial={{ opacity: 0, scale: 0.9 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      transition={{ delay: index * 0.05 }}
+                      onClick={() => router.push(`/lists/${list.id}`)}
+                      className="relative bg-surface-elevated rounded-2xl p-4 text-left hover:bg-surface-hover transition-colors overflow-hidden"
+                    >
+                      {/* Color accent */}
+                      <div
+                        className="absolute top-0 left-0 right-0 h-1"
+                        style={{ backgroundColor: list.color }}
+                      />
+
+                      {/* Emoji */}
+                      <div
+                        className="w-10 h-10 rounded-xl flex items-center justify-center mb-2"
+                        style={{ backgroundColor: `${list.color}20` }}
+                      >
+                        <span className="text-xl">{list.emoji_icon}</span>
+                      </div>
+
+                      {/* Info */}
+                      <h4 className="font-semibold text-text-primary text-sm truncate">
+                        {list.name}
+                      </h4>
+                      <p className="text-xs text-text-muted">
+                        {list.pins_count} {list.pins_count === 1 ? "spot" : "spots"}
+                      </p>
+                    </motion.button>
+                  ))}
+                </AnimatePresence>
+              </div>
+            )}
           </div>
-        )}
-      </div>
+        </>
+      )}
     </div>
   );
 }
 
+function LockIcon() {
+  return (
+    <svg
+      width="20"
+      height="20"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+    >
+      <rect x="5" y="11" width="14" height="10" rx="2" />
+      <path d="M8 11V7a4 4 0 0 1 8 0v4" />
+    </svg>
+  );
+}
+
 function BackIcon() {
   return (
     <svg
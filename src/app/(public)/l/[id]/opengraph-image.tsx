@@ -0,0 +1,109 @@
+import { ImageResponse } from "next/og";
+import { projectPins } from "@/lib/miniMap";
+import { getPublicList } from "@/lib/publicPages";
+
+export const alt = "A list on New Fork City";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+const MAP = { width: 440, height: 470, padding: 40 };
+
+// The list's emoji, color, name and owner, with its pins on a mini map
+export default async function Image({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const data = await getPublicList(id);
+
+  if (!data) {
+    return new ImageResponse(
+      (
+        <div
+          style={{
+            width: "100%",
+            height: "100%",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            background: "#0c0c12",
+            color: "#f8f8fa",
+            fontSize: 64,
+            fontWeight: 700,
+          }}
+        >
+          New Fork City
+        </div>
+      ),
+      size
+    );
+  }
+
+  const { list, owner, pins } = data;
+  const points = projectPins(pins, MAP);
+  const spots = `${pins.length} ${pins.length === 1 ? "spot" : "spots"}`;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          background: "#0c0c12",
+          color: "#f8f8fa",
+          padding: 80,
+          borderTop: `16px solid ${list.color}`,
+        }}
+      >
+        <div style={{ flex: 1, display: "flex", flexDirection: "column", justifyContent: "center", paddingRight: 60 }}>
+          <div
+            style={{
+              width: 120,
+              height: 120,
+              borderRadius: 28,
+              background: `${list.color}33`,
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              fontSize: 72,
+            }}
+          >
+            {list.emoji_icon}
+          </div>
+          <div style={{ fontSize: 64, fontWeight: 700, marginTop: 36, lineHeight: 1.1 }}>{list.name}</div>
+          <div style={{ fontSize: 32, color: "#a8a8b3", marginTop: 20 }}>
+            {`by @${owner.username} · ${spots}`}
+          </div>
+          <div style={{ fontSize: 28, color: "#6b6b7a", marginTop: "auto" }}>New Fork City</div>
+        </div>
+
+        <div
+          style={{
+            width: MAP.width,
+            height: MAP.height,
+            display: "flex",
+            position: "relative",
+            borderRadius: 32,
+            background: "#16161f",
+            border: "2px solid #262636",
+          }}
+        >
+          {points.map((point, index) => (
+            <div
+              key={index}
+              style={{
+                position: "absolute",
+                left: point.x - 10,
+                top: point.y - 10,
+                width: 20,
+                height: 20,
+                borderRadius: 10,
+                background: list.color,
+                border: "3px solid #0c0c12",
+              }}
+            />
+          ))}
+        </div>
+      </div>
+    ),
+    { ...size, emoji: "twemoji" }
+  );
+}
@@ -0,0 +1,107 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { Avatar } from "@/components/ui";
+import { MiniMap } from "@/components/map/MiniMap";
+import { getPublicList } from "@/lib/publicPages";
+
+type Props = { params: Promise<{ id: string }> };
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { id } = await params;
+  const data = await getPublicList(id);
+  if (!data) return { title: "List not found · New Fork City" };
+
+  const { list, owner, pins } = data;
+  const title = `${list.emoji_icon} ${list.name} by @${owner.username}`;
+  const description =
+    list.description || `${pins.length} ${pins.length === 1 ? "spot" : "spots"} saved on New Fork City`;
+
+  // oEmbed discovery needs this page's absolute URL
+  const requestHeaders = await headers();
+  const host = requestHeaders.get("x-forwarded-host") ?? requestHeaders.get("host");
+  const protocol = requestHeaders.get("x-forwarded-proto") ?? "https";
+  const pageUrl = `${protocol}://${host}/l/${list.id}`;
+
+  return {
+    title: `${title} · New Fork City`,
+    description,
+    openGraph: { title, description, type: "website", url: `/l/${list.id}` },
+    twitter: { card: "summary_large_image", title, description },
+    alternates: {
+      types: { "application/json+oembed": `/api/oembed?url=${encodeURIComponent(pageUrl)}` },
+    },
+  };
+}
+
+// Read-only view of a public list for anyone with the link
+export default async function PublicListPage({ params }: Props) {
+  const { id } = await params;
+  const data = await getPublicList(id);
+  if (!data) notFound();
+
+  const { list, owner, pins } = data;
+
+  return (
+    <div className="min-h-screen bg-background pb-32">
+      <div className="max-w-lg mx-auto p-4 space-y-6">
+        <div className="flex items-start gap-3 pt-4">
+          <div
+            className="w-14 h-14 rounded-[--radius-md] flex items-center justify-center shrink-0"
+            style={{ backgroundColor: `${list.color}20` }}
+          >
+            <span className="text-3xl">{list.emoji_icon}</span>
+          </div>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-2xl font-bold text-text-primary">{list.name}</h1>
+            <Link href={`/u/${owner.username}`} className="flex items-center gap-2 mt-1 text-sm text-text-secondary">
+              <Avatar src={owner.avatar_url} alt={owner.display_name || owner.username} size="xs" />
+              @{owner.username} · {pins.length} {pins.length === 1 ? "spot" : "spots"}
+            </Link>
+          </div>
+        </div>
+
+        {list.description && <p className="text-text-secondary">{list.description}</p>}
+
+        {pins.length > 0 && <MiniMap pins={pins} color={list.color} />}
+
+        <ul className="space-y-2">
+          {pins.map((pin) => (
+            <li key={pin.id} className="bg-surface-elevated rounded-[--radius-md] p-3">
+              <div className="flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: list.color }} />
+                <p className="flex-1 font-medium text-text-primary truncate">{pin.name}</p>
+                {pin.personal_rating && (
+                  <span className="text-xs text-neon-orange">{"★".repeat(pin.personal_rating)}</span>
+                )}
+              </div>
+              <p className="text-xs text-text-muted truncate mt-0.5">
+                {[pin.category, pin.address].filter(Boolean).join(" · ")}
+              </p>
+              {pin.personal_notes && <p className="text-sm text-text-secondary mt-2">{pin.personal_notes}</p>}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Signed-out visitors are sent through login and come back here */}
+      <div className="fixed bottom-0 left-0 right-0 bg-surface/80 backdrop-blur-xl border-t border-border safe-area-bottom">
+        <div className="max-w-lg mx-auto flex gap-3 p-4">
+          <Link
+            href={`/lists/${list.id}`}
+            className="flex-1 py-3 rounded-[--radius-md] bg-surface-elevated text-center text-sm font-medium text-text-primary hover:bg-surface-hover transition-colors"
+          >
+            Open in app
+          </Link>
+          <Link
+            href={`/lists/${list.id}?fork=1`}
+            className="flex-1 py-3 rounded-[--radius-md] bg-primary text-center text-sm font-medium text-white hover:bg-primary-hover transition-colors"
+          >
+            Save this list
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { Avatar } from "@/components/ui";
+import { getPublicProfile } from "@/lib/publicPages";
+
+type Props = { params: Promise<{ username: string }> };
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { username } = await params;
+  const data = await getPublicProfile(username);
+  if (!data) return { title: "User not found · New Fork City" };
+
+  const { profile, lists } = data;
+  const name = profile.display_name || `@${profile.username}`;
+  const title = `${name} on New Fork City`;
+  const description = profile.bio || `${lists.length} public ${lists.length === 1 ? "list" : "lists"} of favorite spots`;
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: "profile",
+      url: `/u/${profile.username}`,
+      images: profile.avatar_url ? [profile.avatar_url] : undefined,
+    },
+    twitter: { card: "summary", title, description },
+  };
+}
+
+// Read-only view of someone's public lists for anyone with the link
+export default async function PublicProfilePage({ params }: Props) {
+  const { username } = await params;
+  const data = await getPublicProfile(username);
+  if (!data) notFound();
+
+  const { profile, lists } = data;
+
+  return (
+    <div className="min-h-screen bg-background pb-32">
+      <div className="max-w-lg mx-auto p-4 space-y-6">
+        <div className="flex flex-col items-center text-center pt-8">
+          <Avatar src={profile.avatar_url} alt={profile.display_name || profile.username} size="xl" />
+          <h1 className="text-2xl font-bold text-text-primary mt-3">{profile.display_name || profile.username}</h1>
+          <p className="text-sm text-text-muted">@{profile.username}</p>
+          {profile.bio && <p className="text-text-secondary mt-3">{profile.bio}</p>}
+        </div>
+
+        {profile.is_private ? (
+          <p className="text-center text-text-muted">🔒 This account is private. Follow to see their lists.</p>
+        ) : lists.length === 0 ? (
+          <p className="text-center text-text-muted">No public lists yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {lists.map((list) => (
+              <li key={list.id}>
+                <Link
+                  href={`/l/${list.id}`}
+                  className="flex items-center gap-3 bg-surface-elevated rounded-[--radius-md] p-3 hover:bg-surface-hover transition-colors"
+                >
+                  <div
+                    className="w-10 h-10 rounded-[--radius-sm] flex items-center justify-center shrink-0"
+                    style={{ backgroundColor: `${list.color}20` }}
+                  >
+                    <span className="text-xl">{list.emoji_icon}</span>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-text-primary truncate">{list.name}</p>
+                    <p className="text-xs text-text-muted">
+                      {list.pins_count} {list.pins_count === 1 ? "spot" : "spots"}
+                    </p>
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="fixed bottom-0 left-0 right-0 bg-surface/80 backdrop-blur-xl border-t border-border safe-area-bottom">
+        <div className="max-w-lg mx-auto p-4">
+          <Link
+            href={`/user/${profile.username}`}
+            className="block py-3 rounded-[--radius-md] bg-primary text-center text-sm font-medium text-white hover:bg-primary-hover transition-colors"
+          >
+            Follow on New Fork City
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
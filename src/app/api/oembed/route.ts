@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { embedHtml, embedPath, embedSize, parseEmbeddableUrl } from "@/lib/embed";
+import { getPublicList } from "@/lib/publicPages";
+
+// GET /api/oembed?url=<list link>&maxwidth=&maxheight=
+// Lets blogs and wikis unfurl a public list into its embed (https://oembed.com)
+export async function GET(request: Request) {
+  const { origin, searchParams } = new URL(request.url);
+
+  const format = searchParams.get("format");
+  if (format && format !== "json") {
+    return NextResponse.json({ error: "Only JSON is supported" }, { status: 501 });
+  }
+
+  const target = parseEmbeddableUrl(searchParams.get("url") ?? "");
+  if (!target) {
+    return NextResponse.json({ error: "Not an embeddable URL" }, { status: 404 });
+  }
+
+  const data = await getPublicList(target.listId);
+  if (!data) {
+    return NextResponse.json({ error: "List not found" }, { status: 404 });
+  }
+
+  const { list, owner } = data;
+  const title = `${list.emoji_icon} ${list.name}`;
+  const size = embedSize(searchParams.get("maxwidth"), searchParams.get("maxheight"));
+
+  return NextResponse.json(
+    {
+      version: "1.0",
+      type: "rich",
+      provider_name: "New Fork City",
+      provider_url: origin,
+      title,
+      author_name: owner.display_name || owner.username,
+      author_url: `${origin}/u/${owner.username}`,
+      html: embedHtml(`${origin}${embedPath(list.id, target.options)}`, title, size),
+      width: size.width,
+      height: size.height,
+      cache_age: 3600,
+    },
+    { headers: { "Cache-Control": "public, max-age=3600" } }
+  );
+}
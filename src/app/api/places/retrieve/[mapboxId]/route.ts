@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { getPlacesProvider } from "@/lib/geocoding";
+import {
+  authorizePlacesRequest,
+  cachePlace,
+  getCachedPlace,
+  providerErrorResponse,
+  readSessionToken,
+  savePlace,
+} from "@/lib/placesProxy";
+
+// GET /api/places/retrieve/<mapbox_id>?session_token=<uuid>
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ mapboxId: string }> }
+) {
+  const userId = await authorizePlacesRequest();
+  if (userId instanceof NextResponse) return userId;
+
+  const { mapboxId } = await params;
+  const cached = getCachedPlace(mapboxId);
+  if (cached) {
+    return NextResponse.json({ place: cached });
+  }
+
+  const sessionToken = readSessionToken(request);
+  if (!sessionToken) {
+    return NextResponse.json({ error: "Invalid session token" }, { status: 400 });
+  }
+
+  try {
+    const place = await getPlacesProvider().retrieve(mapboxId, sessionToken);
+    if (!place) {
+      return NextResponse.json({ error: "Place not found" }, { status: 404 });
+    }
+    cachePlace(mapboxId, place);
+    await savePlace(place);
+    return NextResponse.json({ place });
+  } catch (error) {
+    return providerErrorResponse(error);
+  }
+}
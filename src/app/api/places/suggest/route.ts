@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { getPlacesProvider } from "@/lib/geocoding";
+import {
+  authorizePlacesRequest,
+  providerErrorResponse,
+  readSessionToken,
+} from "@/lib/placesProxy";
+
+const MAX_QUERY_LENGTH = 200;
+
+// GET /api/places/suggest?q=...&session_token=<uuid>
+export async function GET(request: Request) {
+  const userId = await authorizePlacesRequest();
+  if (userId instanceof NextResponse) return userId;
+
+  const query = new URL(request.url).searchParams.get("q")?.trim() ?? "";
+  const sessionToken = readSessionToken(request);
+
+  if (!query || query.length > MAX_QUERY_LENGTH) {
+    return NextResponse.json({ error: "Invalid query" }, { status: 400 });
+  }
+  if (!sessionToken) {
+    return NextResponse.json({ error: "Invalid session token" }, { status: 400 });
+  }
+
+  try {
+    const suggestions = await getPlacesProvider().suggest(query, sessionToken);
+    return NextResponse.json({ suggestions });
+  } catch (error) {
+    return providerErrorResponse(error);
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { createServiceClient } from "@/lib/supabase/api";
+
+// GET /api/polls/close
+// Closes polls past their deadline and announces the winners. Vercel Cron
+// calls it every minute (see vercel.json) with CRON_SECRET as a bearer token.
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data, error } = await createServiceClient().rpc("close_due_polls");
+  if (error) {
+    console.error("Error closing polls:", error);
+    return NextResponse.json({ error: "Failed to close polls" }, { status: 500 });
+  }
+  return NextResponse.json({ closed: data ?? 0 });
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import {
+  apiError,
+  apiJson,
+  authenticateApiRequest,
+  databaseError,
+  isUuid,
+  pageRange,
+  parsePinsInput,
+  PIN_COLUMNS,
+  readJsonBody,
+  readPage,
+  toPage,
+} from "@/lib/api";
+
+type Params = { params: Promise<{ id: string }> };
+
+const notFound = () => apiError(404, "List not found");
+
+// GET /api/v1/lists/<id>/pins?limit=&offset=
+// Newest first
+export async function GET(request: Request, { params }: Params) {
+  const context = await authenticateApiRequest(request);
+  if (context instanceof NextResponse) return context;
+
+  const { id } = await params;
+  if (!isUuid(id)) return notFound();
+
+  const page = readPage(new URL(request.url));
+  if (page instanceof NextResponse) return page;
+
+  // An empty page of a list you can't see would look like an empty list
+  const { data: list, error: listError } = await context.supabase.from("lists").select("id").eq("id", id).maybeSingle();
+  if (listError) return databaseError(listError);
+  if (!list) return notFound();
+
+  const { data, error } = await context.supabase
+    .from("pins")
+    .select(PIN_COLUMNS)
+    .eq("list_id", id)
+    .order("created_at", { ascending: false })
+    .order("id")
+    .range(...pageRange(page));
+  if (error) return databaseError(error);
+
+  return apiJson(context, toPage(data, page));
+}
+
+// POST /api/v1/lists/<id>/pins (owners and editors)
+// Takes one pin or an array; an array is added all or nothing
+export async function POST(request: Request, { params }: Params) {
+  const context = await authenticateApiRequest(request, { write: true });
+  if (context instanceof NextResponse) return context;
+
+  const { id } = await params;
+  if (!isUuid(id)) return notFound();
+
+  const body = await readJsonBody(request);
+  if (body instanceof NextResponse) return body;
+  const parsed = parsePinsInput(body);
+  if ("error" in parsed) return apiError(400, parsed.error);
+
+  const { data: list, error: listError } = await context.supabase.from("lists").select("id").eq("id", id).maybeSingle();
+  if (listError) return databaseError(listError);
+  if (!list) return notFound();
+
+  const { data, error } = await context.supabase
+    .from("pins")
+    .insert(parsed.value.map((pin) => ({ ...pin, list_id: id, user_id: context.userId })))
+    .select(PIN_COLUMNS);
+  if (error) return databaseError(error);
+
+  return apiJson(context, { data: Array.isArray(body) ? data : data[0] }, 201);
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import {
+  apiError,
+  apiJson,
+  apiNoContent,
+  authenticateApiRequest,
+  databaseError,
+  isUuid,
+  LIST_COLUMNS,
+  parseListUpdate,
+  readJsonBody,
+} from "@/lib/api";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Lists you can't see, or can't change, are reported as missing so the
+// API doesn't reveal private lists
+const notFound = () => apiError(404, "List not found");
+
+// GET /api/v1/lists/<id>
+export async function GET(request: Request, { params }: Params) {
+  const context = await authenticateApiRequest(request);
+  if (context instanceof NextResponse) return context;
+
+  const { id } = await params;
+  if (!isUuid(id)) return notFound();
+
+  const { data, error } = await context.supabase.from("lists").select(LIST_COLUMNS).eq("id", id).maybeSingle();
+  if (error) return databaseError(error);
+  if (!data) return notFound();
+
+  return apiJson(context, { data });
+}
+
+// PATCH /api/v1/lists/<id> (owner only)
+export async function PATCH(request: Request, { params }: Params) {
+  const context = await authenticateApiRequest(request, { write: true });
+  if (context instanceof NextResponse) return context;
+
+  const { id } = await params;
+  if (!isUuid(id)) return notFound();
+
+  const body = await readJsonBody(request);
+  if (body instanceof NextResponse) return body;
+  const parsed = parseListUpdate(body);
+  if ("error" in parsed) return apiError(400, parsed.error);
+
+  const { data, error } = await context.supabase
+    .from("lists")
+    .update(parsed.value)
+    .eq("id", id)
+    .select(LIST_COLUMNS)
+    .maybeSingle();
+  if (error) return databaseError(error);
+  if (!data) return notFound();
+
+  return apiJson(context, { data });
+}
+
+// DELETE /api/v1/lists/<id> (owner only; deletes its pins too)
+export async function DELETE(request: Request, { params }: Params) {
+  const context = await authenticateApiRequest(request, { write: true });
+  if (context instanceof NextResponse) return context;
+
+  const { id } = await params;
+  if (!isUuid(id)) return notFound();
+
+  const { data, error } = await context.supabase.from("lists").delete().eq("id", id).select("id");
+  if (error) return databaseError(error);
+  if (data.length === 0) return notFound();
+
+  return apiNoContent(context);
+}
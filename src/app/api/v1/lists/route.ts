@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import {
+  apiError,
+  apiJson,
+  authenticateApiRequest,
+  databaseError,
+  LIST_COLUMNS,
+  pageRange,
+  parseListInput,
+  readJsonBody,
+  readPage,
+  resolveUserId,
+  toPage,
+} from "@/lib/api";
+
+// GET /api/v1/lists?user=<id or username>&limit=&offset=
+// Lists owned by the user (default: you) that you can see, most recently
+// updated first
+export async function GET(request: Request) {
+  const context = await authenticateApiRequest(request);
+  if (context instanceof NextResponse) return context;
+
+  const url = new URL(request.url);
+  const page = readPage(url);
+  if (page instanceof NextResponse) return page;
+
+  const user = url.searchParams.get("user");
+  const ownerId = user ? await resolveUserId(context, user) : context.userId;
+  if (ownerId instanceof NextResponse) return ownerId;
+
+  const { data, error } = await context.supabase
+    .from("lists")
+    .select(LIST_COLUMNS)
+    .eq("user_id", ownerId)
+    .order("updated_at", { ascending: false })
+    .order("id")
+    .range(...pageRange(page));
+  if (error) return databaseError(error);
+
+  return apiJson(context, toPage(data, page));
+}
+
+// POST /api/v1/lists
+export async function POST(request: Request) {
+  const context = await authenticateApiRequest(request, { write: true });
+  if (context instanceof NextResponse) return context;
+
+  const body = await readJsonBody(request);
+  if (body instanceof NextResponse) return body;
+  const parsed = parseListInput(body);
+  if ("error" in parsed) return apiError(400, parsed.error);
+
+  const { data, error } = await context.supabase
+    .from("lists")
+    .insert({ ...parsed.value, user_id: context.userId })
+    .select(LIST_COLUMNS)
+    .single();
+  if (error) return databaseError(error);
+
+  return apiJson(context, { data }, 201);
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { apiError, apiJson, apiNoContent, authenticateApiRequest, databaseError, resolveUserId } from "@/lib/api";
+
+type Params = { params: Promise<{ userId: string }> };
+
+// PUT /api/v1/me/following/<user id or username>
+// Private accounts get a follow request instead, answered with 202
+export async function PUT(request: Request, { params }: Params) {
+  const context = await authenticateApiRequest(request, { write: true });
+  if (context instanceof NextResponse) return context;
+
+  const userId = await resolveUserId(context, (await params).userId);
+  if (userId instanceof NextResponse) return userId;
+  if (userId === context.userId) return apiError(400, "You can't follow yourself");
+
+  // Already following or requested is fine; PUT is idempotent
+  const { data, error } = await context.supabase.rpc("follow_user", { p_user_id: userId });
+  if (error) return databaseError(error);
+
+  if (data === "requested") return apiJson(context, { data: { status: "requested" } }, 202);
+  return apiNoContent(context);
+}
+
+// DELETE /api/v1/me/following/<user id or username>
+// Also withdraws a pending follow request
+export async function DELETE(request: Request, { params }: Params) {
+  const context = await authenticateApiRequest(request, { write: true });
+  if (context instanceof NextResponse) return context;
+
+  const userId = await resolveUserId(context, (await params).userId);
+  if (userId instanceof NextResponse) return userId;
+
+  for (const table of ["follows", "follow_requests"] as const) {
+    const { error } = await context.supabase
+      .from(table)
+      .delete()
+      .eq("follower_id", context.userId)
+      .eq("following_id", userId);
+    if (error) return databaseError(error);
+  }
+
+  return apiNoContent(context);
+}
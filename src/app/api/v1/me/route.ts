@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { apiError, apiJson, authenticateApiRequest, databaseError, PROFILE_COLUMNS } from "@/lib/api";
+
+// GET /api/v1/me
+export async function GET(request: Request) {
+  const context = await authenticateApiRequest(request);
+  if (context instanceof NextResponse) return context;
+
+  const { data, error } = await context.supabase
+    .from("profiles")
+    .select(PROFILE_COLUMNS)
+    .eq("id", context.userId)
+    .maybeSingle();
+  if (error) return databaseError(error);
+  if (!data) return apiError(404, "User not found");
+
+  return apiJson(context, { data, token: { id: context.tokenId, scope: context.scope } });
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { openApiDocument } from "@/lib/api";
+
+// GET /api/v1/openapi.json (no token needed)
+export function GET() {
+  return NextResponse.json(openApiDocument);
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import {
+  apiError,
+  apiJson,
+  apiNoContent,
+  authenticateApiRequest,
+  databaseError,
+  isUuid,
+  parsePinUpdate,
+  PIN_COLUMNS,
+  readJsonBody,
+} from "@/lib/api";
+import { PIN_PHOTOS_BUCKET, storagePathFromUrl } from "@/lib/photos";
+
+type Params = { params: Promise<{ id: string }> };
+
+const notFound = () => apiError(404, "Pin not found");
+
+// GET /api/v1/pins/<id>
+export async function GET(request: Request, { params }: Params) {
+  const context = await authenticateApiRequest(request);
+  if (context instanceof NextResponse) return context;
+
+  const { id } = await params;
+  if (!isUuid(id)) return notFound();
+
+  const { data, error } = await context.supabase.from("pins").select(PIN_COLUMNS).eq("id", id).maybeSingle();
+  if (error) return databaseError(error);
+  if (!data) return notFound();
+
+  return apiJson(context, { data });
+}
+
+// PATCH /api/v1/pins/<id> (owners and editors of its list)
+// Setting list_id moves the pin; you need to be able to edit both lists
+export async function PATCH(request: Request, { params }: Params) {
+  const context = await authenticateApiRequest(request, { write: true });
+  if (context instanceof NextResponse) return context;
+
+  const { id } = await params;
+  if (!isUuid(id)) return notFound();
+
+  const body = await readJsonBody(request);
+  if (body instanceof NextResponse) return body;
+  const parsed = parsePinUpdate(body);
+  if ("error" in parsed) return apiError(400, parsed.error);
+
+  const { data, error } = await context.supabase
+    .from("pins")
+    .update(parsed.value)
+    .eq("id", id)
+    .select(PIN_COLUMNS)
+    .maybeSingle();
+  if (error) return databaseError(error);
+  if (!data) return notFound();
+
+  return apiJson(context, { data });
+}
+
+// DELETE /api/v1/pins/<id>
+export async function DELETE(request: Request, { params }: Params) {
+  const context = await authenticateApiRequest(request, { write: true });
+  if (context instanceof NextResponse) return context;
+
+  const { id } = await params;
+  if (!isUuid(id)) return notFound();
+
+  // The rows cascade, but the files have to be removed separately
+  const { data: photos } = await context.supabase.from("pin_photos").select("url").eq("pin_id", id);
+
+  const { data, error } = await context.supabase.from("pins").delete().eq("id", id).select("id");
+  if (error) return databaseError(error);
+  if (data.length === 0) return notFound();
+
+  const paths = (photos ?? []).map((photo) => storagePathFromUrl(photo.url)).filter((path) => path !== null);
+  if (paths.length > 0) {
+    const { error: storageError } = await context.supabase.storage.from(PIN_PHOTOS_BUCKET).remove(paths);
+    if (storageError) console.error("Error removing photo files:", storageError);
+  }
+
+  return apiNoContent(context);
+}
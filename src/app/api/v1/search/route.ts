@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import {
+  apiError,
+  apiJson,
+  authenticateApiRequest,
+  databaseError,
+  LIST_COLUMNS,
+  PIN_COLUMNS,
+  PROFILE_COLUMNS,
+  searchTerm,
+} from "@/lib/api";
+
+const SEARCH_TYPES = ["lists", "pins", "users"];
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+// GET /api/v1/search?q=<text>&type=lists,pins,users&limit=
+// Matches names (and descriptions, addresses or display names) among what
+// you can see; each type gets up to `limit` results
+export async function GET(request: Request) {
+  const context = await authenticateApiRequest(request);
+  if (context instanceof NextResponse) return context;
+
+  const url = new URL(request.url);
+  const term = searchTerm(url.searchParams.get("q"));
+  if (!term) return apiError(400, "q must be 2 to 100 characters");
+
+  const types = (url.searchParams.get("type") ?? SEARCH_TYPES.join(",")).split(",").map((t) => t.trim());
+  const unknown = types.find((t) => !SEARCH_TYPES.includes(t));
+  if (unknown) return apiError(400, `Unknown type: ${unknown}`);
+
+  const limit = Number(url.searchParams.get("limit") ?? DEFAULT_LIMIT);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return apiError(400, `limit must be between 1 and ${MAX_LIMIT}`);
+  }
+
+  const pattern = `%${term}%`;
+  const [lists, pins, users] = await Promise.all([
+    types.includes("lists")
+      ? context.supabase
+          .from("lists")
+          .select(LIST_COLUMNS)
+          .or(`name.ilike.${pattern},description.ilike.${pattern}`)
+          .order("updated_at", { ascending: false })
+          .limit(limit)
+      : null,
+    types.includes("pins")
+      ? context.supabase
+          .from("pins")
+          .select(PIN_COLUMNS)
+          .or(`name.ilike.${pattern},address.ilike.${pattern}`)
+          .order("created_at", { ascending: false })
+          .limit(limit)
+      : null,
+    types.includes("users")
+      ? context.supabase
+          .from("profiles")
+          .select(PROFILE_COLUMNS)
+          .or(`username.ilike.${pattern},display_name.ilike.${pattern}`)
+          .order("username")
+          .limit(limit)
+      : null,
+  ]);
+
+  const error = lists?.error ?? pins?.error ?? users?.error;
+  if (error) return databaseError(error);
+
+  return apiJson(context, {
+    ...(lists && { lists: lists.data }),
+    ...(pins && { pins: pins.data }),
+    ...(users && { users: users.data }),
+  });
+}
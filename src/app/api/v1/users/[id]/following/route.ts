@@ -0,0 +1,6 @@
+import { listFollows } from "@/lib/api";
+
+// GET /api/v1/users/<id or username>/following?limit=&offset=
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  return listFollows(request, (await params).id, "following");
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { apiJson, authenticateApiRequest, databaseError, PROFILE_COLUMNS, resolveUserId } from "@/lib/api";
+
+// GET /api/v1/users/<id or username>
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const context = await authenticateApiRequest(request);
+  if (context instanceof NextResponse) return context;
+
+  const userId = await resolveUserId(context, (await params).id);
+  if (userId instanceof NextResponse) return userId;
+
+  const { data, error } = await context.supabase.from("profiles").select(PROFILE_COLUMNS).eq("id", userId).single();
+  if (error) return databaseError(error);
+
+  return apiJson(context, { data });
+}
@@ -0,0 +1,20 @@
+import { lookup } from "dns/promises";
+import { NextResponse } from "next/server";
+import { createServiceClient } from "@/lib/supabase/api";
+import { deliverWebhooks } from "@/lib/webhooks";
+
+// GET /api/webhooks/deliver
+// Sends due webhook deliveries. Vercel Cron calls it every minute (see
+// vercel.json) with CRON_SECRET as a bearer token.
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const result = await deliverWebhooks(createServiceClient(), {
+    allowPrivateUrls: process.env.NODE_ENV !== "production",
+    lookup: async (hostname) => (await lookup(hostname, { all: true })).map(({ address }) => address),
+  });
+  return NextResponse.json(result);
+}
@@ -0,0 +1,41 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { ListEmbed } from "@/components/lists/ListEmbed";
+import { parseEmbedOptions, pinBounds, type EmbedSearchParams } from "@/lib/embed";
+import { getPublicList } from "@/lib/publicPages";
+
+type Props = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<EmbedSearchParams>;
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { id } = await params;
+  const data = await getPublicList(id);
+  if (!data) return { title: "List not found · New Fork City" };
+
+  return {
+    title: `${data.list.emoji_icon} ${data.list.name} · New Fork City`,
+    // The public page is the canonical copy; embeds shouldn't show up in search
+    robots: { index: false },
+    alternates: { canonical: `/l/${data.list.id}` },
+  };
+}
+
+// A public list's map and pins, sized to fill an iframe on someone else's page
+export default async function ListEmbedPage({ params, searchParams }: Props) {
+  const { id } = await params;
+  const data = await getPublicList(id);
+  if (!data) notFound();
+
+  const options = parseEmbedOptions(await searchParams);
+
+  return (
+    <ListEmbed
+      data={data}
+      theme={options.theme}
+      bounds={options.bounds ?? pinBounds(data.pins)}
+      showNotes={options.showNotes}
+    />
+  );
+}
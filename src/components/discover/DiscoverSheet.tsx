@@ -5,20 +5,14 @@ import { useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button, Avatar, Input, Tabs, EmptyState } from "@/components/ui";
 import { ListCard } from "@/components/lists/ListCard";
-import { createClient } from "@/lib/supabase/client";
-import type { Profile, List } from "@/types";
+import { fetchTasteMatches, rankByTaste } from "@/lib/compatibility";
+import { useData, type ListWithOwner, type ProfileWithCounts } from "@/lib/data";
+import type { TasteMatch } from "@/types";
 
-interface UserWithStats extends Profile {
-  lists_count: number;
-  followers_count: number;
+interface UserWithStats extends ProfileWithCounts {
   is_following: boolean;
 }
 
-interface ListWithOwner extends List {
-  pins_count: number;
-  owner: Profile;
-}
-
 type SearchTab = "users" | "lists";
 
 interface DiscoverSheetProps {
@@ -28,14 +22,18 @@ interface DiscoverSheetProps {
 
 export function DiscoverSheet({ isOpen, onClose }: DiscoverSheetProps) {
   const router = useRouter();
+  const data = useData();
   const [tab, setTab] = useState<SearchTab>("users");
   const [query, setQuery] = useState("");
   const [users, setUsers] = useState<UserWithStats[]>([]);
   const [lists, setLists] = useState<ListWithOwner[]>([]);
   const [suggestedUsers, setSuggestedUsers] = useState<UserWithStats[]>([]);
+  const [tasteMatches, setTasteMatches] = useState<Map<string, TasteMatch>>(new Map());
   const [trendingLists, setTrendingLists] = useState<ListWithOwner[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  // Private accounts asked to follow during this visit
+  const [requestedIds, setRequestedIds] = useState<Set<string>>(new Set());
   const [isLoading, setIsLoading] = useState(true);
   const searchTimeout = useRef<NodeJS.Timeout | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -57,78 +55,43 @@ export function DiscoverSheet({ isOpen, onClose }: DiscoverSheetProps) {
 
     const loadData = async () => {
       setIsLoading(true);
-      const supabase = createClient();
-      const { data: { user } } = await supabase.auth.getUser();
-
-      if (!user) return;
-      setCurrentUserId(user.id);
-
-      const { data: following } = await supabase
-        .from("follows")
-        .select("following_id")
-        .eq("follower_id", user.id);
-
-      const followingIds = following?.map((f) => f.following_id) || [];
-
-      const { data: profiles } = await supabase
-        .from("profiles")
-        .select("*")
-        .neq("id", user.id)
-        .limit(15);
-
-      if (profiles) {
-        const usersWithStats = await Promise.all(
-          profiles.map(async (profile) => {
-            const [listsResult, followersResult] = await Promise.all([
-              supabase.from("lists").select("*", { count: "exact", head: true }).eq("user_id", profile.id).eq("is_public", true),
-              supabase.from("follows").select("*", { count: "exact", head: true }).eq("following_id", profile.id),
-            ]);
-
-            return {
-              ...profile,
-              lists_count: listsResult.count || 0,
-              followers_count: followersResult.count || 0,
-              is_following: followingIds.includes(profile.id),
-            };
-          })
-        );
-
-        const sorted = usersWithStats
-          .filter((u) => u.lists_count > 0)
-          .sort((a, b) => b.followers_count - a.followers_count);
-
-        setSuggestedUsers(sorted);
-      }
+      const userId = await data.auth.getCurrentUserId();
+
+      if (!userId) return;
+      setCurrentUserId(userId);
+
+      const [followingIds, profiles, listsData] = await Promise.all([
+        data.follows.getFollowingIds(userId),
+        data.profiles.browse({ excludeId: userId, limit: 15 }),
+        data.lists.browse({ excludeOwnerId: userId, limit: 15 }),
+      ]);
+
+      // People whose taste matches yours first
+      const [usersWithStats, matches] = await Promise.all([
+        data.profiles.withCounts(profiles, { publicListsOnly: true }),
+        fetchTasteMatches(profiles.map((p) => p.id)),
+      ]);
+      setTasteMatches(matches);
+      setSuggestedUsers(
+        rankByTaste(
+          usersWithStats
+            .map((u) => ({ ...u, is_following: followingIds.includes(u.id) }))
+            .filter((u) => u.lists_count > 0),
+          matches
+        )
+      );
 
-      const { data: listsData } = await supabase
-        .from("lists")
-        .select(`*, pins:pins(count)`)
-        .eq("is_public", true)
-        .neq("user_id", user.id)
-        .limit(15);
-
-      if (listsData && listsData.length > 0) {
-        const ownerIds = [...new Set(listsData.map((l) => l.user_id))];
-        const { data: ownersData } = await supabase.from("profiles").select("*").in("id", ownerIds);
-        const ownersMap = new Map(ownersData?.map((o) => [o.id, o]) || []);
-
-        const listsWithStats = listsData
-          .map((list) => ({
-            ...list,
-            pins_count: list.pins?.[0]?.count || 0,
-            owner: ownersMap.get(list.user_id) as Profile,
-          }))
-          .filter((list) => list.pins_count > 0 && list.owner)
-          .sort((a, b) => b.pins_count - a.pins_count);
-
-        setTrendingLists(listsWithStats);
-      }
+      setTrendingLists(
+        listsData
+          .filter((list) => list.pins_count > 0)
+          .sort((a, b) => b.pins_count - a.pins_count)
+      );
 
       setIsLoading(false);
     };
 
     loadData();
-  }, [isOpen]);
+  }, [isOpen, data]);
 
   // Search handler
   const handleSearch = useCallback((searchQuery: string) => {
@@ -146,78 +109,39 @@ export function DiscoverSheet({ isOpen, onClose }: DiscoverSheetProps) {
 
     searchTimeout.current = setTimeout(async () => {
       setIsSearching(true);
-      const supabase = createClient();
 
       if (tab === "users") {
-        const { data: profiles } = await supabase
-          .from("profiles")
-          .select("*")
-          .or(`username.ilike.%${searchQuery}%,display_name.ilike.%${searchQuery}%`)
-          .neq("id", currentUserId)
-          .limit(20);
-
-        if (profiles) {
-          const { data: following } = await supabase
-            .from("follows")
-            .select("following_id")
-            .eq("follower_id", currentUserId);
-
-          const followingIds = following?.map((f) => f.following_id) || [];
-
-          const usersWithStats = await Promise.all(
-            profiles.map(async (profile) => {
-              const [listsResult, followersResult] = await Promise.all([
-                supabase.from("lists").select("*", { count: "exact", head: true }).eq("user_id", profile.id).eq("is_public", true),
-                supabase.from("follows").select("*", { count: "exact", head: true }).eq("following_id", profile.id),
-              ]);
-
-              return {
-                ...profile,
-                lists_count: listsResult.count || 0,
-                followers_count: followersResult.count || 0,
-                is_following: followingIds.includes(profile.id),
-              };
-            })
-          );
-
-          setUsers(usersWithStats);
-        }
+        const [profiles, followingIds] = await Promise.all([
+          data.profiles.search(searchQuery, { excludeId: currentUserId, limit: 20 }),
+          currentUserId ? data.follows.getFollowingIds(currentUserId) : Promise.resolve([]),
+        ]);
+        const usersWithStats = await data.profiles.withCounts(profiles, { publicListsOnly: true });
+
+        setUsers(usersWithStats.map((u) => ({ ...u, is_following: followingIds.includes(u.id) })));
       } else {
-        const { data: listsData } = await supabase
-          .from("lists")
-          .select(`*, pins:pins(count)`)
-          .eq("is_public", true)
-          .ilike("name", `%${searchQuery}%`)
-          .neq("user_id", currentUserId)
-          .limit(20);
-
-        if (listsData && listsData.length > 0) {
-          const ownerIds = [...new Set(listsData.map((l) => l.user_id))];
-          const { data: ownersData } = await supabase.from("profiles").select("*").in("id", ownerIds);
-          const ownersMap = new Map(ownersData?.map((o) => [o.id, o]) || []);
-
-          const listsWithStats = listsData
-            .map((list) => ({
-              ...list,
-              pins_count: list.pins?.[0]?.count || 0,
-              owner: ownersMap.get(list.user_id) as Profile,
-            }))
-            .filter((list) => list.owner);
-
-          setLists(listsWithStats);
-        } else {
-          setLists([]);
-        }
+        setLists(
+          await data.lists.search(searchQuery, { excludeOwnerId: currentUserId, publicOnly: true, limit: 20 })
+        );
       }
 
       setIsSearching(false);
     }, 300);
-  }, [tab, currentUserId]);
+  }, [tab, currentUserId, data]);
 
   const handleFollow = async (userId: string) => {
     if (!currentUserId) return;
 
-    const supabase = createClient();
+    // Private accounts approve followers, so there's nothing to count yet
+    const target = [...users, ...suggestedUsers].find((u) => u.id === userId);
+    if (target?.is_private && !target.is_following) {
+      if (requestedIds.has(userId)) {
+        await data.follows.unfollow(currentUserId, userId);
+        setRequestedIds((prev) => new Set([...prev].filter((id) => id !== userId)));
+      } else if ((await data.follows.follow(currentUserId, userId)) === "requested") {
+        setRequestedIds((prev) => new Set(prev).add(userId));
+      }
+      return;
+    }
 
     const updateUsers = (list: UserWithStats[]) =>
       list.map((u) =>
@@ -237,9 +161,9 @@ export function DiscoverSheet({ isOpen, onClose }: DiscoverSheetProps) {
     if (!user) return;
 
     if (user.is_following) {
-      await supabase.from("follows").delete().eq("follower_id", currentUserId).eq("following_id", userId);
+      await data.follows.unfollow(currentUserId, userId);
     } else {
-      await supabase.from("follows").insert({ follower_id: currentUserId, following_id: userId });
+      await data.follows.follow(currentUserId, userId);
     }
   };
 
@@ -350,14 +274,19 @@ export function DiscoverSheet({ isOpen, onClose }: DiscoverSheetProps) {
                             <p className="text-sm text-text-muted">@{user.username}</p>
                             <p className="text-xs text-text-secondary mt-0.5">
                               {user.lists_count} lists · {user.followers_count} followers
+                              {tasteMatches.has(user.id) && (
+                                <span className="text-primary font-medium">
+                                  {" "}· {tasteMatches.get(user.id)!.score}% match
+                                </span>
+                              )}
                             </p>
                           </button>
                           <Button
-                            variant={user.is_following ? "secondary" : "primary"}
+                            variant={user.is_following || requestedIds.has(user.id) ? "secondary" : "primary"}
                             size="sm"
                             onClick={() => handleFollow(user.id)}
                           >
-                            {user.is_following ? "Following" : "Follow"}
+                            {user.is_following ? "Following" : requestedIds.has(user.id) ? "Requested" : "Follow"}
                           </Button>
                         </div>
                       </motion.div>
@@ -0,0 +1,61 @@
+"use client";
+
+import { motion } from "framer-motion";
+
+// Positions are derived from the index rather than Math.random() so the
+// particles render the same on the server and the client.
+function particleLayout(index: number, count: number) {
+  const spacing = 100 / (count + 1);
+  return {
+    left: `${spacing * (index + 1)}%`,
+    delay: (index * 0.37) % 1.5,
+    duration: 2 + (index % 3) * 0.4,
+    size: 4 + (index % 2) * 2,
+  };
+}
+
+export function RisingParticles({ count = 6 }: { count?: number }) {
+  return (
+    <div className="absolute inset-0 pointer-events-none overflow-hidden" aria-hidden>
+      {Array.from({ length: count }, (_, i) => {
+        const { left, delay, duration, size } = particleLayout(i, count);
+        return (
+          <motion.span
+            key={i}
+            className="absolute bottom-0 rounded-full bg-neon-green/40"
+            style={{ left, width: size, height: size }}
+            initial={{ y: 0, opacity: 0 }}
+            animate={{ y: -80, opacity: [0, 0.8, 0] }}
+            transition={{ duration, delay, repeat: Infinity, ease: "easeOut" }}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+export function ShimmerEffect({ className = "" }: { className?: string }) {
+  return (
+    <div className={`absolute inset-0 pointer-events-none shimmer ${className}`} aria-hidden />
+  );
+}
+
+export function HotGlowRing({
+  children,
+  className = "",
+}: {
+  children: React.ReactNode;
+  className?: string;
+}) {
+  return (
+    <div className={`relative ${className}`}>
+      <motion.div
+        className="absolute -inset-1 rounded-full bg-gradient-to-r from-orange-500 via-neon-pink to-orange-500 blur-sm"
+        animate={{ opacity: [0.4, 0.8, 0.4] }}
+        transition={{ duration: 2, repeat: Infinity, ease: "easeInOut" }}
+        aria-hidden
+      />
+      <div className="relative">{children}</div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui";
+import { useData } from "@/lib/data";
+import {
+  formatPlannedDate,
+  itineraryPath,
+  MAX_ITINERARY_NAME_LENGTH,
+  MAX_ITINERARY_STOPS,
+  moveStop,
+  toStopInputs,
+  type DraftStop,
+} from "@/lib/itineraries";
+import type { RouteLeg } from "@/lib/routing";
+import type { Itinerary } from "@/types";
+import { RouteLegRow, RouteSummary, StopNumber } from "./ItineraryStops";
+
+interface ItineraryPlannerProps {
+  userId: string;
+  stops: DraftStop[];
+  onStopsChange: (stops: DraftStop[]) => void;
+  legs: RouteLeg[];
+  // Edits this itinerary instead of planning a new one
+  itinerary?: Itinerary | null;
+  onSaved: (itineraryId: string) => void;
+  onClose: () => void;
+}
+
+// Floats over the explore map while pins are tapped into stops: reorder
+// them, plan times, see the walk between each, then save
+export function ItineraryPlanner({
+  userId,
+  stops,
+  onStopsChange,
+  legs,
+  itinerary,
+  onSaved,
+  onClose,
+}: ItineraryPlannerProps) {
+  const data = useData();
+  const [name, setName] = useState(itinerary?.name ?? "");
+  const [plannedFor, setPlannedFor] = useState(itinerary?.planned_for ?? "");
+  const [isPublic, setIsPublic] = useState(itinerary?.is_public ?? false);
+  const [savedPlans, setSavedPlans] = useState<Itinerary[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (itinerary) return;
+    data.itineraries.listByOwner(userId).then(setSavedPlans);
+  }, [data, userId, itinerary]);
+
+  const updateStop = (key: string, patch: Partial<DraftStop>) =>
+    onStopsChange(stops.map((stop) => (stop.key === key ? { ...stop, ...patch } : stop)));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const fields = { name: name.trim(), planned_for: plannedFor || null, is_public: isPublic };
+    const stopInputs = toStopInputs(stops);
+    const itineraryId = itinerary
+      ? (await data.itineraries.update(itinerary.id, fields, stopInputs)) && itinerary.id
+      : (await data.itineraries.create({ ...fields, user_id: userId }, stopInputs))?.id;
+
+    setIsSaving(false);
+    if (itineraryId) onSaved(itineraryId);
+  };
+
+  return (
+    <div className="fixed left-4 right-4 bottom-20 z-20 max-h-[55vh] overflow-y-auto bg-surface/95 backdrop-blur-xl rounded-2xl border border-border shadow-card p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={MAX_ITINERARY_NAME_LENGTH}
+          placeholder="Name your night out..."
+          className="flex-1 min-w-0 bg-surface-elevated border border-border rounded-lg px-3 py-2 text-sm text-text-primary placeholder:text-text-muted focus:outline-none focus:border-neon-cyan"
+        />
+        <input
+          type="date"
+          value={plannedFor}
+          onChange={(e) => setPlannedFor(e.target.value)}
+          aria-label="Date"
+          className="bg-surface-elevated border border-border rounded-lg px-2 py-2 text-sm text-text-primary focus:outline-none focus:border-neon-cyan"
+        />
+        <button onClick={onClose} className="p-2 text-text-muted hover:text-text-primary" aria-label="Stop planning">
+          ✕
+        </button>
+      </div>
+
+      {stops.length === 0 ? (
+        <div className="py-2">
+          <p className="text-sm text-text-secondary text-center">Tap spots on the map to add stops</p>
+          {savedPlans.length > 0 && (
+            <div className="mt-3">
+              <h4 className="text-xs font-medium text-text-secondary mb-1.5">YOUR PLANS</h4>
+              <div className="flex flex-wrap gap-2">
+                {savedPlans.map((plan) => (
+                  <Link
+                    key={plan.id}
+                    href={itineraryPath(plan.id)}
+                    className="px-3 py-1.5 rounded-xl bg-surface-elevated border border-border text-sm text-text-primary hover:bg-surface-hover"
+                  >
+                    {plan.name}
+                    {plan.planned_for && (
+                      <span className="text-text-muted"> · {formatPlannedDate(plan.planned_for)}</span>
+                    )}
+                  </Link>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      ) : (
+        <ol>
+          {stops.map((stop, i) => (
+            <li key={stop.key}>
+              {i > 0 && <RouteLegRow leg={legs[i - 1]} />}
+              <div className="flex items-center gap-2 py-1">
+                <StopNumber number={i + 1} />
+                <p className="flex-1 min-w-0 text-sm font-medium text-text-primary truncate">{stop.name}</p>
+                <input
+                  type="time"
+                  value={stop.time}
+                  onChange={(e) => updateStop(stop.key, { time: e.target.value })}
+                  aria-label={`Time at ${stop.name}`}
+                  className="bg-surface-elevated border border-border rounded-lg px-2 py-1 text-xs text-text-primary focus:outline-none focus:border-neon-cyan"
+                />
+                <button
+                  onClick={() => onStopsChange(moveStop(stops, i, -1))}
+                  disabled={i === 0}
+                  className="p-1 text-text-muted enabled:hover:text-text-primary disabled:opacity-30"
+                  aria-label="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => onStopsChange(moveStop(stops, i, 1))}
+                  disabled={i === stops.length - 1}
+                  className="p-1 text-text-muted enabled:hover:text-text-primary disabled:opacity-30"
+                  aria-label="Move down"
+                >
+                  ↓
+                </button>
+                <button
+                  onClick={() => onStopsChange(stops.filter((s) => s.key !== stop.key))}
+                  className="p-1 text-text-muted hover:text-red-400"
+                  aria-label={`Remove ${stop.name}`}
+                >
+                  ✕
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {stops.length > 0 && (
+        <div className="mt-3 space-y-3">
+          <RouteSummary legs={legs} />
+          {stops.length >= MAX_ITINERARY_STOPS && (
+            <p className="text-xs text-neon-orange">That&apos;s the most stops a plan can have</p>
+          )}
+          <label className="flex items-center gap-2 text-sm text-text-secondary">
+            <input type="checkbox" checked={isPublic} onChange={(e) => setIsPublic(e.target.checked)} />
+            Anyone with the link can see it
+          </label>
+          <Button
+            variant="primary"
+            className="w-full"
+            onClick={handleSave}
+            isLoading={isSaving}
+            disabled={!name.trim()}
+          >
+            {itinerary ? "Save changes" : "Save plan"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
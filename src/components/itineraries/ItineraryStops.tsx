@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { formatPlannedTime } from "@/lib/itineraries";
+import {
+  estimateLegs,
+  formatDistance,
+  formatWalkTime,
+  routeLegs,
+  routePath,
+  routeTotals,
+  type RouteLeg,
+  type RoutePoint,
+} from "@/lib/routing";
+import type { ItineraryStop, MapRoute } from "@/types";
+
+interface ItineraryStopsProps {
+  stops: ItineraryStop[];
+  // One per gap between stops, once routed
+  legs: RouteLeg[];
+  onStopClick?: (stop: ItineraryStop) => void;
+}
+
+// The stops in order with their planned times and the walk between each
+export function ItineraryStops({ stops, legs, onStopClick }: ItineraryStopsProps) {
+  return (
+    <ol>
+      {stops.map((stop, i) => (
+        <li key={stop.id}>
+          {i > 0 && <RouteLegRow leg={legs[i - 1]} />}
+          <button
+            onClick={() => onStopClick?.(stop)}
+            disabled={!onStopClick}
+            className="w-full flex items-center gap-3 p-2 rounded-xl text-left enabled:hover:bg-surface-hover"
+          >
+            <StopNumber number={i + 1} />
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-text-primary truncate">{stop.name}</p>
+              {stop.address && <p className="text-xs text-text-muted truncate">{stop.address}</p>}
+            </div>
+            {stop.planned_time && (
+              <span className="shrink-0 text-sm text-neon-cyan">{formatPlannedTime(stop.planned_time)}</span>
+            )}
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export function StopNumber({ number }: { number: number }) {
+  return (
+    <span className="w-6 h-6 shrink-0 rounded-full bg-neon-cyan text-background text-xs font-bold flex items-center justify-center">
+      {number}
+    </span>
+  );
+}
+
+// The walk between two stops; estimates are marked with "~"
+export function RouteLegRow({ leg }: { leg: RouteLeg | undefined }) {
+  return (
+    <div className="flex items-center gap-3 pl-5 py-1">
+      <span className="w-0.5 h-5 bg-neon-cyan/40 rounded-full" />
+      <span className="text-xs text-text-muted">
+        {leg
+          ? `🚶 ${leg.estimated ? "~" : ""}${formatWalkTime(leg.durationSeconds)} · ${formatDistance(leg.distanceMeters)}`
+          : "🚶 …"}
+      </span>
+    </div>
+  );
+}
+
+export function RouteSummary({ legs }: { legs: RouteLeg[] }) {
+  if (legs.length === 0) return null;
+  const { distanceMeters, durationSeconds } = routeTotals(legs);
+  const estimated = legs.some((leg) => leg.estimated);
+
+  return (
+    <p className="text-sm text-text-secondary">
+      {estimated ? "About " : ""}
+      {formatWalkTime(durationSeconds)} walking · {formatDistance(distanceMeters)}
+    </p>
+  );
+}
+
+// Legs between the stops and the line to draw: the estimate right away,
+// then the routing provider's walk once it answers. Only moving, adding or
+// removing a stop routes again.
+export function useWalkingRoute(stops: RoutePoint[]) {
+  const stopsKey = JSON.stringify(stops.map(({ lat, lng }) => ({ lat, lng })));
+  const [routed, setRouted] = useState<{ stopsKey: string; legs: RouteLeg[] } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    routeLegs(JSON.parse(stopsKey)).then((legs) => {
+      if (!cancelled) setRouted({ stopsKey, legs });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [stopsKey]);
+
+  const legs = useMemo(
+    () => (routed?.stopsKey === stopsKey ? routed.legs : estimateLegs(JSON.parse(stopsKey))),
+    [routed, stopsKey]
+  );
+  const route = useMemo<MapRoute | undefined>(() => {
+    const points: RoutePoint[] = JSON.parse(stopsKey);
+    if (points.length === 0) return undefined;
+    return { stops: points, path: legs.length > 0 ? routePath(legs) : [] };
+  }, [legs, stopsKey]);
+
+  return { legs, route };
+}
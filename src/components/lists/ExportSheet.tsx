@@ -0,0 +1,72 @@
+"use client";
+
+import { useState } from "react";
+import { Button, useToast } from "@/components/ui";
+import { loadListsForExport, useData } from "@/lib/data";
+import { downloadFile, EXPORT_FORMATS, exportFileName, exportLists, type ExportFormat } from "@/lib/export";
+import type { List } from "@/types";
+
+interface ExportSheetProps {
+  lists: List[];
+  // Names the file and the KML/GPX document
+  title: string;
+  onDone: () => void;
+}
+
+// Picks a format and downloads the lists with their pins and photos
+export function ExportSheet({ lists, title, onDone }: ExportSheetProps) {
+  const data = useData();
+  const { showToast } = useToast();
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    setError(null);
+
+    try {
+      const exported = await loadListsForExport(data, lists);
+      const { mimeType } = EXPORT_FORMATS.find((f) => f.format === format)!;
+      downloadFile(exportFileName(title, format), exportLists(format, exported, title), mimeType);
+
+      const count = exported.reduce((total, { pins }) => total + pins.length, 0);
+      showToast({ message: "Export ready", emoji: "📦", subtext: `${count} ${count === 1 ? "spot" : "spots"}` });
+      onDone();
+    } catch (err) {
+      console.error("Export error:", err);
+      setError("Couldn't export. Please try again.");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-text-secondary">
+        Notes, ratings, visited spots and photo links are included.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        {EXPORT_FORMATS.map(({ format, label, description }) => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            disabled={exporting !== null}
+            className="p-4 rounded-xl bg-surface text-left hover:bg-surface-hover transition-colors disabled:opacity-50"
+          >
+            <p className="font-semibold text-text-primary">
+              {exporting === format ? "Preparing…" : label}
+            </p>
+            <p className="text-xs text-text-muted mt-0.5">{description}</p>
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <Button variant="ghost" className="w-full" onClick={onDone}>
+        Cancel
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,357 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { MapView } from "@/components/map/MapView";
+import { Button, Input } from "@/components/ui";
+import { importPlaces, useData, type ImportResult } from "@/lib/data";
+import {
+  csvToPlaces,
+  findDuplicates,
+  guessCsvMapping,
+  IMPORT_FILE_TYPES,
+  readImportFile,
+  type CsvField,
+  type CsvMapping,
+  type CsvTable,
+  type ImportParseResult,
+  type ImportRowError,
+} from "@/lib/import";
+import type { List, Pin } from "@/types";
+
+const CSV_FIELDS: { field: CsvField; label: string; required?: boolean }[] = [
+  { field: "name", label: "Name" },
+  { field: "address", label: "Address" },
+  { field: "lat", label: "Latitude", required: true },
+  { field: "lng", label: "Longitude", required: true },
+  { field: "notes", label: "Notes" },
+  { field: "place_id", label: "Place ID" },
+];
+
+// Stand-in list so the preview markers have an icon and color
+const PREVIEW_LIST = { emoji_icon: "📥", color: "#2dd4bf" } as List;
+
+interface ImportPlacesSheetProps {
+  lists: List[];
+  onImported: (list: List, result: ImportResult) => void;
+  onCancel: () => void;
+}
+
+export function ImportPlacesSheet({ lists, onImported, onCancel }: ImportPlacesSheetProps) {
+  const data = useData();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [csv, setCsv] = useState<{ table: CsvTable; mapping: CsvMapping } | null>(null);
+  const [parsed, setParsed] = useState<ImportParseResult | null>(null);
+
+  const [targetListId, setTargetListId] = useState<string>(lists[0]?.id ?? "new");
+  const [newListName, setNewListName] = useState("");
+  const [targetPins, setTargetPins] = useState<Pin[]>([]);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<{ list: List; imported: ImportResult } | null>(null);
+
+  // CSV places depend on the column mapping, so they're derived rather than stored
+  const placesResult = useMemo(
+    () => (csv ? csvToPlaces(csv.table, csv.mapping) : parsed),
+    [csv, parsed]
+  );
+
+  useEffect(() => {
+    if (targetListId === "new") return;
+    let cancelled = false;
+    data.pins.listByList(targetListId).then((pins) => {
+      if (!cancelled) setTargetPins(pins);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [data, targetListId]);
+
+  const duplicates = useMemo(
+    () => findDuplicates(placesResult?.places ?? [], targetListId === "new" ? [] : targetPins),
+    [placesResult, targetListId, targetPins]
+  );
+
+  const toImport = useMemo(
+    () => (placesResult?.places ?? []).filter((p) => !skipDuplicates || !duplicates.has(p.row)),
+    [placesResult, skipDuplicates, duplicates]
+  );
+
+  const previewPins = useMemo(
+    () =>
+      (placesResult?.places ?? []).map(
+        (place) =>
+          ({
+            id: `import-${place.row}`,
+            list_id: "import",
+            name: place.name,
+            address: place.address ?? "",
+            lat: place.lat,
+            lng: place.lng,
+            list: PREVIEW_LIST,
+          }) as Pin
+      ),
+    [placesResult]
+  );
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setFileError(null);
+    setCsv(null);
+    setParsed(null);
+
+    try {
+      const read = await readImportFile(file);
+      if (read.format === "csv") {
+        setCsv({ table: read.table, mapping: guessCsvMapping(read.table.headers) });
+      } else {
+        setParsed(read.result);
+      }
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : "Couldn't read this file");
+    }
+  };
+
+  const handleImport = async () => {
+    const userId = await data.auth.getCurrentUserId();
+    if (!userId || toImport.length === 0) return;
+
+    let list = lists.find((l) => l.id === targetListId) ?? null;
+    if (!list) {
+      list = await data.lists.create({
+        user_id: userId,
+        name: newListName.trim() || fileName?.replace(/\.[^.]+$/, "") || "Imported places",
+        emoji_icon: "📥",
+        is_public: false,
+      });
+      if (!list) {
+        setFileError("Couldn't create the list. Please try again.");
+        return;
+      }
+    }
+
+    setProgress({ done: 0, total: toImport.length });
+    const imported = await importPlaces(data, toImport, {
+      listId: list.id,
+      userId,
+      onProgress: (done) => setProgress({ done, total: toImport.length }),
+    });
+    setResult({ list, imported });
+    onImported(list, imported);
+  };
+
+  // Done: summary and the rows that didn't make it
+  if (result) {
+    const failedRows: ImportRowError[] = [
+      ...(placesResult?.errors ?? []),
+      ...result.imported.failed.map((p) => ({ row: p.row, name: p.name, message: "Couldn't be saved" })),
+    ].sort((a, b) => a.row - b.row);
+
+    return (
+      <div className="space-y-4">
+        <div className="bg-surface rounded-[--radius-md] p-4 text-center">
+          <p className="text-2xl mb-1">🎉</p>
+          <p className="font-semibold text-text-primary">
+            Added {result.imported.imported} {result.imported.imported === 1 ? "spot" : "spots"} to {result.list.name}
+          </p>
+          {skipDuplicates && duplicates.size > 0 && (
+            <p className="text-sm text-text-secondary mt-1">
+              Skipped {duplicates.size} {duplicates.size === 1 ? "duplicate" : "duplicates"}
+            </p>
+          )}
+        </div>
+        <RowErrors errors={failedRows} />
+        <Button variant="primary" className="w-full" onClick={onCancel}>
+          Done
+        </Button>
+      </div>
+    );
+  }
+
+  // Importing: progress bar
+  if (progress) {
+    return (
+      <div className="space-y-3 py-4">
+        <p className="text-sm text-text-secondary text-center">
+          Importing {progress.done} of {progress.total}…
+        </p>
+        <div className="h-2 bg-surface rounded-full overflow-hidden">
+          <div
+            className="h-full bg-primary transition-all"
+            style={{ width: `${(progress.done / progress.total) * 100}%` }}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-5">
+      {/* File */}
+      <div>
+        <input
+          ref={fileInput}
+          type="file"
+          accept={IMPORT_FILE_TYPES}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = "";
+          }}
+        />
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="w-full p-4 rounded-[--radius-md] border-2 border-dashed border-border hover:border-primary/50 transition-colors text-center"
+        >
+          <p className="font-medium text-text-primary">{fileName ?? "Choose a file"}</p>
+          <p className="text-xs text-text-muted mt-1">
+            Google Takeout Saved Places (.json), KML/KMZ, GPX or CSV
+          </p>
+        </button>
+        {fileError && <p className="mt-1.5 text-sm text-red-400">{fileError}</p>}
+      </div>
+
+      {/* CSV column mapping */}
+      {csv && (
+        <div>
+          <label className="block text-sm text-text-secondary mb-2">Columns</label>
+          <div className="grid grid-cols-2 gap-2">
+            {CSV_FIELDS.map(({ field, label, required }) => (
+              <label key={field} className="text-xs text-text-muted">
+                {label}
+                {required && " *"}
+                <select
+                  value={csv.mapping[field] ?? ""}
+                  onChange={(e) =>
+                    setCsv({
+                      ...csv,
+                      mapping: { ...csv.mapping, [field]: e.target.value === "" ? null : Number(e.target.value) },
+                    })
+                  }
+                  className="mt-1 w-full bg-surface-elevated border border-border rounded-[--radius-sm] px-2 py-2 text-sm text-text-primary"
+                >
+                  <option value="">—</option>
+                  {csv.table.headers.map((header, index) => (
+                    <option key={index} value={index}>
+                      {header || `Column ${index + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {placesResult && (
+        <>
+          {/* Preview */}
+          {placesResult.places.length > 0 && (
+            <div className="h-48 rounded-[--radius-md] overflow-hidden">
+              <MapView
+                pins={previewPins}
+                center={[previewPins[0].lng, previewPins[0].lat]}
+                zoom={11}
+              />
+            </div>
+          )}
+          <p className="text-sm text-text-secondary">
+            Found {placesResult.places.length} {placesResult.places.length === 1 ? "place" : "places"}
+            {placesResult.errors.length > 0 && `, ${placesResult.errors.length} can't be imported`}
+          </p>
+          <RowErrors errors={placesResult.errors} />
+
+          {/* Target list */}
+          <div>
+            <label className="block text-sm text-text-secondary mb-2">Add to</label>
+            <div className="flex flex-wrap gap-2">
+              {lists.map((list) => (
+                <button
+                  key={list.id}
+                  onClick={() => setTargetListId(list.id)}
+                  className={`px-3 py-2 rounded-[--radius-md] text-sm flex items-center gap-2 transition-colors ${
+                    targetListId === list.id
+                      ? "bg-primary text-white"
+                      : "bg-surface-elevated text-text-primary border border-border"
+                  }`}
+                >
+                  <span>{list.emoji_icon}</span>
+                  <span className="truncate max-w-[120px]">{list.name}</span>
+                </button>
+              ))}
+              <button
+                onClick={() => setTargetListId("new")}
+                className={`px-3 py-2 rounded-[--radius-md] text-sm transition-colors ${
+                  targetListId === "new"
+                    ? "bg-primary text-white"
+                    : "bg-surface-elevated text-text-primary border border-border"
+                }`}
+              >
+                + New list
+              </button>
+            </div>
+            {targetListId === "new" && (
+              <div className="mt-3">
+                <Input
+                  value={newListName}
+                  onChange={(e) => setNewListName(e.target.value)}
+                  placeholder={fileName?.replace(/\.[^.]+$/, "") || "List name"}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Duplicates */}
+          {duplicates.size > 0 && (
+            <button
+              onClick={() => setSkipDuplicates(!skipDuplicates)}
+              className="flex items-center gap-3 w-full p-3 bg-surface rounded-[--radius-md] text-left"
+            >
+              <div
+                className={`w-5 h-5 rounded border-2 shrink-0 transition-colors ${
+                  skipDuplicates ? "bg-primary border-primary" : "border-border"
+                }`}
+              />
+              <span className="text-sm text-text-primary">
+                Skip {duplicates.size} {duplicates.size === 1 ? "place" : "places"} already in this list
+              </span>
+            </button>
+          )}
+        </>
+      )}
+
+      <div className="flex gap-3">
+        <Button variant="ghost" className="flex-1" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button variant="primary" className="flex-1" onClick={handleImport} disabled={toImport.length === 0}>
+          Import {toImport.length > 0 ? toImport.length : ""}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function RowErrors({ errors }: { errors: ImportRowError[] }) {
+  if (errors.length === 0) return null;
+
+  return (
+    <details className="bg-surface rounded-[--radius-md] p-3 text-sm">
+      <summary className="text-text-secondary cursor-pointer">
+        {errors.length} {errors.length === 1 ? "row" : "rows"} skipped
+      </summary>
+      <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+        {errors.map((error) => (
+          <li key={`${error.row}-${error.message}`} className="text-text-muted">
+            Row {error.row}
+            {error.name && ` · ${error.name}`} — {error.message}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
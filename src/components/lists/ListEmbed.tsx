@@ -0,0 +1,113 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { MapView } from "@/components/map";
+import type { EmbedBounds, EmbedTheme } from "@/lib/embed";
+import type { PublicList } from "@/lib/publicPages";
+import type { Pin } from "@/types";
+
+interface ListEmbedProps {
+  data: PublicList;
+  theme: EmbedTheme;
+  bounds: EmbedBounds | null;
+  showNotes: boolean;
+}
+
+// The map and a compact pin list, for /embed/list/<id>. Links open the
+// public page in a new tab rather than navigating inside the iframe.
+export function ListEmbed({ data, theme, bounds, showNotes }: ListEmbedProps) {
+  const { list, owner } = data;
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [center, setCenter] = useState<[number, number] | undefined>(() =>
+    bounds ? [(bounds[0][0] + bounds[1][0]) / 2, (bounds[0][1] + bounds[1][1]) / 2] : undefined
+  );
+
+  // MapView draws markers from the pin's list, which the public rows leave out
+  const pins = useMemo<Pin[]>(
+    () =>
+      data.pins.map((pin) => ({
+        ...pin,
+        list_id: list.id,
+        user_id: list.user_id,
+        place_id: null,
+        is_visited: false,
+        source_pin_id: null,
+        created_at: list.created_at,
+        list,
+      })),
+    [data.pins, list]
+  );
+
+  const selectPin = (pin: Pin) => {
+    setSelectedId(pin.id);
+    document.getElementById(`embed-pin-${pin.id}`)?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  };
+
+  const publicUrl = `/l/${list.id}`;
+
+  return (
+    <div className={`h-screen flex flex-col bg-background text-text-primary ${theme === "light" ? "theme-light" : ""}`}>
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border">
+        <span className="text-xl">{list.emoji_icon}</span>
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold truncate">{list.name}</p>
+          <p className="text-xs text-text-muted truncate">
+            @{owner.username} · {pins.length} {pins.length === 1 ? "spot" : "spots"}
+          </p>
+        </div>
+        <a
+          href={publicUrl}
+          target="_blank"
+          rel="noopener"
+          className="shrink-0 text-xs font-medium text-primary hover:text-primary-hover"
+        >
+          New Fork City ↗
+        </a>
+      </div>
+
+      <div className="relative flex-1 min-h-0">
+        <MapView
+          pins={pins}
+          center={center}
+          bounds={bounds ?? undefined}
+          theme={theme}
+          geolocate={false}
+          cooperativeGestures
+          onPinClick={selectPin}
+        />
+      </div>
+
+      {pins.length > 0 && (
+        <ul className="max-h-[40%] overflow-y-auto border-t border-border divide-y divide-border">
+          {pins.map((pin) => (
+            <li key={pin.id} id={`embed-pin-${pin.id}`}>
+              <button
+                onClick={() => {
+                  setSelectedId(pin.id);
+                  setCenter([pin.lng, pin.lat]);
+                }}
+                className={`w-full text-left px-3 py-2 transition-colors ${
+                  selectedId === pin.id ? "bg-surface-active" : "hover:bg-surface-hover"
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: list.color }} />
+                  <p className="flex-1 text-sm font-medium truncate">{pin.name}</p>
+                  {pin.personal_rating && (
+                    <span className="text-xs text-neon-orange">{"★".repeat(pin.personal_rating)}</span>
+                  )}
+                </div>
+                <p className="text-xs text-text-muted truncate">
+                  {[pin.category, pin.address].filter(Boolean).join(" · ")}
+                </p>
+                {showNotes && pin.personal_notes && (
+                  <p className="text-xs text-text-secondary mt-1 line-clamp-2">{pin.personal_notes}</p>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
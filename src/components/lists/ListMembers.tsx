@@ -0,0 +1,240 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Avatar, Button, Input, useToast } from "@/components/ui";
+import { useData } from "@/lib/data";
+import type { List, ListInvite, ListMember, ListRole, MemberRole, Profile } from "@/types";
+
+const ROLE_LABELS: Record<ListRole, string> = {
+  owner: "Owner",
+  editor: "Can edit",
+  viewer: "Can view",
+};
+
+interface ListMembersProps {
+  list: List;
+  owner: Profile | null;
+  currentUserId: string | null;
+  role: ListRole | null;
+  onMembersChange?: (members: ListMember[]) => void;
+  onLeave?: () => void;
+}
+
+export function ListMembers({ list, owner, currentUserId, role, onMembersChange, onLeave }: ListMembersProps) {
+  const data = useData();
+  const { showToast } = useToast();
+  const [members, setMembers] = useState<ListMember[]>([]);
+  const [invites, setInvites] = useState<ListInvite[]>([]);
+  const [username, setUsername] = useState("");
+  const [inviteRole, setInviteRole] = useState<MemberRole>("editor");
+  const [error, setError] = useState<string | null>(null);
+  const [isInviting, setIsInviting] = useState(false);
+  const isOwner = role === "owner";
+
+  const updateMembers = useCallback(
+    (next: ListMember[]) => {
+      setMembers(next);
+      onMembersChange?.(next);
+    },
+    [onMembersChange]
+  );
+
+  useEffect(() => {
+    const load = async () => {
+      updateMembers(await data.members.list(list.id));
+      if (isOwner) {
+        setInvites(await data.members.listInvites(list.id));
+      }
+    };
+    load();
+  }, [data, list.id, isOwner, updateMembers]);
+
+  const handleInvite = async () => {
+    const name = username.trim().replace(/^@/, "");
+    if (!name || !currentUserId) return;
+
+    setIsInviting(true);
+    setError(null);
+
+    const profile = await data.profiles.getByUsername(name);
+    if (!profile) {
+      setError(`No one goes by @${name}`);
+    } else if (profile.id === list.user_id || members.some((m) => m.user_id === profile.id)) {
+      setError(`@${name} already has access`);
+    } else if (await data.members.add(list.id, { userId: profile.id, role: inviteRole, invitedBy: currentUserId })) {
+      updateMembers(await data.members.list(list.id));
+      setUsername("");
+      showToast({ message: `Added @${name}`, emoji: "🤝" });
+    } else {
+      setError("Couldn't add them. Please try again.");
+    }
+
+    setIsInviting(false);
+  };
+
+  const handleRoleChange = async (member: ListMember, nextRole: MemberRole) => {
+    if (await data.members.updateRole(list.id, member.user_id, nextRole)) {
+      updateMembers(members.map((m) => (m.user_id === member.user_id ? { ...m, role: nextRole } : m)));
+    }
+  };
+
+  const handleRemove = async (member: ListMember) => {
+    if (await data.members.remove(list.id, member.user_id)) {
+      updateMembers(members.filter((m) => m.user_id !== member.user_id));
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!currentUserId || !confirm(`Leave "${list.name}"?`)) return;
+    if (await data.members.remove(list.id, currentUserId)) {
+      onLeave?.();
+    }
+  };
+
+  const handleCreateLink = async (linkRole: MemberRole) => {
+    if (!currentUserId) return;
+    const invite = await data.members.createInvite(list.id, linkRole, currentUserId);
+    if (invite) {
+      setInvites((prev) => [invite, ...prev]);
+      await copyLink(invite);
+    }
+  };
+
+  const handleRevokeLink = async (invite: ListInvite) => {
+    if (await data.members.revokeInvite(invite.id)) {
+      setInvites((prev) => prev.filter((i) => i.id !== invite.id));
+    }
+  };
+
+  const copyLink = async (invite: ListInvite) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/lists/join/${invite.token}`);
+    showToast({ message: "Invite link copied", emoji: "🔗", subtext: `Anyone with it ${ROLE_LABELS[invite.role].toLowerCase()}` });
+  };
+
+  return (
+    <div className="space-y-5">
+      {/* People */}
+      <div className="space-y-2">
+        {owner && <MemberRow profile={owner} label={ROLE_LABELS.owner} />}
+        {members.map((member) => (
+          <MemberRow
+            key={member.user_id}
+            profile={member.profile}
+            label={ROLE_LABELS[member.role]}
+            actions={
+              isOwner ? (
+                <>
+                  <select
+                    value={member.role}
+                    onChange={(e) => handleRoleChange(member, e.target.value as MemberRole)}
+                    className="bg-surface border border-border rounded-lg px-2 py-1 text-xs text-text-primary"
+                  >
+                    <option value="editor">{ROLE_LABELS.editor}</option>
+                    <option value="viewer">{ROLE_LABELS.viewer}</option>
+                  </select>
+                  <button
+                    onClick={() => handleRemove(member)}
+                    className="text-xs text-red-400 hover:text-red-300 px-2 py-1"
+                  >
+                    Remove
+                  </button>
+                </>
+              ) : null
+            }
+          />
+        ))}
+        {members.length === 0 && (
+          <p className="text-sm text-text-muted">
+            {isOwner ? "Invite people to add spots with you." : "No one else has been added yet."}
+          </p>
+        )}
+      </div>
+
+      {isOwner && (
+        <>
+          {/* Invite by username */}
+          <div className="space-y-2">
+            <Input
+              label="Invite by username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleInvite()}
+              placeholder="@username"
+              error={error ?? undefined}
+            />
+            <div className="flex gap-2">
+              {(["editor", "viewer"] as const).map((r) => (
+                <button
+                  key={r}
+                  onClick={() => setInviteRole(r)}
+                  className={`flex-1 py-2 rounded-xl text-sm transition-colors ${
+                    inviteRole === r
+                      ? "bg-neon-pink text-white"
+                      : "bg-surface-elevated text-text-secondary border border-border"
+                  }`}
+                >
+                  {ROLE_LABELS[r]}
+                </button>
+              ))}
+              <Button variant="primary" onClick={handleInvite} isLoading={isInviting} disabled={!username.trim()}>
+                Invite
+              </Button>
+            </div>
+          </div>
+
+          {/* Share links */}
+          <div className="space-y-2">
+            <label className="block text-sm text-text-secondary">Invite links</label>
+            {invites.map((invite) => (
+              <div key={invite.id} className="flex items-center gap-2 bg-surface rounded-xl p-3">
+                <span className="flex-1 text-sm text-text-primary">
+                  Link · {ROLE_LABELS[invite.role].toLowerCase()}
+                </span>
+                <button onClick={() => copyLink(invite)} className="text-xs text-neon-cyan px-2 py-1">
+                  Copy
+                </button>
+                <button onClick={() => handleRevokeLink(invite)} className="text-xs text-red-400 px-2 py-1">
+                  Revoke
+                </button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button variant="secondary" size="sm" onClick={() => handleCreateLink("editor")} className="flex-1">
+                New editor link
+              </Button>
+              <Button variant="secondary" size="sm" onClick={() => handleCreateLink("viewer")} className="flex-1">
+                New viewer link
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+
+      {!isOwner && role && (
+        <Button variant="ghost" onClick={handleLeave} className="w-full text-red-400">
+          Leave list
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function MemberRow({ profile, label, actions }: { profile?: Profile; label: string; actions?: React.ReactNode }) {
+  return (
+    <div className="flex items-center gap-3 p-2 rounded-xl">
+      <Avatar
+        src={profile?.avatar_url}
+        alt={profile?.display_name || profile?.username}
+        fallback={(profile?.display_name || profile?.username)?.[0]}
+        size="sm"
+      />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-text-primary truncate">
+          {profile?.display_name || `@${profile?.username ?? "unknown"}`}
+        </p>
+        <p className="text-xs text-text-muted">{label}</p>
+      </div>
+      {actions}
+    </div>
+  );
+}
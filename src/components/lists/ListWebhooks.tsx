@@ -0,0 +1,207 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button, Input, useToast } from "@/components/ui";
+import { useData } from "@/lib/data";
+import { WEBHOOK_EVENTS } from "@/lib/webhooks";
+import type { List, ListWebhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEvent } from "@/types";
+
+const DELIVERY_LOG_SIZE = 20;
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  delivered: "text-neon-green",
+  pending: "text-neon-orange",
+  failed: "text-red-400",
+};
+
+function formatTime(value: string) {
+  return new Date(value).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+function deliveryDetail(delivery: WebhookDelivery) {
+  const outcome = delivery.response_status ? `HTTP ${delivery.response_status}` : delivery.last_error;
+  if (delivery.status === "pending") {
+    return delivery.attempts === 0 ? "Queued" : `${outcome} · retrying ${formatTime(delivery.next_attempt_at)}`;
+  }
+  const attempts = delivery.attempts === 1 ? "1 attempt" : `${delivery.attempts} attempts`;
+  return [delivery.status === "failed" ? outcome : null, attempts].filter(Boolean).join(" · ");
+}
+
+// Webhooks on a list and their recent deliveries. Owner only.
+export function ListWebhooks({ list }: { list: List }) {
+  const data = useData();
+  const { showToast } = useToast();
+  const [webhooks, setWebhooks] = useState<ListWebhook[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(["pin.added"]);
+  const [error, setError] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const loadDeliveries = useCallback(
+    async (hooks: ListWebhook[]) => {
+      setDeliveries(await data.webhooks.listDeliveries(hooks.map((w) => w.id), DELIVERY_LOG_SIZE));
+    },
+    [data]
+  );
+
+  useEffect(() => {
+    const load = async () => {
+      const hooks = await data.webhooks.list(list.id);
+      setWebhooks(hooks);
+      await loadDeliveries(hooks);
+    };
+    load();
+  }, [data, list.id, loadDeliveries]);
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents((prev) => (prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]));
+  };
+
+  const handleAdd = async () => {
+    const trimmed = url.trim();
+    if (!/^https?:\/\/\S+$/.test(trimmed)) {
+      setError("Enter a URL starting with https://");
+      return;
+    }
+    if (events.length === 0) {
+      setError("Pick at least one event");
+      return;
+    }
+
+    setIsAdding(true);
+    setError(null);
+
+    const userId = await data.auth.getCurrentUserId();
+    const webhook = userId ? await data.webhooks.create(list.id, { url: trimmed, events }, userId) : null;
+    if (webhook) {
+      setWebhooks((prev) => [...prev, webhook]);
+      setUrl("");
+      showToast({ message: "Webhook added", emoji: "🪝" });
+    } else {
+      setError("Couldn't add the webhook. Please try again.");
+    }
+
+    setIsAdding(false);
+  };
+
+  const handleToggleActive = async (webhook: ListWebhook) => {
+    if (await data.webhooks.update(webhook.id, { is_active: !webhook.is_active })) {
+      setWebhooks((prev) => prev.map((w) => (w.id === webhook.id ? { ...w, is_active: !w.is_active } : w)));
+    }
+  };
+
+  const handleRemove = async (webhook: ListWebhook) => {
+    if (!confirm(`Stop sending events to ${webhook.url}?`)) return;
+    if (await data.webhooks.remove(webhook.id)) {
+      const remaining = webhooks.filter((w) => w.id !== webhook.id);
+      setWebhooks(remaining);
+      await loadDeliveries(remaining);
+    }
+  };
+
+  const handleTest = async (webhook: ListWebhook) => {
+    if (await data.webhooks.sendTest(webhook.id)) {
+      showToast({ message: "Test ping queued", emoji: "📡", subtext: "It'll show up below once sent" });
+      await loadDeliveries(webhooks);
+    }
+  };
+
+  const copySecret = async (webhook: ListWebhook) => {
+    await navigator.clipboard.writeText(webhook.secret);
+    showToast({ message: "Signing secret copied", emoji: "🔑" });
+  };
+
+  const urlFor = (delivery: WebhookDelivery) => webhooks.find((w) => w.id === delivery.webhook_id)?.url;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-text-muted">
+        Send a signed POST to your own server when something happens on this list. Failed deliveries are retried for about an hour.
+      </p>
+
+      {webhooks.map((webhook) => (
+        <div key={webhook.id} className="bg-surface-elevated border border-border rounded-xl p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <p className={`flex-1 text-sm truncate ${webhook.is_active ? "text-text-primary" : "text-text-muted line-through"}`}>
+              {webhook.url}
+            </p>
+            <button onClick={() => handleToggleActive(webhook)} className="text-xs text-text-secondary px-2 py-1">
+              {webhook.is_active ? "Pause" : "Resume"}
+            </button>
+            <button onClick={() => handleRemove(webhook)} className="text-xs text-red-400 hover:text-red-300 px-2 py-1">
+              Remove
+            </button>
+          </div>
+          <p className="text-xs text-text-muted">
+            {WEBHOOK_EVENTS.filter(({ event }) => webhook.events.includes(event))
+              .map(({ label }) => label)
+              .join(" · ")}
+          </p>
+          <div className="flex gap-3">
+            <button onClick={() => copySecret(webhook)} className="text-xs text-neon-cyan">
+              Copy signing secret
+            </button>
+            <button onClick={() => handleTest(webhook)} className="text-xs text-neon-cyan">
+              Send test
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {/* Add */}
+      <div className="space-y-2">
+        <Input
+          label="Add a webhook"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://example.com/hooks/new-fork-city"
+          error={error ?? undefined}
+        />
+        <div className="flex flex-wrap gap-2">
+          {WEBHOOK_EVENTS.map(({ event, label }) => (
+            <button
+              key={event}
+              onClick={() => toggleEvent(event)}
+              className={`px-3 py-1.5 rounded-full text-xs transition-colors ${
+                events.includes(event)
+                  ? "bg-neon-pink/20 text-neon-pink border border-neon-pink"
+                  : "bg-surface-elevated text-text-secondary border border-border"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <Button variant="secondary" className="w-full" onClick={handleAdd} isLoading={isAdding} disabled={!url.trim()}>
+          Add webhook
+        </Button>
+      </div>
+
+      {/* Delivery log */}
+      {webhooks.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-sm text-text-secondary">Recent deliveries</label>
+            <button onClick={() => loadDeliveries(webhooks)} className="text-xs text-neon-cyan">
+              Refresh
+            </button>
+          </div>
+          {deliveries.length === 0 && <p className="text-sm text-text-muted">Nothing sent yet.</p>}
+          {deliveries.map((delivery) => (
+            <div key={delivery.id} className="bg-surface rounded-xl px-3 py-2">
+              <div className="flex items-center gap-2 text-sm">
+                <span className="flex-1 text-text-primary font-mono text-xs">{delivery.event}</span>
+                <span className={`text-xs ${STATUS_STYLES[delivery.status]}`}>{delivery.status}</span>
+              </div>
+              <p className="text-xs text-text-muted truncate">
+                {formatTime(delivery.created_at)} · {deliveryDetail(delivery)}
+                {webhooks.length > 1 && ` · ${urlFor(delivery)}`}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui";
+import { pullUpstreamChanges, useData, type UpstreamChanges as Changes } from "@/lib/data";
+import type { List, Pin } from "@/types";
+
+interface UpstreamChangesProps {
+  fork: List;
+  changes: Changes;
+  onPulled: () => void;
+  onCancel: () => void;
+}
+
+// Lists what changed in a fork's source list and pulls the ticked changes
+export function UpstreamChanges({ fork, changes, onPulled, onCancel }: UpstreamChangesProps) {
+  const data = useData();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(
+    () => new Set([...changes.added, ...changes.removed].map((p) => p.id))
+  );
+  const [isPulling, setIsPulling] = useState(false);
+
+  const toggle = (pinId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(pinId)) {
+        next.delete(pinId);
+      } else {
+        next.add(pinId);
+      }
+      return next;
+    });
+  };
+
+  const handlePull = async () => {
+    const userId = await data.auth.getCurrentUserId();
+    if (!userId) return;
+
+    setIsPulling(true);
+    const pulled = await pullUpstreamChanges(
+      data,
+      fork,
+      {
+        added: changes.added.filter((p) => selectedIds.has(p.id)),
+        removed: changes.removed.filter((p) => selectedIds.has(p.id)),
+      },
+      userId
+    );
+    setIsPulling(false);
+
+    if (pulled) {
+      onPulled();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {changes.added.length > 0 && (
+        <ChangeGroup
+          title={`Added to ${changes.upstream.name}`}
+          sign="+"
+          pins={changes.added}
+          selectedIds={selectedIds}
+          onToggle={toggle}
+        />
+      )}
+      {changes.removed.length > 0 && (
+        <ChangeGroup
+          title={`Removed from ${changes.upstream.name}`}
+          sign="−"
+          pins={changes.removed}
+          selectedIds={selectedIds}
+          onToggle={toggle}
+        />
+      )}
+
+      <div className="flex gap-3">
+        <Button variant="ghost" className="flex-1" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          className="flex-1"
+          onClick={handlePull}
+          isLoading={isPulling}
+          disabled={selectedIds.size === 0}
+        >
+          Pull {selectedIds.size} {selectedIds.size === 1 ? "change" : "changes"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ChangeGroup({
+  title,
+  sign,
+  pins,
+  selectedIds,
+  onToggle,
+}: {
+  title: string;
+  sign: "+" | "−";
+  pins: Pin[];
+  selectedIds: Set<string>;
+  onToggle: (pinId: string) => void;
+}) {
+  return (
+    <div>
+      <label className="block text-sm text-text-secondary mb-1.5">{title}</label>
+      <div className="space-y-2">
+        {pins.map((pin) => (
+          <button
+            key={pin.id}
+            onClick={() => onToggle(pin.id)}
+            className={`w-full flex items-center gap-3 p-3 rounded-xl text-left transition-colors ${
+              selectedIds.has(pin.id) ? "bg-surface-elevated ring-1 ring-neon-pink" : "bg-surface"
+            }`}
+          >
+            <span className={`text-lg font-semibold ${sign === "+" ? "text-neon-green" : "text-red-400"}`}>
+              {sign}
+            </span>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-text-primary truncate">{pin.name}</p>
+              <p className="text-xs text-text-muted truncate">{pin.address}</p>
+            </div>
+            <div
+              className={`w-5 h-5 rounded border-2 shrink-0 transition-colors ${
+                selectedIds.has(pin.id) ? "bg-neon-pink border-neon-pink" : "border-border"
+              }`}
+            />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
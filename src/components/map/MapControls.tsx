@@ -2,12 +2,15 @@
 
 import { motion } from "framer-motion";
 
+export type MapMode = "pins" | "trending" | "for_you";
+
 interface MapControlsProps {
-  mode: "pins" | "trending";
-  onModeChange: (mode: "pins" | "trending") => void;
+  mode: MapMode;
+  onModeChange: (mode: MapMode) => void;
   onLayersClick: () => void;
   pinCount?: number;
   trendingCount?: number;
+  forYouCount?: number;
 }
 
 export function MapControls({
@@ -16,6 +19,7 @@ export function MapControls({
   onLayersClick,
   pinCount,
   trendingCount,
+  forYouCount,
 }: MapControlsProps) {
   return (
     <div className="absolute top-4 left-4 z-10 flex gap-2">
@@ -63,6 +67,27 @@ export function MapControls({
             )}
           </span>
         </button>
+        <button
+          onClick={() => onModeChange("for_you")}
+          className={`relative px-4 py-2 text-sm font-medium rounded-[--radius-sm] transition-colors ${
+            mode === "for_you" ? "text-white" : "text-text-muted hover:text-text-primary"
+          }`}
+        >
+          {mode === "for_you" && (
+            <motion.div
+              layoutId="mode-indicator"
+              className="absolute inset-0 bg-gradient-to-r from-neon-purple to-neon-pink rounded-[--radius-sm]"
+              transition={{ type: "spring", stiffness: 400, damping: 30 }}
+            />
+          )}
+          <span className="relative z-10 flex items-center gap-1.5">
+            <SparkleIcon />
+            For you
+            {forYouCount !== undefined && mode === "for_you" && (
+              <span className="text-xs opacity-70">({forYouCount})</span>
+            )}
+          </span>
+        </button>
       </div>
 
       {/* Layers Button */}
@@ -96,6 +121,15 @@ function TrendingIcon() {
   );
 }
 
+function SparkleIcon() {
+  return (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M12 3l1.9 5.1L19 10l-5.1 1.9L12 17l-1.9-5.1L5 10l5.1-1.9L12 3z" />
+      <path d="M19 17v4M17 19h4" />
+    </svg>
+  );
+}
+
 function LayersIcon() {
   return (
     <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -3,7 +3,7 @@
 import { useEffect, useRef, useState, useCallback } from "react";
 import mapboxgl from "mapbox-gl";
 import "mapbox-gl/dist/mapbox-gl.css";
-import type { Pin, PinFeatureCollection } from "@/types";
+import type { MapRoute, MapViewport, Pin, PinFeatureCollection } from "@/types";
 
 // Set access token
 const token = process.env.NEXT_PUBLIC_MAPBOX_TOKEN;
@@ -21,11 +21,48 @@ interface MapViewProps {
   showHeatmap?: boolean;
   pinListCounts?: Map<string, number>;
   showTrending?: boolean;
+  onViewportChange?: (viewport: MapViewport) => void;
+  theme?: MapTheme;
+  // Initial [[west, south], [east, north]]; takes precedence over center and zoom
+  bounds?: [[number, number], [number, number]];
+  // Locate the user once the map loads, when interactive
+  geolocate?: boolean;
+  // Require ctrl/⌘ to scroll-zoom and two fingers to pan, for maps inside other pages
+  cooperativeGestures?: boolean;
+  // An itinerary to draw as a line with numbered stops
+  route?: MapRoute;
 }
 
+export type MapTheme = "dark" | "light";
+
+const MAP_STYLES: Record<MapTheme, string> = {
+  dark: "mapbox://styles/mapbox/dark-v11",
+  light: "mapbox://styles/mapbox/light-v11",
+};
+
 // NYC center coordinates
 const NYC_CENTER: [number, number] = [-73.985428, 40.748817];
 const DEFAULT_ZOOM = 12;
+const ROUTE_COLOR = "#00f0ff";
+
+function routeToGeoJSON(route: MapRoute | undefined): GeoJSON.FeatureCollection {
+  if (!route) return { type: "FeatureCollection", features: [] };
+  return {
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        geometry: { type: "LineString", coordinates: route.path },
+        properties: {},
+      },
+      ...route.stops.map((stop, i) => ({
+        type: "Feature" as const,
+        geometry: { type: "Point" as const, coordinates: [stop.lng, stop.lat] },
+        properties: { number: i + 1 },
+      })),
+    ],
+  };
+}
 
 // Create emoji marker element
 function createEmojiMarker(emoji: string, color: string, onClick: () => void, listCount?: number, isTrending?: boolean): HTMLElement {
@@ -54,18 +91,25 @@ export function MapView({
   showHeatmap = false,
   pinListCounts,
   showTrending = false,
+  onViewportChange,
+  theme = "dark",
+  bounds,
+  geolocate = true,
+  cooperativeGestures = false,
+  route,
 }: MapViewProps) {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
   const markersRef = useRef<Map<string, mapboxgl.Marker>>(new Map());
   // Track previous marker state to avoid unnecessary recreations
-  const markerStateRef = useRef<Map<string, { listCount: number | undefined; showTrending: boolean }>>(new Map());
+  const markerStateRef = useRef<Map<string, { emoji: string; color: string; listCount: number | undefined; showTrending: boolean }>>(new Map());
   const [isLoaded, setIsLoaded] = useState(false);
 
   // Use refs to avoid stale closures in event handlers
   const pinsRef = useRef(pins);
   const onPinClickRef = useRef(onPinClick);
   const onMapClickRef = useRef(onMapClick);
+  const onViewportChangeRef = useRef(onViewportChange);
 
   // Keep refs updated
   useEffect(() => {
@@ -80,6 +124,10 @@ export function MapView({
     onMapClickRef.current = onMapClick;
   }, [onMapClick]);
 
+  useEffect(() => {
+    onViewportChangeRef.current = onViewportChange;
+  }, [onViewportChange]);
+
   // Convert pins to GeoJSON
   const pinsToGeoJSON = useCallback((pins: Pin[]): PinFeatureCollection => {
     return {
@@ -110,15 +158,30 @@ export function MapView({
     if (map.current || !mapContainer.current) return;
     map.current = new mapboxgl.Map({
       container: mapContainer.current,
-      style: "mapbox://styles/mapbox/dark-v11",
+      style: MAP_STYLES[theme],
       center: center,
       zoom: zoom,
+      ...(bounds && { bounds, fitBoundsOptions: { padding: 48, maxZoom: 15 } }),
+      cooperativeGestures,
       pitch: 0,
       bearing: 0,
       interactive: interactive,
       attributionControl: false,
     });
 
+    const reportViewport = () => {
+      if (!map.current || !onViewportChangeRef.current) return;
+      const bounds = map.current.getBounds();
+      if (!bounds) return;
+      onViewportChangeRef.current({
+        west: bounds.getWest(),
+        south: bounds.getSouth(),
+        east: bounds.getEast(),
+        north: bounds.getNorth(),
+        zoom: map.current.getZoom(),
+      });
+    };
+
     map.current.on("error", (e) => {
       console.error("Mapbox error:", e);
     });
@@ -127,15 +190,17 @@ export function MapView({
       if (!map.current) return;
 
       // Add custom styling for the dark neon theme (may fail silently on some styles)
-      try {
-        map.current.setPaintProperty("water", "fill-color", "#0a0a1a");
-      } catch {
-        // Layer may not exist
-      }
-      try {
-        map.current.setPaintProperty("land", "background-color", "#0f0f1a");
-      } catch {
-        // Layer may not exist
+      if (theme === "dark") {
+        try {
+          map.current.setPaintProperty("water", "fill-color", "#0a0a1a");
+        } catch {
+          // Layer may not exist
+        }
+        try {
+          map.current.setPaintProperty("land", "background-color", "#0f0f1a");
+        } catch {
+          // Layer may not exist
+        }
       }
 
       // Add attribution in bottom-left
@@ -160,9 +225,11 @@ export function MapView({
         map.current.addControl(geolocateControl, "bottom-right");
 
         // Auto-trigger geolocation after map loads to show user's location
-        setTimeout(() => {
-          geolocateControl.trigger();
-        }, 500);
+        if (geolocate) {
+          setTimeout(() => {
+            geolocateControl.trigger();
+          }, 500);
+        }
       }
 
       // Add pins source
@@ -275,9 +342,59 @@ export function MapView({
       // Initially hide heatmap
       map.current.setLayoutProperty("heatmap-layer", "visibility", "none");
 
+      // Itinerary route with numbered stops, drawn above the clusters
+      map.current.addSource("route", {
+        type: "geojson",
+        data: routeToGeoJSON(undefined),
+      });
+      map.current.addLayer({
+        id: "route-line",
+        type: "line",
+        source: "route",
+        filter: ["==", ["geometry-type"], "LineString"],
+        layout: { "line-join": "round", "line-cap": "round" },
+        paint: {
+          "line-color": ROUTE_COLOR,
+          "line-width": 4,
+          "line-opacity": 0.85,
+          "line-dasharray": [1, 1.5],
+        },
+      });
+      map.current.addLayer({
+        id: "route-stops",
+        type: "circle",
+        source: "route",
+        filter: ["==", ["geometry-type"], "Point"],
+        paint: {
+          "circle-color": ROUTE_COLOR,
+          "circle-radius": 9,
+          "circle-stroke-width": 2,
+          "circle-stroke-color": "#0a0a1a",
+        },
+      });
+      map.current.addLayer({
+        id: "route-stop-numbers",
+        type: "symbol",
+        source: "route",
+        filter: ["==", ["geometry-type"], "Point"],
+        layout: {
+          "text-field": ["to-string", ["get", "number"]],
+          "text-font": ["DIN Offc Pro Medium", "Arial Unicode MS Bold"],
+          "text-size": 11,
+          "text-allow-overlap": true,
+        },
+        paint: {
+          "text-color": "#0a0a1a",
+        },
+      });
+
       setIsLoaded(true);
+      reportViewport();
     });
 
+    // moveend covers pans, zooms and flyTo, and fires once per gesture
+    map.current.on("moveend", reportViewport);
+
     // Handle cluster click - zoom in
     map.current.on("click", "clusters", (e) => {
       if (!map.current) return;
@@ -382,6 +499,8 @@ export function MapView({
       // Check if marker state actually changed
       const prevState = markerStates.get(pin.id);
       const stateChanged = !prevState || 
+        prevState.emoji !== emoji ||
+        prevState.color !== color ||
         prevState.listCount !== listCount || 
         prevState.showTrending !== showTrending;
 
@@ -403,7 +522,7 @@ export function MapView({
             ${showTrending ? '<span class="emoji-marker-fire">🔥</span>' : ''}
           `;
           
-          markerStates.set(pin.id, { listCount, showTrending });
+          markerStates.set(pin.id, { emoji, color, listCount, showTrending });
         }
       } else {
         // Create new marker
@@ -420,7 +539,7 @@ export function MapView({
           .addTo(map.current!);
 
         currentMarkers.set(pin.id, marker);
-        markerStates.set(pin.id, { listCount, showTrending });
+        markerStates.set(pin.id, { emoji, color, listCount, showTrending });
       }
     });
   }, [pins, isLoaded, pinListCounts, showTrending]);
@@ -464,6 +583,27 @@ export function MapView({
     }
   }, [pins, isLoaded, pinsToGeoJSON]);
 
+  // Redraw the itinerary route
+  useEffect(() => {
+    if (!map.current || !isLoaded) return;
+
+    const source = map.current.getSource("route") as mapboxgl.GeoJSONSource;
+    if (source) {
+      source.setData(routeToGeoJSON(route));
+    }
+  }, [route, isLoaded]);
+
+  // Pin markers are HTML on top of the canvas, so when there are pins the
+  // stop numbers sit just above them rather than underneath
+  const hasPins = pins.length > 0;
+  useEffect(() => {
+    if (!map.current || !isLoaded) return;
+
+    const offset: [number, number] = hasPins ? [0, -22] : [0, 0];
+    map.current.setPaintProperty("route-stops", "circle-translate", offset);
+    map.current.setPaintProperty("route-stop-numbers", "text-translate", offset);
+  }, [hasPins, isLoaded]);
+
   // Check for token
   if (!token) {
     return (
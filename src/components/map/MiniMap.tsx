@@ -0,0 +1,29 @@
+import { projectPins } from "@/lib/miniMap";
+
+interface MiniMapProps {
+  pins: { lat: number; lng: number }[];
+  color: string;
+  className?: string;
+}
+
+const WIDTH = 400;
+const HEIGHT = 220;
+
+// A static dot map with no tiles, for pages that can't load Mapbox, like
+// shared pages opened without an account
+export function MiniMap({ pins, color, className = "" }: MiniMapProps) {
+  const points = projectPins(pins, { width: WIDTH, height: HEIGHT, padding: 24 });
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className={`w-full rounded-[--radius-lg] bg-surface border border-border ${className}`}
+      role="img"
+      aria-label={`Map of ${pins.length} ${pins.length === 1 ? "spot" : "spots"}`}
+    >
+      {points.map((point, index) => (
+        <circle key={index} cx={point.x} cy={point.y} r={6} fill={color} stroke="var(--background)" strokeWidth={2} />
+      ))}
+    </svg>
+  );
+}
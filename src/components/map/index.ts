@@ -1 +1,2 @@
 export { MapView } from "./MapView";
+export { MiniMap } from "./MiniMap";
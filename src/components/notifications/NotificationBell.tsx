@@ -0,0 +1,49 @@
+"use client";
+
+import Link from "next/link";
+import { useUnreadNotifications } from "./NotificationsProvider";
+
+// "9+" past nine, so the badge stays round
+export function UnreadBadge({ count, className = "" }: { count: number; className?: string }) {
+  if (count === 0) return null;
+  return (
+    <span
+      className={`absolute min-w-4 h-4 px-1 rounded-full bg-neon-pink text-white text-[10px] font-semibold leading-4 text-center ${className}`}
+    >
+      {count > 9 ? "9+" : count}
+    </span>
+  );
+}
+
+export function NotificationBell() {
+  const { count } = useUnreadNotifications();
+
+  return (
+    <Link
+      href="/notifications"
+      aria-label={count ? `Notifications, ${count} unread` : "Notifications"}
+      className="relative w-10 h-10 rounded-[--radius-md] bg-surface-elevated flex items-center justify-center text-text-secondary hover:bg-surface-hover transition-colors"
+    >
+      <BellIcon size={20} />
+      <UnreadBadge count={count} className="-top-1 -right-1" />
+    </Link>
+  );
+}
+
+export function BellIcon({ size = 24, filled = false }: { size?: number; filled?: boolean }) {
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox="0 0 24 24"
+      fill={filled ? "currentColor" : "none"}
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M6 8a6 6 0 0 1 12 0c0 7 3 9 3 9H3s3-2 3-9" />
+      <path d="M10.3 21a1.94 1.94 0 0 0 3.4 0" />
+    </svg>
+  );
+}
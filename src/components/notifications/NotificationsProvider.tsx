@@ -0,0 +1,46 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { useData } from "@/lib/data";
+
+const POLL_INTERVAL_MS = 60_000;
+
+interface UnreadNotifications {
+  count: number;
+  // Call after marking notifications read so the badges catch up
+  refresh: () => Promise<void>;
+}
+
+// Without a provider there's nothing to show, e.g. outside the main layout
+const NotificationsContext = createContext<UnreadNotifications>({ count: 0, refresh: async () => {} });
+
+// Keeps the unread count for the bell and the nav badge, checking again
+// every minute and whenever the tab comes back into focus.
+export function NotificationsProvider({ children }: { children: React.ReactNode }) {
+  const data = useData();
+  const [count, setCount] = useState(0);
+
+  const fetchCount = useCallback(async () => {
+    const userId = await data.auth.getCurrentUserId();
+    return userId ? data.notifications.countUnread(userId) : 0;
+  }, [data]);
+
+  const refresh = useCallback(async () => setCount(await fetchCount()), [fetchCount]);
+
+  useEffect(() => {
+    const load = async () => setCount(await fetchCount());
+    load();
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+    window.addEventListener("focus", refresh);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("focus", refresh);
+    };
+  }, [fetchCount, refresh]);
+
+  return <NotificationsContext.Provider value={{ count, refresh }}>{children}</NotificationsContext.Provider>;
+}
+
+export function useUnreadNotifications() {
+  return useContext(NotificationsContext);
+}
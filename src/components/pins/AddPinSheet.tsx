@@ -4,7 +4,9 @@ import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
 import { Button, Input, Badge, useToast, getRandomToast } from "@/components/ui";
 import { fireConfetti } from "@/components/effects";
-import { createClient } from "@/lib/supabase/client";
+import { PhotoPicker } from "@/components/pins/PhotoPicker";
+import { useData } from "@/lib/data";
+import { releasePendingPhoto, uploadPinPhotos, type PendingPhoto } from "@/lib/photos";
 import type { Pin, List } from "@/types";
 
 interface AddPinSheetProps {
@@ -26,9 +28,12 @@ export function AddPinSheet({
   const [isVisited, setIsVisited] = useState(false);
   const [rating, setRating] = useState<number | null>(null);
   const [notes, setNotes] = useState("");
+  const [photos, setPhotos] = useState<PendingPhoto[]>([]);
+  const [uploadStatus, setUploadStatus] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isReverseGeocoding, setIsReverseGeocoding] = useState(true);
   const { showToast } = useToast();
+  const data = useData();
 
   // Reverse geocode the location
   useEffect(() => {
@@ -60,41 +65,55 @@ export function AddPinSheet({
 
     setIsLoading(true);
 
-    const supabase = createClient();
-    const { data: { user } } = await supabase.auth.getUser();
+    const userId = await data.auth.getCurrentUserId();
 
-    if (!user) {
+    if (!userId) {
       setIsLoading(false);
       return;
     }
 
-    const { data, error } = await supabase
-      .from("pins")
-      .insert({
-        user_id: user.id,
-        list_id: selectedListId,
-        name: name.trim(),
-        address: address.trim(),
-        lat: location.lat,
-        lng: location.lng,
-        is_visited: isVisited,
-        personal_rating: rating,
-        personal_notes: notes.trim() || null,
-      })
-      .select(`*, list:lists(id, name, emoji_icon, color, is_public)`)
-      .single();
-
-    if (error) {
-      console.error("Error creating pin:", error);
+    const pin = await data.pins.create({
+      user_id: userId,
+      list_id: selectedListId,
+      name: name.trim(),
+      address: address.trim(),
+      lat: location.lat,
+      lng: location.lng,
+      is_visited: isVisited,
+      personal_rating: rating,
+      personal_notes: notes.trim() || null,
+    });
+
+    if (!pin) {
       showToast(getRandomToast("error"));
       setIsLoading(false);
       return;
     }
 
+    if (photos.length > 0) {
+      const { photos: uploaded, failed } = await uploadPinPhotos(
+        userId,
+        pin.id,
+        photos.map((p) => p.file),
+        (done, total) => setUploadStatus(`Uploading photos ${done}/${total}...`)
+      );
+      photos.forEach(releasePendingPhoto);
+      pin.photos = uploaded;
+
+      if (failed > 0) {
+        showToast({
+          message: "Some photos didn't make it",
+          emoji: "📷",
+          subtext: `${failed} photo${failed === 1 ? "" : "s"} failed to upload`,
+          type: "warning",
+        });
+      }
+    }
+
     // Celebrate the save!
     fireConfetti("save");
     showToast(getRandomToast("save"));
-    onSuccess(data as Pin);
+    onSuccess(pin);
   };
 
   if (isReverseGeocoding) {
@@ -217,6 +236,13 @@ export function AddPinSheet({
         />
       </div>
 
+      {/* Photos */}
+      <PhotoPicker photos={photos} onChange={setPhotos} disabled={isLoading} />
+
+      {uploadStatus && isLoading && (
+        <p className="text-sm text-text-muted text-center">{uploadStatus}</p>
+      )}
+
       {/* Actions */}
       <div className="flex gap-3 pt-2">
         <Button variant="ghost" className="flex-1" onClick={onCancel}>
@@ -1,9 +1,18 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui";
-import { createClient } from "@/lib/supabase/client";
-import type { Pin, List } from "@/types";
+import { PhotoPicker } from "@/components/pins/PhotoPicker";
+import { useData } from "@/lib/data";
+import {
+  deletePinPhoto,
+  fetchPinPhotos,
+  releasePendingPhoto,
+  removePinPhotoFiles,
+  uploadPinPhotos,
+  type PendingPhoto,
+} from "@/lib/photos";
+import type { Pin, PinPhoto, List } from "@/types";
 
 interface EditPinFormProps {
   pin: Pin;
@@ -23,61 +32,76 @@ export function EditPinForm({
   const [name, setName] = useState(pin.name);
   const [address, setAddress] = useState(pin.address);
   const [selectedListId, setSelectedListId] = useState(pin.list_id);
-  const [isVisited, setIsVisited] = useState(pin.is_visited);
-  const [rating, setRating] = useState<number | null>(pin.personal_rating);
   const [notes, setNotes] = useState(pin.personal_notes || "");
   const [isLoading, setIsLoading] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [existingPhotos, setExistingPhotos] = useState<PinPhoto[]>(pin.photos || []);
+  const [removedPhotos, setRemovedPhotos] = useState<PinPhoto[]>([]);
+  const [newPhotos, setNewPhotos] = useState<PendingPhoto[]>([]);
+  const [uploadStatus, setUploadStatus] = useState<string | null>(null);
+  const data = useData();
+
+  // Pins loaded without their photos joined need a separate fetch
+  useEffect(() => {
+    if (pin.photos) return;
+    fetchPinPhotos([pin.id]).then(setExistingPhotos);
+  }, [pin.id, pin.photos]);
+
+  const handleRemoveExisting = (photo: PinPhoto) => {
+    setExistingPhotos((prev) => prev.filter((p) => p.id !== photo.id));
+    setRemovedPhotos((prev) => [...prev, photo]);
+  };
 
   const handleSubmit = async () => {
     if (!name.trim() || !selectedListId) return;
 
     setIsLoading(true);
 
-    const supabase = createClient();
-
-    const { data, error } = await supabase
-      .from("pins")
-      .update({
-        name: name.trim(),
-        address: address.trim(),
-        list_id: selectedListId,
-        is_visited: isVisited,
-        personal_rating: isVisited ? rating : null,
-        personal_notes: notes.trim() || null,
-      })
-      .eq("id", pin.id)
-      .select(
-        `
-        *,
-        list:lists(id, name, emoji_icon, color, is_public)
-      `
-      )
-      .single();
+    const updated = await data.pins.update(pin.id, {
+      name: name.trim(),
+      address: address.trim(),
+      list_id: selectedListId,
+      personal_notes: notes.trim() || null,
+    });
 
-    if (error) {
-      console.error("Error updating pin:", error);
+    if (!updated) {
       setIsLoading(false);
       return;
     }
 
-    onSuccess(data as Pin);
+    let photos = existingPhotos;
+
+    if (removedPhotos.length > 0) {
+      const results = await Promise.all(removedPhotos.map(deletePinPhoto));
+      // Keep anything that failed to delete so the pin still shows it
+      const failed = removedPhotos.filter((_, i) => !results[i]);
+      photos = [...failed, ...photos];
+    }
+
+    if (newPhotos.length > 0) {
+      const { photos: uploaded } = await uploadPinPhotos(
+        pin.user_id,
+        pin.id,
+        newPhotos.map((p) => p.file),
+        (done, total) => setUploadStatus(`Uploading photos ${done}/${total}...`)
+      );
+      newPhotos.forEach(releasePendingPhoto);
+      photos = [...photos, ...uploaded];
+    }
+
+    onSuccess({ ...updated, photos });
   };
 
   const handleDelete = async () => {
     setIsDeleting(true);
 
-    const supabase = createClient();
-
-    const { error } = await supabase.from("pins").delete().eq("id", pin.id);
-
-    if (error) {
-      console.error("Error deleting pin:", error);
+    if (!(await data.pins.delete(pin.id))) {
       setIsDeleting(false);
       return;
     }
 
+    await removePinPhotoFiles([...existingPhotos, ...removedPhotos]);
     onDelete(pin.id);
   };
 
@@ -166,59 +190,6 @@ export function EditPinForm({
         </div>
       )}
 
-      {/* Status Toggle */}
-      <div>
-        <label className="block text-sm text-text-secondary mb-1.5">
-          Status
-        </label>
-        <div className="flex gap-2">
-          <button
-            onClick={() => setIsVisited(false)}
-            className={`flex-1 px-4 py-2 rounded-xl text-sm transition-colors ${
-              !isVisited
-                ? "bg-neon-cyan/20 text-neon-cyan border border-neon-cyan"
-                : "bg-surface-elevated text-text-secondary border border-border"
-            }`}
-          >
-            Want to try
-          </button>
-          <button
-            onClick={() => setIsVisited(true)}
-            className={`flex-1 px-4 py-2 rounded-xl text-sm transition-colors ${
-              isVisited
-                ? "bg-neon-green/20 text-neon-green border border-neon-green"
-                : "bg-surface-elevated text-text-secondary border border-border"
-            }`}
-          >
-            Been here
-          </button>
-        </div>
-      </div>
-
-      {/* Rating (only if visited) */}
-      {isVisited && (
-        <div>
-          <label className="block text-sm text-text-secondary mb-1.5">
-            Rating
-          </label>
-          <div className="flex gap-1">
-            {[1, 2, 3, 4, 5].map((star) => (
-              <button
-                key={star}
-                onClick={() => setRating(rating === star ? null : star)}
-                className={`text-2xl transition-colors ${
-                  rating && star <= rating
-                    ? "text-neon-orange"
-                    : "text-text-muted"
-                }`}
-              >
-                ★
-              </button>
-            ))}
-          </div>
-        </div>
-      )}
-
       {/* Notes */}
       <div>
         <label className="block text-sm text-text-secondary mb-1.5">
@@ -233,6 +204,19 @@ export function EditPinForm({
         />
       </div>
 
+      {/* Photos */}
+      <PhotoPicker
+        photos={newPhotos}
+        onChange={setNewPhotos}
+        existingPhotos={existingPhotos}
+        onRemoveExisting={handleRemoveExisting}
+        disabled={isLoading}
+      />
+
+      {uploadStatus && isLoading && (
+        <p className="text-sm text-text-muted text-center">{uploadStatus}</p>
+      )}
+
       {/* Actions */}
       <div className="flex gap-3 pt-2">
         <Button
@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { motion, AnimatePresence, type PanInfo } from "framer-motion";
+import type { PinPhoto } from "@/types";
+
+interface PhotoGalleryProps {
+  photos: PinPhoto[];
+  onDelete?: (photo: PinPhoto) => void;
+  canDelete?: (photo: PinPhoto) => boolean;
+}
+
+const SWIPE_THRESHOLD = 50;
+
+export function PhotoGallery({ photos, onDelete, canDelete = () => true }: PhotoGalleryProps) {
+  const [index, setIndex] = useState(0);
+  const [direction, setDirection] = useState(0);
+
+  if (photos.length === 0) return null;
+
+  // Clamp in case a photo was removed from under us
+  const current = Math.min(index, photos.length - 1);
+  const photo = photos[current];
+
+  const paginate = (step: number) => {
+    const next = current + step;
+    if (next < 0 || next >= photos.length) return;
+    setDirection(step);
+    setIndex(next);
+  };
+
+  const handleDragEnd = (_: unknown, info: PanInfo) => {
+    if (info.offset.x < -SWIPE_THRESHOLD) {
+      paginate(1);
+    } else if (info.offset.x > SWIPE_THRESHOLD) {
+      paginate(-1);
+    }
+  };
+
+  return (
+    <div className="relative aspect-[4/3] rounded-xl overflow-hidden bg-surface-elevated select-none">
+      <AnimatePresence initial={false} custom={direction}>
+        <motion.img
+          key={photo.id}
+          src={photo.url}
+          alt=""
+          custom={direction}
+          initial={{ x: direction > 0 ? "100%" : "-100%", opacity: 0.5 }}
+          animate={{ x: 0, opacity: 1 }}
+          exit={{ x: direction > 0 ? "-100%" : "100%", opacity: 0.5 }}
+          transition={{ type: "spring", damping: 30, stiffness: 300 }}
+          drag={photos.length > 1 ? "x" : false}
+          dragConstraints={{ left: 0, right: 0 }}
+          dragElastic={0.6}
+          onDragEnd={handleDragEnd}
+          draggable={false}
+          className="absolute inset-0 w-full h-full object-cover cursor-grab active:cursor-grabbing"
+        />
+      </AnimatePresence>
+
+      {/* Desktop arrows */}
+      {current > 0 && (
+        <button
+          onClick={() => paginate(-1)}
+          className="absolute left-2 top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-black/50 text-white hidden sm:flex items-center justify-center hover:bg-black/70 transition-colors"
+          aria-label="Previous photo"
+        >
+          <ChevronIcon className="w-4 h-4 rotate-180" />
+        </button>
+      )}
+      {current < photos.length - 1 && (
+        <button
+          onClick={() => paginate(1)}
+          className="absolute right-2 top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-black/50 text-white hidden sm:flex items-center justify-center hover:bg-black/70 transition-colors"
+          aria-label="Next photo"
+        >
+          <ChevronIcon className="w-4 h-4" />
+        </button>
+      )}
+
+      {onDelete && canDelete(photo) && (
+        <button
+          onClick={() => onDelete(photo)}
+          className="absolute top-2 right-2 w-8 h-8 rounded-full bg-black/50 text-white flex items-center justify-center hover:bg-red-500/80 transition-colors"
+          aria-label="Delete photo"
+        >
+          <TrashIcon className="w-4 h-4" />
+        </button>
+      )}
+
+      {/* Position dots */}
+      {photos.length > 1 && (
+        <div className="absolute bottom-2 inset-x-0 flex justify-center gap-1.5">
+          {photos.map((p, i) => (
+            <button
+              key={p.id}
+              onClick={() => {
+                setDirection(i > current ? 1 : -1);
+                setIndex(i);
+              }}
+              className={`h-1.5 rounded-full transition-all ${
+                i === current ? "w-4 bg-white" : "w-1.5 bg-white/50"
+              }`}
+              aria-label={`Photo ${i + 1}`}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ChevronIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+      <polyline points="9 18 15 12 9 6" />
+    </svg>
+  );
+}
+
+function TrashIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <polyline points="3 6 5 6 21 6" />
+      <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+    </svg>
+  );
+}
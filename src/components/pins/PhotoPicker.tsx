@@ -0,0 +1,170 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+  MAX_PHOTOS_PER_PIN,
+  createPendingPhoto,
+  releasePendingPhoto,
+  validatePhotoFile,
+  type PendingPhoto,
+} from "@/lib/photos";
+import type { PinPhoto } from "@/types";
+
+interface PhotoPickerProps {
+  photos: PendingPhoto[];
+  onChange: (photos: PendingPhoto[]) => void;
+  existingPhotos?: PinPhoto[];
+  onRemoveExisting?: (photo: PinPhoto) => void;
+  disabled?: boolean;
+}
+
+export function PhotoPicker({
+  photos,
+  onChange,
+  existingPhotos = [],
+  onRemoveExisting,
+  disabled = false,
+}: PhotoPickerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const totalCount = existingPhotos.length + photos.length;
+  const remaining = MAX_PHOTOS_PER_PIN - totalCount;
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Reset so picking the same file again still fires onChange
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    setError(null);
+
+    const valid: PendingPhoto[] = [];
+    for (const file of files) {
+      const validationError = validatePhotoFile(file);
+      if (validationError) {
+        setError(validationError);
+        continue;
+      }
+      if (valid.length >= remaining) {
+        setError(`You can add up to ${MAX_PHOTOS_PER_PIN} photos per pin`);
+        break;
+      }
+      valid.push(createPendingPhoto(file));
+    }
+
+    if (valid.length > 0) {
+      onChange([...photos, ...valid]);
+    }
+  };
+
+  const handleRemove = (photo: PendingPhoto) => {
+    releasePendingPhoto(photo);
+    onChange(photos.filter((p) => p.id !== photo.id));
+  };
+
+  return (
+    <div>
+      <label className="block text-sm text-text-secondary mb-2">
+        Photos (optional)
+      </label>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        <AnimatePresence initial={false}>
+          {existingPhotos.map((photo) => (
+            <Thumbnail
+              key={photo.id}
+              src={photo.url}
+              onRemove={onRemoveExisting ? () => onRemoveExisting(photo) : undefined}
+              disabled={disabled}
+            />
+          ))}
+          {photos.map((photo) => (
+            <Thumbnail
+              key={photo.id}
+              src={photo.previewUrl}
+              onRemove={() => handleRemove(photo)}
+              disabled={disabled}
+            />
+          ))}
+        </AnimatePresence>
+
+        {remaining > 0 && (
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            className="w-20 h-20 shrink-0 rounded-xl border-2 border-dashed border-border flex flex-col items-center justify-center gap-1 text-text-muted hover:border-primary/50 hover:text-text-secondary transition-colors disabled:opacity-50"
+          >
+            <CameraIcon className="w-6 h-6" />
+            <span className="text-xs">Add</span>
+          </button>
+        )}
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        onChange={handleFilesSelected}
+        className="hidden"
+      />
+
+      {error && <p className="mt-1.5 text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+function Thumbnail({
+  src,
+  onRemove,
+  disabled,
+}: {
+  src: string;
+  onRemove?: () => void;
+  disabled: boolean;
+}) {
+  return (
+    <motion.div
+      layout
+      initial={{ opacity: 0, scale: 0.8 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.8 }}
+      className="relative w-20 h-20 shrink-0 rounded-xl overflow-hidden bg-surface-elevated"
+    >
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img src={src} alt="" className="w-full h-full object-cover" />
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          disabled={disabled}
+          className="absolute top-1 right-1 w-6 h-6 rounded-full bg-black/60 text-white flex items-center justify-center hover:bg-black/80 transition-colors"
+          aria-label="Remove photo"
+        >
+          <XIcon className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </motion.div>
+  );
+}
+
+function CameraIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M23 19a2 2 0 0 1-2 2H3a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h4l2-3h6l2 3h4a2 2 0 0 1 2 2z" />
+      <circle cx="12" cy="13" r="4" />
+    </svg>
+  );
+}
+
+function XIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+      <line x1="18" y1="6" x2="6" y2="18" />
+      <line x1="6" y1="6" x2="18" y2="18" />
+    </svg>
+  );
+}
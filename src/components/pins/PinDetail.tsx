@@ -1,16 +1,14 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { motion } from "framer-motion";
 import { Button, Avatar } from "@/components/ui";
-import type { Pin, List, Profile } from "@/types";
-
-interface SavedByInfo {
-  pin: Pin;
-  list: List;
-  owner: Profile;
-}
+import { CommentThread } from "@/components/social/CommentThread";
+import { PhotoGallery } from "@/components/pins/PhotoGallery";
+import { VisitLog } from "@/components/pins/VisitLog";
+import { deletePinPhoto, fetchPinPhotos } from "@/lib/photos";
+import type { Pin, PinPhoto, List, SavedByInfo } from "@/types";
 
 interface PinDetailProps {
   pin: Pin;
@@ -19,13 +17,65 @@ interface PinDetailProps {
   savedBy?: SavedByInfo[];
   isLoadingSavedBy?: boolean;
   onSaveToList?: () => void;
+  // Logging a visit changes the pin's visited status and rating
+  onPinChange?: (pin: Pin) => void;
 }
 
 type SortOption = "saves" | "rating" | "recent";
 
-export function PinDetail({ pin, isOwn, onEdit, savedBy = [], isLoadingSavedBy, onSaveToList }: PinDetailProps) {
+export function PinDetail({
+  pin,
+  isOwn,
+  onEdit,
+  savedBy = [],
+  isLoadingSavedBy,
+  onSaveToList,
+  onPinChange,
+}: PinDetailProps) {
   const router = useRouter();
   const [sortBy, setSortBy] = useState<SortOption>("saves");
+  const [commentCount, setCommentCount] = useState<number | null>(null);
+  const [photosByPin, setPhotosByPin] = useState<Map<string, PinPhoto[]>>(new Map());
+  // Bumped when a visit may have added photos
+  const [photosVersion, setPhotosVersion] = useState(0);
+
+  // Load photos for this pin and everyone else's save of the same place in one query
+  const photoPinIds = useMemo(
+    () => [pin.id, ...savedBy.map((s) => s.pin.id)],
+    [pin.id, savedBy]
+  );
+  const photoPinIdsKey = photoPinIds.join(",");
+
+  useEffect(() => {
+    if (isLoadingSavedBy) return;
+
+    fetchPinPhotos(photoPinIdsKey.split(",")).then((photos) => {
+      const grouped = new Map<string, PinPhoto[]>();
+      photos.forEach((photo) => {
+        grouped.set(photo.pin_id, [...(grouped.get(photo.pin_id) || []), photo]);
+      });
+      setPhotosByPin(grouped);
+    });
+  }, [photoPinIdsKey, isLoadingSavedBy, photosVersion]);
+
+  // This pin's photos first, then the rest of the community's
+  const galleryPhotos = useMemo(
+    () => photoPinIds.flatMap((id) => photosByPin.get(id) || []),
+    [photoPinIds, photosByPin]
+  );
+
+  const handleDeletePhoto = async (photo: PinPhoto) => {
+    if (!confirm("Delete this photo?")) return;
+
+    const deleted = await deletePinPhoto(photo);
+    if (deleted) {
+      setPhotosByPin((prev) => {
+        const next = new Map(prev);
+        next.set(photo.pin_id, (prev.get(photo.pin_id) || []).filter((p) => p.id !== photo.id));
+        return next;
+      });
+    }
+  };
 
   // Calculate stats
   const totalSaves = savedBy.length + 1; // +1 for current pin
@@ -76,6 +126,15 @@ export function PinDetail({ pin, isOwn, onEdit, savedBy = [], isLoadingSavedBy,
 
   return (
     <div className="space-y-4">
+      {/* Photos */}
+      {galleryPhotos.length > 0 && (
+        <PhotoGallery
+          photos={galleryPhotos}
+          onDelete={isOwn ? handleDeletePhoto : undefined}
+          canDelete={(photo) => photo.pin_id === pin.id}
+        />
+      )}
+
       {/* Address & Category */}
       <div>
         <p className="text-text-secondary">{pin.address}</p>
@@ -190,6 +249,16 @@ export function PinDetail({ pin, isOwn, onEdit, savedBy = [], isLoadingSavedBy,
         </div>
       )}
 
+      {/* Visit timeline */}
+      <VisitLog
+        pin={pin}
+        canLog={isOwn}
+        onChange={(fields) => {
+          setPhotosVersion((v) => v + 1);
+          onPinChange?.({ ...pin, ...fields });
+        }}
+      />
+
       {/* Saved by section */}
       <div>
         <div className="flex items-center justify-between mb-2">
@@ -243,6 +312,19 @@ export function PinDetail({ pin, isOwn, onEdit, savedBy = [], isLoadingSavedBy,
                   </p>
                 </div>
                 <div className="flex items-center gap-2 shrink-0">
+                  {(photosByPin.get(savedPin.id) || []).length > 0 && (
+                    <div className="flex -space-x-2">
+                      {photosByPin.get(savedPin.id)!.slice(0, 3).map((photo) => (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img
+                          key={photo.id}
+                          src={photo.url}
+                          alt=""
+                          className="w-8 h-8 rounded-lg object-cover ring-2 ring-surface"
+                        />
+                      ))}
+                    </div>
+                  )}
                   {savedPin.personal_rating && (
                     <span className="text-sm text-neon-orange">{"★".repeat(savedPin.personal_rating)}</span>
                   )}
@@ -289,6 +371,14 @@ export function PinDetail({ pin, isOwn, onEdit, savedBy = [], isLoadingSavedBy,
           </Button>
         )}
       </div>
+
+      {/* Comments */}
+      <div>
+        <h3 className="text-sm font-medium text-text-secondary mb-2">
+          Comments{commentCount ? ` (${commentCount})` : ""}
+        </h3>
+        <CommentThread target={{ type: "pin", id: pin.id }} onCountChange={setCommentCount} />
+      </div>
     </div>
   );
 }
@@ -0,0 +1,209 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Avatar, Button } from "@/components/ui";
+import { PhotoPicker } from "@/components/pins/PhotoPicker";
+import { useData } from "@/lib/data";
+import { releasePendingPhoto, uploadPinPhotos, type PendingPhoto } from "@/lib/photos";
+import { localDate, MAX_VISIT_COMPANIONS, MAX_VISIT_NOTES_LENGTH } from "@/lib/visits";
+import type { Pin, Profile, Visit } from "@/types";
+
+interface VisitFormProps {
+  pin: Pin;
+  userId: string;
+  // Edits this visit instead of logging a new one
+  visit?: Visit;
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+// Logs a visit to a pin, or edits one: the date, a rating, notes, who came along and photos
+export function VisitForm({ pin, userId, visit, onSaved, onCancel }: VisitFormProps) {
+  const data = useData();
+  const [visitedOn, setVisitedOn] = useState(visit?.visited_on ?? localDate());
+  const [rating, setRating] = useState<number | null>(visit?.rating ?? null);
+  const [notes, setNotes] = useState(visit?.notes ?? "");
+  const [companions, setCompanions] = useState<Profile[]>(visit?.companions ?? []);
+  const [companionQuery, setCompanionQuery] = useState("");
+  const [companionResults, setCompanionResults] = useState<Profile[]>([]);
+  const [photos, setPhotos] = useState<PendingPhoto[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [uploadStatus, setUploadStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    const query = companionQuery.trim();
+    if (!query) return;
+
+    const timeout = setTimeout(async () => {
+      const results = await data.profiles.search(query, { excludeId: userId, limit: 5 });
+      setCompanionResults(results);
+    }, 250);
+    return () => clearTimeout(timeout);
+  }, [companionQuery, data, userId]);
+
+  const addCompanion = (profile: Profile) => {
+    if (!companions.some((c) => c.id === profile.id)) {
+      setCompanions([...companions, profile]);
+    }
+    setCompanionQuery("");
+    setCompanionResults([]);
+  };
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+
+    const fields = { visited_on: visitedOn, rating, notes: notes.trim() || null };
+    const companionIds = companions.map((c) => c.id);
+    const visitId = visit
+      ? (await data.visits.update(visit.id, fields, companionIds)) && visit.id
+      : (await data.visits.create({ ...fields, pin_id: pin.id, user_id: userId }, companionIds))?.id;
+
+    if (!visitId) {
+      setIsSaving(false);
+      return;
+    }
+
+    if (photos.length > 0) {
+      await uploadPinPhotos(
+        userId,
+        pin.id,
+        photos.map((p) => p.file),
+        (done, total) => setUploadStatus(`Uploading photos ${done}/${total}...`),
+        visitId
+      );
+      photos.forEach(releasePendingPhoto);
+    }
+
+    onSaved();
+  };
+
+  const suggestions = companionQuery.trim()
+    ? companionResults.filter((p) => !companions.some((c) => c.id === p.id))
+    : [];
+
+  return (
+    <div className="bg-surface rounded-xl p-3 space-y-4">
+      <div>
+        <label className="block text-sm text-text-secondary mb-1.5">When</label>
+        <input
+          type="date"
+          value={visitedOn}
+          max={localDate()}
+          onChange={(e) => setVisitedOn(e.target.value)}
+          className="w-full bg-surface-elevated border border-border rounded-xl px-4 py-3 text-text-primary focus:outline-none focus:border-neon-pink"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm text-text-secondary mb-1.5">Rating</label>
+        <div className="flex gap-1">
+          {[1, 2, 3, 4, 5].map((star) => (
+            <button
+              key={star}
+              onClick={() => setRating(rating === star ? null : star)}
+              className={`text-2xl transition-colors ${
+                rating && star <= rating ? "text-neon-orange" : "text-text-muted"
+              }`}
+            >
+              ★
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm text-text-secondary mb-1.5">Notes (optional)</label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="What did you order? Was it as good as last time?"
+          maxLength={MAX_VISIT_NOTES_LENGTH}
+          rows={3}
+          className="w-full bg-surface-elevated border border-border rounded-xl px-4 py-3 text-text-primary placeholder:text-text-muted focus:outline-none focus:border-neon-pink resize-none"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm text-text-secondary mb-1.5">Who came along</label>
+        {companions.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {companions.map((companion) => (
+              <button
+                key={companion.id}
+                onClick={() => setCompanions(companions.filter((c) => c.id !== companion.id))}
+                className="flex items-center gap-1.5 pl-1 pr-2.5 py-1 rounded-full bg-surface-elevated text-sm text-text-primary"
+                aria-label={`Remove ${companion.display_name || companion.username}`}
+              >
+                <Avatar
+                  src={companion.avatar_url}
+                  alt={companion.display_name || companion.username}
+                  fallback={(companion.display_name || companion.username)?.[0]}
+                  size="xs"
+                />
+                {companion.display_name || companion.username}
+                <span className="text-text-muted">×</span>
+              </button>
+            ))}
+          </div>
+        )}
+        {companions.length < MAX_VISIT_COMPANIONS && (
+          <input
+            type="text"
+            value={companionQuery}
+            onChange={(e) => setCompanionQuery(e.target.value)}
+            placeholder="Search by name or username"
+            className="w-full bg-surface-elevated border border-border rounded-xl px-4 py-3 text-text-primary placeholder:text-text-muted focus:outline-none focus:border-neon-pink"
+          />
+        )}
+        {suggestions.length > 0 && (
+          <div className="mt-2 space-y-1">
+            {suggestions.map((profile) => (
+              <button
+                key={profile.id}
+                onClick={() => addCompanion(profile)}
+                className="w-full flex items-center gap-2 p-2 rounded-lg hover:bg-surface-hover text-left"
+              >
+                <Avatar
+                  src={profile.avatar_url}
+                  alt={profile.display_name || profile.username}
+                  fallback={(profile.display_name || profile.username)?.[0]}
+                  size="sm"
+                />
+                <span className="text-sm text-text-primary truncate">
+                  {profile.display_name || profile.username}
+                </span>
+                <span className="text-xs text-text-muted truncate">@{profile.username}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <PhotoPicker
+        photos={photos}
+        onChange={setPhotos}
+        existingPhotos={visit?.photos}
+        disabled={isSaving}
+      />
+
+      {uploadStatus && isSaving && (
+        <p className="text-sm text-text-muted text-center">{uploadStatus}</p>
+      )}
+
+      <div className="flex gap-3">
+        <Button variant="ghost" className="flex-1" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          className="flex-1"
+          onClick={handleSubmit}
+          isLoading={isSaving}
+          disabled={!visitedOn}
+        >
+          {visit ? "Save visit" : "Log visit"}
+        </Button>
+      </div>
+    </div>
+  );
+}
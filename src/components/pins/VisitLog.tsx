@@ -0,0 +1,175 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Avatar } from "@/components/ui";
+import { VisitForm } from "@/components/pins/VisitForm";
+import { useData } from "@/lib/data";
+import { deriveVisitFields, formatVisitDate } from "@/lib/visits";
+import type { Pin, Visit } from "@/types";
+
+interface VisitLogProps {
+  pin: Pin;
+  // Owners and editors of the pin's list can log visits
+  canLog: boolean;
+  // The pin's derived fields after a visit was logged, edited or deleted
+  onChange: (fields: Pick<Pin, "is_visited" | "personal_rating">) => void;
+}
+
+// A pin's visits as a timeline, latest first, with "Log a visit"
+export function VisitLog({ pin, canLog, onChange }: VisitLogProps) {
+  const data = useData();
+  const [visits, setVisits] = useState<Visit[] | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Visit | "new" | null>(null);
+
+  useEffect(() => {
+    const init = async () => {
+      const [pinVisits, currentUserId] = await Promise.all([
+        data.visits.list(pin.id),
+        data.auth.getCurrentUserId(),
+      ]);
+      setVisits(pinVisits);
+      setUserId(currentUserId);
+      setEditing(null);
+    };
+    init();
+  }, [data, pin.id]);
+
+  const reload = async () => {
+    const pinVisits = await data.visits.list(pin.id);
+    setVisits(pinVisits);
+    setEditing(null);
+    onChange(deriveVisitFields(pinVisits));
+  };
+
+  const handleDelete = async (visit: Visit) => {
+    if (!confirm("Delete this visit? Its photos stay on the spot.")) return;
+    if (await data.visits.delete(visit.id)) await reload();
+  };
+
+  if (!visits) return null;
+  if (visits.length === 0 && !canLog) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-text-secondary">
+          Visits{visits.length > 0 && <span className="text-text-muted"> · {visits.length}</span>}
+        </h3>
+        {canLog && userId && editing === null && (
+          <button
+            onClick={() => setEditing("new")}
+            className="flex items-center gap-1 text-sm text-neon-green hover:opacity-80 transition-opacity"
+          >
+            <CheckInIcon />
+            Log a visit
+          </button>
+        )}
+      </div>
+
+      {editing === "new" && userId && (
+        <div className="mb-3">
+          <VisitForm pin={pin} userId={userId} onSaved={reload} onCancel={() => setEditing(null)} />
+        </div>
+      )}
+
+      {visits.length === 0 ? (
+        editing === null && (
+          <div className="text-center py-4 bg-surface rounded-xl">
+            <p className="text-sm text-text-muted">No visits yet. Been here? Log it.</p>
+          </div>
+        )
+      ) : (
+        <ol className="relative border-l border-border ml-2 space-y-4">
+          {visits.map((visit) =>
+            editing !== "new" && editing?.id === visit.id && userId ? (
+              <li key={visit.id} className="pl-4">
+                <VisitForm
+                  pin={pin}
+                  userId={userId}
+                  visit={visit}
+                  onSaved={reload}
+                  onCancel={() => setEditing(null)}
+                />
+              </li>
+            ) : (
+              <li key={visit.id} className="pl-4">
+                <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-neon-green ring-4 ring-surface" />
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium text-text-primary">{formatVisitDate(visit.visited_on)}</p>
+                  {visit.rating && <span className="text-sm text-neon-orange">{"★".repeat(visit.rating)}</span>}
+                  <div className="ml-auto flex gap-3 text-xs text-text-muted">
+                    {visit.user_id === userId && (
+                      <button onClick={() => setEditing(visit)} className="hover:text-text-primary">
+                        Edit
+                      </button>
+                    )}
+                    {(visit.user_id === userId || canLog) && (
+                      <button onClick={() => handleDelete(visit)} className="hover:text-red-400">
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <VisitPeople visit={visit} showAuthor={visit.user_id !== pin.user_id} />
+
+                {visit.notes && <p className="text-sm text-text-secondary mt-1">{visit.notes}</p>}
+
+                {visit.photos && visit.photos.length > 0 && (
+                  <div className="flex gap-2 mt-2 overflow-x-auto">
+                    {visit.photos.map((photo) => (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img key={photo.id} src={photo.url} alt="" className="w-16 h-16 rounded-lg object-cover shrink-0" />
+                    ))}
+                  </div>
+                )}
+              </li>
+            )
+          )}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+// "with Sam and Alex", plus who logged it on shared lists
+function VisitPeople({ visit, showAuthor }: { visit: Visit; showAuthor: boolean }) {
+  const companions = visit.companions ?? [];
+  const people = showAuthor && visit.user ? [visit.user, ...companions] : companions;
+  if (people.length === 0) return null;
+
+  const names = companions.map((c) => c.display_name || c.username);
+  const withText = names.length > 1 ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}` : names[0];
+  const author = showAuthor && visit.user ? visit.user.display_name || visit.user.username : null;
+
+  return (
+    <div className="flex items-center gap-2 mt-1">
+      <div className="flex -space-x-1.5">
+        {people.slice(0, 4).map((person) => (
+          <Avatar
+            key={person.id}
+            src={person.avatar_url}
+            alt={person.display_name || person.username}
+            fallback={(person.display_name || person.username)?.[0]}
+            size="xs"
+            className="ring-2 ring-surface"
+          />
+        ))}
+      </div>
+      <p className="text-xs text-text-muted truncate">
+        {author}
+        {author && withText && " "}
+        {withText && `with ${withText}`}
+      </p>
+    </div>
+  );
+}
+
+function CheckInIcon() {
+  return (
+    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M20 6 9 17l-5-5" />
+    </svg>
+  );
+}
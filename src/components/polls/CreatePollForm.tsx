@@ -0,0 +1,168 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Avatar, Button } from "@/components/ui";
+import { useData } from "@/lib/data";
+import {
+  MAX_POLL_INVITEES,
+  MAX_POLL_OPTIONS,
+  MAX_POLL_QUESTION_LENGTH,
+  MIN_POLL_OPTIONS,
+  toDateTimeLocal,
+} from "@/lib/polls";
+import type { Pin, Profile } from "@/types";
+
+interface CreatePollFormProps {
+  pins: Pin[];
+  userId: string;
+  onCreated: (pollId: string) => void;
+  onCancel: () => void;
+}
+
+// Starts a poll over the selected pins: the question, when voting closes
+// and which followers get a vote
+export function CreatePollForm({ pins, userId, onCreated, onCancel }: CreatePollFormProps) {
+  const data = useData();
+  const [question, setQuestion] = useState("Where should we eat?");
+  // Two hours from now, to the minute
+  const [closesAt, setClosesAt] = useState(() => toDateTimeLocal(new Date(Date.now() + 2 * 60 * 60 * 1000)));
+  const [followers, setFollowers] = useState<Profile[]>([]);
+  const [inviteeIds, setInviteeIds] = useState<Set<string>>(new Set());
+  const [isLoadingFollowers, setIsLoadingFollowers] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    data.follows.listFollowers(userId).then((profiles) => {
+      setFollowers(profiles);
+      setIsLoadingFollowers(false);
+    });
+  }, [data, userId]);
+
+  const toggleInvitee = (id: string) => {
+    setInviteeIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else if (next.size < MAX_POLL_INVITEES) {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const deadline = new Date(closesAt);
+  const tooFew = pins.length < MIN_POLL_OPTIONS;
+  const tooMany = pins.length > MAX_POLL_OPTIONS;
+
+  const handleCreate = async () => {
+    if (!(deadline > new Date())) {
+      setError("Pick a time in the future");
+      return;
+    }
+    setIsCreating(true);
+    setError(null);
+    const pollId = await data.polls.create({
+      question: question.trim(),
+      closes_at: deadline.toISOString(),
+      pinIds: pins.map((p) => p.id),
+      inviteeIds: [...inviteeIds],
+    });
+    setIsCreating(false);
+    if (pollId) {
+      onCreated(pollId);
+    } else {
+      setError("Couldn't start the poll");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm text-text-secondary mb-1.5">Question</label>
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          maxLength={MAX_POLL_QUESTION_LENGTH}
+          className="w-full bg-surface-elevated border border-border rounded-xl px-4 py-3 text-text-primary placeholder:text-text-muted focus:outline-none focus:border-neon-pink"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm text-text-secondary mb-1.5">Voting closes</label>
+        <input
+          type="datetime-local"
+          value={closesAt}
+          min={toDateTimeLocal(new Date())}
+          onChange={(e) => setClosesAt(e.target.value)}
+          className="w-full bg-surface-elevated border border-border rounded-xl px-4 py-3 text-text-primary focus:outline-none focus:border-neon-pink"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm text-text-secondary mb-1.5">
+          Places ({pins.length})
+        </label>
+        <p className="text-sm text-text-primary">{pins.map((p) => p.name).join(", ")}</p>
+        {tooFew && (
+          <p className="text-xs text-neon-orange mt-1">Select at least {MIN_POLL_OPTIONS} spots to vote on</p>
+        )}
+        {tooMany && (
+          <p className="text-xs text-neon-orange mt-1">A poll can have at most {MAX_POLL_OPTIONS} spots</p>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm text-text-secondary mb-1.5">Invite followers</label>
+        {isLoadingFollowers ? (
+          <p className="text-sm text-text-muted">Loading...</p>
+        ) : followers.length === 0 ? (
+          <p className="text-sm text-text-muted">Only people who follow you can be invited</p>
+        ) : (
+          <div className="max-h-48 overflow-y-auto space-y-1">
+            {followers.map((follower) => (
+              <label
+                key={follower.id}
+                className="flex items-center gap-2 p-2 rounded-lg hover:bg-surface-hover cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={inviteeIds.has(follower.id)}
+                  onChange={() => toggleInvitee(follower.id)}
+                />
+                <Avatar
+                  src={follower.avatar_url}
+                  alt={follower.display_name || follower.username}
+                  fallback={(follower.display_name || follower.username)?.[0]}
+                  size="sm"
+                />
+                <span className="text-sm text-text-primary truncate">
+                  {follower.display_name || follower.username}
+                </span>
+                <span className="text-xs text-text-muted truncate">@{follower.username}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="flex gap-3">
+        <Button variant="ghost" className="flex-1" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          className="flex-1"
+          onClick={handleCreate}
+          isLoading={isCreating}
+          disabled={!question.trim() || !closesAt || tooFew || tooMany || inviteeIds.size === 0}
+        >
+          Start poll
+        </Button>
+      </div>
+    </div>
+  );
+}
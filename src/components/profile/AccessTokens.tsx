@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button, Input, useToast } from "@/components/ui";
+import { useData } from "@/lib/data";
+import type { AccessTokenScope, PersonalAccessToken } from "@/types";
+
+const SCOPE_LABELS: Record<AccessTokenScope, string> = {
+  read: "Read only",
+  write: "Read & write",
+};
+
+// Days until expiry; null never expires
+const EXPIRY_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 30, label: "Expires in 30 days" },
+  { days: 90, label: "Expires in 90 days" },
+  { days: null, label: "Never expires" },
+];
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+}
+
+interface AccessTokensProps {
+  userId: string;
+}
+
+// Personal access tokens for /api/v1. A new token is shown once, right
+// after it's created; only its prefix can be shown again.
+export function AccessTokens({ userId }: AccessTokensProps) {
+  const data = useData();
+  const { showToast } = useToast();
+  const [tokens, setTokens] = useState<PersonalAccessToken[]>([]);
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<AccessTokenScope>("read");
+  const [expiryDays, setExpiryDays] = useState<number | null>(90);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    const load = async () => setTokens(await data.accessTokens.list(userId));
+    load();
+  }, [data, userId]);
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+
+    setIsCreating(true);
+    setError(null);
+
+    const expiresAt = expiryDays === null ? null : new Date(Date.now() + expiryDays * 86_400_000).toISOString();
+    const token = await data.accessTokens.create(name.trim(), { scope, expiresAt });
+    if (token) {
+      setNewToken(token);
+      setName("");
+      setTokens(await data.accessTokens.list(userId));
+    } else {
+      setError("Couldn't create the token. Please try again.");
+    }
+
+    setIsCreating(false);
+  };
+
+  const handleRevoke = async (token: PersonalAccessToken) => {
+    if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) return;
+    if (await data.accessTokens.revoke(token.id)) {
+      setTokens((prev) => prev.filter((t) => t.id !== token.id));
+    }
+  };
+
+  const copyToken = async () => {
+    if (!newToken) return;
+    await navigator.clipboard.writeText(newToken);
+    showToast({ message: "Token copied", emoji: "🔑", subtext: "Keep it somewhere safe" });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-text-muted">
+        Use a token to script edits or read your lists from the{" "}
+        <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer" className="text-neon-cyan">
+          API
+        </a>
+        . Tokens see what you see and can be revoked at any time.
+      </p>
+
+      {newToken && (
+        <div className="bg-neon-green/10 border border-neon-green/30 rounded-xl p-4 space-y-2">
+          <p className="text-sm text-neon-green">Copy your new token now. You won&apos;t see it again.</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs text-text-primary break-all">{newToken}</code>
+            <button onClick={copyToken} className="text-xs text-neon-cyan px-2 py-1">
+              Copy
+            </button>
+          </div>
+          <button onClick={() => setNewToken(null)} className="text-xs text-text-muted">
+            Done
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {tokens.map((token) => (
+          <div key={token.id} className="flex items-center gap-2 bg-surface-elevated border border-border rounded-xl p-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-text-primary truncate">{token.name}</p>
+              <p className="text-xs text-text-muted">
+                <code>{token.token_prefix}…</code> · {SCOPE_LABELS[token.scope]} ·{" "}
+                {token.last_used_at ? `Last used ${formatDate(token.last_used_at)}` : "Never used"}
+              </p>
+              <p className="text-xs text-text-muted">
+                Created {formatDate(token.created_at)}
+                {token.expires_at && ` · Expires ${formatDate(token.expires_at)}`}
+              </p>
+            </div>
+            <button onClick={() => handleRevoke(token)} className="text-xs text-red-400 hover:text-red-300 px-2 py-1">
+              Revoke
+            </button>
+          </div>
+        ))}
+        {tokens.length === 0 && <p className="text-sm text-text-muted">You haven&apos;t created any tokens.</p>}
+      </div>
+
+      <div className="space-y-2">
+        <Input
+          label="New token"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+          placeholder="What's it for? e.g. Dashboard sync"
+          maxLength={100}
+          error={error ?? undefined}
+        />
+        <div className="flex gap-2">
+          {(["read", "write"] as const).map((s) => (
+            <button
+              key={s}
+              onClick={() => setScope(s)}
+              className={`flex-1 py-2 rounded-xl text-sm transition-colors ${
+                scope === s ? "bg-neon-pink text-white" : "bg-surface-elevated text-text-secondary border border-border"
+              }`}
+            >
+              {SCOPE_LABELS[s]}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={expiryDays ?? ""}
+            onChange={(e) => setExpiryDays(e.target.value ? Number(e.target.value) : null)}
+            className="flex-1 bg-surface-elevated border border-border rounded-xl px-3 py-2 text-sm text-text-primary"
+          >
+            {EXPIRY_OPTIONS.map(({ days, label }) => (
+              <option key={label} value={days ?? ""}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <Button variant="primary" onClick={handleCreate} isLoading={isCreating} disabled={!name.trim()}>
+            Create
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { useData } from "@/lib/data";
+import { NOTIFICATION_TYPES } from "@/lib/notifications";
+import type { NotificationType } from "@/types";
+
+interface NotificationSettingsProps {
+  userId: string;
+}
+
+// Per-type mutes. Muted types aren't recorded at all, so unmuting doesn't
+// bring back what happened in between.
+export function NotificationSettings({ userId }: NotificationSettingsProps) {
+  const data = useData();
+  const [muted, setMuted] = useState<NotificationType[]>([]);
+
+  useEffect(() => {
+    const load = async () => setMuted(await data.notifications.getMutedTypes(userId));
+    load();
+  }, [data, userId]);
+
+  const toggle = async (type: NotificationType) => {
+    const previous = muted;
+    const next = muted.includes(type) ? muted.filter((t) => t !== type) : [...muted, type];
+    setMuted(next);
+    if (!(await data.notifications.setMutedTypes(userId, next))) setMuted(previous);
+  };
+
+  return (
+    <div className="space-y-1">
+      {NOTIFICATION_TYPES.map(({ type, label }) => {
+        const isOn = !muted.includes(type);
+        return (
+          <button
+            key={type}
+            type="button"
+            role="switch"
+            aria-checked={isOn}
+            onClick={() => toggle(type)}
+            className="w-full flex items-center justify-between py-2 text-sm text-text-primary"
+          >
+            {label}
+            <span
+              className={`w-10 h-6 rounded-full p-0.5 transition-colors ${
+                isOn ? "bg-primary" : "bg-surface-elevated border border-border"
+              }`}
+            >
+              <motion.span
+                animate={{ x: isOn ? 16 : 0 }}
+                transition={{ type: "spring", stiffness: 400, damping: 30 }}
+                className={`block w-5 h-5 rounded-full shadow-sm ${isOn ? "bg-white" : "bg-text-muted"}`}
+              />
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { fetchTasteComparison, fetchTasteMatches, type TasteComparison } from "@/lib/compatibility";
+import type { TasteMatch as TasteMatchScore, TastePlace } from "@/types";
+
+const PLACES_PER_SECTION = 5;
+
+interface TasteMatchProps {
+  userId: string;
+  username: string;
+}
+
+// How your taste compares with someone else's: the match score and its
+// parts, then places you both love, disagree on and that you could try
+export function TasteMatch({ userId, username }: TasteMatchProps) {
+  const router = useRouter();
+  const [match, setMatch] = useState<TasteMatchScore | null>(null);
+  const [comparison, setComparison] = useState<TasteComparison | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const [matches, places] = await Promise.all([fetchTasteMatches([userId]), fetchTasteComparison(userId)]);
+      setMatch(matches.get(userId) ?? null);
+      setComparison(places);
+    };
+    load();
+  }, [userId]);
+
+  if (!match || !comparison) return null;
+
+  const openPlace = (place: TastePlace) => router.push(`/lists/${place.their_list_id}`);
+
+  return (
+    <div className="mx-4 mb-6 bg-surface-elevated rounded-2xl p-4">
+      <div className="flex items-center gap-4">
+        <p className="text-3xl font-bold text-neon-pink">{match.score}%</p>
+        <div className="min-w-0">
+          <p className="font-semibold text-text-primary">Taste match</p>
+          <p className="text-sm text-text-muted">
+            {match.shared_places === 0
+              ? "No places in common yet"
+              : `${match.shared_places} ${match.shared_places === 1 ? "place" : "places"} in common`}
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-4 space-y-2">
+        <MatchPart label="Saved places" value={match.place_overlap} />
+        <MatchPart label="Rating agreement" value={match.rating_agreement} />
+        <MatchPart label="Kinds of places" value={match.category_overlap} />
+      </div>
+
+      <PlaceSection
+        title="You both love"
+        places={comparison.bothLove}
+        onPlaceClick={openPlace}
+        renderRatings={(place) => <Stars rating={place.their_rating} />}
+      />
+      <PlaceSection
+        title="You disagree on"
+        places={comparison.disagreements}
+        onPlaceClick={openPlace}
+        renderRatings={(place) => (
+          <span className="text-xs text-text-muted">
+            You <Stars rating={place.my_rating} /> · @{username} <Stars rating={place.their_rating} />
+          </span>
+        )}
+      />
+      <PlaceSection
+        title={`@${username} loves, you haven't tried`}
+        places={comparison.toTry}
+        onPlaceClick={openPlace}
+        renderRatings={(place) => <Stars rating={place.their_rating} />}
+      />
+    </div>
+  );
+}
+
+function MatchPart({ label, value }: { label: string; value: number | null }) {
+  return (
+    <div className="flex items-center gap-3">
+      <span className="w-32 shrink-0 text-xs text-text-secondary">{label}</span>
+      <div className="flex-1 h-1.5 rounded-full bg-surface overflow-hidden">
+        {value !== null && (
+          <div className="h-full rounded-full bg-neon-pink" style={{ width: `${Math.round(value * 100)}%` }} />
+        )}
+      </div>
+      <span className="w-10 text-right text-xs text-text-muted">
+        {value === null ? "–" : `${Math.round(value * 100)}%`}
+      </span>
+    </div>
+  );
+}
+
+function PlaceSection({
+  title,
+  places,
+  onPlaceClick,
+  renderRatings,
+}: {
+  title: string;
+  places: TastePlace[];
+  onPlaceClick: (place: TastePlace) => void;
+  renderRatings: (place: TastePlace) => React.ReactNode;
+}) {
+  if (places.length === 0) return null;
+
+  return (
+    <div className="mt-4">
+      <h4 className="text-xs font-medium text-text-secondary mb-1.5">{title.toUpperCase()}</h4>
+      <div className="space-y-1">
+        {places.slice(0, PLACES_PER_SECTION).map((place) => (
+          <button
+            key={place.place_id}
+            onClick={() => onPlaceClick(place)}
+            className="w-full flex items-center justify-between gap-3 p-2 rounded-lg hover:bg-surface-hover text-left"
+          >
+            <span className="text-sm text-text-primary truncate">{place.name}</span>
+            <span className="shrink-0">{renderRatings(place)}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function Stars({ rating }: { rating: number | null }) {
+  if (rating === null) return <span className="text-text-muted">unrated</span>;
+  return <span className="text-neon-orange">{"★".repeat(rating)}</span>;
+}
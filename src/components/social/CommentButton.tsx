@@ -0,0 +1,72 @@
+"use client";
+
+import { motion } from "framer-motion";
+
+interface CommentButtonProps {
+  count: number;
+  onClick: () => void;
+  showCount?: boolean;
+  size?: "sm" | "md" | "lg";
+}
+
+export function CommentButton({
+  count,
+  onClick,
+  showCount = true,
+  size = "md",
+}: CommentButtonProps) {
+  const sizeClasses = {
+    sm: "w-8 h-8",
+    md: "w-10 h-10",
+    lg: "w-12 h-12",
+  };
+
+  const iconSizes = {
+    sm: "w-4 h-4",
+    md: "w-5 h-5",
+    lg: "w-6 h-6",
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <motion.button
+        onClick={(e) => {
+          e.stopPropagation();
+          onClick();
+        }}
+        className={`${sizeClasses[size]} rounded-full flex items-center justify-center transition-colors bg-surface-elevated text-text-muted hover:text-neon-cyan hover:bg-neon-cyan/10`}
+        whileTap={{ scale: 0.9 }}
+        aria-label="Comments"
+      >
+        <CommentIcon className={iconSizes[size]} />
+      </motion.button>
+
+      {showCount && count > 0 && (
+        <motion.span
+          key={count}
+          initial={{ opacity: 0, y: -5 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-sm font-medium text-text-muted"
+        >
+          {count}
+        </motion.span>
+      )}
+    </div>
+  );
+}
+
+function CommentIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
+    </svg>
+  );
+}
@@ -0,0 +1,298 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { motion, AnimatePresence } from "framer-motion";
+import { formatDistanceToNow } from "date-fns";
+import { Avatar, Button } from "@/components/ui";
+import { useData } from "@/lib/data";
+import { triggerHaptic } from "@/lib/haptics";
+import type { Comment, CommentTarget } from "@/types";
+
+interface CommentThreadProps {
+  target: CommentTarget;
+  onCountChange?: (count: number) => void;
+}
+
+const PAGE_SIZE = 20;
+const MAX_LENGTH = 1000;
+
+export function CommentThread({ target, onCountChange }: CommentThreadProps) {
+  const router = useRouter();
+  const data = useData();
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [isPosting, setIsPosting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState("");
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPage = useCallback(
+    (offset: number) =>
+      data.comments.list({ type: target.type, id: target.id }, { offset, limit: PAGE_SIZE }),
+    [data, target.type, target.id]
+  );
+
+  useEffect(() => {
+    const loadComments = async () => {
+      setCurrentUserId(await data.auth.getCurrentUserId());
+
+      const page = await fetchPage(0);
+      if (page) {
+        setComments(page.comments);
+        setTotalCount(page.total);
+      }
+      setIsLoading(false);
+    };
+
+    loadComments();
+  }, [data, fetchPage]);
+
+  useEffect(() => {
+    if (!isLoading) {
+      onCountChange?.(totalCount);
+    }
+  }, [totalCount, isLoading, onCountChange]);
+
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true);
+    const page = await fetchPage(comments.length);
+    if (page) {
+      // Skip anything already shown (new comments shift the offsets)
+      setComments((prev) => {
+        const seen = new Set(prev.map((c) => c.id));
+        return [...prev, ...page.comments.filter((c) => !seen.has(c.id))];
+      });
+      setTotalCount(page.total);
+    }
+    setIsLoadingMore(false);
+  };
+
+  const handlePost = async () => {
+    const content = draft.trim();
+    if (!content || !currentUserId) return;
+
+    setIsPosting(true);
+    setError(null);
+
+    const comment = await data.comments.create(target, { user_id: currentUserId, content });
+
+    if (!comment) {
+      setError("Couldn't post your comment. Please try again.");
+      setIsPosting(false);
+      return;
+    }
+
+    triggerHaptic("light");
+    setComments((prev) => [comment, ...prev]);
+    setTotalCount((prev) => prev + 1);
+    setDraft("");
+    setIsPosting(false);
+  };
+
+  const startEditing = (comment: Comment) => {
+    setEditingId(comment.id);
+    setEditDraft(comment.content);
+    setError(null);
+  };
+
+  const handleSaveEdit = async (comment: Comment) => {
+    const content = editDraft.trim();
+    if (!content) return;
+    if (content === comment.content) {
+      setEditingId(null);
+      return;
+    }
+
+    setIsSavingEdit(true);
+
+    const updated = await data.comments.update(comment.id, content);
+
+    if (!updated) {
+      setError("Couldn't save your edit. Please try again.");
+      setIsSavingEdit(false);
+      return;
+    }
+
+    setComments((prev) => prev.map((c) => (c.id === comment.id ? updated : c)));
+    setEditingId(null);
+    setIsSavingEdit(false);
+  };
+
+  const handleDelete = async (comment: Comment) => {
+    if (!confirm("Delete this comment?")) return;
+
+    // Optimistic update
+    const previous = comments;
+    setComments((prev) => prev.filter((c) => c.id !== comment.id));
+    setTotalCount((prev) => prev - 1);
+
+    if (!(await data.comments.delete(comment.id))) {
+      // Revert on error
+      setComments(previous);
+      setTotalCount((prev) => prev + 1);
+      setError("Couldn't delete your comment. Please try again.");
+    }
+  };
+
+  const hasMore = comments.length < totalCount;
+
+  return (
+    <div className="space-y-3">
+      {/* Composer */}
+      {currentUserId ? (
+        <div className="bg-surface rounded-xl p-3 space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={target.type === "pin" ? "Ask what to order, share a tip..." : "Say something about this list..."}
+            maxLength={MAX_LENGTH}
+            rows={2}
+            className="w-full bg-surface-elevated border border-border rounded-xl px-3 py-2 text-sm text-text-primary placeholder:text-text-muted focus:outline-none focus:border-neon-pink resize-none"
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-text-muted">
+              {draft.length > MAX_LENGTH - 100 && `${draft.length}/${MAX_LENGTH}`}
+            </span>
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={handlePost}
+              isLoading={isPosting}
+              disabled={!draft.trim()}
+            >
+              Post
+            </Button>
+          </div>
+        </div>
+      ) : (
+        !isLoading && (
+          <p className="text-sm text-text-muted text-center py-2">Sign in to join the conversation</p>
+        )
+      )}
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 rounded-xl p-3 text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Thread */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4">
+          <div className="w-5 h-5 border-2 border-neon-pink border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : comments.length === 0 ? (
+        <div className="text-center py-4 bg-surface rounded-xl">
+          <p className="text-2xl mb-2">💬</p>
+          <p className="text-sm text-text-muted">No comments yet. Start the conversation!</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <AnimatePresence initial={false}>
+            {comments.map((comment) => {
+              const author = comment.profile;
+              const authorName = author?.display_name || author?.username || "unknown";
+              const isOwn = comment.user_id === currentUserId;
+              const isEdited = new Date(comment.updated_at).getTime() - new Date(comment.created_at).getTime() > 1000;
+
+              return (
+                <motion.div
+                  key={comment.id}
+                  initial={{ opacity: 0, y: -5 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, height: 0 }}
+                  className="flex items-start gap-3 p-3 bg-surface rounded-xl"
+                >
+                  <button
+                    onClick={() => author && router.push(`/user/${author.username}`)}
+                    className="shrink-0"
+                  >
+                    <Avatar
+                      src={author?.avatar_url}
+                      alt={authorName}
+                      fallback={authorName[0]}
+                      size="sm"
+                    />
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium text-text-primary truncate">{authorName}</p>
+                      <span className="text-xs text-text-muted shrink-0">
+                        {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                        {isEdited && " • edited"}
+                      </span>
+                    </div>
+
+                    {editingId === comment.id ? (
+                      <div className="mt-2 space-y-2">
+                        <textarea
+                          value={editDraft}
+                          onChange={(e) => setEditDraft(e.target.value)}
+                          maxLength={MAX_LENGTH}
+                          rows={2}
+                          autoFocus
+                          className="w-full bg-surface-elevated border border-border rounded-lg px-3 py-2 text-sm text-text-primary focus:outline-none focus:border-neon-pink resize-none"
+                        />
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                            Cancel
+                          </Button>
+                          <Button
+                            variant="primary"
+                            size="sm"
+                            onClick={() => handleSaveEdit(comment)}
+                            isLoading={isSavingEdit}
+                            disabled={!editDraft.trim()}
+                          >
+                            Save
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-text-secondary mt-0.5 whitespace-pre-wrap break-words">
+                        {comment.content}
+                      </p>
+                    )}
+
+                    {isOwn && editingId !== comment.id && (
+                      <div className="flex gap-3 mt-1.5">
+                        <button
+                          onClick={() => startEditing(comment)}
+                          className="text-xs text-text-muted hover:text-text-primary"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(comment)}
+                          className="text-xs text-text-muted hover:text-red-400"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </motion.div>
+              );
+            })}
+          </AnimatePresence>
+
+          {hasMore && (
+            <button
+              onClick={handleLoadMore}
+              disabled={isLoadingMore}
+              className="w-full py-2 text-sm text-neon-cyan hover:text-neon-cyan/80 transition-colors disabled:opacity-50"
+            >
+              {isLoadingMore ? "Loading..." : `Show more comments (${totalCount - comments.length})`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
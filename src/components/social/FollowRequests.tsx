@@ -0,0 +1,82 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Avatar, Button } from "@/components/ui";
+import { useData } from "@/lib/data";
+import type { FollowRequest } from "@/types";
+
+interface FollowRequestsProps {
+  userId: string;
+  // After a request is approved or denied, which also clears its notification
+  onChange?: () => void;
+}
+
+// People waiting to follow a private account, with approve and deny
+export function FollowRequests({ userId, onChange }: FollowRequestsProps) {
+  const data = useData();
+  const [requests, setRequests] = useState<FollowRequest[]>([]);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setRequests(await data.follows.listRequests(userId));
+  }, [data, userId]);
+
+  useEffect(() => {
+    const init = async () => {
+      setRequests(await data.follows.listRequests(userId));
+    };
+    init();
+  }, [data, userId]);
+
+  const respond = async (followerId: string, approve: boolean) => {
+    setPendingId(followerId);
+    const ok = approve
+      ? await data.follows.approveRequest(userId, followerId)
+      : await data.follows.denyRequest(userId, followerId);
+    setPendingId(null);
+    if (!ok) return;
+    await load();
+    onChange?.();
+  };
+
+  if (requests.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <h2 className="text-sm font-medium text-text-secondary mb-2">
+        Follow requests <span className="text-text-muted">· {requests.length}</span>
+      </h2>
+      <div className="space-y-2">
+        {requests.map(({ follower_id, follower }) => (
+          <div key={follower_id} className="flex items-center gap-3 p-3 rounded-xl bg-surface-elevated">
+            <Link href={`/user/${follower?.username}`} className="flex items-center gap-3 flex-1 min-w-0">
+              <Avatar
+                src={follower?.avatar_url}
+                alt={follower?.display_name || follower?.username}
+                fallback={(follower?.display_name || follower?.username)?.[0]}
+              />
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-text-primary truncate">
+                  {follower?.display_name || follower?.username}
+                </p>
+                <p className="text-xs text-text-muted truncate">@{follower?.username}</p>
+              </div>
+            </Link>
+            <Button size="sm" onClick={() => respond(follower_id, true)} disabled={pendingId === follower_id}>
+              Approve
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => respond(follower_id, false)}
+              disabled={pendingId === follower_id}
+            >
+              Deny
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -2,8 +2,9 @@
 
 import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { createClient } from "@/lib/supabase/client";
+import { useData, type LikeStatus } from "@/lib/data";
 import { triggerHaptic } from "@/lib/haptics";
+import { applyLikeChange } from "@/lib/realtime";
 
 interface LikeButtonProps {
   type: "list" | "pin";
@@ -24,39 +25,50 @@ export function LikeButton({
   size = "md",
   onLikeChange,
 }: LikeButtonProps) {
-  const [isLiked, setIsLiked] = useState(initialLiked);
-  const [likeCount, setLikeCount] = useState(initialCount);
+  const [status, setStatus] = useState<LikeStatus>({ liked: initialLiked, count: initialCount });
   const [isLoading, setIsLoading] = useState(false);
   const [isAnimating, setIsAnimating] = useState(false);
+  const data = useData();
+  const { liked: isLiked, count: likeCount } = status;
 
   useEffect(() => {
-    setIsLiked(initialLiked);
-    setLikeCount(initialCount);
+    setStatus({ liked: initialLiked, count: initialCount });
   }, [initialLiked, initialCount]);
 
+  // Everyone's likes, live; yours are reconciled with the optimistic update
+  useEffect(() => {
+    let currentUserId: string | null = null;
+    const load = async () => {
+      currentUserId = await data.auth.getCurrentUserId();
+    };
+    load();
+    return data.realtime.subscribeToLikes({ type, id: targetId }, (change) =>
+      setStatus((prev) => applyLikeChange(prev, change, currentUserId))
+    );
+  }, [data, type, targetId]);
+
   const handleLike = async (e: React.MouseEvent) => {
     e.stopPropagation();
     if (isLoading) return;
 
     setIsLoading(true);
-    const supabase = createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
+    const userId = await data.auth.getCurrentUserId();
 
-    if (!user) {
+    if (!userId) {
       setIsLoading(false);
       return;
     }
 
-    const table = type === "list" ? "list_likes" : "pin_likes";
-    const idColumn = type === "list" ? "list_id" : "pin_id";
+    const target = { type, id: targetId };
 
     // Optimistic update
     const newLiked = !isLiked;
     const newCount = newLiked ? likeCount + 1 : likeCount - 1;
-    setIsLiked(newLiked);
-    setLikeCount(newCount);
+    setStatus({ liked: newLiked, count: newCount });
+
+    // Undo only our own change, keeping any that arrived live meanwhile
+    const revert = () =>
+      setStatus((prev) => ({ liked: !newLiked, count: Math.max(0, prev.count + (newLiked ? -1 : 1)) }));
 
     if (newLiked) {
       setIsAnimating(true);
@@ -67,40 +79,19 @@ export function LikeButton({
     }
 
     try {
-      if (newLiked) {
-        // Add like
-        const { error } = await supabase.from(table).insert({
-          user_id: user.id,
-          [idColumn]: targetId,
-        });
-
-        if (error) {
-          // Revert on error
-          setIsLiked(!newLiked);
-          setLikeCount(likeCount);
-          console.error("Error liking:", error);
-        }
-      } else {
-        // Remove like
-        const { error } = await supabase
-          .from(table)
-          .delete()
-          .eq("user_id", user.id)
-          .eq(idColumn, targetId);
-
-        if (error) {
-          // Revert on error
-          setIsLiked(!newLiked);
-          setLikeCount(likeCount);
-          console.error("Error unliking:", error);
-        }
+      const saved = newLiked
+        ? await data.likes.like(target, userId)
+        : await data.likes.unlike(target, userId);
+
+      if (!saved) {
+        // Revert on error
+        revert();
       }
 
       onLikeChange?.(newLiked, newCount);
     } catch (error) {
       // Revert on error
-      setIsLiked(!newLiked);
-      setLikeCount(likeCount);
+      revert();
       console.error("Error toggling like:", error);
     } finally {
       setIsLoading(false);
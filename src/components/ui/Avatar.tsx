@@ -28,7 +28,7 @@ export function Avatar({
 
   if (src) {
     return (
-      {/* eslint-disable-next-line @next/next/no-img-element */}
+      // eslint-disable-next-line @next/next/no-img-element
       <img
         src={src}
         alt={alt}
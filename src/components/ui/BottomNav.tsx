@@ -3,6 +3,8 @@
 import { usePathname } from "next/navigation";
 import Link from "next/link";
 import { motion } from "framer-motion";
+import { BellIcon, UnreadBadge } from "@/components/notifications/NotificationBell";
+import { useUnreadNotifications } from "@/components/notifications/NotificationsProvider";
 
 interface NavItem {
   href: string;
@@ -30,10 +32,17 @@ const navItems: NavItem[] = [
     icon: <ListIcon />,
     activeIcon: <ListIconFilled />,
   },
+  {
+    href: "/notifications",
+    label: "Alerts",
+    icon: <BellIcon />,
+    activeIcon: <BellIcon filled />,
+  },
 ];
 
 export function BottomNav() {
   const pathname = usePathname();
+  const { count: unreadCount } = useUnreadNotifications();
 
   const isActiveRoute = (href: string) => {
     if (href === "/explore") return pathname === "/explore";
@@ -61,6 +70,7 @@ export function BottomNav() {
                 className="relative"
               >
                 {isActive ? item.activeIcon : item.icon}
+                {item.href === "/notifications" && <UnreadBadge count={unreadCount} className="-top-1 -right-2" />}
                 {isActive && (
                   <motion.div
                     layoutId="nav-indicator"
@@ -1,12 +1,15 @@
 "use client";
 
 import { useRouter } from "next/navigation";
+import { NotificationBell } from "@/components/notifications/NotificationBell";
 
 interface HeaderProps {
   title: string;
   subtitle?: string;
   backButton?: boolean;
   rightAction?: React.ReactNode;
+  // The bell with the unread count, on by default
+  showNotifications?: boolean;
   className?: string;
 }
 
@@ -15,6 +18,7 @@ export function Header({
   subtitle,
   backButton = false,
   rightAction,
+  showNotifications = true,
   className = "",
 }: HeaderProps) {
   const router = useRouter();
@@ -41,6 +45,7 @@ export function Header({
           )}
         </div>
         {rightAction && <div className="shrink-0">{rightAction}</div>}
+        {showNotifications && <NotificationBell />}
       </div>
     </header>
   );
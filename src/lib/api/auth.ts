@@ -0,0 +1,125 @@
+/**
+ * Personal access token auth for /api/v1. The token is checked by
+ * authenticate_personal_access_token, then every query runs with a
+ * short-lived JWT for the token's owner, so row level security applies
+ * exactly as it does in the app.
+ */
+
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/api";
+import { createRateLimiter, type RateLimitResult } from "@/lib/rateLimit";
+import type { AccessTokenScope } from "@/types";
+import { apiError, TOKEN_RATE_LIMIT } from "./http";
+
+// Per token, so one runaway script can't starve the rest
+const tokenLimiter = createRateLimiter({ limit: TOKEN_RATE_LIMIT, windowMs: 60_000 });
+// Per address, before the token is checked, to slow down guessing
+const addressLimiter = createRateLimiter({ limit: 300, windowMs: 60_000 });
+
+// Long enough for one request
+const JWT_LIFETIME_SECONDS = 60;
+
+export interface ApiContext {
+  userId: string;
+  tokenId: string;
+  scope: AccessTokenScope;
+  supabase: SupabaseClient;
+  rateLimit: RateLimitResult;
+}
+
+export function readBearerToken(request: Request): string | null {
+  const match = /^Bearer\s+(nfc_[0-9a-f]{64})$/i.exec(request.headers.get("authorization") ?? "");
+  return match ? match[1] : null;
+}
+
+// The address the platform saw. Vercel sets x-real-ip; otherwise the last
+// x-forwarded-for entry is the one our own proxy added, while earlier ones
+// are whatever the client sent.
+export function clientAddress(request: Request): string {
+  const realIp = request.headers.get("x-real-ip")?.trim();
+  if (realIp) return realIp;
+  return request.headers.get("x-forwarded-for")?.split(",").pop()?.trim() || "unknown";
+}
+
+function base64url(value: string | ArrayBuffer) {
+  return Buffer.from(typeof value === "string" ? new TextEncoder().encode(value) : new Uint8Array(value)).toString(
+    "base64url"
+  );
+}
+
+// An HS256 JWT the way Supabase Auth issues them, so PostgREST accepts it
+export async function signUserJwt(userId: string, secret: string, now = Date.now()): Promise<string> {
+  const issuedAt = Math.floor(now / 1000);
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64url(
+    JSON.stringify({
+      sub: userId,
+      role: "authenticated",
+      aud: "authenticated",
+      iat: issuedAt,
+      exp: issuedAt + JWT_LIFETIME_SECONDS,
+    })
+  );
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${header}.${payload}`));
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+function tooManyRequests(retryAfterSeconds: number) {
+  return apiError(429, "Too many requests, try again shortly", { "Retry-After": String(retryAfterSeconds) });
+}
+
+// Resolves to the caller, or a response to send back instead. Write
+// endpoints need a token with the write scope.
+export async function authenticateApiRequest(
+  request: Request,
+  { write = false }: { write?: boolean } = {}
+): Promise<ApiContext | NextResponse> {
+  const byAddress = addressLimiter.check(clientAddress(request));
+  if (!byAddress.allowed) return tooManyRequests(byAddress.retryAfterSeconds);
+
+  const token = readBearerToken(request);
+  if (!token) {
+    return apiError(401, "Missing access token", { "WWW-Authenticate": "Bearer" });
+  }
+
+  const { data, error } = await createClient().rpc("authenticate_personal_access_token", { p_token: token });
+  if (error) {
+    console.error("Error checking access token:", error);
+    return apiError(500, "Something went wrong");
+  }
+
+  const match = (data as { token_id: string; user_id: string; scope: AccessTokenScope }[] | null)?.[0];
+  if (!match) {
+    return apiError(401, "Invalid or expired access token", { "WWW-Authenticate": 'Bearer error="invalid_token"' });
+  }
+
+  const rateLimit = tokenLimiter.check(match.token_id);
+  if (!rateLimit.allowed) return tooManyRequests(rateLimit.retryAfterSeconds);
+
+  if (write && match.scope !== "write") {
+    return apiError(403, "This token is read-only");
+  }
+
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) {
+    console.error("SUPABASE_JWT_SECRET is not set");
+    return apiError(500, "The API is not configured");
+  }
+
+  return {
+    userId: match.user_id,
+    tokenId: match.token_id,
+    scope: match.scope,
+    supabase: createClient(await signUserJwt(match.user_id, secret)),
+    rateLimit,
+  };
+}
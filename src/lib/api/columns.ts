@@ -0,0 +1,11 @@
+// What the API returns for each resource. Spelled out rather than "*" so
+// new columns (and internal ones like pins.location) don't leak into
+// responses until the OpenAPI document describes them.
+
+export const PROFILE_COLUMNS = "id, username, display_name, avatar_url, bio, is_private, created_at";
+
+export const LIST_COLUMNS =
+  "id, user_id, name, description, emoji_icon, color, is_public, forked_from, forked_at, created_at, updated_at";
+
+export const PIN_COLUMNS =
+  "id, list_id, user_id, place_id, name, address, lat, lng, category, personal_rating, personal_notes, is_visited, source_pin_id, created_at, updated_at";
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { authenticateApiRequest } from "./auth";
+import { PROFILE_COLUMNS } from "./columns";
+import { apiJson, databaseError, pageRange, readPage, toPage } from "./http";
+import { resolveUserId } from "./users";
+
+// GET /api/v1/users/<id>/followers and /following share everything but the
+// direction: `followers` are rows where the user is followed
+export async function listFollows(
+  request: Request,
+  idOrUsername: string,
+  direction: "followers" | "following"
+): Promise<NextResponse> {
+  const context = await authenticateApiRequest(request);
+  if (context instanceof NextResponse) return context;
+
+  const page = readPage(new URL(request.url));
+  if (page instanceof NextResponse) return page;
+
+  const userId = await resolveUserId(context, idOrUsername);
+  if (userId instanceof NextResponse) return userId;
+
+  const [matchColumn, otherColumn] =
+    direction === "followers" ? (["following_id", "follower_id"] as const) : (["follower_id", "following_id"] as const);
+
+  const { data, error } = await context.supabase
+    .from("follows")
+    .select(`created_at, profile:profiles!${otherColumn}(${PROFILE_COLUMNS})`)
+    .eq(matchColumn, userId)
+    .order("created_at", { ascending: false })
+    .order(otherColumn)
+    .range(...pageRange(page));
+  if (error) return databaseError(error);
+
+  const rows = data.map((row) => ({ ...row.profile, followed_at: row.created_at }));
+  return apiJson(context, toPage(rows, page));
+}
@@ -0,0 +1,93 @@
+/**
+ * Response helpers shared by the /api/v1 route handlers. Errors are
+ * `{ "error": message }`, like the other API routes; collections are
+ * `{ "data": [...], "next_offset": n | null }`.
+ */
+
+import { NextResponse } from "next/server";
+import type { PostgrestError } from "@supabase/supabase-js";
+import type { ApiContext } from "./auth";
+
+// Requests per token per minute
+export const TOKEN_RATE_LIMIT = 120;
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface Page {
+  limit: number;
+  offset: number;
+}
+
+export function apiError(status: number, message: string, headers?: Record<string, string>) {
+  return NextResponse.json({ error: message }, { status, headers });
+}
+
+function rateLimitHeaders({ rateLimit }: ApiContext) {
+  return { "X-RateLimit-Limit": String(TOKEN_RATE_LIMIT), "X-RateLimit-Remaining": String(rateLimit.remaining) };
+}
+
+export function apiJson(context: ApiContext, body: unknown, status = 200) {
+  return NextResponse.json(body, { status, headers: rateLimitHeaders(context) });
+}
+
+export function apiNoContent(context: ApiContext) {
+  return new NextResponse(null, { status: 204, headers: rateLimitHeaders(context) });
+}
+
+export function isUuid(value: string) {
+  return UUID_PATTERN.test(value);
+}
+
+// Postgres and PostgREST error codes that are the caller's fault
+export function databaseError(error: PostgrestError) {
+  switch (error.code) {
+    case "42501":
+      return apiError(403, "You don't have access to do that");
+    case "23505":
+      return apiError(409, "That already exists");
+    case "23503":
+      return apiError(404, "A referenced record doesn't exist");
+    case "22P02":
+    case "23502":
+    case "23514":
+      return apiError(400, "Invalid value");
+    case "P0001":
+      return apiError(400, error.message);
+    default:
+      console.error("API database error:", error);
+      return apiError(500, "Something went wrong");
+  }
+}
+
+export function readPage(url: URL): Page | NextResponse {
+  const limit = Number(url.searchParams.get("limit") ?? DEFAULT_PAGE_SIZE);
+  const offset = Number(url.searchParams.get("offset") ?? 0);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return apiError(400, `limit must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return apiError(400, "offset must be 0 or more");
+  }
+  return { limit, offset };
+}
+
+// Pages are fetched with one extra row to tell whether there's another
+export function pageRange({ limit, offset }: Page): [number, number] {
+  return [offset, offset + limit];
+}
+
+export function toPage<T>(rows: T[], { limit, offset }: Page) {
+  return { data: rows.slice(0, limit), next_offset: rows.length > limit ? offset + limit : null };
+}
+
+// Resolves to the parsed body, or a response to send back instead
+export async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return apiError(400, "The request body must be JSON");
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Plumbing for the /api/v1 REST API: token auth, responses, pagination and
+ * body validation. The route handlers live under src/app/api/v1.
+ */
+
+export { authenticateApiRequest, clientAddress, readBearerToken, signUserJwt, type ApiContext } from "./auth";
+export { LIST_COLUMNS, PIN_COLUMNS, PROFILE_COLUMNS } from "./columns";
+export {
+  apiError,
+  apiJson,
+  apiNoContent,
+  databaseError,
+  isUuid,
+  pageRange,
+  readJsonBody,
+  readPage,
+  toPage,
+  MAX_PAGE_SIZE,
+  TOKEN_RATE_LIMIT,
+  type Page,
+} from "./http";
+export {
+  MAX_PINS_PER_REQUEST,
+  parseListInput,
+  parseListUpdate,
+  parsePinsInput,
+  parsePinUpdate,
+  searchTerm,
+  type ListInput,
+  type Parsed,
+  type PinInput,
+  type PinUpdateInput,
+} from "./input";
+export { openApiDocument } from "./openapi";
+export { listFollows } from "./follows";
+export { resolveUserId } from "./users";
@@ -0,0 +1,148 @@
+/**
+ * Request body validation for /api/v1. Bodies are checked field by field
+ * against a spec; unknown fields are rejected so typos in scripts fail
+ * loudly instead of being ignored. Database constraints still apply on top.
+ */
+
+import { isUuid } from "./http";
+
+export type Parsed<T> = { value: T } | { error: string };
+
+type FieldSpec =
+  | { type: "string"; required?: boolean; nullable?: boolean; max: number }
+  | { type: "boolean"; required?: boolean }
+  | { type: "number"; required?: boolean; nullable?: boolean; min: number; max: number; integer?: boolean }
+  | { type: "color"; required?: boolean }
+  | { type: "uuid"; required?: boolean };
+
+type Specs = Record<string, FieldSpec>;
+
+function readField(name: string, value: unknown, spec: FieldSpec): string | null {
+  if (value === null) {
+    return "nullable" in spec && spec.nullable ? null : `${name} can't be null`;
+  }
+
+  switch (spec.type) {
+    case "string":
+      if (typeof value !== "string") return `${name} must be a string`;
+      if (value.trim().length === 0 && !spec.nullable) return `${name} can't be empty`;
+      if (value.length > spec.max) return `${name} must be at most ${spec.max} characters`;
+      return null;
+    case "boolean":
+      return typeof value === "boolean" ? null : `${name} must be true or false`;
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) return `${name} must be a number`;
+      if (spec.integer && !Number.isInteger(value)) return `${name} must be a whole number`;
+      if (value < spec.min || value > spec.max) return `${name} must be between ${spec.min} and ${spec.max}`;
+      return null;
+    case "color":
+      return typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value) ? null : `${name} must be a color like #ff2d92`;
+    case "uuid":
+      return typeof value === "string" && isUuid(value) ? null : `${name} must be an id`;
+  }
+}
+
+function parseFields<T>(body: unknown, specs: Specs, { partial }: { partial: boolean }): Parsed<T> {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { error: "Expected a JSON object" };
+  }
+
+  const fields = body as Record<string, unknown>;
+  const unknown = Object.keys(fields).find((name) => !Object.hasOwn(specs, name));
+  if (unknown) return { error: `Unknown field: ${unknown}` };
+
+  for (const [name, spec] of Object.entries(specs)) {
+    if (fields[name] === undefined) {
+      if (spec.required && !partial) return { error: `${name} is required` };
+      continue;
+    }
+    const error = readField(name, fields[name], spec);
+    if (error) return { error };
+  }
+
+  if (partial && Object.keys(fields).length === 0) {
+    return { error: "Nothing to update" };
+  }
+
+  return { value: fields as T };
+}
+
+export interface ListInput {
+  name: string;
+  description?: string | null;
+  emoji_icon?: string;
+  color?: string;
+  is_public?: boolean;
+}
+
+const LIST_FIELDS: Specs = {
+  name: { type: "string", required: true, max: 100 },
+  description: { type: "string", nullable: true, max: 500 },
+  emoji_icon: { type: "string", max: 16 },
+  color: { type: "color" },
+  is_public: { type: "boolean" },
+};
+
+export function parseListInput(body: unknown): Parsed<ListInput> {
+  return parseFields(body, LIST_FIELDS, { partial: false });
+}
+
+export function parseListUpdate(body: unknown): Parsed<Partial<ListInput>> {
+  return parseFields(body, LIST_FIELDS, { partial: true });
+}
+
+export interface PinInput {
+  name: string;
+  address: string;
+  lat: number;
+  lng: number;
+  category?: string | null;
+  personal_rating?: number | null;
+  personal_notes?: string | null;
+  is_visited?: boolean;
+}
+
+// Moving a pin is an update of list_id
+export type PinUpdateInput = Partial<PinInput> & { list_id?: string };
+
+const PIN_FIELDS: Specs = {
+  name: { type: "string", required: true, max: 200 },
+  address: { type: "string", required: true, max: 500 },
+  lat: { type: "number", required: true, min: -90, max: 90 },
+  lng: { type: "number", required: true, min: -180, max: 180 },
+  category: { type: "string", nullable: true, max: 100 },
+  personal_rating: { type: "number", nullable: true, min: 1, max: 5, integer: true },
+  personal_notes: { type: "string", nullable: true, max: 5000 },
+  is_visited: { type: "boolean" },
+};
+
+export const MAX_PINS_PER_REQUEST = 100;
+
+// One pin, or an array of up to MAX_PINS_PER_REQUEST
+export function parsePinsInput(body: unknown): Parsed<PinInput[]> {
+  const items = Array.isArray(body) ? body : [body];
+  if (items.length === 0) return { error: "Expected at least one pin" };
+  if (items.length > MAX_PINS_PER_REQUEST) {
+    return { error: `At most ${MAX_PINS_PER_REQUEST} pins per request` };
+  }
+
+  const pins: PinInput[] = [];
+  for (const [index, item] of items.entries()) {
+    const parsed = parseFields<PinInput>(item, PIN_FIELDS, { partial: false });
+    if ("error" in parsed) {
+      return { error: Array.isArray(body) ? `Pin ${index}: ${parsed.error}` : parsed.error };
+    }
+    pins.push(parsed.value);
+  }
+  return { value: pins };
+}
+
+export function parsePinUpdate(body: unknown): Parsed<PinUpdateInput> {
+  return parseFields(body, { ...PIN_FIELDS, list_id: { type: "uuid" } }, { partial: true });
+}
+
+// PostgREST filter syntax uses these, so they can't appear in an ilike term
+export function searchTerm(value: string | null): string | null {
+  const term = value?.replace(/[,()%*\\:"]/g, " ").trim() ?? "";
+  return term.length >= 2 && term.length <= 100 ? term : null;
+}
@@ -0,0 +1,313 @@
+/**
+ * OpenAPI 3.1 description of /api/v1, served at /api/v1/openapi.json.
+ * Keep it in step with the route handlers, columns.ts and input.ts.
+ */
+
+import { MAX_PAGE_SIZE, TOKEN_RATE_LIMIT } from "./http";
+import { MAX_PINS_PER_REQUEST } from "./input";
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const json = (schema: object) => ({ "application/json": { schema } });
+
+const error = (description: string) => ({ description, content: json(ref("Error")) });
+
+const ERRORS = {
+  "401": error("Missing, invalid or expired token"),
+  "429": error("Rate limited; see the Retry-After header"),
+};
+
+const WRITE_ERRORS = {
+  ...ERRORS,
+  "400": error("Invalid request body"),
+  "403": error("Read-only token, or not allowed by the list's sharing"),
+};
+
+const one = (schema: string, description = "OK") => ({ description, content: json({ type: "object", properties: { data: ref(schema) } }) });
+
+const page = (schema: string) => ({
+  description: "A page of results",
+  content: json({
+    type: "object",
+    properties: {
+      data: { type: "array", items: ref(schema) },
+      next_offset: { type: ["integer", "null"], description: "Pass as offset for the next page; null on the last one" },
+    },
+  }),
+});
+
+const NO_CONTENT = { "204": { description: "Done" } };
+
+const pathId = (name: string, description: string) => ({ name, in: "path", required: true, schema: { type: "string" }, description });
+
+const PAGE_PARAMETERS = [
+  { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: MAX_PAGE_SIZE, default: 50 } },
+  { name: "offset", in: "query", schema: { type: "integer", minimum: 0, default: 0 } },
+];
+
+const nullable = (schema: object) => ({ oneOf: [schema, { type: "null" }] });
+
+const LIST_FIELDS = {
+  name: { type: "string", minLength: 1, maxLength: 100 },
+  description: nullable({ type: "string", maxLength: 500 }),
+  emoji_icon: { type: "string", maxLength: 16 },
+  color: { type: "string", pattern: "^#[0-9a-fA-F]{6}$" },
+  is_public: { type: "boolean" },
+};
+
+const PIN_FIELDS = {
+  name: { type: "string", minLength: 1, maxLength: 200 },
+  address: { type: "string", minLength: 1, maxLength: 500 },
+  lat: { type: "number", minimum: -90, maximum: 90 },
+  lng: { type: "number", minimum: -180, maximum: 180 },
+  category: nullable({ type: "string", maxLength: 100 }),
+  personal_rating: {
+    ...nullable({ type: "integer", minimum: 1, maximum: 5 }),
+    description:
+      "The latest rated visit's rating. Changing it re-rates the latest visit, or logs a visit for today on a pin without visits.",
+  },
+  personal_notes: nullable({ type: "string", maxLength: 5000 }),
+  is_visited: {
+    type: "boolean",
+    description: "Whether the pin has any visits. Setting it on a pin without visits logs a visit for today.",
+  },
+};
+
+const timestamp = { type: "string", format: "date-time" };
+const uuid = { type: "string", format: "uuid" };
+
+export const openApiDocument = {
+  openapi: "3.1.0",
+  info: {
+    title: "New Fork City API",
+    version: "1.0.0",
+    description:
+      "Read and change lists, pins and follows with a personal access token from Edit profile. " +
+      "Requests see exactly what you see in the app: private lists stay private unless they're shared with you. " +
+      `Each token can make ${TOKEN_RATE_LIMIT} requests a minute; responses carry X-RateLimit-Limit and ` +
+      "X-RateLimit-Remaining headers. Read tokens can only use GET.",
+  },
+  servers: [{ url: "/api/v1" }],
+  security: [{ accessToken: [] }],
+  paths: {
+    "/me": {
+      get: {
+        summary: "The token's owner",
+        responses: {
+          "200": {
+            description: "OK",
+            content: json({
+              type: "object",
+              properties: {
+                data: ref("Profile"),
+                token: { type: "object", properties: { id: uuid, scope: { enum: ["read", "write"] } } },
+              },
+            }),
+          },
+          ...ERRORS,
+        },
+      },
+    },
+    "/me/following/{user}": {
+      parameters: [pathId("user", "User id or username")],
+      put: {
+        summary: "Follow a user, or ask to follow a private account",
+        responses: {
+          ...NO_CONTENT,
+          "202": {
+            description: "The account is private; a follow request is waiting for approval",
+            content: json({
+              type: "object",
+              properties: { data: { type: "object", properties: { status: { type: "string", enum: ["requested"] } } } },
+            }),
+          },
+          ...WRITE_ERRORS,
+          "404": error("No such user"),
+        },
+      },
+      delete: {
+        summary: "Unfollow a user, or withdraw a follow request",
+        responses: { ...NO_CONTENT, ...WRITE_ERRORS, "404": error("No such user") },
+      },
+    },
+    "/users/{user}": {
+      parameters: [pathId("user", "User id or username")],
+      get: { summary: "A user's profile", responses: { "200": one("Profile"), ...ERRORS, "404": error("No such user") } },
+    },
+    "/users/{user}/followers": {
+      parameters: [pathId("user", "User id or username"), ...PAGE_PARAMETERS],
+      get: { summary: "Who follows a user, newest first", responses: { "200": page("Follow"), ...ERRORS } },
+    },
+    "/users/{user}/following": {
+      parameters: [pathId("user", "User id or username"), ...PAGE_PARAMETERS],
+      get: { summary: "Who a user follows, newest first", responses: { "200": page("Follow"), ...ERRORS } },
+    },
+    "/lists": {
+      get: {
+        summary: "A user's lists you can see, most recently updated first",
+        parameters: [
+          { name: "user", in: "query", schema: { type: "string" }, description: "User id or username; defaults to you" },
+          ...PAGE_PARAMETERS,
+        ],
+        responses: { "200": page("List"), ...ERRORS },
+      },
+      post: {
+        summary: "Create a list",
+        requestBody: { required: true, content: json(ref("ListInput")) },
+        responses: { "201": one("List", "Created"), ...WRITE_ERRORS },
+      },
+    },
+    "/lists/{id}": {
+      parameters: [pathId("id", "List id")],
+      get: { summary: "A list", responses: { "200": one("List"), ...ERRORS, "404": error("No such list, or it's private") } },
+      patch: {
+        summary: "Change a list you own",
+        requestBody: { required: true, content: json(ref("ListUpdate")) },
+        responses: { "200": one("List"), ...WRITE_ERRORS, "404": error("No such list, or you don't own it") },
+      },
+      delete: {
+        summary: "Delete a list you own, with its pins",
+        responses: { ...NO_CONTENT, ...WRITE_ERRORS, "404": error("No such list, or you don't own it") },
+      },
+    },
+    "/lists/{id}/pins": {
+      parameters: [pathId("id", "List id")],
+      get: {
+        summary: "A list's pins, newest first",
+        parameters: PAGE_PARAMETERS,
+        responses: { "200": page("Pin"), ...ERRORS, "404": error("No such list, or it's private") },
+      },
+      post: {
+        summary: "Add pins to a list you own or edit",
+        description: `Send one pin, or an array of up to ${MAX_PINS_PER_REQUEST}. An array is added all or nothing and returned as an array.`,
+        requestBody: {
+          required: true,
+          content: json({
+            oneOf: [ref("PinInput"), { type: "array", items: ref("PinInput"), maxItems: MAX_PINS_PER_REQUEST }],
+          }),
+        },
+        responses: {
+          "201": {
+            description: "Created",
+            content: json({
+              type: "object",
+              properties: { data: { oneOf: [ref("Pin"), { type: "array", items: ref("Pin") }] } },
+            }),
+          },
+          ...WRITE_ERRORS,
+          "404": error("No such list, or it's private"),
+        },
+      },
+    },
+    "/pins/{id}": {
+      parameters: [pathId("id", "Pin id")],
+      get: { summary: "A pin", responses: { "200": one("Pin"), ...ERRORS, "404": error("No such pin, or it's private") } },
+      patch: {
+        summary: "Change a pin in a list you own or edit",
+        description: "Setting list_id moves the pin; you need to be able to edit both lists.",
+        requestBody: { required: true, content: json(ref("PinUpdate")) },
+        responses: { "200": one("Pin"), ...WRITE_ERRORS, "404": error("No such pin, or you can't edit it") },
+      },
+      delete: {
+        summary: "Delete a pin in a list you own or edit, or one you added",
+        responses: { ...NO_CONTENT, ...WRITE_ERRORS, "404": error("No such pin, or you can't delete it") },
+      },
+    },
+    "/search": {
+      get: {
+        summary: "Search lists, pins and users you can see",
+        parameters: [
+          { name: "q", in: "query", required: true, schema: { type: "string", minLength: 2, maxLength: 100 } },
+          {
+            name: "type",
+            in: "query",
+            schema: { type: "string", default: "lists,pins,users" },
+            description: "Comma-separated; results only include these keys",
+          },
+          { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 50, default: 20 } },
+        ],
+        responses: {
+          "200": {
+            description: "Matches by type",
+            content: json({
+              type: "object",
+              properties: {
+                lists: { type: "array", items: ref("List") },
+                pins: { type: "array", items: ref("Pin") },
+                users: { type: "array", items: ref("Profile") },
+              },
+            }),
+          },
+          ...ERRORS,
+          "400": error("Missing or invalid q, type or limit"),
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      accessToken: {
+        type: "http",
+        scheme: "bearer",
+        description: "A personal access token (nfc_…) from Edit profile → API tokens",
+      },
+    },
+    schemas: {
+      Error: { type: "object", properties: { error: { type: "string" } }, required: ["error"] },
+      Profile: {
+        type: "object",
+        properties: {
+          id: uuid,
+          username: { type: "string" },
+          display_name: nullable({ type: "string" }),
+          avatar_url: nullable({ type: "string" }),
+          bio: nullable({ type: "string" }),
+          is_private: { type: "boolean", description: "Only approved followers see a private account's lists" },
+          created_at: timestamp,
+        },
+      },
+      Follow: {
+        allOf: [ref("Profile"), { type: "object", properties: { followed_at: timestamp } }],
+      },
+      List: {
+        type: "object",
+        properties: {
+          id: uuid,
+          user_id: uuid,
+          ...LIST_FIELDS,
+          forked_from: nullable(uuid),
+          forked_at: nullable(timestamp),
+          created_at: timestamp,
+          updated_at: timestamp,
+        },
+      },
+      ListInput: { type: "object", properties: LIST_FIELDS, required: ["name"], additionalProperties: false },
+      ListUpdate: { type: "object", properties: LIST_FIELDS, minProperties: 1, additionalProperties: false },
+      Pin: {
+        type: "object",
+        properties: {
+          id: uuid,
+          list_id: uuid,
+          user_id: uuid,
+          place_id: nullable({ type: "string" }),
+          ...PIN_FIELDS,
+          source_pin_id: nullable(uuid),
+          created_at: timestamp,
+          updated_at: timestamp,
+        },
+      },
+      PinInput: {
+        type: "object",
+        properties: PIN_FIELDS,
+        required: ["name", "address", "lat", "lng"],
+        additionalProperties: false,
+      },
+      PinUpdate: {
+        type: "object",
+        properties: { ...PIN_FIELDS, list_id: uuid },
+        minProperties: 1,
+        additionalProperties: false,
+      },
+    },
+  },
+};
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import type { ApiContext } from "./auth";
+import { apiError, databaseError, isUuid } from "./http";
+
+// User paths take an id or a username. Resolves to the id, or a response
+// to send back instead.
+export async function resolveUserId({ supabase }: ApiContext, idOrUsername: string): Promise<string | NextResponse> {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("id")
+    .eq(isUuid(idOrUsername) ? "id" : "username", idOrUsername)
+    .maybeSingle();
+  if (error) return databaseError(error);
+  return data ? data.id : apiError(404, "User not found");
+}
@@ -0,0 +1,66 @@
+/**
+ * Taste compatibility backed by the get_taste_* RPCs in schema.sql
+ */
+
+import { createClient } from "@/lib/supabase/client";
+import type { TasteMatch, TastePlace } from "@/types";
+
+// How far apart two ratings have to be to count as a disagreement
+const DISAGREEMENT_GAP = 2;
+
+export interface TasteComparison {
+  bothLove: TastePlace[];
+  disagreements: TastePlace[];
+  // They rated it 4 or 5 and you haven't been
+  toTry: TastePlace[];
+}
+
+// Keyed by user id; people with nothing to compare are left out
+export async function fetchTasteMatches(userIds: string[]): Promise<Map<string, TasteMatch>> {
+  if (userIds.length === 0) return new Map();
+  const supabase = createClient();
+
+  const { data, error } = await supabase.rpc("get_taste_compatibility", { p_user_ids: userIds });
+  if (error) {
+    console.error("Error loading taste matches:", error);
+    return new Map();
+  }
+
+  return new Map(((data || []) as TasteMatch[]).map((match) => [match.user_id, match]));
+}
+
+export async function fetchTasteComparison(userId: string): Promise<TasteComparison> {
+  const supabase = createClient();
+
+  const { data, error } = await supabase.rpc("get_taste_comparison", { p_user_id: userId });
+  if (error) {
+    console.error("Error loading taste comparison:", error);
+  }
+
+  return compareTastes((data || []) as TastePlace[]);
+}
+
+// Sorts their places into the profile's sections. Rows come best rated
+// first, which each section keeps except disagreements, biggest gap first.
+export function compareTastes(places: TastePlace[]): TasteComparison {
+  const rated = places.filter((p) => p.my_rating !== null && p.their_rating !== null);
+  const gap = (p: TastePlace) => Math.abs(p.my_rating! - p.their_rating!);
+
+  return {
+    bothLove: rated.filter((p) => p.my_rating! >= 4 && p.their_rating! >= 4),
+    disagreements: rated
+      .filter((p) => gap(p) >= DISAGREEMENT_GAP)
+      .sort((a, b) => gap(b) - gap(a)),
+    toTry: places.filter((p) => !p.i_visited && p.their_rating !== null && p.their_rating >= 4),
+  };
+}
+
+// Best matches first, then by followers. Anyone without a match score
+// (nothing to compare yet) goes after everyone with one.
+export function rankByTaste<T extends { id: string; followers_count: number }>(
+  users: T[],
+  matches: Map<string, TasteMatch>
+): T[] {
+  const score = (user: T) => matches.get(user.id)?.score ?? -1;
+  return [...users].sort((a, b) => score(b) - score(a) || b.followers_count - a.followers_count);
+}
@@ -0,0 +1,144 @@
+/**
+ * Flows that take more than one repository call. They only depend on the
+ * DataRepositories interface, so the same code runs against Supabase in the
+ * app and against the in-memory repositories in tests.
+ */
+
+import type { ExportList } from "@/lib/export";
+import type { ImportedPlace } from "@/lib/import";
+import type { List, Pin, PinPhoto } from "@/types";
+import type { DataRepositories, NewPin } from "./repositories";
+
+// Saves copies of pins into one of the user's lists. Owners and editors of
+// the source list keep its visited/notes/rating and can move the pins, which
+// deletes the originals once the copies are in; anyone else gets fresh copies.
+export async function savePinsToList(
+  data: DataRepositories,
+  pins: Pin[],
+  { listId, userId, canEdit, move = false }: { listId: string; userId: string; canEdit: boolean; move?: boolean }
+): Promise<boolean> {
+  const saved = await data.pins.copyToList(pins, { listId, userId, keepPersonalFields: canEdit });
+  if (!saved) return false;
+
+  if (canEdit && move) {
+    await data.pins.deleteMany(pins.map((p) => p.id));
+  }
+  return true;
+}
+
+export interface UpstreamChanges {
+  upstream: List;
+  // Upstream pins added since the fork that the fork doesn't have yet
+  added: Pin[];
+  // Pins in the fork whose upstream pin has since been deleted or moved away
+  removed: Pin[];
+}
+
+// What changed in a fork's source list since it was forked. Null for lists
+// that aren't forks or whose source the user can no longer see. Upstream
+// pins the fork doesn't track are new to it, however old they are (pins
+// can be moved or copied into the source later), unless the fork already
+// has that place. A tracked pin deleted from the fork is offered again.
+export async function getUpstreamChanges(data: DataRepositories, fork: List): Promise<UpstreamChanges | null> {
+  const upstreamId = fork.forked_from;
+  if (!upstreamId) return null;
+
+  const upstream = await data.lists.getById(upstreamId);
+  if (!upstream) return null;
+
+  const [upstreamPins, forkPins] = await Promise.all([
+    data.pins.listByList(upstream.id),
+    data.pins.listByList(fork.id),
+  ]);
+
+  const upstreamIds = new Set(upstreamPins.map((p) => p.id));
+  const trackedIds = new Set(forkPins.map((p) => p.source_pin_id));
+  const forkPlaces = new Set(forkPins.map((p) => p.place_id).filter(Boolean));
+
+  return {
+    upstream,
+    added: upstreamPins.filter((p) => !trackedIds.has(p.id) && !(p.place_id && forkPlaces.has(p.place_id))),
+    removed: forkPins.filter((p) => p.source_pin_id && !upstreamIds.has(p.source_pin_id)),
+  };
+}
+
+// Applies the chosen upstream changes to the fork: added pins are copied in
+// fresh (still linked to their upstream pin) and removed ones are deleted
+export async function pullUpstreamChanges(
+  data: DataRepositories,
+  fork: List,
+  { added, removed }: { added: Pin[]; removed: Pin[] },
+  userId: string
+): Promise<boolean> {
+  const copied = await data.pins.copyToList(added, { listId: fork.id, userId, trackSource: true });
+  if (!copied) return false;
+  return data.pins.deleteMany(removed.map((p) => p.id));
+}
+
+// Rows per insert when importing; a failed batch is retried row by row so
+// one bad place doesn't sink the rest
+const IMPORT_BATCH_SIZE = 50;
+
+export interface ImportResult {
+  imported: number;
+  failed: ImportedPlace[];
+}
+
+// Adds imported places to a list as new pins, reporting progress after
+// each batch. Places without an address get their coordinates instead,
+// since pins require one.
+export async function importPlaces(
+  data: DataRepositories,
+  places: ImportedPlace[],
+  { listId, userId, onProgress }: { listId: string; userId: string; onProgress?: (done: number) => void }
+): Promise<ImportResult> {
+  const toPin = (place: ImportedPlace): NewPin => ({
+    user_id: userId,
+    list_id: listId,
+    name: place.name,
+    address: place.address ?? `${place.lat.toFixed(5)}, ${place.lng.toFixed(5)}`,
+    lat: place.lat,
+    lng: place.lng,
+    personal_notes: place.notes,
+    // Only used if it's a place we know; see resolve_place
+    place_id: place.place_id,
+  });
+
+  const result: ImportResult = { imported: 0, failed: [] };
+
+  for (let start = 0; start < places.length; start += IMPORT_BATCH_SIZE) {
+    const batch = places.slice(start, start + IMPORT_BATCH_SIZE);
+
+    if (await data.pins.createMany(batch.map(toPin))) {
+      result.imported += batch.length;
+    } else {
+      for (const place of batch) {
+        if (await data.pins.create(toPin(place))) {
+          result.imported++;
+        } else {
+          result.failed.push(place);
+        }
+      }
+    }
+
+    onProgress?.(start + batch.length);
+  }
+
+  return result;
+}
+
+// Each list's pins with their photos attached, ready to be written out
+export async function loadListsForExport(data: DataRepositories, lists: List[]): Promise<ExportList[]> {
+  const pinsByList = await Promise.all(lists.map((list) => data.pins.listByList(list.id)));
+  const photos = await data.pins.listPhotos(pinsByList.flat().map((pin) => pin.id));
+
+  const photosByPin = new Map<string, PinPhoto[]>();
+  for (const photo of photos) {
+    photosByPin.set(photo.pin_id, [...(photosByPin.get(photo.pin_id) ?? []), photo]);
+  }
+
+  return lists.map((list, index) => ({
+    list,
+    pins: pinsByList[index].map((pin) => ({ ...pin, photos: photosByPin.get(pin.id) ?? [] })),
+  }));
+}
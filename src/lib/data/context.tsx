@@ -0,0 +1,22 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import { supabaseRepositories } from "./supabase";
+import type { DataRepositories } from "./repositories";
+
+// Defaults to Supabase, so only tests need to render a provider
+const DataContext = createContext<DataRepositories>(supabaseRepositories);
+
+export function DataProvider({
+  repositories,
+  children,
+}: {
+  repositories: DataRepositories;
+  children: React.ReactNode;
+}) {
+  return <DataContext.Provider value={repositories}>{children}</DataContext.Provider>;
+}
+
+export function useData() {
+  return useContext(DataContext);
+}
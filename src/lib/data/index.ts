@@ -0,0 +1,14 @@
+export * from "./repositories";
+export type * from "./rows";
+export { supabaseRepositories } from "./supabase";
+export { createMemoryRepositories, type MemoryRepositories, type MemoryTables } from "./memory";
+export { DataProvider, useData } from "./context";
+export {
+  getUpstreamChanges,
+  importPlaces,
+  loadListsForExport,
+  pullUpstreamChanges,
+  savePinsToList,
+  type ImportResult,
+  type UpstreamChanges,
+} from "./actions";
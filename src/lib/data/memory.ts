@@ -0,0 +1,1127 @@
+/**
+ * In-memory implementation of the data repositories for unit tests. It keeps
+ * plain row arrays and mirrors the Supabase implementation's ordering, joins
+ * and cascades closely enough for page and component flows; it does not
+ * model row level security, so seed only what the signed-in user could see.
+ */
+
+import type {
+  Comment,
+  CommentTarget,
+  Itinerary,
+  List,
+  ListInvite,
+  ListMember,
+  ListWebhook,
+  MemberRole,
+  NotificationType,
+  PersonalAccessToken,
+  Pin,
+  PinPhoto,
+  Poll,
+  Profile,
+  UserNotification,
+  Visit,
+  WebhookDelivery,
+} from "@/types";
+import type {
+  CommentRow,
+  FollowRequestRow,
+  FollowRow,
+  ItineraryRow,
+  ItineraryStopRow,
+  ListInviteRow,
+  ListLikeRow,
+  ListMemberRow,
+  ListRow,
+  NotificationRow,
+  NotificationSettingRow,
+  PersonalAccessTokenRow,
+  PinLikeRow,
+  PinRow,
+  PollOptionRow,
+  PollParticipantRow,
+  PollRow,
+  PollVoteRow,
+  ProfileRow,
+  VisitCompanionRow,
+  VisitRow,
+} from "./rows";
+import { byLatestVisit, deriveVisitFields } from "@/lib/visits";
+import type {
+  DataRepositories,
+  ItineraryStopInput,
+  LikeChange,
+  LikeTarget,
+  ListWithOwner,
+  PollChange,
+} from "./repositories";
+
+export interface MemoryTables {
+  profiles: ProfileRow[];
+  follows: FollowRow[];
+  follow_requests: FollowRequestRow[];
+  lists: ListRow[];
+  list_members: ListMemberRow[];
+  list_invites: ListInviteRow[];
+  pins: PinRow[];
+  pin_photos: PinPhoto[];
+  visits: VisitRow[];
+  visit_companions: VisitCompanionRow[];
+  itineraries: ItineraryRow[];
+  itinerary_stops: ItineraryStopRow[];
+  polls: PollRow[];
+  poll_options: PollOptionRow[];
+  poll_participants: PollParticipantRow[];
+  poll_votes: PollVoteRow[];
+  list_likes: ListLikeRow[];
+  pin_likes: PinLikeRow[];
+  comments: CommentRow[];
+  personal_access_tokens: PersonalAccessTokenRow[];
+  list_webhooks: ListWebhook[];
+  webhook_deliveries: WebhookDelivery[];
+  notifications: NotificationRow[];
+  notification_settings: NotificationSettingRow[];
+}
+
+// What a write reports to the stand-in for Realtime
+type MemoryChange =
+  | { table: "pins"; type: "insert" | "update"; row: PinRow }
+  | { table: "pins"; type: "delete"; id: string }
+  | { table: "lists"; type: "insert"; row: ListRow }
+  | { table: "likes"; target: LikeTarget; change: LikeChange }
+  | { table: "polls"; pollId: string; change: PollChange };
+
+export interface MemoryRepositories extends DataRepositories {
+  tables: MemoryTables;
+  signIn(userId: string | null): void;
+}
+
+function matches(term: string, ...values: Array<string | null>) {
+  const needle = term.toLowerCase();
+  return values.some((value) => value?.toLowerCase().includes(needle));
+}
+
+function byNewest<T extends { created_at: string }>(a: T, b: T) {
+  return b.created_at.localeCompare(a.created_at);
+}
+
+export function createMemoryRepositories(
+  seed: Partial<MemoryTables> = {},
+  { currentUserId = null }: { currentUserId?: string | null } = {}
+): MemoryRepositories {
+  const tables: MemoryTables = {
+    profiles: [...(seed.profiles || [])],
+    follows: [...(seed.follows || [])],
+    follow_requests: [...(seed.follow_requests || [])],
+    lists: [...(seed.lists || [])],
+    list_members: [...(seed.list_members || [])],
+    list_invites: [...(seed.list_invites || [])],
+    pins: [...(seed.pins || [])],
+    pin_photos: [...(seed.pin_photos || [])],
+    visits: [...(seed.visits || [])],
+    visit_companions: [...(seed.visit_companions || [])],
+    itineraries: [...(seed.itineraries || [])],
+    itinerary_stops: [...(seed.itinerary_stops || [])],
+    polls: [...(seed.polls || [])],
+    poll_options: [...(seed.poll_options || [])],
+    poll_participants: [...(seed.poll_participants || [])],
+    poll_votes: [...(seed.poll_votes || [])],
+    list_likes: [...(seed.list_likes || [])],
+    pin_likes: [...(seed.pin_likes || [])],
+    comments: [...(seed.comments || [])],
+    personal_access_tokens: [...(seed.personal_access_tokens || [])],
+    list_webhooks: [...(seed.list_webhooks || [])],
+    webhook_deliveries: [...(seed.webhook_deliveries || [])],
+    notifications: [...(seed.notifications || [])],
+    notification_settings: [...(seed.notification_settings || [])],
+  };
+  let userId = currentUserId;
+
+  // Strictly increasing so "newest first" is stable within a test
+  let clock = Date.now();
+  const now = () => new Date(++clock).toISOString();
+
+  const pinCount = (listId: string) => tables.pins.filter((p) => p.list_id === listId).length;
+  const withPinCount = (list: ListRow): List => ({ ...list, pins_count: pinCount(list.id) });
+  const profileById = (id: string) => tables.profiles.find((p) => p.id === id) ?? null;
+  const listById = (id: string) => tables.lists.find((l) => l.id === id) ?? null;
+
+  // Pins leave out the generated location and updated_at, as in the app
+  const toPin = (row: PinRow): Pin => {
+    const pin: Partial<PinRow> = { ...row };
+    delete pin.location;
+    delete pin.updated_at;
+    return pin as Pin;
+  };
+
+  const toAccessToken = (row: PersonalAccessTokenRow): PersonalAccessToken => {
+    const token: Partial<PersonalAccessTokenRow> = { ...row };
+    delete token.token_hash;
+    return token as PersonalAccessToken;
+  };
+
+  const withOwners = (lists: ListRow[]): ListWithOwner[] =>
+    lists.flatMap((list) => {
+      const owner = profileById(list.user_id);
+      return owner ? [{ ...list, owner, pins_count: pinCount(list.id) }] : [];
+    });
+
+  const commentWithProfile = (comment: CommentRow): Comment => ({
+    ...comment,
+    profile: profileById(comment.user_id) ?? undefined,
+  });
+
+  const toMember = (row: ListMemberRow): ListMember => ({
+    ...row,
+    role: row.role as MemberRole,
+    profile: profileById(row.user_id) ?? undefined,
+  });
+  const memberRow = (listId: string, memberId: string) =>
+    tables.list_members.find((m) => m.list_id === listId && m.user_id === memberId);
+
+  const toVisit = (row: VisitRow): Visit => ({
+    ...row,
+    user: profileById(row.user_id) ?? undefined,
+    companions: tables.visit_companions
+      .filter((c) => c.visit_id === row.id)
+      .flatMap((c) => profileById(c.user_id) ?? []),
+    photos: tables.pin_photos
+      .filter((photo) => photo.visit_id === row.id)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+  });
+
+  const toItinerary = (row: ItineraryRow): Itinerary => ({
+    ...row,
+    profile: profileById(row.user_id) ?? undefined,
+    stops: tables.itinerary_stops
+      .filter((s) => s.itinerary_id === row.id)
+      .sort((a, b) => a.position - b.position),
+  });
+
+  // Stands in for save_itinerary_stops: pins are copied, kept stops stay
+  // as they are and anything unknown is skipped
+  const saveItineraryStops = (itineraryId: string, stops: ItineraryStopInput[]) => {
+    const itinerary = tables.itineraries.find((i) => i.id === itineraryId);
+    if (!itinerary || itinerary.user_id !== userId) return false;
+
+    const saved = stops.flatMap((stop): ItineraryStopRow[] => {
+      const source =
+        "stop_id" in stop
+          ? tables.itinerary_stops.find((s) => s.id === stop.stop_id && s.itinerary_id === itineraryId)
+          : tables.pins.find((p) => p.id === stop.pin_id);
+      if (!source) return [];
+      return [
+        {
+          id: crypto.randomUUID(),
+          itinerary_id: itineraryId,
+          pin_id: "stop_id" in stop ? (source as ItineraryStopRow).pin_id : stop.pin_id,
+          place_id: source.place_id,
+          name: source.name,
+          address: source.address,
+          lat: source.lat,
+          lng: source.lng,
+          position: 0,
+          planned_time: stop.planned_time ? `${stop.planned_time.slice(0, 5)}:00` : null,
+          created_at: now(),
+        },
+      ];
+    });
+    saved.forEach((stop, position) => (stop.position = position));
+
+    tables.itinerary_stops = [...tables.itinerary_stops.filter((s) => s.itinerary_id !== itineraryId), ...saved];
+    itinerary.updated_at = now();
+    return true;
+  };
+
+  const toPoll = (row: PollRow): Poll => ({
+    ...row,
+    creator: profileById(row.creator_id) ?? undefined,
+    options: tables.poll_options.filter((o) => o.poll_id === row.id).sort((a, b) => a.position - b.position),
+    participants: tables.poll_participants
+      .filter((p) => p.poll_id === row.id)
+      .flatMap((p) => profileById(p.user_id) ?? []),
+    votes: tables.poll_votes.filter((v) => v.poll_id === row.id),
+  });
+  const isPollOpen = (poll: PollRow) => !poll.closed_at && poll.closes_at > new Date().toISOString();
+
+  // Stands in for the sync_pin_visits trigger
+  const syncVisitFields = (pinId: string) => {
+    const pin = tables.pins.find((p) => p.id === pinId);
+    if (!pin) return;
+    const fields = deriveVisitFields(tables.visits.filter((v) => v.pin_id === pinId));
+    if (pin.is_visited === fields.is_visited && pin.personal_rating === fields.personal_rating) return;
+    Object.assign(pin, fields, { updated_at: now() });
+    emit({ table: "pins", type: "update", row: { ...pin } });
+  };
+
+  const commentKey = (target: CommentTarget) => (target.type === "pin" ? "pin_id" : "list_id");
+
+  const sortLists = (lists: ListRow[], orderBy: "name" | "updated_at" | "created_at") =>
+    [...lists].sort((a, b) =>
+      orderBy === "name" ? a.name.localeCompare(b.name) : b[orderBy].localeCompare(a[orderBy])
+    );
+
+  // Realtime subscribers hear about each write as soon as it's made
+  const listeners = new Set<(change: MemoryChange) => void>();
+  const emit = (change: MemoryChange) => listeners.forEach((listener) => listener(change));
+  const listen = (listener: (change: MemoryChange) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const repositories: MemoryRepositories = {
+    tables,
+
+    signIn(id) {
+      userId = id;
+    },
+
+    auth: {
+      async getCurrentUserId() {
+        return userId;
+      },
+      async signOut() {
+        userId = null;
+      },
+    },
+
+    profiles: {
+      async getById(id) {
+        return profileById(id);
+      },
+      async getByUsername(username) {
+        return tables.profiles.find((p) => p.username === username) ?? null;
+      },
+      async getMany(ids) {
+        return tables.profiles.filter((p) => ids.includes(p.id));
+      },
+      async browse({ excludeId, limit }) {
+        return tables.profiles.filter((p) => p.id !== excludeId).slice(0, limit);
+      },
+      async search(term, { excludeId, limit }) {
+        return tables.profiles
+          .filter((p) => p.id !== excludeId && matches(term, p.username, p.display_name))
+          .slice(0, limit);
+      },
+      async isUsernameTaken(username, exceptId) {
+        return tables.profiles.some((p) => p.username === username && p.id !== exceptId);
+      },
+      async update(id, patch) {
+        const profile = profileById(id);
+        if (!profile) return false;
+        if (patch.username && tables.profiles.some((p) => p.username === patch.username && p.id !== id)) {
+          return false;
+        }
+        Object.assign(profile, patch);
+        return true;
+      },
+      async getStats(id, { publicListsOnly = false } = {}) {
+        return {
+          lists: tables.lists.filter((l) => l.user_id === id && (!publicListsOnly || l.is_public)).length,
+          pins: tables.pins.filter((p) => p.user_id === id).length,
+          followers: tables.follows.filter((f) => f.following_id === id).length,
+          following: tables.follows.filter((f) => f.follower_id === id).length,
+        };
+      },
+      async withCounts(profiles, { publicListsOnly = false } = {}) {
+        return profiles.map((profile) => ({
+          ...profile,
+          followers_count: tables.follows.filter((f) => f.following_id === profile.id).length,
+          lists_count: tables.lists.filter(
+            (l) => l.user_id === profile.id && (!publicListsOnly || l.is_public)
+          ).length,
+        }));
+      },
+    },
+
+    follows: {
+      async getFollowingIds(id) {
+        return tables.follows.filter((f) => f.follower_id === id).map((f) => f.following_id);
+      },
+      async isFollowing(followerId, followingId) {
+        return tables.follows.some((f) => f.follower_id === followerId && f.following_id === followingId);
+      },
+      async getFollowState(followerId, followingId) {
+        if (await repositories.follows.isFollowing(followerId, followingId)) return "following";
+        const requested = tables.follow_requests.some(
+          (r) => r.follower_id === followerId && r.following_id === followingId
+        );
+        return requested ? "requested" : "none";
+      },
+      async follow(followerId, followingId) {
+        if (followerId === followingId || !profileById(followingId)) return null;
+        const state = await repositories.follows.getFollowState(followerId, followingId);
+        if (state !== "none") return state;
+        const row = { follower_id: followerId, following_id: followingId, created_at: now() };
+        if (profileById(followingId)?.is_private) {
+          tables.follow_requests.push(row);
+          return "requested";
+        }
+        tables.follows.push(row);
+        return "following";
+      },
+      async unfollow(followerId, followingId) {
+        const other = (f: FollowRow) => !(f.follower_id === followerId && f.following_id === followingId);
+        tables.follows = tables.follows.filter(other);
+        tables.follow_requests = tables.follow_requests.filter(other);
+        return true;
+      },
+      async listFollowers(id) {
+        return tables.follows
+          .filter((f) => f.following_id === id)
+          .flatMap((f) => profileById(f.follower_id) ?? [])
+          .sort((a, b) => a.username.localeCompare(b.username));
+      },
+      async listRequests(id) {
+        return tables.follow_requests
+          .filter((r) => r.following_id === id)
+          .sort(byNewest)
+          .map((r) => ({ ...r, follower: profileById(r.follower_id) ?? undefined }));
+      },
+      async approveRequest(id, followerId) {
+        const request = tables.follow_requests.find((r) => r.follower_id === followerId && r.following_id === id);
+        if (!request) return false;
+        await repositories.follows.denyRequest(id, followerId);
+        tables.follows.push({ follower_id: followerId, following_id: id, created_at: now() });
+        return true;
+      },
+      async denyRequest(id, followerId) {
+        tables.follow_requests = tables.follow_requests.filter(
+          (r) => !(r.follower_id === followerId && r.following_id === id)
+        );
+        return true;
+      },
+    },
+
+    lists: {
+      async getById(id) {
+        return listById(id);
+      },
+      async listByOwner(ownerId, { orderBy = "updated_at", publicOnly = false, limit, withPinCounts = false } = {}) {
+        const owned = tables.lists.filter((l) => l.user_id === ownerId && (!publicOnly || l.is_public));
+        const sorted = sortLists(owned, orderBy).slice(0, limit);
+        return withPinCounts ? sorted.map(withPinCount) : sorted;
+      },
+      async listPublicByOwners(ownerIds, { orderBy = "name", limit, withPinCounts = false } = {}) {
+        const owned = tables.lists.filter((l) => ownerIds.includes(l.user_id) && l.is_public);
+        const sorted = sortLists(owned, orderBy).slice(0, limit);
+        return withPinCounts ? sorted.map(withPinCount) : sorted;
+      },
+      async browse({ excludeOwnerId, limit }) {
+        const visible = tables.lists.filter((l) => l.is_public && l.user_id !== excludeOwnerId);
+        return withOwners(sortLists(visible, "updated_at").slice(0, limit));
+      },
+      async search(term, { excludeOwnerId, publicOnly = false, limit }) {
+        return withOwners(
+          tables.lists
+            .filter(
+              (l) =>
+                l.user_id !== excludeOwnerId &&
+                (!publicOnly || l.is_public) &&
+                matches(term, l.name, l.description)
+            )
+            .slice(0, limit)
+        );
+      },
+      async listLikedBy(likerId, { excludeOwnerId } = {}) {
+        const liked = tables.list_likes
+          .filter((like) => like.user_id === likerId)
+          .sort(byNewest)
+          .flatMap((like) => listById(like.list_id) ?? []);
+        return withOwners(liked.filter((l) => l.is_public && l.user_id !== excludeOwnerId));
+      },
+      async listSharedWith(memberId, { roles } = {}) {
+        const listIds = new Set(
+          tables.list_members
+            .filter((m) => m.user_id === memberId && (!roles || roles.includes(m.role as MemberRole)))
+            .map((m) => m.list_id)
+        );
+        return withOwners(sortLists(tables.lists.filter((l) => listIds.has(l.id)), "updated_at"));
+      },
+      async create(list) {
+        const timestamp = now();
+        const row: ListRow = {
+          id: crypto.randomUUID(),
+          description: null,
+          emoji_icon: "📍",
+          color: "#ff2d92",
+          is_public: true,
+          forked_from: null,
+          ...list,
+          // Set by the set_lists_forked_at trigger in the database
+          forked_at: list.forked_from ? timestamp : null,
+          created_at: timestamp,
+          updated_at: timestamp,
+        };
+        tables.lists.push(row);
+        emit({ table: "lists", type: "insert", row });
+        return row;
+      },
+      async update(id, patch) {
+        const list = listById(id);
+        if (!list) return null;
+        Object.assign(list, patch, { updated_at: now() });
+        return list;
+      },
+      async delete(id) {
+        const pinIds = new Set(tables.pins.filter((p) => p.list_id === id).map((p) => p.id));
+        tables.lists = tables.lists.filter((l) => l.id !== id);
+        tables.list_members = tables.list_members.filter((m) => m.list_id !== id);
+        tables.list_invites = tables.list_invites.filter((invite) => invite.list_id !== id);
+        tables.list_likes = tables.list_likes.filter((like) => like.list_id !== id);
+        tables.comments = tables.comments.filter((c) => c.list_id !== id);
+        tables.notifications = tables.notifications.filter((n) => n.list_id !== id);
+        for (const webhook of tables.list_webhooks.filter((w) => w.list_id === id)) {
+          await repositories.webhooks.remove(webhook.id);
+        }
+        await repositories.pins.deleteMany([...pinIds]);
+        return true;
+      },
+      async fork(list, ownerId) {
+        const fork = await repositories.lists.create({
+          user_id: ownerId,
+          name: list.name,
+          description: list.description,
+          emoji_icon: list.emoji_icon,
+          color: list.color,
+          is_public: true,
+          forked_from: list.id,
+        });
+        if (!fork) return null;
+        await repositories.pins.copyToList(await repositories.pins.listByList(list.id), {
+          listId: fork.id,
+          userId: ownerId,
+          trackSource: true,
+        });
+        return fork;
+      },
+      async countForks(listId) {
+        return tables.lists.filter((l) => l.forked_from === listId).length;
+      },
+    },
+
+    pins: {
+      async listByList(listId) {
+        return tables.pins.filter((p) => p.list_id === listId).sort(byNewest).map(toPin);
+      },
+      async listRecentByUsers(userIds, limit) {
+        return tables.pins
+          .filter((p) => userIds.includes(p.user_id))
+          .sort(byNewest)
+          .slice(0, limit)
+          .map((p) => ({ ...toPin(p), list: listById(p.list_id) ?? undefined }));
+      },
+      async getSavedBy(placeId, excludePinId) {
+        if (!placeId) return [];
+        return tables.pins
+          .filter((p) => p.place_id === placeId && p.id !== excludePinId)
+          .flatMap((p) => {
+            const list = listById(p.list_id);
+            if (!list) return [];
+            const owner: Profile = profileById(list.user_id) ?? {
+              id: p.user_id,
+              username: "unknown",
+              display_name: null,
+              avatar_url: null,
+              bio: null,
+              is_private: false,
+              created_at: p.created_at,
+            };
+            return [{ pin: toPin(p), list, owner }];
+          });
+      },
+      async create(pin) {
+        const timestamp = now();
+        const row: PinRow = {
+          id: crypto.randomUUID(),
+          place_id: null,
+          category: null,
+          personal_rating: null,
+          personal_notes: null,
+          is_visited: false,
+          source_pin_id: null,
+          saved_from_pin_id: null,
+          ...pin,
+          location: null,
+          created_at: timestamp,
+          updated_at: timestamp,
+        };
+        tables.pins.push(row);
+        emit({ table: "pins", type: "insert", row });
+        return { ...toPin(row), list: listById(row.list_id) ?? undefined };
+      },
+      async createMany(pins) {
+        for (const pin of pins) {
+          await repositories.pins.create(pin);
+        }
+        return true;
+      },
+      async update(id, patch) {
+        const pin = tables.pins.find((p) => p.id === id);
+        if (!pin) return null;
+        Object.assign(pin, patch, { updated_at: now() });
+        emit({ table: "pins", type: "update", row: { ...pin } });
+        return { ...toPin(pin), list: listById(pin.list_id) ?? undefined };
+      },
+      async delete(id) {
+        return repositories.pins.deleteMany([id]);
+      },
+      async deleteMany(ids) {
+        const removed = new Set(ids);
+        tables.pins = tables.pins.filter((p) => !removed.has(p.id));
+        tables.pin_photos = tables.pin_photos.filter((photo) => !removed.has(photo.pin_id));
+        const removedVisits = new Set(tables.visits.filter((v) => removed.has(v.pin_id)).map((v) => v.id));
+        tables.visits = tables.visits.filter((v) => !removedVisits.has(v.id));
+        tables.visit_companions = tables.visit_companions.filter((c) => !removedVisits.has(c.visit_id));
+        tables.itinerary_stops.forEach((stop) => {
+          if (stop.pin_id && removed.has(stop.pin_id)) stop.pin_id = null;
+        });
+        tables.pin_likes = tables.pin_likes.filter((like) => !removed.has(like.pin_id));
+        tables.comments = tables.comments.filter((c) => !c.pin_id || !removed.has(c.pin_id));
+        tables.notifications = tables.notifications.filter((n) => !n.pin_id || !removed.has(n.pin_id));
+        removed.forEach((id) => emit({ table: "pins", type: "delete", id }));
+        return true;
+      },
+      async copyToList(source, { listId, userId: ownerId, keepPersonalFields = false, trackSource = false, personal = {} }) {
+        for (const pin of source) {
+          await repositories.pins.create({
+            user_id: ownerId,
+            list_id: listId,
+            place_id: pin.place_id,
+            name: pin.name,
+            address: pin.address,
+            lat: pin.lat,
+            lng: pin.lng,
+            category: pin.category,
+            is_visited: keepPersonalFields ? pin.is_visited : personal.is_visited ?? false,
+            personal_notes: keepPersonalFields ? pin.personal_notes : personal.personal_notes ?? null,
+            personal_rating: keepPersonalFields ? pin.personal_rating : null,
+            source_pin_id: trackSource ? pin.id : null,
+            saved_from_pin_id: pin.id,
+          });
+        }
+        return true;
+      },
+      async listPhotos(pinIds) {
+        return tables.pin_photos
+          .filter((photo) => pinIds.includes(photo.pin_id))
+          .sort((a, b) => a.created_at.localeCompare(b.created_at));
+      },
+    },
+
+    visits: {
+      async list(pinId) {
+        return tables.visits
+          .filter((v) => v.pin_id === pinId)
+          .sort(byLatestVisit)
+          .map(toVisit);
+      },
+      async create(visit, companionIds) {
+        const row: VisitRow = {
+          id: crypto.randomUUID(),
+          visited_on: now().slice(0, 10),
+          rating: null,
+          notes: null,
+          ...visit,
+          created_at: now(),
+        };
+        tables.visits.push(row);
+        tables.visit_companions.push(...companionIds.map((id) => ({ visit_id: row.id, user_id: id })));
+        syncVisitFields(row.pin_id);
+        return toVisit(row);
+      },
+      async update(id, patch, companionIds) {
+        const visit = tables.visits.find((v) => v.id === id);
+        if (!visit) return false;
+        Object.assign(visit, patch);
+        if (companionIds) {
+          tables.visit_companions = [
+            ...tables.visit_companions.filter((c) => c.visit_id !== id),
+            ...companionIds.map((companionId) => ({ visit_id: id, user_id: companionId })),
+          ];
+        }
+        syncVisitFields(visit.pin_id);
+        return true;
+      },
+      async delete(id) {
+        const visit = tables.visits.find((v) => v.id === id);
+        if (!visit) return true;
+        tables.visits = tables.visits.filter((v) => v.id !== id);
+        tables.visit_companions = tables.visit_companions.filter((c) => c.visit_id !== id);
+        tables.pin_photos.forEach((photo) => {
+          if (photo.visit_id === id) photo.visit_id = null;
+        });
+        syncVisitFields(visit.pin_id);
+        return true;
+      },
+    },
+
+    itineraries: {
+      async listByOwner(ownerId) {
+        return tables.itineraries
+          .filter((i) => i.user_id === ownerId)
+          .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+          .map((row) => ({ ...row }));
+      },
+      async getById(id) {
+        const row = tables.itineraries.find((i) => i.id === id);
+        return row ? toItinerary(row) : null;
+      },
+      async create(itinerary, stops) {
+        const timestamp = now();
+        const row: ItineraryRow = {
+          id: crypto.randomUUID(),
+          planned_for: null,
+          is_public: false,
+          ...itinerary,
+          created_at: timestamp,
+          updated_at: timestamp,
+        };
+        tables.itineraries.push(row);
+        if (stops.length > 0) saveItineraryStops(row.id, stops);
+        return toItinerary(row);
+      },
+      async update(id, patch, stops) {
+        const itinerary = tables.itineraries.find((i) => i.id === id);
+        if (!itinerary || itinerary.user_id !== userId) return false;
+        Object.assign(itinerary, patch, { updated_at: now() });
+        return stops ? saveItineraryStops(id, stops) : true;
+      },
+      async delete(id) {
+        tables.itineraries = tables.itineraries.filter((i) => i.id !== id);
+        tables.itinerary_stops = tables.itinerary_stops.filter((s) => s.itinerary_id !== id);
+        return true;
+      },
+    },
+
+    // Closing at the deadline is left to the database job; seed closed polls
+    polls: {
+      async getById(id) {
+        const row = tables.polls.find((p) => p.id === id);
+        const isParticipant = tables.poll_participants.some((p) => p.poll_id === id && p.user_id === userId);
+        return row && isParticipant ? toPoll(row) : null;
+      },
+      // Stands in for create_poll
+      async create({ question, closes_at, pinIds, inviteeIds }) {
+        if (!userId || closes_at <= new Date().toISOString()) return null;
+        const pins = [...new Set(pinIds)].flatMap((id) => tables.pins.find((p) => p.id === id) ?? []);
+        if (pins.length < 2 || pins.length > 10 || inviteeIds.length > 50) return null;
+
+        const creatorId = userId;
+        const row: PollRow = {
+          id: crypto.randomUUID(),
+          creator_id: creatorId,
+          question,
+          closes_at,
+          closed_at: null,
+          winner_option_id: null,
+          created_at: now(),
+        };
+        tables.polls.push(row);
+        pins.forEach((pin, position) =>
+          tables.poll_options.push({
+            id: crypto.randomUUID(),
+            poll_id: row.id,
+            pin_id: pin.id,
+            place_id: pin.place_id,
+            name: pin.name,
+            address: pin.address,
+            lat: pin.lat,
+            lng: pin.lng,
+            position,
+            created_at: now(),
+          })
+        );
+        const followers = new Set(tables.follows.filter((f) => f.following_id === creatorId).map((f) => f.follower_id));
+        [creatorId, ...inviteeIds.filter((id) => followers.has(id))].forEach((id) => {
+          if (!tables.poll_participants.some((p) => p.poll_id === row.id && p.user_id === id)) {
+            tables.poll_participants.push({ poll_id: row.id, user_id: id, created_at: now() });
+          }
+        });
+        return row.id;
+      },
+      async setChoice({ pollId, optionId }, voterId, choice) {
+        const poll = tables.polls.find((p) => p.id === pollId);
+        const option = tables.poll_options.find((o) => o.id === optionId && o.poll_id === pollId);
+        const isParticipant = tables.poll_participants.some((p) => p.poll_id === pollId && p.user_id === voterId);
+        if (!poll || !option || !isParticipant || !isPollOpen(poll)) return false;
+
+        const unvote = (row: PollVoteRow) => {
+          tables.poll_votes = tables.poll_votes.filter((v) => v !== row);
+          emit({ table: "polls", pollId, change: { type: "unvote", optionId: row.option_id, userId: row.user_id } });
+        };
+        const existing = tables.poll_votes.find((v) => v.option_id === optionId && v.user_id === voterId);
+        if (existing) unvote(existing);
+        if (!choice) return true;
+
+        if (choice === "veto") {
+          tables.poll_votes
+            .filter((v) => v.poll_id === pollId && v.user_id === voterId && v.is_veto)
+            .forEach(unvote);
+        }
+        const vote: PollVoteRow = {
+          poll_id: pollId,
+          option_id: optionId,
+          user_id: voterId,
+          is_veto: choice === "veto",
+          created_at: existing?.created_at ?? now(),
+        };
+        tables.poll_votes.push(vote);
+        emit({ table: "polls", pollId, change: { type: "vote", vote: { ...vote } } });
+        return true;
+      },
+      async delete(id) {
+        const poll = tables.polls.find((p) => p.id === id);
+        if (!poll || poll.creator_id !== userId) return false;
+        tables.polls = tables.polls.filter((p) => p.id !== id);
+        tables.poll_options = tables.poll_options.filter((o) => o.poll_id !== id);
+        tables.poll_participants = tables.poll_participants.filter((p) => p.poll_id !== id);
+        tables.poll_votes = tables.poll_votes.filter((v) => v.poll_id !== id);
+        tables.notifications = tables.notifications.filter((n) => n.poll_id !== id);
+        return true;
+      },
+    },
+
+    likes: {
+      async getStatus(target, likerId) {
+        const rows =
+          target.type === "list"
+            ? tables.list_likes.filter((like) => like.list_id === target.id)
+            : tables.pin_likes.filter((like) => like.pin_id === target.id);
+        return { liked: rows.some((like) => like.user_id === likerId), count: rows.length };
+      },
+      async like(target, likerId) {
+        const { liked } = await repositories.likes.getStatus(target, likerId);
+        if (liked) return false;
+        if (target.type === "list") {
+          tables.list_likes.push({ user_id: likerId, list_id: target.id, created_at: now() });
+        } else {
+          tables.pin_likes.push({ user_id: likerId, pin_id: target.id, created_at: now() });
+        }
+        emit({ table: "likes", target, change: { userId: likerId, liked: true } });
+        return true;
+      },
+      async unlike(target, likerId) {
+        const { liked } = await repositories.likes.getStatus(target, likerId);
+        if (target.type === "list") {
+          tables.list_likes = tables.list_likes.filter(
+            (like) => !(like.list_id === target.id && like.user_id === likerId)
+          );
+        } else {
+          tables.pin_likes = tables.pin_likes.filter(
+            (like) => !(like.pin_id === target.id && like.user_id === likerId)
+          );
+        }
+        if (liked) emit({ table: "likes", target, change: { userId: likerId, liked: false } });
+        return true;
+      },
+    },
+
+    comments: {
+      async list(target, { offset, limit }) {
+        const all = tables.comments.filter((c) => c[commentKey(target)] === target.id).sort(byNewest);
+        return { comments: all.slice(offset, offset + limit).map(commentWithProfile), total: all.length };
+      },
+      async count(target) {
+        return tables.comments.filter((c) => c[commentKey(target)] === target.id).length;
+      },
+      async create(target, comment) {
+        const timestamp = now();
+        const row: CommentRow = {
+          id: crypto.randomUUID(),
+          pin_id: null,
+          list_id: null,
+          ...comment,
+          [commentKey(target)]: target.id,
+          created_at: timestamp,
+          updated_at: timestamp,
+        };
+        tables.comments.push(row);
+        return commentWithProfile(row);
+      },
+      async update(id, content) {
+        const comment = tables.comments.find((c) => c.id === id);
+        if (!comment) return null;
+        Object.assign(comment, { content, updated_at: now() });
+        return commentWithProfile(comment);
+      },
+      async delete(id) {
+        tables.comments = tables.comments.filter((c) => c.id !== id);
+        return true;
+      },
+    },
+
+    members: {
+      async getRole(listId, memberId) {
+        if (!memberId) return null;
+        if (listById(listId)?.user_id === memberId) return "owner";
+        return (memberRow(listId, memberId)?.role as MemberRole | undefined) ?? null;
+      },
+      async list(listId) {
+        return tables.list_members
+          .filter((m) => m.list_id === listId)
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          .map(toMember);
+      },
+      async add(listId, { userId: memberId, role, invitedBy }) {
+        if (memberRow(listId, memberId) || listById(listId)?.user_id === memberId) return false;
+        tables.list_members.push({
+          list_id: listId,
+          user_id: memberId,
+          role,
+          invited_by: invitedBy,
+          created_at: now(),
+        });
+        return true;
+      },
+      async updateRole(listId, memberId, role) {
+        const member = memberRow(listId, memberId);
+        if (member) member.role = role;
+        return true;
+      },
+      async remove(listId, memberId) {
+        tables.list_members = tables.list_members.filter(
+          (m) => !(m.list_id === listId && m.user_id === memberId)
+        );
+        return true;
+      },
+      async listInvites(listId) {
+        return tables.list_invites
+          .filter((invite) => invite.list_id === listId)
+          .sort(byNewest) as ListInvite[];
+      },
+      async createInvite(listId, role, createdBy) {
+        const row: ListInviteRow = {
+          id: crypto.randomUUID(),
+          list_id: listId,
+          token: crypto.randomUUID().replaceAll("-", ""),
+          role,
+          created_by: createdBy,
+          created_at: now(),
+        };
+        tables.list_invites.push(row);
+        return row as ListInvite;
+      },
+      async revokeInvite(id) {
+        tables.list_invites = tables.list_invites.filter((invite) => invite.id !== id);
+        return true;
+      },
+      async acceptInvite(token) {
+        const invite = tables.list_invites.find((i) => i.token === token);
+        if (!userId || !invite) return null;
+
+        // Same rules as accept_list_invite: join, or upgrade a viewer, never downgrade
+        const role = await repositories.members.getRole(invite.list_id, userId);
+        if (!role) {
+          await repositories.members.add(invite.list_id, {
+            userId,
+            role: invite.role as MemberRole,
+            invitedBy: invite.created_by,
+          });
+        } else if (role === "viewer" && invite.role === "editor") {
+          await repositories.members.updateRole(invite.list_id, userId, "editor");
+        }
+        return invite.list_id;
+      },
+    },
+
+    layers: {
+      async getLayers(ownerId) {
+        const ownLists = await repositories.lists.listByOwner(ownerId, { orderBy: "name" });
+        const followingIds = await repositories.follows.getFollowingIds(ownerId);
+        const followedLists = await repositories.lists.listPublicByOwners(followingIds, { orderBy: "name" });
+
+        return {
+          ownLists,
+          followed: (await repositories.profiles.getMany(followingIds))
+            .map((profile) => ({
+              profile,
+              lists: followedLists.filter((l) => l.user_id === profile.id),
+            }))
+            .filter((f) => f.lists.length > 0),
+        };
+      },
+    },
+
+    // Tokens are kept as-is rather than hashed; nothing here checks them
+    accessTokens: {
+      async list(ownerId) {
+        return tables.personal_access_tokens
+          .filter((t) => t.user_id === ownerId)
+          .sort(byNewest)
+          .map(toAccessToken);
+      },
+      async create(name, { scope, expiresAt }) {
+        if (!userId) return null;
+        const token = `nfc_${crypto.randomUUID().replaceAll("-", "")}`;
+        tables.personal_access_tokens.push({
+          id: crypto.randomUUID(),
+          user_id: userId,
+          name: name.trim(),
+          token_hash: token,
+          token_prefix: token.slice(0, 12),
+          scope,
+          expires_at: expiresAt,
+          last_used_at: null,
+          created_at: now(),
+        });
+        return token;
+      },
+      async revoke(id) {
+        tables.personal_access_tokens = tables.personal_access_tokens.filter((t) => t.id !== id);
+        return true;
+      },
+    },
+
+    // There are no triggers here, so deliveries only come from sendTest or the seed
+    webhooks: {
+      async list(listId) {
+        return tables.list_webhooks
+          .filter((w) => w.list_id === listId)
+          .sort((a, b) => a.created_at.localeCompare(b.created_at));
+      },
+      async create(listId, { url, events }, createdBy) {
+        const row: ListWebhook = {
+          id: crypto.randomUUID(),
+          list_id: listId,
+          url,
+          events,
+          secret: `whsec_${crypto.randomUUID().replaceAll("-", "")}`,
+          is_active: true,
+          created_by: createdBy,
+          created_at: now(),
+        };
+        tables.list_webhooks.push(row);
+        return row;
+      },
+      async update(id, changes) {
+        tables.list_webhooks = tables.list_webhooks.map((w) => (w.id === id ? { ...w, ...changes } : w));
+        return true;
+      },
+      async remove(id) {
+        tables.list_webhooks = tables.list_webhooks.filter((w) => w.id !== id);
+        tables.webhook_deliveries = tables.webhook_deliveries.filter((d) => d.webhook_id !== id);
+        return true;
+      },
+      async sendTest(id) {
+        if (!tables.list_webhooks.some((w) => w.id === id)) return false;
+        const createdAt = now();
+        tables.webhook_deliveries.push({
+          id: crypto.randomUUID(),
+          webhook_id: id,
+          event: "ping",
+          payload: { webhook_id: id },
+          status: "pending",
+          attempts: 0,
+          next_attempt_at: createdAt,
+          response_status: null,
+          last_error: null,
+          created_at: createdAt,
+          delivered_at: null,
+        });
+        return true;
+      },
+      async listDeliveries(webhookIds, limit) {
+        return tables.webhook_deliveries
+          .filter((d) => webhookIds.includes(d.webhook_id))
+          .sort(byNewest)
+          .slice(0, limit);
+      },
+    },
+
+    // Likewise nothing writes notifications here; seed them
+    notifications: {
+      async list(recipientId, limit) {
+        return tables.notifications
+          .filter((n) => n.user_id === recipientId)
+          .sort(byNewest)
+          .slice(0, limit)
+          .map((n): UserNotification => {
+            const list = n.list_id ? listById(n.list_id) : null;
+            const pin = n.pin_id ? tables.pins.find((p) => p.id === n.pin_id) : null;
+            const poll = n.poll_id ? tables.polls.find((p) => p.id === n.poll_id) : null;
+            const winner = poll && tables.poll_options.find((o) => o.id === poll.winner_option_id);
+            return {
+              ...n,
+              type: n.type as NotificationType,
+              actor: profileById(n.actor_id) ?? undefined,
+              list: list && { id: list.id, name: list.name, emoji_icon: list.emoji_icon },
+              pin: pin && { id: pin.id, name: pin.name, list_id: pin.list_id },
+              poll: poll && { id: poll.id, question: poll.question, winner: winner ? { name: winner.name } : null },
+            };
+          });
+      },
+      async countUnread(recipientId) {
+        return tables.notifications.filter((n) => n.user_id === recipientId && !n.read_at).length;
+      },
+      async markRead(ids) {
+        const readAt = now();
+        for (const n of tables.notifications) {
+          if (ids.includes(n.id) && !n.read_at) n.read_at = readAt;
+        }
+        return true;
+      },
+      async markAllRead(recipientId) {
+        const readAt = now();
+        for (const n of tables.notifications) {
+          if (n.user_id === recipientId && !n.read_at) n.read_at = readAt;
+        }
+        return true;
+      },
+      async getMutedTypes(ownerId) {
+        const settings = tables.notification_settings.find((s) => s.user_id === ownerId);
+        return (settings?.muted_types || []) as NotificationType[];
+      },
+      async setMutedTypes(ownerId, types) {
+        tables.notification_settings = [
+          ...tables.notification_settings.filter((s) => s.user_id !== ownerId),
+          { user_id: ownerId, muted_types: types, updated_at: now() },
+        ];
+        return true;
+      },
+    },
+
+    // Like Supabase, deletes reach every pin subscriber with just the id
+    realtime: {
+      subscribeToPins(listId, onChange) {
+        return listen((change) => {
+          if (change.table !== "pins") return;
+          if (change.type === "delete") {
+            onChange({ type: "delete", id: change.id });
+          } else if (change.row.list_id === listId) {
+            onChange({ type: change.type, pin: toPin(change.row) });
+          } else if (change.type === "update") {
+            // Moved out, or changed on another list
+            onChange({ type: "delete", id: change.row.id });
+          }
+        });
+      },
+      subscribeToLikes(target, onChange) {
+        return listen((change) => {
+          if (change.table === "likes" && change.target.type === target.type && change.target.id === target.id) {
+            onChange(change.change);
+          }
+        });
+      },
+      subscribeToActivity(userIds, onEvent) {
+        return listen((change) => {
+          if (change.table === "pins" && change.type === "insert" && userIds.includes(change.row.user_id)) {
+            onEvent({ type: "pin_added", pin: toPin(change.row) });
+          } else if (change.table === "lists" && change.row.is_public && userIds.includes(change.row.user_id)) {
+            onEvent({ type: "list_created", list: change.row });
+          }
+        });
+      },
+      subscribeToPoll(pollId, onChange) {
+        return listen((change) => {
+          if (change.table === "polls" && change.pollId === pollId) onChange(change.change);
+        });
+      },
+    },
+  };
+
+  return repositories;
+}
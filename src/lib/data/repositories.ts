@@ -0,0 +1,349 @@
+/**
+ * The data-access contract pages and components code against. There are two
+ * implementations: Supabase (supabase.ts) for the app and an in-memory one
+ * (memory.ts) for tests. Reads return [] or null when something goes wrong
+ * and log the error; writes report success as a boolean or the saved row.
+ */
+
+import type {
+  AccessTokenScope,
+  Comment,
+  CommentTarget,
+  FollowRequest,
+  FollowState,
+  Itinerary,
+  List,
+  ListInvite,
+  ListMember,
+  ListRole,
+  ListWebhook,
+  MemberRole,
+  NotificationType,
+  PersonalAccessToken,
+  Pin,
+  PinPhoto,
+  Poll,
+  PollVote,
+  Profile,
+  SavedByInfo,
+  UserNotification,
+  Visit,
+  WebhookDelivery,
+  WebhookEvent,
+} from "@/types";
+import type { CommentInsert, ItineraryInsert, ListInsert, PinInsert, ProfileInsert, VisitInsert } from "./rows";
+
+export type ProfileUpdate = Partial<Omit<ProfileInsert, "id" | "created_at">>;
+export type ListUpdate = Partial<Omit<ListInsert, "id" | "user_id" | "created_at" | "updated_at">>;
+export type PinUpdate = Partial<Omit<PinInsert, "id" | "user_id" | "created_at" | "updated_at">>;
+export type NewList = Omit<ListInsert, "id" | "created_at" | "updated_at">;
+export type NewPin = Omit<PinInsert, "id" | "created_at" | "updated_at">;
+export type NewComment = Omit<CommentInsert, "id" | "pin_id" | "list_id" | "created_at" | "updated_at">;
+export type NewVisit = Omit<VisitInsert, "id" | "created_at">;
+export type VisitUpdate = Partial<Pick<VisitInsert, "visited_on" | "rating" | "notes">>;
+export type NewItinerary = Omit<ItineraryInsert, "id" | "created_at" | "updated_at">;
+export type ItineraryUpdate = Partial<Pick<ItineraryInsert, "name" | "planned_for" | "is_public">>;
+
+// A stop is added from a pin, or kept by the id of a stop already saved
+// (whose pin may since have been deleted). planned_time is HH:MM.
+export type ItineraryStopInput = ({ pin_id: string } | { stop_id: string }) & { planned_time: string | null };
+
+// Likes and comments attach to the same two kinds of things
+export type LikeTarget = CommentTarget;
+
+export interface CopyTarget {
+  listId: string;
+  userId: string;
+  keepPersonalFields?: boolean;
+  // Record each source pin's id on its copy, for forks
+  trackSource?: boolean;
+  personal?: { is_visited?: boolean; personal_notes?: string | null };
+}
+
+export interface ProfileStats {
+  lists: number;
+  pins: number;
+  followers: number;
+  following: number;
+}
+
+export interface ProfileWithCounts extends Profile {
+  followers_count: number;
+  lists_count: number;
+}
+
+export interface ListWithOwner extends List {
+  owner: Profile;
+  pins_count: number;
+}
+
+export interface LikeStatus {
+  liked: boolean;
+  count: number;
+}
+
+export interface CommentPage {
+  comments: Comment[];
+  total: number;
+}
+
+export interface FollowedLayers {
+  profile: Profile;
+  lists: List[];
+}
+
+export interface MapLayers {
+  ownLists: List[];
+  followed: FollowedLayers[];
+}
+
+// Stops a Realtime subscription
+export type Unsubscribe = () => void;
+
+export type PinChange =
+  | { type: "insert" | "update"; pin: Pin }
+  // Deletes carry only the id
+  | { type: "delete"; id: string };
+
+export interface LikeChange {
+  userId: string;
+  liked: boolean;
+}
+
+export type ActivityEvent = { type: "pin_added"; pin: Pin } | { type: "list_created"; list: List };
+
+export type PollChange =
+  | { type: "vote"; vote: PollVote }
+  // Deletes carry only the key, so they arrive for every poll; ignore
+  // options you don't know
+  | { type: "unvote"; optionId: string; userId: string }
+  | { type: "closed"; poll: Pick<Poll, "id" | "closed_at" | "winner_option_id"> };
+
+// What a participant says about one option
+export type PollChoice = "vote" | "veto";
+
+export interface NewPoll {
+  question: string;
+  closes_at: string;
+  // In the order the options should appear
+  pinIds: string[];
+  inviteeIds: string[];
+}
+
+export interface AuthRepository {
+  getCurrentUserId(): Promise<string | null>;
+  signOut(): Promise<void>;
+}
+
+export interface ProfilesRepository {
+  getById(id: string): Promise<Profile | null>;
+  getByUsername(username: string): Promise<Profile | null>;
+  getMany(ids: string[]): Promise<Profile[]>;
+  // A first page of profiles for "people to follow" style lists
+  browse(options: { excludeId?: string | null; limit: number }): Promise<Profile[]>;
+  search(query: string, options: { excludeId?: string | null; limit: number }): Promise<Profile[]>;
+  isUsernameTaken(username: string, exceptId: string): Promise<boolean>;
+  update(id: string, patch: ProfileUpdate): Promise<boolean>;
+  // Public-only list counts when someone else is looking
+  getStats(userId: string, options?: { publicListsOnly?: boolean }): Promise<ProfileStats>;
+  withCounts(profiles: Profile[], options?: { publicListsOnly?: boolean }): Promise<ProfileWithCounts[]>;
+}
+
+export interface FollowsRepository {
+  getFollowingIds(userId: string): Promise<string[]>;
+  isFollowing(followerId: string, followingId: string): Promise<boolean>;
+  getFollowState(followerId: string, followingId: string): Promise<FollowState>;
+  // Private accounts get a request instead; null if neither happened
+  follow(followerId: string, followingId: string): Promise<Exclude<FollowState, "none"> | null>;
+  // Also withdraws a pending request
+  unfollow(followerId: string, followingId: string): Promise<boolean>;
+  // Requests waiting for userId's approval, newest first
+  listRequests(userId: string): Promise<FollowRequest[]>;
+  approveRequest(userId: string, followerId: string): Promise<boolean>;
+  denyRequest(userId: string, followerId: string): Promise<boolean>;
+  // People following userId, by username
+  listFollowers(userId: string): Promise<Profile[]>;
+}
+
+export interface ListsRepository {
+  getById(id: string): Promise<List | null>;
+  listByOwner(
+    userId: string,
+    options?: { orderBy?: "name" | "updated_at"; publicOnly?: boolean; limit?: number; withPinCounts?: boolean }
+  ): Promise<List[]>;
+  listPublicByOwners(
+    userIds: string[],
+    options?: { orderBy?: "name" | "updated_at" | "created_at"; limit?: number; withPinCounts?: boolean }
+  ): Promise<List[]>;
+  // Public lists from everyone else, newest activity first
+  browse(options: { excludeOwnerId?: string | null; limit: number }): Promise<ListWithOwner[]>;
+  search(query: string, options: { excludeOwnerId?: string | null; publicOnly?: boolean; limit: number }): Promise<ListWithOwner[]>;
+  // Public lists the user liked, most recent like first
+  listLikedBy(userId: string, options?: { excludeOwnerId?: string }): Promise<ListWithOwner[]>;
+  // Other people's lists the user is a member of, newest activity first
+  listSharedWith(userId: string, options?: { roles?: MemberRole[] }): Promise<ListWithOwner[]>;
+  create(list: NewList): Promise<List | null>;
+  update(id: string, patch: ListUpdate): Promise<List | null>;
+  delete(id: string): Promise<boolean>;
+  // A public fork of the list with all of its pins, owned by userId. The
+  // fork remembers its source list and each copied pin's source pin.
+  fork(list: List, userId: string): Promise<List | null>;
+  // Includes private forks the caller can't see
+  countForks(listId: string): Promise<number>;
+}
+
+export interface PinsRepository {
+  listByList(listId: string): Promise<Pin[]>;
+  // Newest pins by these users, with their lists joined
+  listRecentByUsers(userIds: string[], limit: number): Promise<Pin[]>;
+  getSavedBy(placeId: string | null, excludePinId?: string): Promise<SavedByInfo[]>;
+  create(pin: NewPin): Promise<Pin | null>;
+  // One insert for the whole batch; it fails or succeeds as a unit
+  createMany(pins: NewPin[]): Promise<boolean>;
+  update(id: string, patch: PinUpdate): Promise<Pin | null>;
+  delete(id: string): Promise<boolean>;
+  deleteMany(ids: string[]): Promise<boolean>;
+  // Save copies of pins into one of userId's lists. Place and location carry
+  // over; visited/notes/rating are kept only with keepPersonalFields (moving
+  // your own pins), otherwise they start from `personal`. Each copy records
+  // the pin it was saved from, which notifies that pin's author.
+  copyToList(pins: Pin[], target: CopyTarget): Promise<boolean>;
+  // Photos of these pins, oldest first
+  listPhotos(pinIds: string[]): Promise<PinPhoto[]>;
+}
+
+// Logging, editing or deleting a visit updates its pin's is_visited and
+// personal_rating (see deriveVisitFields in src/lib/visits.ts)
+export interface VisitsRepository {
+  // Latest first, with the author, companions and photos joined
+  list(pinId: string): Promise<Visit[]>;
+  create(visit: NewVisit, companionIds: string[]): Promise<Visit | null>;
+  // Replaces the companions when companionIds is given
+  update(id: string, patch: VisitUpdate, companionIds?: string[]): Promise<boolean>;
+  delete(id: string): Promise<boolean>;
+}
+
+// Stops are saved as copies of their pins, in the order given, so a shared
+// itinerary shows the same places to everyone (see save_itinerary_stops)
+export interface ItinerariesRepository {
+  // Most recently edited first, without stops
+  listByOwner(userId: string): Promise<Itinerary[]>;
+  // With the owner and the stops in order
+  getById(id: string): Promise<Itinerary | null>;
+  create(itinerary: NewItinerary, stops: ItineraryStopInput[]): Promise<Itinerary | null>;
+  // Replaces the stops when they're given
+  update(id: string, patch: ItineraryUpdate, stops?: ItineraryStopInput[]): Promise<boolean>;
+  delete(id: string): Promise<boolean>;
+}
+
+// Polls are created and closed in the database (see POLLS in schema.sql):
+// options are copies of pins, only followers can be invited, and voting
+// stops at the deadline
+export interface PollsRepository {
+  // With the creator, the options in order, the participants and the votes
+  getById(id: string): Promise<Poll | null>;
+  // Returns the new poll's id
+  create(poll: NewPoll): Promise<string | null>;
+  // Sets or clears (null) userId's choice on an option. Vetoing an option
+  // takes back any other veto, as each participant only gets one.
+  setChoice(poll: { pollId: string; optionId: string }, userId: string, choice: PollChoice | null): Promise<boolean>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface LikesRepository {
+  getStatus(target: LikeTarget, userId: string | null): Promise<LikeStatus>;
+  like(target: LikeTarget, userId: string): Promise<boolean>;
+  unlike(target: LikeTarget, userId: string): Promise<boolean>;
+}
+
+export interface CommentsRepository {
+  list(target: CommentTarget, page: { offset: number; limit: number }): Promise<CommentPage | null>;
+  count(target: CommentTarget): Promise<number>;
+  create(target: CommentTarget, comment: NewComment): Promise<Comment | null>;
+  update(id: string, content: string): Promise<Comment | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface MembersRepository {
+  // null when the user has no role (they may still see a public list)
+  getRole(listId: string, userId: string | null): Promise<ListRole | null>;
+  // Members with their profiles, in the order they joined
+  list(listId: string): Promise<ListMember[]>;
+  add(listId: string, member: { userId: string; role: MemberRole; invitedBy: string }): Promise<boolean>;
+  updateRole(listId: string, userId: string, role: MemberRole): Promise<boolean>;
+  remove(listId: string, userId: string): Promise<boolean>;
+  listInvites(listId: string): Promise<ListInvite[]>;
+  createInvite(listId: string, role: MemberRole, createdBy: string): Promise<ListInvite | null>;
+  revokeInvite(id: string): Promise<boolean>;
+  // Joins the list behind a share link as the signed-in user; returns the list id
+  acceptInvite(token: string): Promise<string | null>;
+}
+
+export interface LayersRepository {
+  // Everything that can be shown on the map: the user's own lists and the
+  // public lists of people they follow
+  getLayers(userId: string): Promise<MapLayers>;
+}
+
+export interface AccessTokensRepository {
+  list(userId: string): Promise<PersonalAccessToken[]>;
+  // Returns the new token; only its prefix can be read back later
+  create(name: string, options: { scope: AccessTokenScope; expiresAt: string | null }): Promise<string | null>;
+  revoke(id: string): Promise<boolean>;
+}
+
+export interface WebhooksRepository {
+  list(listId: string): Promise<ListWebhook[]>;
+  create(listId: string, webhook: { url: string; events: WebhookEvent[] }, createdBy: string): Promise<ListWebhook | null>;
+  update(id: string, changes: Partial<Pick<ListWebhook, "url" | "events" | "is_active">>): Promise<boolean>;
+  remove(id: string): Promise<boolean>;
+  // Queues a "ping" delivery to check the receiver
+  sendTest(id: string): Promise<boolean>;
+  // The delivery log across the given webhooks, newest first
+  listDeliveries(webhookIds: string[], limit: number): Promise<WebhookDelivery[]>;
+}
+
+// Rows are written by database triggers; users can only read, mark and mute them
+export interface NotificationsRepository {
+  // Newest first, with the actor, list and pin joined
+  list(userId: string, limit: number): Promise<UserNotification[]>;
+  countUnread(userId: string): Promise<number>;
+  markRead(ids: string[]): Promise<boolean>;
+  markAllRead(userId: string): Promise<boolean>;
+  getMutedTypes(userId: string): Promise<NotificationType[]>;
+  setMutedTypes(userId: string, types: NotificationType[]): Promise<boolean>;
+}
+
+// Live changes over Supabase Realtime, limited to rows the user can see.
+// Your own writes come back too, so state updated optimistically should
+// reconcile rather than apply them twice (see src/lib/realtime.ts).
+export interface RealtimeRepository {
+  // Pins added to, edited on or moved into a list, and deleted pins. A pin
+  // moved out of the list, or edited on another list, arrives as a delete.
+  // Deletes can't be filtered, so they arrive for every list; ignore unknown ids.
+  subscribeToPins(listId: string, onChange: (change: PinChange) => void): Unsubscribe;
+  subscribeToLikes(target: LikeTarget, onChange: (change: LikeChange) => void): Unsubscribe;
+  // New pins and public lists by these users
+  subscribeToActivity(userIds: string[], onEvent: (event: ActivityEvent) => void): Unsubscribe;
+  // Votes cast, changed and taken back on a poll, and its closing
+  subscribeToPoll(pollId: string, onChange: (change: PollChange) => void): Unsubscribe;
+}
+
+export interface DataRepositories {
+  auth: AuthRepository;
+  profiles: ProfilesRepository;
+  follows: FollowsRepository;
+  lists: ListsRepository;
+  pins: PinsRepository;
+  visits: VisitsRepository;
+  itineraries: ItinerariesRepository;
+  polls: PollsRepository;
+  likes: LikesRepository;
+  comments: CommentsRepository;
+  members: MembersRepository;
+  layers: LayersRepository;
+  accessTokens: AccessTokensRepository;
+  webhooks: WebhooksRepository;
+  notifications: NotificationsRepository;
+  realtime: RealtimeRepository;
+}
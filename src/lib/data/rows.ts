@@ -0,0 +1,524 @@
+/**
+ * Row types for every table in supabase/schema.sql.
+ * Generated by scripts/generate-row-types.ts; run `npm run gen:rows` instead of editing.
+ */
+
+export type Json = string | number | boolean | null | { [key: string]: Json } | Json[];
+
+export interface ProfileRow {
+  id: string;
+  username: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  bio: string | null;
+  is_private: boolean;
+  created_at: string;
+}
+
+export interface ProfileInsert {
+  id: string;
+  username: string;
+  display_name?: string | null;
+  avatar_url?: string | null;
+  bio?: string | null;
+  is_private?: boolean;
+  created_at?: string;
+}
+
+export interface FollowRow {
+  follower_id: string;
+  following_id: string;
+  created_at: string;
+}
+
+export interface FollowInsert {
+  follower_id: string;
+  following_id: string;
+  created_at?: string;
+}
+
+export interface FollowRequestRow {
+  follower_id: string;
+  following_id: string;
+  created_at: string;
+}
+
+export interface FollowRequestInsert {
+  follower_id: string;
+  following_id: string;
+  created_at?: string;
+}
+
+export interface ListRow {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  emoji_icon: string;
+  color: string;
+  is_public: boolean;
+  forked_from: string | null;
+  forked_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ListInsert {
+  id?: string;
+  user_id: string;
+  name: string;
+  description?: string | null;
+  emoji_icon?: string;
+  color?: string;
+  is_public?: boolean;
+  forked_from?: string | null;
+  forked_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ListMemberRow {
+  list_id: string;
+  user_id: string;
+  role: string;
+  invited_by: string | null;
+  created_at: string;
+}
+
+export interface ListMemberInsert {
+  list_id: string;
+  user_id: string;
+  role: string;
+  invited_by?: string | null;
+  created_at?: string;
+}
+
+export interface ListInviteRow {
+  id: string;
+  list_id: string;
+  token: string;
+  role: string;
+  created_by: string;
+  created_at: string;
+}
+
+export interface ListInviteInsert {
+  id?: string;
+  list_id: string;
+  token?: string;
+  role: string;
+  created_by: string;
+  created_at?: string;
+}
+
+export interface PlaceRow {
+  id: string;
+  name: string;
+  address: string | null;
+  lat: number;
+  lng: number;
+  location: string | null;
+  category: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PlaceInsert {
+  id: string;
+  name: string;
+  address?: string | null;
+  lat: number;
+  lng: number;
+  category?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface PinRow {
+  id: string;
+  list_id: string;
+  user_id: string;
+  place_id: string | null;
+  name: string;
+  address: string;
+  lat: number;
+  lng: number;
+  location: string | null;
+  category: string | null;
+  personal_rating: number | null;
+  personal_notes: string | null;
+  is_visited: boolean;
+  source_pin_id: string | null;
+  saved_from_pin_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PinInsert {
+  id?: string;
+  list_id: string;
+  user_id: string;
+  place_id?: string | null;
+  name: string;
+  address: string;
+  lat: number;
+  lng: number;
+  category?: string | null;
+  personal_rating?: number | null;
+  personal_notes?: string | null;
+  is_visited?: boolean;
+  source_pin_id?: string | null;
+  saved_from_pin_id?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface PinPhotoRow {
+  id: string;
+  pin_id: string;
+  url: string;
+  visit_id: string | null;
+  created_at: string;
+}
+
+export interface PinPhotoInsert {
+  id?: string;
+  pin_id: string;
+  url: string;
+  visit_id?: string | null;
+  created_at?: string;
+}
+
+export interface ListLikeRow {
+  user_id: string;
+  list_id: string;
+  created_at: string;
+}
+
+export interface ListLikeInsert {
+  user_id: string;
+  list_id: string;
+  created_at?: string;
+}
+
+export interface PinLikeRow {
+  user_id: string;
+  pin_id: string;
+  created_at: string;
+}
+
+export interface PinLikeInsert {
+  user_id: string;
+  pin_id: string;
+  created_at?: string;
+}
+
+export interface CommentRow {
+  id: string;
+  user_id: string;
+  pin_id: string | null;
+  list_id: string | null;
+  content: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CommentInsert {
+  id?: string;
+  user_id: string;
+  pin_id?: string | null;
+  list_id?: string | null;
+  content: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface PersonalAccessTokenRow {
+  id: string;
+  user_id: string;
+  name: string;
+  token_hash: string;
+  token_prefix: string;
+  scope: string;
+  expires_at: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+export interface PersonalAccessTokenInsert {
+  id?: string;
+  user_id: string;
+  name: string;
+  token_hash: string;
+  token_prefix: string;
+  scope?: string;
+  expires_at?: string | null;
+  last_used_at?: string | null;
+  created_at?: string;
+}
+
+export interface ListWebhookRow {
+  id: string;
+  list_id: string;
+  url: string;
+  events: string[];
+  secret: string;
+  is_active: boolean;
+  created_by: string;
+  created_at: string;
+}
+
+export interface ListWebhookInsert {
+  id?: string;
+  list_id: string;
+  url: string;
+  events: string[];
+  secret?: string;
+  is_active?: boolean;
+  created_by: string;
+  created_at?: string;
+}
+
+export interface WebhookDeliveryRow {
+  id: string;
+  webhook_id: string;
+  event: string;
+  payload: Json;
+  status: string;
+  attempts: number;
+  next_attempt_at: string;
+  response_status: number | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export interface WebhookDeliveryInsert {
+  id?: string;
+  webhook_id: string;
+  event: string;
+  payload: Json;
+  status?: string;
+  attempts?: number;
+  next_attempt_at?: string;
+  response_status?: number | null;
+  last_error?: string | null;
+  created_at?: string;
+  delivered_at?: string | null;
+}
+
+export interface NotificationRow {
+  id: string;
+  user_id: string;
+  type: string;
+  actor_id: string;
+  list_id: string | null;
+  pin_id: string | null;
+  poll_id: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationInsert {
+  id?: string;
+  user_id: string;
+  type: string;
+  actor_id: string;
+  list_id?: string | null;
+  pin_id?: string | null;
+  poll_id?: string | null;
+  read_at?: string | null;
+  created_at?: string;
+}
+
+export interface NotificationSettingRow {
+  user_id: string;
+  muted_types: string[];
+  updated_at: string;
+}
+
+export interface NotificationSettingInsert {
+  user_id: string;
+  muted_types?: string[];
+  updated_at?: string;
+}
+
+export interface VisitRow {
+  id: string;
+  pin_id: string;
+  user_id: string;
+  visited_on: string;
+  rating: number | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface VisitInsert {
+  id?: string;
+  pin_id: string;
+  user_id: string;
+  visited_on?: string;
+  rating?: number | null;
+  notes?: string | null;
+  created_at?: string;
+}
+
+export interface VisitCompanionRow {
+  visit_id: string;
+  user_id: string;
+}
+
+export interface VisitCompanionInsert {
+  visit_id: string;
+  user_id: string;
+}
+
+export interface ItineraryRow {
+  id: string;
+  user_id: string;
+  name: string;
+  planned_for: string | null;
+  is_public: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ItineraryInsert {
+  id?: string;
+  user_id: string;
+  name: string;
+  planned_for?: string | null;
+  is_public?: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ItineraryStopRow {
+  id: string;
+  itinerary_id: string;
+  pin_id: string | null;
+  place_id: string | null;
+  name: string;
+  address: string | null;
+  lat: number;
+  lng: number;
+  position: number;
+  planned_time: string | null;
+  created_at: string;
+}
+
+export interface ItineraryStopInsert {
+  id?: string;
+  itinerary_id: string;
+  pin_id?: string | null;
+  place_id?: string | null;
+  name: string;
+  address?: string | null;
+  lat: number;
+  lng: number;
+  position: number;
+  planned_time?: string | null;
+  created_at?: string;
+}
+
+export interface PollRow {
+  id: string;
+  creator_id: string;
+  question: string;
+  closes_at: string;
+  closed_at: string | null;
+  winner_option_id: string | null;
+  created_at: string;
+}
+
+export interface PollInsert {
+  id?: string;
+  creator_id: string;
+  question: string;
+  closes_at: string;
+  closed_at?: string | null;
+  winner_option_id?: string | null;
+  created_at?: string;
+}
+
+export interface PollOptionRow {
+  id: string;
+  poll_id: string;
+  pin_id: string | null;
+  place_id: string | null;
+  name: string;
+  address: string | null;
+  lat: number;
+  lng: number;
+  position: number;
+  created_at: string;
+}
+
+export interface PollOptionInsert {
+  id?: string;
+  poll_id: string;
+  pin_id?: string | null;
+  place_id?: string | null;
+  name: string;
+  address?: string | null;
+  lat: number;
+  lng: number;
+  position: number;
+  created_at?: string;
+}
+
+export interface PollParticipantRow {
+  poll_id: string;
+  user_id: string;
+  created_at: string;
+}
+
+export interface PollParticipantInsert {
+  poll_id: string;
+  user_id: string;
+  created_at?: string;
+}
+
+export interface PollVoteRow {
+  poll_id: string;
+  option_id: string;
+  user_id: string;
+  is_veto: boolean;
+  created_at: string;
+}
+
+export interface PollVoteInsert {
+  poll_id: string;
+  option_id: string;
+  user_id: string;
+  is_veto?: boolean;
+  created_at?: string;
+}
+
+export interface Tables {
+  profiles: { Row: ProfileRow; Insert: ProfileInsert };
+  follows: { Row: FollowRow; Insert: FollowInsert };
+  follow_requests: { Row: FollowRequestRow; Insert: FollowRequestInsert };
+  lists: { Row: ListRow; Insert: ListInsert };
+  list_members: { Row: ListMemberRow; Insert: ListMemberInsert };
+  list_invites: { Row: ListInviteRow; Insert: ListInviteInsert };
+  places: { Row: PlaceRow; Insert: PlaceInsert };
+  pins: { Row: PinRow; Insert: PinInsert };
+  pin_photos: { Row: PinPhotoRow; Insert: PinPhotoInsert };
+  list_likes: { Row: ListLikeRow; Insert: ListLikeInsert };
+  pin_likes: { Row: PinLikeRow; Insert: PinLikeInsert };
+  comments: { Row: CommentRow; Insert: CommentInsert };
+  personal_access_tokens: { Row: PersonalAccessTokenRow; Insert: PersonalAccessTokenInsert };
+  list_webhooks: { Row: ListWebhookRow; Insert: ListWebhookInsert };
+  webhook_deliveries: { Row: WebhookDeliveryRow; Insert: WebhookDeliveryInsert };
+  notifications: { Row: NotificationRow; Insert: NotificationInsert };
+  notification_settings: { Row: NotificationSettingRow; Insert: NotificationSettingInsert };
+  visits: { Row: VisitRow; Insert: VisitInsert };
+  visit_companions: { Row: VisitCompanionRow; Insert: VisitCompanionInsert };
+  itineraries: { Row: ItineraryRow; Insert: ItineraryInsert };
+  itinerary_stops: { Row: ItineraryStopRow; Insert: ItineraryStopInsert };
+  polls: { Row: PollRow; Insert: PollInsert };
+  poll_options: { Row: PollOptionRow; Insert: PollOptionInsert };
+  poll_participants: { Row: PollParticipantRow; Insert: PollParticipantInsert };
+  poll_votes: { Row: PollVoteRow; Insert: PollVoteInsert };
+}
@@ -0,0 +1,1339 @@
+/**
+ * Supabase implementation of the data repositories. Every call makes its own
+ * browser client, like the rest of src/lib, so this is safe to import from
+ * any client component.
+ */
+
+import { createClient } from "@/lib/supabase/client";
+import type {
+  Comment,
+  PersonalAccessToken,
+  CommentTarget,
+  FollowRequest,
+  Itinerary,
+  List,
+  ListInvite,
+  ListMember,
+  ListWebhook,
+  NotificationType,
+  Pin,
+  PinPhoto,
+  Poll,
+  PollVote,
+  Profile,
+  SavedByInfo,
+  UserNotification,
+  Visit,
+  WebhookDelivery,
+} from "@/types";
+import type { ListLikeRow, ListRow, PinInsert, PinLikeRow, PinRow, ProfileRow } from "./rows";
+import type {
+  AccessTokensRepository,
+  AuthRepository,
+  CommentsRepository,
+  DataRepositories,
+  FollowsRepository,
+  ItinerariesRepository,
+  ItineraryStopInput,
+  LayersRepository,
+  LikeTarget,
+  LikesRepository,
+  ListWithOwner,
+  ListsRepository,
+  MembersRepository,
+  NotificationsRepository,
+  PinsRepository,
+  PollChange,
+  PollsRepository,
+  ProfilesRepository,
+  RealtimeRepository,
+  VisitsRepository,
+  WebhooksRepository,
+} from "./repositories";
+
+const PROFILE_SUMMARY = "id, username, display_name, avatar_url";
+const COMMENT_WITH_PROFILE = `*, profile:profiles!user_id(${PROFILE_SUMMARY})`;
+const MEMBER_WITH_PROFILE = `*, profile:profiles!user_id(${PROFILE_SUMMARY})`;
+const PIN_WITH_LIST = "*, list:lists(id, name, emoji_icon, color, is_public, user_id)";
+const NOTIFICATION_WITH_TARGETS = `*, actor:profiles!actor_id(${PROFILE_SUMMARY}), list:lists(id, name, emoji_icon), pin:pins(id, name, list_id), poll:polls(id, question, winner:poll_options!winner_option_id(name))`;
+const VISIT_WITH_JOINS = `*, user:profiles!user_id(${PROFILE_SUMMARY}), companions:visit_companions(profile:profiles(${PROFILE_SUMMARY})), photos:pin_photos!visit_id(*)`;
+// poll_options is joined twice from polls (options and the winner), so it's named by column
+const POLL_WITH_JOINS = `*, creator:profiles!creator_id(${PROFILE_SUMMARY}), options:poll_options!poll_id(*), participants:poll_participants(profile:profiles(${PROFILE_SUMMARY})), votes:poll_votes(*)`;
+const ITINERARY_WITH_STOPS = `*, profile:profiles!user_id(${PROFILE_SUMMARY}), stops:itinerary_stops(*)`;
+const PHOTO_QUERY_CHUNK = 200;
+// Realtime drops "in" filters with more values than this
+const REALTIME_IN_FILTER_LIMIT = 100;
+const ACCESS_TOKEN_COLUMNS = "id, user_id, name, token_prefix, scope, expires_at, last_used_at, created_at";
+
+type ListWithPinCount = ListRow & { pins?: Array<{ count: number }> };
+
+function withPinCount(list: ListWithPinCount): List {
+  const { pins, ...rest } = list;
+  return { ...rest, pins_count: pins?.[0]?.count || 0 };
+}
+
+type VisitWithCompanionRows = Omit<Visit, "companions"> & { companions: { profile: Profile }[] };
+
+function toVisit({ companions, ...visit }: VisitWithCompanionRows): Visit {
+  return {
+    ...visit,
+    companions: companions.map((c) => c.profile),
+    photos: [...(visit.photos || [])].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+  };
+}
+
+function likeTable(target: LikeTarget) {
+  return target.type === "list"
+    ? { table: "list_likes", column: "list_id" }
+    : { table: "pin_likes", column: "pin_id" };
+}
+
+function commentColumn(target: CommentTarget) {
+  return target.type === "pin" ? "pin_id" : "list_id";
+}
+
+// Attach owners to lists with one profiles query; lists whose owner can't be
+// read are dropped
+async function attachOwners(lists: List[]): Promise<ListWithOwner[]> {
+  if (lists.length === 0) return [];
+  const owners = await profiles.getMany([...new Set(lists.map((l) => l.user_id))]);
+  const ownersById = new Map(owners.map((o) => [o.id, o]));
+
+  return lists.flatMap((list) => {
+    const owner = ownersById.get(list.user_id);
+    return owner ? [{ ...list, owner, pins_count: list.pins_count || 0 }] : [];
+  });
+}
+
+const auth: AuthRepository = {
+  async getCurrentUserId() {
+    const supabase = createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    return user?.id ?? null;
+  },
+
+  async signOut() {
+    const supabase = createClient();
+    await supabase.auth.signOut();
+  },
+};
+
+const profiles: ProfilesRepository = {
+  async getById(id) {
+    const supabase = createClient();
+    const { data, error } = await supabase.from("profiles").select("*").eq("id", id).maybeSingle();
+    if (error) console.error("Error loading profile:", error);
+    return (data as ProfileRow | null) ?? null;
+  },
+
+  async getByUsername(username) {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("*")
+      .eq("username", username)
+      .maybeSingle();
+    if (error) console.error("Error loading profile:", error);
+    return (data as ProfileRow | null) ?? null;
+  },
+
+  async getMany(ids) {
+    if (ids.length === 0) return [];
+    const supabase = createClient();
+    const { data, error } = await supabase.from("profiles").select("*").in("id", ids);
+    if (error) console.error("Error loading profiles:", error);
+    return (data || []) as ProfileRow[];
+  },
+
+  async browse({ excludeId, limit }) {
+    const supabase = createClient();
+    let query = supabase.from("profiles").select("*").limit(limit);
+    if (excludeId) query = query.neq("id", excludeId);
+
+    const { data, error } = await query;
+    if (error) console.error("Error loading profiles:", error);
+    return (data || []) as ProfileRow[];
+  },
+
+  async search(term, { excludeId, limit }) {
+    const supabase = createClient();
+    let query = supabase
+      .from("profiles")
+      .select("*")
+      .or(`username.ilike.%${term}%,display_name.ilike.%${term}%`)
+      .limit(limit);
+    if (excludeId) query = query.neq("id", excludeId);
+
+    const { data, error } = await query;
+    if (error) console.error("Error searching profiles:", error);
+    return (data || []) as ProfileRow[];
+  },
+
+  async isUsernameTaken(username, exceptId) {
+    const supabase = createClient();
+    const { data } = await supabase
+      .from("profiles")
+      .select("id")
+      .eq("username", username)
+      .neq("id", exceptId)
+      .maybeSingle();
+    return !!data;
+  },
+
+  async update(id, patch) {
+    const supabase = createClient();
+    const { error } = await supabase.from("profiles").update(patch).eq("id", id);
+    if (error) console.error("Error updating profile:", error);
+    return !error;
+  },
+
+  async getStats(userId, { publicListsOnly = false } = {}) {
+    const supabase = createClient();
+    let listsQuery = supabase
+      .from("lists")
+      .select("*", { count: "exact", head: true })
+      .eq("user_id", userId);
+    if (publicListsOnly) listsQuery = listsQuery.eq("is_public", true);
+
+    const [listsResult, pinsResult, followersResult, followingResult] = await Promise.all([
+      listsQuery,
+      supabase.from("pins").select("*", { count: "exact", head: true }).eq("user_id", userId),
+      supabase.from("follows").select("*", { count: "exact", head: true }).eq("following_id", userId),
+      supabase.from("follows").select("*", { count: "exact", head: true }).eq("follower_id", userId),
+    ]);
+
+    return {
+      lists: listsResult.count || 0,
+      pins: pinsResult.count || 0,
+      followers: followersResult.count || 0,
+      following: followingResult.count || 0,
+    };
+  },
+
+  // One query for everyone rather than two per profile
+  async withCounts(rows, { publicListsOnly = false } = {}) {
+    if (rows.length === 0) return [];
+    const supabase = createClient();
+    const { data, error } = await supabase.rpc("get_profile_counts", {
+      p_user_ids: rows.map((profile) => profile.id),
+      p_public_lists_only: publicListsOnly,
+    });
+    if (error) console.error("Error loading profile counts:", error);
+
+    const counts = new Map(
+      ((data || []) as Array<{ user_id: string; followers_count: number; lists_count: number }>).map((row) => [
+        row.user_id,
+        row,
+      ])
+    );
+
+    return rows.map((profile) => ({
+      ...profile,
+      followers_count: counts.get(profile.id)?.followers_count ?? 0,
+      lists_count: counts.get(profile.id)?.lists_count ?? 0,
+    }));
+  },
+};
+
+const follows: FollowsRepository = {
+  async getFollowingIds(userId) {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("follows")
+      .select("following_id")
+      .eq("follower_id", userId);
+    if (error) console.error("Error loading follows:", error);
+    return ((data || []) as Array<{ following_id: string }>).map((f) => f.following_id);
+  },
+
+  async isFollowing(followerId, followingId) {
+    const supabase = createClient();
+    const { data } = await supabase
+      .from("follows")
+      .select("follower_id")
+      .eq("follower_id", followerId)
+      .eq("following_id", followingId)
+      .maybeSingle();
+    return !!data;
+  },
+
+  async getFollowState(followerId, followingId) {
+    if (await follows.isFollowing(followerId, followingId)) return "following";
+    const supabase = createClient();
+    const { data } = await supabase
+      .from("follow_requests")
+      .select("follower_id")
+      .eq("follower_id", followerId)
+      .eq("following_id", followingId)
+      .maybeSingle();
+    return data ? "requested" : "none";
+  },
+
+  // follow_user decides between following and requesting, as the caller
+  async follow(followerId, followingId) {
+    const supabase = createClient();
+    const { data, error } = await supabase.rpc("follow_user", { p_user_id: followingId });
+    if (error) console.error("Error following:", error);
+    return error ? null : (data as "following" | "requested");
+  },
+
+  async unfollow(followerId, followingId) {
+    const supabase = createClient();
+    const [{ error }, { error: requestError }] = await Promise.all([
+      supabase.from("follows").delete().eq("follower_id", followerId).eq("following_id", followingId),
+      supabase.from("follow_requests").delete().eq("follower_id", followerId).eq("following_id", followingId),
+    ]);
+    if (error || requestError) console.error("Error unfollowing:", error || requestError);
+    return !error && !requestError;
+  },
+
+  async listRequests(userId) {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("follow_requests")
+      .select(`*, follower:profiles!follower_id(${PROFILE_SUMMARY})`)
+      .eq("following_id", userId)
+      .order("created_at", { ascending: false });
+    if (error) console.error("Error loading follow requests:", error);
+    return (data || []) as FollowRequest[];
+  },
+
+  async approveRequest(userId, followerId) {
+    const supabase = createClient();
+    const { data, error } = await supabase.rpc("approve_follow_request", { p_follower_id: followerId });
+    if (error) console.error("Error approving follow request:", error);
+    return !error && data === true;
+  },
+
+  async denyRequest(userId, followerId) {
+    const supabase = createClient();
+    const { error } = await supabase
+      .from("follow_requests")
+      .delete()
+      .eq("follower_id", followerId)
+      .eq("following_id", userId);
+    if (error) console.error("Error denying follow request:", error);
+    return !error;
+  },
+
+  async listFollowers(userId) {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("follows")
+      .select(`follower:profiles!follower_id(${PROFILE_SUMMARY})`)
+      .eq("following_id", userId);
+    if (error) console.error("Error loading followers:", error);
+    return ((data || []) as unknown as { follower: Profile }[])
+      .map(({ follower }) => follower)
+      .sort((a, b) => a.username.localeCompare(b.username));
+  },
+};
+
+const lists: ListsRepository = {
+  async getById(id) {
+    const supabase = createClient();
+    const { data, error } = await supabase.from("lists").select("*").eq("id", id).maybeSingle();
+    if (error) console.error("Error loading list:", error);
+    return (data as ListRow | null) ?? null;
+  },
+
+  async listByOwner(userId, { orderBy = "updated_at", publicOnly = false, limit, withPinCounts = false } = {}) {
+    const supabase = createClient();
+    let query = supabase
+      .from("lists")
+      .select(withPinCounts ? "*, pins:pins(count)" : "*")
+      .eq("user_id", userId)
+      .order(orderBy, { ascending: orderBy === "name" });
+    if (publicOnly) query = query.eq("is_public", true);
+    if (limit) query = query.limit(limit);
+
+    const { data, error } = await query;
+    if (error) console.error("Error loading lists:", error);
+    return ((data || []) as unknown as ListWithPinCount[]).map(withPinCount);
+  },
+
+  async listPublicByOwners(userIds, { orderBy = "name", limit, withPinCounts = false } = {}) {
+    if (userIds.length === 0) return [];
+    const supabase = createClient();
+    let query = supabase
+      .from("lists")
+      .select(withPinCounts ? "*, pins:pins(count)" : "*")
+      .in("user_id", userIds)
+      .eq("is_public", true)
+      .order(orderBy, { ascending: orderBy === "name" });
+    if (limit) query = query.limit(limit);
+
+    const { data, error } = await query;
+    if (error) console.error("Error loading lists:", error);
+    return ((data || []) as unknown as ListWithPinCount[]).map(withPinCount);
+  },
+
+  async browse({ excludeOwnerId, limit }) {
+    const supabase = createClient();
+    let query = supabase
+      .from("lists")
+      .select("*, pins:pins(count)")
+      .eq("is_public", true)
+      .order("updated_at", { ascending: false })
+      .limit(limit);
+    if (excludeOwnerId) query = query.neq("user_id", excludeOwnerId);
+
+    const { data, error } = await query;
+    if (error) console.error("Error loading lists:", error);
+    return attachOwners(((data || []) as ListWithPinCount[]).map(withPinCount));
+  },
+
+  async search(term, { excludeOwnerId, publicOnly = false, limit }) {
+    const supabase = createClient();
+    let query = supabase
+      .from("lists")
+      .select("*, pins:pins(count)")
+      .or(`name.ilike.%${term}%,description.ilike.%${term}%`)
+      .limit(limit);
+    if (excludeOwnerId) query = query.neq("user_id", excludeOwnerId);
+    if (publicOnly) query = query.eq("is_public", true);
+
+    const { data, error } = await query;
+    if (error) console.error("Error searching lists:", error);
+    return attachOwners(((data || []) as ListWithPinCount[]).map(withPinCount));
+  },
+
+  async listLikedBy(userId, { excludeOwnerId } = {}) {
+    const supabase = createClient();
+    const { data: likes } = await supabase
+      .from("list_likes")
+      .select("list_id")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    const likedIds = ((likes || []) as Array<{ list_id: string }>).map((l) => l.list_id);
+    if (likedIds.length === 0) return [];
+
+    let query = supabase
+      .from("lists")
+      .select("*, pins:pins(count)")
+      .in("id", likedIds)
+      .eq("is_public", true);
+    if (excludeOwnerId) query = query.neq("user_id", excludeOwnerId);
+
+    const { data, error } = await query;
+    if (error) console.error("Error loading liked lists:", error);
+
+    const listsById = new Map(
+      ((data || []) as ListWithPinCount[]).map((l) => [l.id, withPinCount(l)])
+    );
+    // Keep the order the lists were liked in
+    return attachOwners(likedIds.flatMap((id) => listsById.get(id) ?? []));
+  },
+
+  async listSharedWith(userId, { roles } = {}) {
+    const supabase = createClient();
+    let memberships = supabase.from("list_members").select("list_id").eq("user_id", userId);
+    if (roles) memberships = memberships.in("role", roles);
+
+    const { data: memberRows } = await memberships;
+    const listIds = ((memberRows || []) as Array<{ list_id: string }>).map((m) => m.list_id);
+    if (listIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from("lists")
+      .select("*, pins:pins(count)")
+      .in("id", listIds)
+      .order("updated_at", { ascending: false });
+    if (error) console.error("Error loading shared lists:", error);
+    return attachOwners(((data || []) as ListWithPinCount[]).map(withPinCount));
+  },
+
+  async create(list) {
+    const supabase = createClient();
+    const { data, error } = await supabase.from("lists").insert(list).select().single();
+    if (error) console.error("Error creating list:", error);
+    return (data as ListRow | null) ?? null;
+  },
+
+  async update(id, patch) {
+    const supabase = createClient();
+    const { data, error } = await supabase.from("lists").update(patch).eq("id", id).select().single();
+    if (error) console.error("Error updating list:", error);
+    return (data as ListRow | null) ?? null;
+  },
+
+  async delete(id) {
+    const supabase = createClient();
+    const { error } = await supabase.from("lists").delete().eq("id", id);
+    if (error) console.error("Error deleting list:", error);
+    return !error;
+  },
+
+  async fork(list, userId) {
+    const fork = await lists.create({
+      user_id: userId,
+      name: list.name,
+      description: list.description,
+      emoji_icon: list.emoji_icon,
+      color: list.color,
+      is_public: true, // Default forks to public
+      forked_from: list.id,
+    });
+    if (!fork) return null;
+
+    const sourcePins = await pins.listByList(list.id);
+    await pins.copyToList(sourcePins, { listId: fork.id, userId, trackSource: true });
+    return fork;
+  },
+
+  async countForks(listId) {
+    const supabase = createClient();
+    const { data, error } = await supabase.rpc("list_fork_count", { p_list_id: listId });
+    if (error) console.error("Error counting forks:", error);
+    return (data as number | null) ?? 0;
+  },
+};
+
+const pins: PinsRepository = {
+  async listByList(listId) {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("pins")
+      .select("*")
+      .eq("list_id", listId)
+      .order("created_at", { ascending: false });
+    if (error) console.error("Error loading pins:", error);
+    return (data || []) as Pin[];
+  },
+
+  async listRecentByUsers(userIds, limit) {
+    if (userIds.length === 0) return [];
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("pins")
+      .select("*, list:lists(*)")
+      .in("user_id", userIds)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+    if (error) console.error("Error loading pins:", error);
+    return (data || []) as Pin[];
+  },
+
+  async getSavedBy(placeId, excludePinId) {
+    if (!placeId) return [];
+
+    const supabase = createClient();
+    let query = supabase
+      .from("pins")
+      .select("*, list:lists!list_id(*, profile:profiles!user_id(*))")
+      .eq("place_id", placeId);
+    if (excludePinId) query = query.neq("id", excludePinId);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error("Error loading saved by:", error);
+      return [];
+    }
+
+    return ((data || []) as Array<Pin & { list: (List & { profile: Profile | null }) | null }>)
+      .filter((p) => p.list) // Only require list data, profile is optional
+      .map((p): SavedByInfo => ({
+        pin: p,
+        list: p.list!,
+        owner: p.list!.profile || {
+          id: p.user_id,
+          username: "unknown",
+          display_name: null,
+          avatar_url: null,
+          bio: null,
+          created_at: p.created_at,
+        },
+      }));
+  },
+
+  async create(pin) {
+    const supabase = createClient();
+    const { data, error } = await supabase.from("pins").insert(pin).select(PIN_WITH_LIST).single();
+    if (error) console.error("Error creating pin:", error);
+    return (data as Pin | null) ?? null;
+  },
+
+  async createMany(rows) {
+    if (rows.length === 0) return true;
+    const supabase = createClient();
+    const { error } = await supabase.from("pins").insert(rows);
+    if (error) console.error("Error creating pins:", error);
+    return !error;
+  },
+
+  async update(id, patch) {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("pins")
+      .update(patch)
+      .eq("id", id)
+      .select(PIN_WITH_LIST)
+      .single();
+    if (error) console.error("Error updating pin:", error);
+    return (data as Pin | null) ?? null;
+  },
+
+  async delete(id) {
+    const supabase = createClient();
+    const { error } = await supabase.from("pins").delete().eq("id", id);
+    if (error) console.error("Error deleting pin:", error);
+    return !error;
+  },
+
+  async deleteMany(ids) {
+    if (ids.length === 0) return true;
+    const supabase = createClient();
+    const { error } = await supabase.from("pins").delete().in("id", ids);
+    if (error) console.error("Error deleting pins:", error);
+    return !error;
+  },
+
+  async copyToList(source, { listId, userId, keepPersonalFields = false, trackSource = false, personal = {} }) {
+    if (source.length === 0) return true;
+
+    const rows: PinInsert[] = source.map((pin) => ({
+      user_id: userId,
+      list_id: listId,
+      place_id: pin.place_id,
+      name: pin.name,
+      address: pin.address,
+      lat: pin.lat,
+      lng: pin.lng,
+      category: pin.category,
+      is_visited: keepPersonalFields ? pin.is_visited : personal.is_visited ?? false,
+      personal_notes: keepPersonalFields ? pin.personal_notes : personal.personal_notes ?? null,
+      personal_rating: keepPersonalFields ? pin.personal_rating : null,
+      source_pin_id: trackSource ? pin.id : null,
+      saved_from_pin_id: pin.id,
+    }));
+
+    const supabase = createClient();
+    const { error } = await supabase.from("pins").insert(rows);
+    if (error) console.error("Error copying pins:", error);
+    return !error;
+  },
+
+  async listPhotos(pinIds) {
+    const supabase = createClient();
+    const photos: PinPhoto[] = [];
+
+    // The ids go in the URL, so ask in chunks
+    for (let start = 0; start < pinIds.length; start += PHOTO_QUERY_CHUNK) {
+      const { data, error } = await supabase
+        .from("pin_photos")
+        .select("*")
+        .in("pin_id", pinIds.slice(start, start + PHOTO_QUERY_CHUNK))
+        .order("created_at", { ascending: true });
+      if (error) {
+        console.error("Error loading photos:", error);
+        return [];
+      }
+      photos.push(...data);
+    }
+
+    return photos.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  },
+};
+
+const visits: VisitsRepository = {
+  async list(pinId) {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("visits")
+      .select(VISIT_WITH_JOINS)
+      .eq("pin_id", pinId)
+      .order("visited_on", { ascending: false })
+      .order("created_at", { ascending: false });
+    if (error) console.error("Error loading visits:", error);
+    return ((data || []) as VisitWithCompanionRows[]).map(toVisit);
+  },
+
+  async create(visit, companionIds) {
+    const supabase = createClient();
+    const { data, error } = await supabase.from("visits").insert(visit).select("id").single();
+    if (error || !data) {
+      console.error("Error logging visit:", error);
+      return null;
+    }
+
+    // The visit stands even if tagging fails
+    if (companionIds.length > 0) {
+      const { error: companionError } = await supabase
+        .from("visit_companions")
+        .insert(companionIds.map((userId) => ({ visit_id: data.id, user_id: userId })));
+      if (companionError) console.error("Error tagging companions:", companionError);
+    }
+
+    const { data: created, error: loadError } = await supabase
+      .from("visits")
+      .select(VISIT_WITH_JOINS)
+      .eq("id", data.id)
+      .single();
+    if (loadError) console.error("Error loading visit:", loadError);
+    return created ? toVisit(created as VisitWithCompanionRows) : null;
+  },
+
+  async update(id, patch, companionIds) {
+    const supabase = createClient();
+    const { error } = await supabase.from("visits").update(patch).eq("id", id);
+    if (error) {
+      console.error("Error updating visit:", error);
+      return false;
+    }
+    if (!companionIds) return true;
+
+    const { error: untagError } = await supabase
+      .from("visit_companions")
+      .delete()
+      .eq("visit_id", id)
+      .not("user_id", "in", `(${companionIds.join(",")})`);
+    const { error: tagError } = companionIds.length
+      ? await supabase
+          .from("visit_companions")
+          .upsert(companionIds.map((userId) => ({ visit_id: id, user_id: userId })), { ignoreDuplicates: true })
+      : { error: null };
+    if (untagError || tagError) console.error("Error updating companions:", untagError || tagError);
+    return !untagError && !tagError;
+  },
+
+  async delete(id) {
+    const supabase = createClient();
+    const { error } = await supabase.from("visits").delete().eq("id", id);
+    if (error) console.error("Error deleting visit:", error);
+    return !error;
+  },
+};
+
+// The RPC reports false when the caller doesn't own the itinerary
+async function saveItineraryStops(itineraryId: string, stops: ItineraryStopInput[]) {
+  const supabase = createClient();
+  const { data, error } = await supabase.rpc("save_itinerary_stops", {
+    p_itinerary_id: itineraryId,
+    p_stops: stops,
+  });
+  if (error) console.error("Error saving itinerary stops:", error);
+  return !error && data === true;
+}
+
+const itineraries: ItinerariesRepository = {
+  async listByOwner(userId) {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("itineraries")
+      .select("*")
+      .eq("user_id", userId)
+      .order("updated_at", { ascending: false });
+    if (error) console.error("Error loading itineraries:", error);
+    return (data || []) as Itinerary[];
+  },
+
+  async getById(id) {
+    const supabase = createClient();
+    const { data, error } = await supabase.from("itineraries").select(ITINERARY_WITH_STOPS).eq("id", id).maybeSingle();
+    if (error) console.error("Error loading itinerary:", error);
+    if (!data) return null;
+
+    const itinerary = data as Itinerary;
+    return { ...itinerary, stops: [...(itinerary.stops || [])].sort((a, b) => a.position - b.position) };
+  },
+
+  async create(itinerary, stops) {
+    const supabase = createClient();
+    const { data, error } = await supabase.from("itineraries").insert(itinerary).select("id").single();
+    if (error || !data) {
+      console.error("Error creating itinerary:", error);
+      return null;
+    }
+
+    // The itinerary stands even if its stops fail to save
+    if (stops.length > 0) await saveItineraryStops(data.id, stops);
+    return itineraries.getById(data.id);
+  },
+
+  async update(id, patch, stops) {
+    const supabase = createClient();
+    if (Object.keys(patch).length > 0) {
+      const { error } = await supabase.from("itineraries").update(patch).eq("id", id);
+      if (error) {
+        console.error("Error updating itinerary:", error);
+        return false;
+      }
+    }
+    return stops ? saveItineraryStops(id, stops) : true;
+  },
+
+  async delete(id) {
+    const supabase = createClient();
+    const { error } = await supabase.from("itineraries").delete().eq("id", id);
+    if (error) console.error("Error deleting itinerary:", error);
+    return !error;
+  },
+};
+
+type PollWithParticipantRows = Omit<Poll, "participants"> & { participants: { profile: Profile }[] };
+
+const polls: PollsRepository = {
+  async getById(id) {
+    const supabase = createClient();
+    const { data, error } = await supabase.from("polls").select(POLL_WITH_JOINS).eq("id", id).maybeSingle();
+    if (error) console.error("Error loading poll:", error);
+    if (!data) return null;
+
+    const { participants, ...poll } = data as PollWithParticipantRows;
+    return {
+      ...poll,
+      options: [...(poll.options || [])].sort((a, b) => a.position - b.position),
+      participants: participants.map(({ profile }) => profile),
+    };
+  },
+
+  async create({ question, closes_at, pinIds, inviteeIds }) {
+    const supabase = createClient();
+    const { data, error } = await supabase.rpc("create_poll", {
+      p_question: question,
+      p_closes_at: closes_at,
+      p_pin_ids: pinIds,
+      p_invitee_ids: inviteeIds,
+    });
+    if (error) console.error("Error creating poll:", error);
+    return (data as string | null) ?? null;
+  },
+
+  async setChoice({ pollId, optionId }, userId, choice) {
+    const supabase = createClient();
+    if (!choice) {
+      const { error } = await supabase.from("poll_votes").delete().eq("option_id", optionId).eq("user_id", userId);
+      if (error) console.error("Error taking back vote:", error);
+      return !error;
+    }
+
+    if (choice === "veto") {
+      const { error } = await supabase
+        .from("poll_votes")
+        .delete()
+        .eq("poll_id", pollId)
+        .eq("user_id", userId)
+        .eq("is_veto", true)
+        .neq("option_id", optionId);
+      if (error) {
+        console.error("Error moving veto:", error);
+        return false;
+      }
+    }
+
+    const { error } = await supabase
+      .from("poll_votes")
+      .upsert(
+        { poll_id: pollId, option_id: optionId, user_id: userId, is_veto: choice === "veto" },
+        { onConflict: "option_id,user_id" }
+      );
+    if (error) console.error("Error voting:", error);
+    return !error;
+  },
+
+  async delete(id) {
+    const supabase = createClient();
+    const { error } = await supabase.from("polls").delete().eq("id", id);
+    if (error) console.error("Error deleting poll:", error);
+    return !error;
+  },
+};
+
+const likes: LikesRepository = {
+  async getStatus(target, userId) {
+    const supabase = createClient();
+    const { table, column } = likeTable(target);
+
+    const [{ count }, liked] = await Promise.all([
+      supabase.from(table).select("*", { count: "exact", head: true }).eq(column, target.id),
+      userId
+        ? supabase
+            .from(table)
+            .select("user_id")
+            .eq(column, target.id)
+            .eq("user_id", userId)
+            .maybeSingle()
+            .then(({ data }) => !!data)
+        : Promise.resolve(false),
+    ]);
+
+    return { liked, count: count || 0 };
+  },
+
+  async like(target, userId) {
+    const supabase = createClient();
+    const { table, column } = likeTable(target);
+    const { error } = await supabase.from(table).insert({ user_id: userId, [column]: target.id });
+    if (error) console.error("Error liking:", error);
+    return !error;
+  },
+
+  async unlike(target, userId) {
+    const supabase = createClient();
+    const { table, column } = likeTable(target);
+    const { error } = await supabase
+      .from(table)
+      .delete()
+      .eq("user_id", userId)
+      .eq(column, target.id);
+    if (error) console.error("Error unliking:", error);
+    return !error;
+  },
+};
+
+const comments: CommentsRepository = {
+  async list(target, { offset, limit }) {
+    const supabase = createClient();
+    const { data, count, error } = await supabase
+      .from("comments")
+      .select(COMMENT_WITH_PROFILE, { count: "exact" })
+      .eq(commentColumn(target), target.id)
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error("Error loading comments:", error);
+      return null;
+    }
+    return { comments: (data || []) as Comment[], total: count || 0 };
+  },
+
+  async count(target) {
+    const supabase = createClient();
+    const { count } = await supabase
+      .from("comments")
+      .select("*", { count: "exact", head: true })
+      .eq(commentColumn(target), target.id);
+    return count || 0;
+  },
+
+  async create(target, comment) {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("comments")
+      .insert({ ...comment, [commentColumn(target)]: target.id })
+      .select(COMMENT_WITH_PROFILE)
+      .single();
+    if (error) console.error("Error posting comment:", error);
+    return (data as Comment | null) ?? null;
+  },
+
+  async update(id, content) {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("comments")
+      .update({ content })
+      .eq("id", id)
+      .select(COMMENT_WITH_PROFILE)
+      .single();
+    if (error) console.error("Error updating comment:", error);
+    return (data as Comment | null) ?? null;
+  },
+
+  async delete(id) {
+    const supabase = createClient();
+    const { error } = await supabase.from("comments").delete().eq("id", id);
+    if (error) console.error("Error deleting comment:", error);
+    return !error;
+  },
+};
+
+const layers: LayersRepository = {
+  async getLayers(userId) {
+    const [ownLists, followingIds] = await Promise.all([
+      lists.listByOwner(userId, { orderBy: "name" }),
+      follows.getFollowingIds(userId),
+    ]);
+
+    const [followedProfiles, followedLists] = await Promise.all([
+      profiles.getMany(followingIds),
+      lists.listPublicByOwners(followingIds, { orderBy: "name" }),
+    ]);
+
+    return {
+      ownLists,
+      followed: followedProfiles
+        .map((profile) => ({
+          profile,
+          lists: followedLists.filter((l) => l.user_id === profile.id),
+        }))
+        .filter((f) => f.lists.length > 0),
+    };
+  },
+};
+
+const members: MembersRepository = {
+  async getRole(listId, userId) {
+    if (!userId) return null;
+    const list = await lists.getById(listId);
+    if (list?.user_id === userId) return "owner";
+
+    const supabase = createClient();
+    const { data } = await supabase
+      .from("list_members")
+      .select("role")
+      .eq("list_id", listId)
+      .eq("user_id", userId)
+      .maybeSingle();
+    return (data as Pick<ListMember, "role"> | null)?.role ?? null;
+  },
+
+  async list(listId) {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("list_members")
+      .select(MEMBER_WITH_PROFILE)
+      .eq("list_id", listId)
+      .order("created_at");
+    if (error) console.error("Error loading members:", error);
+    return (data || []) as ListMember[];
+  },
+
+  async add(listId, { userId, role, invitedBy }) {
+    const supabase = createClient();
+    const { error } = await supabase
+      .from("list_members")
+      .insert({ list_id: listId, user_id: userId, role, invited_by: invitedBy });
+    if (error) console.error("Error adding member:", error);
+    return !error;
+  },
+
+  async updateRole(listId, userId, role) {
+    const supabase = createClient();
+    const { error } = await supabase
+      .from("list_members")
+      .update({ role })
+      .eq("list_id", listId)
+      .eq("user_id", userId);
+    if (error) console.error("Error updating member:", error);
+    return !error;
+  },
+
+  async remove(listId, userId) {
+    const supabase = createClient();
+    const { error } = await supabase
+      .from("list_members")
+      .delete()
+      .eq("list_id", listId)
+      .eq("user_id", userId);
+    if (error) console.error("Error removing member:", error);
+    return !error;
+  },
+
+  async listInvites(listId) {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("list_invites")
+      .select("*")
+      .eq("list_id", listId)
+      .order("created_at", { ascending: false });
+    if (error) console.error("Error loading invite links:", error);
+    return (data || []) as ListInvite[];
+  },
+
+  async createInvite(listId, role, createdBy) {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("list_invites")
+      .insert({ list_id: listId, role, created_by: createdBy })
+      .select()
+      .single();
+    if (error) console.error("Error creating invite link:", error);
+    return (data as ListInvite | null) ?? null;
+  },
+
+  async revokeInvite(id) {
+    const supabase = createClient();
+    const { error } = await supabase.from("list_invites").delete().eq("id", id);
+    if (error) console.error("Error revoking invite link:", error);
+    return !error;
+  },
+
+  async acceptInvite(token) {
+    const supabase = createClient();
+    const { data, error } = await supabase.rpc("accept_list_invite", { p_token: token });
+    if (error) console.error("Error joining list:", error);
+    return (data as string | null) ?? null;
+  },
+};
+
+const accessTokens: AccessTokensRepository = {
+  async list(userId) {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("personal_access_tokens")
+      .select(ACCESS_TOKEN_COLUMNS)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+    if (error) console.error("Error loading access tokens:", error);
+    return (data || []) as PersonalAccessToken[];
+  },
+
+  async create(name, { scope, expiresAt }) {
+    const supabase = createClient();
+    const { data, error } = await supabase.rpc("create_personal_access_token", {
+      p_name: name,
+      p_scope: scope,
+      p_expires_at: expiresAt,
+    });
+    if (error) console.error("Error creating access token:", error);
+    return (data as string | null) ?? null;
+  },
+
+  async revoke(id) {
+    const supabase = createClient();
+    const { error } = await supabase.from("personal_access_tokens").delete().eq("id", id);
+    if (error) console.error("Error revoking access token:", error);
+    return !error;
+  },
+};
+
+const webhooks: WebhooksRepository = {
+  async list(listId) {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("list_webhooks")
+      .select("*")
+      .eq("list_id", listId)
+      .order("created_at");
+    if (error) console.error("Error loading webhooks:", error);
+    return (data || []) as ListWebhook[];
+  },
+
+  async create(listId, { url, events }, createdBy) {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("list_webhooks")
+      .insert({ list_id: listId, url, events, created_by: createdBy })
+      .select()
+      .single();
+    if (error) console.error("Error adding webhook:", error);
+    return (data as ListWebhook | null) ?? null;
+  },
+
+  async update(id, changes) {
+    const supabase = createClient();
+    const { error } = await supabase.from("list_webhooks").update(changes).eq("id", id);
+    if (error) console.error("Error updating webhook:", error);
+    return !error;
+  },
+
+  async remove(id) {
+    const supabase = createClient();
+    const { error } = await supabase.from("list_webhooks").delete().eq("id", id);
+    if (error) console.error("Error removing webhook:", error);
+    return !error;
+  },
+
+  async sendTest(id) {
+    const supabase = createClient();
+    const { data, error } = await supabase.rpc("send_webhook_test", { p_webhook_id: id });
+    if (error) console.error("Error sending test webhook:", error);
+    return data === true;
+  },
+
+  async listDeliveries(webhookIds, limit) {
+    if (webhookIds.length === 0) return [];
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("webhook_deliveries")
+      .select("*")
+      .in("webhook_id", webhookIds)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+    if (error) console.error("Error loading webhook deliveries:", error);
+    return (data || []) as WebhookDelivery[];
+  },
+};
+
+const notifications: NotificationsRepository = {
+  async list(userId, limit) {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("notifications")
+      .select(NOTIFICATION_WITH_TARGETS)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+    if (error) console.error("Error loading notifications:", error);
+    return (data || []) as unknown as UserNotification[];
+  },
+
+  async countUnread(userId) {
+    const supabase = createClient();
+    const { count, error } = await supabase
+      .from("notifications")
+      .select("*", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .is("read_at", null);
+    if (error) console.error("Error counting notifications:", error);
+    return count || 0;
+  },
+
+  async markRead(ids) {
+    if (ids.length === 0) return true;
+    const supabase = createClient();
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .in("id", ids)
+      .is("read_at", null);
+    if (error) console.error("Error marking notifications read:", error);
+    return !error;
+  },
+
+  async markAllRead(userId) {
+    const supabase = createClient();
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .is("read_at", null);
+    if (error) console.error("Error marking notifications read:", error);
+    return !error;
+  },
+
+  async getMutedTypes(userId) {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from("notification_settings")
+      .select("muted_types")
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (error) console.error("Error loading notification settings:", error);
+    return (data?.muted_types || []) as NotificationType[];
+  },
+
+  async setMutedTypes(userId, types) {
+    const supabase = createClient();
+    const { error } = await supabase
+      .from("notification_settings")
+      .upsert({ user_id: userId, muted_types: types });
+    if (error) console.error("Error saving notification settings:", error);
+    return !error;
+  },
+};
+
+// The client reuses a channel per topic, so each subscription gets its own
+// topic; otherwise two components watching the same list would share one.
+function channelTopic(name: string) {
+  return `${name}:${crypto.randomUUID()}`;
+}
+
+const realtime: RealtimeRepository = {
+  subscribeToPins(listId, onChange) {
+    const supabase = createClient();
+    const filter = `list_id=eq.${listId}`;
+    const channel = supabase
+      .channel(channelTopic(`pins:${listId}`))
+      .on<PinRow>("postgres_changes", { event: "INSERT", schema: "public", table: "pins", filter }, ({ new: pin }) =>
+        onChange({ type: "insert", pin: pin as unknown as Pin })
+      )
+      // Filters match the new row, so a filtered update never tells the old
+      // list a pin moved out of it. Moves out arrive as deletes instead.
+      .on<PinRow>("postgres_changes", { event: "UPDATE", schema: "public", table: "pins" }, ({ new: pin }) =>
+        onChange(
+          pin.list_id === listId ? { type: "update", pin: pin as unknown as Pin } : { type: "delete", id: pin.id }
+        )
+      )
+      .on<PinRow>("postgres_changes", { event: "DELETE", schema: "public", table: "pins" }, ({ old }) => {
+        if (old.id) onChange({ type: "delete", id: old.id });
+      })
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+
+  subscribeToLikes(target, onChange) {
+    const supabase = createClient();
+    const table = target.type === "list" ? "list_likes" : "pin_likes";
+    const column = target.type === "list" ? "list_id" : "pin_id";
+    const channel = supabase
+      .channel(channelTopic(`${table}:${target.id}`))
+      .on<ListLikeRow & PinLikeRow>(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table, filter: `${column}=eq.${target.id}` },
+        ({ new: like }) => onChange({ userId: like.user_id, liked: true })
+      )
+      .on<ListLikeRow & PinLikeRow>("postgres_changes", { event: "DELETE", schema: "public", table }, ({ old }) => {
+        if (old.user_id && old[column] === target.id) onChange({ userId: old.user_id, liked: false });
+      })
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+
+  subscribeToActivity(userIds, onEvent) {
+    if (userIds.length === 0) return () => {};
+    const supabase = createClient();
+    const channel = supabase.channel(channelTopic("activity"));
+    // One filter per chunk of users, as an "in" filter takes only so many
+    for (let start = 0; start < userIds.length; start += REALTIME_IN_FILTER_LIMIT) {
+      const filter = `user_id=in.(${userIds.slice(start, start + REALTIME_IN_FILTER_LIMIT).join(",")})`;
+      channel
+        .on<PinRow>("postgres_changes", { event: "INSERT", schema: "public", table: "pins", filter }, ({ new: pin }) =>
+          onEvent({ type: "pin_added", pin: pin as unknown as Pin })
+        )
+        .on<ListRow>("postgres_changes", { event: "INSERT", schema: "public", table: "lists", filter }, ({ new: list }) => {
+          if (list.is_public) onEvent({ type: "list_created", list });
+        });
+    }
+    channel.subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+
+  subscribeToPoll(pollId, onChange: (change: PollChange) => void) {
+    const supabase = createClient();
+    const filter = `poll_id=eq.${pollId}`;
+    const channel = supabase
+      .channel(channelTopic(`poll:${pollId}`))
+      .on<PollVote>("postgres_changes", { event: "INSERT", schema: "public", table: "poll_votes", filter }, ({ new: vote }) =>
+        onChange({ type: "vote", vote })
+      )
+      .on<PollVote>("postgres_changes", { event: "UPDATE", schema: "public", table: "poll_votes", filter }, ({ new: vote }) =>
+        onChange({ type: "vote", vote })
+      )
+      .on<PollVote>("postgres_changes", { event: "DELETE", schema: "public", table: "poll_votes" }, ({ old }) => {
+        if (old.option_id && old.user_id) onChange({ type: "unvote", optionId: old.option_id, userId: old.user_id });
+      })
+      .on<Poll>(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "polls", filter: `id=eq.${pollId}` },
+        ({ new: poll }) => {
+          if (poll.closed_at) {
+            onChange({ type: "closed", poll: { id: poll.id, closed_at: poll.closed_at, winner_option_id: poll.winner_option_id } });
+          }
+        }
+      )
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+};
+
+export const supabaseRepositories: DataRepositories = {
+  auth,
+  profiles,
+  follows,
+  lists,
+  pins,
+  visits,
+  itineraries,
+  polls,
+  likes,
+  comments,
+  members,
+  layers,
+  accessTokens,
+  webhooks,
+  notifications,
+  realtime,
+};
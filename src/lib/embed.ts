@@ -0,0 +1,124 @@
+/**
+ * The embeddable list widget at /embed/list/<id> and its oEmbed endpoint.
+ * Embeds are configured with query parameters so they can be pasted into
+ * any page as a plain iframe:
+ *
+ *   theme=dark|light   colors of the map and the pin list (default dark)
+ *   bounds=w,s,e,n     initial map bounds (default fits the pins)
+ *   notes=0|1          show the owner's notes on each pin (default 1)
+ */
+
+export type EmbedTheme = "dark" | "light";
+
+// [[west, south], [east, north]], the shape Mapbox takes for bounds
+export type EmbedBounds = [[number, number], [number, number]];
+
+export interface EmbedOptions {
+  theme: EmbedTheme;
+  bounds: EmbedBounds | null;
+  showNotes: boolean;
+}
+
+export type EmbedSearchParams = Record<string, string | string[] | undefined>;
+
+export const DEFAULT_EMBED_OPTIONS: EmbedOptions = { theme: "dark", bounds: null, showNotes: true };
+
+export const EMBED_SIZE = { width: 600, height: 450 };
+const MIN_EMBED_SIZE = { width: 280, height: 240 };
+
+function first(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function parseBounds(value: string | undefined): EmbedBounds | null {
+  if (!value) return null;
+  const parts = value.split(",").map((part) => Number(part.trim()));
+  if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) return null;
+
+  const [west, south, east, north] = parts;
+  if (west < -180 || east > 180 || south < -90 || north > 90) return null;
+  if (west >= east || south >= north) return null;
+  return [[west, south], [east, north]];
+}
+
+// Unknown or malformed values fall back to the defaults rather than failing,
+// as a typo in someone's blog post shouldn't break the embed
+export function parseEmbedOptions(params: EmbedSearchParams): EmbedOptions {
+  const theme = first(params.theme);
+  const notes = first(params.notes);
+
+  return {
+    theme: theme === "light" ? "light" : DEFAULT_EMBED_OPTIONS.theme,
+    bounds: parseBounds(first(params.bounds)),
+    showNotes: notes === undefined ? DEFAULT_EMBED_OPTIONS.showNotes : !["0", "false", "no"].includes(notes),
+  };
+}
+
+// The box around the pins, for embeds that don't set their own bounds
+export function pinBounds(pins: { lat: number; lng: number }[]): EmbedBounds | null {
+  if (pins.length === 0) return null;
+  const lngs = pins.map((pin) => pin.lng);
+  const lats = pins.map((pin) => pin.lat);
+  return [
+    [Math.min(...lngs), Math.min(...lats)],
+    [Math.max(...lngs), Math.max(...lats)],
+  ];
+}
+
+// The embed's path with only the options that differ from the defaults
+export function embedPath(listId: string, options: Partial<EmbedOptions> = {}): string {
+  const search = new URLSearchParams();
+  if (options.theme && options.theme !== DEFAULT_EMBED_OPTIONS.theme) search.set("theme", options.theme);
+  if (options.bounds) search.set("bounds", options.bounds.flat().join(","));
+  if (options.showNotes === false) search.set("notes", "0");
+
+  const query = search.toString();
+  return `/embed/list/${listId}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * Finds the list a URL points at, for oEmbed consumers that pass a share
+ * link (/l/<id>), an in-app link (/lists/<id>) or an embed URL. Embed
+ * options in the URL's query carry over to the iframe.
+ */
+export function parseEmbeddableUrl(url: string): { listId: string; options: EmbedOptions } | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const match = parsed.pathname.match(/^\/(?:l|lists|embed\/list)\/([^/]+)\/?$/);
+  if (!match) return null;
+
+  return {
+    listId: decodeURIComponent(match[1]),
+    options: parseEmbedOptions(Object.fromEntries(parsed.searchParams)),
+  };
+}
+
+// oEmbed's maxwidth and maxheight are upper bounds on the default size
+export function embedSize(maxWidth?: string | null, maxHeight?: string | null): { width: number; height: number } {
+  const limit = (value: string | null | undefined, fallback: number, min: number) => {
+    const parsed = value ? Number.parseInt(value, 10) : NaN;
+    return Number.isFinite(parsed) && parsed > 0 ? Math.max(min, Math.min(fallback, parsed)) : fallback;
+  };
+
+  return {
+    width: limit(maxWidth, EMBED_SIZE.width, MIN_EMBED_SIZE.width),
+    height: limit(maxHeight, EMBED_SIZE.height, MIN_EMBED_SIZE.height),
+  };
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export function embedHtml(src: string, title: string, size: { width: number; height: number }): string {
+  return (
+    `<iframe src="${escapeAttribute(src)}" title="${escapeAttribute(title)}" ` +
+    `width="${size.width}" height="${size.height}" style="border:0;border-radius:16px" ` +
+    `loading="lazy" allowfullscreen></iframe>`
+  );
+}
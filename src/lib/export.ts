@@ -0,0 +1,283 @@
+/**
+ * Writes lists out for other apps: GeoJSON in the map's feature shape,
+ * KML with a style per list color, GPX waypoints and CSV. Every format
+ * carries notes, ratings, visited flags and photo URLs. Everything runs in
+ * the browser; the files are downloaded straight from memory.
+ */
+
+import type { List, Pin, PinExportFeatureCollection } from "@/types";
+
+export type ExportFormat = "geojson" | "kml" | "gpx" | "csv";
+
+export const EXPORT_FORMATS: {
+  format: ExportFormat;
+  label: string;
+  description: string;
+  extension: string;
+  mimeType: string;
+}[] = [
+  {
+    format: "geojson",
+    label: "GeoJSON",
+    description: "Mapping tools and code",
+    extension: "geojson",
+    mimeType: "application/geo+json",
+  },
+  {
+    format: "kml",
+    label: "KML",
+    description: "Google Earth and My Maps",
+    extension: "kml",
+    mimeType: "application/vnd.google-earth.kml+xml",
+  },
+  { format: "gpx", label: "GPX", description: "GPS and hiking apps", extension: "gpx", mimeType: "application/gpx+xml" },
+  { format: "csv", label: "CSV", description: "Spreadsheets", extension: "csv", mimeType: "text/csv" },
+];
+
+// A list and its pins, with each pin's photos attached
+export interface ExportList {
+  list: List;
+  pins: Pin[];
+}
+
+const APP_NAME = "New Fork City";
+
+function photoUrls(pin: Pin) {
+  return (pin.photos ?? []).map((photo) => photo.url);
+}
+
+export function toGeoJson(lists: ExportList[]): PinExportFeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: lists.flatMap(({ list, pins }) =>
+      pins.map((pin) => ({
+        type: "Feature" as const,
+        geometry: { type: "Point" as const, coordinates: [pin.lng, pin.lat] as [number, number] },
+        properties: {
+          id: pin.id,
+          name: pin.name,
+          color: list.color,
+          emoji: list.emoji_icon,
+          listId: list.id,
+          listName: list.name,
+          userId: pin.user_id,
+          isVisited: pin.is_visited,
+          rating: pin.personal_rating,
+          address: pin.address,
+          category: pin.category,
+          notes: pin.personal_notes,
+          photos: photoUrls(pin),
+          placeId: pin.place_id,
+          createdAt: pin.created_at,
+        },
+      }))
+    ),
+  };
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// Skipped entirely when there's nothing to say
+function element(tag: string, value: string | number | null | undefined) {
+  return value === null || value === undefined || value === "" ? [] : [`<${tag}>${escapeXml(String(value))}</${tag}>`];
+}
+
+function indent(lines: string[], depth = 1) {
+  return lines.map((line) => "  ".repeat(depth) + line);
+}
+
+// KML colors are aabbggrr
+export function kmlColor(hex: string) {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) return "ffffffff";
+  const [, r, g, b] = match;
+  return `ff${b}${g}${r}`.toLowerCase();
+}
+
+// A white pin so the style color comes through as is
+const KML_ICON = "https://maps.google.com/mapfiles/kml/paddle/wht-blank.png";
+
+function kmlPlacemark(list: List, pin: Pin) {
+  const data: [string, string | number | null][] = [
+    ["category", pin.category],
+    ["rating", pin.personal_rating],
+    ["visited", String(pin.is_visited)],
+    ["photos", photoUrls(pin).join("\n") || null],
+    ["place_id", pin.place_id],
+  ];
+
+  return [
+    "<Placemark>",
+    ...indent([
+      ...element("name", pin.name),
+      ...element("address", pin.address),
+      ...element("description", pin.personal_notes),
+      `<styleUrl>#list-${list.id}</styleUrl>`,
+      "<ExtendedData>",
+      ...indent(
+        data.flatMap(([name, value]) =>
+          value === null ? [] : [`<Data name="${name}">${element("value", value).join("")}</Data>`]
+        )
+      ),
+      "</ExtendedData>",
+      `<Point><coordinates>${pin.lng},${pin.lat}</coordinates></Point>`,
+    ]),
+    "</Placemark>",
+  ];
+}
+
+export function toKml(lists: ExportList[], title: string): string {
+  const styles = lists.flatMap(({ list }) => [
+    `<Style id="list-${list.id}">`,
+    ...indent([
+      "<IconStyle>",
+      ...indent([`<color>${kmlColor(list.color)}</color>`, `<Icon><href>${KML_ICON}</href></Icon>`]),
+      "</IconStyle>",
+    ]),
+    "</Style>",
+  ]);
+
+  const folders = lists.flatMap(({ list, pins }) => [
+    "<Folder>",
+    ...indent([
+      ...element("name", `${list.emoji_icon} ${list.name}`),
+      ...element("description", list.description),
+      ...pins.flatMap((pin) => kmlPlacemark(list, pin)),
+    ]),
+    "</Folder>",
+  ]);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    ...indent(["<Document>", ...indent([...element("name", title), ...styles, ...folders]), "</Document>"]),
+    "</kml>",
+    "",
+  ].join("\n");
+}
+
+// GPX has no fields for ratings or visits, so they go in the comment
+// alongside the address; notes are the description
+function gpxComment(pin: Pin) {
+  return [
+    pin.address,
+    pin.is_visited ? "Visited" : null,
+    pin.personal_rating ? `Rated ${pin.personal_rating}/5` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export function toGpx(lists: ExportList[], title: string): string {
+  // Child order follows the GPX 1.1 schema
+  const waypoints = lists.flatMap(({ list, pins }) =>
+    pins.flatMap((pin) => [
+      `<wpt lat="${pin.lat}" lon="${pin.lng}">`,
+      ...indent([
+        ...element("time", pin.created_at),
+        ...element("name", pin.name),
+        ...element("cmt", gpxComment(pin)),
+        ...element("desc", pin.personal_notes),
+        ...photoUrls(pin).map((url) => `<link href="${escapeXml(url)}" />`),
+        ...element("type", list.name),
+      ]),
+      "</wpt>",
+    ])
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${APP_NAME}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    ...indent([`<metadata>${element("name", title).join("")}</metadata>`, ...waypoints]),
+    "</gpx>",
+    "",
+  ].join("\n");
+}
+
+// Headers the CSV importer recognizes, so an export can be imported again
+const CSV_HEADERS = [
+  "List",
+  "Name",
+  "Address",
+  "Latitude",
+  "Longitude",
+  "Category",
+  "Visited",
+  "Rating",
+  "Notes",
+  "Photos",
+  "Saved",
+  "Place ID",
+];
+
+function csvCell(value: string | number | boolean | null, { text = false } = {}) {
+  if (value === null) return "";
+  let cell = String(value);
+  // Spreadsheets run text starting with these as a formula
+  if (text && /^[=+\-@\t\r]/.test(cell)) cell = `'${cell}`;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+export function toCsv(lists: ExportList[]): string {
+  const rows = lists.flatMap(({ list, pins }) =>
+    pins.map((pin) =>
+      [
+        csvCell(list.name, { text: true }),
+        csvCell(pin.name, { text: true }),
+        csvCell(pin.address, { text: true }),
+        csvCell(pin.lat),
+        csvCell(pin.lng),
+        csvCell(pin.category, { text: true }),
+        csvCell(pin.is_visited),
+        csvCell(pin.personal_rating),
+        csvCell(pin.personal_notes, { text: true }),
+        csvCell(photoUrls(pin).join(" ")),
+        csvCell(pin.created_at),
+        csvCell(pin.place_id, { text: true }),
+      ].join(",")
+    )
+  );
+
+  // The BOM gets Excel to read the file as UTF-8
+  return "\uFEFF" + [CSV_HEADERS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+export function exportLists(format: ExportFormat, lists: ExportList[], title: string): string {
+  switch (format) {
+    case "geojson":
+      return JSON.stringify(toGeoJson(lists), null, 2);
+    case "kml":
+      return toKml(lists, title);
+    case "gpx":
+      return toGpx(lists, title);
+    case "csv":
+      return toCsv(lists);
+  }
+}
+
+export function exportFileName(title: string, format: ExportFormat) {
+  const { extension } = EXPORT_FORMATS.find((f) => f.format === format)!;
+  const slug = title
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "places"}.${extension}`;
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
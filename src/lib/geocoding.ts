@@ -0,0 +1,121 @@
+/**
+ * Place search provider used by the /api/places route handlers. Server only:
+ * the Mapbox provider reads MAPBOX_SEARCH_TOKEN, which is never sent to the
+ * browser. Tests swap in a local fake with setPlacesProvider().
+ */
+
+import type { PlaceSuggestion, RetrievedPlace } from "@/types";
+
+export interface PlacesProvider {
+  suggest(query: string, sessionToken: string): Promise<PlaceSuggestion[]>;
+  // null when the id doesn't resolve to a place
+  retrieve(mapboxId: string, sessionToken: string): Promise<RetrievedPlace | null>;
+}
+
+export class PlacesProviderError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "PlacesProviderError";
+  }
+}
+
+const SEARCHBOX_URL = "https://api.mapbox.com/search/searchbox/v1";
+// Midtown; results are biased towards NYC
+const NYC_PROXIMITY = "-73.985428,40.748817";
+const POI_CATEGORIES = "restaurant,bar,cafe,food,nightlife,coffee,bakery,fast_food,pub";
+
+interface MapboxSuggestion {
+  mapbox_id: string;
+  name: string;
+  full_address?: string;
+  address?: string;
+  place_formatted?: string;
+  poi_category?: string[];
+  context?: { neighborhood?: { name?: string } };
+}
+
+interface MapboxFeature {
+  geometry: { coordinates: [number, number] };
+  properties: {
+    mapbox_id: string;
+    name: string;
+    full_address?: string;
+    address?: string;
+    poi_category?: string[];
+  };
+}
+
+export function createMapboxProvider(token: string): PlacesProvider {
+  const request = async <T>(path: string, params: Record<string, string>): Promise<T> => {
+    const url = new URL(`${SEARCHBOX_URL}${path}`);
+    Object.entries({ ...params, access_token: token }).forEach(([key, value]) =>
+      url.searchParams.set(key, value)
+    );
+
+    const response = await fetch(url, { cache: "no-store" });
+    if (!response.ok) {
+      throw new PlacesProviderError(`Mapbox responded with ${response.status}`, response.status);
+    }
+    return response.json() as Promise<T>;
+  };
+
+  return {
+    async suggest(query, sessionToken) {
+      const data = await request<{ suggestions?: MapboxSuggestion[] }>("/suggest", {
+        q: query,
+        session_token: sessionToken,
+        proximity: NYC_PROXIMITY,
+        limit: "10",
+        types: "poi,address",
+        poi_category: POI_CATEGORIES,
+      });
+
+      return (data.suggestions || []).map((s) => ({
+        mapbox_id: s.mapbox_id,
+        name: s.name,
+        address: s.full_address || s.address || s.place_formatted || null,
+        category: s.poi_category?.join(", ") || null,
+        neighborhood: s.context?.neighborhood?.name || null,
+      }));
+    },
+
+    async retrieve(mapboxId, sessionToken) {
+      const data = await request<{ features?: MapboxFeature[] }>(
+        `/retrieve/${encodeURIComponent(mapboxId)}`,
+        { session_token: sessionToken }
+      );
+
+      const feature = data.features?.[0];
+      if (!feature) return null;
+
+      const [lng, lat] = feature.geometry.coordinates;
+      return {
+        mapbox_id: feature.properties.mapbox_id || mapboxId,
+        name: feature.properties.name,
+        address: feature.properties.full_address || feature.properties.address || null,
+        lat,
+        lng,
+        category: feature.properties.poi_category?.join(", ") || null,
+      };
+    },
+  };
+}
+
+let provider: PlacesProvider | null = null;
+
+export function getPlacesProvider(): PlacesProvider {
+  if (!provider) {
+    const token = process.env.MAPBOX_SEARCH_TOKEN;
+    if (!token) {
+      throw new PlacesProviderError("MAPBOX_SEARCH_TOKEN is not set", 500);
+    }
+    provider = createMapboxProvider(token);
+  }
+  return provider;
+}
+
+// Replace the provider, e.g. with a fake geocoder in tests. Pass null to go
+// back to Mapbox.
+export function setPlacesProvider(next: PlacesProvider | null) {
+  provider = next;
+}
@@ -0,0 +1,133 @@
+import { addPlace, readRow, type ImportParseResult } from "./place";
+
+// Which column holds each field; null when the file doesn't have it
+export interface CsvMapping {
+  name: number | null;
+  address: number | null;
+  lat: number | null;
+  lng: number | null;
+  notes: number | null;
+  place_id: number | null;
+}
+
+export type CsvField = keyof CsvMapping;
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+  // The line each row starts on, counting from 1 with the header, for
+  // pointing at rows after blank lines and multi-line fields
+  rowLines: number[];
+}
+
+// Picks the delimiter that splits the header line into the most columns
+function detectDelimiter(firstLine: string) {
+  const candidates = [",", ";", "\t"];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+}
+
+// RFC 4180: quoted fields may hold delimiters, newlines and "" escapes
+export function parseCsv(text: string): CsvTable {
+  const source = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(source.slice(0, source.search(/\r?\n|$/)));
+  const lines: string[][] = [];
+  const lineStarts: number[] = [];
+  let line: string[] = [];
+  let field = "";
+  let quoted = false;
+  let lineNumber = 1;
+  let lineStart = 1;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === "\n" || (char === "\r" && source[i + 1] !== "\n")) lineNumber++;
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      line.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") {
+        i++;
+        lineNumber++;
+      }
+      line.push(field);
+      lines.push(line);
+      lineStarts.push(lineStart);
+      lineStart = lineNumber;
+      line = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || line.length > 0) {
+    line.push(field);
+    lines.push(line);
+    lineStarts.push(lineStart);
+  }
+
+  const kept = lines.flatMap((l, index) => (l.some((value) => value.trim() !== "") ? [index] : []));
+  const [headerIndex, ...rowIndexes] = kept;
+  return {
+    headers: headerIndex === undefined ? [] : lines[headerIndex].map((h) => h.trim()),
+    rows: rowIndexes.map((index) => lines[index]),
+    rowLines: rowIndexes.map((index) => lineStarts[index]),
+  };
+}
+
+const HEADER_GUESSES: Record<CsvField, RegExp> = {
+  name: /^(name|title|place|place name|business name|location name)$/i,
+  address: /^(address|full address|street address|location|formatted address)$/i,
+  lat: /^(lat|latitude|y)$/i,
+  lng: /^(lng|lon|long|longitude|x)$/i,
+  notes: /^(notes?|comments?|description|desc)$/i,
+  place_id: /^(place[ _]?id|mapbox[ _]?id)$/i,
+};
+
+export function guessCsvMapping(headers: string[]): CsvMapping {
+  const find = (field: CsvField) => {
+    const index = headers.findIndex((h) => HEADER_GUESSES[field].test(h.trim()));
+    return index === -1 ? null : index;
+  };
+  return {
+    name: find("name"),
+    address: find("address"),
+    lat: find("lat"),
+    lng: find("lng"),
+    notes: find("notes"),
+    place_id: find("place_id"),
+  };
+}
+
+export function csvToPlaces({ rows, rowLines }: CsvTable, mapping: CsvMapping): ImportParseResult {
+  const result: ImportParseResult = { places: [], errors: [] };
+  const read = (row: string[], column: number | null) => (column === null ? null : row[column] ?? null);
+
+  rows.forEach((row, index) => {
+    const line = rowLines[index];
+    readRow(result, line, () =>
+      addPlace(result, line, {
+        name: read(row, mapping.name),
+        address: read(row, mapping.address),
+        lat: read(row, mapping.lat),
+        lng: read(row, mapping.lng),
+        notes: read(row, mapping.notes),
+        place_id: read(row, mapping.place_id),
+      })
+    );
+  });
+
+  return result;
+}
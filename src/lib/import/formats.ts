@@ -0,0 +1,129 @@
+import { addPlace, readRow, type ImportParseResult } from "./place";
+import { childText, findAll, findFirst, parseXml, type XmlElement } from "./xml";
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function str(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+// Descriptions from KML and some GeoJSON exports are HTML
+function stripHtml(value: string | null) {
+  return value?.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, "") ?? null;
+}
+
+// GeoJSON points, including both shapes of Google Takeout "Saved Places":
+// older exports use Title and Location["Business Name"/"Address"], newer
+// ones location.name/address. Other GeoJSON falls back to name/address.
+export function parseGeoJson(text: string): ImportParseResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't valid JSON");
+  }
+
+  const features = isObject(json) && Array.isArray(json.features) ? json.features : isObject(json) && json.type === "Feature" ? [json] : null;
+  if (!features) throw new Error("This file isn't a GeoJSON FeatureCollection");
+
+  const result: ImportParseResult = { places: [], errors: [] };
+
+  features.forEach((feature: unknown, index) => {
+    const row = index + 1;
+    readRow(result, row, () => {
+      const properties = isObject(feature) && isObject(feature.properties) ? feature.properties : {};
+      const geometry = isObject(feature) && isObject(feature.geometry) ? feature.geometry : null;
+      const legacy = isObject(properties.Location) ? properties.Location : {};
+      const location = isObject(properties.location) ? properties.location : {};
+
+      const name =
+        str(location.name) ?? str(legacy["Business Name"]) ?? str(properties.Title) ?? str(properties.name) ?? str(properties.title);
+      const address = str(location.address) ?? str(legacy.Address) ?? str(properties.address);
+      const notes = str(properties.Comment) ?? str(properties.note) ?? stripHtml(str(properties.description));
+      const placeId = str(properties.placeId);
+
+      if (geometry && geometry.type !== "Point") {
+        result.errors.push({ row, name, message: "Only single points can be imported" });
+        return;
+      }
+
+      const coordinates = geometry && Array.isArray(geometry.coordinates) ? geometry.coordinates : [];
+      addPlace(result, row, {
+        name,
+        address,
+        lng: typeof coordinates[0] === "number" ? coordinates[0] : null,
+        lat: typeof coordinates[1] === "number" ? coordinates[1] : null,
+        notes,
+        place_id: placeId,
+      });
+    });
+  });
+
+  return result;
+}
+
+function parseXmlDocument(text: string, rootName: string, label: string) {
+  const document = parseXml(text);
+  if (!findFirst(document, rootName)) throw new Error(`This file isn't valid ${label}`);
+  return document;
+}
+
+// A <Data name="..."><value> from a placemark's ExtendedData
+function extendedData(placemark: XmlElement, name: string) {
+  const data = findAll(placemark, "Data").find((element) => element.attributes.name === name);
+  return data ? childText(data, "value") : null;
+}
+
+// KML placemarks with a Point; coordinates are "lng,lat[,altitude]"
+export function parseKml(text: string): ImportParseResult {
+  const document = parseXmlDocument(text, "kml", "KML");
+  const result: ImportParseResult = { places: [], errors: [] };
+
+  findAll(document, "Placemark").forEach((placemark, index) => {
+    const row = index + 1;
+    readRow(result, row, () => {
+      const name = childText(placemark, "name");
+      const point = findFirst(placemark, "Point");
+
+      if (!point) {
+        result.errors.push({ row, name, message: "Only single points can be imported" });
+        return;
+      }
+
+      const [lng, lat] = childText(point, "coordinates")?.split(",") ?? [];
+      addPlace(result, row, {
+        name,
+        address: childText(placemark, "address"),
+        lat,
+        lng,
+        notes: stripHtml(childText(placemark, "description")),
+        place_id: extendedData(placemark, "place_id"),
+      });
+    });
+  });
+
+  return result;
+}
+
+// GPX waypoints; routes and tracks are paths, not places
+export function parseGpx(text: string): ImportParseResult {
+  const document = parseXmlDocument(text, "gpx", "GPX");
+  const result: ImportParseResult = { places: [], errors: [] };
+
+  findAll(document, "wpt").forEach((waypoint: XmlElement, index) => {
+    readRow(result, index + 1, () =>
+      addPlace(result, index + 1, {
+        name: childText(waypoint, "name"),
+        lat: waypoint.attributes.lat,
+        lng: waypoint.attributes.lon,
+        notes: childText(waypoint, "desc") ?? childText(waypoint, "cmt"),
+      })
+    );
+  });
+
+  return result;
+}
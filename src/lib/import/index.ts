@@ -0,0 +1,108 @@
+/**
+ * Reads saved places exported from other apps: Google Takeout "Saved
+ * Places" GeoJSON, KML/KMZ (Google Earth, My Maps), GPX waypoints and CSV.
+ * Everything runs in the browser; CSV needs a column mapping from the user
+ * before it turns into places.
+ */
+
+import { distanceMeters } from "@/lib/geo";
+import { parseCsv, type CsvTable } from "./csv";
+import { parseGeoJson, parseGpx, parseKml } from "./formats";
+import { extractKml } from "./kmz";
+import type { ImportedPlace, ImportParseResult } from "./place";
+
+export { csvToPlaces, guessCsvMapping, parseCsv, type CsvField, type CsvMapping, type CsvTable } from "./csv";
+export { parseGeoJson, parseGpx, parseKml } from "./formats";
+export { extractKml } from "./kmz";
+export type { ImportedPlace, ImportParseResult, ImportRowError } from "./place";
+
+export type ImportFormat = "geojson" | "kml" | "kmz" | "gpx" | "csv";
+
+export const IMPORT_FILE_TYPES = ".json,.geojson,.kml,.kmz,.gpx,.csv";
+
+export type ImportFile =
+  | { format: "csv"; table: CsvTable }
+  | { format: Exclude<ImportFormat, "csv">; result: ImportParseResult };
+
+export function detectFormat(fileName: string): ImportFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop();
+  switch (extension) {
+    case "json":
+    case "geojson":
+      return "geojson";
+    case "kml":
+    case "kmz":
+    case "gpx":
+    case "csv":
+      return extension;
+    default:
+      return null;
+  }
+}
+
+// Throws with a message fit for the user when the file can't be read at all
+export async function readImportFile(file: File): Promise<ImportFile> {
+  const format = detectFormat(file.name);
+  switch (format) {
+    case "geojson":
+      return { format, result: parseGeoJson(await file.text()) };
+    case "kml":
+      return { format, result: parseKml(await file.text()) };
+    case "kmz":
+      return { format, result: parseKml(await extractKml(await file.arrayBuffer())) };
+    case "gpx":
+      return { format, result: parseGpx(await file.text()) };
+    case "csv":
+      return { format, table: parseCsv(await file.text()) };
+    default:
+      throw new Error("Choose a .json, .kml, .kmz, .gpx or .csv file");
+  }
+}
+
+// Same name within this distance is the same place; matches resolve_place
+const SAME_NAME_RADIUS_M = 100;
+// Anything this close is the same spot whatever it's called
+const SAME_SPOT_RADIUS_M = 15;
+
+function normalizeName(name: string) {
+  return name.toLowerCase().replace(/['’]/g, "").replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+interface Located {
+  name: string;
+  lat: number;
+  lng: number;
+  place_id?: string | null;
+}
+
+function hasSamePlaceId(a: Located, b: Located) {
+  return !!a.place_id && a.place_id === b.place_id;
+}
+
+function isNearby(a: Located, b: Located) {
+  const distance = distanceMeters(a, b);
+  return distance <= SAME_SPOT_RADIUS_M || (distance <= SAME_NAME_RADIUS_M && normalizeName(a.name) === normalizeName(b.name));
+}
+
+// Places that are already in the target list, or repeat an earlier row of
+// the file, mapped by row to the name of what they duplicate. The same
+// place_id is a match wherever it is; without one, name and distance decide.
+export function findDuplicates(places: ImportedPlace[], existing: Located[]): Map<number, string> {
+  const duplicates = new Map<number, string>();
+  const kept: ImportedPlace[] = [];
+
+  for (const place of places) {
+    const match =
+      existing.find((pin) => hasSamePlaceId(place, pin)) ??
+      kept.find((other) => hasSamePlaceId(place, other)) ??
+      existing.find((pin) => isNearby(place, pin)) ??
+      kept.find((other) => isNearby(place, other));
+    if (match) {
+      duplicates.set(place.row, match.name);
+    } else {
+      kept.push(place);
+    }
+  }
+
+  return duplicates;
+}
@@ -0,0 +1,73 @@
+/**
+ * A KMZ is a zip with a KML document inside (doc.kml by convention, but
+ * Google Earth and My Maps exports don't always follow it). Reads the zip's
+ * central directory and inflates the KML with the platform's
+ * DecompressionStream, so no zip library is needed.
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readEntries(view: DataView<ArrayBuffer>): ZipEntry[] {
+  // The end record is at least 22 bytes and may be followed by a comment
+  let end = -1;
+  for (let offset = view.byteLength - 22; offset >= 0; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) throw new Error("Not a KMZ file");
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) break;
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      name: decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function readEntry(view: DataView<ArrayBuffer>, entry: ZipEntry): Promise<Uint8Array> {
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) throw new Error("Not a KMZ file");
+
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + start, entry.compressedSize);
+
+  if (entry.method === 0) return data;
+  if (entry.method !== 8) throw new Error("This KMZ uses an unsupported compression method");
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function extractKml(buffer: ArrayBuffer): Promise<string> {
+  const view = new DataView(buffer);
+  const entries = readEntries(view).filter((e) => e.name.toLowerCase().endsWith(".kml"));
+  const entry = entries.find((e) => e.name.toLowerCase() === "doc.kml") ?? entries[0];
+  if (!entry) throw new Error("This KMZ doesn't contain a KML document");
+
+  return new TextDecoder().decode(await readEntry(view, entry));
+}
@@ -0,0 +1,85 @@
+// A place read from an import file, before it becomes a pin
+export interface ImportedPlace {
+  // 1-based position in the file (feature, placemark, waypoint or CSV line)
+  row: number;
+  name: string;
+  address: string | null;
+  lat: number;
+  lng: number;
+  notes: string | null;
+  // The place it was saved as, when the file says (this app's exports do)
+  place_id: string | null;
+}
+
+export interface ImportRowError {
+  row: number;
+  name: string | null;
+  message: string;
+}
+
+export interface ImportParseResult {
+  places: ImportedPlace[];
+  errors: ImportRowError[];
+}
+
+// pins.name is capped at 200 characters
+const MAX_NAME_LENGTH = 200;
+
+function clean(value: string | null | undefined) {
+  const trimmed = value?.replace(/\s+/g, " ").trim();
+  return trimmed ? trimmed : null;
+}
+
+function toNumber(value: string | number | null | undefined) {
+  if (typeof value === "number") return value;
+  const trimmed = value?.trim();
+  return trimmed ? Number(trimmed) : NaN;
+}
+
+// Reads one row of a file, so a row that can't be read is skipped with a
+// reason instead of failing the whole import
+export function readRow(result: ImportParseResult, row: number, read: () => void) {
+  try {
+    read();
+  } catch {
+    result.errors.push({ row, name: null, message: "Couldn't be read" });
+  }
+}
+
+// Validates one row and adds it to the result as a place or an error.
+// Places without a name fall back to their address.
+export function addPlace(
+  result: ImportParseResult,
+  row: number,
+  fields: {
+    name?: string | null;
+    address?: string | null;
+    lat?: string | number | null;
+    lng?: string | number | null;
+    notes?: string | null;
+    place_id?: string | null;
+  }
+) {
+  const address = clean(fields.address);
+  const name = clean(fields.name) ?? address;
+  const lat = toNumber(fields.lat);
+  const lng = toNumber(fields.lng);
+
+  const fail = (message: string) => result.errors.push({ row, name, message });
+
+  if (!name) return fail("No name or address");
+  if (Number.isNaN(lat) || Number.isNaN(lng)) return fail("No coordinates");
+  // Google Takeout writes 0,0 for saved places it has no location for
+  if (lat === 0 && lng === 0) return fail("No coordinates");
+  if (lat < -90 || lat > 90 || lng < -180 || lng > 180) return fail("Coordinates are out of range");
+
+  result.places.push({
+    row,
+    name: name.slice(0, MAX_NAME_LENGTH),
+    address,
+    lat,
+    lng,
+    notes: clean(fields.notes),
+    place_id: clean(fields.place_id),
+  });
+}
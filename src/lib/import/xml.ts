@@ -0,0 +1,87 @@
+/**
+ * Just enough XML for KML and GPX imports: elements, attributes, text,
+ * CDATA and the predefined/numeric entities. Namespace prefixes are dropped
+ * so `kml:Placemark` and `Placemark` read the same. It doesn't validate;
+ * unclosed tags are closed at the end of the document.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+const MAX_CODE_POINT = 0x10ffff;
+
+function decodeEntities(value: string) {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      // Malformed references, like &#99999999;, are left as they are
+      return code >= 0 && code <= MAX_CODE_POINT ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+function localName(name: string) {
+  const colon = name.indexOf(":");
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: "#document", attributes: {}, children: [], text: "" };
+  const stack: XmlElement[] = [root];
+  const tag = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][\s\S]*?>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  let last = 0;
+
+  for (let match = tag.exec(source); match; match = tag.exec(source)) {
+    const current = stack[stack.length - 1];
+    current.text += decodeEntities(source.slice(last, match.index));
+    last = tag.lastIndex;
+
+    const [, cdata, closing, opening, attributeSource, selfClosing] = match;
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (closing) {
+      const name = localName(closing);
+      const index = stack.map((el) => el.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+    } else if (opening) {
+      const element: XmlElement = { name: localName(opening), attributes: {}, children: [], text: "" };
+      for (const [, key, quoted] of attributeSource.matchAll(/([^\s=]+)\s*=\s*("[^"]*"|'[^']*')/g)) {
+        element.attributes[localName(key)] = decodeEntities(quoted.slice(1, -1));
+      }
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+// Every descendant element with this name, in document order
+export function findAll(element: XmlElement, name: string): XmlElement[] {
+  return element.children.flatMap((child) => [
+    ...(child.name === name ? [child] : []),
+    ...findAll(child, name),
+  ]);
+}
+
+export function findFirst(element: XmlElement, name: string): XmlElement | null {
+  for (const child of element.children) {
+    if (child.name === name) return child;
+    const found = findFirst(child, name);
+    if (found) return found;
+  }
+  return null;
+}
+
+// Trimmed text of the first direct child with this name
+export function childText(element: XmlElement, name: string): string | null {
+  const child = element.children.find((c) => c.name === name);
+  const text = child?.text.trim();
+  return text ? text : null;
+}
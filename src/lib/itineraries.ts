@@ -0,0 +1,81 @@
+/**
+ * Itinerary planner helpers. The planner edits a draft of the stops and
+ * saves it in one go; see ITINERARIES in supabase/schema.sql for how stops
+ * are copied from pins.
+ */
+
+import type { ItineraryStopInput } from "@/lib/data";
+import type { ItineraryStop, Pin } from "@/types";
+
+export const MAX_ITINERARY_STOPS = 20;
+export const MAX_ITINERARY_NAME_LENGTH = 100;
+
+// A stop being planned: a pin just added, or a stop already saved
+export interface DraftStop {
+  key: string;
+  source: { pin_id: string } | { stop_id: string };
+  name: string;
+  address: string | null;
+  lat: number;
+  lng: number;
+  // HH:MM, or "" when no time is planned
+  time: string;
+}
+
+export function draftFromPin(pin: Pin): DraftStop {
+  return {
+    key: `pin-${pin.id}-${crypto.randomUUID()}`,
+    source: { pin_id: pin.id },
+    name: pin.name,
+    address: pin.address,
+    lat: pin.lat,
+    lng: pin.lng,
+    time: "",
+  };
+}
+
+export function draftFromStop(stop: ItineraryStop): DraftStop {
+  return {
+    key: stop.id,
+    source: { stop_id: stop.id },
+    name: stop.name,
+    address: stop.address,
+    lat: stop.lat,
+    lng: stop.lng,
+    time: stop.planned_time?.slice(0, 5) ?? "",
+  };
+}
+
+export function toStopInputs(stops: DraftStop[]): ItineraryStopInput[] {
+  return stops.map((stop) => ({ ...stop.source, planned_time: stop.time || null }));
+}
+
+// Swaps a stop with its neighbour; out of range moves are ignored
+export function moveStop<T>(stops: T[], index: number, offset: -1 | 1): T[] {
+  const target = index + offset;
+  if (target < 0 || target >= stops.length) return stops;
+  const next = [...stops];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+// "21:30:00" or "21:30" to "9:30 PM"
+export function formatPlannedTime(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  const period = hours < 12 ? "AM" : "PM";
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, "0")} ${period}`;
+}
+
+// "Fri, Mar 7"; planned_for has no time zone, so it's read as UTC
+export function formatPlannedDate(plannedFor: string) {
+  return new Date(`${plannedFor}T00:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export function itineraryPath(id: string) {
+  return `/itineraries/${id}`;
+}
@@ -0,0 +1,38 @@
+// Places pins in a width × height box for the small static maps on shared
+// pages and Open Graph images. Longitude is scaled by the cosine of the
+// middle latitude so a city doesn't look stretched, and the pins are
+// centred within the padding at the largest scale that fits.
+
+export interface MiniMapPoint {
+  x: number;
+  y: number;
+}
+
+export function projectPins(
+  pins: { lat: number; lng: number }[],
+  { width, height, padding = 0 }: { width: number; height: number; padding?: number }
+): MiniMapPoint[] {
+  if (pins.length === 0) return [];
+
+  const lats = pins.map((p) => p.lat);
+  const lngs = pins.map((p) => p.lng);
+  const minLat = Math.min(...lats);
+  const maxLat = Math.max(...lats);
+  const minLng = Math.min(...lngs);
+  const maxLng = Math.max(...lngs);
+  const xScale = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+
+  const spanX = (maxLng - minLng) * xScale;
+  const spanY = maxLat - minLat;
+  const innerWidth = width - padding * 2;
+  const innerHeight = height - padding * 2;
+  // One pin, or several at the same spot, sits in the middle
+  const scale = Math.min(spanX ? innerWidth / spanX : Infinity, spanY ? innerHeight / spanY : Infinity);
+  const fit = Number.isFinite(scale) ? scale : 0;
+
+  return pins.map((p) => ({
+    x: width / 2 + (p.lng - (minLng + maxLng) / 2) * xScale * fit,
+    // North is up
+    y: height / 2 - (p.lat - (minLat + maxLat) / 2) * fit,
+  }));
+}
@@ -0,0 +1,122 @@
+/**
+ * Grouping and wording for the notifications center. Triggers write one row
+ * per actor (see NOTIFICATIONS in supabase/schema.sql); here rows about the
+ * same thing are folded into "Sarah and 4 others liked Best Pizza Spots".
+ */
+
+import type { NotificationType, Profile, UserNotification } from "@/types";
+
+export const NOTIFICATION_TYPES: { type: NotificationType; label: string }[] = [
+  { type: "list_like", label: "Likes on your lists" },
+  { type: "pin_like", label: "Likes on your spots" },
+  { type: "pin_save", label: "Saves of your spots" },
+  { type: "follow", label: "New followers" },
+  { type: "follow_request", label: "Follow requests" },
+  { type: "poll_invite", label: "Poll invitations" },
+  { type: "poll_result", label: "Poll results" },
+];
+
+export interface NotificationGroup {
+  // The newest notification's id, stable while the group only grows
+  key: string;
+  type: NotificationType;
+  notifications: UserNotification[];
+  // Newest first, one entry per person
+  actors: Profile[];
+  list: UserNotification["list"];
+  pin: UserNotification["pin"];
+  poll: UserNotification["poll"];
+  isUnread: boolean;
+  created_at: string;
+}
+
+// Folds notifications, newest first, into groups by type and target. Read
+// and unread are kept apart so opening an old group doesn't hide new ones.
+export function groupNotifications(notifications: UserNotification[]): NotificationGroup[] {
+  const groups = new Map<string, NotificationGroup>();
+
+  for (const notification of notifications) {
+    const isUnread = !notification.read_at;
+    const target = notification.list_id ?? notification.pin_id ?? notification.poll_id ?? "";
+    const id = `${notification.type}:${target}:${isUnread ? "unread" : "read"}`;
+
+    let group = groups.get(id);
+    if (!group) {
+      group = {
+        key: notification.id,
+        type: notification.type,
+        notifications: [],
+        actors: [],
+        list: notification.list,
+        pin: notification.pin,
+        poll: notification.poll,
+        isUnread,
+        created_at: notification.created_at,
+      };
+      groups.set(id, group);
+    }
+
+    group.notifications.push(notification);
+    if (notification.actor && !group.actors.some((a) => a.id === notification.actor_id)) {
+      group.actors.push(notification.actor);
+    }
+  }
+
+  return [...groups.values()];
+}
+
+function actorName(actor: Profile) {
+  return actor.display_name || actor.username;
+}
+
+// "Sarah", "Sarah and Mike", "Sarah and 4 others"
+function describeActors(actors: Profile[]) {
+  const [first, second] = actors;
+  if (!first) return "Someone";
+  if (actors.length === 1) return actorName(first);
+  if (actors.length === 2) return `${actorName(first)} and ${actorName(second)}`;
+  return `${actorName(first)} and ${actors.length - 1} others`;
+}
+
+export function describeNotificationGroup(group: NotificationGroup): string {
+  const who = describeActors(group.actors);
+  switch (group.type) {
+    case "list_like":
+      return `${who} liked ${group.list?.name ?? "your list"}`;
+    case "pin_like":
+      return `${who} liked ${group.pin?.name ?? "your spot"}`;
+    case "pin_save":
+      return `${who} saved ${group.pin?.name ?? "your spot"}`;
+    case "follow":
+      return `${who} started following you`;
+    case "follow_request":
+      return `${who} asked to follow you`;
+    case "poll_invite":
+      return `${who} wants your vote: ${group.poll?.question ?? "where to eat"}`;
+    case "poll_result":
+      if (!group.poll) return "A poll you're in has closed";
+      return group.poll.winner
+        ? `${group.poll.winner.name} won "${group.poll.question}"`
+        : `"${group.poll.question}" closed without a winner`;
+  }
+}
+
+// Where tapping a group goes: the list, the pin's list, or the follower
+// (your own profile, with its follower count, when there are several).
+// Requests are answered at the top of the notifications page itself.
+export function notificationHref(group: NotificationGroup): string | null {
+  switch (group.type) {
+    case "list_like":
+      return group.list ? `/lists/${group.list.id}` : null;
+    case "pin_like":
+    case "pin_save":
+      return group.pin ? `/lists/${group.pin.list_id}` : null;
+    case "follow":
+      return group.actors.length === 1 ? `/user/${group.actors[0].username}` : "/profile";
+    case "follow_request":
+      return group.actors.length === 1 ? `/user/${group.actors[0].username}` : null;
+    case "poll_invite":
+    case "poll_result":
+      return group.poll ? `/polls/${group.poll.id}` : null;
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Pin photo utilities: client-side resizing and Supabase Storage uploads
+ */
+
+import { createClient } from "@/lib/supabase/client";
+import type { PinPhoto } from "@/types";
+
+export const PIN_PHOTOS_BUCKET = "pin-photos";
+export const MAX_PHOTOS_PER_PIN = 10;
+export const MAX_SOURCE_FILE_SIZE = 20 * 1024 * 1024;
+
+const MAX_DIMENSION = 1600;
+const JPEG_QUALITY = 0.82;
+
+// A photo picked on the client that hasn't been uploaded yet
+export interface PendingPhoto {
+  id: string;
+  file: File;
+  previewUrl: string;
+}
+
+export function createPendingPhoto(file: File): PendingPhoto {
+  return {
+    id: crypto.randomUUID(),
+    file,
+    previewUrl: URL.createObjectURL(file),
+  };
+}
+
+export function releasePendingPhoto(photo: PendingPhoto) {
+  URL.revokeObjectURL(photo.previewUrl);
+}
+
+export function validatePhotoFile(file: File): string | null {
+  if (!file.type.startsWith("image/")) {
+    return "Please select image files only";
+  }
+  if (file.size > MAX_SOURCE_FILE_SIZE) {
+    return "Each photo must be less than 20MB";
+  }
+  return null;
+}
+
+// Scale an image down so its longest side is at most MAX_DIMENSION and
+// re-encode it as JPEG. Phone photos go from ~5MB to a few hundred KB.
+export async function resizeImage(file: File): Promise<Blob> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    bitmap.close();
+    throw new Error("Canvas is not supported");
+  }
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))),
+      "image/jpeg",
+      JPEG_QUALITY
+    );
+  });
+}
+
+// Storage paths start with the owner's id so the bucket policies can check ownership
+export function storagePathFromUrl(url: string): string | null {
+  const marker = `/${PIN_PHOTOS_BUCKET}/`;
+  const index = url.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(url.slice(index + marker.length));
+}
+
+// Photos taken on a visit are uploaded by whoever logged it, with its visitId
+export async function uploadPinPhotos(
+  userId: string,
+  pinId: string,
+  files: File[],
+  onProgress?: (uploaded: number, total: number) => void,
+  visitId: string | null = null
+): Promise<{ photos: PinPhoto[]; failed: number }> {
+  const supabase = createClient();
+  const photos: PinPhoto[] = [];
+  let failed = 0;
+
+  for (const [index, file] of files.entries()) {
+    try {
+      const blob = await resizeImage(file);
+      const path = `${userId}/${pinId}/${Date.now()}-${index}.jpg`;
+
+      const { error: uploadError } = await supabase.storage
+        .from(PIN_PHOTOS_BUCKET)
+        .upload(path, blob, { contentType: "image/jpeg" });
+
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = supabase.storage
+        .from(PIN_PHOTOS_BUCKET)
+        .getPublicUrl(path);
+
+      const { data, error: insertError } = await supabase
+        .from("pin_photos")
+        .insert({ pin_id: pinId, url: publicUrl, visit_id: visitId })
+        .select()
+        .single();
+
+      if (insertError || !data) {
+        // Don't leave orphaned files behind
+        await supabase.storage.from(PIN_PHOTOS_BUCKET).remove([path]);
+        throw insertError;
+      }
+
+      photos.push(data);
+    } catch (error) {
+      console.error("Photo upload error:", error);
+      failed++;
+    }
+
+    onProgress?.(index + 1, files.length);
+  }
+
+  return { photos, failed };
+}
+
+export async function deletePinPhoto(photo: PinPhoto): Promise<boolean> {
+  const supabase = createClient();
+
+  const { error } = await supabase.from("pin_photos").delete().eq("id", photo.id);
+  if (error) {
+    console.error("Error deleting photo:", error);
+    return false;
+  }
+
+  const path = storagePathFromUrl(photo.url);
+  if (path) {
+    const { error: storageError } = await supabase.storage.from(PIN_PHOTOS_BUCKET).remove([path]);
+    if (storageError) {
+      console.error("Error removing photo file:", storageError);
+    }
+  }
+
+  return true;
+}
+
+// Deleting a pin cascades to pin_photos, but the storage files have to go separately
+export async function removePinPhotoFiles(photos: PinPhoto[]) {
+  const paths = photos
+    .map((photo) => storagePathFromUrl(photo.url))
+    .filter((path): path is string => path !== null);
+  if (paths.length === 0) return;
+
+  const supabase = createClient();
+  const { error } = await supabase.storage.from(PIN_PHOTOS_BUCKET).remove(paths);
+  if (error) {
+    console.error("Error removing photo files:", error);
+  }
+}
+
+export async function fetchPinPhotos(pinIds: string[]): Promise<PinPhoto[]> {
+  if (pinIds.length === 0) return [];
+
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("pin_photos")
+    .select("*")
+    .in("pin_id", pinIds)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error loading photos:", error);
+    return [];
+  }
+
+  return data || [];
+}
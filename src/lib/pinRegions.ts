@@ -0,0 +1,128 @@
+/**
+ * Region cache for the explore map. The world is cut into a fixed grid of
+ * tiles; each list remembers which tiles it has fully loaded, so panning
+ * back over an area or re-enabling a layer doesn't fetch the same pins twice.
+ */
+
+import { fetchPinsInViewport, VIEWPORT_PAGE_SIZE } from "@/lib/spatial";
+import type { MapBounds, Pin } from "@/types";
+
+// Roughly 5.5km north-south, a bit over 4km east-west in NYC
+const TILE_DEGREES = 0.05;
+// Zoomed out past this many tiles we stop loading rather than pull a whole state
+const MAX_TILES_PER_LOAD = 2500;
+// Stop paging a single region after this many pins; it stays uncached
+const MAX_PAGES_PER_LOAD = 10;
+
+interface TileRange {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+export type RegionCache = Map<string, Set<string>>; // listId -> loaded tile keys
+
+export function createRegionCache(): RegionCache {
+  return new Map();
+}
+
+function tileRangeFor(bounds: MapBounds): TileRange {
+  return {
+    minX: Math.floor(bounds.west / TILE_DEGREES),
+    maxX: Math.floor(bounds.east / TILE_DEGREES),
+    minY: Math.floor(bounds.south / TILE_DEGREES),
+    maxY: Math.floor(bounds.north / TILE_DEGREES),
+  };
+}
+
+function tileCount(range: TileRange) {
+  return (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1);
+}
+
+function forEachTile(range: TileRange, fn: (key: string, x: number, y: number) => void) {
+  for (let x = range.minX; x <= range.maxX; x++) {
+    for (let y = range.minY; y <= range.maxY; y++) {
+      fn(`${x}:${y}`, x, y);
+    }
+  }
+}
+
+// Which of the lists still need loading for these bounds, and the smallest
+// tile-aligned box that covers everything they're missing
+function findMissing(cache: RegionCache, range: TileRange, listIds: string[]) {
+  const missingListIds: string[] = [];
+  let missing: TileRange | null = null;
+
+  for (const listId of listIds) {
+    const loaded = cache.get(listId);
+    let listIsMissing = false;
+
+    forEachTile(range, (key, x, y) => {
+      if (loaded?.has(key)) return;
+      listIsMissing = true;
+      missing = missing
+        ? {
+            minX: Math.min(missing.minX, x),
+            maxX: Math.max(missing.maxX, x),
+            minY: Math.min(missing.minY, y),
+            maxY: Math.max(missing.maxY, y),
+          }
+        : { minX: x, maxX: x, minY: y, maxY: y };
+    });
+
+    if (listIsMissing) missingListIds.push(listId);
+  }
+
+  return { missingListIds, missing: missing as TileRange | null };
+}
+
+interface LoadRegionOptions {
+  // Called with each page as it arrives so the map can fill in progressively
+  onPage: (pins: Pin[]) => void;
+  // Checked between pages; return true to abandon a load the user has moved away from
+  isCancelled?: () => boolean;
+}
+
+// Load pins for any part of the bounds the cache hasn't seen yet. Tiles are
+// only marked as loaded once every page came back, so a cancelled or failed
+// load is retried next time the area is shown.
+export async function loadPinsForBounds(
+  cache: RegionCache,
+  bounds: MapBounds,
+  listIds: string[],
+  { onPage, isCancelled = () => false }: LoadRegionOptions
+): Promise<void> {
+  const range = tileRangeFor(bounds);
+  if (listIds.length === 0 || tileCount(range) > MAX_TILES_PER_LOAD) return;
+
+  const { missingListIds, missing } = findMissing(cache, range, listIds);
+  if (!missing || missingListIds.length === 0) return;
+
+  const missingBounds: MapBounds = {
+    west: missing.minX * TILE_DEGREES,
+    south: missing.minY * TILE_DEGREES,
+    east: (missing.maxX + 1) * TILE_DEGREES,
+    north: (missing.maxY + 1) * TILE_DEGREES,
+  };
+
+  for (let page = 0; page < MAX_PAGES_PER_LOAD; page++) {
+    if (isCancelled()) return;
+
+    const pins = await fetchPinsInViewport(missingBounds, missingListIds, {
+      limit: VIEWPORT_PAGE_SIZE,
+      offset: page * VIEWPORT_PAGE_SIZE,
+    });
+    if (!pins) return;
+    if (pins.length > 0) onPage(pins);
+
+    if (pins.length < VIEWPORT_PAGE_SIZE) {
+      for (const listId of missingListIds) {
+        if (!cache.has(listId)) cache.set(listId, new Set());
+        const loaded = cache.get(listId)!;
+        forEachTile(missing, (key) => loaded.add(key));
+      }
+      return;
+    }
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Browser side of place search. Requests go through /api/places so the
+ * Mapbox token stays on the server. One session token covers a run of
+ * suggest calls and the retrieve that ends it; start a new one afterwards.
+ */
+
+import type { PlaceSuggestion, RetrievedPlace } from "@/types";
+
+export function newSearchSession(): string {
+  return crypto.randomUUID();
+}
+
+export async function suggestPlaces(
+  query: string,
+  sessionToken: string
+): Promise<PlaceSuggestion[]> {
+  const params = new URLSearchParams({ q: query, session_token: sessionToken });
+  const response = await fetch(`/api/places/suggest?${params}`);
+
+  if (!response.ok) {
+    console.error("Error searching places:", response.status);
+    return [];
+  }
+
+  const data: { suggestions: PlaceSuggestion[] } = await response.json();
+  return data.suggestions;
+}
+
+export async function retrievePlace(
+  mapboxId: string,
+  sessionToken: string
+): Promise<RetrievedPlace | null> {
+  const params = new URLSearchParams({ session_token: sessionToken });
+  const response = await fetch(`/api/places/retrieve/${encodeURIComponent(mapboxId)}?${params}`);
+
+  if (!response.ok) {
+    console.error("Error loading place:", response.status);
+    return null;
+  }
+
+  const data: { place: RetrievedPlace } = await response.json();
+  return data.place;
+}
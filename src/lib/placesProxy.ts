@@ -0,0 +1,93 @@
+/**
+ * Shared plumbing for the /api/places route handlers: who's asking, whether
+ * they're over their limit, and the retrieve cache.
+ */
+
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createServiceClient } from "@/lib/supabase/api";
+import { createRateLimiter } from "@/lib/rateLimit";
+import { PlacesProviderError } from "@/lib/geocoding";
+import type { RetrievedPlace } from "@/types";
+
+// Suggest fires on every debounced keystroke, so this is per request, not per search
+const limiter = createRateLimiter({ limit: 60, windowMs: 60_000 });
+
+// A place's coordinates and address barely change; a day keeps repeat
+// lookups of popular spots off the Mapbox bill
+const RETRIEVE_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const RETRIEVE_CACHE_MAX_ENTRIES = 5000;
+
+const retrieveCache = new Map<string, { place: RetrievedPlace; expiresAt: number }>();
+
+const SESSION_TOKEN_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Resolves to the user id, or a response to send back instead
+export async function authorizePlacesRequest(): Promise<string | NextResponse> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { allowed, retryAfterSeconds } = limiter.check(user.id);
+  if (!allowed) {
+    return NextResponse.json(
+      { error: "Too many searches, try again shortly" },
+      { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+    );
+  }
+
+  return user.id;
+}
+
+// Mapbox bills suggest calls and the retrieve that ends them as one session,
+// so the browser has to send the same token for all of them
+export function readSessionToken(request: Request): string | null {
+  const token = new URL(request.url).searchParams.get("session_token");
+  return token && SESSION_TOKEN_PATTERN.test(token) ? token : null;
+}
+
+export function getCachedPlace(mapboxId: string): RetrievedPlace | null {
+  const entry = retrieveCache.get(mapboxId);
+  if (!entry) return null;
+  if (entry.expiresAt <= Date.now()) {
+    retrieveCache.delete(mapboxId);
+    return null;
+  }
+  return entry.place;
+}
+
+export function cachePlace(mapboxId: string, place: RetrievedPlace) {
+  // Maps iterate in insertion order, so the first key is the oldest
+  if (retrieveCache.size >= RETRIEVE_CACHE_MAX_ENTRIES) {
+    const oldest = retrieveCache.keys().next().value;
+    if (oldest !== undefined) retrieveCache.delete(oldest);
+  }
+  retrieveCache.set(mapboxId, { place, expiresAt: Date.now() + RETRIEVE_CACHE_TTL_MS });
+}
+
+// Makes the place what pins with its mapbox_id point at. Only Mapbox's
+// answer is written, never a pin's own fields; a failure just leaves pins to
+// be matched by name and distance.
+export async function savePlace(place: RetrievedPlace) {
+  const { error } = await createServiceClient().rpc("save_retrieved_place", {
+    p_place_id: place.mapbox_id,
+    p_name: place.name,
+    p_address: place.address,
+    p_lat: place.lat,
+    p_lng: place.lng,
+    p_category: place.category,
+  });
+  if (error) console.error("Error saving place:", error);
+}
+
+export function providerErrorResponse(error: unknown) {
+  console.error("Place search error:", error);
+  // Upstream rate limits are passed on; anything else is our problem
+  const status = error instanceof PlacesProviderError && error.status === 429 ? 429 : 502;
+  return NextResponse.json({ error: "Place search is unavailable" }, { status });
+}
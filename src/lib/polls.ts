@@ -0,0 +1,56 @@
+/**
+ * Group poll helpers. Votes are counted here for the live results; the
+ * winner that counts is picked by close_due_polls in supabase/schema.sql,
+ * which leadingOption mirrors.
+ */
+
+import type { Poll, PollOption, PollVote } from "@/types";
+
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 10;
+export const MAX_POLL_QUESTION_LENGTH = 100;
+export const MAX_POLL_INVITEES = 50;
+
+export interface OptionTally {
+  option: PollOption;
+  votes: number;
+  vetoed: boolean;
+}
+
+// One tally per option, in the poll's order
+export function tallyPoll(options: PollOption[], votes: PollVote[]): OptionTally[] {
+  return options.map((option) => {
+    const onOption = votes.filter((v) => v.option_id === option.id);
+    return {
+      option,
+      votes: onOption.filter((v) => !v.is_veto).length,
+      vetoed: onOption.some((v) => v.is_veto),
+    };
+  });
+}
+
+// The option that would win if the poll closed now: the most votes among
+// the ones nobody vetoed, the earlier option on a tie, and nothing when no
+// such option has a vote
+export function leadingOption(tallies: OptionTally[]): PollOption | null {
+  let leader: OptionTally | null = null;
+  for (const tally of tallies) {
+    if (tally.vetoed || tally.votes === 0) continue;
+    if (!leader || tally.votes > leader.votes) leader = tally;
+  }
+  return leader?.option ?? null;
+}
+
+export function isPollOpen(poll: Pick<Poll, "closes_at" | "closed_at">, now = new Date()): boolean {
+  return !poll.closed_at && new Date(poll.closes_at) > now;
+}
+
+// The value a datetime-local input wants, in the viewer's time zone
+export function toDateTimeLocal(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export function pollPath(pollId: string): string {
+  return `/polls/${pollId}`;
+}
@@ -0,0 +1,82 @@
+/**
+ * Data for the public, server-rendered pages under /l and /u, which anyone
+ * can open from a shared link without an account. Queries run as anon, so
+ * row level security keeps private lists out even for their owners. Each
+ * loader is cached per request, as the page, its metadata and its Open
+ * Graph image all ask for the same rows.
+ */
+
+import { cache } from "react";
+import { createClient } from "@/lib/supabase/api";
+import type { List, Pin, Profile } from "@/types";
+
+const PROFILE_COLUMNS = "id, username, display_name, avatar_url, bio, is_private, created_at";
+const LIST_COLUMNS = "id, user_id, name, description, emoji_icon, color, is_public, forked_from, forked_at, created_at, updated_at";
+
+export type PublicPin = Pick<Pin, "id" | "name" | "address" | "lat" | "lng" | "category" | "personal_rating" | "personal_notes">;
+
+export interface PublicList {
+  list: List;
+  owner: Profile;
+  pins: PublicPin[];
+}
+
+export interface PublicProfile {
+  profile: Profile;
+  lists: (List & { pins_count: number })[];
+}
+
+// Ids that aren't UUIDs would make Postgres throw rather than find nothing
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const getPublicList = cache(async (id: string): Promise<PublicList | null> => {
+  if (!UUID_PATTERN.test(id)) return null;
+  const supabase = createClient();
+
+  const { data: list, error } = await supabase
+    .from("lists")
+    .select(`${LIST_COLUMNS}, owner:profiles!user_id(${PROFILE_COLUMNS})`)
+    .eq("id", id)
+    .eq("is_public", true)
+    .maybeSingle();
+  if (error) console.error("Error loading public list:", error);
+  if (!list) return null;
+
+  const { data: pins, error: pinsError } = await supabase
+    .from("pins")
+    .select("id, name, address, lat, lng, category, personal_rating, personal_notes")
+    .eq("list_id", id)
+    .order("created_at", { ascending: false });
+  if (pinsError) console.error("Error loading public list pins:", pinsError);
+
+  const { owner, ...fields } = list as unknown as List & { owner: Profile };
+  return { list: fields, owner, pins: (pins || []) as PublicPin[] };
+});
+
+export const getPublicProfile = cache(async (username: string): Promise<PublicProfile | null> => {
+  const supabase = createClient();
+
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select(PROFILE_COLUMNS)
+    .eq("username", username)
+    .maybeSingle();
+  if (error) console.error("Error loading public profile:", error);
+  if (!profile) return null;
+
+  const { data: lists, error: listsError } = await supabase
+    .from("lists")
+    .select(`${LIST_COLUMNS}, pins(count)`)
+    .eq("user_id", profile.id)
+    .eq("is_public", true)
+    .order("updated_at", { ascending: false });
+  if (listsError) console.error("Error loading public lists:", listsError);
+
+  return {
+    profile: profile as Profile,
+    lists: ((lists || []) as unknown as (List & { pins: { count: number }[] })[]).map(({ pins, ...list }) => ({
+      ...list,
+      pins_count: pins[0]?.count ?? 0,
+    })),
+  };
+});
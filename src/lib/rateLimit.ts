@@ -0,0 +1,61 @@
+/**
+ * In-memory sliding-window rate limiter. State lives in the server process,
+ * so each instance enforces its own limit; that's enough to stop a single
+ * client from burning through the Mapbox quota.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  check(key: string, now?: number): RateLimitResult;
+  // How many keys have hits in the current window, give or take one window
+  size(): number;
+}
+
+export function createRateLimiter({
+  limit,
+  windowMs,
+}: {
+  limit: number;
+  windowMs: number;
+}): RateLimiter {
+  const hits = new Map<string, number[]>();
+  let lastSweep = 0;
+
+  // Keys whose last hit has left the window are dropped, at most once per
+  // window, so one-off callers don't pile up
+  const sweep = (now: number) => {
+    if (now - lastSweep < windowMs) return;
+    lastSweep = now;
+    for (const [key, times] of hits) {
+      if (times[times.length - 1] <= now - windowMs) hits.delete(key);
+    }
+  };
+
+  return {
+    check(key, now = Date.now()) {
+      sweep(now);
+      const recent = (hits.get(key) || []).filter((time) => time > now - windowMs);
+
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        return {
+          allowed: false,
+          remaining: 0,
+          retryAfterSeconds: Math.ceil((recent[0] + windowMs - now) / 1000),
+        };
+      }
+
+      recent.push(now);
+      hits.set(key, recent);
+      return { allowed: true, remaining: limit - recent.length, retryAfterSeconds: 0 };
+    },
+    size() {
+      return hits.size;
+    },
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Folding Realtime changes (see RealtimeRepository) into state that was
+ * loaded once. Your own writes come back as changes too, usually after the
+ * page already applied them optimistically, so applying a change twice has
+ * to leave the state as it was.
+ */
+
+import type { LikeChange, LikeStatus, PinChange, PollChange } from "@/lib/data";
+import type { Pin, Poll } from "@/types";
+
+// Pins stay newest first; new ones get `extra` (e.g. the list the page
+// shows on every pin) and known ones keep it
+export function applyPinChange(pins: Pin[], change: PinChange, extra: Partial<Pin> = {}): Pin[] {
+  if (change.type === "delete") {
+    return pins.some((p) => p.id === change.id) ? pins.filter((p) => p.id !== change.id) : pins;
+  }
+  if (pins.some((p) => p.id === change.pin.id)) {
+    return pins.map((p) => (p.id === change.pin.id ? { ...p, ...change.pin } : p));
+  }
+  return [{ ...extra, ...change.pin }, ...pins];
+}
+
+export function applyLikeChange(status: LikeStatus, change: LikeChange, currentUserId: string | null): LikeStatus {
+  // Your own like was counted when you tapped, unless it came from another tab
+  if (change.userId === currentUserId && change.liked === status.liked) return status;
+  return {
+    liked: change.userId === currentUserId ? change.liked : status.liked,
+    count: Math.max(0, status.count + (change.liked ? 1 : -1)),
+  };
+}
+
+// A vote replaces the voter's earlier choice on the same option
+export function applyPollChange(poll: Poll, change: PollChange): Poll {
+  if (change.type === "closed") return change.poll.id === poll.id ? { ...poll, ...change.poll } : poll;
+
+  const votes = poll.votes ?? [];
+  const optionId = change.type === "vote" ? change.vote.option_id : change.optionId;
+  const userId = change.type === "vote" ? change.vote.user_id : change.userId;
+  if (!poll.options?.some((o) => o.id === optionId)) return poll;
+
+  const others = votes.filter((v) => !(v.option_id === optionId && v.user_id === userId));
+  if (change.type === "unvote") return others.length === votes.length ? poll : { ...poll, votes: others };
+  return { ...poll, votes: [...others, change.vote] };
+}
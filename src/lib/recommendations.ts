@@ -0,0 +1,73 @@
+/**
+ * "For you" recommendations backed by the get_recommended_places RPC in
+ * schema.sql, which ranks places by how people with similar taste rated them
+ */
+
+import { createClient } from "@/lib/supabase/client";
+import type { List, Pin, Profile, RecommendedSpot } from "@/types";
+
+export const RECOMMENDATIONS_PAGE_SIZE = 20;
+
+interface RecommendationStats {
+  place_id: string;
+  pin_id: string;
+  score: number;
+  recommenders: number;
+  five_star_count: number;
+  avg_rating: number;
+}
+
+export async function fetchRecommendedSpots({
+  limit = RECOMMENDATIONS_PAGE_SIZE,
+  offset = 0,
+}: { limit?: number; offset?: number } = {}): Promise<RecommendedSpot[]> {
+  const supabase = createClient();
+
+  const { data: stats, error } = await supabase.rpc("get_recommended_places", {
+    p_limit: limit,
+    p_offset: offset,
+  });
+
+  if (error) {
+    console.error("Error loading recommendations:", error);
+    return [];
+  }
+  if (!stats || stats.length === 0) return [];
+
+  const rows = stats as RecommendationStats[];
+  const { data: pinsData } = await supabase
+    .from("pins")
+    .select(`
+      *,
+      list:lists!list_id(
+        *,
+        profile:profiles!user_id(id, username, display_name, avatar_url)
+      )
+    `)
+    .in("id", rows.map((row) => row.pin_id));
+
+  const pinsById = new Map(
+    ((pinsData || []) as Array<Pin & { list: List & { profile: Profile } }>).map((pin) => [pin.id, pin])
+  );
+
+  // Keep the RPC's ranking
+  return rows.flatMap((row) => {
+    const pin = pinsById.get(row.pin_id);
+    if (!pin?.list) return [];
+    return [{
+      ...pin,
+      score: row.score,
+      recommenders: row.recommenders,
+      five_star_count: row.five_star_count,
+      avg_rating: row.avg_rating,
+    }];
+  });
+}
+
+// Why a spot was suggested: "3 people with similar taste rated this 5★".
+// Recommenders all rated it 4 or 5, so anyone who didn't give it 5 gave it 4.
+export function recommendationReason(spot: Pick<RecommendedSpot, "recommenders" | "five_star_count">) {
+  const [count, stars] = spot.five_star_count > 0 ? [spot.five_star_count, 5] : [spot.recommenders, 4];
+  const who = count === 1 ? "Someone with similar taste" : `${count} people with similar taste`;
+  return `${who} rated this ${stars}★`;
+}
@@ -0,0 +1,151 @@
+/**
+ * Walking routes between itinerary stops. Every route starts as a local
+ * estimate from straight-line distances, so it shows up instantly and works
+ * offline; a routing provider, when there is one, then refines it with real
+ * streets. The default provider is Mapbox walking directions using the
+ * public map token. Tests and other backends swap it with setRoutingProvider().
+ */
+
+import { distanceMeters } from "@/lib/geo";
+
+export interface RoutePoint {
+  lat: number;
+  lng: number;
+}
+
+// The way from one stop to the next
+export interface RouteLeg {
+  distanceMeters: number;
+  durationSeconds: number;
+  // [lng, lat] from this stop to the next
+  path: [number, number][];
+  // From the straight-line estimate rather than a provider
+  estimated: boolean;
+}
+
+export interface RoutingProvider {
+  // One leg per pair of consecutive stops, or null if it can't route them
+  walkingLegs(stops: RoutePoint[]): Promise<RouteLeg[] | null>;
+}
+
+// Streets don't run straight to the next stop; on a street grid the walk is
+// about a third longer than the crow flies
+const DETOUR_FACTOR = 1.3;
+// About 3 mph
+const WALKING_METERS_PER_SECOND = 1.35;
+
+const DIRECTIONS_URL = "https://api.mapbox.com/directions/v5/mapbox/walking";
+
+export function estimateLegs(stops: RoutePoint[]): RouteLeg[] {
+  return stops.slice(1).map((to, i) => {
+    const from = stops[i];
+    const meters = distanceMeters(from, to) * DETOUR_FACTOR;
+    return {
+      distanceMeters: Math.round(meters),
+      durationSeconds: Math.round(meters / WALKING_METERS_PER_SECOND),
+      path: [
+        [from.lng, from.lat],
+        [to.lng, to.lat],
+      ],
+      estimated: true,
+    };
+  });
+}
+
+// Legs between consecutive stops from the provider, falling back to the
+// estimate when there's no provider or it fails
+export async function routeLegs(
+  stops: RoutePoint[],
+  provider: RoutingProvider | null = getRoutingProvider()
+): Promise<RouteLeg[]> {
+  const estimate = estimateLegs(stops);
+  if (!provider || estimate.length === 0) return estimate;
+
+  try {
+    const legs = await provider.walkingLegs(stops);
+    return legs && legs.length === estimate.length ? legs : estimate;
+  } catch (error) {
+    console.error("Error routing itinerary:", error);
+    return estimate;
+  }
+}
+
+export function routeTotals(legs: RouteLeg[]) {
+  return legs.reduce(
+    (totals, leg) => ({
+      distanceMeters: totals.distanceMeters + leg.distanceMeters,
+      durationSeconds: totals.durationSeconds + leg.durationSeconds,
+    }),
+    { distanceMeters: 0, durationSeconds: 0 }
+  );
+}
+
+// The whole line through the legs, without repeating the stops they share
+export function routePath(legs: RouteLeg[]): [number, number][] {
+  return legs.flatMap((leg, i) => (i === 0 ? leg.path : leg.path.slice(1)));
+}
+
+// "650 m" or "1.4 km"
+export function formatDistance(meters: number) {
+  return meters < 1000 ? `${Math.round(meters / 10) * 10} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
+// "4 min" or "1 hr 5 min"; anything under a minute rounds up
+export function formatWalkTime(seconds: number) {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours} hr ${minutes % 60} min` : `${hours} hr`;
+}
+
+interface MapboxDirectionsResponse {
+  routes?: Array<{
+    legs: Array<{
+      distance: number;
+      duration: number;
+      steps: Array<{ geometry: { coordinates: [number, number][] } }>;
+    }>;
+  }>;
+}
+
+export function createMapboxWalkingProvider(token: string): RoutingProvider {
+  return {
+    async walkingLegs(stops) {
+      const coordinates = stops.map((s) => `${s.lng},${s.lat}`).join(";");
+      const params = new URLSearchParams({ geometries: "geojson", steps: "true", access_token: token });
+      const response = await fetch(`${DIRECTIONS_URL}/${coordinates}?${params}`);
+      if (!response.ok) {
+        throw new Error(`Mapbox directions responded with ${response.status}`);
+      }
+
+      const data: MapboxDirectionsResponse = await response.json();
+      const route = data.routes?.[0];
+      if (!route) return null;
+
+      return route.legs.map((leg) => ({
+        distanceMeters: Math.round(leg.distance),
+        durationSeconds: Math.round(leg.duration),
+        path: leg.steps.flatMap((step, i) =>
+          i === 0 ? step.geometry.coordinates : step.geometry.coordinates.slice(1)
+        ),
+        estimated: false,
+      }));
+    },
+  };
+}
+
+let provider: RoutingProvider | null | undefined;
+
+export function getRoutingProvider(): RoutingProvider | null {
+  if (provider === undefined) {
+    const token = process.env.NEXT_PUBLIC_MAPBOX_TOKEN;
+    provider = token ? createMapboxWalkingProvider(token) : null;
+  }
+  return provider;
+}
+
+// Replace the provider, e.g. with a fake in tests. Pass null to use the
+// estimate only, or undefined to go back to Mapbox.
+export function setRoutingProvider(next: RoutingProvider | null | undefined) {
+  provider = next;
+}
@@ -0,0 +1,100 @@
+/**
+ * Spatial queries backed by the PostGIS RPCs in schema.sql. The pin
+ * queries run as the signed-in user, so results respect the usual policies.
+ */
+
+import { createClient } from "@/lib/supabase/client";
+import type { MapBounds, Pin } from "@/types";
+
+const PIN_WITH_LIST_AND_OWNER = `
+  *,
+  list:lists(id, name, emoji_icon, color, is_public, user_id),
+  owner:profiles!pins_user_id_fkey(id, username, display_name, avatar_url)
+`;
+
+export interface NearbyPlace {
+  place_id: string;
+  name: string;
+  address: string | null;
+  lat: number;
+  lng: number;
+  category: string | null;
+  distance_m: number;
+  save_count: number;
+}
+
+export const VIEWPORT_PAGE_SIZE = 500;
+
+// One page of pins inside a bounding box, limited to the given lists.
+// Returns null on error so callers don't mistake a failure for an empty area.
+export async function fetchPinsInViewport(
+  bounds: MapBounds,
+  listIds: string[],
+  { limit = VIEWPORT_PAGE_SIZE, offset = 0 }: { limit?: number; offset?: number } = {}
+): Promise<Pin[] | null> {
+  if (listIds.length === 0) return [];
+
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .rpc("pins_in_viewport", {
+      p_west: bounds.west,
+      p_south: bounds.south,
+      p_east: bounds.east,
+      p_north: bounds.north,
+      p_list_ids: listIds,
+      p_limit: limit,
+      p_offset: offset,
+    })
+    .select(PIN_WITH_LIST_AND_OWNER);
+
+  if (error) {
+    console.error("Error loading pins in viewport:", error);
+    return null;
+  }
+
+  return (data || []) as Pin[];
+}
+
+// Pins within radiusMeters of a point, closest first
+export async function fetchPinsNearby(
+  lat: number,
+  lng: number,
+  radiusMeters = 500
+): Promise<Pin[]> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .rpc("pins_within_radius", {
+      p_lat: lat,
+      p_lng: lng,
+      p_radius_m: radiusMeters,
+    })
+    .select(PIN_WITH_LIST_AND_OWNER);
+
+  if (error) {
+    console.error("Error loading nearby pins:", error);
+    return [];
+  }
+
+  return (data || []) as Pin[];
+}
+
+// The k closest places that already have pins
+export async function fetchNearestPlaces(
+  lat: number,
+  lng: number,
+  k = 10
+): Promise<NearbyPlace[]> {
+  const supabase = createClient();
+  const { data, error } = await supabase.rpc("nearest_places", {
+    p_lat: lat,
+    p_lng: lng,
+    p_k: k,
+  });
+
+  if (error) {
+    console.error("Error loading nearest places:", error);
+    return [];
+  }
+
+  return (data || []) as NearbyPlace[];
+}
@@ -0,0 +1,23 @@
+import { createClient as createSupabaseClient } from "@supabase/supabase-js";
+
+// For the REST API, which doesn't use the cookie session. Without an access
+// token it queries as anon; with one, as the user it was signed for.
+export function createClient(accessToken?: string) {
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: accessToken ? { headers: { Authorization: `Bearer ${accessToken}` } } : undefined,
+    }
+  );
+}
+
+// Bypasses row level security. Only for server jobs that work across
+// users, like sending webhooks, and for saving what Mapbox returned; never
+// for writing what a user sent.
+export function createServiceClient() {
+  return createSupabaseClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
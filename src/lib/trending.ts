@@ -0,0 +1,187 @@
+/**
+ * Trending queries backed by the get_trending_* RPCs in schema.sql
+ */
+
+import { createClient } from "@/lib/supabase/client";
+import type {
+  List,
+  Pin,
+  Profile,
+  TrendingList,
+  TrendingSpot,
+  TrendingUser,
+  TrendingWindow,
+} from "@/types";
+
+export const TRENDING_PAGE_SIZE = 20;
+
+export const TRENDING_WINDOW_LABELS: Record<TrendingWindow, string> = {
+  today: "Today",
+  week: "This Week",
+  month: "This Month",
+  all: "All Time",
+};
+
+interface TrendingQuery {
+  window: TrendingWindow;
+  limit?: number;
+  offset?: number;
+}
+
+interface SpotStats {
+  place_id: string;
+  pin_id: string;
+  save_count: number;
+  previous_count: number;
+  saves_today: number;
+  total_saves: number;
+  avg_rating: number | null;
+  velocity: number | null;
+}
+
+interface ListStats {
+  list_id: string;
+  pins_count: number;
+  recent_pins: number;
+  likes_count: number;
+}
+
+interface UserStats {
+  user_id: string;
+  followers_count: number;
+  new_followers: number;
+  lists_count: number;
+}
+
+export async function fetchTrendingSpots({
+  window,
+  sort = "saves",
+  limit = TRENDING_PAGE_SIZE,
+  offset = 0,
+}: TrendingQuery & { sort?: "saves" | "velocity" }): Promise<TrendingSpot[]> {
+  const supabase = createClient();
+
+  const { data: stats, error } = await supabase.rpc("get_trending_spots", {
+    p_window: window,
+    p_sort: sort,
+    p_limit: limit,
+    p_offset: offset,
+  });
+
+  if (error) {
+    console.error("Error loading trending spots:", error);
+    return [];
+  }
+  if (!stats || stats.length === 0) return [];
+
+  const rows = stats as SpotStats[];
+  const { data: pinsData } = await supabase
+    .from("pins")
+    .select(`
+      *,
+      list:lists!list_id(
+        *,
+        profile:profiles!user_id(id, username, display_name, avatar_url)
+      )
+    `)
+    .in("id", rows.map((row) => row.pin_id));
+
+  const pinsById = new Map(
+    ((pinsData || []) as Array<Pin & { list: List & { profile: Profile } }>).map((pin) => [pin.id, pin])
+  );
+
+  // Keep the RPC's ranking; skip anything deleted between the two queries
+  return rows.flatMap((row) => {
+    const pin = pinsById.get(row.pin_id);
+    if (!pin?.list) return [];
+    return [{
+      ...pin,
+      save_count: row.save_count,
+      previous_count: row.previous_count,
+      saves_today: row.saves_today,
+      total_saves: row.total_saves,
+      avg_rating: row.avg_rating,
+      velocity: row.velocity,
+    }];
+  });
+}
+
+export async function fetchTrendingLists({
+  window,
+  limit = TRENDING_PAGE_SIZE,
+  offset = 0,
+}: TrendingQuery): Promise<TrendingList[]> {
+  const supabase = createClient();
+
+  const { data: stats, error } = await supabase.rpc("get_trending_lists", {
+    p_window: window,
+    p_limit: limit,
+    p_offset: offset,
+  });
+
+  if (error) {
+    console.error("Error loading trending lists:", error);
+    return [];
+  }
+  if (!stats || stats.length === 0) return [];
+
+  const rows = stats as ListStats[];
+  const { data: listsData } = await supabase
+    .from("lists")
+    .select(`*, profile:profiles!user_id(id, username, display_name, avatar_url)`)
+    .in("id", rows.map((row) => row.list_id));
+
+  const listsById = new Map(
+    ((listsData || []) as Array<List & { profile: Profile }>).map((list) => [list.id, list])
+  );
+
+  return rows.flatMap((row) => {
+    const list = listsById.get(row.list_id);
+    if (!list) return [];
+    return [{
+      ...list,
+      pins_count: row.pins_count,
+      recent_pins: row.recent_pins,
+      likes_count: row.likes_count,
+    }];
+  });
+}
+
+export async function fetchTrendingUsers({
+  window,
+  limit = TRENDING_PAGE_SIZE,
+  offset = 0,
+}: TrendingQuery): Promise<TrendingUser[]> {
+  const supabase = createClient();
+
+  const { data: stats, error } = await supabase.rpc("get_trending_users", {
+    p_window: window,
+    p_limit: limit,
+    p_offset: offset,
+  });
+
+  if (error) {
+    console.error("Error loading trending users:", error);
+    return [];
+  }
+  if (!stats || stats.length === 0) return [];
+
+  const rows = stats as UserStats[];
+  const { data: profilesData } = await supabase
+    .from("profiles")
+    .select("*")
+    .in("id", rows.map((row) => row.user_id));
+
+  const profilesById = new Map(((profilesData || []) as Profile[]).map((profile) => [profile.id, profile]));
+
+  return rows.flatMap((row) => {
+    const profile = profilesById.get(row.user_id);
+    if (!profile) return [];
+    return [{
+      ...profile,
+      followers_count: row.followers_count,
+      new_followers: row.new_followers,
+      lists_count: row.lists_count,
+    }];
+  });
+}
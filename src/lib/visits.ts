@@ -0,0 +1,41 @@
+/**
+ * Visit log helpers. pins.is_visited and pins.personal_rating are derived
+ * from a pin's visits by a trigger (see VISITS in supabase/schema.sql); the
+ * same rules live here so the UI can update a pin without reloading it.
+ */
+
+import type { Pin, Visit } from "@/types";
+
+export const MAX_VISIT_NOTES_LENGTH = 1000;
+export const MAX_VISIT_COMPANIONS = 10;
+
+type VisitOrder = Pick<Visit, "visited_on" | "created_at">;
+
+// Latest first: by the day of the visit, then by when it was logged
+export function byLatestVisit(a: VisitOrder, b: VisitOrder) {
+  return b.visited_on.localeCompare(a.visited_on) || b.created_at.localeCompare(a.created_at);
+}
+
+export function deriveVisitFields(visits: Pick<Visit, "visited_on" | "created_at" | "rating">[]) {
+  const latestRated = visits.filter((v) => v.rating !== null).sort(byLatestVisit)[0];
+  return {
+    is_visited: visits.length > 0,
+    personal_rating: latestRated?.rating ?? null,
+  } satisfies Pick<Pin, "is_visited" | "personal_rating">;
+}
+
+// Today as YYYY-MM-DD in the user's time zone, for date inputs
+export function localDate(date = new Date()) {
+  const offset = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+}
+
+// "Mar 4, 2025"; visited_on has no time zone, so it's read as UTC
+export function formatVisitDate(visitedOn: string) {
+  return new Date(`${visitedOn}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
@@ -0,0 +1,243 @@
+/**
+ * Outgoing webhooks. Triggers in the database queue a delivery for each
+ * subscribed webhook (see WEBHOOKS in supabase/schema.sql); deliverWebhooks
+ * sends whatever is due and reports each attempt back, and the database
+ * schedules retries.
+ *
+ * Each delivery is a JSON POST of { id, event, list_id, created_at, data }
+ * with these headers:
+ *   X-Webhook-Event      the event, e.g. "pin.added"
+ *   X-Webhook-Delivery   the delivery id, the same on every retry
+ *   X-Webhook-Signature  t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ * The HMAC key is the webhook's secret; verifyWebhookSignature checks it.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { WebhookDeliveryStatus, WebhookEvent } from "@/types";
+
+export const WEBHOOK_EVENTS: { event: WebhookEvent; label: string }[] = [
+  { event: "pin.added", label: "Spot added" },
+  { event: "pin.updated", label: "Spot edited" },
+  { event: "pin.visited", label: "Spot visited" },
+  { event: "pin.removed", label: "Spot removed" },
+  { event: "list.liked", label: "List liked" },
+  { event: "list.forked", label: "List forked" },
+];
+
+// Signatures older than this are rejected, so a captured request can't be replayed later
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+const PRIVATE_ADDRESS_ERROR = "Webhooks can't be sent to private addresses";
+
+function toHex(buffer: ArrayBuffer) {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+async function hmacHex(secret: string, message: string) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toHex(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(message)));
+}
+
+export async function signWebhookBody(secret: string, body: string, now = Date.now()): Promise<string> {
+  const timestamp = Math.floor(now / 1000);
+  return `t=${timestamp},v1=${await hmacHex(secret, `${timestamp}.${body}`)}`;
+}
+
+// For receivers: true if the X-Webhook-Signature header matches the raw body
+export async function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string | null,
+  now = Date.now()
+): Promise<boolean> {
+  const parts = new Map(
+    (header ?? "").split(",").map((part) => {
+      const [key, ...value] = part.trim().split("=");
+      return [key, value.join("=")] as const;
+    })
+  );
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v1");
+  if (!Number.isInteger(timestamp) || !signature) return false;
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = await hmacHex(secret, `${timestamp}.${body}`);
+  // Compare every character so timing doesn't reveal how much matched
+  let difference = expected.length ^ signature.length;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ (signature.charCodeAt(i) || 0);
+  }
+  return difference === 0;
+}
+
+// An IPv4 address written as IPv6 (::ffff:7f00:1 or ::ffff:127.0.0.1),
+// as dotted IPv4
+function mappedIPv4(address: string): string | null {
+  const match = /^::ffff:(?:([\d.]+)|([\da-f]{1,4}):([\da-f]{1,4}))$/.exec(address);
+  if (!match) return null;
+  if (match[1]) return match[1];
+  const [high, low] = [parseInt(match[2], 16), parseInt(match[3], 16)];
+  return [high >> 8, high & 255, low >> 8, low & 255].join(".");
+}
+
+// Loopback, private, shared (carrier-grade NAT), link-local, multicast and
+// unspecified IP addresses. Anything that isn't an IP address is false.
+export function isPrivateAddress(address: string): boolean {
+  const host = address.replace(/^\[|\]$/g, "").toLowerCase();
+  const mapped = mappedIPv4(host);
+  if (mapped) return isPrivateAddress(mapped);
+  if (host.includes(":")) {
+    return host === "::1" || host === "::" || /^f[cd]/.test(host) || /^fe[89ab]/.test(host) || host.startsWith("ff");
+  }
+
+  const octets = host.split(".").map(Number);
+  if (octets.length !== 4 || octets.some((octet) => !Number.isInteger(octet))) return false;
+  const [a, b] = octets;
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  );
+}
+
+// Hosts a production server shouldn't be made to call. Names are only
+// caught here by suffix; deliverWebhooks also checks what they resolve to.
+export function isPrivateUrl(url: string): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return true;
+  }
+
+  if (hostname === "localhost" || hostname.endsWith(".localhost") || hostname.endsWith(".internal")) return true;
+  return isPrivateAddress(hostname);
+}
+
+interface ClaimedDelivery {
+  id: string;
+  webhook_id: string;
+  list_id: string;
+  event: string;
+  payload: unknown;
+  attempts: number;
+  created_at: string;
+  url: string;
+  secret: string;
+}
+
+export interface DeliveryResult {
+  delivered: number;
+  retrying: number;
+  failed: number;
+}
+
+export interface DeliveryOptions {
+  // How many due deliveries to send in one run
+  limit?: number;
+  // Local receivers are fine in development
+  allowPrivateUrls?: boolean;
+  // Resolves a hostname to its IP addresses, so names pointing at private
+  // addresses are caught too. This module is also bundled for the browser,
+  // so the server passes in its DNS lookup. fetch resolves the name again,
+  // so a name that changes its answer in between can still get through.
+  lookup?: (hostname: string) => Promise<string[]>;
+  fetch?: typeof fetch;
+  now?: () => number;
+}
+
+// Sends the due deliveries in parallel. Needs a service role client, since
+// the queue functions aren't available to users.
+export async function deliverWebhooks(
+  supabase: Pick<SupabaseClient, "rpc">,
+  { limit = 50, allowPrivateUrls = false, lookup, fetch: send = fetch, now = Date.now }: DeliveryOptions = {}
+): Promise<DeliveryResult> {
+  const result: DeliveryResult = { delivered: 0, retrying: 0, failed: 0 };
+
+  const { data, error } = await supabase.rpc("claim_webhook_deliveries", { p_limit: limit });
+  if (error) {
+    console.error("Error claiming webhook deliveries:", error);
+    return result;
+  }
+
+  const record = async (id: string, responseStatus: number | null, message: string | null, giveUp = false) => {
+    const { data: status, error } = await supabase.rpc("record_webhook_delivery", {
+      p_id: id,
+      p_response_status: responseStatus,
+      p_error: message,
+      p_give_up: giveUp,
+    });
+    if (error) {
+      console.error("Error recording webhook delivery:", error);
+      return;
+    }
+    const counts: Record<WebhookDeliveryStatus, keyof DeliveryResult> = {
+      delivered: "delivered",
+      pending: "retrying",
+      failed: "failed",
+    };
+    result[counts[status as WebhookDeliveryStatus]]++;
+  };
+
+  await Promise.all(
+    ((data || []) as ClaimedDelivery[]).map(async (delivery) => {
+      if (!allowPrivateUrls && isPrivateUrl(delivery.url)) {
+        return record(delivery.id, null, PRIVATE_ADDRESS_ERROR, true);
+      }
+      if (!allowPrivateUrls && lookup) {
+        let addresses: string[];
+        try {
+          addresses = await lookup(new URL(delivery.url).hostname.replace(/^\[|\]$/g, ""));
+        } catch (err) {
+          return record(delivery.id, null, err instanceof Error ? err.message : String(err));
+        }
+        if (addresses.some(isPrivateAddress)) {
+          return record(delivery.id, null, PRIVATE_ADDRESS_ERROR, true);
+        }
+      }
+
+      const body = JSON.stringify({
+        id: delivery.id,
+        event: delivery.event,
+        list_id: delivery.list_id,
+        created_at: delivery.created_at,
+        data: delivery.payload,
+      });
+
+      try {
+        const response = await send(delivery.url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "User-Agent": "NewForkCity-Webhooks/1.0",
+            "X-Webhook-Event": delivery.event,
+            "X-Webhook-Delivery": delivery.id,
+            "X-Webhook-Signature": await signWebhookBody(delivery.secret, body, now()),
+          },
+          body,
+          // A redirect could point anywhere, including private addresses
+          redirect: "manual",
+          signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        });
+        await record(delivery.id, response.status, response.ok ? null : `HTTP ${response.status}`);
+      } catch (err) {
+        await record(delivery.id, null, err instanceof Error ? err.message : String(err));
+      }
+    })
+  );
+
+  return result;
+}
@@ -5,6 +5,8 @@ export interface Profile {
   display_name: string | null;
   avatar_url: string | null;
   bio: string | null;
+  // Followers need approval, and only they see the account's lists
+  is_private: boolean;
   created_at: string;
 }
 
@@ -14,6 +16,18 @@ export interface Follow {
   created_at: string;
 }
 
+// Someone asking to follow a private account
+export interface FollowRequest {
+  follower_id: string;
+  following_id: string;
+  created_at: string;
+  // Joined data
+  follower?: Profile;
+}
+
+// "requested" while a private account hasn't approved the follow yet
+export type FollowState = "following" | "requested" | "none";
+
 // List types
 export interface List {
   id: string;
@@ -23,6 +37,9 @@ export interface List {
   emoji_icon: string;
   color: string;
   is_public: boolean;
+  // Set on forks: the source list (null once it's deleted) and when it was forked
+  forked_from: string | null;
+  forked_at: string | null;
   created_at: string;
   updated_at: string;
   // Joined data
@@ -31,6 +48,138 @@ export interface List {
   likes_count?: number;
 }
 
+// Collaborative lists. The list's user_id is its owner; everyone else with
+// access has a list_members row.
+export type ListRole = "owner" | "editor" | "viewer";
+export type MemberRole = Exclude<ListRole, "owner">;
+
+export interface ListMember {
+  list_id: string;
+  user_id: string;
+  role: MemberRole;
+  invited_by: string | null;
+  created_at: string;
+  // Joined data
+  profile?: Profile;
+}
+
+// A share link; anyone signed in who opens it joins with `role`
+export interface ListInvite {
+  id: string;
+  list_id: string;
+  token: string;
+  role: MemberRole;
+  created_by: string;
+  created_at: string;
+}
+
+// Credentials for the REST API. The token itself is only shown once, when
+// it's created; read tokens can't change anything.
+export type AccessTokenScope = "read" | "write";
+
+export interface PersonalAccessToken {
+  id: string;
+  user_id: string;
+  name: string;
+  token_prefix: string;
+  scope: AccessTokenScope;
+  expires_at: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+// Outgoing webhooks on a list, managed by its owner
+export type WebhookEvent = "pin.added" | "pin.updated" | "pin.removed" | "pin.visited" | "list.liked" | "list.forked";
+
+export interface ListWebhook {
+  id: string;
+  list_id: string;
+  url: string;
+  events: WebhookEvent[];
+  // Signs each delivery; see src/lib/webhooks.ts
+  secret: string;
+  is_active: boolean;
+  created_by: string;
+  created_at: string;
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+// One event for one webhook, kept as its delivery log. "ping" is a test send.
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  event: WebhookEvent | "ping";
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  response_status: number | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+// Things that happened to you, written by database triggers. Named so it
+// doesn't shadow the browser's Notification.
+export type NotificationType =
+  | "list_like"
+  | "pin_like"
+  | "follow"
+  | "follow_request"
+  | "pin_save"
+  | "poll_invite"
+  | "poll_result";
+
+export interface UserNotification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  actor_id: string;
+  // list_like is about a list; pin_like and pin_save about one of your pins
+  list_id: string | null;
+  pin_id: string | null;
+  // poll_invite and poll_result are about a poll you're in
+  poll_id: string | null;
+  read_at: string | null;
+  created_at: string;
+  // Joined data
+  actor?: Profile;
+  list?: Pick<List, "id" | "name" | "emoji_icon"> | null;
+  pin?: Pick<Pin, "id" | "name" | "list_id"> | null;
+  poll?: (Pick<Poll, "id" | "question"> & { winner: Pick<PollOption, "name"> | null }) | null;
+}
+
+// Place types
+export interface Place {
+  id: string; // Mapbox mapbox_id, or "manual:<uuid>" for pins dropped by hand
+  name: string;
+  address: string | null;
+  lat: number;
+  lng: number;
+  category: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Place search results, as returned by /api/places
+export interface PlaceSuggestion {
+  mapbox_id: string;
+  name: string;
+  address: string | null;
+  category: string | null;
+  neighborhood: string | null;
+}
+
+export interface RetrievedPlace {
+  mapbox_id: string;
+  name: string;
+  address: string | null;
+  lat: number;
+  lng: number;
+  category: string | null;
+}
+
 // Pin types
 export interface Pin {
   id: string;
@@ -42,9 +191,13 @@ export interface Pin {
   lat: number;
   lng: number;
   category: string | null;
+  // Derived from the pin's visits: the latest rated visit's rating, and
+  // whether there are any
   personal_rating: number | null;
   personal_notes: string | null;
   is_visited: boolean;
+  // The upstream pin this was forked or pulled from
+  source_pin_id: string | null;
   created_at: string;
   // Joined data
   photos?: PinPhoto[];
@@ -52,10 +205,105 @@ export interface Pin {
   owner?: Profile;
 }
 
+// Someone else's save of the same place
+export interface SavedByInfo {
+  pin: Pin;
+  list: List;
+  owner: Profile;
+}
+
 export interface PinPhoto {
   id: string;
   pin_id: string;
   url: string;
+  // Set when the photo was taken on a visit
+  visit_id: string | null;
+  created_at: string;
+}
+
+// A dated check-in at a pin
+export interface Visit {
+  id: string;
+  pin_id: string;
+  user_id: string;
+  // YYYY-MM-DD
+  visited_on: string;
+  rating: number | null;
+  notes: string | null;
+  created_at: string;
+  // Joined data
+  user?: Profile;
+  companions?: Profile[];
+  photos?: PinPhoto[];
+}
+
+// An ordered plan for a night out
+export interface Itinerary {
+  id: string;
+  user_id: string;
+  name: string;
+  // YYYY-MM-DD
+  planned_for: string | null;
+  is_public: boolean;
+  created_at: string;
+  updated_at: string;
+  // Joined data
+  profile?: Profile;
+  stops?: ItineraryStop[];
+}
+
+// A stop keeps a copy of its pin, so pin_id is null once the pin is deleted
+export interface ItineraryStop {
+  id: string;
+  itinerary_id: string;
+  pin_id: string | null;
+  place_id: string | null;
+  name: string;
+  address: string | null;
+  lat: number;
+  lng: number;
+  position: number;
+  // HH:MM:SS
+  planned_time: string | null;
+  created_at: string;
+}
+
+export interface Poll {
+  id: string;
+  creator_id: string;
+  question: string;
+  closes_at: string;
+  // Both set once the poll is closed; a closed poll may have no winner
+  closed_at: string | null;
+  winner_option_id: string | null;
+  created_at: string;
+  // Joined data
+  creator?: Profile;
+  options?: PollOption[];
+  participants?: Profile[];
+  votes?: PollVote[];
+}
+
+// Like an itinerary stop, an option is a copy of its pin
+export interface PollOption {
+  id: string;
+  poll_id: string;
+  pin_id: string | null;
+  place_id: string | null;
+  name: string;
+  address: string | null;
+  lat: number;
+  lng: number;
+  position: number;
+  created_at: string;
+}
+
+export interface PollVote {
+  poll_id: string;
+  option_id: string;
+  user_id: string;
+  // A veto rules the option out; each participant gets one
+  is_veto: boolean;
   created_at: string;
 }
 
@@ -79,10 +327,79 @@ export interface Comment {
   list_id: string | null;
   content: string;
   created_at: string;
+  updated_at: string;
   // Joined data
   profile?: Profile;
 }
 
+export type CommentTarget = { type: "pin" | "list"; id: string };
+
+// Trending types
+export type TrendingWindow = "today" | "week" | "month" | "all";
+
+export interface TrendingSpot extends Pin {
+  list: List & { profile: Profile };
+  save_count: number;
+  previous_count: number;
+  saves_today: number;
+  total_saves: number;
+  avg_rating: number | null;
+  velocity: number | null; // null for the all-time window
+}
+
+export interface TrendingList extends List {
+  profile: Profile;
+  pins_count: number;
+  recent_pins: number;
+  likes_count: number;
+}
+
+export interface TrendingUser extends Profile {
+  followers_count: number;
+  new_followers: number;
+  lists_count: number;
+}
+
+// Recommendation types
+export interface RecommendedSpot extends Pin {
+  list: List & { profile: Profile };
+  score: number;
+  recommenders: number; // people with similar taste who rated the place 4-5
+  five_star_count: number;
+  avg_rating: number; // among those recommenders
+}
+
+// Taste compatibility with another user (see get_taste_compatibility).
+// The parts are 0-1; rating_agreement and category_overlap are null when
+// there's nothing to compare.
+export interface TasteMatch {
+  user_id: string;
+  score: number; // percentage
+  shared_places: number;
+  place_overlap: number;
+  rating_agreement: number | null;
+  category_overlap: number | null;
+}
+
+// One of their places in a comparison with yours
+export interface TastePlace {
+  place_id: string;
+  name: string;
+  my_rating: number | null;
+  their_rating: number | null;
+  i_saved: boolean;
+  i_visited: boolean;
+  their_pin_id: string;
+  their_list_id: string;
+}
+
+// A route drawn over the map: numbered stops joined by a line
+export interface MapRoute {
+  stops: Array<{ lng: number; lat: number }>;
+  // [lng, lat] points from the first stop to the last
+  path: [number, number][];
+}
+
 // Map layer types
 export interface MapLayer {
   id: string;
@@ -94,6 +411,19 @@ export interface MapLayer {
   profile?: Profile;
 }
 
+// Bounding box in degrees
+export interface MapBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+// Visible map area, reported by MapView after every move
+export interface MapViewport extends MapBounds {
+  zoom: number;
+}
+
 // GeoJSON types for Mapbox
 export interface PinFeature {
   type: "Feature";
@@ -118,3 +448,19 @@ export interface PinFeatureCollection {
   type: "FeatureCollection";
   features: PinFeature[];
 }
+
+// GeoJSON exports: the map's feature properties plus the rest of the pin
+export interface PinExportFeature extends PinFeature {
+  properties: PinFeature["properties"] & {
+    address: string;
+    category: string | null;
+    notes: string | null;
+    photos: string[];
+    placeId: string | null;
+    createdAt: string;
+  };
+}
+
+export interface PinExportFeatureCollection extends PinFeatureCollection {
+  features: PinExportFeature[];
+}
@@ -3,6 +3,7 @@
 
 -- Enable necessary extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+CREATE EXTENSION IF NOT EXISTS postgis;
 
 -- ============================================
 -- PROFILES TABLE (extends auth.users)
@@ -13,6 +14,8 @@ CREATE TABLE IF NOT EXISTS profiles (
   display_name TEXT,
   avatar_url TEXT,
   bio TEXT,
+  -- Private accounts approve followers; see FOLLOWS
+  is_private BOOLEAN DEFAULT false NOT NULL,
   created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
 
   CONSTRAINT username_length CHECK (char_length(username) >= 3 AND char_length(username) <= 30),
@@ -38,6 +41,20 @@ CREATE POLICY "Users can insert their own profile"
 -- ============================================
 -- FOLLOWS TABLE
 -- ============================================
+-- Following a private account (profiles.is_private) sends a follow request
+-- instead, which becomes a follow once the account owner approves it. Only
+-- approved followers see a private account's lists, public ones included
+-- (can_see_account, checked by can_view_list).
+--
+-- Upgrading an existing database: run
+--   ALTER TABLE profiles ADD COLUMN is_private BOOLEAN DEFAULT false NOT NULL;
+--   DROP POLICY "Users can follow others" ON follows;
+--   DROP POLICY "Lists are viewable if public or shared with you" ON lists;
+-- then create the new follows policy, follow_requests and the functions in
+-- this section, and re-run can_view_list and the lists SELECT policy under
+-- LIST MEMBERS, TRENDING, and the follow_request parts of NOTIFICATIONS
+-- (drop and re-add the two type checks). The pins, pin_photos and comments
+-- policies go through can_view_list, so they follow along unchanged.
 CREATE TABLE IF NOT EXISTS follows (
   follower_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
   following_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
@@ -55,14 +72,111 @@ CREATE POLICY "Follows are viewable by everyone"
   ON follows FOR SELECT
   USING (true);
 
-CREATE POLICY "Users can follow others"
+-- Private accounts are followed through follow_user and a request
+CREATE POLICY "Users can follow public accounts"
   ON follows FOR INSERT
-  WITH CHECK (auth.uid() = follower_id);
+  WITH CHECK (
+    auth.uid() = follower_id
+    AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = following_id AND is_private)
+  );
 
 CREATE POLICY "Users can unfollow"
   ON follows FOR DELETE
   USING (auth.uid() = follower_id);
 
+CREATE TABLE IF NOT EXISTS follow_requests (
+  follower_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  following_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  PRIMARY KEY (follower_id, following_id),
+  CONSTRAINT no_self_follow_request CHECK (follower_id != following_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_follow_requests_following ON follow_requests(following_id, created_at DESC);
+
+ALTER TABLE follow_requests ENABLE ROW LEVEL SECURITY;
+
+-- Requests are only created by follow_user. Denying one, or withdrawing
+-- your own, is a delete.
+CREATE POLICY "Users can view follow requests they sent or received"
+  ON follow_requests FOR SELECT
+  USING (auth.uid() = follower_id OR auth.uid() = following_id);
+
+CREATE POLICY "Users can withdraw or deny follow requests"
+  ON follow_requests FOR DELETE
+  USING (auth.uid() = follower_id OR auth.uid() = following_id);
+
+-- Whether the caller sees what p_user_id shares publicly: everyone does for
+-- public accounts, only the owner and approved followers for private ones
+CREATE OR REPLACE FUNCTION can_see_account(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_user_id AND is_private)
+    OR p_user_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM follows WHERE follower_id = auth.uid() AND following_id = p_user_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Follows p_user_id, or asks to if the account is private. Returns
+-- 'following' or 'requested'.
+CREATE OR REPLACE FUNCTION follow_user(p_user_id UUID)
+RETURNS TEXT AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to follow people';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM follows WHERE follower_id = auth.uid() AND following_id = p_user_id) THEN
+    RETURN 'following';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM profiles WHERE id = p_user_id AND is_private) THEN
+    INSERT INTO follow_requests (follower_id, following_id)
+    VALUES (auth.uid(), p_user_id)
+    ON CONFLICT DO NOTHING;
+    RETURN 'requested';
+  END IF;
+
+  INSERT INTO follows (follower_id, following_id) VALUES (auth.uid(), p_user_id);
+  RETURN 'following';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Turns p_follower_id's request to follow the caller into a follow. Returns
+-- false if there was no such request.
+CREATE OR REPLACE FUNCTION approve_follow_request(p_follower_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  DELETE FROM follow_requests
+  WHERE follower_id = p_follower_id AND following_id = auth.uid();
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO follows (follower_id, following_id)
+  VALUES (p_follower_id, auth.uid())
+  ON CONFLICT DO NOTHING;
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Making an account public approves everyone who was waiting
+CREATE OR REPLACE FUNCTION approve_follow_requests_when_public()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO follows (follower_id, following_id)
+  SELECT follower_id, following_id FROM follow_requests WHERE following_id = NEW.id
+  ON CONFLICT DO NOTHING;
+  DELETE FROM follow_requests WHERE following_id = NEW.id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER approve_follow_requests_when_public
+  AFTER UPDATE OF is_private ON profiles
+  FOR EACH ROW
+  WHEN (OLD.is_private AND NOT NEW.is_private)
+  EXECUTE FUNCTION approve_follow_requests_when_public();
+
 -- ============================================
 -- LISTS TABLE
 -- ============================================
@@ -74,6 +188,8 @@ CREATE TABLE IF NOT EXISTS lists (
   emoji_icon TEXT DEFAULT '📍' NOT NULL,
   color TEXT DEFAULT '#ff2d92' NOT NULL,
   is_public BOOLEAN DEFAULT true NOT NULL,
+  forked_from UUID REFERENCES lists(id) ON DELETE SET NULL,
+  forked_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
   updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
 
@@ -83,11 +199,8 @@ CREATE TABLE IF NOT EXISTS lists (
 -- Enable RLS
 ALTER TABLE lists ENABLE ROW LEVEL SECURITY;
 
--- Policies for lists
-CREATE POLICY "Public lists are viewable by everyone"
-  ON lists FOR SELECT
-  USING (is_public = true OR auth.uid() = user_id);
-
+-- Policies for lists (the SELECT policy is under LIST MEMBERS, since
+-- members can see private lists)
 CREATE POLICY "Users can create lists"
   ON lists FOR INSERT
   WITH CHECK (auth.uid() = user_id);
@@ -100,6 +213,167 @@ CREATE POLICY "Users can delete their own lists"
   ON lists FOR DELETE
   USING (auth.uid() = user_id);
 
+-- ============================================
+-- LIST MEMBERS
+-- ============================================
+-- The list's user_id is its owner. Members are added by the owner, either
+-- directly by username or by opening a share link (list_invites). Editors
+-- can add, edit and move pins; viewers can see a private list.
+--
+-- Upgrading an existing database: create the tables and functions in this
+-- section, then replace the lists, pins, pin_photos and comments policies
+-- that used "lists.is_public = true OR lists.user_id = auth.uid()":
+--   DROP POLICY "Public lists are viewable by everyone" ON lists;
+--   DROP POLICY "Pins are viewable if list is public or owned" ON pins;
+--   DROP POLICY "Users can create pins in their own lists" ON pins;
+--   DROP POLICY "Users can update their own pins" ON pins;
+--   DROP POLICY "Users can delete their own pins" ON pins;
+--   DROP POLICY "Pin photos are viewable if pin is viewable" ON pin_photos;
+--   DROP POLICY "Comments are viewable if target is viewable" ON comments;
+--   DROP POLICY "Users can create comments on viewable targets" ON comments;
+-- and create the new versions from this file, along with the
+-- keep_pin_author trigger under FUNCTIONS & TRIGGERS.
+CREATE TABLE IF NOT EXISTS list_members (
+  list_id UUID REFERENCES lists(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('editor', 'viewer')),
+  invited_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (list_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS list_invites (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  list_id UUID REFERENCES lists(id) ON DELETE CASCADE NOT NULL,
+  token TEXT UNIQUE NOT NULL DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  role TEXT NOT NULL CHECK (role IN ('editor', 'viewer')),
+  created_by UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_list_members_user ON list_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_list_invites_list ON list_invites(list_id);
+
+-- 'owner', 'editor', 'viewer' or NULL. These run as the definer so policies
+-- on lists and list_members can call them without recursing.
+CREATE OR REPLACE FUNCTION list_role(p_list_id UUID, p_user_id UUID)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_user_id IS NULL THEN NULL
+    WHEN EXISTS (SELECT 1 FROM lists WHERE id = p_list_id AND user_id = p_user_id) THEN 'owner'
+    ELSE (SELECT role FROM list_members WHERE list_id = p_list_id AND user_id = p_user_id)
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Public lists on private accounts are for approved followers only
+CREATE OR REPLACE FUNCTION can_view_list(p_list_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM lists WHERE id = p_list_id AND is_public = true AND can_see_account(user_id))
+    OR list_role(p_list_id, auth.uid()) IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_edit_list(p_list_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(list_role(p_list_id, auth.uid()) IN ('owner', 'editor'), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Lists are viewable if public or shared with you"
+  ON lists FOR SELECT
+  USING ((is_public = true AND can_see_account(user_id)) OR can_view_list(id));
+
+-- Enable RLS
+ALTER TABLE list_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE list_invites ENABLE ROW LEVEL SECURITY;
+
+-- Policies for list_members
+CREATE POLICY "Members are viewable with the list"
+  ON list_members FOR SELECT
+  USING (can_view_list(list_id));
+
+CREATE POLICY "Owners can add members"
+  ON list_members FOR INSERT
+  WITH CHECK (list_role(list_id, auth.uid()) = 'owner' AND user_id <> auth.uid());
+
+CREATE POLICY "Owners can change member roles"
+  ON list_members FOR UPDATE
+  USING (list_role(list_id, auth.uid()) = 'owner');
+
+CREATE POLICY "Owners can remove members and members can leave"
+  ON list_members FOR DELETE
+  USING (list_role(list_id, auth.uid()) = 'owner' OR auth.uid() = user_id);
+
+-- Policies for list_invites (others only ever see a token through the link)
+CREATE POLICY "Owners can view invite links"
+  ON list_invites FOR SELECT
+  USING (list_role(list_id, auth.uid()) = 'owner');
+
+CREATE POLICY "Owners can create invite links"
+  ON list_invites FOR INSERT
+  WITH CHECK (list_role(list_id, auth.uid()) = 'owner' AND auth.uid() = created_by);
+
+CREATE POLICY "Owners can revoke invite links"
+  ON list_invites FOR DELETE
+  USING (list_role(list_id, auth.uid()) = 'owner');
+
+-- Joins the list behind a share link and returns its id, or NULL if the
+-- link was revoked. Never downgrades: an editor opening a viewer link stays
+-- an editor, and the owner is left alone.
+CREATE OR REPLACE FUNCTION accept_list_invite(p_token TEXT)
+RETURNS UUID AS $$
+DECLARE
+  invite list_invites%ROWTYPE;
+  current_role_name TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to join a list';
+  END IF;
+
+  SELECT * INTO invite FROM list_invites WHERE token = p_token;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  current_role_name := list_role(invite.list_id, auth.uid());
+  IF current_role_name IS NULL THEN
+    INSERT INTO list_members (list_id, user_id, role, invited_by)
+    VALUES (invite.list_id, auth.uid(), invite.role, invite.created_by);
+  ELSIF current_role_name = 'viewer' AND invite.role = 'editor' THEN
+    UPDATE list_members SET role = 'editor'
+    WHERE list_id = invite.list_id AND user_id = auth.uid();
+  END IF;
+
+  RETURN invite.list_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- PLACES TABLE
+-- ============================================
+-- One row per real-world spot. Pins saved from search use the Mapbox
+-- mapbox_id as the key; pins dropped by hand get a generated 'manual:' id.
+CREATE TABLE IF NOT EXISTS places (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  address TEXT,
+  lat DOUBLE PRECISION NOT NULL,
+  lng DOUBLE PRECISION NOT NULL,
+  location GEOGRAPHY(Point, 4326) GENERATED ALWAYS AS (
+    ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography
+  ) STORED,
+  category TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Enable RLS
+ALTER TABLE places ENABLE ROW LEVEL SECURITY;
+
+-- Policies for places (rows are only written by save_retrieved_place and
+-- resolve_place, see PLACE RESOLUTION)
+CREATE POLICY "Places are viewable by everyone"
+  ON places FOR SELECT
+  USING (true);
+
 -- ============================================
 -- PINS TABLE
 -- ============================================
@@ -107,15 +381,20 @@ CREATE TABLE IF NOT EXISTS pins (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
   list_id UUID REFERENCES lists(id) ON DELETE CASCADE NOT NULL,
   user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
-  place_id TEXT,
+  place_id TEXT REFERENCES places(id) ON DELETE SET NULL,
   name TEXT NOT NULL,
   address TEXT NOT NULL,
   lat DOUBLE PRECISION NOT NULL,
   lng DOUBLE PRECISION NOT NULL,
+  location GEOGRAPHY(Point, 4326) GENERATED ALWAYS AS (
+    ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography
+  ) STORED,
   category TEXT,
   personal_rating INTEGER CHECK (personal_rating >= 1 AND personal_rating <= 5),
   personal_notes TEXT,
   is_visited BOOLEAN DEFAULT false NOT NULL,
+  source_pin_id UUID,
+  saved_from_pin_id UUID,
   created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
   updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
 
@@ -126,34 +405,23 @@ CREATE TABLE IF NOT EXISTS pins (
 ALTER TABLE pins ENABLE ROW LEVEL SECURITY;
 
 -- Policies for pins
-CREATE POLICY "Pins are viewable if list is public or owned"
+CREATE POLICY "Pins are viewable with their list"
   ON pins FOR SELECT
-  USING (
-    EXISTS (
-      SELECT 1 FROM lists
-      WHERE lists.id = pins.list_id
-      AND (lists.is_public = true OR lists.user_id = auth.uid())
-    )
-  );
+  USING (can_view_list(list_id));
 
-CREATE POLICY "Users can create pins in their own lists"
+CREATE POLICY "Owners and editors can add pins"
   ON pins FOR INSERT
-  WITH CHECK (
-    auth.uid() = user_id AND
-    EXISTS (
-      SELECT 1 FROM lists
-      WHERE lists.id = list_id
-      AND lists.user_id = auth.uid()
-    )
-  );
+  WITH CHECK (auth.uid() = user_id AND can_edit_list(list_id));
 
-CREATE POLICY "Users can update their own pins"
+-- Moving a pin is an update of list_id, so the new list must be editable too
+CREATE POLICY "Owners and editors can edit pins"
   ON pins FOR UPDATE
-  USING (auth.uid() = user_id);
+  USING (auth.uid() = user_id OR can_edit_list(list_id))
+  WITH CHECK (can_edit_list(list_id));
 
-CREATE POLICY "Users can delete their own pins"
+CREATE POLICY "Owners, editors and authors can delete pins"
   ON pins FOR DELETE
-  USING (auth.uid() = user_id);
+  USING (auth.uid() = user_id OR can_edit_list(list_id));
 
 -- ============================================
 -- PIN PHOTOS TABLE
@@ -162,43 +430,26 @@ CREATE TABLE IF NOT EXISTS pin_photos (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
   pin_id UUID REFERENCES pins(id) ON DELETE CASCADE NOT NULL,
   url TEXT NOT NULL,
+  -- The visit the photo was taken on, if any (see VISITS)
+  visit_id UUID,
   created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
 );
 
 -- Enable RLS
 ALTER TABLE pin_photos ENABLE ROW LEVEL SECURITY;
 
--- Policies for pin_photos
+-- Policies for pin_photos (INSERT and DELETE are under VISITS, since
+-- photos taken on a visit belong to whoever logged it)
 CREATE POLICY "Pin photos are viewable if pin is viewable"
   ON pin_photos FOR SELECT
   USING (
     EXISTS (
       SELECT 1 FROM pins
-      JOIN lists ON lists.id = pins.list_id
       WHERE pins.id = pin_photos.pin_id
-      AND (lists.is_public = true OR lists.user_id = auth.uid())
-    )
-  );
-
-CREATE POLICY "Users can add photos to their own pins"
-  ON pin_photos FOR INSERT
-  WITH CHECK (
-    EXISTS (
-      SELECT 1 FROM pins
-      WHERE pins.id = pin_id
-      AND pins.user_id = auth.uid()
+      AND can_view_list(pins.list_id)
     )
   );
 
-CREATE POLICY "Users can delete their own pin photos"
-  ON pin_photos FOR DELETE
-  USING (
-    EXISTS (
-      SELECT 1 FROM pins
-      WHERE pins.id = pin_id
-      AND pins.user_id = auth.uid()
-    )
-  );
 
 -- ============================================
 -- LIST LIKES TABLE
@@ -264,6 +515,7 @@ CREATE TABLE IF NOT EXISTS comments (
   list_id UUID REFERENCES lists(id) ON DELETE CASCADE,
   content TEXT NOT NULL,
   created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
 
   CONSTRAINT content_length CHECK (char_length(content) >= 1 AND char_length(content) <= 1000),
   CONSTRAINT must_have_one_target CHECK (
@@ -281,25 +533,31 @@ CREATE POLICY "Comments are viewable if target is viewable"
   USING (
     (pin_id IS NOT NULL AND EXISTS (
       SELECT 1 FROM pins
-      JOIN lists ON lists.id = pins.list_id
       WHERE pins.id = comments.pin_id
-      AND (lists.is_public = true OR lists.user_id = auth.uid())
+      AND can_view_list(pins.list_id)
     ))
     OR
-    (list_id IS NOT NULL AND EXISTS (
-      SELECT 1 FROM lists
-      WHERE lists.id = comments.list_id
-      AND (lists.is_public = true OR lists.user_id = auth.uid())
-    ))
+    (list_id IS NOT NULL AND can_view_list(list_id))
   );
 
-CREATE POLICY "Users can create comments"
+CREATE POLICY "Users can create comments on viewable targets"
   ON comments FOR INSERT
-  WITH CHECK (auth.uid() = user_id);
+  WITH CHECK (
+    auth.uid() = user_id AND (
+      (pin_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM pins
+        WHERE pins.id = comments.pin_id
+        AND can_view_list(pins.list_id)
+      ))
+      OR
+      (list_id IS NOT NULL AND can_view_list(list_id))
+    )
+  );
 
 CREATE POLICY "Users can update their own comments"
   ON comments FOR UPDATE
-  USING (auth.uid() = user_id);
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
 
 CREATE POLICY "Users can delete their own comments"
   ON comments FOR DELETE
@@ -315,12 +573,16 @@ CREATE INDEX IF NOT EXISTS idx_lists_user ON lists(user_id);
 CREATE INDEX IF NOT EXISTS idx_lists_public ON lists(is_public) WHERE is_public = true;
 CREATE INDEX IF NOT EXISTS idx_pins_list ON pins(list_id);
 CREATE INDEX IF NOT EXISTS idx_pins_user ON pins(user_id);
-CREATE INDEX IF NOT EXISTS idx_pins_location ON pins(lat, lng);
+CREATE INDEX IF NOT EXISTS idx_pins_location ON pins USING GIST(location);
+CREATE INDEX IF NOT EXISTS idx_pins_place ON pins(place_id);
+CREATE INDEX IF NOT EXISTS idx_places_location ON places USING GIST(location);
+CREATE INDEX IF NOT EXISTS idx_pins_created ON pins(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_pin_photos_pin ON pin_photos(pin_id);
-CREATE INDEX IF NOT EXISTS idx_comments_pin ON comments(pin_id) WHERE pin_id IS NOT NULL;
-CREATE INDEX IF NOT EXISTS idx_comments_list ON comments(list_id) WHERE list_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_comments_pin ON comments(pin_id, created_at DESC) WHERE pin_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_comments_list ON comments(list_id, created_at DESC) WHERE list_id IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_list_likes_list ON list_likes(list_id);
 CREATE INDEX IF NOT EXISTS idx_pin_likes_pin ON pin_likes(pin_id);
+CREATE INDEX IF NOT EXISTS idx_follows_created ON follows(created_at DESC);
 
 -- ============================================
 -- FUNCTIONS & TRIGGERS
@@ -347,16 +609,46 @@ CREATE TRIGGER update_pins_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+-- A pin's author stays its author when an editor changes it: user_id is
+-- the "added by" credit and decides who owns its photos
+CREATE OR REPLACE FUNCTION keep_pin_author()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'A pin''s author can''t be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER keep_pin_author
+  BEFORE UPDATE OF user_id ON pins
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_pin_author();
+
+-- Trigger for places updated_at
+CREATE TRIGGER update_places_updated_at
+  BEFORE UPDATE ON places
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Trigger for comments updated_at (used to show "edited")
+CREATE TRIGGER update_comments_updated_at
+  BEFORE UPDATE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
 -- Function to handle new user signup
 CREATE OR REPLACE FUNCTION handle_new_user()
 RETURNS TRIGGER AS $$
 DECLARE
   new_username TEXT;
 BEGIN
-  -- Try to use provided username, fall back to unique user_id based username
+  -- Try to use provided username, fall back to a user_id based username
+  -- (12 hex digits keeps it inside the 30 character limit)
   new_username := COALESCE(
     NEW.raw_user_meta_data->>'username',
-    'user_' || replace(NEW.id::text, '-', '')
+    'user_' || substr(replace(NEW.id::text, '-', ''), 1, 12)
   );
 
   -- Handle potential username collision by appending random suffix
@@ -381,6 +673,1927 @@ CREATE TRIGGER on_auth_user_created
   FOR EACH ROW
   EXECUTE FUNCTION handle_new_user();
 
+-- ============================================
+-- FORKS
+-- ============================================
+-- A fork is a list copied with lists.forked_from pointing at its source.
+-- Pins copied or pulled from upstream keep the upstream pin's id in
+-- source_pin_id. It has no foreign key so that a pin removed upstream can
+-- still be matched and offered as a removal.
+--
+-- Upgrading an existing database: run
+--   ALTER TABLE lists ADD COLUMN forked_from UUID REFERENCES lists(id) ON DELETE SET NULL;
+--   ALTER TABLE lists ADD COLUMN forked_at TIMESTAMPTZ;
+--   ALTER TABLE pins ADD COLUMN source_pin_id UUID;
+-- and create the indexes, trigger and function below.
+CREATE INDEX IF NOT EXISTS idx_lists_forked_from ON lists(forked_from);
+CREATE INDEX IF NOT EXISTS idx_pins_source_pin_id ON pins(source_pin_id);
+
+-- The fork date comes from the database clock, not the client's
+CREATE OR REPLACE FUNCTION set_forked_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.forked_at := CASE WHEN NEW.forked_from IS NULL THEN NULL ELSE NOW() END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_lists_forked_at
+  BEFORE INSERT ON lists
+  FOR EACH ROW
+  EXECUTE FUNCTION set_forked_at();
+
+-- Counts private forks too, which the caller can't see
+CREATE OR REPLACE FUNCTION list_fork_count(p_list_id UUID)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER FROM lists WHERE forked_from = p_list_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- PLACE RESOLUTION
+-- ============================================
+-- Every pin points at a place. Mapbox places are only ever written from
+-- what Mapbox returned: the places proxy saves each place it retrieves with
+-- save_retrieved_place, and pins that arrive with a Mapbox id use it if it's
+-- there. Anything else, including Mapbox ids the proxy never retrieved, is
+-- matched by name within 100m, falling back to a new hand-dropped place, so
+-- a pin's own name and coordinates never become a Mapbox place.
+--
+-- Upgrading an existing database: create the places table above, then run
+--   ALTER TABLE pins ADD CONSTRAINT pins_place_id_fkey
+--     FOREIGN KEY (place_id) REFERENCES places(id) ON DELETE SET NULL NOT VALID;
+--   SELECT backfill_pin_places();
+--   ALTER TABLE pins VALIDATE CONSTRAINT pins_place_id_fkey;
+
+CREATE OR REPLACE FUNCTION resolve_place(
+  p_place_id TEXT,
+  p_name TEXT,
+  p_address TEXT,
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_category TEXT
+)
+RETURNS TEXT AS $$
+DECLARE
+  matched_id TEXT;
+BEGIN
+  IF p_place_id IS NOT NULL AND EXISTS (SELECT 1 FROM places WHERE id = p_place_id) THEN
+    RETURN p_place_id;
+  END IF;
+
+  SELECT places.id INTO matched_id
+  FROM places
+  WHERE lower(trim(places.name)) = lower(trim(p_name))
+    AND ST_DWithin(places.location, ST_SetSRID(ST_MakePoint(p_lng, p_lat), 4326)::geography, 100)
+  ORDER BY places.location <-> ST_SetSRID(ST_MakePoint(p_lng, p_lat), 4326)::geography
+  LIMIT 1;
+
+  IF matched_id IS NOT NULL THEN
+    RETURN matched_id;
+  END IF;
+
+  matched_id := 'manual:' || gen_random_uuid()::text;
+  INSERT INTO places (id, name, address, lat, lng, category)
+  VALUES (matched_id, p_name, p_address, p_lat, p_lng, p_category);
+  RETURN matched_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only reachable through the trigger and backfill, not as an RPC
+REVOKE EXECUTE ON FUNCTION resolve_place(TEXT, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Called by the places proxy with the service role after a retrieve. Mapbox
+-- has the final say, so a place it returns again is refreshed.
+CREATE OR REPLACE FUNCTION save_retrieved_place(
+  p_place_id TEXT,
+  p_name TEXT,
+  p_address TEXT,
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_category TEXT
+)
+RETURNS VOID AS $$
+  INSERT INTO places (id, name, address, lat, lng, category)
+  VALUES (p_place_id, p_name, p_address, p_lat, p_lng, p_category)
+  ON CONFLICT (id) DO UPDATE
+  SET name = EXCLUDED.name,
+    address = EXCLUDED.address,
+    lat = EXCLUDED.lat,
+    lng = EXCLUDED.lng,
+    category = EXCLUDED.category
+  WHERE (places.name, places.address, places.lat, places.lng, places.category)
+    IS DISTINCT FROM (EXCLUDED.name, EXCLUDED.address, EXCLUDED.lat, EXCLUDED.lng, EXCLUDED.category);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION save_retrieved_place(TEXT, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION resolve_pin_place()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.place_id := resolve_place(NEW.place_id, NEW.name, NEW.address, NEW.lat, NEW.lng, NEW.category);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER resolve_pin_place_on_write
+  BEFORE INSERT OR UPDATE OF place_id ON pins
+  FOR EACH ROW
+  EXECUTE FUNCTION resolve_pin_place();
+
+-- Links pins saved before places existed. Legacy place_id values are
+-- Mapbox ids but came from the pin, so like any other pin they're matched
+-- by name and distance, in the order they were saved, unless the proxy has
+-- since saved that place. Safe to run more than once.
+CREATE OR REPLACE FUNCTION backfill_pin_places()
+RETURNS INTEGER AS $$
+DECLARE
+  pin RECORD;
+  resolved INTEGER := 0;
+BEGIN
+  FOR pin IN
+    SELECT * FROM pins
+    WHERE pins.place_id IS NULL
+      OR NOT EXISTS (SELECT 1 FROM places WHERE places.id = pins.place_id)
+    ORDER BY pins.created_at
+  LOOP
+    UPDATE pins
+    SET place_id = resolve_place(pin.place_id, pin.name, pin.address, pin.lat, pin.lng, pin.category)
+    WHERE pins.id = pin.id;
+    resolved := resolved + 1;
+  END LOOP;
+
+  RETURN resolved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION backfill_pin_places() FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- SPATIAL QUERIES
+-- ============================================
+-- pins.location and places.location are generated from lat/lng, so writers
+-- never touch them. The pin queries run as the caller, which keeps the pins
+-- and lists policies in charge of what comes back.
+--
+-- Upgrading an existing database: enable postgis, then run
+--   ALTER TABLE places ADD COLUMN location GEOGRAPHY(Point, 4326)
+--     GENERATED ALWAYS AS (ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography) STORED;
+--   ALTER TABLE pins ADD COLUMN location GEOGRAPHY(Point, 4326)
+--     GENERATED ALWAYS AS (ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography) STORED;
+--   DROP INDEX IF EXISTS idx_pins_location;
+-- and re-run the indexes above. Databases that already have the
+-- six-argument pins_in_viewport need it dropped before the paged version
+-- below is created, or PostgREST can't pick between the overloads:
+--   DROP FUNCTION pins_in_viewport(DOUBLE PRECISION, DOUBLE PRECISION,
+--     DOUBLE PRECISION, DOUBLE PRECISION, UUID[], INTEGER);
+
+-- Pins within p_radius_m meters of a point, closest first
+CREATE OR REPLACE FUNCTION pins_within_radius(
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_radius_m DOUBLE PRECISION DEFAULT 500,
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS SETOF pins AS $$
+  SELECT pins.*
+  FROM pins
+  WHERE ST_DWithin(pins.location, ST_SetSRID(ST_MakePoint(p_lng, p_lat), 4326)::geography, p_radius_m)
+  ORDER BY pins.location <-> ST_SetSRID(ST_MakePoint(p_lng, p_lat), 4326)::geography
+  LIMIT LEAST(p_limit, 500);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Pins inside a map viewport, optionally limited to a set of lists, one
+-- page at a time. The id tiebreak keeps pages stable between requests.
+-- Viewports that cross the antimeridian aren't split; NYC never needs it.
+CREATE OR REPLACE FUNCTION pins_in_viewport(
+  p_west DOUBLE PRECISION,
+  p_south DOUBLE PRECISION,
+  p_east DOUBLE PRECISION,
+  p_north DOUBLE PRECISION,
+  p_list_ids UUID[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 500,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS SETOF pins AS $$
+  SELECT pins.*
+  FROM pins
+  WHERE pins.location && ST_MakeEnvelope(p_west, p_south, p_east, p_north, 4326)::geography
+    AND (p_list_ids IS NULL OR pins.list_id = ANY(p_list_ids))
+  ORDER BY pins.created_at DESC, pins.id
+  LIMIT LEAST(p_limit, 1000) OFFSET p_offset;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- The k closest places that someone can see a pin for, with their distance
+-- and how many visible pins point at them
+CREATE OR REPLACE FUNCTION nearest_places(
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_k INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  place_id TEXT,
+  name TEXT,
+  address TEXT,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  category TEXT,
+  distance_m DOUBLE PRECISION,
+  save_count BIGINT
+) AS $$
+  WITH origin AS (
+    SELECT ST_SetSRID(ST_MakePoint(p_lng, p_lat), 4326)::geography AS point
+  )
+  SELECT
+    places.id,
+    places.name,
+    places.address,
+    places.lat,
+    places.lng,
+    places.category,
+    ST_Distance(places.location, origin.point),
+    (SELECT COUNT(*) FROM pins WHERE pins.place_id = places.id)
+  FROM places, origin
+  WHERE EXISTS (SELECT 1 FROM pins WHERE pins.place_id = places.id)
+  ORDER BY places.location <-> origin.point
+  LIMIT LEAST(p_k, 50);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- ============================================
+-- TRENDING
+-- ============================================
+-- Windows are rolling ('today' = last 24 hours) so the current window and
+-- the one before it are always the same length. Velocity is the relative
+-- change between the two: 1.0 means twice as many saves as last period.
+-- Only public lists on public accounts count, so everyone sees the same
+-- rankings.
+
+CREATE OR REPLACE FUNCTION trending_window_span(p_window TEXT)
+RETURNS INTERVAL AS $$
+  SELECT CASE p_window
+    WHEN 'today' THEN INTERVAL '1 day'
+    WHEN 'week' THEN INTERVAL '7 days'
+    WHEN 'month' THEN INTERVAL '30 days'
+    ELSE NULL -- 'all'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- pin_id is a representative pin for the place: best rated, then newest.
+CREATE OR REPLACE FUNCTION get_trending_spots(
+  p_window TEXT DEFAULT 'week',
+  p_sort TEXT DEFAULT 'saves', -- 'saves' | 'velocity'
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  place_id TEXT,
+  pin_id UUID,
+  save_count BIGINT,
+  previous_count BIGINT,
+  saves_today BIGINT,
+  total_saves BIGINT,
+  avg_rating NUMERIC,
+  velocity NUMERIC
+) AS $$
+  WITH public_pins AS (
+    SELECT
+      pins.id,
+      pins.personal_rating,
+      pins.created_at,
+      pins.place_id
+    FROM pins
+    JOIN lists ON lists.id = pins.list_id
+    JOIN profiles ON profiles.id = lists.user_id
+    WHERE lists.is_public = true
+    AND NOT profiles.is_private
+    AND pins.place_id IS NOT NULL
+  ),
+  place_stats AS (
+    SELECT
+      p.place_id,
+      COUNT(*) FILTER (
+        WHERE trending_window_span(p_window) IS NULL
+        OR p.created_at >= NOW() - trending_window_span(p_window)
+      ) AS save_count,
+      COUNT(*) FILTER (
+        WHERE p.created_at >= NOW() - 2 * trending_window_span(p_window)
+        AND p.created_at < NOW() - trending_window_span(p_window)
+      ) AS previous_count,
+      COUNT(*) FILTER (WHERE p.created_at >= NOW() - INTERVAL '1 day') AS saves_today,
+      COUNT(*) AS total_saves,
+      ROUND(AVG(p.personal_rating), 1) AS avg_rating
+    FROM public_pins p
+    GROUP BY p.place_id
+  ),
+  representatives AS (
+    SELECT DISTINCT ON (p.place_id) p.place_id, p.id AS pin_id
+    FROM public_pins p
+    ORDER BY p.place_id, p.personal_rating DESC NULLS LAST, p.created_at DESC
+  ),
+  ranked AS (
+    SELECT
+      s.place_id,
+      r.pin_id,
+      s.save_count,
+      s.previous_count,
+      s.saves_today,
+      s.total_saves,
+      s.avg_rating,
+      CASE
+        WHEN trending_window_span(p_window) IS NULL THEN NULL
+        ELSE ROUND((s.save_count - s.previous_count)::numeric / GREATEST(s.previous_count, 1), 2)
+      END AS velocity
+    FROM place_stats s
+    JOIN representatives r ON r.place_id = s.place_id
+    WHERE s.save_count > 0
+  )
+  SELECT *
+  FROM ranked
+  ORDER BY
+    CASE WHEN p_sort = 'velocity' THEN ranked.velocity END DESC NULLS LAST,
+    ranked.save_count DESC,
+    ranked.avg_rating DESC NULLS LAST,
+    ranked.place_id
+  LIMIT p_limit
+  OFFSET p_offset;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Public lists ranked by pins added during the window
+CREATE OR REPLACE FUNCTION get_trending_lists(
+  p_window TEXT DEFAULT 'week',
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  list_id UUID,
+  pins_count BIGINT,
+  recent_pins BIGINT,
+  likes_count BIGINT
+) AS $$
+  SELECT
+    lists.id AS list_id,
+    COUNT(pins.id) AS pins_count,
+    COUNT(pins.id) FILTER (
+      WHERE trending_window_span(p_window) IS NULL
+      OR pins.created_at >= NOW() - trending_window_span(p_window)
+    ) AS recent_pins,
+    (SELECT COUNT(*) FROM list_likes WHERE list_likes.list_id = lists.id) AS likes_count
+  FROM lists
+  JOIN profiles ON profiles.id = lists.user_id
+  LEFT JOIN pins ON pins.list_id = lists.id
+  WHERE lists.is_public = true
+  AND NOT profiles.is_private
+  GROUP BY lists.id
+  HAVING COUNT(pins.id) > 0
+  ORDER BY recent_pins DESC, pins_count DESC, likes_count DESC, lists.id
+  LIMIT p_limit
+  OFFSET p_offset;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Users with at least one public list, ranked by followers gained during the window
+CREATE OR REPLACE FUNCTION get_trending_users(
+  p_window TEXT DEFAULT 'week',
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  user_id UUID,
+  followers_count BIGINT,
+  new_followers BIGINT,
+  lists_count BIGINT
+) AS $$
+  WITH public_list_counts AS (
+    SELECT lists.user_id, COUNT(*) AS lists_count
+    FROM lists
+    JOIN profiles ON profiles.id = lists.user_id
+    WHERE lists.is_public = true
+    AND NOT profiles.is_private
+    GROUP BY lists.user_id
+  ),
+  follower_counts AS (
+    SELECT
+      follows.following_id AS user_id,
+      COUNT(*) AS followers_count,
+      COUNT(*) FILTER (
+        WHERE trending_window_span(p_window) IS NULL
+        OR follows.created_at >= NOW() - trending_window_span(p_window)
+      ) AS new_followers
+    FROM follows
+    GROUP BY follows.following_id
+  )
+  SELECT
+    l.user_id,
+    COALESCE(f.followers_count, 0) AS followers_count,
+    COALESCE(f.new_followers, 0) AS new_followers,
+    l.lists_count
+  FROM public_list_counts l
+  LEFT JOIN follower_counts f ON f.user_id = l.user_id
+  ORDER BY new_followers DESC, followers_count DESC, l.lists_count DESC, l.user_id
+  LIMIT p_limit
+  OFFSET p_offset;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- RECOMMENDATIONS
+-- ============================================
+-- Places to try, from people whose saves and ratings overlap with yours.
+-- Only public lists on public accounts are read, as for TRENDING, plus your
+-- own pins.
+--
+-- Taste similarity with someone adds up, over the places you've both saved,
+-- 1 - |your rating - theirs| / 4 when you both rated it and 0.5 when one of
+-- you didn't, divided by the square root of both people's place counts so
+-- prolific savers don't outvote everyone. The 50 most similar people then
+-- vote for the places they rated 4 or 5 that you haven't saved, a 5 counting
+-- double, each vote weighted by their similarity. Everything is computed
+-- from pins and ties break on ids, so the same pins always give the same
+-- suggestions.
+--
+-- Upgrading an existing database: run this section as-is.
+
+-- pin_id is the best rated pin among the people recommending the place,
+-- the most similar person's first. recommenders counts the people voting.
+CREATE OR REPLACE FUNCTION get_recommended_places(
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  place_id TEXT,
+  pin_id UUID,
+  score NUMERIC,
+  recommenders BIGINT,
+  five_star_count BIGINT,
+  avg_rating NUMERIC
+) AS $$
+  WITH my_places AS (
+    SELECT pins.place_id, MAX(pins.personal_rating) AS rating
+    FROM pins
+    WHERE pins.user_id = auth.uid()
+    AND pins.place_id IS NOT NULL
+    GROUP BY pins.place_id
+  ),
+  public_pins AS (
+    SELECT
+      pins.id,
+      pins.user_id,
+      pins.place_id,
+      pins.personal_rating,
+      pins.created_at
+    FROM pins
+    JOIN lists ON lists.id = pins.list_id
+    JOIN profiles ON profiles.id = lists.user_id
+    WHERE lists.is_public = true
+    AND NOT profiles.is_private
+    AND pins.place_id IS NOT NULL
+    AND pins.user_id <> auth.uid()
+  ),
+  their_places AS (
+    SELECT p.user_id, p.place_id, MAX(p.personal_rating) AS rating
+    FROM public_pins p
+    GROUP BY p.user_id, p.place_id
+  ),
+  place_counts AS (
+    SELECT t.user_id, COUNT(*) AS places
+    FROM their_places t
+    GROUP BY t.user_id
+  ),
+  overlap AS (
+    SELECT
+      t.user_id,
+      CASE
+        WHEN t.rating IS NOT NULL AND m.rating IS NOT NULL THEN 1 - ABS(t.rating - m.rating) / 4.0
+        ELSE 0.5
+      END AS agreement
+    FROM their_places t
+    JOIN my_places m ON m.place_id = t.place_id
+  ),
+  neighbors AS (
+    SELECT
+      o.user_id,
+      SUM(o.agreement) / SQRT(c.places * (SELECT COUNT(*) FROM my_places))::numeric AS similarity
+    FROM overlap o
+    JOIN place_counts c ON c.user_id = o.user_id
+    GROUP BY o.user_id, c.places
+    HAVING SUM(o.agreement) > 0
+    ORDER BY similarity DESC, o.user_id
+    LIMIT 50
+  ),
+  votes AS (
+    SELECT t.place_id, t.user_id, t.rating, n.similarity
+    FROM their_places t
+    JOIN neighbors n ON n.user_id = t.user_id
+    WHERE t.rating >= 4
+    AND NOT EXISTS (SELECT 1 FROM my_places m WHERE m.place_id = t.place_id)
+  ),
+  representatives AS (
+    SELECT DISTINCT ON (p.place_id) p.place_id, p.id AS pin_id
+    FROM public_pins p
+    JOIN votes v ON v.place_id = p.place_id AND v.user_id = p.user_id AND v.rating = p.personal_rating
+    ORDER BY p.place_id, p.personal_rating DESC, v.similarity DESC, p.created_at DESC, p.id
+  )
+  SELECT
+    v.place_id,
+    r.pin_id,
+    ROUND(SUM(v.similarity * (v.rating - 3)), 4) AS score,
+    COUNT(*) AS recommenders,
+    COUNT(*) FILTER (WHERE v.rating = 5) AS five_star_count,
+    ROUND(AVG(v.rating), 1) AS avg_rating
+  FROM votes v
+  JOIN representatives r ON r.place_id = v.place_id
+  GROUP BY v.place_id, r.pin_id
+  ORDER BY score DESC, recommenders DESC, v.place_id
+  LIMIT p_limit
+  OFFSET p_offset;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- TASTE COMPATIBILITY
+-- ============================================
+-- How much your taste overlaps with other people's, from the pins of theirs
+-- you can see (so private accounts only count for their followers).
+--
+-- Three parts, each between 0 and 1:
+--   places      places you've both saved / the smaller of your place counts
+--   ratings     the average of 1 - |your rating - theirs| / 4 over shared
+--               places you both rated
+--   categories  cosine similarity of how many places each of you saved per
+--               category (the first one listed on the place)
+-- The score is 40% places, 40% ratings and 20% categories, as a percentage.
+-- A part that can't be computed (nothing rated in common, no categories) is
+-- left out and the others are weighted up to make 100%.
+--
+-- Upgrading an existing database: run this section as-is.
+
+-- One row per user in p_user_ids who has pins you can see, as long as you
+-- have pins yourself
+CREATE OR REPLACE FUNCTION get_taste_compatibility(p_user_ids UUID[])
+RETURNS TABLE (
+  user_id UUID,
+  score INTEGER,
+  shared_places BIGINT,
+  place_overlap NUMERIC,
+  rating_agreement NUMERIC,
+  category_overlap NUMERIC
+) AS $$
+  WITH my_places AS (
+    SELECT pins.place_id, MAX(pins.personal_rating) AS rating
+    FROM pins
+    WHERE pins.user_id = auth.uid()
+    AND pins.place_id IS NOT NULL
+    GROUP BY pins.place_id
+  ),
+  their_places AS (
+    SELECT pins.user_id, pins.place_id, MAX(pins.personal_rating) AS rating
+    FROM pins
+    WHERE pins.user_id = ANY(p_user_ids)
+    AND pins.user_id <> auth.uid()
+    AND pins.place_id IS NOT NULL
+    AND can_view_list(pins.list_id)
+    GROUP BY pins.user_id, pins.place_id
+  ),
+  place_parts AS (
+    SELECT
+      t.user_id,
+      COUNT(m.place_id) AS shared,
+      COUNT(m.place_id)::numeric / LEAST(COUNT(*), (SELECT COUNT(*) FROM my_places)) AS places,
+      -- NULL unless both of you rated it
+      AVG(1 - ABS(t.rating - m.rating) / 4.0) AS ratings
+    FROM their_places t
+    LEFT JOIN my_places m ON m.place_id = t.place_id
+    GROUP BY t.user_id
+  ),
+  my_categories AS (
+    SELECT LOWER(TRIM(SPLIT_PART(places.category, ',', 1))) AS category, COUNT(*) AS place_count
+    FROM my_places m
+    JOIN places ON places.id = m.place_id
+    WHERE TRIM(SPLIT_PART(places.category, ',', 1)) <> ''
+    GROUP BY 1
+  ),
+  their_categories AS (
+    SELECT t.user_id, LOWER(TRIM(SPLIT_PART(places.category, ',', 1))) AS category, COUNT(*) AS place_count
+    FROM their_places t
+    JOIN places ON places.id = t.place_id
+    WHERE TRIM(SPLIT_PART(places.category, ',', 1)) <> ''
+    GROUP BY 1, 2
+  ),
+  category_parts AS (
+    SELECT
+      t.user_id,
+      SUM(t.place_count * COALESCE(m.place_count, 0))
+        / (SQRT(SUM(t.place_count * t.place_count)) * (SELECT SQRT(SUM(place_count * place_count)) FROM my_categories))::numeric
+        AS categories
+    FROM their_categories t
+    LEFT JOIN my_categories m ON m.category = t.category
+    GROUP BY t.user_id
+  )
+  SELECT
+    p.user_id,
+    ROUND(
+      100 * (0.4 * p.places + COALESCE(0.4 * p.ratings, 0) + COALESCE(0.2 * c.categories, 0))
+      / (0.4 + CASE WHEN p.ratings IS NULL THEN 0 ELSE 0.4 END + CASE WHEN c.categories IS NULL THEN 0 ELSE 0.2 END)
+    )::INTEGER AS score,
+    p.shared AS shared_places,
+    ROUND(p.places, 2) AS place_overlap,
+    ROUND(p.ratings, 2) AS rating_agreement,
+    ROUND(c.categories, 2) AS category_overlap
+  FROM place_parts p
+  LEFT JOIN category_parts c ON c.user_id = p.user_id
+  WHERE EXISTS (SELECT 1 FROM my_places)
+  ORDER BY score DESC, p.user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- p_user_id's places you can see that you've saved too or that they rated 4
+-- or 5, with both ratings, for "you both love", "you disagree on" and "try
+-- next". their_pin_id is their best rated pin for the place.
+CREATE OR REPLACE FUNCTION get_taste_comparison(p_user_id UUID)
+RETURNS TABLE (
+  place_id TEXT,
+  name TEXT,
+  my_rating INTEGER,
+  their_rating INTEGER,
+  i_saved BOOLEAN,
+  i_visited BOOLEAN,
+  their_pin_id UUID,
+  their_list_id UUID
+) AS $$
+  WITH mine AS (
+    SELECT pins.place_id, MAX(pins.personal_rating) AS rating, BOOL_OR(pins.is_visited) AS visited
+    FROM pins
+    WHERE pins.user_id = auth.uid()
+    AND pins.place_id IS NOT NULL
+    GROUP BY pins.place_id
+  ),
+  theirs AS (
+    SELECT DISTINCT ON (pins.place_id)
+      pins.place_id,
+      pins.personal_rating AS rating,
+      pins.id,
+      pins.list_id
+    FROM pins
+    WHERE pins.user_id = p_user_id
+    AND p_user_id <> auth.uid()
+    AND pins.place_id IS NOT NULL
+    AND can_view_list(pins.list_id)
+    ORDER BY pins.place_id, pins.personal_rating DESC NULLS LAST, pins.created_at DESC, pins.id
+  )
+  SELECT
+    t.place_id,
+    places.name,
+    m.rating,
+    t.rating,
+    m.place_id IS NOT NULL,
+    COALESCE(m.visited, false),
+    t.id,
+    t.list_id
+  FROM theirs t
+  JOIN places ON places.id = t.place_id
+  LEFT JOIN mine m ON m.place_id = t.place_id
+  WHERE m.place_id IS NOT NULL OR t.rating >= 4
+  ORDER BY t.rating DESC NULLS LAST, places.name, t.place_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Follower and list counts for a page of people, such as follow suggestions,
+-- in one query. Runs as the caller, so only lists they can see are counted.
+CREATE OR REPLACE FUNCTION get_profile_counts(p_user_ids UUID[], p_public_lists_only BOOLEAN DEFAULT false)
+RETURNS TABLE (user_id UUID, followers_count BIGINT, lists_count BIGINT) AS $$
+  SELECT
+    ids.id,
+    (SELECT COUNT(*) FROM follows WHERE follows.following_id = ids.id),
+    (SELECT COUNT(*) FROM lists WHERE lists.user_id = ids.id AND (lists.is_public OR NOT p_public_lists_only))
+  FROM UNNEST(p_user_ids) AS ids(id);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- ============================================
+-- PERSONAL ACCESS TOKENS
+-- ============================================
+-- Credentials for the /api/v1 REST API. Only a SHA-256 hash of each token
+-- is kept; the token itself is returned once by
+-- create_personal_access_token. The API looks the token up with
+-- authenticate_personal_access_token and then queries as its owner, so the
+-- policies above decide what a token can see and change. Read tokens can
+-- only use GET endpoints; that's enforced by the API.
+--
+-- Upgrading an existing database: run this section as-is.
+CREATE TABLE IF NOT EXISTS personal_access_tokens (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  token_hash TEXT UNIQUE NOT NULL,
+  -- The start of the token, so people can tell theirs apart
+  token_prefix TEXT NOT NULL,
+  scope TEXT NOT NULL DEFAULT 'read' CHECK (scope IN ('read', 'write')),
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_personal_access_tokens_user ON personal_access_tokens(user_id);
+
+ALTER TABLE personal_access_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are created through create_personal_access_token; revoking one deletes it
+CREATE POLICY "Users can view their own tokens"
+  ON personal_access_tokens FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can revoke their own tokens"
+  ON personal_access_tokens FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION hash_access_token(p_token TEXT)
+RETURNS TEXT AS $$
+  SELECT encode(sha256(convert_to(p_token, 'UTF8')), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Returns the new token. It can't be recovered afterwards.
+CREATE OR REPLACE FUNCTION create_personal_access_token(
+  p_name TEXT,
+  p_scope TEXT DEFAULT 'read',
+  p_expires_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  new_token TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create a token';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM personal_access_tokens WHERE user_id = auth.uid()) >= 20 THEN
+    RAISE EXCEPTION 'You can have at most 20 tokens';
+  END IF;
+
+  -- Two random UUIDs give 244 random bits
+  new_token := 'nfc_' || replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+  INSERT INTO personal_access_tokens (user_id, name, token_hash, token_prefix, scope, expires_at)
+  VALUES (auth.uid(), trim(p_name), hash_access_token(new_token), left(new_token, 12), p_scope, p_expires_at);
+
+  RETURN new_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Callable without a session, since the token is the credential. Returns
+-- no rows for unknown or expired tokens. last_used_at is only touched once
+-- a minute so busy scripts don't write on every request.
+CREATE OR REPLACE FUNCTION authenticate_personal_access_token(p_token TEXT)
+RETURNS TABLE (token_id UUID, user_id UUID, scope TEXT) AS $$
+DECLARE
+  token personal_access_tokens%ROWTYPE;
+BEGIN
+  SELECT * INTO token FROM personal_access_tokens t
+  WHERE t.token_hash = hash_access_token(p_token)
+    AND (t.expires_at IS NULL OR t.expires_at > NOW());
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF token.last_used_at IS NULL OR token.last_used_at < NOW() - INTERVAL '1 minute' THEN
+    UPDATE personal_access_tokens SET last_used_at = NOW() WHERE id = token.id;
+  END IF;
+
+  RETURN QUERY SELECT token.id, token.user_id, token.scope;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- WEBHOOKS
+-- ============================================
+-- List owners can register URLs to be POSTed when something happens on a
+-- list. Triggers on pins, list_likes and lists queue a delivery per
+-- subscribed webhook; /api/webhooks/deliver claims due deliveries with
+-- claim_webhook_deliveries, signs and sends them, and reports back with
+-- record_webhook_delivery, which schedules retries with exponential
+-- backoff. Both are for the service role only.
+--
+-- Upgrading an existing database: run this section as-is.
+CREATE TABLE IF NOT EXISTS list_webhooks (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  list_id UUID REFERENCES lists(id) ON DELETE CASCADE NOT NULL,
+  url TEXT NOT NULL CHECK (url ~ '^https?://' AND char_length(url) <= 2000),
+  events TEXT[] NOT NULL CHECK (
+    cardinality(events) > 0
+    AND events <@ ARRAY['pin.added', 'pin.updated', 'pin.removed', 'pin.visited', 'list.liked', 'list.forked']
+  ),
+  -- Shared with the receiver so it can check X-Webhook-Signature
+  secret TEXT NOT NULL DEFAULT 'whsec_' || replace(gen_random_uuid()::text, '-', ''),
+  is_active BOOLEAN DEFAULT true NOT NULL,
+  created_by UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Kept after delivery as the log shown in the list settings
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  webhook_id UUID REFERENCES list_webhooks(id) ON DELETE CASCADE NOT NULL,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts INTEGER DEFAULT 0 NOT NULL,
+  next_attempt_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  response_status INTEGER,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  delivered_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_list_webhooks_list ON list_webhooks(list_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+ALTER TABLE list_webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Webhooks carry private list activity, so only the owner manages them
+CREATE POLICY "Owners can view webhooks"
+  ON list_webhooks FOR SELECT
+  USING (list_role(list_id, auth.uid()) = 'owner');
+
+CREATE POLICY "Owners can add webhooks"
+  ON list_webhooks FOR INSERT
+  WITH CHECK (list_role(list_id, auth.uid()) = 'owner' AND auth.uid() = created_by);
+
+CREATE POLICY "Owners can change webhooks"
+  ON list_webhooks FOR UPDATE
+  USING (list_role(list_id, auth.uid()) = 'owner')
+  WITH CHECK (list_role(list_id, auth.uid()) = 'owner');
+
+CREATE POLICY "Owners can remove webhooks"
+  ON list_webhooks FOR DELETE
+  USING (list_role(list_id, auth.uid()) = 'owner');
+
+-- Deliveries are only written by the functions below
+CREATE POLICY "Owners can view webhook deliveries"
+  ON webhook_deliveries FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM list_webhooks
+      WHERE list_webhooks.id = webhook_deliveries.webhook_id
+      AND list_role(list_webhooks.list_id, auth.uid()) = 'owner'
+    )
+  );
+
+-- Queues the event for every active webhook on the list that wants it.
+-- The triggers below run as the definer because the person causing the
+-- event (a liker, an editor) can't see the list's webhooks.
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(p_list_id UUID, p_event TEXT, p_payload JSONB)
+RETURNS VOID AS $$
+  INSERT INTO webhook_deliveries (webhook_id, event, payload)
+  SELECT id, p_event, p_payload
+  FROM list_webhooks
+  WHERE list_id = p_list_id AND is_active AND p_event = ANY(events);
+$$ LANGUAGE sql SET search_path = public;
+
+-- The pin as the API returns it
+CREATE OR REPLACE FUNCTION webhook_pin_payload(p_pin pins)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object('pin', to_jsonb(p_pin) - 'location');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- A move between lists is a removal from one and an addition to the other.
+-- pin.visited is sent alongside pin.updated when a pin is marked visited.
+CREATE OR REPLACE FUNCTION queue_pin_webhooks()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM enqueue_webhook_event(NEW.list_id, 'pin.added', webhook_pin_payload(NEW));
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM enqueue_webhook_event(OLD.list_id, 'pin.removed', webhook_pin_payload(OLD));
+  ELSIF NEW.list_id <> OLD.list_id THEN
+    PERFORM enqueue_webhook_event(OLD.list_id, 'pin.removed', webhook_pin_payload(OLD));
+    PERFORM enqueue_webhook_event(NEW.list_id, 'pin.added', webhook_pin_payload(NEW));
+  ELSIF to_jsonb(NEW) - 'updated_at' IS DISTINCT FROM to_jsonb(OLD) - 'updated_at' THEN
+    PERFORM enqueue_webhook_event(NEW.list_id, 'pin.updated', webhook_pin_payload(NEW));
+    IF NEW.is_visited AND NOT OLD.is_visited THEN
+      PERFORM enqueue_webhook_event(NEW.list_id, 'pin.visited', webhook_pin_payload(NEW));
+    END IF;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER queue_pin_webhooks
+  AFTER INSERT OR UPDATE OR DELETE ON pins
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_pin_webhooks();
+
+CREATE OR REPLACE FUNCTION queue_list_like_webhooks()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM enqueue_webhook_event(
+    NEW.list_id,
+    'list.liked',
+    jsonb_build_object('user', (SELECT jsonb_build_object('id', id, 'username', username) FROM profiles WHERE id = NEW.user_id))
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER queue_list_like_webhooks
+  AFTER INSERT ON list_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_list_like_webhooks();
+
+-- Sent to the upstream list. A private fork's name stays private.
+CREATE OR REPLACE FUNCTION queue_list_fork_webhooks()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM enqueue_webhook_event(
+    NEW.forked_from,
+    'list.forked',
+    jsonb_build_object('fork', jsonb_build_object(
+      'id', NEW.id,
+      'user_id', NEW.user_id,
+      'name', CASE WHEN NEW.is_public THEN NEW.name END,
+      'is_public', NEW.is_public
+    ))
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER queue_list_fork_webhooks
+  AFTER INSERT ON lists
+  FOR EACH ROW
+  WHEN (NEW.forked_from IS NOT NULL)
+  EXECUTE FUNCTION queue_list_fork_webhooks();
+
+-- Queues a ping so owners can check their receiver without waiting for
+-- real activity. Returns false if the webhook isn't theirs.
+CREATE OR REPLACE FUNCTION send_webhook_test(p_webhook_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  hook list_webhooks%ROWTYPE;
+BEGIN
+  SELECT * INTO hook FROM list_webhooks WHERE id = p_webhook_id;
+  IF NOT FOUND OR list_role(hook.list_id, auth.uid()) IS DISTINCT FROM 'owner' THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO webhook_deliveries (webhook_id, event, payload)
+  VALUES (hook.id, 'ping', jsonb_build_object('webhook_id', hook.id));
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Hands out due deliveries with the URL and secret to send them with. Each
+-- claim counts as an attempt and pushes next_attempt_at out, so a worker
+-- that dies mid-send doesn't block the delivery for good.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  id UUID,
+  webhook_id UUID,
+  list_id UUID,
+  event TEXT,
+  payload JSONB,
+  attempts INTEGER,
+  created_at TIMESTAMPTZ,
+  url TEXT,
+  secret TEXT
+) AS $$
+  WITH due AS (
+    SELECT d.id FROM webhook_deliveries d
+    JOIN list_webhooks w ON w.id = d.webhook_id
+    WHERE d.status = 'pending' AND d.next_attempt_at <= NOW() AND w.is_active
+    ORDER BY d.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE OF d SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE webhook_deliveries d
+    SET attempts = d.attempts + 1, next_attempt_at = NOW() + INTERVAL '5 minutes'
+    FROM due
+    WHERE d.id = due.id
+    RETURNING d.*
+  )
+  SELECT c.id, c.webhook_id, w.list_id, c.event, c.payload, c.attempts, c.created_at, w.url, w.secret
+  FROM claimed c
+  JOIN list_webhooks w ON w.id = c.webhook_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Records one attempt. A 2xx response delivers it; anything else is retried
+-- after 30s, 1m, 2m and so on, up to 8 attempts in about an hour.
+-- p_give_up fails it straight away, for URLs that can never work.
+CREATE OR REPLACE FUNCTION record_webhook_delivery(
+  p_id UUID,
+  p_response_status INTEGER,
+  p_error TEXT DEFAULT NULL,
+  p_give_up BOOLEAN DEFAULT false
+)
+RETURNS TEXT AS $$
+  UPDATE webhook_deliveries
+  SET
+    response_status = p_response_status,
+    last_error = CASE WHEN p_response_status BETWEEN 200 AND 299 THEN NULL ELSE left(p_error, 500) END,
+    status = CASE
+      WHEN p_response_status BETWEEN 200 AND 299 THEN 'delivered'
+      WHEN p_give_up OR attempts >= 8 THEN 'failed'
+      ELSE 'pending'
+    END,
+    delivered_at = CASE WHEN p_response_status BETWEEN 200 AND 299 THEN NOW() END,
+    next_attempt_at = NOW() + INTERVAL '30 seconds' * power(2, GREATEST(attempts - 1, 0))
+  WHERE id = p_id
+  RETURNING status;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION enqueue_webhook_event(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_webhook_delivery(UUID, INTEGER, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- NOTIFICATIONS
+-- ============================================
+-- One row per thing that happened to you: a like on your list or pin, a
+-- new follower or follow request, or someone saving your pin into their
+-- own list. Triggers write them; undoing the like or follow takes the
+-- notification back. The app groups them for display ("Sarah and 4 others
+-- liked ...").
+--
+-- pins.saved_from_pin_id records the pin a copy was saved from. Unlike
+-- source_pin_id it's set for every save, not just forks, and is only used
+-- to notify the original pin's author.
+--
+-- Upgrading an existing database: run
+--   ALTER TABLE pins ADD COLUMN saved_from_pin_id UUID;
+-- and then this section.
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('list_like', 'pin_like', 'follow', 'follow_request', 'pin_save', 'poll_invite', 'poll_result')),
+  actor_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  list_id UUID REFERENCES lists(id) ON DELETE CASCADE,
+  pin_id UUID REFERENCES pins(id) ON DELETE CASCADE,
+  -- Invitations to and results of a poll (see POLLS)
+  poll_id UUID,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- Liking, unliking and liking again doesn't notify twice
+  UNIQUE NULLS NOT DISTINCT (user_id, type, actor_id, list_id, pin_id, poll_id)
+);
+
+-- Types listed here aren't written at all
+CREATE TABLE IF NOT EXISTS notification_settings (
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE PRIMARY KEY,
+  muted_types TEXT[] DEFAULT '{}' NOT NULL CHECK (muted_types <@ ARRAY['list_like', 'pin_like', 'follow', 'follow_request', 'pin_save', 'poll_invite', 'poll_result']),
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_settings ENABLE ROW LEVEL SECURITY;
+
+-- Notifications are only written by the triggers below
+CREATE POLICY "Users can view their own notifications"
+  ON notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark their own notifications read"
+  ON notifications FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can clear their own notifications"
+  ON notifications FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own notification settings"
+  ON notification_settings FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own notification settings"
+  ON notification_settings FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification settings"
+  ON notification_settings FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_settings_updated_at
+  BEFORE UPDATE ON notification_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Skips your own actions and types you've muted
+CREATE OR REPLACE FUNCTION create_notification(
+  p_user_id UUID,
+  p_type TEXT,
+  p_actor_id UUID,
+  p_list_id UUID,
+  p_pin_id UUID
+)
+RETURNS VOID AS $$
+  INSERT INTO notifications (user_id, type, actor_id, list_id, pin_id)
+  SELECT p_user_id, p_type, p_actor_id, p_list_id, p_pin_id
+  WHERE p_user_id IS NOT NULL
+    AND p_user_id <> p_actor_id
+    AND NOT EXISTS (
+      SELECT 1 FROM notification_settings
+      WHERE user_id = p_user_id AND p_type = ANY(muted_types)
+    )
+  ON CONFLICT DO NOTHING;
+$$ LANGUAGE sql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION remove_notification(
+  p_user_id UUID,
+  p_type TEXT,
+  p_actor_id UUID,
+  p_list_id UUID,
+  p_pin_id UUID
+)
+RETURNS VOID AS $$
+  DELETE FROM notifications
+  WHERE user_id = p_user_id
+    AND type = p_type
+    AND actor_id = p_actor_id
+    AND list_id IS NOT DISTINCT FROM p_list_id
+    AND pin_id IS NOT DISTINCT FROM p_pin_id;
+$$ LANGUAGE sql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION create_notification(UUID, TEXT, UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION remove_notification(UUID, TEXT, UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- The triggers run as the definer so they can write other people's notifications
+CREATE OR REPLACE FUNCTION notify_list_like()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM create_notification((SELECT user_id FROM lists WHERE id = NEW.list_id), 'list_like', NEW.user_id, NEW.list_id, NULL);
+  ELSE
+    PERFORM remove_notification((SELECT user_id FROM lists WHERE id = OLD.list_id), 'list_like', OLD.user_id, OLD.list_id, NULL);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_list_like
+  AFTER INSERT OR DELETE ON list_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_list_like();
+
+CREATE OR REPLACE FUNCTION notify_pin_like()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM create_notification((SELECT user_id FROM pins WHERE id = NEW.pin_id), 'pin_like', NEW.user_id, NULL, NEW.pin_id);
+  ELSE
+    PERFORM remove_notification((SELECT user_id FROM pins WHERE id = OLD.pin_id), 'pin_like', OLD.user_id, NULL, OLD.pin_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_pin_like
+  AFTER INSERT OR DELETE ON pin_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_pin_like();
+
+CREATE OR REPLACE FUNCTION notify_follow()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM create_notification(NEW.following_id, 'follow', NEW.follower_id, NULL, NULL);
+  ELSE
+    PERFORM remove_notification(OLD.following_id, 'follow', OLD.follower_id, NULL, NULL);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_follow
+  AFTER INSERT OR DELETE ON follows
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_follow();
+
+-- Approving, denying or withdrawing a request all delete it, so the
+-- notification goes away once it's been dealt with
+CREATE OR REPLACE FUNCTION notify_follow_request()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM create_notification(NEW.following_id, 'follow_request', NEW.follower_id, NULL, NULL);
+  ELSE
+    PERFORM remove_notification(OLD.following_id, 'follow_request', OLD.follower_id, NULL, NULL);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_follow_request
+  AFTER INSERT OR DELETE ON follow_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_follow_request();
+
+-- Fork copies and upstream pulls aren't saves. The saver must be able to
+-- see the original, so a made-up saved_from_pin_id can't ping anyone.
+CREATE OR REPLACE FUNCTION notify_pin_save()
+RETURNS TRIGGER AS $$
+DECLARE
+  original pins%ROWTYPE;
+BEGIN
+  SELECT * INTO original FROM pins WHERE id = NEW.saved_from_pin_id;
+  IF FOUND AND can_view_list(original.list_id) THEN
+    PERFORM create_notification(original.user_id, 'pin_save', NEW.user_id, NULL, original.id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_pin_save
+  AFTER INSERT ON pins
+  FOR EACH ROW
+  WHEN (NEW.saved_from_pin_id IS NOT NULL AND NEW.source_pin_id IS NULL)
+  EXECUTE FUNCTION notify_pin_save();
+
+-- ============================================
+-- VISITS
+-- ============================================
+-- A dated check-in at a pin, with an optional rating, notes, the people who
+-- came along (visit_companions) and photos (pin_photos.visit_id). Whoever
+-- can edit a pin can log visits on it. pins.is_visited and
+-- pins.personal_rating are derived: a pin is visited once it has a visit,
+-- and its rating is that of the latest rated visit.
+--
+-- Older writers still set the two pin fields directly. A rated pin counts
+-- as visited, on insert and update alike. Marking a pin with no visits as
+-- visited, or rating it, logs a visit for today with the pin's rating, and
+-- changing the rating re-rates the latest visit; anything else is put back
+-- to what the visits say.
+--
+-- Upgrading an existing database: run
+--   ALTER TABLE pin_photos ADD COLUMN visit_id UUID;
+--   DROP POLICY "Users can add photos to their own pins" ON pin_photos;
+--   DROP POLICY "Users can delete their own pin photos" ON pin_photos;
+-- then run this section as-is. The INSERT at the end gives every pin
+-- already marked visited or rated a visit dated when the pin was last
+-- updated, carrying its rating, so no rating is lost.
+CREATE TABLE IF NOT EXISTS visits (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  pin_id UUID REFERENCES pins(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  visited_on DATE DEFAULT CURRENT_DATE NOT NULL,
+  rating INTEGER CHECK (rating >= 1 AND rating <= 5),
+  notes TEXT CHECK (char_length(notes) <= 1000),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS visit_companions (
+  visit_id UUID REFERENCES visits(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+
+  PRIMARY KEY (visit_id, user_id)
+);
+
+-- Photos outlive the visit they were taken on and stay with the pin
+ALTER TABLE pin_photos
+  ADD CONSTRAINT pin_photos_visit_id_fkey FOREIGN KEY (visit_id) REFERENCES visits(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_visits_pin ON visits(pin_id, visited_on DESC);
+CREATE INDEX IF NOT EXISTS idx_visit_companions_user ON visit_companions(user_id);
+CREATE INDEX IF NOT EXISTS idx_pin_photos_visit ON pin_photos(visit_id);
+
+ALTER TABLE visits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE visit_companions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Visits are viewable with their pin"
+  ON visits FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM pins
+      WHERE pins.id = visits.pin_id
+      AND can_view_list(pins.list_id)
+    )
+  );
+
+CREATE POLICY "Owners and editors can log visits"
+  ON visits FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM pins
+      WHERE pins.id = pin_id
+      AND can_edit_list(pins.list_id)
+    )
+  );
+
+-- Checked like a new visit, so one can't be moved onto a pin its author
+-- couldn't log it on
+CREATE POLICY "Users can edit their own visits"
+  ON visits FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM pins
+      WHERE pins.id = pin_id
+      AND can_edit_list(pins.list_id)
+    )
+  );
+
+CREATE POLICY "Authors, owners and editors can delete visits"
+  ON visits FOR DELETE
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM pins
+      WHERE pins.id = pin_id
+      AND can_edit_list(pins.list_id)
+    )
+  );
+
+CREATE POLICY "Companions are viewable with their visit"
+  ON visit_companions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM visits WHERE visits.id = visit_companions.visit_id));
+
+CREATE POLICY "Visit authors can tag companions"
+  ON visit_companions FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM visits
+      WHERE visits.id = visit_id
+      AND visits.user_id = auth.uid()
+    )
+  );
+
+-- Companions can untag themselves
+CREATE POLICY "Visit authors and companions can untag"
+  ON visit_companions FOR DELETE
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM visits
+      WHERE visits.id = visit_id
+      AND visits.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can add photos to their own pins and visits"
+  ON pin_photos FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM pins
+      WHERE pins.id = pin_id
+      AND pins.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM visits
+      WHERE visits.id = visit_id
+      AND visits.pin_id = pin_photos.pin_id
+      AND visits.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete photos from their own pins and visits"
+  ON pin_photos FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM pins
+      WHERE pins.id = pin_id
+      AND pins.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM visits
+      WHERE visits.id = visit_id
+      AND visits.user_id = auth.uid()
+    )
+  );
+
+-- Recomputes is_visited and personal_rating from the pin's visits. A pin
+-- without visits keeps no rating.
+CREATE OR REPLACE FUNCTION sync_pin_visit_fields(p_pin_id UUID)
+RETURNS VOID AS $$
+  WITH derived AS (
+    SELECT
+      EXISTS (SELECT 1 FROM visits WHERE pin_id = p_pin_id) AS is_visited,
+      (
+        SELECT rating FROM visits
+        WHERE pin_id = p_pin_id AND rating IS NOT NULL
+        ORDER BY visited_on DESC, created_at DESC
+        LIMIT 1
+      ) AS personal_rating
+  )
+  UPDATE pins
+  SET is_visited = derived.is_visited, personal_rating = derived.personal_rating
+  FROM derived
+  WHERE pins.id = p_pin_id
+    AND (pins.is_visited, pins.personal_rating) IS DISTINCT FROM (derived.is_visited, derived.personal_rating);
+$$ LANGUAGE sql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION sync_pin_visits()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM sync_pin_visit_fields(OLD.pin_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM sync_pin_visit_fields(NEW.pin_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_pin_visits
+  AFTER INSERT OR UPDATE OR DELETE ON visits
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_pin_visits();
+
+-- A rating needs a visit, so rating a pin marks it visited before it's
+-- written and log_pin_visits logs the visit
+CREATE OR REPLACE FUNCTION mark_rated_pin_visited()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.personal_rating IS NOT NULL THEN
+    NEW.is_visited := true;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER mark_rated_pin_visited
+  BEFORE INSERT OR UPDATE OF is_visited, personal_rating ON pins
+  FOR EACH ROW
+  EXECUTE FUNCTION mark_rated_pin_visited();
+
+-- Turns direct writes of the pin fields into visits. Saving a pin you
+-- already visited elsewhere (moving it, or saving it from a shared list)
+-- brings your visits along. Skipped when the write came from
+-- sync_pin_visit_fields.
+CREATE OR REPLACE FUNCTION log_pin_visits()
+RETURNS TRIGGER AS $$
+DECLARE
+  latest_visit_id UUID;
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NOT NEW.is_visited THEN
+      RETURN NULL;
+    END IF;
+
+    IF NEW.saved_from_pin_id IS NOT NULL THEN
+      INSERT INTO visits (pin_id, user_id, visited_on, rating, notes, created_at)
+      SELECT NEW.id, user_id, visited_on, rating, notes, created_at
+      FROM visits
+      WHERE pin_id = NEW.saved_from_pin_id AND user_id = NEW.user_id;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM visits WHERE pin_id = NEW.id) THEN
+      INSERT INTO visits (pin_id, user_id, rating) VALUES (NEW.id, NEW.user_id, NEW.personal_rating);
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO latest_visit_id FROM visits
+  WHERE pin_id = NEW.id
+  ORDER BY visited_on DESC, created_at DESC
+  LIMIT 1;
+
+  IF latest_visit_id IS NULL AND NEW.is_visited THEN
+    INSERT INTO visits (pin_id, user_id, rating)
+    VALUES (NEW.id, COALESCE(auth.uid(), NEW.user_id), NEW.personal_rating);
+  ELSIF latest_visit_id IS NOT NULL AND NEW.personal_rating IS DISTINCT FROM OLD.personal_rating THEN
+    UPDATE visits SET rating = NEW.personal_rating WHERE id = latest_visit_id;
+  ELSE
+    PERFORM sync_pin_visit_fields(NEW.id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_pin_visits
+  AFTER INSERT OR UPDATE OF is_visited, personal_rating ON pins
+  FOR EACH ROW
+  EXECUTE FUNCTION log_pin_visits();
+
+INSERT INTO visits (pin_id, user_id, visited_on, rating)
+SELECT id, user_id, updated_at::date, personal_rating
+FROM pins
+WHERE (is_visited OR personal_rating IS NOT NULL)
+  AND NOT EXISTS (SELECT 1 FROM visits WHERE visits.pin_id = pins.id);
+
+-- ============================================
+-- ITINERARIES
+-- ============================================
+-- An ordered plan for a night out: stops picked from pins on any list you
+-- can see, each with an optional planned time. A stop copies its pin's name
+-- and location when it's added, so a shared itinerary shows every stop to
+-- people who can't see the lists they came from, and keeps a stop whose pin
+-- is deleted. Public itineraries open for anyone with the link, like public
+-- lists; private accounts' only for their followers.
+--
+-- Stops are only written through save_itinerary_stops, which replaces them
+-- all at once.
+--
+-- Upgrading an existing database: run this section as-is.
+CREATE TABLE IF NOT EXISTS itineraries (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  planned_for DATE,
+  is_public BOOLEAN DEFAULT false NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS itinerary_stops (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  itinerary_id UUID REFERENCES itineraries(id) ON DELETE CASCADE NOT NULL,
+  pin_id UUID REFERENCES pins(id) ON DELETE SET NULL,
+  place_id TEXT,
+  name TEXT NOT NULL,
+  address TEXT,
+  lat DOUBLE PRECISION NOT NULL,
+  lng DOUBLE PRECISION NOT NULL,
+  position INTEGER NOT NULL,
+  planned_time TIME,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_itineraries_user ON itineraries(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_itinerary_stops_itinerary ON itinerary_stops(itinerary_id, position);
+CREATE INDEX IF NOT EXISTS idx_itinerary_stops_pin ON itinerary_stops(pin_id);
+
+CREATE TRIGGER update_itineraries_updated_at
+  BEFORE UPDATE ON itineraries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE itineraries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE itinerary_stops ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Itineraries are viewable if public or owned"
+  ON itineraries FOR SELECT
+  USING (auth.uid() = user_id OR (is_public = true AND can_see_account(user_id)));
+
+CREATE POLICY "Users can create their own itineraries"
+  ON itineraries FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own itineraries"
+  ON itineraries FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own itineraries"
+  ON itineraries FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Stops are viewable with their itinerary"
+  ON itinerary_stops FOR SELECT
+  USING (EXISTS (SELECT 1 FROM itineraries WHERE itineraries.id = itinerary_stops.itinerary_id));
+
+-- Replaces the stops of an itinerary you own. p_stops is a JSON array in
+-- order, each either {"pin_id", "planned_time"} for a pin on a list you can
+-- see, or {"stop_id", "planned_time"} to keep one of the itinerary's current
+-- stops as it was copied. Anything else is skipped. Returns false if the
+-- itinerary isn't yours.
+CREATE OR REPLACE FUNCTION save_itinerary_stops(p_itinerary_id UUID, p_stops JSONB)
+RETURNS BOOLEAN AS $$
+DECLARE
+  old_ids UUID[];
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM itineraries WHERE id = p_itinerary_id AND user_id = auth.uid()) THEN
+    RETURN false;
+  END IF;
+
+  IF jsonb_array_length(p_stops) > 20 THEN
+    RAISE EXCEPTION 'An itinerary can have at most 20 stops';
+  END IF;
+
+  old_ids := ARRAY(SELECT id FROM itinerary_stops WHERE itinerary_id = p_itinerary_id);
+
+  INSERT INTO itinerary_stops (itinerary_id, pin_id, place_id, name, address, lat, lng, position, planned_time)
+  SELECT
+    p_itinerary_id,
+    COALESCE(kept.pin_id, pins.id),
+    COALESCE(kept.place_id, pins.place_id),
+    COALESCE(kept.name, pins.name),
+    COALESCE(kept.address, pins.address),
+    COALESCE(kept.lat, pins.lat),
+    COALESCE(kept.lng, pins.lng),
+    ROW_NUMBER() OVER (ORDER BY s.ordinality) - 1,
+    NULLIF(s.stop->>'planned_time', '')::TIME
+  FROM jsonb_array_elements(p_stops) WITH ORDINALITY AS s(stop, ordinality)
+  LEFT JOIN itinerary_stops kept
+    ON kept.id = (s.stop->>'stop_id')::UUID
+    AND kept.itinerary_id = p_itinerary_id
+  LEFT JOIN pins
+    ON pins.id = (s.stop->>'pin_id')::UUID
+    AND s.stop->>'stop_id' IS NULL
+    AND can_view_list(pins.list_id)
+  WHERE kept.id IS NOT NULL OR pins.id IS NOT NULL;
+
+  DELETE FROM itinerary_stops WHERE id = ANY(old_ids);
+  UPDATE itineraries SET updated_at = NOW() WHERE id = p_itinerary_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- POLLS
+-- ============================================
+-- "Where should we eat?" A poll is a handful of places picked from lists
+-- (copied into poll_options like itinerary stops) and the followers invited
+-- to decide. Each participant can vote for as many options as they like and
+-- veto one; a vetoed option can't win. Voting stops at closes_at, and
+-- close_due_polls (run every minute by /api/polls/close) records the winner
+-- and notifies everyone who took part: the option with the most votes and
+-- no veto, the earliest option on a tie, or none if nothing qualifies.
+--
+-- Upgrading an existing database: run
+--   ALTER TABLE notifications ADD COLUMN poll_id UUID;
+-- drop and re-add the notifications type checks and its unique constraint
+-- as above, then run this section and
+--   ALTER PUBLICATION supabase_realtime ADD TABLE polls, poll_votes;
+CREATE TABLE IF NOT EXISTS polls (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  creator_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  question TEXT NOT NULL CHECK (char_length(question) BETWEEN 1 AND 100),
+  closes_at TIMESTAMPTZ NOT NULL,
+  -- Set together when the poll is closed; a closed poll may have no winner
+  closed_at TIMESTAMPTZ,
+  winner_option_id UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS poll_options (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  poll_id UUID REFERENCES polls(id) ON DELETE CASCADE NOT NULL,
+  pin_id UUID REFERENCES pins(id) ON DELETE SET NULL,
+  place_id TEXT,
+  name TEXT NOT NULL,
+  address TEXT,
+  lat DOUBLE PRECISION NOT NULL,
+  lng DOUBLE PRECISION NOT NULL,
+  position INTEGER NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- The creator is a participant too
+CREATE TABLE IF NOT EXISTS poll_participants (
+  poll_id UUID REFERENCES polls(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  PRIMARY KEY (poll_id, user_id)
+);
+
+-- poll_id repeats the option's poll so Realtime can filter votes by poll
+CREATE TABLE IF NOT EXISTS poll_votes (
+  poll_id UUID REFERENCES polls(id) ON DELETE CASCADE NOT NULL,
+  option_id UUID REFERENCES poll_options(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  is_veto BOOLEAN DEFAULT false NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  PRIMARY KEY (option_id, user_id)
+);
+
+ALTER TABLE polls
+  ADD CONSTRAINT polls_winner_option_id_fkey FOREIGN KEY (winner_option_id) REFERENCES poll_options(id) ON DELETE SET NULL;
+ALTER TABLE notifications
+  ADD CONSTRAINT notifications_poll_id_fkey FOREIGN KEY (poll_id) REFERENCES polls(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_polls_due ON polls(closes_at) WHERE closed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_poll_options_poll ON poll_options(poll_id, position);
+CREATE INDEX IF NOT EXISTS idx_poll_participants_user ON poll_participants(user_id);
+CREATE INDEX IF NOT EXISTS idx_poll_votes_poll ON poll_votes(poll_id);
+-- One veto per participant
+CREATE UNIQUE INDEX IF NOT EXISTS idx_poll_votes_one_veto ON poll_votes(poll_id, user_id) WHERE is_veto;
+
+ALTER TABLE polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE poll_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE poll_votes ENABLE ROW LEVEL SECURITY;
+
+-- Reads poll_participants as the definer, so its own policy can use it
+CREATE OR REPLACE FUNCTION is_poll_participant(p_poll_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM poll_participants
+    WHERE poll_id = p_poll_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Polls are created through create_poll and closed by close_due_polls
+CREATE POLICY "Polls are viewable by their participants"
+  ON polls FOR SELECT
+  USING (is_poll_participant(id));
+
+CREATE POLICY "Creators can delete their polls"
+  ON polls FOR DELETE
+  USING (auth.uid() = creator_id);
+
+CREATE POLICY "Poll options are viewable by participants"
+  ON poll_options FOR SELECT
+  USING (is_poll_participant(poll_id));
+
+CREATE POLICY "Poll participants are viewable by each other"
+  ON poll_participants FOR SELECT
+  USING (is_poll_participant(poll_id));
+
+CREATE POLICY "Poll votes are viewable by participants"
+  ON poll_votes FOR SELECT
+  USING (is_poll_participant(poll_id));
+
+CREATE POLICY "Participants can vote while a poll is open"
+  ON poll_votes FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND is_poll_participant(poll_id)
+    AND EXISTS (
+      SELECT 1 FROM polls
+      JOIN poll_options ON poll_options.poll_id = polls.id
+      WHERE polls.id = poll_votes.poll_id
+        AND poll_options.id = poll_votes.option_id
+        AND polls.closed_at IS NULL
+        AND polls.closes_at > NOW()
+    )
+  );
+
+-- Checked like a new vote, so a vote can't be moved to another poll or to
+-- an option from a different one
+CREATE POLICY "Participants can change their vote while a poll is open"
+  ON poll_votes FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND is_poll_participant(poll_id)
+    AND EXISTS (
+      SELECT 1 FROM polls
+      JOIN poll_options ON poll_options.poll_id = polls.id
+      WHERE polls.id = poll_votes.poll_id
+        AND poll_options.id = poll_votes.option_id
+        AND polls.closed_at IS NULL
+        AND polls.closes_at > NOW()
+    )
+  );
+
+CREATE POLICY "Participants can take back their vote while a poll is open"
+  ON poll_votes FOR DELETE
+  USING (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM polls
+      WHERE polls.id = poll_votes.poll_id AND polls.closed_at IS NULL AND polls.closes_at > NOW()
+    )
+  );
+
+-- Like create_notification, for notifications about a poll. Results go to
+-- the creator too, so this doesn't skip the actor.
+CREATE OR REPLACE FUNCTION create_poll_notification(p_user_id UUID, p_type TEXT, p_actor_id UUID, p_poll_id UUID)
+RETURNS VOID AS $$
+  INSERT INTO notifications (user_id, type, actor_id, poll_id)
+  SELECT p_user_id, p_type, p_actor_id, p_poll_id
+  WHERE NOT EXISTS (
+    SELECT 1 FROM notification_settings
+    WHERE user_id = p_user_id AND p_type = ANY(muted_types)
+  )
+  ON CONFLICT DO NOTHING;
+$$ LANGUAGE sql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION create_poll_notification(UUID, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Creates a poll and returns its id. p_pin_ids are copied in order,
+-- skipping pins on lists the caller can't see and repeats; p_invitee_ids
+-- are invited if they follow the caller and skipped otherwise.
+CREATE OR REPLACE FUNCTION create_poll(
+  p_question TEXT,
+  p_closes_at TIMESTAMPTZ,
+  p_pin_ids UUID[],
+  p_invitee_ids UUID[]
+)
+RETURNS UUID AS $$
+DECLARE
+  new_poll_id UUID;
+  option_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_closes_at <= NOW() THEN
+    RAISE EXCEPTION 'A poll has to close in the future';
+  END IF;
+
+  IF cardinality(p_invitee_ids) > 50 THEN
+    RAISE EXCEPTION 'A poll can have at most 50 people invited';
+  END IF;
+
+  INSERT INTO polls (creator_id, question, closes_at)
+  VALUES (auth.uid(), p_question, p_closes_at)
+  RETURNING id INTO new_poll_id;
+
+  INSERT INTO poll_options (poll_id, pin_id, place_id, name, address, lat, lng, position)
+  SELECT new_poll_id, pins.id, pins.place_id, pins.name, pins.address, pins.lat, pins.lng,
+    ROW_NUMBER() OVER (ORDER BY picked.ordinality) - 1
+  FROM (
+    SELECT pin_id, MIN(ordinality) AS ordinality
+    FROM unnest(p_pin_ids) WITH ORDINALITY AS p(pin_id, ordinality)
+    GROUP BY pin_id
+  ) picked
+  JOIN pins ON pins.id = picked.pin_id
+  WHERE can_view_list(pins.list_id);
+
+  GET DIAGNOSTICS option_count = ROW_COUNT;
+  IF option_count < 2 THEN
+    RAISE EXCEPTION 'A poll needs at least 2 places';
+  ELSIF option_count > 10 THEN
+    RAISE EXCEPTION 'A poll can have at most 10 places';
+  END IF;
+
+  INSERT INTO poll_participants (poll_id, user_id)
+  VALUES (new_poll_id, auth.uid());
+
+  INSERT INTO poll_participants (poll_id, user_id)
+  SELECT DISTINCT new_poll_id, follows.follower_id
+  FROM follows
+  WHERE follows.following_id = auth.uid()
+    AND follows.follower_id = ANY(p_invitee_ids);
+
+  RETURN new_poll_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION notify_poll_invite()
+RETURNS TRIGGER AS $$
+DECLARE
+  poll_creator UUID;
+BEGIN
+  SELECT creator_id INTO poll_creator FROM polls WHERE id = NEW.poll_id;
+  IF NEW.user_id <> poll_creator THEN
+    PERFORM create_poll_notification(NEW.user_id, 'poll_invite', poll_creator, NEW.poll_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_poll_invite
+  AFTER INSERT ON poll_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_poll_invite();
+
+-- The option that wins if the poll closed now (see the section comment)
+CREATE OR REPLACE FUNCTION poll_winner(p_poll_id UUID)
+RETURNS UUID AS $$
+  SELECT o.id
+  FROM poll_options o
+  LEFT JOIN poll_votes v ON v.option_id = o.id
+  WHERE o.poll_id = p_poll_id
+  GROUP BY o.id, o.position
+  HAVING NOT COALESCE(bool_or(v.is_veto), false)
+    AND COUNT(v.user_id) > 0
+  ORDER BY COUNT(v.user_id) DESC, o.position
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Closes every poll past its deadline and tells its participants the
+-- result. Returns how many were closed.
+CREATE OR REPLACE FUNCTION close_due_polls()
+RETURNS INTEGER AS $$
+DECLARE
+  due polls%ROWTYPE;
+  closed INTEGER := 0;
+BEGIN
+  FOR due IN
+    SELECT * FROM polls
+    WHERE closed_at IS NULL AND closes_at <= NOW()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE polls SET closed_at = NOW(), winner_option_id = poll_winner(due.id) WHERE id = due.id;
+
+    PERFORM create_poll_notification(p.user_id, 'poll_result', due.creator_id, due.id)
+    FROM poll_participants p
+    WHERE p.poll_id = due.id;
+
+    closed := closed + 1;
+  END LOOP;
+
+  RETURN closed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION poll_winner(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION close_due_polls() FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- REALTIME
+-- ============================================
+-- Tables the app watches over Supabase Realtime: a list's pins, like counts,
+-- the feed's new activity and a poll's votes and result. Subscribers only
+-- get changes to rows their SELECT policies allow. Deletes aren't checked
+-- against those policies and, with RLS on, carry only the primary key,
+-- which for the like and vote tables is enough to tell what was taken back.
+--
+-- Upgrading an existing database: run the statement below once; it fails
+-- if a table is already in the publication.
+
+ALTER PUBLICATION supabase_realtime ADD TABLE pins, lists, list_likes, pin_likes, polls, poll_votes;
+
 -- ============================================
 -- STORAGE BUCKETS
 -- ============================================
@@ -402,9 +2615,9 @@ CREATE POLICY "Anyone can view pin photos"
   ON storage.objects FOR SELECT
   USING (bucket_id = 'pin-photos');
 
-CREATE POLICY "Authenticated users can upload pin photos"
+CREATE POLICY "Users can upload pin photos to their own folder"
   ON storage.objects FOR INSERT
-  WITH CHECK (bucket_id = 'pin-photos' AND auth.role() = 'authenticated');
+  WITH CHECK (bucket_id = 'pin-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
 
 CREATE POLICY "Users can update their own pin photos"
   ON storage.objects FOR UPDATE
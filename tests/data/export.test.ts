@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryRepositories, loadListsForExport } from "@/lib/data";
+import type { List } from "@/types";
+
+function list(id: string): List {
+  return {
+    id,
+    user_id: "alice",
+    name: id,
+    description: null,
+    emoji_icon: "📍",
+    color: "#ff2d92",
+    is_public: false,
+    forked_from: null,
+    forked_at: null,
+    created_at: "2025-01-01T00:00:00.000Z",
+    updated_at: "2025-01-01T00:00:00.000Z",
+  };
+}
+
+describe("loading lists for export", () => {
+  it("attaches each pin's photos, oldest first", async () => {
+    const data = createMemoryRepositories({ lists: [list("pizza"), list("bagels")] }, { currentUserId: "alice" });
+    const joes = await data.pins.create({
+      user_id: "alice",
+      list_id: "pizza",
+      name: "Joe's",
+      address: "7 Carmine St",
+      lat: 40.73,
+      lng: -74,
+    });
+    await data.pins.create({
+      user_id: "alice",
+      list_id: "bagels",
+      name: "Russ & Daughters",
+      address: "179 E Houston St",
+      lat: 40.72,
+      lng: -73.99,
+    });
+    data.tables.pin_photos.push(
+      { id: "b", pin_id: joes!.id, url: "https://cdn.test/b.jpg", visit_id: null, created_at: "2025-03-02T00:00:00.000Z" },
+      { id: "a", pin_id: joes!.id, url: "https://cdn.test/a.jpg", visit_id: null, created_at: "2025-03-01T00:00:00.000Z" }
+    );
+
+    const exported = await loadListsForExport(data, [list("pizza"), list("bagels")]);
+
+    expect(exported.map(({ list, pins }) => [list.id, pins.map((p) => p.name)])).toEqual([
+      ["pizza", ["Joe's"]],
+      ["bagels", ["Russ & Daughters"]],
+    ]);
+    expect(exported[0].pins[0].photos?.map((p) => p.id)).toEqual(["a", "b"]);
+    expect(exported[1].pins[0].photos).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryRepositories, importPlaces, type MemoryRepositories } from "@/lib/data";
+import type { ImportedPlace } from "@/lib/import";
+
+function place(row: number, fields: Partial<ImportedPlace> = {}): ImportedPlace {
+  return { row, name: `Spot ${row}`, address: null, lat: 40.7 + row / 1000, lng: -73.9, notes: null, place_id: null, ...fields };
+}
+
+let data: MemoryRepositories;
+
+beforeEach(() => {
+  data = createMemoryRepositories(
+    {
+      lists: [
+        {
+          id: "imported",
+          user_id: "alice",
+          name: "Imported",
+          description: null,
+          emoji_icon: "📥",
+          color: "#2dd4bf",
+          is_public: false,
+          forked_from: null,
+          forked_at: null,
+          created_at: "2025-01-01T00:00:00.000Z",
+          updated_at: "2025-01-01T00:00:00.000Z",
+        },
+      ],
+    },
+    { currentUserId: "alice" }
+  );
+});
+
+describe("importing places", () => {
+  it("adds every place as a pin and reports progress per batch", async () => {
+    const places = Array.from({ length: 120 }, (_, i) => place(i + 1));
+    const progress: number[] = [];
+
+    const result = await importPlaces(data, places, {
+      listId: "imported",
+      userId: "alice",
+      onProgress: (done) => progress.push(done),
+    });
+
+    expect(result).toEqual({ imported: 120, failed: [] });
+    expect(progress).toEqual([50, 100, 120]);
+    expect(await data.pins.listByList("imported")).toHaveLength(120);
+  });
+
+  it("keeps notes and fills in a missing address with the coordinates", async () => {
+    await importPlaces(data, [place(1, { lat: 40.73061, lng: -73.99031, notes: "Cash only" })], {
+      listId: "imported",
+      userId: "alice",
+    });
+
+    const [pin] = await data.pins.listByList("imported");
+    expect(pin).toMatchObject({
+      user_id: "alice",
+      name: "Spot 1",
+      address: "40.73061, -73.99031",
+      personal_notes: "Cash only",
+      is_visited: false,
+    });
+  });
+
+  it("retries a failed batch row by row and reports the rows that still fail", async () => {
+    vi.spyOn(data.pins, "createMany").mockResolvedValue(false);
+    const create = data.pins.create.bind(data.pins);
+    vi.spyOn(data.pins, "create").mockImplementation(async (pin) => (pin.name === "Bad" ? null : create(pin)));
+
+    const result = await importPlaces(data, [place(1), place(2, { name: "Bad" }), place(3)], {
+      listId: "imported",
+      userId: "alice",
+    });
+
+    expect(result.imported).toBe(2);
+    expect(result.failed.map((p) => p.row)).toEqual([2]);
+    expect(await data.pins.listByList("imported")).toHaveLength(2);
+  });
+});
@@ -0,0 +1,227 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  createMemoryRepositories,
+  getUpstreamChanges,
+  pullUpstreamChanges,
+  savePinsToList,
+  type MemoryRepositories,
+} from "@/lib/data";
+import type { ListRow, PinRow, ProfileRow } from "@/lib/data";
+
+const CREATED = "2025-01-01T00:00:00.000Z";
+
+function profile(id: string): ProfileRow {
+  return { id, username: id, display_name: null, avatar_url: null, bio: null, is_private: false, created_at: CREATED };
+}
+
+function list(id: string, userId: string, fields: Partial<ListRow> = {}): ListRow {
+  return {
+    id,
+    user_id: userId,
+    name: id,
+    description: null,
+    emoji_icon: "📍",
+    color: "#ff2d92",
+    is_public: true,
+    forked_from: null,
+    forked_at: null,
+    created_at: CREATED,
+    updated_at: CREATED,
+    ...fields,
+  };
+}
+
+function pin(id: string, listId: string, userId: string, fields: Partial<PinRow> = {}): PinRow {
+  return {
+    id,
+    list_id: listId,
+    user_id: userId,
+    place_id: `place-${id}`,
+    name: id,
+    address: "1 Test St",
+    lat: 40.7128,
+    lng: -74.006,
+    location: null,
+    category: "restaurant",
+    personal_rating: 5,
+    personal_notes: "Get the square slice",
+    is_visited: true,
+    source_pin_id: null,
+    saved_from_pin_id: null,
+    created_at: CREATED,
+    updated_at: CREATED,
+    ...fields,
+  };
+}
+
+let data: MemoryRepositories;
+
+beforeEach(() => {
+  data = createMemoryRepositories({
+    profiles: [profile("alice"), profile("bob")],
+    lists: [
+      list("pizza", "alice", { name: "Pizza", description: "Best slices" }),
+      list("later", "alice"),
+      list("bobs", "bob"),
+    ],
+    pins: [pin("joes", "pizza", "alice"), pin("lucali", "pizza", "alice")],
+  });
+});
+
+describe("forking a list", () => {
+  it("creates a public fork owned by the forker with every pin", async () => {
+    const source = (await data.lists.getById("pizza"))!;
+    const fork = await data.lists.fork(source, "bob");
+
+    expect(fork).toMatchObject({
+      user_id: "bob",
+      name: "Pizza",
+      description: "Best slices",
+      is_public: true,
+      forked_from: "pizza",
+    });
+    expect(fork!.forked_at).not.toBeNull();
+
+    const copied = await data.pins.listByList(fork!.id);
+    expect(copied.map((p) => p.place_id).sort()).toEqual(["place-joes", "place-lucali"]);
+    expect(copied.map((p) => p.source_pin_id).sort()).toEqual(["joes", "lucali"]);
+    expect(copied.every((p) => p.user_id === "bob")).toBe(true);
+  });
+
+  it("resets visited, notes and rating on the copies", async () => {
+    const source = (await data.lists.getById("pizza"))!;
+    const fork = await data.lists.fork(source, "bob");
+
+    for (const p of await data.pins.listByList(fork!.id)) {
+      expect(p).toMatchObject({ is_visited: false, personal_notes: null, personal_rating: null });
+    }
+  });
+
+  it("leaves the original list untouched and counts the fork", async () => {
+    const source = (await data.lists.getById("pizza"))!;
+    await data.lists.fork(source, "bob");
+
+    expect(await data.pins.listByList("pizza")).toHaveLength(2);
+    expect(await data.lists.countForks("pizza")).toBe(1);
+  });
+});
+
+describe("pulling upstream changes into a fork", () => {
+  async function forkPizza() {
+    return (await data.lists.fork((await data.lists.getById("pizza"))!, "bob"))!;
+  }
+
+  async function addUpstreamPin(name: string, placeId: string) {
+    return (await data.pins.create({
+      user_id: "alice",
+      list_id: "pizza",
+      place_id: placeId,
+      name,
+      address: "2 Test St",
+      lat: 40.7,
+      lng: -74.0,
+    }))!;
+  }
+
+  it("has nothing to pull right after forking", async () => {
+    const fork = await forkPizza();
+    expect(await getUpstreamChanges(data, fork)).toMatchObject({ added: [], removed: [] });
+  });
+
+  it("is not offered for lists that aren't forks", async () => {
+    expect(await getUpstreamChanges(data, (await data.lists.getById("pizza"))!)).toBeNull();
+  });
+
+  it("finds pins added and removed upstream since the fork", async () => {
+    const fork = await forkPizza();
+    await addUpstreamPin("Scarr's", "place-scarrs");
+    await data.pins.delete("joes");
+
+    const changes = await getUpstreamChanges(data, fork);
+    expect(changes!.added.map((p) => p.name)).toEqual(["Scarr's"]);
+    expect(changes!.removed.map((p) => p.source_pin_id)).toEqual(["joes"]);
+  });
+
+  it("finds older pins moved into the source after the fork", async () => {
+    const older = (await data.pins.create({
+      user_id: "alice",
+      list_id: "later",
+      place_id: "place-scarrs",
+      name: "Scarr's",
+      address: "2 Test St",
+      lat: 40.7,
+      lng: -74.0,
+    }))!;
+    const fork = await forkPizza();
+    await data.pins.update(older.id, { list_id: "pizza" });
+
+    expect((await getUpstreamChanges(data, fork))!.added.map((p) => p.id)).toEqual([older.id]);
+  });
+
+  it("skips upstream additions the fork already has a pin for", async () => {
+    const fork = await forkPizza();
+    await addUpstreamPin("Scarr's", "place-scarrs");
+    await data.pins.create({
+      user_id: "bob",
+      list_id: fork.id,
+      place_id: "place-scarrs",
+      name: "Scarr's Pizza",
+      address: "2 Test St",
+      lat: 40.7,
+      lng: -74.0,
+    });
+
+    expect((await getUpstreamChanges(data, fork))!.added).toEqual([]);
+  });
+
+  it("applies only the selected changes", async () => {
+    const fork = await forkPizza();
+    const scarrs = await addUpstreamPin("Scarr's", "place-scarrs");
+    await addUpstreamPin("L'Industrie", "place-lindustrie");
+    await data.pins.delete("joes");
+
+    const changes = (await getUpstreamChanges(data, fork))!;
+    await pullUpstreamChanges(data, fork, { added: [scarrs], removed: changes.removed }, "bob");
+
+    const names = (await data.pins.listByList(fork.id)).map((p) => p.name).sort();
+    expect(names).toEqual(["Scarr's", "lucali"]);
+
+    const remaining = (await getUpstreamChanges(data, fork))!;
+    expect(remaining.added.map((p) => p.name)).toEqual(["L'Industrie"]);
+    expect(remaining.removed).toEqual([]);
+  });
+});
+
+describe("saving selected pins to another list", () => {
+  it("keeps the owner's personal fields when they copy their own pins", async () => {
+    const pins = await data.pins.listByList("pizza");
+    await savePinsToList(data, pins, { listId: "later", userId: "alice", canEdit: true });
+
+    const saved = await data.pins.listByList("later");
+    expect(saved).toHaveLength(2);
+    for (const p of saved) {
+      expect(p).toMatchObject({ is_visited: true, personal_notes: "Get the square slice", personal_rating: 5 });
+    }
+    expect(await data.pins.listByList("pizza")).toHaveLength(2);
+  });
+
+  it("removes the originals when the owner moves them", async () => {
+    const pins = await data.pins.listByList("pizza");
+    await savePinsToList(data, pins, { listId: "later", userId: "alice", canEdit: true, move: true });
+
+    expect(await data.pins.listByList("pizza")).toEqual([]);
+    expect(await data.pins.listByList("later")).toHaveLength(2);
+  });
+
+  it("gives other users fresh copies and never deletes the originals", async () => {
+    const pins = await data.pins.listByList("pizza");
+    await savePinsToList(data, pins, { listId: "bobs", userId: "bob", canEdit: false, move: true });
+
+    const saved = await data.pins.listByList("bobs");
+    expect(saved).toHaveLength(2);
+    for (const p of saved) {
+      expect(p).toMatchObject({ user_id: "bob", is_visited: false, personal_notes: null, personal_rating: null });
+    }
+    expect(await data.pins.listByList("pizza")).toHaveLength(2);
+  });
+});
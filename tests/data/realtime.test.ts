@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryRepositories, type ActivityEvent, type LikeChange, type PinChange } from "@/lib/data";
+import type { ListRow } from "@/lib/data";
+
+const CREATED = "2025-01-01T00:00:00.000Z";
+
+function list(id: string, userId: string, fields: Partial<ListRow> = {}): ListRow {
+  return {
+    id,
+    user_id: userId,
+    name: id,
+    description: null,
+    emoji_icon: "📍",
+    color: "#ff2d92",
+    is_public: true,
+    forked_from: null,
+    forked_at: null,
+    created_at: CREATED,
+    updated_at: CREATED,
+    ...fields,
+  };
+}
+
+const newPin = (listId: string, userId: string) => ({
+  list_id: listId,
+  user_id: userId,
+  name: "Joe's Pizza",
+  address: "7 Carmine St",
+  lat: 40.73,
+  lng: -74.0,
+});
+
+describe("realtime subscriptions", () => {
+  it("report pin changes on a list until unsubscribed", async () => {
+    const data = createMemoryRepositories({ lists: [list("pizza", "alice"), list("tacos", "alice")] });
+    const changes: PinChange[] = [];
+    const unsubscribe = data.realtime.subscribeToPins("pizza", (change) => changes.push(change));
+
+    const pin = (await data.pins.create(newPin("pizza", "bob")))!;
+    await data.pins.create(newPin("tacos", "bob"));
+    await data.pins.update(pin.id, { is_visited: true });
+    await data.pins.delete(pin.id);
+    unsubscribe();
+    await data.pins.create(newPin("pizza", "bob"));
+
+    expect(changes.map((c) => c.type)).toEqual(["insert", "update", "delete"]);
+    expect(changes[1]).toMatchObject({ pin: { id: pin.id, is_visited: true } });
+    expect(changes[1]).not.toHaveProperty("pin.location");
+  });
+
+  it("tell the old list a pin moved out of it", async () => {
+    const data = createMemoryRepositories({ lists: [list("pizza", "alice"), list("tacos", "alice")] });
+    const pin = (await data.pins.create(newPin("pizza", "alice")))!;
+    const pizza: PinChange[] = [];
+    const tacos: PinChange[] = [];
+    data.realtime.subscribeToPins("pizza", (change) => pizza.push(change));
+    data.realtime.subscribeToPins("tacos", (change) => tacos.push(change));
+
+    await data.pins.update(pin.id, { list_id: "tacos" });
+
+    expect(pizza).toEqual([{ type: "delete", id: pin.id }]);
+    expect(tacos).toMatchObject([{ type: "update", pin: { id: pin.id, list_id: "tacos" } }]);
+  });
+
+  it("report likes, including your own", async () => {
+    const data = createMemoryRepositories({ lists: [list("pizza", "alice")] });
+    const changes: LikeChange[] = [];
+    data.realtime.subscribeToLikes({ type: "list", id: "pizza" }, (change) => changes.push(change));
+
+    await data.likes.like({ type: "list", id: "pizza" }, "bob");
+    await data.likes.like({ type: "pin", id: "pizza" }, "bob");
+    await data.likes.unlike({ type: "list", id: "pizza" }, "bob");
+    // Not liked, so nothing changes
+    await data.likes.unlike({ type: "list", id: "pizza" }, "carol");
+
+    expect(changes).toEqual([
+      { userId: "bob", liked: true },
+      { userId: "bob", liked: false },
+    ]);
+  });
+
+  it("report new pins and public lists by followed users", async () => {
+    const data = createMemoryRepositories({ lists: [list("pizza", "alice")] });
+    const events: ActivityEvent[] = [];
+    data.realtime.subscribeToActivity(["alice"], (event) => events.push(event));
+
+    await data.pins.create(newPin("pizza", "alice"));
+    await data.pins.create(newPin("pizza", "bob"));
+    await data.lists.create({ user_id: "alice", name: "Secret", is_public: false });
+    await data.lists.create({ user_id: "alice", name: "Bagels" });
+
+    expect(events.map((e) => (e.type === "pin_added" ? e.pin.user_id : e.list.name))).toEqual(["alice", "Bagels"]);
+  });
+});
@@ -0,0 +1,93 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { asAnon, asUser, createTestDatabase, createUser, type TestDatabase, type TestUser } from "./harness";
+
+let db: TestDatabase;
+let alice: TestUser;
+let bob: TestUser;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  alice = await createUser(db, { username: "alice" });
+  bob = await createUser(db, { username: "bob" });
+});
+
+async function createToken(userId: string, name: string, scope = "read", expiresAt: string | null = null) {
+  const { rows } = await asUser(db, userId, (tx) =>
+    tx.query<{ token: string }>("SELECT create_personal_access_token($1, $2, $3) AS token", [name, scope, expiresAt])
+  );
+  return rows[0].token;
+}
+
+async function authenticate(token: string) {
+  const { rows } = await asAnon(db, (tx) =>
+    tx.query<{ token_id: string; user_id: string; scope: string }>(
+      "SELECT * FROM authenticate_personal_access_token($1)",
+      [token]
+    )
+  );
+  return rows;
+}
+
+describe("personal access tokens", () => {
+  it("returns the token once and only stores its hash", async () => {
+    const token = await createToken(alice.id, "Dashboard");
+    expect(token).toMatch(/^nfc_[0-9a-f]{64}$/);
+
+    const { rows } = await db.query<{ token_hash: string; token_prefix: string }>(
+      "SELECT token_hash, token_prefix FROM personal_access_tokens WHERE name = 'Dashboard'"
+    );
+    expect(rows[0].token_hash).not.toContain(token.slice(4));
+    expect(rows[0].token_prefix).toBe(token.slice(0, 12));
+  });
+
+  it("authenticates as the owner with the token's scope", async () => {
+    const token = await createToken(alice.id, "Bulk edits", "write");
+    expect(await authenticate(token)).toEqual([expect.objectContaining({ user_id: alice.id, scope: "write" })]);
+    expect(await authenticate(`${token}0`)).toEqual([]);
+  });
+
+  it("records when a token was last used", async () => {
+    const token = await createToken(alice.id, "Cron");
+    await authenticate(token);
+    const { rows } = await db.query<{ last_used_at: string | null }>(
+      "SELECT last_used_at FROM personal_access_tokens WHERE name = 'Cron'"
+    );
+    expect(rows[0].last_used_at).not.toBeNull();
+  });
+
+  it("rejects expired tokens", async () => {
+    const token = await createToken(alice.id, "Old", "read", "2020-01-01T00:00:00Z");
+    expect(await authenticate(token)).toEqual([]);
+  });
+
+  it("keeps tokens private to their owner, who can revoke them", async () => {
+    const token = await createToken(bob.id, "Bob's script");
+
+    const seenByAlice = await asUser(db, alice.id, (tx) =>
+      tx.query("SELECT * FROM personal_access_tokens WHERE user_id = $1", [bob.id])
+    );
+    expect(seenByAlice.rows).toEqual([]);
+
+    const deletedByAlice = await asUser(db, alice.id, (tx) =>
+      tx.query("DELETE FROM personal_access_tokens WHERE user_id = $1", [bob.id])
+    );
+    expect(deletedByAlice.affectedRows).toBe(0);
+
+    await asUser(db, bob.id, (tx) => tx.query("DELETE FROM personal_access_tokens WHERE user_id = $1", [bob.id]));
+    expect(await authenticate(token)).toEqual([]);
+  });
+
+  it("can't be created or inserted directly without a session", async () => {
+    await expect(
+      asAnon(db, (tx) => tx.query("SELECT create_personal_access_token('Anon')"))
+    ).rejects.toThrow(/Sign in/);
+    await expect(
+      asUser(db, alice.id, (tx) =>
+        tx.query(
+          "INSERT INTO personal_access_tokens (user_id, name, token_hash, token_prefix) VALUES ($1, 'Mine', 'x', 'x')",
+          [alice.id]
+        )
+      )
+    ).rejects.toThrow(/row-level security/);
+  });
+});
@@ -0,0 +1,156 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  asAnon,
+  asUser,
+  createList,
+  createPin,
+  createTestDatabase,
+  createUser,
+  type TestDatabase,
+  type TestUser,
+} from "./harness";
+
+interface Compatibility {
+  user_id: string;
+  score: number;
+  shared_places: number;
+  place_overlap: string;
+  rating_agreement: string | null;
+  category_overlap: string | null;
+}
+
+let db: TestDatabase;
+let alice: TestUser;
+let bob: TestUser;
+let carol: TestUser;
+let erin: TestUser;
+
+// Saves spots as [rating, category]; a null rating is saved but not visited
+async function seedUser(
+  username: string,
+  spots: Record<string, [number | null, string | null]>,
+  { isPrivate = false } = {}
+) {
+  const user = await createUser(db, { username });
+  if (isPrivate) await db.query("UPDATE profiles SET is_private = true WHERE id = $1", [user.id]);
+  const listId = await createList(db, user.id, { is_public: true });
+  for (const [name, [rating, category]] of Object.entries(spots)) {
+    await createPin(db, user.id, listId, { name, category, is_visited: rating !== null, personal_rating: rating });
+  }
+  return user;
+}
+
+const compatibility = (user: TestUser, others: TestUser[]) =>
+  asUser(db, user.id, (tx) =>
+    tx.query<Compatibility>(
+      `SELECT user_id, score, shared_places::int, place_overlap::text, rating_agreement::text, category_overlap::text
+       FROM get_taste_compatibility($1)`,
+      [others.map((o) => o.id)]
+    )
+  ).then(({ rows }) => rows);
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+
+  alice = await seedUser("alice", {
+    Arepa: [5, "restaurant"],
+    Bagel: [4, "cafe, bakery"],
+    Curry: [2, "restaurant"],
+    Dosa: [null, "restaurant"],
+  });
+  bob = await seedUser("bob", {
+    Arepa: [5, "restaurant"],
+    Bagel: [3, "cafe"],
+    Curry: [5, "restaurant"],
+    Dosa: [4, "restaurant"],
+    Empanada: [5, "Restaurant"],
+    Falafel: [3, "restaurant"],
+  });
+  // Not shown to anyone who can't see the list
+  await createPin(db, bob.id, await createList(db, bob.id, { is_public: false }), {
+    name: "Gyro",
+    is_visited: true,
+    personal_rating: 5,
+  });
+  carol = await seedUser("carol", { Arepa: [5, "restaurant"] }, { isPrivate: true });
+  erin = await seedUser("erin", { Hotpot: [5, null] });
+});
+
+describe("get_taste_compatibility", () => {
+  it("scores shared places, rating agreement and categories", async () => {
+    expect(await compatibility(alice, [bob, erin])).toEqual([
+      // Places: 4 shared / 4. Ratings: (1 + 0.75 + 0.25) / 3 (alice didn't
+      // rate Dosa). Categories: (3 * 5 + 1 * 1) / (sqrt(10) * sqrt(26)).
+      // 0.4 * 1 + 0.4 * 0.667 + 0.2 * 0.992 = 86.5%
+      {
+        user_id: bob.id,
+        score: 87,
+        shared_places: 4,
+        place_overlap: "1.00",
+        rating_agreement: "0.67",
+        category_overlap: "0.99",
+      },
+      // Nothing in common, and no categories to compare
+      {
+        user_id: erin.id,
+        score: 0,
+        shared_places: 0,
+        place_overlap: "0.00",
+        rating_agreement: null,
+        category_overlap: null,
+      },
+    ]);
+  });
+
+  it("only counts private accounts for their followers", async () => {
+    expect(await compatibility(alice, [carol])).toEqual([]);
+
+    await db.query("INSERT INTO follows (follower_id, following_id) VALUES ($1, $2)", [alice.id, carol.id]);
+    expect(await compatibility(alice, [carol])).toMatchObject([{ user_id: carol.id, score: 99, shared_places: 1 }]);
+    await db.query("DELETE FROM follows WHERE follower_id = $1 AND following_id = $2", [alice.id, carol.id]);
+  });
+
+  it("has nothing to compare for newcomers and signed-out visitors", async () => {
+    const newcomer = await createUser(db, { username: "newcomer" });
+    expect(await compatibility(newcomer, [bob])).toEqual([]);
+
+    const { rows } = await asAnon(db, (tx) => tx.query("SELECT * FROM get_taste_compatibility($1)", [[bob.id]]));
+    expect(rows).toEqual([]);
+  });
+});
+
+describe("get_taste_comparison", () => {
+  it("lists shared places and the ones they rated highly", async () => {
+    const { rows } = await asUser(db, alice.id, (tx) =>
+      tx.query("SELECT name, my_rating, their_rating, i_saved, i_visited FROM get_taste_comparison($1)", [bob.id])
+    );
+    // Falafel is neither shared nor loved, and Gyro is on a private list
+    expect(rows).toEqual([
+      { name: "Arepa", my_rating: 5, their_rating: 5, i_saved: true, i_visited: true },
+      { name: "Curry", my_rating: 2, their_rating: 5, i_saved: true, i_visited: true },
+      { name: "Empanada", my_rating: null, their_rating: 5, i_saved: false, i_visited: false },
+      { name: "Dosa", my_rating: null, their_rating: 4, i_saved: true, i_visited: false },
+      { name: "Bagel", my_rating: 4, their_rating: 3, i_saved: true, i_visited: true },
+    ]);
+  });
+});
+
+describe("get_profile_counts", () => {
+  it("counts followers and the lists the caller can see", async () => {
+    await db.query("INSERT INTO follows (follower_id, following_id) VALUES ($1, $2)", [erin.id, bob.id]);
+    const counts = (user: TestUser, publicOnly: boolean) =>
+      asUser(db, user.id, (tx) =>
+        tx.query("SELECT user_id, followers_count::int, lists_count::int FROM get_profile_counts($1, $2)", [
+          [bob.id, erin.id],
+          publicOnly,
+        ])
+      ).then(({ rows }) => rows);
+
+    expect(await counts(alice, false)).toEqual([
+      { user_id: bob.id, followers_count: 1, lists_count: 1 },
+      { user_id: erin.id, followers_count: 0, lists_count: 1 },
+    ]);
+    expect((await counts(bob, false))[0]).toMatchObject({ lists_count: 2 });
+    expect((await counts(bob, true))[0]).toMatchObject({ lists_count: 1 });
+  });
+});
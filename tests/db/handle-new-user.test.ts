@@ -0,0 +1,61 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { createTestDatabase, createUser, type TestDatabase } from "./harness";
+
+let db: TestDatabase;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+});
+
+async function getProfile(id: string) {
+  const { rows } = await db.query<{ username: string; display_name: string | null; avatar_url: string | null }>(
+    "SELECT username, display_name, avatar_url FROM profiles WHERE id = $1",
+    [id]
+  );
+  return rows[0];
+}
+
+describe("handle_new_user", () => {
+  it("creates a profile from the signup metadata", async () => {
+    const user = await createUser(db, {
+      username: "pizzalover",
+      full_name: "Pat Pizza",
+      avatar_url: "https://example.com/pat.png",
+    });
+
+    expect(await getProfile(user.id)).toEqual({
+      username: "pizzalover",
+      display_name: "Pat Pizza",
+      avatar_url: "https://example.com/pat.png",
+    });
+  });
+
+  it("falls back to the OAuth name for the display name", async () => {
+    const user = await createUser(db, { username: "oauthuser", name: "Olive Auth" });
+    expect((await getProfile(user.id)).display_name).toBe("Olive Auth");
+  });
+
+  it("derives a username from the user id when none is given", async () => {
+    const user = await createUser(db);
+    expect(user.username).toBe(`user_${user.id.replaceAll("-", "").slice(0, 12)}`);
+  });
+
+  it("picks a random username when the requested one is taken", async () => {
+    await createUser(db, { username: "taken" });
+    const second = await createUser(db, { username: "taken" });
+
+    expect(second.username).not.toBe("taken");
+    expect(second.username).toMatch(/^user_[0-9a-f]{12}$/);
+  });
+
+  it("keeps every username unique across repeated collisions", async () => {
+    const users = [];
+    for (let i = 0; i < 5; i++) {
+      users.push(await createUser(db, { username: "popular" }));
+    }
+
+    const usernames = users.map((u) => u.username);
+    expect(new Set(usernames).size).toBe(usernames.length);
+    expect(usernames.filter((u) => u === "popular")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,121 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { PGlite, type Transaction } from "@electric-sql/pglite";
+import { uuid_ossp } from "@electric-sql/pglite/contrib/uuid_ossp";
+import { postgis } from "@electric-sql/pglite-postgis";
+
+// Boots an in-process Postgres (PGlite) with a stand-in for the Supabase
+// auth and storage schemas, then loads supabase/schema.sql as-is. Queries
+// run as the superuser unless wrapped in asUser/asAnon, which switch to the
+// same roles and JWT claims PostgREST uses so row level security applies.
+
+const ROOT = join(__dirname, "..", "..");
+
+export type TestDatabase = PGlite;
+
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const db = new PGlite({ extensions: { uuid_ossp, postgis } });
+  await db.exec(readFileSync(join(__dirname, "supabase-shim.sql"), "utf8"));
+  await db.exec(readFileSync(join(ROOT, "supabase", "schema.sql"), "utf8"));
+  return db;
+}
+
+export interface TestUser {
+  id: string;
+  username: string;
+}
+
+// Signs a user up the way Supabase Auth does, which fires handle_new_user
+export async function createUser(
+  db: TestDatabase,
+  metadata: Record<string, string> = {}
+): Promise<TestUser> {
+  const { rows } = await db.query<{ id: string }>(
+    "INSERT INTO auth.users (raw_user_meta_data) VALUES ($1) RETURNING id",
+    [JSON.stringify(metadata)]
+  );
+  const { id } = rows[0];
+  const profile = await db.query<{ username: string }>(
+    "SELECT username FROM profiles WHERE id = $1",
+    [id]
+  );
+  return { id, username: profile.rows[0].username };
+}
+
+async function withClaims<T>(
+  db: TestDatabase,
+  role: "anon" | "authenticated",
+  claims: Record<string, string>,
+  fn: (tx: Transaction) => Promise<T>
+): Promise<T> {
+  return db.transaction(async (tx) => {
+    await tx.query("SELECT set_config('request.jwt.claims', $1, true)", [JSON.stringify(claims)]);
+    await tx.exec(`SET LOCAL ROLE ${role}`);
+    return fn(tx);
+  });
+}
+
+export function asUser<T>(
+  db: TestDatabase,
+  userId: string,
+  fn: (tx: Transaction) => Promise<T>
+): Promise<T> {
+  return withClaims(db, "authenticated", { sub: userId, role: "authenticated" }, fn);
+}
+
+export function asAnon<T>(db: TestDatabase, fn: (tx: Transaction) => Promise<T>): Promise<T> {
+  return withClaims(db, "anon", { role: "anon" }, fn);
+}
+
+// Fixtures are inserted as the superuser, bypassing RLS
+export async function createList(
+  db: TestDatabase,
+  userId: string,
+  fields: { name?: string; is_public?: boolean } = {}
+): Promise<string> {
+  const { rows } = await db.query<{ id: string }>(
+    "INSERT INTO lists (user_id, name, is_public) VALUES ($1, $2, $3) RETURNING id",
+    [userId, fields.name ?? "Test list", fields.is_public ?? true]
+  );
+  return rows[0].id;
+}
+
+export async function createPin(
+  db: TestDatabase,
+  userId: string,
+  listId: string,
+  fields: {
+    name?: string;
+    category?: string | null;
+    is_visited?: boolean;
+    personal_rating?: number | null;
+    personal_notes?: string | null;
+  } = {}
+): Promise<string> {
+  const { rows } = await db.query<{ id: string }>(
+    `INSERT INTO pins (user_id, list_id, name, address, lat, lng, is_visited, personal_rating, personal_notes, category)
+     VALUES ($1, $2, $3, '1 Test St', 40.7128, -74.006, $4, $5, $6, $7) RETURNING id`,
+    [
+      userId,
+      listId,
+      fields.name ?? "Test spot",
+      fields.is_visited ?? false,
+      fields.personal_rating ?? null,
+      fields.personal_notes ?? null,
+      fields.category ?? null,
+    ]
+  );
+  return rows[0].id;
+}
+
+export async function addMember(
+  db: TestDatabase,
+  listId: string,
+  userId: string,
+  role: "editor" | "viewer"
+): Promise<void> {
+  await db.query(
+    "INSERT INTO list_members (list_id, user_id, role, invited_by) SELECT id, $2, $3, user_id FROM lists WHERE id = $1",
+    [listId, userId, role]
+  );
+}
@@ -0,0 +1,137 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  asAnon,
+  asUser,
+  createList,
+  createPin,
+  createTestDatabase,
+  createUser,
+  type TestDatabase,
+  type TestUser,
+} from "./harness";
+
+let db: TestDatabase;
+let alice: TestUser;
+let bob: TestUser;
+let barPinId: string;
+let pizzaPinId: string;
+let secretPinId: string;
+
+async function createItinerary(userId: string, fields: { is_public?: boolean } = {}) {
+  const { rows } = await db.query<{ id: string }>(
+    "INSERT INTO itineraries (user_id, name, is_public) VALUES ($1, 'Friday crawl', $2) RETURNING id",
+    [userId, fields.is_public ?? false]
+  );
+  return rows[0].id;
+}
+
+const saveStops = (user: TestUser, itineraryId: string, stops: object[]) =>
+  asUser(db, user.id, (tx) =>
+    tx.query<{ saved: boolean }>("SELECT save_itinerary_stops($1, $2) AS saved", [
+      itineraryId,
+      JSON.stringify(stops),
+    ])
+  ).then(({ rows }) => rows[0].saved);
+
+const stopsOf = (itineraryId: string) =>
+  db
+    .query<{ id: string; pin_id: string | null; name: string; position: number; planned_time: string | null }>(
+      "SELECT id, pin_id, name, position, planned_time::text FROM itinerary_stops WHERE itinerary_id = $1 ORDER BY position",
+      [itineraryId]
+    )
+    .then(({ rows }) => rows);
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  alice = await createUser(db, { username: "alice" });
+  bob = await createUser(db, { username: "bob" });
+
+  barPinId = await createPin(db, alice.id, await createList(db, alice.id), { name: "Dive bar" });
+  pizzaPinId = await createPin(db, bob.id, await createList(db, bob.id), { name: "Late pizza" });
+  secretPinId = await createPin(db, bob.id, await createList(db, bob.id, { is_public: false }), { name: "Speakeasy" });
+});
+
+describe("save_itinerary_stops", () => {
+  it("copies pins from lists you can see, in order", async () => {
+    const itineraryId = await createItinerary(alice.id);
+
+    expect(
+      await saveStops(alice, itineraryId, [
+        { pin_id: pizzaPinId, planned_time: "23:30" },
+        { pin_id: secretPinId, planned_time: "22:00" },
+        { pin_id: barPinId, planned_time: null },
+      ])
+    ).toBe(true);
+
+    // Bob's private list is skipped and the positions close up
+    expect(await stopsOf(itineraryId)).toEqual([
+      { id: expect.any(String), pin_id: pizzaPinId, name: "Late pizza", position: 0, planned_time: "23:30:00" },
+      { id: expect.any(String), pin_id: barPinId, name: "Dive bar", position: 1, planned_time: null },
+    ]);
+  });
+
+  it("keeps a stop after its pin is deleted", async () => {
+    const itineraryId = await createItinerary(alice.id);
+    const pinId = await createPin(db, alice.id, await createList(db, alice.id), { name: "Closing soon" });
+    await saveStops(alice, itineraryId, [{ pin_id: pinId }, { pin_id: barPinId }]);
+    await db.query("DELETE FROM pins WHERE id = $1", [pinId]);
+
+    const [closed, bar] = await stopsOf(itineraryId);
+    expect(closed).toMatchObject({ pin_id: null, name: "Closing soon" });
+
+    // Reordering sends the kept stop back by id
+    await saveStops(alice, itineraryId, [{ pin_id: barPinId }, { stop_id: closed.id, planned_time: "01:00" }]);
+    expect(await stopsOf(itineraryId)).toMatchObject([
+      { pin_id: barPinId, position: 0 },
+      { pin_id: null, name: "Closing soon", position: 1, planned_time: "01:00:00" },
+    ]);
+    expect((await stopsOf(itineraryId)).map((s) => s.id)).not.toContain(bar.id);
+  });
+
+  it("only lets the owner change the stops", async () => {
+    const itineraryId = await createItinerary(alice.id, { is_public: true });
+    await saveStops(alice, itineraryId, [{ pin_id: barPinId }]);
+
+    expect(await saveStops(bob, itineraryId, [{ pin_id: pizzaPinId }])).toBe(false);
+    expect((await stopsOf(itineraryId)).map((s) => s.name)).toEqual(["Dive bar"]);
+  });
+
+  it("caps the number of stops", async () => {
+    const itineraryId = await createItinerary(alice.id);
+    await expect(saveStops(alice, itineraryId, Array(21).fill({ pin_id: barPinId }))).rejects.toThrow(
+      "at most 20 stops"
+    );
+  });
+});
+
+describe("itinerary visibility", () => {
+  it("shares public itineraries with their stops, even from lists the viewer can't see", async () => {
+    const itineraryId = await createItinerary(bob.id, { is_public: true });
+    await saveStops(bob, itineraryId, [{ pin_id: secretPinId }]);
+    const privateId = await createItinerary(bob.id);
+
+    const { rows } = await asAnon(db, (tx) =>
+      tx.query<{ id: string; stops: number }>(
+        `SELECT i.id, (SELECT COUNT(*)::int FROM itinerary_stops s WHERE s.itinerary_id = i.id) AS stops
+         FROM itineraries i WHERE i.id = ANY($1)`,
+        [[itineraryId, privateId]]
+      )
+    );
+    expect(rows).toEqual([{ id: itineraryId, stops: 1 }]);
+  });
+
+  it("hides a private account's itineraries from people who don't follow it", async () => {
+    const carol = await createUser(db, { username: "carol" });
+    await db.query("UPDATE profiles SET is_private = true WHERE id = $1", [carol.id]);
+    const itineraryId = await createItinerary(carol.id, { is_public: true });
+
+    const visibleTo = (user: TestUser) =>
+      asUser(db, user.id, (tx) => tx.query("SELECT id FROM itineraries WHERE id = $1", [itineraryId])).then(
+        ({ rows }) => rows.length > 0
+      );
+
+    expect(await visibleTo(alice)).toBe(false);
+    await db.query("INSERT INTO follows (follower_id, following_id) VALUES ($1, $2)", [alice.id, carol.id]);
+    expect(await visibleTo(alice)).toBe(true);
+  });
+});
@@ -0,0 +1,171 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Transaction } from "@electric-sql/pglite";
+import {
+  asUser,
+  createList,
+  createPin,
+  createTestDatabase,
+  createUser,
+  type TestDatabase,
+  type TestUser,
+} from "./harness";
+
+// The statements the Supabase repositories send for lists.fork and
+// pins.copyToList / deleteMany, run as the signed-in user so RLS applies
+
+async function copyPins(
+  tx: Transaction,
+  userId: string,
+  fromListId: string,
+  toListId: string,
+  { keepPersonalFields, trackSource = false }: { keepPersonalFields: boolean; trackSource?: boolean }
+) {
+  return tx.query(
+    `INSERT INTO pins (user_id, list_id, place_id, name, address, lat, lng, category,
+                       is_visited, personal_notes, personal_rating, source_pin_id)
+     SELECT $1, $2, place_id, name, address, lat, lng, category,
+            CASE WHEN $4 THEN is_visited ELSE false END,
+            CASE WHEN $4 THEN personal_notes END,
+            CASE WHEN $4 THEN personal_rating END,
+            CASE WHEN $5 THEN id END
+     FROM pins WHERE list_id = $3`,
+    [userId, toListId, fromListId, keepPersonalFields, trackSource]
+  );
+}
+
+async function forkList(tx: Transaction, userId: string, listId: string) {
+  const { rows } = await tx.query<{ id: string }>(
+    `INSERT INTO lists (user_id, name, description, emoji_icon, color, is_public, forked_from)
+     SELECT $1, name, description, emoji_icon, color, true, id
+     FROM lists WHERE id = $2
+     RETURNING id`,
+    [userId, listId]
+  );
+  if (rows.length === 0) return null;
+  await copyPins(tx, userId, listId, rows[0].id, { keepPersonalFields: false, trackSource: true });
+  return rows[0].id;
+}
+
+async function pinsIn(listId: string) {
+  const { rows } = await db.query<{ user_id: string; place_id: string; is_visited: boolean; personal_notes: string | null }>(
+    "SELECT user_id, place_id, is_visited, personal_notes FROM pins WHERE list_id = $1 ORDER BY name",
+    [listId]
+  );
+  return rows;
+}
+
+let db: TestDatabase;
+let alice: TestUser;
+let bob: TestUser;
+let publicListId: string;
+let privateListId: string;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  alice = await createUser(db, { username: "alice" });
+  bob = await createUser(db, { username: "bob" });
+
+  publicListId = await createList(db, alice.id, { name: "Pizza", is_public: true });
+  privateListId = await createList(db, alice.id, { name: "Secret bars", is_public: false });
+  await createPin(db, alice.id, publicListId, { name: "Joe's", is_visited: true, personal_notes: "Plain slice" });
+  await createPin(db, alice.id, publicListId, { name: "Lucali", is_visited: true });
+  await createPin(db, alice.id, privateListId, { name: "Speakeasy" });
+});
+
+describe("forking a list", () => {
+  it("copies a public list and its pins into the forker's account", async () => {
+    const forkId = await asUser(db, bob.id, (tx) => forkList(tx, bob.id, publicListId));
+
+    const original = await pinsIn(publicListId);
+    const copied = await pinsIn(forkId!);
+    expect(copied).toHaveLength(2);
+    expect(copied.every((p) => p.user_id === bob.id && !p.is_visited && p.personal_notes === null)).toBe(true);
+    // Copies point at the same canonical places
+    expect(copied.map((p) => p.place_id)).toEqual(original.map((p) => p.place_id));
+  });
+
+  it("records the source list, fork date and source pins", async () => {
+    const forkId = await asUser(db, bob.id, (tx) => forkList(tx, bob.id, publicListId));
+
+    const { rows: lists } = await db.query<{ forked_from: string; forked_at: Date | null }>(
+      "SELECT forked_from, forked_at FROM lists WHERE id = $1",
+      [forkId]
+    );
+    expect(lists[0].forked_from).toBe(publicListId);
+    expect(lists[0].forked_at).not.toBeNull();
+
+    const { rows: pins } = await db.query<{ matched: boolean }>(
+      `SELECT source.list_id = $2 AS matched
+       FROM pins JOIN pins source ON source.id = pins.source_pin_id
+       WHERE pins.list_id = $1`,
+      [forkId, publicListId]
+    );
+    expect(pins).toEqual([{ matched: true }, { matched: true }]);
+  });
+
+  it("ignores a client-supplied fork date", async () => {
+    const { rows } = await asUser(db, bob.id, (tx) =>
+      tx.query<{ forked_at: Date | null }>(
+        "INSERT INTO lists (user_id, name, forked_at) VALUES ($1, 'Not a fork', NOW()) RETURNING forked_at",
+        [bob.id]
+      )
+    );
+    expect(rows[0].forked_at).toBeNull();
+  });
+
+  it("counts forks the caller can't see", async () => {
+    const sourceId = await createList(db, bob.id, { name: "Bagels" });
+    await asUser(db, alice.id, async (tx) => {
+      const forkId = await forkList(tx, alice.id, sourceId);
+      await tx.query("UPDATE lists SET is_public = false WHERE id = $1", [forkId]);
+    });
+
+    const { rows } = await asUser(db, bob.id, (tx) =>
+      tx.query<{ count: number }>("SELECT list_fork_count($1) AS count", [sourceId])
+    );
+    expect(rows[0].count).toBe(1);
+  });
+
+  it("cannot see, and so cannot fork, someone else's private list", async () => {
+    const forkId = await asUser(db, bob.id, (tx) => forkList(tx, bob.id, privateListId));
+    expect(forkId).toBeNull();
+  });
+
+  it("cannot copy pins into a list the user does not own", async () => {
+    const bobListId = await createList(db, bob.id);
+    await createPin(db, bob.id, bobListId, { name: "Bagels" });
+
+    await expect(
+      asUser(db, bob.id, (tx) => copyPins(tx, bob.id, bobListId, publicListId, { keepPersonalFields: false }))
+    ).rejects.toThrow(/row-level security/);
+  });
+});
+
+describe("moving selected pins", () => {
+  it("lets the owner move pins between their lists", async () => {
+    const fromId = await createList(db, alice.id, { name: "To try" });
+    const toId = await createList(db, alice.id, { name: "Tried" });
+    await createPin(db, alice.id, fromId, { name: "Di Fara", is_visited: true, personal_notes: "Worth the wait" });
+
+    await asUser(db, alice.id, async (tx) => {
+      await copyPins(tx, alice.id, fromId, toId, { keepPersonalFields: true });
+      await tx.query("DELETE FROM pins WHERE list_id = $1", [fromId]);
+    });
+
+    expect(await pinsIn(fromId)).toEqual([]);
+    expect(await pinsIn(toId)).toMatchObject([{ is_visited: true, personal_notes: "Worth the wait" }]);
+  });
+
+  it("never deletes the originals when someone else saves them", async () => {
+    const bobListId = await createList(db, bob.id);
+
+    const deleted = await asUser(db, bob.id, async (tx) => {
+      await copyPins(tx, bob.id, publicListId, bobListId, { keepPersonalFields: false });
+      return tx.query("DELETE FROM pins WHERE list_id = $1", [publicListId]);
+    });
+
+    expect(deleted.affectedRows).toBe(0);
+    expect(await pinsIn(publicListId)).toHaveLength(2);
+    expect(await pinsIn(bobListId)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,252 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  addMember,
+  asUser,
+  createList,
+  createPin,
+  createTestDatabase,
+  createUser,
+  type TestDatabase,
+  type TestUser,
+} from "./harness";
+
+let db: TestDatabase;
+let alice: TestUser;
+let bob: TestUser;
+let carol: TestUser;
+let dave: TestUser;
+let teamListId: string;
+let alicePinId: string;
+
+// alice owns a private "Team lunch" list; bob can edit it, carol can view
+// it and dave has not been added
+beforeAll(async () => {
+  db = await createTestDatabase();
+  alice = await createUser(db, { username: "alice" });
+  bob = await createUser(db, { username: "bob" });
+  carol = await createUser(db, { username: "carol" });
+  dave = await createUser(db, { username: "dave" });
+
+  teamListId = await createList(db, alice.id, { name: "Team lunch", is_public: false });
+  alicePinId = await createPin(db, alice.id, teamListId, { name: "Noodle bar" });
+  await addMember(db, teamListId, bob.id, "editor");
+  await addMember(db, teamListId, carol.id, "viewer");
+});
+
+async function pinNames(userId: string, listId: string) {
+  const { rows } = await asUser(db, userId, (tx) =>
+    tx.query<{ name: string }>("SELECT name FROM pins WHERE list_id = $1 ORDER BY name", [listId])
+  );
+  return rows.map((r) => r.name);
+}
+
+describe("editors", () => {
+  it("can see the private list and add pins to it", async () => {
+    await asUser(db, bob.id, (tx) =>
+      tx.query(
+        `INSERT INTO pins (user_id, list_id, name, address, lat, lng)
+         VALUES ($1, $2, 'Taco truck', '2 Test St', 40.71, -74.0)`,
+        [bob.id, teamListId]
+      )
+    );
+    expect(await pinNames(bob.id, teamListId)).toContain("Taco truck");
+    expect(await pinNames(alice.id, teamListId)).toContain("Taco truck");
+  });
+
+  it("can edit pins other people added", async () => {
+    const { affectedRows } = await asUser(db, bob.id, (tx) =>
+      tx.query("UPDATE pins SET personal_notes = 'Get the dumplings' WHERE id = $1", [alicePinId])
+    );
+    expect(affectedRows).toBe(1);
+  });
+
+  it("can move pins between lists they edit but not into anyone else's", async () => {
+    const bobListId = await createList(db, bob.id, { name: "Bob's spots" });
+    const daveListId = await createList(db, dave.id, { name: "Dave's spots" });
+    const pinId = await createPin(db, alice.id, teamListId, { name: "Bagel shop" });
+
+    await expect(
+      asUser(db, bob.id, (tx) =>
+        tx.query("UPDATE pins SET list_id = $1 WHERE id = $2", [daveListId, pinId])
+      )
+    ).rejects.toThrow(/row-level security/);
+
+    const moved = await asUser(db, bob.id, (tx) =>
+      tx.query("UPDATE pins SET list_id = $1 WHERE id = $2", [bobListId, pinId])
+    );
+    expect(moved.affectedRows).toBe(1);
+  });
+
+  it("cannot change who added a pin", async () => {
+    await expect(
+      asUser(db, bob.id, (tx) => tx.query("UPDATE pins SET user_id = $1 WHERE id = $2", [dave.id, alicePinId]))
+    ).rejects.toThrow(/author can't be changed/);
+    await expect(
+      asUser(db, alice.id, (tx) => tx.query("UPDATE pins SET user_id = $1 WHERE id = $2", [bob.id, alicePinId]))
+    ).rejects.toThrow(/author can't be changed/);
+
+    const { rows } = await db.query<{ user_id: string }>("SELECT user_id FROM pins WHERE id = $1", [alicePinId]);
+    expect(rows[0].user_id).toBe(alice.id);
+  });
+
+  it("cannot change the list itself or its members", async () => {
+    const renamed = await asUser(db, bob.id, (tx) =>
+      tx.query("UPDATE lists SET name = 'Bob lunch' WHERE id = $1", [teamListId])
+    );
+    expect(renamed.affectedRows).toBe(0);
+
+    await expect(
+      asUser(db, bob.id, (tx) =>
+        tx.query("INSERT INTO list_members (list_id, user_id, role) VALUES ($1, $2, 'editor')", [
+          teamListId,
+          dave.id,
+        ])
+      )
+    ).rejects.toThrow(/row-level security/);
+  });
+});
+
+describe("viewers", () => {
+  it("can see the private list and its pins", async () => {
+    expect(await pinNames(carol.id, teamListId)).toContain("Noodle bar");
+  });
+
+  it("cannot add or edit pins", async () => {
+    await expect(
+      asUser(db, carol.id, (tx) =>
+        tx.query(
+          `INSERT INTO pins (user_id, list_id, name, address, lat, lng)
+           VALUES ($1, $2, 'Sneaky', '3 Test St', 40.71, -74.0)`,
+          [carol.id, teamListId]
+        )
+      )
+    ).rejects.toThrow(/row-level security/);
+
+    const { affectedRows } = await asUser(db, carol.id, (tx) =>
+      tx.query("UPDATE pins SET name = 'Renamed' WHERE id = $1", [alicePinId])
+    );
+    expect(affectedRows).toBe(0);
+  });
+
+  it("can see who else is on the list", async () => {
+    const { rows } = await asUser(db, carol.id, (tx) =>
+      tx.query<{ user_id: string }>("SELECT user_id FROM list_members WHERE list_id = $1", [teamListId])
+    );
+    expect(rows.map((r) => r.user_id).sort()).toEqual([bob.id, carol.id].sort());
+  });
+});
+
+describe("non-members", () => {
+  it("see nothing of a private list", async () => {
+    expect(await pinNames(dave.id, teamListId)).toEqual([]);
+    const members = await asUser(db, dave.id, (tx) =>
+      tx.query("SELECT 1 FROM list_members WHERE list_id = $1", [teamListId])
+    );
+    expect(members.rows).toEqual([]);
+  });
+});
+
+describe("membership", () => {
+  it("lets only the owner add members and create invite links", async () => {
+    const listId = await createList(db, alice.id, { name: "Brunch", is_public: false });
+    await addMember(db, listId, bob.id, "editor");
+
+    await asUser(db, alice.id, (tx) =>
+      tx.query("INSERT INTO list_members (list_id, user_id, role, invited_by) VALUES ($1, $2, 'viewer', $3)", [
+        listId,
+        carol.id,
+        alice.id,
+      ])
+    );
+    await expect(
+      asUser(db, bob.id, (tx) =>
+        tx.query("INSERT INTO list_invites (list_id, role, created_by) VALUES ($1, 'editor', $2)", [
+          listId,
+          bob.id,
+        ])
+      )
+    ).rejects.toThrow(/row-level security/);
+
+    const invites = await asUser(db, bob.id, (tx) =>
+      tx.query("SELECT token FROM list_invites WHERE list_id = $1", [listId])
+    );
+    expect(invites.rows).toEqual([]);
+  });
+
+  it("lets members leave but not remove each other", async () => {
+    const listId = await createList(db, alice.id, { name: "Dinner", is_public: false });
+    await addMember(db, listId, bob.id, "editor");
+    await addMember(db, listId, carol.id, "viewer");
+
+    const removed = await asUser(db, bob.id, (tx) =>
+      tx.query("DELETE FROM list_members WHERE list_id = $1 AND user_id = $2", [listId, carol.id])
+    );
+    const left = await asUser(db, carol.id, (tx) =>
+      tx.query("DELETE FROM list_members WHERE list_id = $1 AND user_id = $2", [listId, carol.id])
+    );
+    expect(removed.affectedRows).toBe(0);
+    expect(left.affectedRows).toBe(1);
+  });
+});
+
+describe("accept_list_invite", () => {
+  async function createInvite(listId: string, role: "editor" | "viewer") {
+    const { rows } = await asUser(db, alice.id, (tx) =>
+      tx.query<{ token: string }>(
+        "INSERT INTO list_invites (list_id, role, created_by) VALUES ($1, $2, $3) RETURNING token",
+        [listId, role, alice.id]
+      )
+    );
+    return rows[0].token;
+  }
+
+  async function accept(userId: string, token: string) {
+    const { rows } = await asUser(db, userId, (tx) =>
+      tx.query<{ list_id: string | null }>("SELECT accept_list_invite($1) AS list_id", [token])
+    );
+    return rows[0].list_id;
+  }
+
+  async function roleOf(listId: string, userId: string) {
+    const { rows } = await db.query<{ role: string | null }>("SELECT list_role($1, $2) AS role", [
+      listId,
+      userId,
+    ]);
+    return rows[0].role;
+  }
+
+  it("joins the list with the link's role", async () => {
+    const listId = await createList(db, alice.id, { name: "Coffee", is_public: false });
+    const token = await createInvite(listId, "viewer");
+
+    expect(await accept(dave.id, token)).toBe(listId);
+    expect(await roleOf(listId, dave.id)).toBe("viewer");
+    expect(await pinNames(dave.id, listId)).toEqual([]);
+  });
+
+  it("upgrades viewers with an editor link but never downgrades", async () => {
+    const listId = await createList(db, alice.id, { name: "Drinks", is_public: false });
+    await addMember(db, listId, dave.id, "viewer");
+
+    await accept(dave.id, await createInvite(listId, "editor"));
+    expect(await roleOf(listId, dave.id)).toBe("editor");
+
+    await accept(dave.id, await createInvite(listId, "viewer"));
+    expect(await roleOf(listId, dave.id)).toBe("editor");
+  });
+
+  it("leaves the owner as the owner", async () => {
+    const listId = await createList(db, alice.id, { name: "Dessert", is_public: false });
+    await accept(alice.id, await createInvite(listId, "viewer"));
+    expect(await roleOf(listId, alice.id)).toBe("owner");
+  });
+
+  it("returns null for unknown or revoked links", async () => {
+    const listId = await createList(db, alice.id, { name: "Pho", is_public: false });
+    const token = await createInvite(listId, "editor");
+    await asUser(db, alice.id, (tx) => tx.query("DELETE FROM list_invites WHERE token = $1", [token]));
+
+    expect(await accept(dave.id, token)).toBeNull();
+    expect(await accept(dave.id, "not-a-token")).toBeNull();
+  });
+});
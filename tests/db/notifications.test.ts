@@ -0,0 +1,137 @@
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  asUser,
+  createList,
+  createPin,
+  createTestDatabase,
+  createUser,
+  type TestDatabase,
+  type TestUser,
+} from "./harness";
+
+let db: TestDatabase;
+let alice: TestUser;
+let bob: TestUser;
+let carol: TestUser;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  alice = await createUser(db, { username: "alice" });
+  bob = await createUser(db, { username: "bob" });
+  carol = await createUser(db, { username: "carol" });
+});
+
+beforeEach(async () => {
+  await db.query("DELETE FROM notifications");
+  await db.query("DELETE FROM notification_settings");
+  await db.query("DELETE FROM follows");
+});
+
+async function notificationsFor(userId: string) {
+  const { rows } = await asUser(db, userId, (tx) =>
+    tx.query<{ type: string; actor_id: string; list_id: string | null; pin_id: string | null }>(
+      "SELECT type, actor_id, list_id, pin_id FROM notifications ORDER BY created_at, actor_id"
+    )
+  );
+  return rows;
+}
+
+describe("notifications", () => {
+  it("notifies list owners of likes, once, and takes it back on unlike", async () => {
+    const listId = await createList(db, alice.id);
+    await asUser(db, bob.id, async (tx) => {
+      await tx.query("INSERT INTO list_likes (user_id, list_id) VALUES ($1, $2)", [bob.id, listId]);
+      await tx.query("DELETE FROM list_likes WHERE user_id = $1", [bob.id]);
+      await tx.query("INSERT INTO list_likes (user_id, list_id) VALUES ($1, $2)", [bob.id, listId]);
+    });
+    await asUser(db, carol.id, (tx) =>
+      tx.query("INSERT INTO list_likes (user_id, list_id) VALUES ($1, $2)", [carol.id, listId])
+    );
+    expect(await notificationsFor(alice.id)).toHaveLength(2);
+
+    await asUser(db, carol.id, (tx) => tx.query("DELETE FROM list_likes WHERE user_id = $1", [carol.id]));
+    expect(await notificationsFor(alice.id)).toEqual([
+      { type: "list_like", actor_id: bob.id, list_id: listId, pin_id: null },
+    ]);
+  });
+
+  it("notifies pin authors of likes and followed users of follows", async () => {
+    const pinId = await createPin(db, alice.id, await createList(db, alice.id));
+    await asUser(db, bob.id, async (tx) => {
+      await tx.query("INSERT INTO pin_likes (user_id, pin_id) VALUES ($1, $2)", [bob.id, pinId]);
+      await tx.query("INSERT INTO follows (follower_id, following_id) VALUES ($1, $2)", [bob.id, alice.id]);
+    });
+
+    expect(await notificationsFor(alice.id)).toEqual(
+      expect.arrayContaining([
+        { type: "pin_like", actor_id: bob.id, list_id: null, pin_id: pinId },
+        { type: "follow", actor_id: bob.id, list_id: null, pin_id: null },
+      ])
+    );
+  });
+
+  it("notifies authors when someone else saves their pin", async () => {
+    const pinId = await createPin(db, alice.id, await createList(db, alice.id));
+    const bobList = await createList(db, bob.id);
+    const aliceOther = await createList(db, alice.id);
+
+    // Fork copies also set source_pin_id
+    const save = (userId: string, listId: string, { fork = false } = {}) =>
+      asUser(db, userId, (tx) =>
+        tx.query(
+          `INSERT INTO pins (list_id, user_id, name, address, lat, lng, saved_from_pin_id, source_pin_id)
+           VALUES ($1, $2, 'Copy', '1 Test St', 40.7, -74.0, $3, $4)`,
+          [listId, userId, pinId, fork ? pinId : null]
+        )
+      );
+
+    await save(bob.id, bobList);
+    // Moving your own pin and forking aren't saves
+    await save(alice.id, aliceOther);
+    await save(bob.id, bobList, { fork: true });
+
+    expect(await notificationsFor(alice.id)).toEqual([
+      { type: "pin_save", actor_id: bob.id, list_id: null, pin_id: pinId },
+    ]);
+  });
+
+  it("doesn't let a made-up saved_from_pin_id reach private pins", async () => {
+    const privatePin = await createPin(db, alice.id, await createList(db, alice.id, { is_public: false }));
+    const bobList = await createList(db, bob.id);
+    await asUser(db, bob.id, (tx) =>
+      tx.query(
+        "INSERT INTO pins (list_id, user_id, name, address, lat, lng, saved_from_pin_id) VALUES ($1, $2, 'Copy', '1 Test St', 40.7, -74.0, $3)",
+        [bobList, bob.id, privatePin]
+      )
+    );
+    expect(await notificationsFor(alice.id)).toEqual([]);
+  });
+
+  it("skips muted types", async () => {
+    await asUser(db, alice.id, (tx) =>
+      tx.query("INSERT INTO notification_settings (user_id, muted_types) VALUES ($1, '{follow}')", [alice.id])
+    );
+    await asUser(db, bob.id, (tx) =>
+      tx.query("INSERT INTO follows (follower_id, following_id) VALUES ($1, $2)", [bob.id, alice.id])
+    );
+    expect(await notificationsFor(alice.id)).toEqual([]);
+  });
+
+  it("are private, and only their owner can mark them read", async () => {
+    await asUser(db, bob.id, (tx) =>
+      tx.query("INSERT INTO follows (follower_id, following_id) VALUES ($1, $2)", [bob.id, alice.id])
+    );
+    expect(await notificationsFor(bob.id)).toEqual([]);
+
+    const markRead = (userId: string) =>
+      asUser(db, userId, (tx) => tx.query("UPDATE notifications SET read_at = NOW() WHERE read_at IS NULL"));
+    expect((await markRead(carol.id)).affectedRows).toBe(0);
+    expect((await markRead(alice.id)).affectedRows).toBe(1);
+
+    await expect(
+      asUser(db, bob.id, (tx) =>
+        tx.query("INSERT INTO notifications (user_id, type, actor_id) VALUES ($1, 'follow', $2)", [carol.id, bob.id])
+      )
+    ).rejects.toThrow(/row-level security/);
+  });
+});
@@ -0,0 +1,182 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  asUser,
+  createList,
+  createPin,
+  createTestDatabase,
+  createUser,
+  type TestDatabase,
+  type TestUser,
+} from "./harness";
+
+let db: TestDatabase;
+let alice: TestUser;
+let bob: TestUser;
+let carol: TestUser;
+let dave: TestUser;
+let pinIds: string[];
+let secretPinId: string;
+
+const inAnHour = () => new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+const createPoll = (user: TestUser, pins: string[], invitees: string[], closesAt = inAnHour()) =>
+  asUser(db, user.id, (tx) =>
+    tx.query<{ id: string }>("SELECT create_poll('Dinner?', $1, $2, $3) AS id", [closesAt, pins, invitees])
+  ).then(({ rows }) => rows[0].id);
+
+const optionsOf = (pollId: string) =>
+  db
+    .query<{ id: string; name: string }>("SELECT id, name FROM poll_options WHERE poll_id = $1 ORDER BY position", [
+      pollId,
+    ])
+    .then(({ rows }) => rows);
+
+const vote = (user: TestUser, pollId: string, optionId: string, isVeto = false) =>
+  asUser(db, user.id, (tx) =>
+    tx.query("INSERT INTO poll_votes (poll_id, option_id, user_id, is_veto) VALUES ($1, $2, $3, $4)", [
+      pollId,
+      optionId,
+      user.id,
+      isVeto,
+    ])
+  );
+
+// Moves the deadline into the past and runs the closing job
+async function closePoll(pollId: string) {
+  await db.query("UPDATE polls SET closes_at = NOW() - INTERVAL '1 minute' WHERE id = $1", [pollId]);
+  await db.query("SELECT close_due_polls()");
+  const { rows } = await db.query<{ closed_at: string | null; winner: string | null }>(
+    "SELECT p.closed_at, o.name AS winner FROM polls p LEFT JOIN poll_options o ON o.id = p.winner_option_id WHERE p.id = $1",
+    [pollId]
+  );
+  return rows[0];
+}
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  alice = await createUser(db, { username: "alice" });
+  bob = await createUser(db, { username: "bob" });
+  carol = await createUser(db, { username: "carol" });
+  dave = await createUser(db, { username: "dave" });
+  for (const follower of [bob, carol]) {
+    await db.query("INSERT INTO follows (follower_id, following_id) VALUES ($1, $2)", [follower.id, alice.id]);
+  }
+
+  const listId = await createList(db, alice.id);
+  pinIds = [
+    await createPin(db, alice.id, listId, { name: "Tacos" }),
+    await createPin(db, alice.id, listId, { name: "Ramen" }),
+    await createPin(db, alice.id, listId, { name: "Pizza" }),
+  ];
+  secretPinId = await createPin(db, dave.id, await createList(db, dave.id, { is_public: false }), { name: "Secret" });
+});
+
+describe("create_poll", () => {
+  it("copies the places it can see and invites only followers", async () => {
+    const pollId = await createPoll(alice, [pinIds[1], secretPinId, pinIds[0], pinIds[1]], [bob.id, dave.id]);
+
+    expect((await optionsOf(pollId)).map((o) => o.name)).toEqual(["Ramen", "Tacos"]);
+    const { rows } = await db.query<{ user_id: string }>(
+      "SELECT user_id FROM poll_participants WHERE poll_id = $1",
+      [pollId]
+    );
+    expect(rows.map((r) => r.user_id).sort()).toEqual([alice.id, bob.id].sort());
+  });
+
+  it("needs two places and a deadline in the future", async () => {
+    await expect(createPoll(alice, [pinIds[0]], [])).rejects.toThrow("at least 2 places");
+    await expect(createPoll(alice, pinIds, [], new Date(Date.now() - 1000).toISOString())).rejects.toThrow(
+      "close in the future"
+    );
+  });
+
+  it("invites followers with a notification", async () => {
+    const pollId = await createPoll(alice, pinIds, [carol.id]);
+    const { rows } = await db.query("SELECT user_id, actor_id FROM notifications WHERE poll_id = $1 AND type = 'poll_invite'", [
+      pollId,
+    ]);
+    expect(rows).toEqual([{ user_id: carol.id, actor_id: alice.id }]);
+  });
+});
+
+describe("poll votes", () => {
+  it("are only open to participants", async () => {
+    const pollId = await createPoll(alice, pinIds, [bob.id]);
+    const [tacos] = await optionsOf(pollId);
+
+    await vote(bob, pollId, tacos.id);
+    await expect(vote(carol, pollId, tacos.id)).rejects.toThrow();
+
+    const visibleTo = (user: TestUser) =>
+      asUser(db, user.id, (tx) => tx.query("SELECT 1 FROM polls WHERE id = $1", [pollId])).then(
+        ({ rows }) => rows.length > 0
+      );
+    expect(await visibleTo(bob)).toBe(true);
+    expect(await visibleTo(carol)).toBe(false);
+  });
+
+  it("allow one veto each", async () => {
+    const pollId = await createPoll(alice, pinIds, [bob.id]);
+    const [tacos, ramen] = await optionsOf(pollId);
+
+    await vote(bob, pollId, tacos.id, true);
+    await expect(vote(bob, pollId, ramen.id, true)).rejects.toThrow();
+  });
+
+  it("can't be moved to another poll or another poll's option", async () => {
+    const pollId = await createPoll(alice, pinIds, [bob.id]);
+    const otherPollId = await createPoll(alice, pinIds, [bob.id]);
+    const uninvitedPollId = await createPoll(alice, pinIds, [carol.id]);
+    const [tacos, ramen] = await optionsOf(pollId);
+    const [uninvitedTacos] = await optionsOf(uninvitedPollId);
+    await vote(bob, pollId, tacos.id, true);
+    await vote(bob, pollId, ramen.id);
+
+    const update = (set: string, params: unknown[]) =>
+      asUser(db, bob.id, (tx) =>
+        tx.query(`UPDATE poll_votes SET ${set} WHERE option_id = $1 AND user_id = $2`, [ramen.id, bob.id, ...params])
+      );
+    // A vote on a poll bob wasn't invited to
+    await expect(update("option_id = $3", [uninvitedTacos.id])).rejects.toThrow();
+    // A second veto on ramen, filed under another poll to get past the one-veto index
+    await expect(update("poll_id = $3, is_veto = true", [otherPollId])).rejects.toThrow();
+  });
+
+  it("stop at the deadline", async () => {
+    const pollId = await createPoll(alice, pinIds, [bob.id]);
+    const [tacos] = await optionsOf(pollId);
+    await db.query("UPDATE polls SET closes_at = NOW() - INTERVAL '1 second' WHERE id = $1", [pollId]);
+
+    await expect(vote(bob, pollId, tacos.id)).rejects.toThrow();
+  });
+});
+
+describe("close_due_polls", () => {
+  it("picks the most voted option nobody vetoed and tells everyone", async () => {
+    const pollId = await createPoll(alice, pinIds, [bob.id, carol.id]);
+    const [tacos, ramen, pizza] = await optionsOf(pollId);
+    await vote(alice, pollId, tacos.id);
+    await vote(bob, pollId, tacos.id);
+    await vote(carol, pollId, tacos.id, true);
+    await vote(bob, pollId, pizza.id);
+    await vote(carol, pollId, ramen.id);
+
+    // Pizza and ramen tie, so the earlier option wins
+    expect(await closePoll(pollId)).toMatchObject({ closed_at: expect.anything(), winner: "Ramen" });
+
+    const { rows } = await db.query<{ user_id: string }>(
+      "SELECT user_id FROM notifications WHERE poll_id = $1 AND type = 'poll_result'",
+      [pollId]
+    );
+    expect(rows.map((r) => r.user_id).sort()).toEqual([alice.id, bob.id, carol.id].sort());
+  });
+
+  it("closes without a winner when nothing qualifies", async () => {
+    const pollId = await createPoll(alice, pinIds, [bob.id]);
+    const [tacos] = await optionsOf(pollId);
+    await vote(alice, pollId, tacos.id);
+    await vote(bob, pollId, tacos.id, true);
+
+    expect(await closePoll(pollId)).toMatchObject({ closed_at: expect.anything(), winner: null });
+  });
+});
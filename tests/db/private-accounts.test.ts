@@ -0,0 +1,152 @@
+import type { Transaction } from "@electric-sql/pglite";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  addMember,
+  asAnon,
+  asUser,
+  createList,
+  createPin,
+  createTestDatabase,
+  createUser,
+  type TestDatabase,
+  type TestUser,
+} from "./harness";
+
+let db: TestDatabase;
+let alice: TestUser;
+let bob: TestUser;
+let carol: TestUser;
+let listId: string;
+let pinId: string;
+let commentId: string;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  alice = await createUser(db, { username: "alice" });
+  bob = await createUser(db, { username: "bob" });
+  carol = await createUser(db, { username: "carol" });
+
+  listId = await createList(db, alice.id, { name: "Pizza", is_public: true });
+  pinId = await createPin(db, alice.id, listId);
+  const { rows } = await db.query<{ id: string }>(
+    "INSERT INTO comments (user_id, list_id, content) VALUES ($1, $2, 'Nice') RETURNING id",
+    [alice.id, listId]
+  );
+  commentId = rows[0].id;
+});
+
+beforeEach(async () => {
+  await db.query("UPDATE profiles SET is_private = true WHERE id = $1", [alice.id]);
+  await db.query("DELETE FROM follows");
+  await db.query("DELETE FROM follow_requests");
+  await db.query("DELETE FROM notifications");
+});
+
+const follow = (user: TestUser, target: TestUser) =>
+  asUser(db, user.id, (tx) =>
+    tx.query<{ status: string }>("SELECT follow_user($1) AS status", [target.id]).then(({ rows }) => rows[0].status)
+  );
+
+async function visibleTo(user: TestUser | null) {
+  const run = async (tx: Transaction) => {
+    const lists = await tx.query("SELECT id FROM lists WHERE id = $1", [listId]);
+    const pins = await tx.query("SELECT id FROM pins WHERE id = $1", [pinId]);
+    const comments = await tx.query("SELECT id FROM comments WHERE id = $1", [commentId]);
+    return { lists: lists.rows.length, pins: pins.rows.length, comments: comments.rows.length };
+  };
+  return user ? asUser(db, user.id, run) : asAnon(db, run);
+}
+
+describe("private accounts", () => {
+  it("turns follows into requests the owner is notified of", async () => {
+    await expect(
+      asUser(db, bob.id, (tx) =>
+        tx.query("INSERT INTO follows (follower_id, following_id) VALUES ($1, $2)", [bob.id, alice.id])
+      )
+    ).rejects.toThrow(/row-level security/);
+
+    expect(await follow(bob, alice)).toBe("requested");
+    expect(await follow(bob, alice)).toBe("requested");
+    expect(await follow(alice, carol)).toBe("following");
+
+    const requests = await asUser(db, alice.id, (tx) =>
+      tx.query("SELECT follower_id FROM follow_requests WHERE following_id = $1", [alice.id])
+    );
+    expect(requests.rows).toEqual([{ follower_id: bob.id }]);
+    const notifications = await asUser(db, alice.id, (tx) => tx.query("SELECT type, actor_id FROM notifications"));
+    expect(notifications.rows).toEqual([{ type: "follow_request", actor_id: bob.id }]);
+  });
+
+  it("shows public lists, their pins and comments to approved followers only", async () => {
+    const hidden = { lists: 0, pins: 0, comments: 0 };
+    const shown = { lists: 1, pins: 1, comments: 1 };
+    expect(await visibleTo(bob)).toEqual(hidden);
+    expect(await visibleTo(null)).toEqual(hidden);
+    expect(await visibleTo(alice)).toEqual(shown);
+
+    await follow(bob, alice);
+    expect(await visibleTo(bob)).toEqual(hidden);
+
+    const approved = await asUser(db, alice.id, (tx) =>
+      tx.query<{ ok: boolean }>("SELECT approve_follow_request($1) AS ok", [bob.id])
+    );
+    expect(approved.rows[0].ok).toBe(true);
+    expect(await visibleTo(bob)).toEqual(shown);
+    expect(await visibleTo(carol)).toEqual(hidden);
+  });
+
+  it("still shows lists to their members", async () => {
+    const privateListId = await createList(db, alice.id, { is_public: false });
+    await addMember(db, privateListId, carol.id, "viewer");
+
+    const { rows } = await asUser(db, carol.id, (tx) =>
+      tx.query<{ id: string }>("SELECT id FROM lists WHERE user_id = $1", [alice.id])
+    );
+    expect(rows.map((r) => r.id)).toEqual([privateListId]);
+  });
+
+  it("only lets the account owner approve, and clears the request notification", async () => {
+    await follow(bob, alice);
+
+    const selfApproved = await asUser(db, bob.id, (tx) =>
+      tx.query<{ ok: boolean }>("SELECT approve_follow_request($1) AS ok", [bob.id])
+    );
+    expect(selfApproved.rows[0].ok).toBe(false);
+
+    await asUser(db, alice.id, (tx) => tx.query("SELECT approve_follow_request($1)", [bob.id]));
+    const { rows } = await asUser(db, alice.id, (tx) => tx.query("SELECT type FROM notifications"));
+    expect(rows).toEqual([{ type: "follow" }]);
+    expect(await follow(bob, alice)).toBe("following");
+  });
+
+  it("lets the owner deny and the requester withdraw", async () => {
+    await follow(bob, alice);
+    await follow(carol, alice);
+
+    await asUser(db, alice.id, (tx) => tx.query("DELETE FROM follow_requests WHERE follower_id = $1", [bob.id]));
+    await asUser(db, carol.id, (tx) => tx.query("DELETE FROM follow_requests WHERE follower_id = $1", [carol.id]));
+
+    const requests = await db.query("SELECT * FROM follow_requests");
+    const notifications = await db.query("SELECT * FROM notifications");
+    expect(requests.rows).toEqual([]);
+    expect(notifications.rows).toEqual([]);
+  });
+
+  it("approves everyone waiting when the account goes public", async () => {
+    await follow(bob, alice);
+    await asUser(db, alice.id, (tx) => tx.query("UPDATE profiles SET is_private = false WHERE id = $1", [alice.id]));
+
+    const { rows } = await db.query("SELECT follower_id FROM follows WHERE following_id = $1", [alice.id]);
+    expect(rows).toEqual([{ follower_id: bob.id }]);
+    expect((await db.query("SELECT * FROM follow_requests")).rows).toEqual([]);
+    expect(await visibleTo(null)).toEqual({ lists: 1, pins: 1, comments: 1 });
+  });
+
+  it("leaves private accounts out of trending", async () => {
+    const trending = () => db.query<{ list_id: string }>("SELECT list_id FROM get_trending_lists('all')");
+    expect((await trending()).rows).toEqual([]);
+
+    await db.query("UPDATE profiles SET is_private = false WHERE id = $1", [alice.id]);
+    expect((await trending()).rows).toEqual([{ list_id: listId }]);
+  });
+});
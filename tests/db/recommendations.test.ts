@@ -0,0 +1,99 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  asAnon,
+  asUser,
+  createList,
+  createPin,
+  createTestDatabase,
+  createUser,
+  type TestDatabase,
+  type TestUser,
+} from "./harness";
+
+interface Recommendation {
+  place: string;
+  pin_id: string;
+  score: string;
+  recommenders: number;
+  five_star_count: number;
+  avg_rating: string;
+}
+
+let db: TestDatabase;
+let alice: TestUser;
+let bobPinId: string;
+
+// Saves a spot rated 1-5 (null for unrated) into the user's list
+async function save(user: TestUser, listId: string, ratings: Record<string, number | null>) {
+  const ids: Record<string, string> = {};
+  for (const [name, rating] of Object.entries(ratings)) {
+    ids[name] = await createPin(db, user.id, listId, { name, is_visited: rating !== null, personal_rating: rating });
+  }
+  return ids;
+}
+
+async function seedUser(username: string, ratings: Record<string, number | null>, { isPrivate = false } = {}) {
+  const user = await createUser(db, { username });
+  if (isPrivate) await db.query("UPDATE profiles SET is_private = true WHERE id = $1", [user.id]);
+  const listId = await createList(db, user.id, { is_public: true });
+  return { user, pins: await save(user, listId, ratings) };
+}
+
+const recommendationsFor = (user: TestUser) =>
+  asUser(db, user.id, (tx) =>
+    tx.query<Recommendation>(
+      `SELECT places.name AS place, r.pin_id, r.score::text, r.recommenders::int, r.five_star_count::int, r.avg_rating::text
+       FROM get_recommended_places() r JOIN places ON places.id = r.place_id`
+    )
+  ).then(({ rows }) => rows);
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+
+  ({ user: alice } = await seedUser("alice", { Arepa: 5, Bagel: 4, Curry: 2 }));
+  // Agrees with alice on both shared places
+  ({ pins: { Dumpling: bobPinId } } = await seedUser("bob", { Arepa: 5, Bagel: 4, Dumpling: 5, Empanada: 4 }));
+  // Disagrees about Curry
+  await seedUser("carol", { Curry: 5, Falafel: 5 });
+  // Shares Arepa without a rating to compare
+  await seedUser("erin", { Arepa: null, Hotpot: 5 });
+  await seedUser("frank", { Arepa: 5, Dumpling: 5 });
+  // Private accounts don't count
+  await seedUser("dave", { Arepa: 5, Bagel: 4, Gyro: 5 }, { isPrivate: true });
+  // Private lists don't either
+  const gina = await createUser(db, { username: "gina" });
+  await save(gina, await createList(db, gina.id, { is_public: false }), { Arepa: 5, Gyro: 5 });
+});
+
+describe("get_recommended_places", () => {
+  it("ranks places similar people rated highly that you haven't saved", async () => {
+    expect(await recommendationsFor(alice)).toEqual([
+      // bob: 2 / sqrt(4 * 3) = 0.5774, frank: 1 / sqrt(2 * 3) = 0.4082, a 5 counts
+      // double. Both rated it 5, so the more similar bob's pin stands for it.
+      { place: "Dumpling", pin_id: bobPinId, score: "1.9712", recommenders: 2, five_star_count: 2, avg_rating: "5.0" },
+      { place: "Empanada", pin_id: expect.any(String), score: "0.5774", recommenders: 1, five_star_count: 0, avg_rating: "4.0" },
+      // erin: 0.5 / sqrt(2 * 3) = 0.2041
+      { place: "Hotpot", pin_id: expect.any(String), score: "0.4082", recommenders: 1, five_star_count: 1, avg_rating: "5.0" },
+      // carol: 1 - 3/4 = 0.25 / sqrt(2 * 3) = 0.1021
+      { place: "Falafel", pin_id: expect.any(String), score: "0.2041", recommenders: 1, five_star_count: 1, avg_rating: "5.0" },
+    ]);
+  });
+
+  it("gives the same answer for the same pins", async () => {
+    expect(await recommendationsFor(alice)).toEqual(await recommendationsFor(alice));
+  });
+
+  it("stops suggesting a place once you save it", async () => {
+    const newcomer = await createUser(db, { username: "newcomer" });
+    expect(await recommendationsFor(newcomer)).toEqual([]);
+
+    const listId = await createList(db, newcomer.id);
+    await save(newcomer, listId, { Arepa: 5, Bagel: 4, Dumpling: null });
+    expect((await recommendationsFor(newcomer)).map((r) => r.place)).toEqual(["Empanada", "Hotpot"]);
+  });
+
+  it("suggests nothing to signed-out visitors", async () => {
+    const { rows } = await asAnon(db, (tx) => tx.query("SELECT * FROM get_recommended_places()"));
+    expect(rows).toEqual([]);
+  });
+});
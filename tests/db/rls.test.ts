@@ -0,0 +1,254 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  asAnon,
+  asUser,
+  createList,
+  createPin,
+  createTestDatabase,
+  createUser,
+  type TestDatabase,
+  type TestUser,
+} from "./harness";
+
+let db: TestDatabase;
+let alice: TestUser;
+let bob: TestUser;
+let publicListId: string;
+let privateListId: string;
+let publicPinId: string;
+let privatePinId: string;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  alice = await createUser(db, { username: "alice" });
+  bob = await createUser(db, { username: "bob" });
+
+  publicListId = await createList(db, alice.id, { name: "Pizza", is_public: true });
+  privateListId = await createList(db, alice.id, { name: "Secret bars", is_public: false });
+  publicPinId = await createPin(db, alice.id, publicListId, { name: "Joe's" });
+  privatePinId = await createPin(db, alice.id, privateListId, { name: "Speakeasy" });
+});
+
+describe("lists", () => {
+  it("hides private lists from other users", async () => {
+    const { rows } = await asUser(db, bob.id, (tx) =>
+      tx.query<{ id: string }>("SELECT id FROM lists WHERE user_id = $1", [alice.id])
+    );
+    expect(rows.map((r) => r.id)).toEqual([publicListId]);
+  });
+
+  it("hides private lists from signed-out visitors", async () => {
+    const { rows } = await asAnon(db, (tx) =>
+      tx.query<{ id: string }>("SELECT id FROM lists WHERE user_id = $1", [alice.id])
+    );
+    expect(rows.map((r) => r.id)).toEqual([publicListId]);
+  });
+
+  it("shows owners their own private lists", async () => {
+    const { rows } = await asUser(db, alice.id, (tx) =>
+      tx.query<{ id: string }>("SELECT id FROM lists WHERE user_id = $1 ORDER BY name", [alice.id])
+    );
+    expect(rows.map((r) => r.id)).toEqual([publicListId, privateListId]);
+  });
+
+  it("does not let other users edit or delete a list", async () => {
+    const updated = await asUser(db, bob.id, (tx) =>
+      tx.query("UPDATE lists SET name = 'Mine now' WHERE id = $1", [publicListId])
+    );
+    const deleted = await asUser(db, bob.id, (tx) =>
+      tx.query("DELETE FROM lists WHERE id = $1", [publicListId])
+    );
+    expect(updated.affectedRows).toBe(0);
+    expect(deleted.affectedRows).toBe(0);
+  });
+
+  it("does not let users create lists for someone else", async () => {
+    await expect(
+      asUser(db, bob.id, (tx) =>
+        tx.query("INSERT INTO lists (user_id, name) VALUES ($1, 'Sneaky')", [alice.id])
+      )
+    ).rejects.toThrow(/row-level security/);
+  });
+});
+
+describe("pins", () => {
+  it("hides pins in private lists from other users", async () => {
+    const { rows } = await asUser(db, bob.id, (tx) =>
+      tx.query<{ id: string }>("SELECT id FROM pins WHERE user_id = $1", [alice.id])
+    );
+    expect(rows.map((r) => r.id)).toEqual([publicPinId]);
+  });
+
+  it("lets users add pins to their own lists", async () => {
+    const bobListId = await createList(db, bob.id);
+    const { rows } = await asUser(db, bob.id, (tx) =>
+      tx.query<{ id: string }>(
+        `INSERT INTO pins (user_id, list_id, name, address, lat, lng)
+         VALUES ($1, $2, 'Bagels', '2 Test St', 40.72, -74.0) RETURNING id`,
+        [bob.id, bobListId]
+      )
+    );
+    expect(rows).toHaveLength(1);
+  });
+
+  it("rejects pins added to someone else's list", async () => {
+    await expect(
+      asUser(db, bob.id, (tx) =>
+        tx.query(
+          `INSERT INTO pins (user_id, list_id, name, address, lat, lng)
+           VALUES ($1, $2, 'Bagels', '2 Test St', 40.72, -74.0)`,
+          [bob.id, publicListId]
+        )
+      )
+    ).rejects.toThrow(/row-level security/);
+  });
+
+  it("rejects pins attributed to someone else, even in their own list", async () => {
+    await expect(
+      asUser(db, bob.id, (tx) =>
+        tx.query(
+          `INSERT INTO pins (user_id, list_id, name, address, lat, lng)
+           VALUES ($1, $2, 'Bagels', '2 Test St', 40.72, -74.0)`,
+          [alice.id, publicListId]
+        )
+      )
+    ).rejects.toThrow(/row-level security/);
+  });
+
+  it("does not let other users edit or delete pins", async () => {
+    const updated = await asUser(db, bob.id, (tx) =>
+      tx.query("UPDATE pins SET is_visited = true WHERE id = $1", [publicPinId])
+    );
+    const deleted = await asUser(db, bob.id, (tx) =>
+      tx.query("DELETE FROM pins WHERE id = $1", [publicPinId])
+    );
+    expect(updated.affectedRows).toBe(0);
+    expect(deleted.affectedRows).toBe(0);
+  });
+});
+
+describe("comments", () => {
+  let publicListCommentId: string;
+  let privateListCommentId: string;
+  let privatePinCommentId: string;
+
+  beforeAll(async () => {
+    const insert = (target: "list_id" | "pin_id", id: string) =>
+      db
+        .query<{ id: string }>(
+          `INSERT INTO comments (user_id, ${target}, content) VALUES ($1, $2, 'Nice') RETURNING id`,
+          [alice.id, id]
+        )
+        .then(({ rows }) => rows[0].id);
+
+    publicListCommentId = await insert("list_id", publicListId);
+    privateListCommentId = await insert("list_id", privateListId);
+    privatePinCommentId = await insert("pin_id", privatePinId);
+  });
+
+  it("shows comments only when their list or pin is visible", async () => {
+    const { rows } = await asUser(db, bob.id, (tx) =>
+      tx.query<{ id: string }>("SELECT id FROM comments WHERE user_id = $1", [alice.id])
+    );
+    expect(rows.map((r) => r.id)).toEqual([publicListCommentId]);
+  });
+
+  it("shows owners the comments on their private lists and pins", async () => {
+    const { rows } = await asUser(db, alice.id, (tx) =>
+      tx.query<{ id: string }>("SELECT id FROM comments WHERE user_id = $1", [alice.id])
+    );
+    expect(rows.map((r) => r.id).sort()).toEqual(
+      [publicListCommentId, privateListCommentId, privatePinCommentId].sort()
+    );
+  });
+
+  it("hides comments again when a list is made private", async () => {
+    await db.query("UPDATE lists SET is_public = false WHERE id = $1", [publicListId]);
+    try {
+      const { rows } = await asAnon(db, (tx) => tx.query("SELECT id FROM comments"));
+      expect(rows).toEqual([]);
+    } finally {
+      await db.query("UPDATE lists SET is_public = true WHERE id = $1", [publicListId]);
+    }
+  });
+
+  it("lets users comment on public lists and pins", async () => {
+    const { rows } = await asUser(db, bob.id, (tx) =>
+      tx.query(
+        "INSERT INTO comments (user_id, pin_id, content) VALUES ($1, $2, 'Love it') RETURNING id",
+        [bob.id, publicPinId]
+      )
+    );
+    expect(rows).toHaveLength(1);
+  });
+
+  it("rejects comments on private lists and pins", async () => {
+    await expect(
+      asUser(db, bob.id, (tx) =>
+        tx.query("INSERT INTO comments (user_id, list_id, content) VALUES ($1, $2, 'Hi')", [
+          bob.id,
+          privateListId,
+        ])
+      )
+    ).rejects.toThrow(/row-level security/);
+    await expect(
+      asUser(db, bob.id, (tx) =>
+        tx.query("INSERT INTO comments (user_id, pin_id, content) VALUES ($1, $2, 'Hi')", [
+          bob.id,
+          privatePinId,
+        ])
+      )
+    ).rejects.toThrow(/row-level security/);
+  });
+
+  it("only lets authors edit and delete their comments", async () => {
+    const updated = await asUser(db, bob.id, (tx) =>
+      tx.query("UPDATE comments SET content = 'Edited' WHERE id = $1", [publicListCommentId])
+    );
+    const deleted = await asUser(db, bob.id, (tx) =>
+      tx.query("DELETE FROM comments WHERE id = $1", [publicListCommentId])
+    );
+    expect(updated.affectedRows).toBe(0);
+    expect(deleted.affectedRows).toBe(0);
+  });
+});
+
+describe("places", () => {
+  it("keeps place resolution to the pin triggers", async () => {
+    const resolve = "SELECT resolve_place('mapbox.poisoned', 'Fake', NULL, 40.7, -74.0, NULL)";
+    const save = "SELECT save_retrieved_place('mapbox.poisoned', 'Fake', NULL, 40.7, -74.0, NULL)";
+    for (const run of [
+      (sql: string) => asAnon(db, (tx) => tx.query(sql)),
+      (sql: string) => asUser(db, bob.id, (tx) => tx.query(sql)),
+    ]) {
+      await expect(run(resolve)).rejects.toThrow(/permission denied/);
+      await expect(run(save)).rejects.toThrow(/permission denied/);
+      await expect(run("SELECT backfill_pin_places()")).rejects.toThrow(/permission denied/);
+    }
+
+    const { rows } = await db.query("SELECT 1 FROM places WHERE id = 'mapbox.poisoned'");
+    expect(rows).toEqual([]);
+  });
+
+  it("aren't made out of a pin's own fields", async () => {
+    const bobListId = await createList(db, bob.id);
+    const savePin = (placeId: string) =>
+      asUser(db, bob.id, (tx) =>
+        tx.query<{ place_id: string }>(
+          `INSERT INTO pins (user_id, list_id, place_id, name, address, lat, lng)
+           VALUES ($1, $2, $3, 'Fake', 'Nowhere', 0, 0) RETURNING place_id`,
+          [bob.id, bobListId, placeId]
+        )
+      ).then(({ rows }) => rows[0].place_id);
+
+    // Not retrieved by the proxy, so it's treated as a hand-dropped spot
+    expect(await savePin("mapbox.claimed")).toMatch(/^manual:/);
+    const { rows: claimed } = await db.query("SELECT 1 FROM places WHERE id = 'mapbox.claimed'");
+    expect(claimed).toEqual([]);
+
+    await db.query("SELECT save_retrieved_place('mapbox.claimed', 'Real Cafe', '1 Real St', 40.7, -74.0, 'cafe')");
+    expect(await savePin("mapbox.claimed")).toBe("mapbox.claimed");
+    const { rows } = await db.query("SELECT name, lat, category FROM places WHERE id = 'mapbox.claimed'");
+    expect(rows).toEqual([{ name: "Real Cafe", lat: 40.7, category: "cafe" }]);
+  });
+});
@@ -0,0 +1,66 @@
+-- The parts of a Supabase project that supabase/schema.sql relies on, so the
+-- schema can be loaded into a plain Postgres for tests: the API roles, the
+-- auth schema with auth.users and the JWT helpers, the storage tables and the
+-- Realtime publication.
+
+CREATE ROLE anon NOLOGIN;
+CREATE ROLE authenticated NOLOGIN;
+CREATE ROLE service_role NOLOGIN BYPASSRLS;
+
+GRANT USAGE ON SCHEMA public TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT EXECUTE ON FUNCTIONS TO anon, authenticated, service_role;
+
+-- Realtime streams the tables added to this publication
+CREATE PUBLICATION supabase_realtime;
+
+-- ============================================
+-- AUTH
+-- ============================================
+CREATE SCHEMA auth;
+GRANT USAGE ON SCHEMA auth TO anon, authenticated, service_role;
+
+CREATE TABLE auth.users (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  email TEXT,
+  raw_user_meta_data JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- PostgREST puts the verified JWT claims in request.jwt.claims
+CREATE FUNCTION auth.uid() RETURNS UUID AS $$
+  SELECT (NULLIF(current_setting('request.jwt.claims', true), '')::jsonb ->> 'sub')::uuid;
+$$ LANGUAGE sql STABLE;
+
+CREATE FUNCTION auth.role() RETURNS TEXT AS $$
+  SELECT NULLIF(current_setting('request.jwt.claims', true), '')::jsonb ->> 'role';
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- STORAGE
+-- ============================================
+CREATE SCHEMA storage;
+GRANT USAGE ON SCHEMA storage TO anon, authenticated, service_role;
+
+CREATE TABLE storage.buckets (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  public BOOLEAN DEFAULT false
+);
+
+CREATE TABLE storage.objects (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  bucket_id TEXT REFERENCES storage.buckets(id),
+  name TEXT NOT NULL,
+  owner UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE storage.objects ENABLE ROW LEVEL SECURITY;
+GRANT ALL ON storage.buckets, storage.objects TO anon, authenticated, service_role;
+
+-- Folder segments of an object path, without the file name
+CREATE FUNCTION storage.foldername(name TEXT) RETURNS TEXT[] AS $$
+  SELECT (string_to_array(name, '/'))[1:array_length(string_to_array(name, '/'), 1) - 1];
+$$ LANGUAGE sql IMMUTABLE;
@@ -0,0 +1,220 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  addMember,
+  asUser,
+  createList,
+  createPin,
+  createTestDatabase,
+  createUser,
+  type TestDatabase,
+  type TestUser,
+} from "./harness";
+
+let db: TestDatabase;
+let alice: TestUser;
+let bob: TestUser;
+let carol: TestUser;
+let listId: string;
+let pinId: string;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  alice = await createUser(db, { username: "alice" });
+  bob = await createUser(db, { username: "bob" });
+  carol = await createUser(db, { username: "carol" });
+  listId = await createList(db, alice.id, { is_public: true });
+  await addMember(db, listId, bob.id, "editor");
+});
+
+beforeEach(async () => {
+  pinId = await createPin(db, alice.id, listId);
+});
+
+async function pinFields(id = pinId) {
+  const { rows } = await db.query<{ is_visited: boolean; personal_rating: number | null }>(
+    "SELECT is_visited, personal_rating FROM pins WHERE id = $1",
+    [id]
+  );
+  return rows[0];
+}
+
+async function visitsOf(id = pinId) {
+  const { rows } = await db.query<{ user_id: string; visited_on: string; rating: number | null }>(
+    "SELECT user_id, to_char(visited_on, 'YYYY-MM-DD') AS visited_on, rating FROM visits WHERE pin_id = $1 ORDER BY visited_on",
+    [id]
+  );
+  return rows;
+}
+
+const logVisit = (user: TestUser, fields: { visited_on: string; rating?: number | null }) =>
+  asUser(db, user.id, (tx) =>
+    tx
+      .query<{ id: string }>(
+        "INSERT INTO visits (pin_id, user_id, visited_on, rating) VALUES ($1, $2, $3, $4) RETURNING id",
+        [pinId, user.id, fields.visited_on, fields.rating ?? null]
+      )
+      .then(({ rows }) => rows[0].id)
+  );
+
+describe("visits", () => {
+  it("derives visited and the rating from the latest rated visit", async () => {
+    expect(await pinFields()).toEqual({ is_visited: false, personal_rating: null });
+
+    await logVisit(alice, { visited_on: "2024-05-01", rating: 3 });
+    expect(await pinFields()).toEqual({ is_visited: true, personal_rating: 3 });
+
+    // Logged late, but an earlier date doesn't win
+    await logVisit(bob, { visited_on: "2024-03-01", rating: 5 });
+    expect(await pinFields()).toEqual({ is_visited: true, personal_rating: 3 });
+
+    const unrated = await logVisit(alice, { visited_on: "2024-06-01" });
+    expect(await pinFields()).toEqual({ is_visited: true, personal_rating: 3 });
+
+    await asUser(db, alice.id, (tx) => tx.query("UPDATE visits SET rating = 4 WHERE id = $1", [unrated]));
+    expect(await pinFields()).toEqual({ is_visited: true, personal_rating: 4 });
+
+    await asUser(db, alice.id, (tx) => tx.query("DELETE FROM visits WHERE pin_id = $1", [pinId]));
+    expect(await pinFields()).toEqual({ is_visited: false, personal_rating: null });
+  });
+
+  it("turns direct writes of the pin fields into visits", async () => {
+    await asUser(db, bob.id, (tx) =>
+      tx.query("UPDATE pins SET is_visited = true, personal_rating = 4 WHERE id = $1", [pinId])
+    );
+    expect(await visitsOf()).toEqual([{ user_id: bob.id, visited_on: expect.any(String), rating: 4 }]);
+
+    await logVisit(alice, { visited_on: "2999-01-01" });
+    await asUser(db, alice.id, (tx) => tx.query("UPDATE pins SET personal_rating = 2 WHERE id = $1", [pinId]));
+    expect((await visitsOf()).map((v) => v.rating)).toEqual([4, 2]);
+    expect(await pinFields()).toEqual({ is_visited: true, personal_rating: 2 });
+
+    // Visited is derived, so it can't be switched off while there are visits
+    await asUser(db, alice.id, (tx) => tx.query("UPDATE pins SET is_visited = false WHERE id = $1", [pinId]));
+    expect(await pinFields()).toEqual({ is_visited: true, personal_rating: 2 });
+  });
+
+  it("logs a visit for a pin added with a rating but not marked visited", async () => {
+    const { rows } = await asUser(db, bob.id, (tx) =>
+      tx.query<{ is_visited: boolean; personal_rating: number }>(
+        `INSERT INTO pins (user_id, list_id, name, address, lat, lng, personal_rating, is_visited)
+         VALUES ($1, $2, 'Rated spot', '1 Test St', 40.71, -74.0, 4, false)
+         RETURNING is_visited, personal_rating`,
+        [bob.id, listId]
+      )
+    );
+    expect(rows[0]).toEqual({ is_visited: true, personal_rating: 4 });
+
+    const { rows: pins } = await db.query<{ id: string }>("SELECT id FROM pins WHERE name = 'Rated spot'");
+    expect(await pinFields(pins[0].id)).toEqual({ is_visited: true, personal_rating: 4 });
+    expect(await visitsOf(pins[0].id)).toEqual([{ user_id: bob.id, visited_on: expect.any(String), rating: 4 }]);
+  });
+
+  it("logs a visit when a pin without visits is rated, keeping what was returned", async () => {
+    const { rows } = await asUser(db, alice.id, (tx) =>
+      tx.query<{ is_visited: boolean; personal_rating: number }>(
+        "UPDATE pins SET personal_rating = 5 WHERE id = $1 RETURNING is_visited, personal_rating",
+        [pinId]
+      )
+    );
+    expect(rows[0]).toEqual({ is_visited: true, personal_rating: 5 });
+    expect(await pinFields()).toEqual({ is_visited: true, personal_rating: 5 });
+    expect(await visitsOf()).toEqual([{ user_id: alice.id, visited_on: expect.any(String), rating: 5 }]);
+  });
+
+  it("brings your visits along when you save a pin you visited", async () => {
+    await logVisit(alice, { visited_on: "2024-01-10", rating: 5 });
+    await logVisit(bob, { visited_on: "2024-02-10", rating: 1 });
+    const otherListId = await createList(db, alice.id);
+
+    const { rows } = await asUser(db, alice.id, (tx) =>
+      tx.query<{ id: string }>(
+        `INSERT INTO pins (user_id, list_id, name, address, lat, lng, is_visited, personal_rating, saved_from_pin_id)
+         VALUES ($1, $2, 'Moved', '1 Test St', 40.7, -74, true, 5, $3) RETURNING id`,
+        [alice.id, otherListId, pinId]
+      )
+    );
+    expect(await visitsOf(rows[0].id)).toEqual([{ user_id: alice.id, visited_on: "2024-01-10", rating: 5 }]);
+    expect(await pinFields(rows[0].id)).toEqual({ is_visited: true, personal_rating: 5 });
+  });
+
+  it("lets owners and editors log visits, and anyone who sees the pin read them", async () => {
+    await expect(logVisit(carol, { visited_on: "2024-01-01" })).rejects.toThrow(/row-level security/);
+    const visitId = await logVisit(bob, { visited_on: "2024-01-01" });
+
+    await asUser(db, bob.id, (tx) =>
+      tx.query("INSERT INTO visit_companions (visit_id, user_id) VALUES ($1, $2)", [visitId, carol.id])
+    );
+    await expect(
+      asUser(db, alice.id, (tx) =>
+        tx.query("INSERT INTO visit_companions (visit_id, user_id) VALUES ($1, $2)", [visitId, alice.id])
+      )
+    ).rejects.toThrow(/row-level security/);
+
+    const seen = await asUser(db, carol.id, (tx) =>
+      tx.query("SELECT user_id FROM visit_companions WHERE visit_id = $1", [visitId])
+    );
+    expect(seen.rows).toEqual([{ user_id: carol.id }]);
+
+    // Only the author edits; the list owner can still remove it
+    const edited = await asUser(db, alice.id, (tx) => tx.query("UPDATE visits SET rating = 1 WHERE id = $1", [visitId]));
+    expect(edited.affectedRows).toBe(0);
+    const removed = await asUser(db, alice.id, (tx) => tx.query("DELETE FROM visits WHERE id = $1", [visitId]));
+    expect(removed.affectedRows).toBe(1);
+  });
+
+  it("can't be moved onto a pin their author can't edit", async () => {
+    const visitId = await logVisit(bob, { visited_on: "2024-01-01", rating: 1 });
+    const carolsList = await createList(db, carol.id, { is_public: true });
+    const carolsPin = await createPin(db, carol.id, carolsList);
+
+    await expect(
+      asUser(db, bob.id, (tx) => tx.query("UPDATE visits SET pin_id = $1 WHERE id = $2", [carolsPin, visitId]))
+    ).rejects.toThrow(/row-level security/);
+    expect(await pinFields(carolsPin)).toEqual({ is_visited: false, personal_rating: null });
+  });
+
+  it("keeps photos on the pin when their visit is deleted", async () => {
+    const visitId = await logVisit(bob, { visited_on: "2024-01-01" });
+    await asUser(db, bob.id, (tx) =>
+      tx.query("INSERT INTO pin_photos (pin_id, url, visit_id) VALUES ($1, 'https://example.com/a.jpg', $2)", [
+        pinId,
+        visitId,
+      ])
+    );
+
+    await asUser(db, bob.id, (tx) => tx.query("DELETE FROM visits WHERE id = $1", [visitId]));
+    const { rows } = await db.query("SELECT visit_id FROM pin_photos WHERE pin_id = $1", [pinId]);
+    expect(rows).toEqual([{ visit_id: null }]);
+  });
+});
+
+describe("visits migration", () => {
+  it("gives existing visited or rated pins a visit with their rating", async () => {
+    const visited = await createPin(db, alice.id, listId);
+    const rated = await createPin(db, alice.id, listId);
+    const wanted = await createPin(db, alice.id, listId);
+
+    // Pins marked visited or rated before visits existed
+    await db.exec("SET session_replication_role = replica");
+    await db.query("UPDATE pins SET is_visited = true, personal_rating = 4, updated_at = '2023-08-09' WHERE id = $1", [
+      visited,
+    ]);
+    await db.query("UPDATE pins SET personal_rating = 2, updated_at = '2023-09-10' WHERE id = $1", [rated]);
+    await db.exec("SET session_replication_role = DEFAULT");
+
+    const schema = readFileSync(join(__dirname, "..", "..", "supabase", "schema.sql"), "utf8");
+    const start = schema.indexOf("INSERT INTO visits (pin_id, user_id, visited_on, rating)");
+    const migration = schema.slice(start, schema.indexOf(";", start) + 1);
+    // Safe to run twice
+    await db.exec(migration);
+    await db.exec(migration);
+
+    expect(await visitsOf(visited)).toEqual([{ user_id: alice.id, visited_on: "2023-08-09", rating: 4 }]);
+    expect(await pinFields(visited)).toEqual({ is_visited: true, personal_rating: 4 });
+    expect(await visitsOf(rated)).toEqual([{ user_id: alice.id, visited_on: "2023-09-10", rating: 2 }]);
+    expect(await pinFields(rated)).toEqual({ is_visited: true, personal_rating: 2 });
+    expect(await visitsOf(wanted)).toEqual([]);
+  });
+});
@@ -0,0 +1,218 @@
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  addMember,
+  asUser,
+  createList,
+  createPin,
+  createTestDatabase,
+  createUser,
+  type TestDatabase,
+  type TestUser,
+} from "./harness";
+
+let db: TestDatabase;
+let alice: TestUser;
+let bob: TestUser;
+let listId: string;
+let webhookId: string;
+
+const ALL_EVENTS = ["pin.added", "pin.updated", "pin.removed", "pin.visited", "list.liked", "list.forked"];
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  alice = await createUser(db, { username: "alice" });
+  bob = await createUser(db, { username: "bob" });
+});
+
+beforeEach(async () => {
+  listId = await createList(db, alice.id, { name: "Tacos" });
+  const { rows } = await asUser(db, alice.id, (tx) =>
+    tx.query<{ id: string }>(
+      "INSERT INTO list_webhooks (list_id, url, events, created_by) VALUES ($1, 'http://localhost:4000', $2, $3) RETURNING id",
+      [listId, ALL_EVENTS, alice.id]
+    )
+  );
+  webhookId = rows[0].id;
+});
+
+async function queuedEvents() {
+  const { rows } = await db.query<{ event: string; payload: Record<string, Record<string, unknown>> }>(
+    "SELECT event, payload FROM webhook_deliveries WHERE webhook_id = $1 ORDER BY created_at, event",
+    [webhookId]
+  );
+  return rows;
+}
+
+async function claim() {
+  const { rows } = await db.query<{ id: string; attempts: number; url: string; secret: string }>(
+    "SELECT * FROM claim_webhook_deliveries(10)"
+  );
+  return rows;
+}
+
+async function record(id: string, status: number | null, giveUp = false) {
+  const { rows } = await db.query<{ status: string }>(
+    "SELECT record_webhook_delivery($1, $2, 'Boom', $3) AS status",
+    [id, status, giveUp]
+  );
+  return rows[0].status;
+}
+
+describe("webhook events", () => {
+  it("queues pin additions, edits, visits and removals, including an editor's", async () => {
+    await addMember(db, listId, bob.id, "editor");
+    const pinId = await asUser(db, bob.id, async (tx) => {
+      const { rows } = await tx.query<{ id: string }>(
+        "INSERT INTO pins (list_id, user_id, name, address, lat, lng) VALUES ($1, $2, 'Los Tacos', '75 9th Ave', 40.74, -74.0) RETURNING id",
+        [listId, bob.id]
+      );
+      await tx.query("UPDATE pins SET is_visited = true WHERE id = $1", [rows[0].id]);
+      return rows[0].id;
+    });
+    await db.query("UPDATE pins SET name = name WHERE id = $1", [pinId]);
+    await db.query("DELETE FROM pins WHERE id = $1", [pinId]);
+
+    const events = await queuedEvents();
+    expect(events.map((e) => e.event)).toEqual(["pin.added", "pin.updated", "pin.visited", "pin.removed"]);
+    expect(events[0].payload.pin).toMatchObject({ id: pinId, name: "Los Tacos", user_id: bob.id });
+    expect(events[0].payload.pin).not.toHaveProperty("location");
+  });
+
+  it("treats a move as a removal and an addition", async () => {
+    const otherList = await createList(db, alice.id);
+    const pinId = await createPin(db, alice.id, otherList);
+    await db.query("UPDATE pins SET list_id = $1 WHERE id = $2", [listId, pinId]);
+    await db.query("UPDATE pins SET list_id = $1 WHERE id = $2", [otherList, pinId]);
+
+    expect((await queuedEvents()).map((e) => e.event)).toEqual(["pin.added", "pin.removed"]);
+  });
+
+  it("queues likes and forks, keeping private fork names out", async () => {
+    await asUser(db, bob.id, async (tx) => {
+      await tx.query("INSERT INTO list_likes (user_id, list_id) VALUES ($1, $2)", [bob.id, listId]);
+      await tx.query("INSERT INTO lists (user_id, name, is_public, forked_from) VALUES ($1, 'Secret tacos', false, $2)", [
+        bob.id,
+        listId,
+      ]);
+    });
+
+    const [forked, liked] = await queuedEvents();
+    expect(liked).toMatchObject({ event: "list.liked", payload: { user: { id: bob.id, username: "bob" } } });
+    expect(forked).toMatchObject({ event: "list.forked", payload: { fork: { user_id: bob.id, name: null } } });
+  });
+
+  it("only queues subscribed events on active webhooks", async () => {
+    await db.query("UPDATE list_webhooks SET events = '{pin.removed}' WHERE id = $1", [webhookId]);
+    const pinId = await createPin(db, alice.id, listId);
+    await db.query("UPDATE list_webhooks SET is_active = false WHERE id = $1", [webhookId]);
+    await db.query("DELETE FROM pins WHERE id = $1", [pinId]);
+
+    expect(await queuedEvents()).toEqual([]);
+  });
+});
+
+describe("webhook access", () => {
+  it("is limited to the list owner", async () => {
+    await addMember(db, listId, bob.id, "editor");
+    await createPin(db, alice.id, listId);
+
+    const seen = await asUser(db, bob.id, async (tx) => ({
+      webhooks: (await tx.query("SELECT id FROM list_webhooks WHERE list_id = $1", [listId])).rows,
+      deliveries: (await tx.query("SELECT id FROM webhook_deliveries WHERE webhook_id = $1", [webhookId])).rows,
+    }));
+    expect(seen).toEqual({ webhooks: [], deliveries: [] });
+
+    await expect(
+      asUser(db, bob.id, (tx) =>
+        tx.query("INSERT INTO list_webhooks (list_id, url, events, created_by) VALUES ($1, 'https://evil.test', '{pin.added}', $2)", [
+          listId,
+          bob.id,
+        ])
+      )
+    ).rejects.toThrow(/row-level security/);
+
+    const ownerView = await asUser(db, alice.id, (tx) =>
+      tx.query("SELECT id FROM webhook_deliveries WHERE webhook_id = $1", [webhookId])
+    );
+    expect(ownerView.rows).toHaveLength(1);
+  });
+
+  it("lets only the owner send a test ping", async () => {
+    const sent = async (userId: string) =>
+      (
+        await asUser(db, userId, (tx) => tx.query<{ ok: boolean }>("SELECT send_webhook_test($1) AS ok", [webhookId]))
+      ).rows[0].ok;
+
+    expect(await sent(bob.id)).toBe(false);
+    expect(await sent(alice.id)).toBe(true);
+    expect((await queuedEvents()).map((e) => e.event)).toEqual(["ping"]);
+  });
+
+  it("keeps the delivery queue to the service role", async () => {
+    await expect(asUser(db, alice.id, (tx) => tx.query("SELECT * FROM claim_webhook_deliveries(10)"))).rejects.toThrow(
+      /permission denied/
+    );
+    await expect(
+      asUser(db, alice.id, (tx) => tx.query("SELECT enqueue_webhook_event($1, 'pin.added', '{}')", [listId]))
+    ).rejects.toThrow(/permission denied/);
+  });
+});
+
+describe("webhook delivery", () => {
+  beforeEach(async () => {
+    // Start each test with only this test's deliveries due
+    await db.query("UPDATE webhook_deliveries SET status = 'delivered' WHERE status = 'pending'");
+  });
+
+  it("claims due deliveries once, with the URL and secret", async () => {
+    await createPin(db, alice.id, listId);
+
+    const [claimed] = await claim();
+    expect(claimed).toMatchObject({ attempts: 1, url: "http://localhost:4000" });
+    expect(claimed.secret).toMatch(/^whsec_[0-9a-f]{32}$/);
+    expect(await claim()).toEqual([]);
+  });
+
+  it("backs off exponentially and gives up after 8 attempts", async () => {
+    await createPin(db, alice.id, listId);
+    const [{ id }] = await claim();
+
+    expect(await record(id, 500)).toBe("pending");
+    const delay = async () =>
+      (
+        await db.query<{ seconds: number }>(
+          "SELECT round(extract(epoch FROM next_attempt_at - NOW()))::int AS seconds FROM webhook_deliveries WHERE id = $1",
+          [id]
+        )
+      ).rows[0].seconds;
+    expect(await delay()).toBe(30);
+
+    await db.query("UPDATE webhook_deliveries SET attempts = 3 WHERE id = $1", [id]);
+    expect(await record(id, null)).toBe("pending");
+    expect(await delay()).toBe(120);
+
+    await db.query("UPDATE webhook_deliveries SET attempts = 8 WHERE id = $1", [id]);
+    expect(await record(id, 502)).toBe("failed");
+
+    const { rows } = await db.query("SELECT response_status, last_error FROM webhook_deliveries WHERE id = $1", [id]);
+    expect(rows[0]).toEqual({ response_status: 502, last_error: "Boom" });
+  });
+
+  it("marks 2xx responses delivered, and can give up early", async () => {
+    await createPin(db, alice.id, listId);
+    await createPin(db, alice.id, listId);
+    const [first, second] = await claim();
+
+    expect(await record(first.id, 204)).toBe("delivered");
+    expect(await record(second.id, null, true)).toBe("failed");
+  });
+
+  it("holds deliveries while a webhook is paused", async () => {
+    await createPin(db, alice.id, listId);
+    await db.query("UPDATE list_webhooks SET is_active = false WHERE id = $1", [webhookId]);
+    expect(await claim()).toEqual([]);
+
+    await db.query("UPDATE list_webhooks SET is_active = true WHERE id = $1", [webhookId]);
+    expect(await claim()).toHaveLength(1);
+  });
+});
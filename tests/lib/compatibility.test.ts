@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { compareTastes, rankByTaste } from "@/lib/compatibility";
+import type { TasteMatch, TastePlace } from "@/types";
+
+const place = (
+  name: string,
+  my_rating: number | null,
+  their_rating: number | null,
+  { i_saved = my_rating !== null, i_visited = my_rating !== null } = {}
+): TastePlace => ({
+  place_id: name,
+  name,
+  my_rating,
+  their_rating,
+  i_saved,
+  i_visited,
+  their_pin_id: `pin-${name}`,
+  their_list_id: "list",
+});
+
+const match = (user_id: string, score: number): [string, TasteMatch] => [
+  user_id,
+  { user_id, score, shared_places: 1, place_overlap: 1, rating_agreement: null, category_overlap: null },
+];
+
+describe("compareTastes", () => {
+  it("sorts their places into loved, disputed and untried", () => {
+    const { bothLove, disagreements, toTry } = compareTastes([
+      place("Arepa", 5, 5),
+      place("Curry", 2, 5),
+      place("Empanada", null, 5, { i_saved: false }),
+      place("Dosa", null, 4, { i_saved: true, i_visited: false }),
+      place("Bagel", 4, 4),
+      place("Falafel", 5, 2),
+      place("Gyro", 3, 1),
+    ]);
+
+    expect(bothLove.map((p) => p.name)).toEqual(["Arepa", "Bagel"]);
+    // Biggest gap first
+    expect(disagreements.map((p) => p.name)).toEqual(["Curry", "Falafel", "Gyro"]);
+    expect(toTry.map((p) => p.name)).toEqual(["Empanada", "Dosa"]);
+  });
+
+  it("doesn't call a place untried once you've been, even unrated", () => {
+    const { toTry, disagreements } = compareTastes([place("Hotpot", null, 5, { i_visited: true })]);
+    expect(toTry).toEqual([]);
+    expect(disagreements).toEqual([]);
+  });
+});
+
+describe("rankByTaste", () => {
+  it("puts the best matches first, then the most followed", () => {
+    const users = [
+      { id: "a", followers_count: 50 },
+      { id: "b", followers_count: 1 },
+      { id: "c", followers_count: 10 },
+      { id: "d", followers_count: 3 },
+    ];
+    const matches = new Map([match("b", 80), match("d", 80), match("c", 0)]);
+
+    expect(rankByTaste(users, matches).map((u) => u.id)).toEqual(["d", "b", "c", "a"]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { embedHtml, embedPath, embedSize, parseEmbeddableUrl, parseEmbedOptions, pinBounds } from "@/lib/embed";
+
+const LIST_ID = "4f3c2b1a-0000-4000-8000-000000000001";
+
+describe("parseEmbedOptions", () => {
+  it("reads theme, bounds and notes", () => {
+    expect(parseEmbedOptions({ theme: "light", bounds: "-74.02,40.7,-73.9,40.8", notes: "0" })).toEqual({
+      theme: "light",
+      bounds: [
+        [-74.02, 40.7],
+        [-73.9, 40.8],
+      ],
+      showNotes: false,
+    });
+  });
+
+  it("falls back to the defaults for missing or malformed values", () => {
+    const defaults = { theme: "dark", bounds: null, showNotes: true };
+    expect(parseEmbedOptions({})).toEqual(defaults);
+    expect(parseEmbedOptions({ theme: "sepia", bounds: "1,2,3", notes: "1" })).toEqual(defaults);
+    // West of east and south of north, within the globe
+    expect(parseEmbedOptions({ bounds: "-73.9,40.7,-74.02,40.8" }).bounds).toBeNull();
+    expect(parseEmbedOptions({ bounds: "-74,40,-73,95" }).bounds).toBeNull();
+    expect(parseEmbedOptions({ theme: ["light", "dark"] }).theme).toBe("light");
+  });
+});
+
+describe("embed URLs", () => {
+  it("round-trips options through the embed path", () => {
+    const options = parseEmbedOptions({ theme: "light", bounds: "-74,40.7,-73.9,40.8", notes: "0" });
+    const path = embedPath(LIST_ID, options);
+    expect(path).toBe(`/embed/list/${LIST_ID}?theme=light&bounds=-74%2C40.7%2C-73.9%2C40.8&notes=0`);
+    expect(parseEmbeddableUrl(`https://example.com${path}`)).toEqual({ listId: LIST_ID, options });
+    expect(embedPath(LIST_ID, { theme: "dark", showNotes: true })).toBe(`/embed/list/${LIST_ID}`);
+  });
+
+  it("accepts share, in-app and embed links only", () => {
+    for (const path of [`/l/${LIST_ID}`, `/lists/${LIST_ID}`, `/embed/list/${LIST_ID}/`]) {
+      expect(parseEmbeddableUrl(`https://example.com${path}`)?.listId).toBe(LIST_ID);
+    }
+    expect(parseEmbeddableUrl(`https://example.com/u/${LIST_ID}`)).toBeNull();
+    expect(parseEmbeddableUrl(`https://example.com/lists/${LIST_ID}/pins`)).toBeNull();
+    expect(parseEmbeddableUrl("/l/not-absolute")).toBeNull();
+  });
+});
+
+describe("embedSize", () => {
+  it("shrinks the default size to the consumer's maximums, within limits", () => {
+    expect(embedSize()).toEqual({ width: 600, height: 450 });
+    expect(embedSize("400", "1000")).toEqual({ width: 400, height: 450 });
+    expect(embedSize("10", "abc")).toEqual({ width: 280, height: 450 });
+  });
+});
+
+describe("embedHtml", () => {
+  it("escapes the title and source", () => {
+    expect(embedHtml('https://example.com/embed?a=1&b="2"', `<Tom's> "pizza"`, { width: 600, height: 450 })).toBe(
+      '<iframe src="https://example.com/embed?a=1&amp;b=&quot;2&quot;" title="&lt;Tom\'s&gt; &quot;pizza&quot;" ' +
+        'width="600" height="450" style="border:0;border-radius:16px" loading="lazy" allowfullscreen></iframe>'
+    );
+  });
+});
+
+describe("pinBounds", () => {
+  it("boxes the pins", () => {
+    expect(pinBounds([])).toBeNull();
+    expect(
+      pinBounds([
+        { lat: 40.8, lng: -74 },
+        { lat: 40.7, lng: -73.9 },
+      ])
+    ).toEqual([
+      [-74, 40.7],
+      [-73.9, 40.8],
+    ]);
+  });
+});
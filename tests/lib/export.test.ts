@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import { exportFileName, kmlColor, toCsv, toGeoJson, toGpx, toKml, type ExportList } from "@/lib/export";
+import { csvToPlaces, guessCsvMapping, parseCsv, parseGeoJson, parseGpx, parseKml } from "@/lib/import";
+import type { List, Pin } from "@/types";
+
+const list: List = {
+  id: "pizza",
+  user_id: "alice",
+  name: "Pizza & Slices",
+  description: null,
+  emoji_icon: "🍕",
+  color: "#ff2d92",
+  is_public: true,
+  forked_from: null,
+  forked_at: null,
+  created_at: "2025-01-01T00:00:00.000Z",
+  updated_at: "2025-01-01T00:00:00.000Z",
+};
+
+function pin(id: string, fields: Partial<Pin> = {}): Pin {
+  return {
+    id,
+    list_id: "pizza",
+    user_id: "alice",
+    place_id: null,
+    name: `Spot ${id}`,
+    address: "1 Main St",
+    lat: 40.7306,
+    lng: -73.9903,
+    category: null,
+    personal_rating: null,
+    personal_notes: null,
+    is_visited: false,
+    source_pin_id: null,
+    created_at: "2025-02-01T00:00:00.000Z",
+    photos: [],
+    ...fields,
+  };
+}
+
+const lists: ExportList[] = [
+  {
+    list,
+    pins: [
+      pin("joes", {
+        name: "Joe's <Pizza>",
+        personal_notes: 'Plain slice, "cash only"',
+        personal_rating: 5,
+        is_visited: true,
+        place_id: "mapbox.joes",
+        photos: [{ id: "p1", pin_id: "joes", url: "https://cdn.test/joes.jpg?a=1&b=2", visit_id: null, created_at: "" }],
+      }),
+      pin("lucali", { name: "Lucali", address: "575 Henry St", lat: 40.6782, lng: -73.9442 }),
+    ],
+  },
+];
+
+describe("GeoJSON", () => {
+  it("uses the map's feature properties and adds the rest of the pin", () => {
+    const { features } = toGeoJson(lists);
+    expect(features).toHaveLength(2);
+    expect(features[0]).toEqual({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [-73.9903, 40.7306] },
+      properties: {
+        id: "joes",
+        name: "Joe's <Pizza>",
+        color: "#ff2d92",
+        emoji: "🍕",
+        listId: "pizza",
+        listName: "Pizza & Slices",
+        userId: "alice",
+        isVisited: true,
+        rating: 5,
+        address: "1 Main St",
+        category: null,
+        notes: 'Plain slice, "cash only"',
+        photos: ["https://cdn.test/joes.jpg?a=1&b=2"],
+        placeId: "mapbox.joes",
+        createdAt: "2025-02-01T00:00:00.000Z",
+      },
+    });
+  });
+
+  it("can be imported again, keeping the place", () => {
+    const { places } = parseGeoJson(JSON.stringify(toGeoJson(lists)));
+    expect(places.map((p) => [p.name, p.place_id])).toEqual([
+      ["Joe's <Pizza>", "mapbox.joes"],
+      ["Lucali", null],
+    ]);
+  });
+});
+
+describe("KML", () => {
+  it("styles placemarks with the list color", () => {
+    expect(kmlColor("#ff2d92")).toBe("ff922dff");
+    const kml = toKml(lists, "Pizza");
+    expect(kml).toContain('<Style id="list-pizza">');
+    expect(kml).toContain("<color>ff922dff</color>");
+    expect(kml).toContain("<styleUrl>#list-pizza</styleUrl>");
+    expect(kml).toContain('<Data name="rating"><value>5</value></Data>');
+    expect(kml).toContain('<Data name="photos"><value>https://cdn.test/joes.jpg?a=1&amp;b=2</value></Data>');
+  });
+
+  it("can be imported again", () => {
+    const { places, errors } = parseKml(toKml(lists, "Pizza"));
+    expect(errors).toEqual([]);
+    expect(places).toEqual([
+      {
+        row: 1,
+        name: "Joe's <Pizza>",
+        address: "1 Main St",
+        lat: 40.7306,
+        lng: -73.9903,
+        notes: 'Plain slice, "cash only"',
+        place_id: "mapbox.joes",
+      },
+      { row: 2, name: "Lucali", address: "575 Henry St", lat: 40.6782, lng: -73.9442, notes: null, place_id: null },
+    ]);
+  });
+});
+
+describe("GPX", () => {
+  it("writes waypoints with visits, ratings and photo links", () => {
+    const gpx = toGpx(lists, "Pizza");
+    expect(gpx).toContain("<cmt>1 Main St · Visited · Rated 5/5</cmt>");
+    expect(gpx).toContain('<link href="https://cdn.test/joes.jpg?a=1&amp;b=2" />');
+    expect(gpx).toContain("<type>Pizza &amp; Slices</type>");
+    // Without notes the importer falls back to the comment
+    expect(parseGpx(gpx).places.map((p) => [p.name, p.notes])).toEqual([
+      ["Joe's <Pizza>", 'Plain slice, "cash only"'],
+      ["Lucali", "575 Henry St"],
+    ]);
+  });
+});
+
+describe("CSV", () => {
+  it("quotes fields and can be imported again", () => {
+    const csv = toCsv(lists);
+    const table = parseCsv(csv);
+    expect(table.headers).toEqual([
+      "List",
+      "Name",
+      "Address",
+      "Latitude",
+      "Longitude",
+      "Category",
+      "Visited",
+      "Rating",
+      "Notes",
+      "Photos",
+      "Saved",
+      "Place ID",
+    ]);
+    expect(table.rows[0].slice(6, 10)).toEqual([
+      "true",
+      "5",
+      'Plain slice, "cash only"',
+      "https://cdn.test/joes.jpg?a=1&b=2",
+    ]);
+    expect(csvToPlaces(table, guessCsvMapping(table.headers)).places[1]).toEqual({
+      row: 3,
+      name: "Lucali",
+      address: "575 Henry St",
+      lat: 40.6782,
+      lng: -73.9442,
+      notes: null,
+      place_id: null,
+    });
+    expect(csvToPlaces(table, guessCsvMapping(table.headers)).places[0].place_id).toBe("mapbox.joes");
+  });
+
+  it("keeps spreadsheets from running text as formulas", () => {
+    const csv = toCsv([{ list, pins: [pin("x", { name: "=HYPERLINK(\"evil\")", lng: -73.99 })] }]);
+    const [row] = parseCsv(csv).rows;
+    expect(row[1]).toBe("'=HYPERLINK(\"evil\")");
+    expect(row[4]).toBe("-73.99");
+  });
+});
+
+describe("exportFileName", () => {
+  it("slugs the title", () => {
+    expect(exportFileName("alice's places", "kml")).toBe("alices-places.kml");
+    expect(exportFileName("Pizza & Slices 🍕", "geojson")).toBe("pizza-slices.geojson");
+    expect(exportFileName("🍕", "csv")).toBe("places.csv");
+  });
+});
@@ -0,0 +1,300 @@
+import { describe, expect, it } from "vitest";
+import {
+  csvToPlaces,
+  extractKml,
+  findDuplicates,
+  guessCsvMapping,
+  parseCsv,
+  parseGeoJson,
+  parseGpx,
+  parseKml,
+  readImportFile,
+} from "@/lib/import";
+
+describe("Google Takeout Saved Places", () => {
+  it("reads the current export shape", () => {
+    const { places, errors } = parseGeoJson(
+      JSON.stringify({
+        type: "FeatureCollection",
+        features: [
+          {
+            type: "Feature",
+            geometry: { type: "Point", coordinates: [-73.9865, 40.7306] },
+            properties: {
+              google_maps_url: "https://maps.google.com/?cid=1",
+              location: { name: "Veselka", address: "144 2nd Ave, New York, NY" },
+              Comment: "Pierogi",
+            },
+          },
+        ],
+      })
+    );
+    expect(errors).toEqual([]);
+    expect(places).toEqual([
+      {
+        row: 1,
+        name: "Veselka",
+        address: "144 2nd Ave, New York, NY",
+        lat: 40.7306,
+        lng: -73.9865,
+        notes: "Pierogi",
+        place_id: null,
+      },
+    ]);
+  });
+
+  it("reads the older export shape and reports places without a location", () => {
+    const { places, errors } = parseGeoJson(
+      JSON.stringify({
+        type: "FeatureCollection",
+        features: [
+          {
+            type: "Feature",
+            geometry: { type: "Point", coordinates: [-73.9442, 40.6782] },
+            properties: { Title: "Lucali", Location: { "Business Name": "Lucali", Address: "575 Henry St" } },
+          },
+          {
+            type: "Feature",
+            geometry: { type: "Point", coordinates: [0, 0] },
+            properties: { Title: "Somewhere", Location: {} },
+          },
+        ],
+      })
+    );
+    expect(places.map((p) => p.name)).toEqual(["Lucali"]);
+    expect(errors).toEqual([{ row: 2, name: "Somewhere", message: "No coordinates" }]);
+  });
+
+  it("rejects files that aren't GeoJSON", () => {
+    expect(() => parseGeoJson("{ nope")).toThrow(/valid JSON/);
+    expect(() => parseGeoJson("[]")).toThrow(/FeatureCollection/);
+  });
+});
+
+const KML = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <Folder>
+      <Placemark>
+        <name>Joe&apos;s Pizza</name>
+        <description><![CDATA[Plain slice<br>cash only]]></description>
+        <Point><coordinates>-73.9903,40.7306,0</coordinates></Point>
+      </Placemark>
+      <Placemark>
+        <name>Walk</name>
+        <LineString><coordinates>-73.99,40.73 -73.98,40.74</coordinates></LineString>
+      </Placemark>
+    </Folder>
+  </Document>
+</kml>`;
+
+describe("KML", () => {
+  it("reads placemarks with points and skips paths", () => {
+    const { places, errors } = parseKml(KML);
+    expect(places).toEqual([
+      {
+        row: 1,
+        name: "Joe's Pizza",
+        address: null,
+        lat: 40.7306,
+        lng: -73.9903,
+        notes: "Plain slice cash only",
+        place_id: null,
+      },
+    ]);
+    expect(errors).toEqual([{ row: 2, name: "Walk", message: "Only single points can be imported" }]);
+  });
+
+  it("rejects other XML", () => {
+    expect(() => parseKml("<gpx></gpx>")).toThrow(/valid KML/);
+  });
+
+  it("leaves malformed character references as they are", () => {
+    const { places, errors } = parseKml(`<kml><Document>
+      <Placemark><name>Caf&#xe9; &#99999999; &#x110000;</name><Point><coordinates>-73.99,40.73</coordinates></Point></Placemark>
+      <Placemark><name>Bar</name><Point><coordinates>-73.98,40.72</coordinates></Point></Placemark>
+    </Document></kml>`);
+
+    expect(places.map((p) => p.name)).toEqual(["Café &#99999999; &#x110000;", "Bar"]);
+    expect(errors).toEqual([]);
+  });
+});
+
+// A one-file zip, stored or deflated
+async function zip(name: string, content: string, deflate: boolean) {
+  const raw = new TextEncoder().encode(content);
+  const data = deflate
+    ? new Uint8Array(
+        await new Response(new Blob([raw]).stream().pipeThrough(new CompressionStream("deflate-raw"))).arrayBuffer()
+      )
+    : raw;
+  const fileName = new TextEncoder().encode(name);
+
+  const local = new DataView(new ArrayBuffer(30));
+  local.setUint32(0, 0x04034b50, true);
+  local.setUint16(8, deflate ? 8 : 0, true);
+  local.setUint32(18, data.length, true);
+  local.setUint32(22, raw.length, true);
+  local.setUint16(26, fileName.length, true);
+
+  const central = new DataView(new ArrayBuffer(46));
+  central.setUint32(0, 0x02014b50, true);
+  central.setUint16(10, deflate ? 8 : 0, true);
+  central.setUint32(20, data.length, true);
+  central.setUint32(24, raw.length, true);
+  central.setUint16(28, fileName.length, true);
+  central.setUint32(42, 0, true);
+
+  const centralOffset = 30 + fileName.length + data.length;
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, 1, true);
+  end.setUint16(10, 1, true);
+  end.setUint32(12, 46 + fileName.length, true);
+  end.setUint32(16, centralOffset, true);
+
+  return new Blob([local, fileName, data, central, fileName, end]).arrayBuffer();
+}
+
+describe("KMZ", () => {
+  it("finds the KML inside, deflated or stored", async () => {
+    expect(await extractKml(await zip("doc.kml", KML, true))).toBe(KML);
+    expect(await extractKml(await zip("files/places.kml", KML, false))).toBe(KML);
+  });
+
+  it("reads a .kmz file end to end", async () => {
+    const file = new File([await zip("doc.kml", KML, true)], "My Map.kmz");
+    const read = await readImportFile(file);
+    expect(read.format === "kmz" && read.result.places.map((p) => p.name)).toEqual(["Joe's Pizza"]);
+  });
+
+  it("rejects zips without a KML document", async () => {
+    await expect(extractKml(await zip("photo.jpg", "not kml", false))).rejects.toThrow(/doesn't contain/);
+  });
+});
+
+describe("GPX", () => {
+  it("reads waypoints", () => {
+    const { places, errors } = parseGpx(`<?xml version="1.0"?>
+      <gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1">
+        <wpt lat="40.7614" lon="-73.9776"><name>MoMA</name><desc>Free Fridays</desc></wpt>
+        <wpt lat="95" lon="-73.9"><name>Broken</name></wpt>
+        <trk><trkseg><trkpt lat="40.7" lon="-73.9" /></trkseg></trk>
+      </gpx>`);
+    expect(places).toEqual([
+      { row: 1, name: "MoMA", address: null, lat: 40.7614, lng: -73.9776, notes: "Free Fridays", place_id: null },
+    ]);
+    expect(errors).toEqual([{ row: 2, name: "Broken", message: "Coordinates are out of range" }]);
+  });
+});
+
+describe("CSV", () => {
+  const text = '\uFEFFTitle,Latitude,Longitude,Note\r\n"Katz\'s, the deli",40.7223,-73.9874,"Say ""pastrami"""\r\nNo location,,,\r\n';
+
+  it("parses quoted fields and guesses the column mapping", () => {
+    const table = parseCsv(text);
+    expect(table.headers).toEqual(["Title", "Latitude", "Longitude", "Note"]);
+    expect(guessCsvMapping(table.headers)).toEqual({ name: 0, address: null, lat: 1, lng: 2, notes: 3, place_id: null });
+  });
+
+  it("turns mapped rows into places, counting lines from the header", () => {
+    const table = parseCsv(text);
+    const { places, errors } = csvToPlaces(table, guessCsvMapping(table.headers));
+    expect(places).toEqual([
+      {
+        row: 2,
+        name: "Katz's, the deli",
+        address: null,
+        lat: 40.7223,
+        lng: -73.9874,
+        notes: 'Say "pastrami"',
+        place_id: null,
+      },
+    ]);
+    expect(errors).toEqual([{ row: 3, name: "No location", message: "No coordinates" }]);
+  });
+
+  it("skips a row it can't read with a reason, and keeps the rest", () => {
+    const table = parseCsv("name,lat,lng\nSpot,40.7,-73.9\n");
+    const unreadable = new Proxy([], {
+      get() {
+        throw new Error("unreadable");
+      },
+    });
+    const { places, errors } = csvToPlaces(
+      { ...table, rows: [unreadable, ...table.rows], rowLines: [2, 3] },
+      guessCsvMapping(table.headers)
+    );
+
+    expect(places.map((p) => p.name)).toEqual(["Spot"]);
+    expect(errors).toEqual([{ row: 2, name: null, message: "Couldn't be read" }]);
+  });
+
+  it("points at the line a row starts on, past blank lines and multi-line fields", () => {
+    const table = parseCsv('name,lat,lng,notes\n\nSpot,40.7,-73.9,"Two\r\nlines"\r\n\nBroken,,,\n');
+    expect(table.rowLines).toEqual([3, 6]);
+
+    const { places, errors } = csvToPlaces(table, guessCsvMapping(table.headers));
+    expect(places).toMatchObject([{ row: 3, name: "Spot" }]);
+    expect(errors).toEqual([{ row: 6, name: "Broken", message: "No coordinates" }]);
+  });
+
+  it("handles semicolon-separated files", () => {
+    const table = parseCsv("name;lat;lng\nSpot;40.7;-73.9\n");
+    expect(table.rows).toEqual([["Spot", "40.7", "-73.9"]]);
+  });
+});
+
+describe("findDuplicates", () => {
+  const place = (row: number, name: string, lat: number, lng: number, place_id: string | null = null) => ({
+    row,
+    name,
+    address: null,
+    lat,
+    lng,
+    notes: null,
+    place_id,
+  });
+
+  it("matches the same name nearby, or anything at the same spot", () => {
+    const existing = [{ name: "Joe's Pizza", lat: 40.7306, lng: -73.9903 }];
+    const duplicates = findDuplicates(
+      [
+        place(1, "joes pizza", 40.7309, -73.9906), // ~40m away, same name
+        place(2, "Joe's Pizza (Broadway)", 40.73061, -73.99031), // a few meters away
+        place(3, "Joe's Pizza", 40.7406, -73.9903), // over 1km away
+      ],
+      existing
+    );
+    expect([...duplicates.keys()]).toEqual([1, 2]);
+  });
+
+  it("catches repeats within the file", () => {
+    const duplicates = findDuplicates(
+      [place(1, "Veselka", 40.7306, -73.9865), place(2, "Veselka", 40.7306, -73.9865)],
+      []
+    );
+    expect(duplicates).toEqual(new Map([[2, "Veselka"]]));
+  });
+
+  it("matches the same place_id first, wherever it is", () => {
+    const existing = [
+      { name: "Katz's", lat: 40.7223, lng: -73.9874, place_id: "mapbox.katz" },
+      { name: "Katz's Delicatessen", lat: 40.7224, lng: -73.9875, place_id: "mapbox.katzs-deli" },
+    ];
+    const duplicates = findDuplicates(
+      [
+        place(1, "Katz's Delicatessen", 40.7223, -73.9874, "mapbox.katz"), // nearest by name is the other pin
+        place(2, "Katz's (moved pin)", 40.75, -73.95, "mapbox.katzs-deli"), // miles off, same place
+        place(3, "Russ & Daughters", 40.7223, -73.9882, "mapbox.russ"),
+      ],
+      existing
+    );
+    expect(duplicates).toEqual(
+      new Map([
+        [1, "Katz's"],
+        [2, "Katz's Delicatessen"],
+      ])
+    );
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { draftFromStop, formatPlannedTime, moveStop, toStopInputs, type DraftStop } from "@/lib/itineraries";
+import type { ItineraryStop } from "@/types";
+
+const savedStop: ItineraryStop = {
+  id: "stop-1",
+  itinerary_id: "itinerary",
+  pin_id: null,
+  place_id: "place",
+  name: "Dive bar",
+  address: "1 Main St",
+  lat: 40.72,
+  lng: -73.99,
+  position: 0,
+  planned_time: "21:30:00",
+  created_at: "2026-01-01T00:00:00Z",
+};
+
+describe("itinerary drafts", () => {
+  it("sends new pins by pin id and saved stops by stop id", () => {
+    const pinStop: DraftStop = { ...draftFromStop(savedStop), key: "new", source: { pin_id: "pin-1" }, time: "" };
+
+    expect(toStopInputs([draftFromStop(savedStop), pinStop])).toEqual([
+      { stop_id: "stop-1", planned_time: "21:30" },
+      { pin_id: "pin-1", planned_time: null },
+    ]);
+  });
+
+  it("moves a stop one place up or down", () => {
+    expect(moveStop(["a", "b", "c"], 2, -1)).toEqual(["a", "c", "b"]);
+    expect(moveStop(["a", "b", "c"], 0, 1)).toEqual(["b", "a", "c"]);
+    const stops = ["a", "b"];
+    expect(moveStop(stops, 0, -1)).toBe(stops);
+  });
+});
+
+describe("formatPlannedTime", () => {
+  it("uses a 12-hour clock", () => {
+    expect(formatPlannedTime("21:30:00")).toBe("9:30 PM");
+    expect(formatPlannedTime("00:05")).toBe("12:05 AM");
+    expect(formatPlannedTime("12:00:00")).toBe("12:00 PM");
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { projectPins } from "@/lib/miniMap";
+
+const box = { width: 400, height: 200, padding: 20 };
+
+describe("projectPins", () => {
+  it("fits pins inside the padding with north up and west left", () => {
+    const [southWest, northEast] = projectPins(
+      [
+        { lat: 40.7, lng: -74.02 },
+        { lat: 40.8, lng: -73.9 },
+      ],
+      box
+    );
+
+    expect(southWest.x).toBeLessThan(northEast.x);
+    expect(southWest.y).toBeGreaterThan(northEast.y);
+    // Taller than wide once longitude is scaled, so the height is filled
+    expect(southWest.y).toBeCloseTo(180);
+    expect(northEast.y).toBeCloseTo(20);
+    for (const point of [southWest, northEast]) {
+      expect(point.x).toBeGreaterThanOrEqual(20);
+      expect(point.x).toBeLessThanOrEqual(380);
+    }
+  });
+
+  it("keeps the shape, scaling longitude by latitude", () => {
+    // A degree of longitude at 60° is half as long as a degree of latitude
+    const [a, b, c] = projectPins(
+      [
+        { lat: 60, lng: 10 },
+        { lat: 60, lng: 10.2 },
+        { lat: 60.1, lng: 10 },
+      ],
+      box
+    );
+    expect(Math.abs(b.x - a.x)).toBeCloseTo(Math.abs(c.y - a.y), 0);
+  });
+
+  it("centres a single pin", () => {
+    expect(projectPins([{ lat: 40.7, lng: -74 }], box)).toEqual([{ x: 200, y: 100 }]);
+    expect(projectPins([], box)).toEqual([]);
+  });
+});
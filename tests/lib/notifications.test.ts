@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { describeNotificationGroup, groupNotifications, notificationHref } from "@/lib/notifications";
+import type { NotificationType, Profile, UserNotification } from "@/types";
+
+function person(username: string, displayName: string | null = null): Profile {
+  return {
+    id: username,
+    username,
+    display_name: displayName,
+    avatar_url: null,
+    bio: null,
+    is_private: false,
+    created_at: "2025-01-01T00:00:00.000Z",
+  };
+}
+
+const sarah = person("sarah", "Sarah");
+const mike = person("mike", "Mike");
+const lee = person("lee");
+
+const pizza = { id: "pizza", name: "Best Pizza Spots", emoji_icon: "🍕" };
+const joes = { id: "joes", name: "Joe's Pizza", list_id: "pizza" };
+const dinner = { id: "dinner", question: "Friday dinner?", winner: null };
+
+let sequence = 0;
+function notification(
+  type: NotificationType,
+  actor: Profile,
+  {
+    read = false,
+    list = null,
+    pin = null,
+    poll = null,
+  }: Partial<{ read: boolean; list: typeof pizza | null; pin: typeof joes | null; poll: UserNotification["poll"] }> = {}
+): UserNotification {
+  sequence++;
+  return {
+    id: `n${sequence}`,
+    user_id: "me",
+    type,
+    actor_id: actor.id,
+    list_id: list?.id ?? null,
+    pin_id: pin?.id ?? null,
+    poll_id: poll?.id ?? null,
+    read_at: read ? "2025-01-02T00:00:00.000Z" : null,
+    created_at: `2025-01-01T00:00:${String(60 - sequence).padStart(2, "0")}.000Z`,
+    actor,
+    list,
+    pin,
+    poll,
+  };
+}
+
+describe("groupNotifications", () => {
+  it("folds notifications about the same thing, newest actor first", () => {
+    const groups = groupNotifications([
+      notification("list_like", sarah, { list: pizza }),
+      notification("pin_like", mike, { pin: joes }),
+      notification("list_like", mike, { list: pizza }),
+      notification("list_like", lee, { list: pizza }),
+      notification("follow", lee),
+      notification("follow", mike),
+    ]);
+
+    expect(groups.map((g) => [g.type, g.actors.map((a) => a.username)])).toEqual([
+      ["list_like", ["sarah", "mike", "lee"]],
+      ["pin_like", ["mike"]],
+      ["follow", ["lee", "mike"]],
+    ]);
+    expect(groups[0].notifications).toHaveLength(3);
+    expect(groups[0].created_at).toBe(groups[0].notifications[0].created_at);
+  });
+
+  it("keeps read and unread apart", () => {
+    const groups = groupNotifications([
+      notification("list_like", sarah, { list: pizza }),
+      notification("list_like", mike, { list: pizza, read: true }),
+    ]);
+    expect(groups.map((g) => g.isUnread)).toEqual([true, false]);
+  });
+});
+
+describe("describeNotificationGroup", () => {
+  const text = (...notifications: UserNotification[]) =>
+    describeNotificationGroup(groupNotifications(notifications)[0]);
+
+  it("names up to two people and counts the rest", () => {
+    expect(text(notification("list_like", sarah, { list: pizza }))).toBe("Sarah liked Best Pizza Spots");
+    expect(text(notification("follow", sarah), notification("follow", lee))).toBe(
+      "Sarah and lee started following you"
+    );
+    expect(
+      text(
+        notification("pin_save", sarah, { pin: joes }),
+        notification("pin_save", mike, { pin: joes }),
+        notification("pin_save", lee, { pin: joes }),
+        notification("pin_save", person("ana"), { pin: joes }),
+        notification("pin_save", person("kim"), { pin: joes })
+      )
+    ).toBe("Sarah and 4 others saved Joe's Pizza");
+  });
+
+  it("announces a poll's winner", () => {
+    expect(text(notification("poll_invite", sarah, { poll: dinner }))).toBe("Sarah wants your vote: Friday dinner?");
+    expect(text(notification("poll_result", sarah, { poll: { ...dinner, winner: { name: "Joe's Pizza" } } }))).toBe(
+      'Joe\'s Pizza won "Friday dinner?"'
+    );
+    expect(text(notification("poll_result", sarah, { poll: dinner }))).toBe('"Friday dinner?" closed without a winner');
+  });
+});
+
+describe("notificationHref", () => {
+  it("goes to the list, the pin's list, the follower or the poll", () => {
+    const [listLike, pinLike, oneFollow] = groupNotifications([
+      notification("list_like", sarah, { list: pizza }),
+      notification("pin_like", sarah, { pin: joes }),
+      notification("follow", sarah),
+    ]);
+    expect(notificationHref(listLike)).toBe("/lists/pizza");
+    expect(notificationHref(pinLike)).toBe("/lists/pizza");
+    expect(notificationHref(oneFollow)).toBe("/user/sarah");
+
+    const [twoFollows] = groupNotifications([notification("follow", sarah), notification("follow", mike)]);
+    expect(notificationHref(twoFollows)).toBe("/profile");
+
+    const [pollInvite] = groupNotifications([notification("poll_invite", sarah, { poll: dinner })]);
+    expect(notificationHref(pollInvite)).toBe("/polls/dinner");
+  });
+});
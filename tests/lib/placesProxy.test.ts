@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET as retrieve } from "@/app/api/places/retrieve/[mapboxId]/route";
+import { GET as suggest } from "@/app/api/places/suggest/route";
+import { PlacesProviderError, setPlacesProvider, type PlacesProvider } from "@/lib/geocoding";
+import { cachePlace, getCachedPlace } from "@/lib/placesProxy";
+import type { RetrievedPlace } from "@/types";
+
+// The routes only ask Supabase who's signed in
+let signedInAs: string | null = null;
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: async () => ({
+    auth: { getUser: async () => ({ data: { user: signedInAs ? { id: signedInAs } : null } }) },
+  }),
+}));
+
+// Retrieved places are saved with the service role
+const savePlaceRpc = vi.fn().mockResolvedValue({ error: null });
+vi.mock("@/lib/supabase/api", () => ({
+  createServiceClient: () => ({ rpc: savePlaceRpc }),
+}));
+
+const SESSION = "0f8fad5b-d9cb-469f-a165-70867728950e";
+
+const place = (mapboxId: string): RetrievedPlace => ({
+  mapbox_id: mapboxId,
+  name: "Joe's Pizza",
+  address: "7 Carmine St",
+  lat: 40.7306,
+  lng: -74.0021,
+  category: "restaurant",
+});
+
+function fakeProvider(overrides: Partial<PlacesProvider> = {}): PlacesProvider {
+  return {
+    suggest: vi.fn().mockResolvedValue([]),
+    retrieve: vi.fn(async (mapboxId: string) => place(mapboxId)),
+    ...overrides,
+  };
+}
+
+const suggestRequest = (query: string) =>
+  suggest(new Request(`http://localhost/api/places/suggest?q=${encodeURIComponent(query)}&session_token=${SESSION}`));
+const retrieveRequest = (mapboxId: string, sessionToken: string | null = SESSION) =>
+  retrieve(
+    new Request(
+      `http://localhost/api/places/retrieve/${mapboxId}${sessionToken ? `?session_token=${sessionToken}` : ""}`
+    ),
+    { params: Promise.resolve({ mapboxId }) }
+  );
+
+beforeEach(() => {
+  signedInAs = "alice";
+});
+
+afterEach(() => {
+  setPlacesProvider(null);
+  vi.useRealTimers();
+});
+
+describe("place search routes", () => {
+  it("need a signed-in user", async () => {
+    signedInAs = null;
+    setPlacesProvider(fakeProvider());
+    expect((await suggestRequest("pizza")).status).toBe(401);
+  });
+
+  it("limit each user's searches and say when to try again", async () => {
+    signedInAs = "busy";
+    const provider = fakeProvider();
+    setPlacesProvider(provider);
+
+    for (let i = 0; i < 60; i++) {
+      expect((await suggestRequest(`pizza ${i}`)).status).toBe(200);
+    }
+    const limited = await suggestRequest("pizza again");
+
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("Retry-After"))).toBeGreaterThan(0);
+    expect(provider.suggest).toHaveBeenCalledTimes(60);
+
+    signedInAs = "patient";
+    expect((await suggestRequest("pizza")).status).toBe(200);
+  });
+
+  it("pass on upstream rate limits and turn other provider errors into a 502", async () => {
+    setPlacesProvider(
+      fakeProvider({ suggest: vi.fn().mockRejectedValue(new PlacesProviderError("Mapbox said slow down", 429)) })
+    );
+    const limited = await suggestRequest("pizza");
+    expect(limited.status).toBe(429);
+    expect(await limited.json()).toEqual({ error: "Place search is unavailable" });
+
+    setPlacesProvider(fakeProvider({ retrieve: vi.fn().mockRejectedValue(new Error("socket hang up")) }));
+    expect((await retrieveRequest("mapbox.broken")).status).toBe(502);
+  });
+
+  it("serve retrieved places from the cache, even without a session token", async () => {
+    const provider = fakeProvider();
+    setPlacesProvider(provider);
+
+    const first = await retrieveRequest("mapbox.joes");
+    const second = await retrieveRequest("mapbox.joes", null);
+
+    expect(await first.json()).toEqual({ place: place("mapbox.joes") });
+    expect(await second.json()).toEqual({ place: place("mapbox.joes") });
+    expect(provider.retrieve).toHaveBeenCalledTimes(1);
+  });
+
+  it("save retrieved places as Mapbox returned them", async () => {
+    savePlaceRpc.mockClear();
+    setPlacesProvider(fakeProvider());
+
+    await retrieveRequest("mapbox.lucali");
+    await retrieveRequest("mapbox.lucali");
+
+    expect(savePlaceRpc).toHaveBeenCalledTimes(1);
+    expect(savePlaceRpc).toHaveBeenCalledWith("save_retrieved_place", {
+      p_place_id: "mapbox.lucali",
+      p_name: "Joe's Pizza",
+      p_address: "7 Carmine St",
+      p_lat: 40.7306,
+      p_lng: -74.0021,
+      p_category: "restaurant",
+    });
+  });
+
+  it("don't cache places that weren't found", async () => {
+    const provider = fakeProvider({ retrieve: vi.fn().mockResolvedValue(null) });
+    setPlacesProvider(provider);
+
+    expect((await retrieveRequest("mapbox.nowhere")).status).toBe(404);
+    expect((await retrieveRequest("mapbox.nowhere")).status).toBe(404);
+    expect(provider.retrieve).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("retrieve cache", () => {
+  it("forgets places after a day", () => {
+    vi.useFakeTimers({ now: Date.UTC(2025, 0, 1) });
+    cachePlace("mapbox.stale", place("mapbox.stale"));
+
+    vi.advanceTimersByTime(23 * 60 * 60 * 1000);
+    expect(getCachedPlace("mapbox.stale")).toEqual(place("mapbox.stale"));
+    vi.advanceTimersByTime(60 * 60 * 1000);
+    expect(getCachedPlace("mapbox.stale")).toBeNull();
+  });
+
+  it("evicts the oldest place once full", () => {
+    cachePlace("mapbox.oldest", place("mapbox.oldest"));
+    // The cap is 5000; these fill it without the oldest
+    for (let i = 0; i < 5000; i++) cachePlace(`mapbox.${i}`, place(`mapbox.${i}`));
+
+    expect(getCachedPlace("mapbox.oldest")).toBeNull();
+    expect(getCachedPlace("mapbox.0")).not.toBeNull();
+    expect(getCachedPlace("mapbox.4999")).not.toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { isPollOpen, leadingOption, tallyPoll, toDateTimeLocal } from "@/lib/polls";
+import type { PollOption, PollVote } from "@/types";
+
+const option = (id: string, position: number) => ({ id, name: id, position }) as PollOption;
+const options = [option("tacos", 0), option("ramen", 1), option("pizza", 2)];
+const vote = (option_id: string, user_id: string, is_veto = false) => ({ option_id, user_id, is_veto }) as PollVote;
+
+describe("tallyPoll", () => {
+  it("counts votes and vetoes per option, in order", () => {
+    const tallies = tallyPoll(options, [vote("ramen", "alice"), vote("ramen", "bob"), vote("tacos", "carol", true)]);
+
+    expect(tallies.map(({ option, votes, vetoed }) => [option.id, votes, vetoed])).toEqual([
+      ["tacos", 0, true],
+      ["ramen", 2, false],
+      ["pizza", 0, false],
+    ]);
+  });
+});
+
+describe("leadingOption", () => {
+  it("picks the most voted option nobody vetoed, the earlier one on a tie", () => {
+    const votes = [
+      vote("tacos", "alice"),
+      vote("tacos", "bob"),
+      vote("tacos", "carol", true),
+      vote("ramen", "carol"),
+      vote("pizza", "bob"),
+    ];
+    expect(leadingOption(tallyPoll(options, votes))?.id).toBe("ramen");
+  });
+
+  it("has no leader without votes", () => {
+    expect(leadingOption(tallyPoll(options, []))).toBeNull();
+    expect(leadingOption(tallyPoll(options, [vote("tacos", "alice"), vote("tacos", "bob", true)]))).toBeNull();
+  });
+});
+
+describe("isPollOpen", () => {
+  const now = new Date("2026-05-01T19:00:00Z");
+
+  it("is open until the deadline or until it's closed", () => {
+    expect(isPollOpen({ closes_at: "2026-05-01T20:00:00Z", closed_at: null }, now)).toBe(true);
+    expect(isPollOpen({ closes_at: "2026-05-01T18:00:00Z", closed_at: null }, now)).toBe(false);
+    expect(isPollOpen({ closes_at: "2026-05-01T20:00:00Z", closed_at: "2026-05-01T18:30:00Z" }, now)).toBe(false);
+  });
+});
+
+describe("toDateTimeLocal", () => {
+  it("formats local time for a datetime-local input", () => {
+    expect(toDateTimeLocal(new Date(2026, 4, 1, 9, 5))).toBe("2026-05-01T09:05");
+  });
+});
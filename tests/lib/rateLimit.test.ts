@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { createRateLimiter } from "@/lib/rateLimit";
+
+describe("createRateLimiter", () => {
+  it("allows up to the limit within the window", () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+
+    expect(limiter.check("a", 0)).toEqual({ allowed: true, remaining: 1, retryAfterSeconds: 0 });
+    expect(limiter.check("a", 1_000)).toEqual({ allowed: true, remaining: 0, retryAfterSeconds: 0 });
+    expect(limiter.check("a", 30_000)).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 30 });
+    expect(limiter.check("b", 30_000).allowed).toBe(true);
+    expect(limiter.check("a", 60_001).allowed).toBe(true);
+  });
+
+  it("forgets keys once their window is over", () => {
+    const limiter = createRateLimiter({ limit: 5, windowMs: 60_000 });
+    for (let i = 0; i < 100; i++) limiter.check(`address-${i}`, i);
+    expect(limiter.size()).toBe(100);
+
+    limiter.check("later", 200_000);
+    expect(limiter.size()).toBe(1);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { applyLikeChange, applyPinChange, applyPollChange } from "@/lib/realtime";
+import type { List, Pin, Poll, PollVote } from "@/types";
+
+function pin(id: string, fields: Partial<Pin> = {}): Pin {
+  return {
+    id,
+    list_id: "pizza",
+    user_id: "alice",
+    place_id: null,
+    name: id,
+    address: "1 Test St",
+    lat: 40.7128,
+    lng: -74.006,
+    category: null,
+    personal_rating: null,
+    personal_notes: null,
+    is_visited: false,
+    created_at: "2025-01-01T00:00:00.000Z",
+    ...fields,
+  } as Pin;
+}
+
+describe("applyPinChange", () => {
+  const list = { id: "pizza", name: "Pizza" } as List;
+
+  it("adds new pins first, with the extra fields", () => {
+    const pins = applyPinChange([pin("joes")], { type: "insert", pin: pin("lucali") }, { list });
+    expect(pins.map((p) => p.id)).toEqual(["lucali", "joes"]);
+    expect(pins[0].list).toBe(list);
+  });
+
+  it("merges changes to known pins, so an optimistic add isn't doubled", () => {
+    const pins = [pin("joes", { list })];
+    const inserted = applyPinChange(pins, { type: "insert", pin: pin("joes") });
+    const visited = applyPinChange(inserted, { type: "update", pin: pin("joes", { is_visited: true }) });
+
+    expect(visited).toHaveLength(1);
+    expect(visited[0]).toMatchObject({ is_visited: true, list });
+  });
+
+  it("removes deleted pins and ignores ones it doesn't have", () => {
+    const pins = [pin("joes"), pin("lucali")];
+    expect(applyPinChange(pins, { type: "delete", id: "joes" }).map((p) => p.id)).toEqual(["lucali"]);
+    expect(applyPinChange(pins, { type: "delete", id: "elsewhere" })).toBe(pins);
+  });
+});
+
+describe("applyLikeChange", () => {
+  it("counts other people's likes and unlikes", () => {
+    const status = { liked: true, count: 3 };
+    expect(applyLikeChange(status, { userId: "bob", liked: true }, "alice")).toEqual({ liked: true, count: 4 });
+    expect(applyLikeChange(status, { userId: "bob", liked: false }, "alice")).toEqual({ liked: true, count: 2 });
+  });
+
+  it("doesn't count your own like twice, but follows one from another tab", () => {
+    expect(applyLikeChange({ liked: true, count: 4 }, { userId: "alice", liked: true }, "alice")).toEqual({
+      liked: true,
+      count: 4,
+    });
+    expect(applyLikeChange({ liked: false, count: 3 }, { userId: "alice", liked: true }, "alice")).toEqual({
+      liked: true,
+      count: 4,
+    });
+  });
+});
+
+describe("applyPollChange", () => {
+  const poll = {
+    id: "dinner",
+    options: [{ id: "tacos" }, { id: "ramen" }],
+    votes: [{ option_id: "tacos", user_id: "bob", is_veto: false }],
+  } as Poll;
+  const vote = (option_id: string, user_id: string, is_veto = false) =>
+    ({ poll_id: "dinner", option_id, user_id, is_veto, created_at: "2026-01-01T00:00:00Z" }) as PollVote;
+
+  it("replaces a voter's choice on the same option, so a vote isn't counted twice", () => {
+    const voted = applyPollChange(poll, { type: "vote", vote: vote("ramen", "carol") });
+    const again = applyPollChange(voted, { type: "vote", vote: vote("ramen", "carol") });
+    const vetoed = applyPollChange(again, { type: "vote", vote: vote("tacos", "bob", true) });
+
+    expect(vetoed.votes).toEqual([vote("ramen", "carol"), vote("tacos", "bob", true)]);
+  });
+
+  it("takes back votes and ignores other polls' options", () => {
+    expect(applyPollChange(poll, { type: "unvote", optionId: "tacos", userId: "bob" }).votes).toEqual([]);
+    expect(applyPollChange(poll, { type: "unvote", optionId: "tacos", userId: "carol" })).toBe(poll);
+    expect(applyPollChange(poll, { type: "unvote", optionId: "elsewhere", userId: "bob" })).toBe(poll);
+  });
+
+  it("closes the poll", () => {
+    const closed = { id: "dinner", closed_at: "2026-01-01T20:00:00Z", winner_option_id: "ramen" };
+    expect(applyPollChange(poll, { type: "closed", poll: closed })).toMatchObject(closed);
+  });
+});
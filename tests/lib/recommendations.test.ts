@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { recommendationReason } from "@/lib/recommendations";
+
+describe("recommendationReason", () => {
+  it("leads with the five-star ratings", () => {
+    expect(recommendationReason({ recommenders: 4, five_star_count: 3 })).toBe(
+      "3 people with similar taste rated this 5★"
+    );
+    expect(recommendationReason({ recommenders: 2, five_star_count: 1 })).toBe(
+      "Someone with similar taste rated this 5★"
+    );
+  });
+
+  it("falls back to four stars when nobody gave five", () => {
+    expect(recommendationReason({ recommenders: 2, five_star_count: 0 })).toBe(
+      "2 people with similar taste rated this 4★"
+    );
+    expect(recommendationReason({ recommenders: 1, five_star_count: 0 })).toBe(
+      "Someone with similar taste rated this 4★"
+    );
+  });
+});
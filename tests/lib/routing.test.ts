@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  estimateLegs,
+  formatDistance,
+  formatWalkTime,
+  routeLegs,
+  routePath,
+  type RouteLeg,
+  type RoutingProvider,
+} from "@/lib/routing";
+
+// About 1 km apart, north to south along the same avenue
+const stops = [
+  { lat: 40.7359, lng: -73.9911 },
+  { lat: 40.7269, lng: -73.9911 },
+  { lat: 40.7269, lng: -73.9811 },
+];
+
+const streetLeg = (path: [number, number][]): RouteLeg => ({
+  distanceMeters: 1200,
+  durationSeconds: 900,
+  path,
+  estimated: false,
+});
+
+describe("estimateLegs", () => {
+  it("walks a bit further than the straight line between each pair of stops", () => {
+    const legs = estimateLegs(stops);
+
+    expect(legs).toHaveLength(2);
+    expect(legs[0].distanceMeters).toBeGreaterThan(1000);
+    expect(legs[0].distanceMeters).toBeLessThan(1400);
+    // About 15 minutes for a kilometre and a bit
+    expect(legs[0].durationSeconds / 60).toBeCloseTo(15, -1);
+    expect(legs[0]).toMatchObject({ estimated: true, path: [[-73.9911, 40.7359], [-73.9911, 40.7269]] });
+  });
+
+  it("has nothing to walk for a single stop", () => {
+    expect(estimateLegs(stops.slice(0, 1))).toEqual([]);
+  });
+});
+
+describe("routeLegs", () => {
+  it("uses the provider's legs", async () => {
+    const legs = [streetLeg([]), streetLeg([])];
+    const provider: RoutingProvider = { walkingLegs: vi.fn().mockResolvedValue(legs) };
+
+    expect(await routeLegs(stops, provider)).toBe(legs);
+    expect(provider.walkingLegs).toHaveBeenCalledWith(stops);
+  });
+
+  it("falls back to the estimate when the provider fails or doesn't fit", async () => {
+    const estimate = estimateLegs(stops);
+    const failing: RoutingProvider = { walkingLegs: vi.fn().mockRejectedValue(new Error("offline")) };
+    const short: RoutingProvider = { walkingLegs: vi.fn().mockResolvedValue([streetLeg([])]) };
+    const empty: RoutingProvider = { walkingLegs: vi.fn().mockResolvedValue(null) };
+
+    expect(await routeLegs(stops, failing)).toEqual(estimate);
+    expect(await routeLegs(stops, short)).toEqual(estimate);
+    expect(await routeLegs(stops, empty)).toEqual(estimate);
+    expect(await routeLegs(stops, null)).toEqual(estimate);
+  });
+});
+
+describe("routePath", () => {
+  it("joins the legs without repeating the stops between them", () => {
+    const path = routePath([
+      streetLeg([[0, 0], [0, 1], [1, 1]]),
+      streetLeg([[1, 1], [2, 1]]),
+    ]);
+    expect(path).toEqual([[0, 0], [0, 1], [1, 1], [2, 1]]);
+  });
+});
+
+describe("formatting", () => {
+  it("formats distances", () => {
+    expect(formatDistance(643)).toBe("640 m");
+    expect(formatDistance(1430)).toBe("1.4 km");
+  });
+
+  it("formats walking times", () => {
+    expect(formatWalkTime(20)).toBe("1 min");
+    expect(formatWalkTime(540)).toBe("9 min");
+    expect(formatWalkTime(3600)).toBe("1 hr");
+    expect(formatWalkTime(3900)).toBe("1 hr 5 min");
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { byLatestVisit, deriveVisitFields, formatVisitDate, localDate } from "@/lib/visits";
+
+const visit = (visited_on: string, rating: number | null, created_at = "2025-01-01T00:00:00.000Z") => ({
+  visited_on,
+  rating,
+  created_at,
+});
+
+describe("deriveVisitFields", () => {
+  it("takes the rating of the latest rated visit", () => {
+    expect(deriveVisitFields([])).toEqual({ is_visited: false, personal_rating: null });
+    expect(
+      deriveVisitFields([visit("2025-03-01", 2), visit("2025-05-01", null), visit("2025-04-01", 4)])
+    ).toEqual({ is_visited: true, personal_rating: 4 });
+    expect(deriveVisitFields([visit("2025-03-01", null)])).toEqual({ is_visited: true, personal_rating: null });
+  });
+
+  it("breaks ties on the same day by when the visit was logged", () => {
+    const visits = [visit("2025-03-01", 5, "2025-03-01T12:00:00.000Z"), visit("2025-03-01", 3, "2025-03-01T20:00:00.000Z")];
+    expect(deriveVisitFields(visits).personal_rating).toBe(3);
+    expect([...visits].sort(byLatestVisit).map((v) => v.rating)).toEqual([3, 5]);
+  });
+});
+
+describe("visit dates", () => {
+  it("formats the day without shifting it across time zones", () => {
+    expect(formatVisitDate("2025-03-04")).toBe("Mar 4, 2025");
+    expect(formatVisitDate("2024-12-31")).toBe("Dec 31, 2024");
+  });
+
+  it("gives today as a date input value", () => {
+    expect(localDate(new Date(2025, 0, 9, 23, 30))).toBe("2025-01-09");
+  });
+});
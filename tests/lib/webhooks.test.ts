@@ -0,0 +1,178 @@
+import { createHmac } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { describe, expect, it } from "vitest";
+import {
+  deliverWebhooks,
+  isPrivateAddress,
+  isPrivateUrl,
+  signWebhookBody,
+  verifyWebhookSignature,
+} from "@/lib/webhooks";
+
+const NOW = Date.UTC(2025, 0, 1);
+const SECRET = "whsec_test";
+
+describe("webhook signatures", () => {
+  it("signs the timestamp and body with HMAC-SHA256", async () => {
+    const header = await signWebhookBody(SECRET, '{"event":"ping"}', NOW);
+    const expected = createHmac("sha256", SECRET).update('1735689600.{"event":"ping"}').digest("hex");
+    expect(header).toBe(`t=1735689600,v1=${expected}`);
+  });
+
+  it("verifies only the untouched body, recently signed, with the right secret", async () => {
+    const body = '{"event":"pin.added"}';
+    const header = await signWebhookBody(SECRET, body, NOW);
+
+    expect(await verifyWebhookSignature(SECRET, body, header, NOW + 60_000)).toBe(true);
+    expect(await verifyWebhookSignature(SECRET, '{"event":"pin.removed"}', header, NOW)).toBe(false);
+    expect(await verifyWebhookSignature("whsec_other", body, header, NOW)).toBe(false);
+    expect(await verifyWebhookSignature(SECRET, body, header, NOW + 10 * 60_000)).toBe(false);
+    expect(await verifyWebhookSignature(SECRET, body, "v1=abc", NOW)).toBe(false);
+    expect(await verifyWebhookSignature(SECRET, body, null, NOW)).toBe(false);
+  });
+});
+
+describe("isPrivateUrl", () => {
+  it("catches loopback, private and link-local hosts", () => {
+    for (const url of [
+      "http://localhost:4000",
+      "http://127.0.0.1/hook",
+      "http://10.1.2.3",
+      "http://172.20.0.1",
+      "http://192.168.1.10",
+      "http://169.254.169.254/latest/meta-data",
+      "http://[::1]:8080",
+      "http://[fd00::1]",
+      "http://[::ffff:127.0.0.1]",
+      "http://[::ffff:a9fe:a9fe]/latest/meta-data",
+      "http://100.64.0.1",
+      "http://2130706433",
+      "not a url",
+    ]) {
+      expect(isPrivateUrl(url), url).toBe(true);
+    }
+    for (const url of [
+      "https://hooks.slack.com/services/x",
+      "http://172.32.0.1",
+      "https://8.8.8.8",
+      "http://100.128.0.1",
+      "http://[::ffff:808:808]",
+      "https://fcbarcelona.com",
+    ]) {
+      expect(isPrivateUrl(url), url).toBe(false);
+    }
+  });
+});
+
+describe("isPrivateAddress", () => {
+  it("checks resolved addresses the same way, IPv4-mapped ones as IPv4", () => {
+    for (const address of ["127.0.0.1", "::1", "::ffff:10.0.0.5", "::ffff:c0a8:101", "fe80::1", "100.100.100.100"]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+    for (const address of ["93.184.216.34", "2606:2800:220:1::", "::ffff:5db8:d822"]) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+});
+
+describe("deliverWebhooks", () => {
+  const claimed = (id: string, url: string) => ({
+    id,
+    webhook_id: "hook",
+    list_id: "list",
+    event: "pin.added",
+    payload: { pin: { id: "pin" } },
+    attempts: 1,
+    created_at: "2025-01-01T00:00:00.000Z",
+    url,
+    secret: SECRET,
+  });
+
+  // Stands in for the queue functions: hands out `due`, records each report
+  function fakeQueue(due: ReturnType<typeof claimed>[]) {
+    const reports: Record<string, unknown>[] = [];
+    const rpc = async (fn: string, args: Record<string, unknown>) => {
+      if (fn === "claim_webhook_deliveries") return { data: due, error: null };
+      reports.push(args);
+      const status = Number(args.p_response_status);
+      return { data: status >= 200 && status < 300 ? "delivered" : args.p_give_up ? "failed" : "pending", error: null };
+    };
+    return { supabase: { rpc } as unknown as SupabaseClient, reports };
+  }
+
+  it("posts signed deliveries and reports each outcome", async () => {
+    const { supabase, reports } = fakeQueue([
+      claimed("ok", "https://example.com/ok"),
+      claimed("down", "https://example.com/down"),
+      claimed("offline", "https://example.com/offline"),
+    ]);
+    const requests: { url: string; init: RequestInit }[] = [];
+    const fetch = async (url: string | URL | Request, init?: RequestInit) => {
+      requests.push({ url: String(url), init: init! });
+      if (String(url).endsWith("/offline")) throw new Error("connect ECONNREFUSED");
+      return new Response(null, { status: String(url).endsWith("/ok") ? 204 : 503 });
+    };
+
+    const result = await deliverWebhooks(supabase, { fetch: fetch as typeof globalThis.fetch, now: () => NOW });
+
+    expect(result).toEqual({ delivered: 1, retrying: 2, failed: 0 });
+    expect(reports).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ p_id: "ok", p_response_status: 204, p_error: null }),
+        expect.objectContaining({ p_id: "down", p_response_status: 503, p_error: "HTTP 503" }),
+        expect.objectContaining({ p_id: "offline", p_response_status: null, p_error: "connect ECONNREFUSED" }),
+      ])
+    );
+
+    const { init } = requests.find((r) => r.url.endsWith("/ok"))!;
+    const headers = init.headers as Record<string, string>;
+    expect(JSON.parse(init.body as string)).toEqual({
+      id: "ok",
+      event: "pin.added",
+      list_id: "list",
+      created_at: "2025-01-01T00:00:00.000Z",
+      data: { pin: { id: "pin" } },
+    });
+    expect(headers["X-Webhook-Event"]).toBe("pin.added");
+    expect(headers["X-Webhook-Delivery"]).toBe("ok");
+    expect(await verifyWebhookSignature(SECRET, init.body as string, headers["X-Webhook-Signature"], NOW)).toBe(true);
+  });
+
+  it("gives up on private addresses unless they're allowed", async () => {
+    const fetch = async () => new Response(null, { status: 200 });
+
+    const blocked = fakeQueue([claimed("local", "http://localhost:4000")]);
+    expect(await deliverWebhooks(blocked.supabase, { fetch })).toEqual({ delivered: 0, retrying: 0, failed: 1 });
+    expect(blocked.reports[0]).toMatchObject({ p_give_up: true });
+
+    // A public-looking name that resolves to a private address
+    const rebound = fakeQueue([claimed("rebound", "https://hooks.example.com/x")]);
+    const lookup = async () => ["93.184.216.34", "127.0.0.1"];
+    expect(await deliverWebhooks(rebound.supabase, { fetch, lookup })).toEqual({ delivered: 0, retrying: 0, failed: 1 });
+    expect(rebound.reports[0]).toMatchObject({ p_give_up: true });
+
+    const allowed = fakeQueue([claimed("local", "http://localhost:4000")]);
+    expect(await deliverWebhooks(allowed.supabase, { fetch, allowPrivateUrls: true })).toEqual({
+      delivered: 1,
+      retrying: 0,
+      failed: 0,
+    });
+  });
+
+  it("retries when the host doesn't resolve, and sends to public addresses", async () => {
+    const fetch = async () => new Response(null, { status: 200 });
+    const { supabase, reports } = fakeQueue([
+      claimed("unresolved", "https://gone.example.com/x"),
+      claimed("public", "https://hooks.example.com/x"),
+    ]);
+    const lookup = async (hostname: string) => {
+      if (hostname === "gone.example.com") throw new Error("getaddrinfo ENOTFOUND gone.example.com");
+      return ["93.184.216.34"];
+    };
+
+    expect(await deliverWebhooks(supabase, { fetch, lookup })).toEqual({ delivered: 1, retrying: 1, failed: 0 });
+    expect(reports).toContainEqual(
+      expect.objectContaining({ p_id: "unresolved", p_error: "getaddrinfo ENOTFOUND gone.example.com", p_give_up: false })
+    );
+  });
+});
@@ -0,0 +1,15 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) },
+  },
+  test: {
+    include: ["tests/**/*.test.ts"],
+    environment: "node",
+    // Each database test file boots its own Postgres with PostGIS
+    testTimeout: 30_000,
+    hookTimeout: 120_000,
+  },
+});